@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+// Plays bot-vs-bot games headlessly and prints win rates, scores and failures.
+// Loads src/lib/botSimulator.ts through Vite so the app's path aliases resolve.
+//
+//   npm run simulate -- --game cribbage --games 5000 --policies bot,random --seed 42
+
+import { parseArgs } from 'node:util';
+import { createServer } from 'vite';
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --game <id>          cribbage | gin-rummy | yahtzee | horses | ship-captain-crew (default cribbage)
+  --games <n>          games to play (default 1000)
+  --policies <list>    one policy per seat, bot or random (default bot,bot)
+  --seed <seed>        base seed; game i uses "<seed>:<i>" (default: current time)
+  --points <n>         match target for cribbage and gin rummy
+  --json               print the report as JSON
+  --help               show this message
+
+Exits with status 1 if any game crashed or broke an invariant.`;
+
+const { values } = parseArgs({
+  options: {
+    game: { type: 'string', default: 'cribbage' },
+    games: { type: 'string', default: '1000' },
+    policies: { type: 'string', default: 'bot,bot' },
+    seed: { type: 'string' },
+    points: { type: 'string' },
+    json: { type: 'boolean', default: false },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const server = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  logLevel: 'error',
+});
+
+try {
+  const { runSimulation, formatSimulationReport, SIM_GAMES, BOT_POLICIES } =
+    await server.ssrLoadModule('/src/lib/botSimulator.ts');
+
+  const policies = values.policies.split(',').map(p => p.trim());
+  const games = Number(values.games);
+  const pointsToWin = values.points ? Number(values.points) : undefined;
+
+  const problems = [];
+  if (!SIM_GAMES.includes(values.game)) problems.push(`Unknown game "${values.game}"`);
+  if (!Number.isInteger(games) || games < 1) problems.push(`--games must be a positive integer`);
+  if (policies.length < 2) problems.push('Need at least two --policies');
+  for (const p of policies) {
+    if (!BOT_POLICIES.includes(p)) problems.push(`Unknown policy "${p}"`);
+  }
+  if (pointsToWin !== undefined && !(pointsToWin > 0)) problems.push('--points must be a positive number');
+
+  if (problems.length > 0) {
+    console.error(`${problems.join('\n')}\n\n${USAGE}`);
+    process.exitCode = 2;
+  } else {
+    // The engines log their own progress; keep the report readable
+    const { log, info, debug } = console;
+    console.log = console.info = console.debug = () => {};
+    let report;
+    try {
+      report = runSimulation({ game: values.game, games, policies, seed: values.seed, pointsToWin });
+    } finally {
+      Object.assign(console, { log, info, debug });
+    }
+    console.log(values.json ? JSON.stringify(report, null, 2) : formatSimulationReport(report));
+    if (report.failed > 0) process.exitCode = 1;
+  }
+} finally {
+  await server.close();
+}
@@ -11,6 +11,7 @@ import Auth from "./pages/Auth";
 import Game from "./pages/Game";
 import HandEvalTest from "./pages/HandEvalTest";
 import HandEvalDebug from "./pages/HandEvalDebug";
+import CribbageAnalyzer from "./pages/CribbageAnalyzer";
 import DicePreview from "./pages/DicePreview";
 import DeadlineDebug from "./pages/DeadlineDebug";
 import { RouteErrorBoundary } from "@/components/RouteErrorBoundary";
@@ -52,6 +53,7 @@ const App = () => {
             />
             <Route path="/test-hands" element={<HandEvalTest />} />
             <Route path="/debug-hands" element={<HandEvalDebug />} />
+            <Route path="/cribbage-analyzer" element={<CribbageAnalyzer />} />
             <Route path="/dice-preview" element={<DicePreview />} />
             <Route path="/debug-deadlines" element={<DeadlineDebug />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
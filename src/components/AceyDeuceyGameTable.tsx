@@ -0,0 +1,612 @@
+// Acey-Deucey Game Table - Mobile layout following StudGameTable
+// Circular felt with the seats around the rim and the pot in the middle, the current player's
+// posts above it, and the bet controls below. Chips fly from the pot to a winner
+// (PotToPlayerAnimation) and from a loser into the pot (ChipTransferAnimation, with the pot as
+// the target seat: its chip stack carries data-chip-center="0").
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useWakeLock } from '@/hooks/useWakeLock';
+import type { AceyDeuceyState, AceyDeuceyTurn } from '@/lib/aceyDeuceyTypes';
+import { aceyDeuceyModule, type AceyDeuceyAction } from '@/lib/aceyDeuceyModule';
+import {
+  getAceyDeuceyChipChanges,
+  getAceyDeuceyMaxBet,
+  getAceyDeuceySpread,
+  getAceyDeuceyUnseenCards,
+} from '@/lib/aceyDeuceyGameLogic';
+import {
+  endAceyDeuceyGame,
+  recordAceyDeuceyHandResult,
+  startNextAceyDeuceyHand,
+  updateAceyDeuceyState,
+} from '@/lib/aceyDeuceyRoundLogic';
+import { logModuleAction, recordDraws } from '@/lib/handActionLog';
+import { runWithFairDeck } from '@/lib/handFairness';
+import { PlayingCard } from './PlayingCard';
+import { ChipStack } from './ChipStack';
+import { ChipChangeIndicator } from './ChipChangeIndicator';
+import { ChipTransferAnimation } from './ChipTransferAnimation';
+import { PotToPlayerAnimation } from './PotToPlayerAnimation';
+import { MobileChatPanel } from './MobileChatPanel';
+import { HandHistory } from './HandHistory';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { useVisualPreferences } from '@/hooks/useVisualPreferences';
+import { useGameChat } from '@/hooks/useGameChat';
+import { cn, formatChipValue } from '@/lib/utils';
+import { getDisplayName } from '@/lib/botAlias';
+import peoriaBridgeMobile from '@/assets/peoria-bridge-mobile.jpg';
+import { MessageSquare, Clock, Spade } from 'lucide-react';
+
+interface Player {
+  id: string;
+  user_id: string;
+  position: number;
+  chips: number;
+  is_bot?: boolean;
+  profiles?: { username: string };
+}
+
+interface AceyDeuceyGameTableProps {
+  gameId: string;
+  roundId: string;
+  dealerGameId: string | null;
+  players: Player[];
+  currentUserId: string;
+  isGameOver: boolean;
+  onGameComplete: () => void;
+  onRefetch: () => void;
+}
+
+/** The pot's "seat" for ChipTransferAnimation (real seats are 1-7) */
+const POT_POSITION = 0;
+
+// Seat spots around the felt, as % of its size; the viewer sits at the bottom
+function getSeatSpot(index: number, count: number): { left: string; top: string } {
+  const angle = Math.PI / 2 + (index / count) * Math.PI * 2;
+  return {
+    left: `${50 + Math.cos(angle) * 40}%`,
+    top: `${50 + Math.sin(angle) * 40}%`,
+  };
+}
+
+const OUTCOME_TEXT: Record<AceyDeuceyTurn['outcome'], string> = {
+  win: 'in between',
+  lose: 'outside',
+  post: 'hit the post',
+  pass: 'passed',
+};
+
+export const AceyDeuceyGameTable = ({
+  gameId,
+  roundId,
+  dealerGameId,
+  players,
+  currentUserId,
+  isGameOver,
+  onGameComplete,
+  onRefetch,
+}: AceyDeuceyGameTableProps) => {
+  const { getTableColors } = useVisualPreferences();
+  const tableColors = getTableColors();
+
+  // Prevent screen from dimming during gameplay
+  useWakeLock(true);
+
+  const { allMessages, sendMessage, isSending: isChatSending } = useGameChat(gameId, players, currentUserId);
+
+  const [aceyState, setAceyState] = useState<AceyDeuceyState | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [activeTab, setActiveTab] = useState<'cards' | 'chat' | 'history'>('cards');
+  const [betAmount, setBetAmount] = useState(1);
+  // Polls right after a local write can still return the state from before it
+  const optimisticUntilRef = useRef(0);
+  const feltRef = useRef<HTMLDivElement>(null);
+
+  const currentPlayer = players.find(p => p.user_id === currentUserId);
+  const currentPlayerId = currentPlayer?.id;
+
+  // Reset per-hand state when a new hand is dealt
+  useEffect(() => {
+    setAceyState(null);
+  }, [roundId]);
+
+  // Realtime subscription + polling fallback (same as gin rummy)
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!roundId) return;
+    let isActive = true;
+
+    const applyState = (state: AceyDeuceyState, source: string) => {
+      if (!isActive) return;
+      if (source === 'poll' && Date.now() < optimisticUntilRef.current) return;
+      setAceyState(state);
+    };
+
+    const channel = supabase
+      .channel(`acey-deucey-${roundId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'rounds',
+          filter: `id=eq.${roundId}`,
+        },
+        (payload) => {
+          const newData = payload.new as { game_state?: AceyDeuceyState };
+          if (newData.game_state) {
+            applyState(newData.game_state, 'realtime');
+          }
+        }
+      )
+      .subscribe();
+
+    const poll = async () => {
+      if (!isActive) return;
+
+      try {
+        const { data } = await supabase
+          .from('rounds')
+          .select('game_state')
+          .eq('id', roundId)
+          .maybeSingle();
+
+        if (data?.game_state && isActive) {
+          applyState(data.game_state as unknown as AceyDeuceyState, 'poll');
+        }
+      } catch {
+        // Silent fail
+      }
+
+      if (isActive) {
+        pollTimerRef.current = setTimeout(poll, 1500);
+      }
+    };
+
+    // The first poll loads the hand
+    pollTimerRef.current = setTimeout(poll, 0);
+
+    return () => {
+      isActive = false;
+      if (pollTimerRef.current) clearTimeout(pollTimerRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [roundId]);
+
+  // Apply an action and write it back. Real-money hands turn their cards off the top of the
+  // hand's committed deck; the values drawn go into the action log for replays.
+  const dispatch = useCallback(async (state: AceyDeuceyState, action: AceyDeuceyAction) => {
+    const { next, draws } = await runWithFairDeck(
+      gameId,
+      52,
+      fairRandom => {
+        const { random, draws } = recordDraws(fairRandom);
+        return { next: aceyDeuceyModule.reduce(state, action, random), draws };
+      },
+      ({ next }) => getAceyDeuceyUnseenCards(state).length - getAceyDeuceyUnseenCards(next).length
+    );
+    void logModuleAction(roundId, state, action, draws);
+    optimisticUntilRef.current = Date.now() + 1500;
+    setAceyState(next);
+    await updateAceyDeuceyState(roundId, next);
+  }, [gameId, roundId]);
+
+  const fetchStoredState = useCallback(async (): Promise<AceyDeuceyState | null> => {
+    const { data } = await supabase
+      .from('rounds')
+      .select('game_state')
+      .eq('id', roundId)
+      .maybeSingle();
+    return (data?.game_state as unknown as AceyDeuceyState | null) ?? null;
+  }, [roundId]);
+
+  // ─── Bot Action Loop ────────────────────────────────────────────
+  const botActionInProgress = useRef(false);
+
+  useEffect(() => {
+    if (!aceyState || aceyState.phase === 'complete' || botActionInProgress.current) return;
+
+    const botId = aceyState.currentTurnPlayerId;
+    if (!botId || !players.find(p => p.id === botId)?.is_bot) return;
+
+    const runBotAction = async () => {
+      if (botActionInProgress.current) return;
+      botActionInProgress.current = true;
+
+      try {
+        // Add a human-like delay
+        await new Promise(resolve => setTimeout(resolve, 1200 + Math.random() * 800));
+
+        // Re-fetch latest state to prevent stale-closure issues
+        const state = await fetchStoredState();
+        if (!state || state.phase === 'complete' || state.currentTurnPlayerId !== botId) return;
+
+        const action = aceyDeuceyModule.botAction(state, botId);
+        if (action) await dispatch(state, action);
+      } catch (err) {
+        console.error('[ACEY-DEUCEY BOT] Error:', err);
+      } finally {
+        botActionInProgress.current = false;
+      }
+    };
+
+    const timeout = setTimeout(runBotAction, 300);
+    return () => clearTimeout(timeout);
+  }, [aceyState, players, dispatch, fetchStoredState]);
+
+  // ─── Chip Animations ────────────────────────────────────────────
+  // Each newly settled turn sends its chips between the seat and the pot
+  const [potToPlayer, setPotToPlayer] = useState<{ triggerId: string; amount: number; position: number } | null>(null);
+  const [playerToPot, setPlayerToPot] = useState<{ triggerId: string; amount: number; position: number; playerId: string } | null>(null);
+  const seenTurnsRef = useRef<{ roundId: string; count: number } | null>(null);
+
+  useEffect(() => {
+    if (!aceyState) return;
+    const seen = seenTurnsRef.current;
+    seenTurnsRef.current = { roundId, count: aceyState.turns.length };
+    // No animations for turns already settled when the table loaded
+    if (!seen || seen.roundId !== roundId || aceyState.turns.length <= seen.count) return;
+
+    const turn = aceyState.turns[aceyState.turns.length - 1];
+    const position = players.find(p => p.id === turn.playerId)?.position;
+    if (position === undefined || turn.chipChange === 0) return;
+
+    const triggerId = `acey-${roundId}-${aceyState.turns.length}`;
+    if (turn.chipChange > 0) {
+      setPotToPlayer({ triggerId, amount: turn.chipChange, position });
+    } else {
+      setPlayerToPot({ triggerId, amount: -turn.chipChange, position, playerId: turn.playerId });
+    }
+  }, [aceyState, roundId, players]);
+
+  const getClockwiseDistance = useCallback((position: number) => {
+    const myPosition = currentPlayer?.position ?? 1;
+    return (position - myPosition + 7) % 7;
+  }, [currentPlayer?.position]);
+
+  // ─── Hand Completion & Next Hand ──────────────────────────────
+  // Refs so a parent re-render doesn't restart the completion sequence
+  const onGameCompleteRef = useRef(onGameComplete);
+  const onRefetchRef = useRef(onRefetch);
+  useEffect(() => {
+    onGameCompleteRef.current = onGameComplete;
+    onRefetchRef.current = onRefetch;
+  }, [onGameComplete, onRefetch]);
+  const completedRoundRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!aceyState || aceyState.phase !== 'complete' || completedRoundRef.current === roundId) return;
+    if (!dealerGameId || isGameOver) return;
+
+    completedRoundRef.current = roundId;
+
+    const processCompletion = async () => {
+      try {
+        // Let the last card and the chips land before the hand is settled
+        await new Promise(resolve => setTimeout(resolve, 3000));
+        await recordAceyDeuceyHandResult(gameId, roundId, aceyState);
+
+        if (aceyState.pot > 0) {
+          const result = await startNextAceyDeuceyHand(gameId, dealerGameId, aceyState);
+          if (result.success) {
+            onRefetchRef.current();
+            return;
+          }
+        }
+
+        await endAceyDeuceyGame(gameId, aceyState);
+        onGameCompleteRef.current();
+      } catch (err) {
+        console.error('[ACEY-DEUCEY] Hand completion error:', err);
+      }
+    };
+
+    processCompletion();
+  }, [aceyState, roundId, dealerGameId, gameId, isGameOver]);
+
+  const getPlayerUsername = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    if (!player) return '';
+    return getDisplayName(players, player, player.profiles?.username || 'Player');
+  };
+
+  const isMyTurn = !!aceyState && aceyState.phase !== 'complete' && aceyState.currentTurnPlayerId === currentPlayerId;
+  const maxBet = aceyState ? getAceyDeuceyMaxBet(aceyState) : 0;
+
+  // Start the bet at the minimum each time the turn comes round
+  useEffect(() => {
+    if (isMyTurn) setBetAmount(1);
+  }, [isMyTurn, aceyState?.posts.length]);
+
+  const handleAction = async (action: AceyDeuceyAction) => {
+    if (!aceyState || isProcessing) return;
+    setIsProcessing(true);
+    try {
+      await dispatch(aceyState, action);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (!aceyState || !roundId) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center bg-slate-900">
+        <p className="text-sm font-bold text-poker-gold animate-pulse">
+          {roundId ? "Shuffling up and dealing..." : 'Awaiting antes...'}
+        </p>
+      </div>
+    );
+  }
+
+  // Seats clockwise starting with the viewer at the bottom
+  const seats = [...players]
+    .filter(p => aceyState.seatOrder.includes(p.id))
+    .sort((a, b) => a.position - b.position);
+  const myIndex = seats.findIndex(p => p.id === currentPlayerId);
+  const orderedSeats = myIndex > 0 ? [...seats.slice(myIndex), ...seats.slice(0, myIndex)] : seats;
+
+  // Chips only move at the end of the hand, so seats show this hand's running total
+  const handChanges = getAceyDeuceyChipChanges(aceyState);
+  const lastTurn = aceyState.turns[aceyState.turns.length - 1];
+  const spread = getAceyDeuceySpread(aceyState.posts, aceyState.aceHigh);
+  const turnName = aceyState.currentTurnPlayerId ? getPlayerUsername(aceyState.currentTurnPlayerId) : '';
+
+  const describeTurn = (turn: AceyDeuceyTurn) => {
+    const name = getPlayerUsername(turn.playerId);
+    if (turn.outcome === 'pass') return `${name} passed`;
+    const change = turn.chipChange > 0 ? `wins $${formatChipValue(turn.chipChange)}` : `pays $${formatChipValue(-turn.chipChange)}`;
+    return `${name} bet $${formatChipValue(turn.bet)}: ${OUTCOME_TEXT[turn.outcome]}, ${change}`;
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Felt Area */}
+      <div
+        className="relative flex items-start justify-center pt-1"
+        style={{
+          height: 'calc(min(90vw, calc(55vh - 32px)) + 10px)',
+          minHeight: '300px',
+        }}
+      >
+        <div className="absolute inset-0 bg-slate-200 z-0" />
+
+        <div
+          ref={feltRef}
+          className="relative z-10"
+          style={{
+            width: 'min(90vw, calc(55vh - 32px))',
+            height: 'min(90vw, calc(55vh - 32px))',
+          }}
+        >
+          <div
+            className="absolute inset-0 rounded-full overflow-hidden border-2 border-white/80"
+            style={
+              tableColors.showBridge
+                ? { backgroundImage: `url(${peoriaBridgeMobile})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+                : { background: `radial-gradient(ellipse at center, ${tableColors.color} 0%, ${tableColors.darkColor} 100%)` }
+            }
+          />
+
+          {/* The posts, and the card turned between them once a bet is down */}
+          <div className="absolute left-1/2 top-[26%] -translate-x-1/2 z-20 flex items-center gap-1">
+            {aceyState.posts.length > 0 ? (
+              <>
+                <PlayingCard card={aceyState.posts[0]} size="md" />
+                <div className="w-6" />
+                {aceyState.posts[1] ? <PlayingCard card={aceyState.posts[1]} size="md" /> : <PlayingCard isHidden size="md" />}
+              </>
+            ) : lastTurn ? (
+              <>
+                <PlayingCard card={lastTurn.posts[0]} size="md" />
+                {lastTurn.card ? <PlayingCard card={lastTurn.card} size="md" className="-translate-y-2" /> : <div className="w-6" />}
+                <PlayingCard card={lastTurn.posts[1]} size="md" />
+              </>
+            ) : null}
+          </div>
+
+          {/* Pot - dead center, where PotToPlayerAnimation starts */}
+          <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-20 flex flex-col items-center">
+            <div data-chip-center={POT_POSITION}>
+              <ChipStack amount={aceyState.pot} size="sm" />
+            </div>
+            <span className="text-xs font-bold text-poker-gold">Pot ${formatChipValue(aceyState.pot)}</span>
+            {aceyState.phase === 'betting' && (
+              <span className="text-[10px] text-white/70">
+                {spread} {spread === 1 ? 'rank' : 'ranks'} between
+              </span>
+            )}
+          </div>
+
+          {/* Seats */}
+          {orderedSeats.map((player, i) => {
+            const spot = getSeatSpot(i, orderedSeats.length);
+            const isTurn = aceyState.currentTurnPlayerId === player.id && aceyState.phase !== 'complete';
+            const change = handChanges[player.id] ?? 0;
+
+            return (
+              <div
+                key={player.id}
+                className="absolute z-30 -translate-x-1/2 -translate-y-1/2 flex flex-col items-center"
+                style={spot}
+              >
+                <div
+                  data-chip-center={player.position}
+                  className={cn(
+                    'rounded-lg px-2 py-0.5 bg-black/70 border text-center min-w-[64px]',
+                    isTurn ? 'border-yellow-400 animate-pulse' : 'border-white/20'
+                  )}
+                >
+                  <div className="flex items-center justify-center gap-1">
+                    {aceyState.dealerPlayerId === player.id && (
+                      <span className="w-4 h-4 rounded-full bg-red-600 border border-white text-[9px] font-bold text-white flex items-center justify-center">D</span>
+                    )}
+                    <span className="text-[11px] font-semibold text-white truncate max-w-[70px]">
+                      {getPlayerUsername(player.id)}
+                    </span>
+                  </div>
+                  <div className="text-[11px] text-poker-gold font-bold">${formatChipValue(player.chips + change)}</div>
+                </div>
+                {change !== 0 && (
+                  <span className={cn('mt-0.5 text-[10px] font-bold rounded px-1 bg-black/50', change > 0 ? 'text-green-300' : 'text-red-300')}>
+                    {change > 0 ? '+' : '-'}${formatChipValue(Math.abs(change))}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+
+          <PotToPlayerAnimation
+            triggerId={potToPlayer?.triggerId ?? null}
+            amount={potToPlayer?.amount ?? 0}
+            winnerPosition={potToPlayer?.position ?? 0}
+            currentPlayerPosition={currentPlayer?.position ?? null}
+            getClockwiseDistance={getClockwiseDistance}
+            containerRef={feltRef}
+            gameType="acey-deucey"
+            onAnimationEnd={() => setPotToPlayer(null)}
+          />
+          <ChipTransferAnimation
+            triggerId={playerToPot?.triggerId ?? null}
+            amount={playerToPot?.amount ?? 0}
+            winnerPosition={POT_POSITION}
+            loserPositions={playerToPot ? [playerToPot.position] : []}
+            loserPlayerIds={playerToPot ? [playerToPot.playerId] : []}
+            currentPlayerPosition={currentPlayer?.position ?? null}
+            getClockwiseDistance={getClockwiseDistance}
+            containerRef={feltRef}
+            onAnimationEnd={() => setPlayerToPot(null)}
+          />
+        </div>
+      </div>
+
+      {/* Bottom section */}
+      <div className="flex-1 min-h-0 flex flex-col bg-gradient-to-t from-background via-background to-background/95 border-t border-border overflow-hidden">
+        {/* Status */}
+        <div className="min-h-[44px] shrink-0 flex flex-col items-center justify-center px-4">
+          {aceyState.phase === 'complete' ? (
+            <div className="w-full bg-poker-gold/95 rounded-lg px-3 py-1.5 shadow-xl border-2 border-amber-900">
+              <p className="text-slate-900 font-bold text-xs text-center truncate">
+                {aceyState.pot <= 0 && lastTurn ? `${getPlayerUsername(lastTurn.playerId)} takes the pot!` : `Pot carries over: $${formatChipValue(aceyState.pot)}`}
+              </p>
+            </div>
+          ) : (
+            <span className="text-sm text-foreground font-medium">
+              {isMyTurn ? 'Your turn' : `${turnName}'s turn`}
+            </span>
+          )}
+          {lastTurn && (
+            <span className="text-[11px] text-muted-foreground truncate max-w-full">{describeTurn(lastTurn)}</span>
+          )}
+        </div>
+
+        {/* Tab navigation */}
+        <div className="flex items-center justify-center gap-1 px-4 py-1.5 border-b border-border/50">
+          {([
+            ['cards', Spade],
+            ['chat', MessageSquare],
+            ['history', Clock],
+          ] as const).map(([tab, Icon]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={cn(
+                'flex-1 flex items-center justify-center py-2 px-3 rounded-md transition-all',
+                activeTab === tab ? 'bg-primary/20 text-foreground' : 'text-muted-foreground/50 hover:text-muted-foreground',
+                tab === 'cards' && isMyTurn && activeTab !== 'cards' && 'animate-pulse ring-2 ring-red-500'
+              )}
+            >
+              <Icon className="w-5 h-5" />
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'cards' && (
+          <div className="px-3 flex-1 min-h-0 overflow-y-auto">
+            {/* Calling a first-post ace */}
+            {isMyTurn && aceyState.phase === 'calling-ace' && (
+              <div className="space-y-2 py-2">
+                <p className="text-xs text-center text-muted-foreground">Call your ace before the second post</p>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button variant="secondary" disabled={isProcessing} onClick={() => handleAction({ type: 'call_ace', playerId: currentPlayerId!, high: false })}>
+                    Ace Low
+                  </Button>
+                  <Button variant="secondary" disabled={isProcessing} onClick={() => handleAction({ type: 'call_ace', playerId: currentPlayerId!, high: true })}>
+                    Ace High
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* Betting controls */}
+            {isMyTurn && aceyState.phase === 'betting' && (
+              <div className="space-y-2 py-2">
+                <div className="grid grid-cols-2 gap-2">
+                  <Button variant="secondary" disabled={isProcessing} onClick={() => handleAction({ type: 'pass', playerId: currentPlayerId! })}>
+                    Pass
+                  </Button>
+                  <Button
+                    disabled={isProcessing || maxBet < 1}
+                    onClick={() => handleAction({ type: 'bet', playerId: currentPlayerId!, amount: betAmount })}
+                  >
+                    {betAmount === aceyState.pot ? 'Bet the pot' : `Bet $${formatChipValue(betAmount)}`}
+                  </Button>
+                </div>
+                {maxBet > 1 && (
+                  <Slider
+                    min={1}
+                    max={maxBet}
+                    step={1}
+                    value={[betAmount]}
+                    onValueChange={([value]) => setBetAmount(value)}
+                  />
+                )}
+                <p className="text-[11px] text-center text-muted-foreground">
+                  Hitting a post costs {aceyState.postPenalty === 1 ? 'the bet' : `${aceyState.postPenalty}× the bet`}
+                </p>
+              </div>
+            )}
+
+            {/* Player info */}
+            {currentPlayer && (
+              <div className="relative flex items-center justify-center gap-2 py-2">
+                <p className="text-sm font-semibold text-foreground">{currentPlayer.profiles?.username || 'You'}</p>
+                <span className={cn('font-bold text-lg', currentPlayer.chips < 0 ? 'text-destructive' : 'text-poker-gold')}>
+                  {formatChipValue(currentPlayer.chips)}
+                </span>
+                <ChipChangeIndicator currentChips={currentPlayer.chips} playerId={currentPlayer.id} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'chat' && (
+          <div className="flex-1 min-h-0 flex flex-col">
+            <MobileChatPanel
+              messages={allMessages}
+              onSend={sendMessage}
+              isSending={isChatSending}
+              currentUserId={currentUserId}
+            />
+          </div>
+        )}
+
+        {activeTab === 'history' && (
+          <div className="flex-1 overflow-y-auto">
+            <HandHistory
+              gameId={gameId}
+              currentUserId={currentUserId}
+              currentPlayerId={currentPlayerId}
+              gameType="acey-deucey"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
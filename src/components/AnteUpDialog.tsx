@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { supabase } from "@/integrations/supabase/client";
+import { getGameDisplayName, getGameTypeInfo, isGameType } from "@/lib/gameTypes";
 
 interface AnteUpDialogProps {
   gameId: string;
@@ -43,25 +44,12 @@ export const AnteUpDialog = ({
   anteDecisionTimerSeconds = 30,
   onDecisionMade,
 }: AnteUpDialogProps) => {
-  const isHolmGame = gameType === 'holm-game' || gameType === 'holm';
-  const isHorsesGame = gameType === 'horses';
-  const isSCCGame = gameType === 'ship-captain-crew';
-  const isTriviaGame = gameType === 'sports-trivia';
-  const isCribbageGame = gameType === 'cribbage';
-  const isGinRummyGame = gameType === 'gin-rummy' || gameType === 'ginrummy';
-  const isYahtzeeGame = gameType === 'yahtzee';
+  const isHolmGame = isGameType(gameType, 'holm-game');
+  const isTriviaGame = isGameType(gameType, 'sports-trivia');
+  // Legs and pussy tax only apply to 3-5-7 (the fallback for unrecognized types)
+  const is357Game = isGameType(gameType, '3-5-7') || !getGameTypeInfo(gameType);
   
-  const getGameDisplayName = () => {
-    if (isHolmGame) return 'Holm Game';
-    if (isHorsesGame) return 'Horses';
-    if (isSCCGame) return 'Ship Captain Crew';
-    if (isTriviaGame) return 'Sports Trivia';
-    if (isCribbageGame) return 'Cribbage';
-    if (isGinRummyGame) return 'Gin Rummy';
-    if (isYahtzeeGame) return 'Yahtzee';
-    return '3-5-7';
-  };
-  const gameDisplayName = getGameDisplayName();
+  const gameDisplayName = is357Game ? getGameDisplayName('3-5-7') : getGameDisplayName(gameType);
   const [timeLeft, setTimeLeft] = useState(anteDecisionTimerSeconds);
   const [hasDecided, setHasDecided] = useState(false);
   const [localAutoAnteRunback, setLocalAutoAnteRunback] = useState(autoAnteRunback);
@@ -190,7 +178,7 @@ export const AnteUpDialog = ({
               </>
             )}
             
-            {!isHolmGame && !isHorsesGame && !isSCCGame && !isTriviaGame && !isCribbageGame && !isGinRummyGame && !isYahtzeeGame && (
+            {is357Game && (
               <>
                 <div className="font-semibold">Leg Value:</div>
                 <div className="text-right">${legValue}</div>
@@ -1,7 +1,10 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import type { CribbageState, CribbageCard } from '@/lib/cribbageTypes';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Minus, Plus } from 'lucide-react';
+import type { CribbageState, CribbageCard, CribbageCountDeclaration } from '@/lib/cribbageTypes';
 import { getHandScoringCombos, getTotalFromCombos, type ScoringCombo } from '@/lib/cribbageScoringDetails';
+import { getCribbagePartner, getMugginsOutcome, MUGGINS_PENALTY } from '@/lib/cribbageGameLogic';
 import { CribbagePlayingCard } from './CribbagePlayingCard';
+import { Button } from '@/components/ui/button';
 import { getDisplayName } from '@/lib/botAlias';
 
 interface Player {
@@ -32,11 +35,18 @@ interface CribbageCountingPhaseProps {
   initialScores?: Record<string, number>;
   /** When true, the counting animation should freeze - parent detected a win via score subscription */
   winFrozen?: boolean;
+  /** Muggins: the live declarations (cribbageState is the snapshot taken when counting began) */
+  counts?: CribbageCountDeclaration[] | null;
+  currentPlayerId?: string;
+  onDeclare?: (points: number) => void;
+  onClaim?: (countIndex: number, missed: number) => void;
 }
 
 const COMBO_DELAY_MS = 2000; // 2 seconds per combo
 const EXIT_ANIMATION_MS = 1500; // 1.5 seconds for cards to exit
 const ENTER_ANIMATION_MS = 800; // 0.8 seconds for cards to enter
+const MUGGINS_CLAIM_WINDOW_MS = 10000; // 10 seconds to call muggins before the next deal
+const MAX_HAND_COUNT = 29;
 
 export const CribbageCountingPhase = ({
   cribbageState,
@@ -47,6 +57,10 @@ export const CribbageCountingPhase = ({
   onScoreUpdate,
   initialScores,
   winFrozen = false,
+  counts,
+  currentPlayerId,
+  onDeclare,
+  onClaim,
 }: CribbageCountingPhaseProps) => {
   const [currentTargetIndex, setCurrentTargetIndex] = useState(0);
   const [currentComboIndex, setCurrentComboIndex] = useState(-1); // -1 = showing hand, not combo yet
@@ -58,6 +72,15 @@ export const CribbageCountingPhase = ({
   const [transitionPhase, setTransitionPhase] = useState<TransitionPhase>('entering');
   const [exitingCards, setExitingCards] = useState<CribbageCard[]>([]);
   const [baselineInitialized, setBaselineInitialized] = useState(false);
+  // Muggins: owners declare each count, then opponents get a window to claim what was missed
+  const isMuggins = Boolean(cribbageState.counts);
+  const liveCounts = useMemo(() => counts ?? cribbageState.counts ?? [], [counts, cribbageState.counts]);
+  const [declareValue, setDeclareValue] = useState(0);
+  const [claimWindowOpen, setClaimWindowOpen] = useState(false);
+  // The count being called, and the points the caller says were missed
+  const [claimDraft, setClaimDraft] = useState<{ index: number; missed: number } | null>(null);
+  const peggedCountsRef = useRef<Set<number>>(new Set());
+  const peggedClaimsRef = useRef<Set<number>>(new Set());
   
   const completedRef = useRef(false);
   const enterToScoringTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -200,6 +223,8 @@ export const CribbageCountingPhase = ({
     if (isComplete || !currentTarget || transitionPhase !== 'scoring') return;
     // If win is frozen by parent (reactive score subscription detected win), stop advancing
     if (winFrozen) return;
+    // Muggins counts are declared, not shown combo by combo (see below)
+    if (isMuggins) return;
 
     let innerTimer: ReturnType<typeof setTimeout> | null = null;
 
@@ -271,7 +296,91 @@ export const CribbageCountingPhase = ({
     // - animatedScores changes would re-run this effect and double-apply points.
     // - currentTarget/currentCombos are derived and may churn identities each render.
     // This effect is driven strictly by the combo indices + phase.
-  }, [currentTargetIndex, currentComboIndex, isComplete, transitionPhase, winFrozen]);
+  }, [currentTargetIndex, currentComboIndex, isComplete, transitionPhase, winFrozen, isMuggins]);
+
+  // Muggins: wait for the owner's declaration, peg it, and move on. The combos stay hidden so
+  // nobody is told what was missed.
+  const currentDeclared = liveCounts[currentTargetIndex]?.declared ?? null;
+  useEffect(() => {
+    if (!isMuggins || isComplete || !currentTarget || transitionPhase !== 'scoring') return;
+    if (winFrozen) return;
+
+    if (currentDeclared === null) {
+      setAnnouncementData(prev => ({
+        text: 'Counting...',
+        targetLabel: currentTarget.label,
+        key: (prev?.key ?? 0) + 1,
+      }));
+      return;
+    }
+    if (peggedCountsRef.current.has(currentTargetIndex)) return;
+    peggedCountsRef.current.add(currentTargetIndex);
+
+    setAnnouncementData(prev => ({
+      text: `Declares ${currentDeclared}`,
+      targetLabel: currentTarget.label,
+      key: (prev?.key ?? 0) + 1,
+    }));
+    setAnimatedScores((prev) => {
+      const next = { ...prev, [currentTarget.playerId]: (prev[currentTarget.playerId] || 0) + currentDeclared };
+      if (onScoreUpdate) onScoreUpdate(next);
+      return next;
+    });
+
+    const timer = setTimeout(() => {
+      if (!winFrozenRef.current) startExitTransition();
+    }, 1500);
+    return () => clearTimeout(timer);
+    // As above, driven by the target index and its declaration alone: the derived target and
+    // combos churn identity each render, which would clear the timer after pegging.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isMuggins, currentTargetIndex, currentDeclared, isComplete, transitionPhase, winFrozen]);
+
+  // Settled muggins claims: the missed points to the caller, or the penalty to the owner
+  useEffect(() => {
+    if (!isMuggins || winFrozen) return;
+    liveCounts.forEach((entry, index) => {
+      const outcome = getMugginsOutcome(entry);
+      if (!outcome || peggedClaimsRef.current.has(index)) return;
+      peggedClaimsRef.current.add(index);
+
+      const pegger = players.find(p => p.id === outcome.playerId);
+      const peggerName = pegger ? getDisplayName(players, pegger, pegger.profiles?.username || 'Player') : 'Player';
+      setAnnouncementData(prev => ({
+        text: !outcome.right
+          ? `Wrong call! +${outcome.points}`
+          : outcome.points > 0 ? `Muggins! +${outcome.points}` : `Over-counted ${outcome.points}`,
+        targetLabel: peggerName,
+        key: (prev?.key ?? 0) + 1,
+      }));
+      setAnimatedScores((prev) => {
+        const next = { ...prev, [outcome.playerId]: (prev[outcome.playerId] || 0) + outcome.points };
+        if (onScoreUpdate) onScoreUpdate(next);
+        return next;
+      });
+    });
+  }, [isMuggins, liveCounts, winFrozen, players, onScoreUpdate]);
+
+  // Reset the count entry for each new hand to declare
+  useEffect(() => {
+    setDeclareValue(0);
+  }, [currentTargetIndex]);
+
+  const finishCounting = useCallback(() => {
+    if (completedRef.current || winFrozenRef.current) return;
+    completedRef.current = true;
+    setIsComplete(true);
+    setClaimWindowOpen(false);
+    // Clear announcement - no "Counting complete!" message needed
+    setAnnouncementData(null);
+    setExitingCards([]);
+
+    if (completeTimerRef.current) clearTimeout(completeTimerRef.current);
+    completeTimerRef.current = setTimeout(() => {
+      if (winFrozenRef.current) return;
+      onCountingComplete(false); // No win detected during counting
+    }, 1000); // Shorter delay since no announcement to read
+  }, [onCountingComplete]);
 
   const startExitTransition = useCallback(() => {
     if (!currentTarget) return;
@@ -300,24 +409,23 @@ export const CribbageCountingPhase = ({
           if (winFrozenRef.current) return;
           setTransitionPhase('scoring');
         }, ENTER_ANIMATION_MS);
+      } else if (isMuggins) {
+        // All counts declared - hold the next deal while opponents call muggins
+        setExitingCards([]);
+        setClaimWindowOpen(true);
+        setAnnouncementData(prev => ({
+          text: 'Any muggins?',
+          targetLabel: 'Counts are in',
+          key: (prev?.key ?? 0) + 1,
+        }));
+        if (completeTimerRef.current) clearTimeout(completeTimerRef.current);
+        completeTimerRef.current = setTimeout(finishCounting, MUGGINS_CLAIM_WINDOW_MS);
       } else {
         // All targets counted - no win was detected (parent would have frozen us)
-        if (!completedRef.current && !winFrozenRef.current) {
-          completedRef.current = true;
-          setIsComplete(true);
-          // Clear announcement - no "Counting complete!" message needed
-          setAnnouncementData(null);
-          setExitingCards([]);
-          
-          if (completeTimerRef.current) clearTimeout(completeTimerRef.current);
-          completeTimerRef.current = setTimeout(() => {
-            if (winFrozenRef.current) return;
-            onCountingComplete(false); // No win detected during counting
-          }, 1000); // Shorter delay since no announcement to read
-        }
+        finishCounting();
       }
     }, EXIT_ANIMATION_MS);
-  }, [currentTarget, currentTargetIndex, countingTargets.length, onCountingComplete, winFrozen]);
+  }, [currentTarget, currentTargetIndex, countingTargets.length, finishCounting, isMuggins, winFrozen]);
 
   // Propagate announcements to parent for dealer announcement area
   // Uses announcementData which atomically stores text + targetLabel to prevent mismatch during transitions
@@ -363,7 +471,29 @@ export const CribbageCountingPhase = ({
     return '';
   };
 
-  const cardsToShow = transitionPhase === 'exiting' ? exitingCards : currentTarget?.hand || [];
+  const cardsToShow = claimWindowOpen ? [] : transitionPhase === 'exiting' ? exitingCards : currentTarget?.hand || [];
+
+  const isMyDeclaration =
+    isMuggins &&
+    !winFrozen &&
+    transitionPhase === 'scoring' &&
+    currentDeclared === null &&
+    currentTarget?.playerId === currentPlayerId;
+
+  // A call names the points missed (or counted too many): never zero, and never below nothing
+  const stepClaim = (missed: number, step: number, entry: CribbageCountDeclaration) => {
+    const declared = entry.declared ?? 0;
+    let next = missed + step;
+    if (next === 0) next += step;
+    return next + declared < 0 || next + declared > MAX_HAND_COUNT ? missed : next;
+  };
+
+  const canClaim = (entry: CribbageCountDeclaration) =>
+    !!currentPlayerId &&
+    entry.declared !== null &&
+    !entry.claimedBy &&
+    entry.playerId !== currentPlayerId &&
+    entry.playerId !== getCribbagePartner(cribbageState, currentPlayerId);
 
   return (
     <>
@@ -417,7 +547,7 @@ export const CribbageCountingPhase = ({
             </div>
             
             {/* Cut card with label - stays in place during scoring, hidden when complete */}
-            {cribbageState.cutCard && !isComplete && (
+            {cribbageState.cutCard && !isComplete && !claimWindowOpen && (
               <div className="flex flex-col items-center ml-2">
                 <span className="text-[8px] text-white/60 mb-0.5">Cut</span>
                 <div 
@@ -433,6 +563,90 @@ export const CribbageCountingPhase = ({
             )}
           </div>
         </div>
+
+        {/* Muggins: the owner enters their count */}
+        {isMyDeclaration && (
+          <div className="absolute top-[80%] left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 bg-black/70 rounded-lg px-3 py-2">
+            <button
+              onClick={() => setDeclareValue(v => Math.max(0, v - 1))}
+              className="w-7 h-7 rounded-full bg-white/10 text-white flex items-center justify-center"
+              aria-label="Fewer points"
+            >
+              <Minus className="w-4 h-4" />
+            </button>
+            <span className="w-8 text-center text-lg font-bold text-poker-gold tabular-nums">{declareValue}</span>
+            <button
+              onClick={() => setDeclareValue(v => Math.min(MAX_HAND_COUNT, v + 1))}
+              className="w-7 h-7 rounded-full bg-white/10 text-white flex items-center justify-center"
+              aria-label="More points"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+            <Button
+              onClick={() => onDeclare?.(declareValue)}
+              className="bg-poker-gold text-black font-bold hover:bg-poker-gold/80 h-8 px-4"
+            >
+              Declare
+            </Button>
+          </div>
+        )}
+
+        {/* Muggins: every declared count, open to claims until the next deal */}
+        {claimWindowOpen && (
+          <div className="absolute top-[52%] left-1/2 -translate-x-1/2 z-40 w-72 space-y-1 bg-black/70 rounded-lg p-2">
+            <div className="text-[10px] text-white/60">A wrong call pegs {MUGGINS_PENALTY} to the count's owner</div>
+            {liveCounts.map((entry, index) => {
+              const target = countingTargets[index];
+              return (
+                <div key={index} className="flex items-center gap-2 text-xs text-white">
+                  <span className="truncate">{target?.label}</span>
+                  <span className="ml-auto font-bold tabular-nums">{entry.declared}</span>
+                  {entry.claimedBy ? (
+                    <span className="text-poker-gold text-[10px]">
+                      {getMugginsOutcome(entry)?.right ? `Worth ${entry.score}` : 'Wrong call'}
+                    </span>
+                  ) : canClaim(entry) && claimDraft?.index === index ? (
+                    <>
+                      <button
+                        onClick={() => setClaimDraft(d => d && { ...d, missed: stepClaim(d.missed, -1, entry) })}
+                        className="w-5 h-5 rounded-full bg-white/10 flex items-center justify-center"
+                        aria-label="Fewer points"
+                      >
+                        <Minus className="w-3 h-3" />
+                      </button>
+                      <span className="w-14 text-center text-[10px] font-bold text-poker-gold tabular-nums">
+                        {claimDraft.missed > 0 ? `${claimDraft.missed} missed` : `${-claimDraft.missed} too many`}
+                      </span>
+                      <button
+                        onClick={() => setClaimDraft(d => d && { ...d, missed: stepClaim(d.missed, 1, entry) })}
+                        className="w-5 h-5 rounded-full bg-white/10 flex items-center justify-center"
+                        aria-label="More points"
+                      >
+                        <Plus className="w-3 h-3" />
+                      </button>
+                      <Button
+                        onClick={() => {
+                          setClaimDraft(null);
+                          onClaim?.(index, claimDraft.missed);
+                        }}
+                        className="bg-red-600 text-white font-bold hover:bg-red-500 h-6 px-2 text-[10px]"
+                      >
+                        Call
+                      </Button>
+                    </>
+                  ) : canClaim(entry) ? (
+                    <Button
+                      onClick={() => setClaimDraft({ index, missed: 1 })}
+                      className="bg-red-600 text-white font-bold hover:bg-red-500 h-6 px-2 text-[10px]"
+                    >
+                      Muggins!
+                    </Button>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
     </>
   );
@@ -1,4 +1,5 @@
 import type { CribbageState } from '@/lib/cribbageTypes';
+import { getCribbageSides, isCribbageHandCounted } from '@/lib/cribbageGameLogic';
 import { CribbagePegBoard } from './CribbagePegBoard';
 import { CribbagePlayingCard } from './CribbagePlayingCard';
 import { CribbageCutCardReveal } from './CribbageCutCardReveal';
@@ -42,18 +43,18 @@ export const CribbageFeltContent = ({
   
   // During 31 delay, show 31 as the count instead of the reset 0
   const displayCount = thirtyOneDelayActive ? 31 : cribbageState.pegging.currentCount;
-  // Detect pegging win: phase is 'complete' but lastHandCount is null
+  // Detect pegging win: phase is 'complete' but there's no counting data (lastHandCount or muggins counts)
   // (meaning we never entered counting phase - win occurred during pegging)
-  const isPeggingWin = phaseForLayout === 'complete' && !cribbageState.lastHandCount;
+  const isPeggingWin = phaseForLayout === 'complete' && !isCribbageHandCounted(cribbageState);
 
   // Hide standard felt content during counting phase (CribbageCountingPhase takes over)
   // Use the actual phase from state, not the presence of countingScoreOverrides.
-  // During win sequences where DB phase may already be 'complete', we check lastHandCount
+  // During win sequences where DB phase may already be 'complete', we check the counting data
   // to distinguish counting wins from pegging wins.
   // Exception: pegging wins should NOT enter counting layout - cards stay visible on felt.
   const isCountingPhase = (
     phaseForLayout === 'counting' ||
-    (phaseForLayout === 'complete' && !!cribbageState.lastHandCount)
+    (phaseForLayout === 'complete' && isCribbageHandCounted(cribbageState))
   ) && !isPeggingWin;
 
   // Show crib on felt only during discarding/cutting/pegging (or pegging win)
@@ -84,6 +85,7 @@ export const CribbageFeltContent = ({
             playerStates={cribbageState.playerStates}
             winningScore={cribbageState.pointsToWin}
             overrideScores={countingScoreOverrides}
+            sides={cribbageState.partnerships ? getCribbageSides(cribbageState) : undefined}
           />
         </div>
       </>
@@ -112,6 +114,7 @@ export const CribbageFeltContent = ({
           playerStates={cribbageState.playerStates}
           winningScore={cribbageState.pointsToWin}
           overrideScores={countingScoreOverrides}
+          sides={cribbageState.partnerships ? getCribbageSides(cribbageState) : undefined}
         />
       </div>
 
@@ -10,8 +10,15 @@ import {
   discardToCrib, 
   playPeggingCard, 
   callGo,
+  createDeck,
+  getCribbageCardsDealt,
+  getCribbageScore,
+  getCribbageSides,
+  isCribbageLastDiscard,
   getPhaseDisplayName 
 } from '@/lib/cribbageGameLogic';
+import { runWithFairDeck, shuffleHandDeck } from '@/lib/handFairness';
+import { logDeal, logModuleAction } from '@/lib/handActionLog';
 import { hasPlayableCard, getCardPointValue } from '@/lib/cribbageScoring';
 import { getBotDiscardIndices, getBotPeggingCardIndex, shouldBotCallGo } from '@/lib/cribbageBotLogic';
 import { CribbagePegBoard } from './CribbagePegBoard';
@@ -157,7 +164,7 @@ export const CribbageGameTable = ({
     const loadOrInitializeState = async () => {
       const { data: roundData, error } = await supabase
         .from('rounds')
-        .select('cribbage_state')
+        .select('game_state')
         .eq('id', roundId)
         .single();
 
@@ -166,26 +173,32 @@ export const CribbageGameTable = ({
         return;
       }
 
-      if (roundData?.cribbage_state) {
-        setCribbageState(roundData.cribbage_state as unknown as CribbageState);
+      if (roundData?.game_state) {
+        setCribbageState(roundData.game_state as unknown as CribbageState);
       } else {
         // Initialize new game - use dealerPosition prop
         const dealerPlayer = players.find(p => p.position === dealerPosition) || players[0];
         const playerIds = players.map(p => p.id);
-        const newState = initializeCribbageGame(playerIds, dealerPlayer.id, anteAmount);
+        const newState = await runWithFairDeck(
+          gameId,
+          52,
+          random => initializeCribbageGame(playerIds, dealerPlayer.id, anteAmount, undefined, random),
+          getCribbageCardsDealt
+        );
         
         // Save to database
         await supabase
           .from('rounds')
-          .update({ cribbage_state: JSON.parse(JSON.stringify(newState)) })
+          .update({ game_state: JSON.parse(JSON.stringify(newState)) })
           .eq('id', roundId);
+        void logDeal(roundId, { state: newState });
         
         setCribbageState(newState);
       }
     };
 
     loadOrInitializeState();
-  }, [roundId, players, anteAmount, dealerPosition]);
+  }, [roundId, players, anteAmount, dealerPosition, gameId]);
 
   // CRITICAL: When roundId changes, immediately clear stale cribbage state.
   // This prevents old cards from being visible and interactive during hand transitions.
@@ -232,10 +245,10 @@ export const CribbageGameTable = ({
           filter: `id=eq.${roundId}`,
         },
         (payload) => {
-          const newState = payload.new as { cribbage_state?: CribbageState };
-          if (newState.cribbage_state) {
-            lastSyncTimestamp = getStateSignature(newState.cribbage_state);
-            handleStateUpdate(newState.cribbage_state, true);
+          const newState = payload.new as { game_state?: CribbageState };
+          if (newState.game_state) {
+            lastSyncTimestamp = getStateSignature(newState.game_state);
+            handleStateUpdate(newState.game_state, true);
           }
         }
       )
@@ -250,12 +263,12 @@ export const CribbageGameTable = ({
       try {
         const { data, error } = await supabase
           .from('rounds')
-          .select('cribbage_state')
+          .select('game_state')
           .eq('id', roundId)
           .single();
 
-        if (!error && data?.cribbage_state) {
-          const newState = data.cribbage_state as unknown as CribbageState;
+        if (!error && data?.game_state) {
+          const newState = data.game_state as unknown as CribbageState;
           const newSignature = getStateSignature(newState);
           const hasNewData = !lastSyncTimestamp || newSignature !== lastSyncTimestamp;
           if (hasNewData) {
@@ -351,10 +364,15 @@ export const CribbageGameTable = ({
           await new Promise(resolve => setTimeout(resolve, 800 + Math.random() * 400));
           
           try {
-            const newState = discardToCrib(cribbageState, player.id, discardIndices);
+            // Only the discard that completes the crib turns the cut
+            const cutDeck = isCribbageLastDiscard(cribbageState, player.id)
+              ? await shuffleHandDeck(gameId, createDeck(), 1)
+              : undefined;
+            const newState = discardToCrib(cribbageState, player.id, discardIndices, cutDeck);
+            void logModuleAction(roundId, cribbageState, { type: 'discard', playerId: player.id, cardIndices: discardIndices, deckOrder: cutDeck });
             await supabase
               .from('rounds')
-              .update({ cribbage_state: JSON.parse(JSON.stringify(newState)) })
+              .update({ game_state: JSON.parse(JSON.stringify(newState)) })
               .eq('id', roundId);
           } catch (err) {
             console.error('[CRIBBAGE BOT] Discard error:', err);
@@ -385,24 +403,22 @@ export const CribbageGameTable = ({
           if (shouldBotCallGo(botState, cribbageState.pegging.currentCount)) {
             // Must call go
             const newState = callGo(cribbageState, currentTurnId);
+            void logModuleAction(roundId, cribbageState, { type: 'go', playerId: currentTurnId });
             // Fire-and-forget event logging (atomic DB guard prevents duplicates)
             logGoPointEvent(eventCtx, cribbageState, newState);
             
             await supabase
               .from('rounds')
-              .update({ cribbage_state: JSON.parse(JSON.stringify(newState)) })
+              .update({ game_state: JSON.parse(JSON.stringify(newState)) })
               .eq('id', roundId);
           } else {
             // Play a card
-            const cardIndex = getBotPeggingCardIndex(
-              botState,
-              cribbageState.pegging.currentCount,
-              cribbageState.pegging.playedCards
-            );
+            const cardIndex = getBotPeggingCardIndex(cribbageState, currentTurnId);
 
             if (cardIndex !== null) {
               const cardPlayed = botState.hand[cardIndex];
               const newState = playPeggingCard(cribbageState, currentTurnId, cardIndex);
+              void logModuleAction(roundId, cribbageState, { type: 'play', playerId: currentTurnId, cardIndex });
               // Fire-and-forget event logging (atomic DB guard prevents duplicates)
               logPeggingPlay(eventCtx, cribbageState, newState, currentTurnId, cardPlayed);
               // Check for his_heels on phase transition
@@ -412,7 +428,7 @@ export const CribbageGameTable = ({
               
               await supabase
                 .from('rounds')
-                .update({ cribbage_state: JSON.parse(JSON.stringify(newState)) })
+                .update({ game_state: JSON.parse(JSON.stringify(newState)) })
                 .eq('id', roundId);
             }
           }
@@ -434,7 +450,7 @@ export const CribbageGameTable = ({
     try {
       const { error } = await supabase
         .from('rounds')
-        .update({ cribbage_state: JSON.parse(JSON.stringify(newState)) })
+        .update({ game_state: JSON.parse(JSON.stringify(newState)) })
         .eq('id', roundId);
 
       if (error) throw error;
@@ -484,7 +500,12 @@ export const CribbageGameTable = ({
     }
 
     try {
-      const newState = discardToCrib(cribbageState, currentPlayerId, selectedCards);
+      // Only the discard that completes the crib turns the cut
+      const cutDeck = isCribbageLastDiscard(cribbageState, currentPlayerId)
+        ? await shuffleHandDeck(gameId, createDeck(), 1)
+        : undefined;
+      const newState = discardToCrib(cribbageState, currentPlayerId, selectedCards, cutDeck);
+      void logModuleAction(roundId, cribbageState, { type: 'discard', playerId: currentPlayerId, cardIndices: selectedCards, deckOrder: cutDeck });
       await updateState(newState);
       setSelectedCards([]);
     } catch (err) {
@@ -500,17 +521,17 @@ export const CribbageGameTable = ({
       // This guards against race conditions where bot's move hasn't propagated yet
       const { data: freshRound, error: fetchError } = await supabase
         .from('rounds')
-        .select('cribbage_state')
+        .select('game_state')
         .eq('id', roundId)
         .single();
       
-      if (fetchError || !freshRound?.cribbage_state) {
+      if (fetchError || !freshRound?.game_state) {
         console.error('[CRIBBAGE] Failed to fetch fresh state before play:', fetchError);
         toast.error('Failed to sync game state. Try again.');
         return;
       }
       
-      const freshState = freshRound.cribbage_state as unknown as CribbageState;
+      const freshState = freshRound.game_state as unknown as CribbageState;
       
       // Verify it's still our turn with fresh state
       if (freshState.pegging.currentTurnPlayerId !== currentPlayerId) {
@@ -531,6 +552,7 @@ export const CribbageGameTable = ({
       
       const cardPlayed = freshPlayerState.hand[cardIndex];
       const newState = playPeggingCard(freshState, currentPlayerId, cardIndex);
+      void logModuleAction(roundId, freshState, { type: 'play', playerId: currentPlayerId, cardIndex });
       // Fire-and-forget event logging (atomic DB guard prevents duplicates)
       if (cardPlayed) {
         logPeggingPlay(eventCtx, freshState, newState, currentPlayerId, cardPlayed);
@@ -554,13 +576,13 @@ export const CribbageGameTable = ({
       // Same pattern as handlePlayCard - prevents missed Go points.
       const { data: freshRound, error: fetchError } = await supabase
         .from('rounds')
-        .select('cribbage_state')
+        .select('game_state')
         .eq('id', roundId)
         .single();
       
       let stateForGo = cribbageState;
-      if (!fetchError && freshRound?.cribbage_state) {
-        const freshState = freshRound.cribbage_state as unknown as CribbageState;
+      if (!fetchError && freshRound?.game_state) {
+        const freshState = freshRound.game_state as unknown as CribbageState;
         
         if (freshState.pegging.currentTurnPlayerId !== currentPlayerId) {
           console.warn('[CRIBBAGE] Stale state detected for Go - not our turn in fresh state');
@@ -579,6 +601,7 @@ export const CribbageGameTable = ({
       }
       
       const newState = callGo(stateForGo, currentPlayerId);
+      void logModuleAction(roundId, stateForGo, { type: 'go', playerId: currentPlayerId });
       logGoPointEvent(eventCtx, stateForGo, newState);
       
       await updateState(newState);
@@ -637,6 +660,7 @@ export const CribbageGameTable = ({
         players={players}
         playerStates={cribbageState.playerStates}
         winningScore={cribbageState.pointsToWin}
+        sides={cribbageState.partnerships ? getCribbageSides(cribbageState) : undefined}
       />
 
       {/* Center Area - Cut Card & Pegging */}
@@ -691,7 +715,7 @@ export const CribbageGameTable = ({
             <div className="flex items-center justify-between mb-2">
               <span className="text-sm text-amber-200">Your Hand</span>
               <span className="text-sm text-poker-gold font-bold">
-                Score: {myPlayerState.pegScore}
+                {cribbageState.partnerships ? 'Team' : 'Score'}: {getCribbageScore(cribbageState, myPlayerState.playerId)}
               </span>
             </div>
             
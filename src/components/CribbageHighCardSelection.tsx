@@ -2,6 +2,7 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import { CribbagePlayingCard } from './CribbagePlayingCard';
 import { getDisplayName } from '@/lib/botAlias';
 import type { CribbageCard } from '@/lib/cribbageTypes';
+import { shuffle } from '@rules/random.ts';
 
 interface Player {
   id: string;
@@ -47,15 +48,6 @@ function createSimpleDeck(): CribbageCard[] {
   return deck;
 }
 
-function shuffleDeck(deck: CribbageCard[]): CribbageCard[] {
-  const shuffled = [...deck];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-}
-
 /**
  * Quick high-card selection for determining initial cribbage dealer
  * Shows cards briefly, announces winner, and calls onComplete
@@ -150,7 +142,7 @@ export const CribbageHighCardSelection = ({
     if (hasCompletedRef.current) return;
 
     // Initialize deck
-    deckRef.current = shuffleDeck(createSimpleDeck());
+    deckRef.current = shuffle(createSimpleDeck());
 
     // Phase 1: Show announcement
     onAnnouncementChange?.('High card for first deal');
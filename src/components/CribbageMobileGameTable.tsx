@@ -9,11 +9,30 @@ import {
   playPeggingCard, 
   callGo,
   applyHandCountScores,
+  claimMuggins,
+  createDeck,
+  declareCribbageCount,
+  getCribbageCountScore,
+  getCribbageDeclarer,
+  getCribbagePartner,
+  getCribbageCardsDealt,
+  getCribbageScore,
+  getCribbageSides,
+  isCribbageLastDiscard,
+  isCribbageHandCounted,
 } from '@/lib/cribbageGameLogic';
+import { runWithFairDeck, shuffleHandDeck } from '@/lib/handFairness';
+import { logDeal, logModuleAction } from '@/lib/handActionLog';
 import { endCribbageGame, startNextCribbageHand } from '@/lib/cribbageRoundLogic';
 import { hasPlayableCard } from '@/lib/cribbageScoring';
 import { getHandScoringCombos, getTotalFromCombos } from '@/lib/cribbageScoringDetails';
-import { getBotDiscardIndices, getBotPeggingCardIndex, shouldBotCallGo } from '@/lib/cribbageBotLogic';
+import {
+  getBotDiscardIndices,
+  getBotMugginsClaim,
+  getBotPeggingCardIndex,
+  shouldBotCallGo,
+  toCribbageBotDifficulty,
+} from '@/lib/cribbageBotLogic';
 import { CribbageFeltContent } from './CribbageFeltContent';
 import { CribbageMobileCardsTab } from './CribbageMobileCardsTab';
 import { CribbagePlayingCard } from './CribbagePlayingCard';
@@ -39,7 +58,9 @@ import {
   logGoPointEvent,
   logHisHeelsEvent,
   logCountingScoringEvents,
-  logCutCardEvent
+  logCutCardEvent,
+  logCountDeclaredEvent,
+  logMugginsClaimEvent
 } from '@/lib/useCribbageEventLogging';
 
 interface Player {
@@ -49,6 +70,7 @@ interface Player {
   chips: number;
   is_bot?: boolean;
   sitting_out?: boolean;
+  bot_difficulty?: string;
   profiles?: { username: string };
 }
 
@@ -88,6 +110,8 @@ interface CribbageMobileGameTableProps {
     isDealer: true;
   }>;
   onInjectDealerChatMessage?: (message: string) => void;
+  // The host clicks a bot to manage it (sit out, skill, remove)
+  onPlayerClick?: (player: Player) => void;
 }
 
 // Custom Spade icon for tab
@@ -151,6 +175,7 @@ export const CribbageMobileGameTable = ({
 
   dealerChatMessages: externalDealerChatMessages,
   onInjectDealerChatMessage,
+  onPlayerClick,
 }: CribbageMobileGameTableProps) => {
   const { getTableColors, getCardBackColors } = useVisualPreferences();
   const tableColors = getTableColors();
@@ -296,7 +321,7 @@ export const CribbageMobileGameTable = ({
 
     const isCountingContext =
       cribbageState.phase === 'counting' ||
-      (cribbageState.phase === 'complete' && Boolean(cribbageState.lastHandCount));
+      (cribbageState.phase === 'complete' && isCribbageHandCounted(cribbageState));
 
     if (isCountingContext) return;
 
@@ -304,13 +329,15 @@ export const CribbageMobileGameTable = ({
     countingDelayFiredRef.current = null;
     countingBaselineScoresRef.current = null;
     countingHandKeyRef.current = null;
-  }, [cribbageState?.phase, cribbageState?.lastHandCount ? 'has-count' : 'no-count']);
+  }, [cribbageState?.phase, cribbageState && isCribbageHandCounted(cribbageState) ? 'has-count' : 'no-count']);
 
   // Win sequence state
   type WinSequencePhase = 'idle' | 'skunk' | 'announcement' | 'chips' | 'complete';
   const [winSequencePhase, setWinSequencePhase] = useState<WinSequencePhase>('idle');
   const [winSequenceData, setWinSequenceData] = useState<{
     winnerId: string;
+    /** The winner and, with partnerships, their partner */
+    winnerIds: string[];
     winnerName: string;
     multiplier: number;
     amountPerLoser: number;
@@ -637,15 +664,16 @@ export const CribbageMobileGameTable = ({
     //   (endGame called during pegging, advanceToCounting never called)
     // 
     // - Counting win: phase goes 'pegging' -> 'counting' -> 'complete', lastHandCount exists
-    //   (advanceToCounting sets lastHandCount, then applyHandCountScores triggers win)
+    //   (advanceToCounting sets lastHandCount, or the muggins counts, then applyHandCountScores
+    //   or a declaration triggers win)
     //
     // If it's a pegging win, skip counting animation entirely and show win sequence.
     if (cribbageState.phase === 'complete') {
-      if (!cribbageState.lastHandCount) {
+      if (!isCribbageHandCounted(cribbageState)) {
         // Pegging win - no counting data means we never entered counting phase
         return null;
       }
-      // lastHandCount exists - this was a counting-phase win that needs animation
+      // Counting data exists - this was a counting-phase win that needs animation
     } else if (cribbageState.phase !== 'counting') {
       return null;
     }
@@ -662,8 +690,8 @@ export const CribbageMobileGameTable = ({
     cribbageState?.dealerPlayerId,
     cribbageState?.cutCard?.rank,
     cribbageState?.cutCard?.suit,
-    // Include lastHandCount to detect pegging vs counting wins
-    cribbageState?.lastHandCount ? 'has-count' : 'no-count',
+    // Include the counting data to detect pegging vs counting wins
+    cribbageState && isCribbageHandCounted(cribbageState) ? 'has-count' : 'no-count',
   ]);
 
   // Delay showing counting phase by 2 seconds to allow final pegging announcement to display.
@@ -803,8 +831,9 @@ export const CribbageMobileGameTable = ({
     
     const pointsToWin = cribbageState.pointsToWin;
     
-    // Check if any player has reached the winning threshold
-    for (const [playerId, score] of Object.entries(countingScoreOverrides)) {
+    // Check if any player (or partnership, on the partners' combined scores) has reached the winning threshold
+    for (const playerId of Object.keys(countingScoreOverrides)) {
+      const score = getCribbageScore(cribbageState, playerId, countingScoreOverrides);
       if (score >= pointsToWin) {
         console.log('[CRIBBAGE] Win detected via score subscription:', { playerId, score, pointsToWin });
 
@@ -817,9 +846,10 @@ export const CribbageMobileGameTable = ({
         // Freeze the counting animation - it should stop advancing and keep cards highlighted
         setCountingWinFrozen(true);
         
-        const loserScores = Object.entries(countingScoreOverrides)
-          .filter(([id]) => id !== playerId)
-          .map(([, s]) => s);
+        const partnerId = getCribbagePartner(cribbageState, playerId);
+        const loserScores = Object.keys(countingScoreOverrides)
+          .filter((id) => id !== playerId && id !== partnerId)
+          .map((id) => getCribbageScore(cribbageState, id, countingScoreOverrides));
         const minLoserScore = loserScores.length > 0 ? Math.min(...loserScores) : 0;
 
         const multiplier = (() => {
@@ -876,7 +906,7 @@ export const CribbageMobileGameTable = ({
       
       const { data: roundData, error } = await supabase
         .from('rounds')
-        .select('cribbage_state, hand_number')
+        .select('game_state, hand_number')
         .eq('id', roundId)
         .single();
 
@@ -887,16 +917,16 @@ export const CribbageMobileGameTable = ({
       }
 
       console.log('[CRIBBAGE] Round data loaded:', { 
-        hasState: !!roundData?.cribbage_state, 
+        hasState: !!roundData?.game_state, 
         handNumber: roundData?.hand_number 
       });
 
       // If state already exists, use it (game already in progress or resumed)
-      if (roundData?.cribbage_state) {
+      if (roundData?.game_state) {
         console.log('[CRIBBAGE] Using existing state from DB');
         hasInitializedRef.current = true;
         setInitialLoadComplete(true);
-        setCribbageState(roundData.cribbage_state as unknown as CribbageState);
+        setCribbageState(roundData.game_state as unknown as CribbageState);
         return;
       }
 
@@ -919,12 +949,18 @@ export const CribbageMobileGameTable = ({
       setInitialLoadComplete(true);
       const dealerId = players.find(p => p.position === dealerPosition)?.id || players[0].id;
       const playerIds = players.map(p => p.id);
-      const newState = initializeCribbageGame(playerIds, dealerId, anteAmount, gameConfig);
+      const newState = await runWithFairDeck(
+        gameId,
+        52,
+        random => initializeCribbageGame(playerIds, dealerId, anteAmount, gameConfig, random),
+        getCribbageCardsDealt
+      );
       
       await supabase
         .from('rounds')
-        .update({ cribbage_state: JSON.parse(JSON.stringify(newState)) })
+        .update({ game_state: JSON.parse(JSON.stringify(newState)) })
         .eq('id', roundId);
+      void logDeal(roundId, { state: newState });
       
       setCribbageState(newState);
     };
@@ -932,7 +968,7 @@ export const CribbageMobileGameTable = ({
     loadOrInitializeState();
   }, [roundId, initialLoadComplete, injectDealerMessage, announceNewGameStarting]); // Re-run if roundId changes, include initialLoadComplete in deps
 
-  // Keep showHighCardSelection from "sticking" after the real cribbage_state arrives (non-host clients)
+  // Keep showHighCardSelection from "sticking" after the real game_state arrives (non-host clients)
   useEffect(() => {
     if (!showHighCardSelection) return;
     if (!cribbageState) return;
@@ -998,7 +1034,7 @@ export const CribbageMobileGameTable = ({
 
     console.log('[CRIBBAGE] High card winner:', { position: winnerPosition, playerId: winnerPlayer.id });
 
-    // Non-host clients should NOT write state; they will receive cribbage_state via realtime.
+    // Non-host clients should NOT write state; they will receive game_state via realtime.
     if (!isHost) return;
 
     setShowHighCardSelection(false);
@@ -1008,16 +1044,22 @@ export const CribbageMobileGameTable = ({
     // Initialize the game with the winner as dealer
     hasInitializedRef.current = true;
     const playerIds = players.map(p => p.id);
-    const newState = initializeCribbageGame(playerIds, winnerPlayer.id, anteAmount, gameConfig);
+    const newState = await runWithFairDeck(
+      gameId,
+      52,
+      random => initializeCribbageGame(playerIds, winnerPlayer.id, anteAmount, gameConfig, random),
+      getCribbageCardsDealt
+    );
 
     await supabase
       .from('rounds')
       .update({
-        cribbage_state: JSON.parse(JSON.stringify(newState)),
+        game_state: JSON.parse(JSON.stringify(newState)),
         pot: 0,
         cards_dealt: 6,
       })
       .eq('id', roundId);
+    void logDeal(roundId, { state: newState });
 
     // Persist dealt hands for privacy + rejoin
     await Promise.all(
@@ -1102,24 +1144,32 @@ export const CribbageMobileGameTable = ({
     winSequenceScheduledRef.current = winKey;
 
     const winnerId = state.winnerPlayerId;
-    const winnerPlayer = players.find(p => p.id === winnerId);
-    const winnerName = winnerPlayer 
-      ? getDisplayName(players, winnerPlayer, winnerPlayer.profiles?.username || 'Player')
-      : 'Player';
+    // With partnerships both partners win, and the announcement names them together
+    const partnerId = getCribbagePartner(state, winnerId);
+    const winnerIds = partnerId ? [winnerId, partnerId] : [winnerId];
+    const winnerName = winnerIds
+      .map(id => {
+        const player = players.find(p => p.id === id);
+        return player ? getDisplayName(players, player, player.profiles?.username || 'Player') : 'Player';
+      })
+      .join(' & ');
 
     const multiplier = state.payoutMultiplier || 1;
-    const loserIds = players.filter(p => p.id !== winnerId).map(p => p.id);
+    const loserIds = players.filter(p => !winnerIds.includes(p.id)).map(p => p.id);
     const amountPerLoser = anteAmount * multiplier;
-    const totalWinnings = amountPerLoser * loserIds.length;
+    const totalWinnings = (amountPerLoser * loserIds.length) / winnerIds.length;
 
     // Inject win announcement into chat with final scores
-    const winnerScore = state.playerStates[winnerId]?.pegScore ?? 0;
-    const loserScores = loserIds.map(id => state.playerStates[id]?.pegScore ?? 0);
+    const winnerScore = getCribbageScore(state, winnerId);
+    const loserScores = getCribbageSides(state)
+      .filter(side => !side.includes(winnerId))
+      .map(side => getCribbageScore(state, side[0]));
     const loserScoreStr = loserScores.join('-');
     injectDealerMessage(`${winnerName} won the game ${winnerScore}-${loserScoreStr}!`);
 
     setWinSequenceData({
       winnerId,
+      winnerIds,
       winnerName,
       multiplier,
       amountPerLoser,
@@ -1291,10 +1341,10 @@ export const CribbageMobileGameTable = ({
           filter: `id=eq.${currentRoundId}`,
         },
         (payload) => {
-          const newState = payload.new as { cribbage_state?: CribbageState };
-          if (newState.cribbage_state) {
-            lastSyncTimestamp = getStateSignature(newState.cribbage_state);
-            handleStateUpdate(newState.cribbage_state, true);
+          const newState = payload.new as { game_state?: CribbageState };
+          if (newState.game_state) {
+            lastSyncTimestamp = getStateSignature(newState.game_state);
+            handleStateUpdate(newState.game_state, true);
           }
         }
       )
@@ -1313,16 +1363,16 @@ export const CribbageMobileGameTable = ({
       try {
         const { data, error } = await supabase
           .from('rounds')
-          .select('cribbage_state')
+          .select('game_state')
           .eq('id', currentRoundId)
           .single();
 
-        if (error || !data?.cribbage_state) {
+        if (error || !data?.game_state) {
           // Backoff on errors
           pollInterval = Math.min(pollInterval * 1.3, 8000);
         } else {
           // Check if data has changed using state signature
-          const newState = data.cribbage_state as unknown as CribbageState;
+          const newState = data.game_state as unknown as CribbageState;
           const newSignature = getStateSignature(newState);
           const hasNewData = !lastSyncTimestamp || newSignature !== lastSyncTimestamp;
           
@@ -1417,6 +1467,47 @@ export const CribbageMobileGameTable = ({
     if (cribbageState.phase === 'complete') return;
 
     const processBotActions = async () => {
+      // Muggins: bots declare a perfect count, and claim anything the other side missed once all are in
+      if (cribbageState.phase === 'counting' && cribbageState.counts) {
+        const declarerId = getCribbageDeclarer(cribbageState);
+        const bot = declarerId === null
+          ? players.find(p => p.is_bot && getBotMugginsClaim(cribbageState, p.id) !== null)
+          : players.find(p => p.is_bot && p.id === declarerId);
+        if (!bot) return;
+
+        botActionInProgress.current = true;
+
+        await new Promise(resolve => setTimeout(resolve, 1200 + Math.random() * 800));
+
+        try {
+          if (declarerId === null) {
+            const { index: countIndex, missed } = getBotMugginsClaim(cribbageState, bot.id)!;
+            const newState = claimMuggins(cribbageState, bot.id, countIndex, missed);
+            void logModuleAction(roundId, cribbageState, { type: 'claim', playerId: bot.id, index: countIndex, missed });
+            logMugginsClaimEvent(eventCtx, newState, countIndex);
+            await supabase
+              .from('rounds')
+              .update({ game_state: JSON.parse(JSON.stringify(newState)) })
+              .eq('id', roundId);
+          } else {
+            const countIndex = cribbageState.counts.findIndex(c => c.declared === null);
+            const points = getCribbageCountScore(cribbageState, cribbageState.counts[countIndex]);
+            const newState = declareCribbageCount(cribbageState, bot.id, points);
+            void logModuleAction(roundId, cribbageState, { type: 'declare', playerId: bot.id, points });
+            logCountDeclaredEvent(eventCtx, cribbageState, newState, countIndex);
+            await supabase
+              .from('rounds')
+              .update({ game_state: JSON.parse(JSON.stringify(newState)) })
+              .eq('id', roundId);
+          }
+        } catch (err) {
+          console.error('[CRIBBAGE BOT] Muggins error:', err);
+        } finally {
+          botActionInProgress.current = false;
+        }
+        return;
+      }
+
       if (cribbageState.phase === 'discarding') {
         for (const player of players) {
           if (!player.is_bot) continue;
@@ -1426,16 +1517,26 @@ export const CribbageMobileGameTable = ({
           
           botActionInProgress.current = true;
           
-          const isDealer = player.id === cribbageState.dealerPlayerId;
-          const discardIndices = getBotDiscardIndices(botState.hand, players.length, isDealer);
+          const isMyCrib = [player.id, getCribbagePartner(cribbageState, player.id)].includes(cribbageState.cribOwnerPlayerId);
+          const discardIndices = getBotDiscardIndices(
+            botState.hand,
+            players.length,
+            isMyCrib,
+            toCribbageBotDifficulty(player.bot_difficulty)
+          );
           
           await new Promise(resolve => setTimeout(resolve, 800 + Math.random() * 400));
           
           try {
-            const newState = discardToCrib(cribbageState, player.id, discardIndices);
+            // Only the discard that completes the crib turns the cut
+            const cutDeck = isCribbageLastDiscard(cribbageState, player.id)
+              ? await shuffleHandDeck(gameId, createDeck(), 1)
+              : undefined;
+            const newState = discardToCrib(cribbageState, player.id, discardIndices, cutDeck);
+            void logModuleAction(roundId, cribbageState, { type: 'discard', playerId: player.id, cardIndices: discardIndices, deckOrder: cutDeck });
             await supabase
               .from('rounds')
-              .update({ cribbage_state: JSON.parse(JSON.stringify(newState)) })
+              .update({ game_state: JSON.parse(JSON.stringify(newState)) })
               .eq('id', roundId);
           } catch (err) {
             console.error('[CRIBBAGE BOT] Discard error:', err);
@@ -1463,23 +1564,25 @@ export const CribbageMobileGameTable = ({
         try {
           if (shouldBotCallGo(botState, cribbageState.pegging.currentCount)) {
             const newState = callGo(cribbageState, currentTurnId);
+            void logModuleAction(roundId, cribbageState, { type: 'go', playerId: currentTurnId });
             // Fire-and-forget event logging (atomic DB guard prevents duplicates)
             logGoPointEvent(eventCtx, cribbageState, newState);
             
             await supabase
               .from('rounds')
-              .update({ cribbage_state: JSON.parse(JSON.stringify(newState)) })
+              .update({ game_state: JSON.parse(JSON.stringify(newState)) })
               .eq('id', roundId);
           } else {
             const cardIndex = getBotPeggingCardIndex(
-              botState,
-              cribbageState.pegging.currentCount,
-              cribbageState.pegging.playedCards
+              cribbageState,
+              currentTurnId,
+              toCribbageBotDifficulty(currentTurnPlayer.bot_difficulty)
             );
 
             if (cardIndex !== null) {
               const cardPlayed = botState.hand[cardIndex];
               const newState = playPeggingCard(cribbageState, currentTurnId, cardIndex);
+              void logModuleAction(roundId, cribbageState, { type: 'play', playerId: currentTurnId, cardIndex });
               // Fire-and-forget event logging (atomic DB guard prevents duplicates)
               logPeggingPlay(eventCtx, cribbageState, newState, currentTurnId, cardPlayed);
               // Check for his_heels on phase transition
@@ -1489,7 +1592,7 @@ export const CribbageMobileGameTable = ({
               
               await supabase
                 .from('rounds')
-                .update({ cribbage_state: JSON.parse(JSON.stringify(newState)) })
+                .update({ game_state: JSON.parse(JSON.stringify(newState)) })
                 .eq('id', roundId);
             }
           }
@@ -1517,7 +1620,7 @@ export const CribbageMobileGameTable = ({
     try {
       const { error } = await supabase
         .from('rounds')
-        .update({ cribbage_state: JSON.parse(JSON.stringify(newState)) })
+        .update({ game_state: JSON.parse(JSON.stringify(newState)) })
         .eq('id', currentRoundId);
 
       if (error) throw error;
@@ -1529,11 +1632,11 @@ export const CribbageMobileGameTable = ({
       try {
         const { data } = await supabase
           .from('rounds')
-          .select('cribbage_state')
+          .select('game_state')
           .eq('id', currentRoundId)
           .single();
-        if (data?.cribbage_state) {
-          setCribbageState(data.cribbage_state as unknown as CribbageState);
+        if (data?.game_state) {
+          setCribbageState(data.game_state as unknown as CribbageState);
         }
       } catch { /* ignore refetch errors */ }
     } finally {
@@ -1550,17 +1653,17 @@ export const CribbageMobileGameTable = ({
       // during the brief window before the realtime subscription delivers the new hand.
       const { data: freshRound, error: fetchError } = await supabase
         .from('rounds')
-        .select('cribbage_state')
+        .select('game_state')
         .eq('id', currentRoundId)
         .single();
       
-      if (fetchError || !freshRound?.cribbage_state) {
+      if (fetchError || !freshRound?.game_state) {
         console.error('[CRIBBAGE] Failed to fetch fresh state before discard:', fetchError);
         toast.error('Failed to sync game state. Try again.');
         return;
       }
       
-      const freshState = freshRound.cribbage_state as unknown as CribbageState;
+      const freshState = freshRound.game_state as unknown as CribbageState;
       
       // Verify we're still in discarding phase
       if (freshState.phase !== 'discarding') {
@@ -1585,7 +1688,12 @@ export const CribbageMobileGameTable = ({
         return;
       }
       
-      const newState = discardToCrib(freshState, currentPlayerId, cardIndices);
+      // Only the discard that completes the crib turns the cut
+      const cutDeck = isCribbageLastDiscard(freshState, currentPlayerId)
+        ? await shuffleHandDeck(gameId, createDeck(), 1)
+        : undefined;
+      const newState = discardToCrib(freshState, currentPlayerId, cardIndices, cutDeck);
+      void logModuleAction(roundId, freshState, { type: 'discard', playerId: currentPlayerId, cardIndices, deckOrder: cutDeck });
       await updateState(newState);
     } catch (err) {
       toast.error((err as Error).message);
@@ -1600,17 +1708,17 @@ export const CribbageMobileGameTable = ({
       // This guards against race conditions where bot's move hasn't propagated yet
       const { data: freshRound, error: fetchError } = await supabase
         .from('rounds')
-        .select('cribbage_state')
+        .select('game_state')
         .eq('id', currentRoundId)
         .single();
       
-      if (fetchError || !freshRound?.cribbage_state) {
+      if (fetchError || !freshRound?.game_state) {
         console.error('[CRIBBAGE] Failed to fetch fresh state before play:', fetchError);
         toast.error('Failed to sync game state. Try again.');
         return;
       }
       
-      const freshState = freshRound.cribbage_state as unknown as CribbageState;
+      const freshState = freshRound.game_state as unknown as CribbageState;
       
       // Verify it's still our turn with fresh state
       if (freshState.pegging.currentTurnPlayerId !== currentPlayerId) {
@@ -1632,6 +1740,7 @@ export const CribbageMobileGameTable = ({
       
       const cardPlayed = freshPlayerState.hand[cardIndex];
       const newState = playPeggingCard(freshState, currentPlayerId, cardIndex);
+      void logModuleAction(roundId, freshState, { type: 'play', playerId: currentPlayerId, cardIndex });
       // Fire-and-forget event logging (atomic DB guard prevents duplicates)
       if (cardPlayed) {
         logPeggingPlay(eventCtx, freshState, newState, currentPlayerId, cardPlayed);
@@ -1656,20 +1765,21 @@ export const CribbageMobileGameTable = ({
       // state is slightly behind the authoritative DB state.
       const { data: freshRound, error: fetchError } = await supabase
         .from('rounds')
-        .select('cribbage_state')
+        .select('game_state')
         .eq('id', currentRoundId)
         .single();
       
-      if (fetchError || !freshRound?.cribbage_state) {
+      if (fetchError || !freshRound?.game_state) {
         console.error('[CRIBBAGE] Failed to fetch fresh state before Go:', fetchError);
         // Fall back to subscription state
         const newState = callGo(cribbageState, currentPlayerId);
+        void logModuleAction(roundId, cribbageState, { type: 'go', playerId: currentPlayerId });
         logGoPointEvent(eventCtx, cribbageState, newState);
         await updateState(newState);
         return;
       }
       
-      const freshState = freshRound.cribbage_state as unknown as CribbageState;
+      const freshState = freshRound.game_state as unknown as CribbageState;
       
       // Verify it's still our turn with fresh state
       if (freshState.pegging.currentTurnPlayerId !== currentPlayerId) {
@@ -1694,6 +1804,7 @@ export const CribbageMobileGameTable = ({
       }
       
       const newState = callGo(freshState, currentPlayerId);
+      void logModuleAction(roundId, freshState, { type: 'go', playerId: currentPlayerId });
       // Fire-and-forget event logging (atomic DB guard prevents duplicates)
       logGoPointEvent(eventCtx, freshState, newState);
       
@@ -1703,6 +1814,63 @@ export const CribbageMobileGameTable = ({
     }
   }, [cribbageState, currentPlayerId, currentRoundId, eventCtx]);
 
+  // Muggins: declare our own hand or crib count
+  const handleDeclare = async (points: number) => {
+    if (!cribbageState || !currentPlayerId || !currentRoundId) return;
+
+    try {
+      const { data: freshRound, error: fetchError } = await supabase
+        .from('rounds')
+        .select('game_state')
+        .eq('id', currentRoundId)
+        .single();
+
+      if (fetchError || !freshRound?.game_state) {
+        console.error('[CRIBBAGE] Failed to fetch fresh state before declaring:', fetchError);
+        toast.error('Failed to sync game state. Try again.');
+        return;
+      }
+
+      const freshState = freshRound.game_state as unknown as CribbageState;
+      const countIndex = freshState.counts?.findIndex(c => c.declared === null) ?? -1;
+      const newState = declareCribbageCount(freshState, currentPlayerId, points);
+      void logModuleAction(roundId, freshState, { type: 'declare', playerId: currentPlayerId, points });
+      logCountDeclaredEvent(eventCtx, freshState, newState, countIndex);
+
+      await updateState(newState);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  // Muggins: call an opponent's declared count, naming the points they missed
+  const handleClaim = async (countIndex: number, missed: number) => {
+    if (!cribbageState || !currentPlayerId || !currentRoundId) return;
+
+    try {
+      const { data: freshRound, error: fetchError } = await supabase
+        .from('rounds')
+        .select('game_state')
+        .eq('id', currentRoundId)
+        .single();
+
+      if (fetchError || !freshRound?.game_state) {
+        console.error('[CRIBBAGE] Failed to fetch fresh state before claiming:', fetchError);
+        toast.error('Failed to sync game state. Try again.');
+        return;
+      }
+
+      const freshState = freshRound.game_state as unknown as CribbageState;
+      const newState = claimMuggins(freshState, currentPlayerId, countIndex, missed);
+      void logModuleAction(roundId, freshState, { type: 'claim', playerId: currentPlayerId, index: countIndex, missed });
+      logMugginsClaimEvent(eventCtx, newState, countIndex);
+
+      await updateState(newState);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
   // Keep handleGoRef updated to the latest callback
   useEffect(() => {
     handleGoRef.current = handleGo;
@@ -2175,7 +2343,7 @@ export const CribbageMobileGameTable = ({
 
   // Get opponents for display around the table
   const opponents = players.filter(p => p.user_id !== currentUserId);
-  // Use cribbage_state.dealerPlayerId for crib dealer (rotates each hand), not games.dealer_position
+  // Use game_state.dealerPlayerId for crib dealer (rotates each hand), not games.dealer_position
   const isCribDealer = (playerId: string) => cribbageState.dealerPlayerId === playerId;
   return (
     <div className="h-full flex flex-col overflow-hidden bg-background">
@@ -2260,6 +2428,7 @@ export const CribbageMobileGameTable = ({
                 ${anteAmount} CRIBBAGE
               </h2>
               <p className="text-[9px] text-white/70">
+                {cribbageState.partnerships && 'Partners • '}
                 {cribbageState.pointsToWin} to win
                 {cribbageState.skunkEnabled && ` • Skunk <${cribbageState.skunkThreshold} (2x)`}
                 {cribbageState.doubleSkunkEnabled && ` • Double <${cribbageState.doubleSkunkThreshold} (3x)`}
@@ -2295,6 +2464,10 @@ export const CribbageMobileGameTable = ({
                 // IMPORTANT: Always start from the pegging baseline, never from the animated overrides.
                 initialScores={countingBaselineScoresRef.current ?? undefined}
                 winFrozen={countingWinFrozen}
+                counts={cribbageState.counts}
+                currentPlayerId={currentPlayerId}
+                onDeclare={handleDeclare}
+                onClaim={handleClaim}
               />
             )}
 
@@ -2371,7 +2544,10 @@ export const CribbageMobileGameTable = ({
                     </div>
 
                     {/* Name */}
-                    <span className="text-[10px] text-white/90 truncate max-w-[70px] font-medium">
+                    <span
+                      className={`text-[10px] text-white/90 truncate max-w-[70px] font-medium ${isHost && opponent.is_bot && onPlayerClick ? 'cursor-pointer underline decoration-dotted' : ''}`}
+                      onClick={isHost && opponent.is_bot && onPlayerClick ? () => onPlayerClick(opponent) : undefined}
+                    >
                       {getDisplayName(players, opponent, opponent.profiles?.username || 'Player')}
                     </span>
 
@@ -2425,7 +2601,7 @@ export const CribbageMobileGameTable = ({
             return (
               <div className="w-full bg-poker-gold/95 backdrop-blur-sm rounded-md px-3 py-1.5 shadow-xl border-2 border-amber-900">
                 <p className="text-slate-900 font-bold text-[11px] text-center truncate">
-                  {winSequenceData.winnerName} Wins{winSequenceData.multiplier === 2 ? ' (Skunk!)' : winSequenceData.multiplier === 3 ? ' (Double Skunk!)' : ''}! +${winSequenceData.totalWinnings}
+                  {winSequenceData.winnerName} {winSequenceData.winnerIds.length > 1 ? 'Win' : 'Wins'}{winSequenceData.multiplier === 2 ? ' (Skunk!)' : winSequenceData.multiplier === 3 ? ' (Double Skunk!)' : ''}! +${winSequenceData.totalWinnings}
                 </p>
               </div>
             );
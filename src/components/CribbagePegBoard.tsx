@@ -13,6 +13,8 @@ interface CribbagePegBoardProps {
   playerStates: Record<string, CribbagePlayerState>;
   winningScore: number;
   overrideScores?: Record<string, number>;
+  /** Partnerships: one track per pair of player ids, pegging their combined score */
+  sides?: string[][];
 }
 
 const PLAYER_COLORS = [
@@ -27,24 +29,29 @@ export const CribbagePegBoard = ({
   playerStates,
   winningScore,
   overrideScores,
+  sides,
 }: CribbagePegBoardProps) => {
   const getPlayerColor = (index: number) => PLAYER_COLORS[index % PLAYER_COLORS.length];
+  // Use override score during counting phase, otherwise use actual pegScore
+  const getScore = (playerId: string) => overrideScores?.[playerId] ?? playerStates[playerId]?.pegScore ?? 0;
+  // Use bot alias for display name
+  const getName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player ? getDisplayName(players, player, player.profiles?.username || 'Player') : 'Player';
+  };
+  const tracks = sides ?? players.map(player => [player.id]);
   
   return (
     <div className="space-y-1.5">
-      {/* Progress bars for each player */}
-      {players.map((player, index) => {
-        const state = playerStates[player.id];
-        // Use override score during counting phase, otherwise use actual pegScore
-        const score = overrideScores?.[player.id] ?? state?.pegScore ?? 0;
-        const percentage = Math.min(100, (score / winningScore) * 100);
-        
-        // Use bot alias for display name
-        const displayName = getDisplayName(players, player, player.profiles?.username || 'Player');
+      {/* Progress bars for each player (or partnership) */}
+      {tracks.map((ids, index) => {
+        const score = ids.reduce((sum, id) => sum + getScore(id), 0);
+        const percentage = Math.max(0, Math.min(100, (score / winningScore) * 100));
+        const displayName = ids.map(getName).join(' & ');
         
         return (
-          <div key={player.id} className="flex items-center gap-2">
-            <span className="text-[10px] text-white/80 w-14 truncate">
+          <div key={ids.join('-')} className="flex items-center gap-2">
+            <span className={`text-[10px] text-white/80 ${sides ? 'w-24' : 'w-14'} truncate`}>
               {displayName}
             </span>
             
@@ -5,6 +5,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { supabase } from "@/integrations/supabase/client";
+import { getGameDefaultsKey, isGameType } from "@/lib/gameTypes";
 import { useGlobalTimerSettings } from "@/hooks/useGlobalTimerSettings";
 
 interface DealerConfigProps {
@@ -60,14 +61,14 @@ export const DealerConfig = ({
   
   const { anteDecisionTimerSeconds } = useGlobalTimerSettings();
   
-  const isHolmGame = gameType === 'holm-game';
-  const isCribbageGame = gameType === 'cribbage';
+  const isHolmGame = isGameType(gameType, 'holm-game');
+  const isCribbageGame = isGameType(gameType, 'cribbage');
 
   // Fetch defaults from game_defaults table
   useEffect(() => {
     const fetchDefaults = async () => {
       // Map frontend game type to database game type
-      const dbGameType = isHolmGame ? 'holm' : isCribbageGame ? 'cribbage' : '3-5-7';
+      const dbGameType = getGameDefaultsKey(gameType) ?? '3-5-7';
       
       const { data, error } = await supabase
         .from('game_defaults')
@@ -103,7 +104,7 @@ export const DealerConfig = ({
     };
 
     fetchDefaults();
-  }, [isHolmGame, isCribbageGame]);
+  }, [gameType, isHolmGame, isCribbageGame]);
 
   // Auto-submit for bots - wait for defaults to load first
   useEffect(() => {
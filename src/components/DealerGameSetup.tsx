@@ -13,6 +13,13 @@ import { logSittingOutSet } from "@/lib/sittingOutDebugLog";
 import { logSessionEvent, logSessionDeleted } from "@/lib/sessionEventLog";
 // startCribbageRound is now called from Game.tsx after dealer selection completes
 import { toast } from "sonner";
+import { GAME_TYPE_LIST, MAX_SEATS, getGameDisplayName, getGameTypeInfo, isDiceGame, isGameType, usesHorsesTable } from "@/lib/gameTypes";
+import { STUD_VARIANTS, STUD_VARIANT_LIST, isStudVariant } from "@/lib/studVariants";
+import type { StudVariantId } from "@/lib/studTypes";
+import { isAceRule } from "@/lib/aceyDeuceyModule";
+import type { AceRule } from "@/lib/aceyDeuceyTypes";
+import { DEFAULT_FARKLE_SCORING } from "@/lib/farkleScoring";
+import type { FarkleScoringRules } from "@/lib/farkleTypes";
 
 type SelectionStep = 'game' | 'config';
 
@@ -36,6 +43,8 @@ interface PreviousGameConfig {
   double_skunk_threshold?: number;
   cribbage_game_mode?: string; // 'full' | 'half' | 'super_quick' | 'sprint' | 'custom'
   custom_points_to_win?: number; // For custom mode
+  cribbage_partnerships?: boolean;
+  cribbage_muggins?: boolean;
 }
 
 type SessionGameConfigs = Partial<Record<string, PreviousGameConfig>>;
@@ -130,12 +139,40 @@ export const DealerGameSetup = ({
   const [cribbageGameMode, setCribbageGameMode] = useState<import('@/lib/cribbageTypes').CribbageGameMode>('full');
   const [skunksEnabled, setSkunksEnabled] = useState(true);
   const [customPointsToWin, setCustomPointsToWin] = useState('61'); // Default for custom mode
+  const [cribbagePartnerships, setCribbagePartnerships] = useState(false); // 4 players only
+  const [cribbageMuggins, setCribbageMuggins] = useState(false);
   
   // Gin Rummy-specific settings
   const [ginRummyPointsToWin, setGinRummyPointsToWin] = useState(100);
   const [ginRummyPerPointValue, setGinRummyPerPointValue] = useState(0);
    const [ginRummyGinBonus, setGinRummyGinBonus] = useState(25);
    const [ginRummyUndercutBonus, setGinRummyUndercutBonus] = useState(25);
+  const [ginRummyOklahoma, setGinRummyOklahoma] = useState(false);
+  const [ginRummyHollywood, setGinRummyHollywood] = useState(false);
+  const [holdemSmallBlind, setHoldemSmallBlind] = useState(1);
+  const [holdemBigBlind, setHoldemBigBlind] = useState(2);
+  const [gutsCards, setGutsCards] = useState(3);
+  const [gutsBleedEnabled, setGutsBleedEnabled] = useState(false);
+  const [gutsBleedValue, setGutsBleedValue] = useState("5");
+  const [studVariant, setStudVariant] = useState<StudVariantId>('standard');
+  const [studAnte, setStudAnte] = useState(1);
+  const [studSmallBet, setStudSmallBet] = useState(2);
+  const [studBuyPrice, setStudBuyPrice] = useState(2);
+  const [aceyAceRule, setAceyAceRule] = useState<AceRule>('choice');
+  const [aceyPostPenalty, setAceyPostPenalty] = useState(2);
+  const [startingLives, setStartingLives] = useState(3);
+  const [lcrChips, setLcrChips] = useState(3);
+  const [lcrWild, setLcrWild] = useState(false);
+  const [liarsDiceStartingDice, setLiarsDiceStartingDice] = useState(5);
+  const [liarsDiceOnesWild, setLiarsDiceOnesWild] = useState(true);
+  const [liarsDiceLoseDifference, setLiarsDiceLoseDifference] = useState(false);
+  const [spadesTargetScore, setSpadesTargetScore] = useState(500);
+  const [spadesBlindNil, setSpadesBlindNil] = useState(true);
+  const [euchreTargetScore, setEuchreTargetScore] = useState(10);
+  const [euchreStickTheDealer, setEuchreStickTheDealer] = useState(false);
+  const [farkleTargetScore, setFarkleTargetScore] = useState(10000);
+  const [farkleMinOpening, setFarkleMinOpening] = useState(500);
+  const [farkleScoring, setFarkleScoring] = useState<FarkleScoringRules>(DEFAULT_FARKLE_SCORING);
   
   // Cache defaults for both game types
   const [holmDefaults, setHolmDefaults] = useState<GameDefaults | null>(null);
@@ -181,6 +218,12 @@ export const DealerGameSetup = ({
         if (previousGameConfig.custom_points_to_win !== undefined) {
           setCustomPointsToWin(String(previousGameConfig.custom_points_to_win));
         }
+        if (previousGameConfig.cribbage_partnerships !== undefined) {
+          setCribbagePartnerships(previousGameConfig.cribbage_partnerships);
+        }
+        if (previousGameConfig.cribbage_muggins !== undefined) {
+          setCribbageMuggins(previousGameConfig.cribbage_muggins);
+        }
         
         setLoadingDefaults(false);
         return;
@@ -188,7 +231,7 @@ export const DealerGameSetup = ({
       
       // PRIORITY 2: Apply defaults based on previousGameType or default to holm
       const initialGameType = previousGameType || 'holm-game';
-      if (initialGameType === '3-5-7-game' || initialGameType === '3-5-7') {
+      if (isGameType(initialGameType, '3-5-7')) {
         if (!threeFiveSevenResult.error && threeFiveSevenResult.data) {
           applyDefaults(threeFiveSevenResult.data);
         }
@@ -224,7 +267,7 @@ export const DealerGameSetup = ({
     setSelectedGameType(gameType);
     
     // Card games with session config persistence
-    if (gameType === 'holm-game' || gameType === '3-5-7' || gameType === 'cribbage') {
+    if (isGameType(gameType, 'holm-game') || isGameType(gameType, '3-5-7') || isGameType(gameType, 'cribbage')) {
       const sessionConfig = sessionGameConfigs?.[gameType];
       
       // PRIORITY 1: Use session-specific config if available (remembers settings from earlier in session)
@@ -242,7 +285,7 @@ export const DealerGameSetup = ({
         setRevealAtShowdown(sessionConfig.reveal_at_showdown ?? false);
         
         // Apply cribbage-specific settings if present
-        if (gameType === 'cribbage') {
+        if (isGameType(gameType, 'cribbage')) {
           if (sessionConfig.cribbage_game_mode) {
             setCribbageGameMode(sessionConfig.cribbage_game_mode as import('@/lib/cribbageTypes').CribbageGameMode);
           }
@@ -252,13 +295,19 @@ export const DealerGameSetup = ({
           if (sessionConfig.custom_points_to_win !== undefined) {
             setCustomPointsToWin(String(sessionConfig.custom_points_to_win));
           }
+          if (sessionConfig.cribbage_partnerships !== undefined) {
+            setCribbagePartnerships(sessionConfig.cribbage_partnerships);
+          }
+          if (sessionConfig.cribbage_muggins !== undefined) {
+            setCribbageMuggins(sessionConfig.cribbage_muggins);
+          }
         }
         return;
       }
       
       // PRIORITY 2: Fall back to global defaults
-      const defaults = gameType === 'holm-game' ? holmDefaults : 
-                       gameType === '3-5-7' ? threeFiveSevenDefaults : null;
+      const defaults = isGameType(gameType, 'holm-game') ? holmDefaults : 
+                       isGameType(gameType, '3-5-7') ? threeFiveSevenDefaults : null;
       if (defaults) {
         console.log('[DEALER SETUP] Using global defaults for', gameType);
         applyDefaults(defaults);
@@ -647,7 +696,7 @@ export const DealerGameSetup = ({
         console.log('[BOT DEALER] Running it back with previous config:', previousGameType);
         
         // Check if it's a dice game
-        const isDice = previousGameType === 'horses' || previousGameType === 'ship-captain-crew';
+        const isDice = usesHorsesTable(previousGameType);
         
         if (isDice) {
           // Dice games only need ante - submit directly
@@ -725,7 +774,7 @@ export const DealerGameSetup = ({
           submitDiceGame();
         } else {
           // Card games - submit with full config directly
-          const isHolmGame = previousGameType === 'holm-game';
+          const isHolmGame = isGameType(previousGameType, 'holm-game');
           const anteDeadline = new Date(Date.now() + anteDecisionTimerSeconds * 1000).toISOString();
           
           const submitCardGame = async () => {
@@ -852,9 +901,9 @@ export const DealerGameSetup = ({
               legs_to_win: defaults.legs_to_win,
               pot_max_enabled: defaults.pot_max_enabled,
               pot_max_value: defaults.pot_max_value,
-              chucky_cards: gameType === 'holm-game' ? defaults.chucky_cards : null,
-              rabbit_hunt: gameType === 'holm-game' ? (defaults.rabbit_hunt ?? false) : null,
-              reveal_at_showdown: gameType !== 'holm-game' ? (defaults.reveal_at_showdown ?? false) : null,
+              chucky_cards: isGameType(gameType, 'holm-game') ? defaults.chucky_cards : null,
+              rabbit_hunt: isGameType(gameType, 'holm-game') ? (defaults.rabbit_hunt ?? false) : null,
+              reveal_at_showdown: !isGameType(gameType, 'holm-game') ? (defaults.reveal_at_showdown ?? false) : null,
             };
             
             // Insert into dealer_games table first
@@ -892,7 +941,7 @@ export const DealerGameSetup = ({
               current_game_uuid: dealerGameId, // Reference the dealer_games record
             };
             
-            if (gameType === 'holm-game') {
+            if (isGameType(gameType, 'holm-game')) {
               updateData.chucky_cards = defaults.chucky_cards;
               updateData.rabbit_hunt = defaults.rabbit_hunt ?? false;
               updateData.reveal_at_showdown = defaults.reveal_at_showdown ?? false;
@@ -935,7 +984,7 @@ export const DealerGameSetup = ({
     const gameTypeToSubmit = overrideGameType || selectedGameType;
 
     // Guard: card submit should never run with a dice game type
-    if (gameTypeToSubmit === 'horses' || gameTypeToSubmit === 'ship-captain-crew') {
+    if (usesHorsesTable(gameTypeToSubmit)) {
       toast.error('Select a card game (Holm or 3-5-7)');
       return;
     }
@@ -969,7 +1018,7 @@ export const DealerGameSetup = ({
       console.error('Invalid Pot Max: must be at least $1');
       return;
     }
-    if (gameTypeToSubmit === 'holm-game' && (parsedChucky < 2 || parsedChucky > 7)) {
+    if (isGameType(gameTypeToSubmit, 'holm-game') && (parsedChucky < 2 || parsedChucky > 7)) {
       console.error('Invalid Chucky Cards: must be between 2-7');
       return;
     }
@@ -979,7 +1028,7 @@ export const DealerGameSetup = ({
 
     console.log('[DEALER SETUP] Submitting game config:', { gameTypeToSubmit, parsedAnte, parsedLegValue, parsedChucky });
 
-    const isHolmGame = gameTypeToSubmit === 'holm-game';
+    const isHolmGame = isGameType(gameTypeToSubmit, 'holm-game');
     const anteDeadline = new Date(Date.now() + anteDecisionTimerSeconds * 1000).toISOString();
     
     // Get the dealer's user_id for the dealer_games record
@@ -1112,27 +1161,12 @@ export const DealerGameSetup = ({
     );
   }
 
-  const isHolmGame = selectedGameType === 'holm-game';
-
-  const getGameDisplayName = (gameType: string) => {
-    switch (gameType) {
-      case '3-5-7': return '3-5-7';
-      case 'holm-game': return 'Holm';
-      case 'horses': return 'Horses';
-      case 'ship-captain-crew': return 'Ship';
-      case 'sports-trivia': return 'Trivia';
-      case 'gin-rummy': return 'Gin Rummy';
-      case 'yahtzee': return 'Yahtzee';
-      default: return gameType;
-    }
-  };
-  
-  const isDiceGame = (gameType: string) => {
-    return gameType === 'horses' || gameType === 'ship-captain-crew' || gameType === 'yahtzee';
-  };
-  
+  const isHolmGame = isGameType(selectedGameType, 'holm-game');
+
+  // Everything except Holm and 3-5-7 is configured with just an ante (plus the game's own options)
   const isSimpleAnteGame = (gameType: string) => {
-    return isDiceGame(gameType) || gameType === 'sports-trivia' || gameType === 'cribbage' || gameType === 'gin-rummy';
+    const id = getGameTypeInfo(gameType)?.id;
+    return !!id && id !== 'holm-game' && id !== '3-5-7';
   };
 
   const handleGameSelect = async (gameType: string) => {
@@ -1142,18 +1176,22 @@ export const DealerGameSetup = ({
       toast.error(`${gameInfo.name} requires ${gameInfo.maxPlayers} or fewer players`);
       return;
     }
+    if (gameInfo?.minPlayers && activePlayerCount < gameInfo.minPlayers) {
+      toast.error(`${gameInfo.name} requires at least ${gameInfo.minPlayers} players`);
+      return;
+    }
     
     setSelectedGameType(gameType);
     setSelectionStep('config');
     
     // For card games with complex config, load session config or defaults
-    if (gameType === 'holm-game' || gameType === '3-5-7') {
+    if (isGameType(gameType, 'holm-game') || isGameType(gameType, '3-5-7')) {
       handleGameTypeChange(gameType);
     } else if (isSimpleAnteGame(gameType)) {
-      // Fetch defaults for simple ante games (dice, trivia, cribbage, gin-rummy)
+      // Fetch defaults for simple ante games (dice, trivia, cribbage, gin-rummy, hold'em, guts, stud, acey-deucey, screw-your-neighbor, left-right-center, liars-dice, spades, euchre, farkle)
       const { data: gameDefaults } = await supabase
         .from('game_defaults')
-        .select('ante_amount, points_to_win, skunk_enabled, skunk_threshold, double_skunk_enabled, double_skunk_threshold, per_point_value, gin_bonus, undercut_bonus')
+        .select('ante_amount, points_to_win, skunk_enabled, cribbage_partnerships, cribbage_muggins, skunk_threshold, double_skunk_enabled, double_skunk_threshold, per_point_value, gin_bonus, undercut_bonus, gin_oklahoma, gin_hollywood, small_blind, big_blind, pot_max_enabled, pot_max_value, guts_cards, guts_bleed_enabled, guts_bleed_value, stud_variant, stud_ante, stud_small_bet, stud_buy_price, acey_ace_rule, acey_post_penalty, starting_lives, lcr_chips, lcr_wild, liars_dice_starting_dice, liars_dice_ones_wild, liars_dice_lose_difference, spades_target_score, spades_blind_nil, euchre_target_score, euchre_stick_the_dealer, farkle_target_score, farkle_min_opening, farkle_three_pairs, farkle_straight, farkle_four_of_a_kind, farkle_five_of_a_kind, farkle_six_of_a_kind')
         .eq('game_type', gameType)
         .single();
       
@@ -1161,49 +1199,164 @@ export const DealerGameSetup = ({
         setAnteAmount(String(gameDefaults.ante_amount));
         
         // Apply cribbage-specific defaults (use full game as default mode)
-        if (gameType === 'cribbage') {
+        if (isGameType(gameType, 'cribbage')) {
           setCribbageDefaults(gameDefaults);
           setCribbageGameMode('full');
           setSkunksEnabled(gameDefaults.skunk_enabled ?? true);
+          setCribbagePartnerships(gameDefaults.cribbage_partnerships ?? false);
+          setCribbageMuggins(gameDefaults.cribbage_muggins ?? false);
         }
         
         // Apply gin-rummy-specific defaults
-        if (gameType === 'gin-rummy') {
+        if (isGameType(gameType, 'gin-rummy')) {
           setGinRummyPointsToWin(gameDefaults.points_to_win ?? 100);
           setGinRummyPerPointValue(gameDefaults.per_point_value ?? 0);
            setGinRummyGinBonus(gameDefaults.gin_bonus ?? 25);
            setGinRummyUndercutBonus(gameDefaults.undercut_bonus ?? 25);
+          setGinRummyOklahoma(gameDefaults.gin_oklahoma ?? false);
+          setGinRummyHollywood(gameDefaults.gin_hollywood ?? false);
+        }
+
+        if (isGameType(gameType, 'holdem')) {
+          setHoldemSmallBlind(gameDefaults.small_blind ?? 1);
+          setHoldemBigBlind(gameDefaults.big_blind ?? 2);
+        }
+
+        if (isGameType(gameType, 'guts')) {
+          setGutsCards(gameDefaults.guts_cards ?? 3);
+          setPotMaxEnabled(gameDefaults.pot_max_enabled ?? true);
+          setPotMaxValue(String(gameDefaults.pot_max_value ?? 10));
+          setGutsBleedEnabled(gameDefaults.guts_bleed_enabled ?? false);
+          setGutsBleedValue(String(gameDefaults.guts_bleed_value ?? 5));
+        }
+
+        if (isGameType(gameType, 'stud')) {
+          setStudVariant(isStudVariant(gameDefaults.stud_variant) ? gameDefaults.stud_variant : 'standard');
+          setStudAnte(gameDefaults.stud_ante ?? 1);
+          setStudSmallBet(gameDefaults.stud_small_bet ?? 2);
+          setStudBuyPrice(gameDefaults.stud_buy_price ?? 2);
+        }
+
+        if (isGameType(gameType, 'acey-deucey')) {
+          setAceyAceRule(isAceRule(gameDefaults.acey_ace_rule) ? gameDefaults.acey_ace_rule : 'choice');
+          setAceyPostPenalty(gameDefaults.acey_post_penalty ?? 2);
+          setPotMaxEnabled(gameDefaults.pot_max_enabled ?? false);
+          setPotMaxValue(String(gameDefaults.pot_max_value ?? 10));
+        }
+
+        if (isGameType(gameType, 'screw-your-neighbor')) {
+          setStartingLives(gameDefaults.starting_lives ?? 3);
+        }
+
+        if (isGameType(gameType, 'left-right-center')) {
+          setLcrChips(gameDefaults.lcr_chips ?? 3);
+          setLcrWild(gameDefaults.lcr_wild ?? false);
+        }
+
+        if (isGameType(gameType, 'liars-dice')) {
+          setLiarsDiceStartingDice(gameDefaults.liars_dice_starting_dice ?? 5);
+          setLiarsDiceOnesWild(gameDefaults.liars_dice_ones_wild ?? true);
+          setLiarsDiceLoseDifference(gameDefaults.liars_dice_lose_difference ?? false);
+        }
+
+        if (isGameType(gameType, 'spades')) {
+          setSpadesTargetScore(gameDefaults.spades_target_score ?? 500);
+          setSpadesBlindNil(gameDefaults.spades_blind_nil ?? true);
+        }
+
+        if (isGameType(gameType, 'euchre')) {
+          setEuchreTargetScore(gameDefaults.euchre_target_score ?? 10);
+          setEuchreStickTheDealer(gameDefaults.euchre_stick_the_dealer ?? false);
+        }
+
+        if (isGameType(gameType, 'farkle')) {
+          setFarkleTargetScore(gameDefaults.farkle_target_score ?? 10000);
+          setFarkleMinOpening(gameDefaults.farkle_min_opening ?? 500);
+          setFarkleScoring({
+            threePairs: gameDefaults.farkle_three_pairs ?? DEFAULT_FARKLE_SCORING.threePairs,
+            straight: gameDefaults.farkle_straight ?? DEFAULT_FARKLE_SCORING.straight,
+            fourOfAKind: gameDefaults.farkle_four_of_a_kind ?? DEFAULT_FARKLE_SCORING.fourOfAKind,
+            fiveOfAKind: gameDefaults.farkle_five_of_a_kind ?? DEFAULT_FARKLE_SCORING.fiveOfAKind,
+            sixOfAKind: gameDefaults.farkle_six_of_a_kind ?? DEFAULT_FARKLE_SCORING.sixOfAKind,
+          });
         }
       } else {
         // Fall back to default ante
         setAnteAmount('5');
-        if (gameType === 'cribbage') {
+        if (isGameType(gameType, 'cribbage')) {
           setCribbageGameMode('full');
           setSkunksEnabled(true);
         }
-        if (gameType === 'gin-rummy') {
+        if (isGameType(gameType, 'gin-rummy')) {
           setGinRummyPointsToWin(100);
           setGinRummyPerPointValue(0);
            setGinRummyGinBonus(25);
            setGinRummyUndercutBonus(25);
+          setGinRummyOklahoma(false);
+          setGinRummyHollywood(false);
+        }
+        if (isGameType(gameType, 'holdem')) {
+          setHoldemSmallBlind(1);
+          setHoldemBigBlind(2);
+        }
+        if (isGameType(gameType, 'guts')) {
+          setGutsCards(3);
+          setPotMaxEnabled(true);
+          setPotMaxValue('10');
+          setGutsBleedEnabled(false);
+          setGutsBleedValue('5');
+        }
+        if (isGameType(gameType, 'stud')) {
+          setStudVariant('standard');
+          setStudAnte(1);
+          setStudSmallBet(2);
+          setStudBuyPrice(2);
+        }
+        if (isGameType(gameType, 'acey-deucey')) {
+          setAceyAceRule('choice');
+          setAceyPostPenalty(2);
+          setPotMaxEnabled(false);
+          setPotMaxValue('10');
+        }
+        if (isGameType(gameType, 'screw-your-neighbor')) {
+          setStartingLives(3);
+        }
+        if (isGameType(gameType, 'left-right-center')) {
+          setLcrChips(3);
+          setLcrWild(false);
+        }
+        if (isGameType(gameType, 'liars-dice')) {
+          setLiarsDiceStartingDice(5);
+          setLiarsDiceOnesWild(true);
+          setLiarsDiceLoseDifference(false);
+        }
+        if (isGameType(gameType, 'spades')) {
+          setSpadesTargetScore(500);
+          setSpadesBlindNil(true);
+        }
+        if (isGameType(gameType, 'euchre')) {
+          setEuchreTargetScore(10);
+          setEuchreStickTheDealer(false);
+        }
+        if (isGameType(gameType, 'farkle')) {
+          setFarkleTargetScore(10000);
+          setFarkleMinOpening(500);
+          setFarkleScoring(DEFAULT_FARKLE_SCORING);
         }
       }
     }
   };
 
   // Game definitions for unified grid
-  const allGames = [
-    // Card Games
-    { id: 'holm-game', name: 'Holm', description: 'Beat Chucky!', category: 'cards', enabled: true },
-    { id: '3-5-7', name: '3-5-7', description: 'Classic wild card poker', category: 'cards', enabled: true },
-    { id: 'cribbage', name: 'Cribbage', description: 'Pegging to 121', category: 'cards', enabled: true, maxPlayers: 4 },
-    { id: 'gin-rummy', name: 'Gin Rummy', description: 'Meld & knock', category: 'cards', enabled: true, maxPlayers: 2 },
-    
-    // Dice Games
-    { id: 'horses', name: 'Horses', description: '5 dice, best hand wins', category: 'dice', enabled: true },
-    { id: 'ship-captain-crew', name: 'Ship Captain Crew', description: '6-5-4', category: 'dice', enabled: true },
-    { id: 'yahtzee', name: 'Yahtzee', description: 'Fill your scorecard', category: 'dice', enabled: true },
-  ];
+  const allGames = GAME_TYPE_LIST.map(game => ({
+    id: game.id,
+    name: game.name,
+    description: game.description,
+    category: game.family,
+    enabled: true,
+    minPlayers: game.minPlayers > 2 ? game.minPlayers : undefined,
+    maxPlayers: game.maxPlayers < MAX_SEATS ? game.maxPlayers : undefined,
+  }));
 
   const cardGames = allGames.filter(g => g.category === 'cards');
   const diceGames = allGames.filter(g => g.category === 'dice');
@@ -1211,12 +1364,19 @@ export const DealerGameSetup = ({
   const isGameDisabled = (game: typeof allGames[0]) => {
     if (!game.enabled) return true;
     if (game.maxPlayers && activePlayerCount > game.maxPlayers) return true;
+    if (game.minPlayers && activePlayerCount < game.minPlayers) return true;
     // Disable trivia for non-superusers (cribbage is now available to all)
     if (game.id === 'sports-trivia' && !isSuperuser) return true;
     return false;
   };
 
   const getPlayerRestrictionLabel = (game: typeof allGames[0]) => {
+    if (game.minPlayers && game.minPlayers === game.maxPlayers) {
+      return `${game.minPlayers} players`;
+    }
+    if (game.minPlayers) {
+      return `${game.minPlayers}+ players`;
+    }
     if (game.maxPlayers) {
       return `${game.maxPlayers} max`;
     }
@@ -1231,18 +1391,47 @@ export const DealerGameSetup = ({
       toast.error('Ante must be at least $1');
       return;
     }
+    if (isGameType(overrideGameType || selectedGameType, 'holdem')) {
+      if (holdemSmallBlind < 1 || holdemBigBlind < holdemSmallBlind) {
+        toast.error('Big blind must be at least the small blind, and both at least $1');
+        return;
+      }
+      if (parsedAnte < holdemBigBlind) {
+        toast.error('Buy-in must cover the big blind');
+        return;
+      }
+    }
+    if (isGameType(overrideGameType || selectedGameType, 'stud')) {
+      if (studAnte < 0 || studSmallBet < 1 || studBuyPrice < 0) {
+        toast.error('Small bet must be at least $1');
+        return;
+      }
+      if (parsedAnte < studAnte + studSmallBet) {
+        toast.error('Buy-in must cover the ante and a small bet');
+        return;
+      }
+    }
+    const parsedGutsPotMax = parseInt(potMaxValue) || 0;
+    const parsedGutsBleed = parseInt(gutsBleedValue) || 0;
+    const gameTypeForPotMax = overrideGameType || selectedGameType;
+    if (isGameType(gameTypeForPotMax, 'guts') || isGameType(gameTypeForPotMax, 'acey-deucey')) {
+      if (potMaxEnabled && parsedGutsPotMax < 1) {
+        toast.error('Pot max must be at least $1');
+        return;
+      }
+      if (isGameType(gameTypeForPotMax, 'guts') && gutsBleedEnabled && parsedGutsBleed < 1) {
+        toast.error('Bleed must be at least $1');
+        return;
+      }
+    }
     
     setIsSubmitting(true);
     hasSubmittedRef.current = true;
     
     // Use override if provided (for run back), otherwise use state
     const gameTypeToSubmit = overrideGameType || selectedGameType;
-    const isCribbage = gameTypeToSubmit === 'cribbage';
-    const gameTypeName = gameTypeToSubmit === 'ship-captain-crew' ? 'Ship' : 
-                         gameTypeToSubmit === 'horses' ? 'Horses' : 
-                         gameTypeToSubmit === 'sports-trivia' ? 'Trivia' : 
-                         gameTypeToSubmit === 'yahtzee' ? 'Yahtzee' :
-                         isCribbage ? 'Cribbage' : gameTypeToSubmit;
+    const isCribbage = isGameType(gameTypeToSubmit, 'cribbage');
+    const gameTypeName = getGameDisplayName(gameTypeToSubmit, true);
     console.log(`[DEALER SETUP] Submitting ${gameTypeName} game config, game_type:`, gameTypeToSubmit);
     
     const anteDeadline = new Date(Date.now() + anteDecisionTimerSeconds * 1000).toISOString();
@@ -1282,18 +1471,104 @@ export const DealerGameSetup = ({
         ? selectedMode.doubleSkunkThreshold 
         : 0;
       dealerGameConfig.game_mode = cribbageGameMode;
+      dealerGameConfig.cribbage_partnerships = cribbagePartnerships && activePlayerCount === 4;
+      dealerGameConfig.cribbage_muggins = cribbageMuggins;
       if (selectedMode.id === 'custom') {
         dealerGameConfig.custom_points_to_win = pointsToWin;
       }
     }
     
     // Add gin-rummy-specific config
-    const isGinRummy = gameTypeToSubmit === 'gin-rummy';
+    const isGinRummy = isGameType(gameTypeToSubmit, 'gin-rummy');
     if (isGinRummy) {
       dealerGameConfig.points_to_win = ginRummyPointsToWin;
       dealerGameConfig.per_point_value = ginRummyPerPointValue;
       dealerGameConfig.gin_bonus = ginRummyGinBonus;
       dealerGameConfig.undercut_bonus = ginRummyUndercutBonus;
+      dealerGameConfig.gin_oklahoma = ginRummyOklahoma;
+      dealerGameConfig.gin_hollywood = ginRummyHollywood;
+    }
+
+    // Hold'em blinds (the ante is the buy-in)
+    const isHoldem = isGameType(gameTypeToSubmit, 'holdem');
+    if (isHoldem) {
+      dealerGameConfig.small_blind = holdemSmallBlind;
+      dealerGameConfig.big_blind = holdemBigBlind;
+    }
+
+    // Guts: card count, what losers match and what a win takes out of the pot
+    const isGuts = isGameType(gameTypeToSubmit, 'guts');
+    if (isGuts) {
+      dealerGameConfig.guts_cards = gutsCards;
+      dealerGameConfig.pot_max_enabled = potMaxEnabled;
+      dealerGameConfig.pot_max_value = parsedGutsPotMax;
+      dealerGameConfig.guts_bleed_enabled = gutsBleedEnabled;
+      dealerGameConfig.guts_bleed_value = parsedGutsBleed;
+    }
+
+    // Stud: the variant and its fixed-limit stakes (the ante amount is the buy-in, as in hold'em)
+    const isStud = isGameType(gameTypeToSubmit, 'stud');
+    if (isStud) {
+      dealerGameConfig.stud_variant = studVariant;
+      dealerGameConfig.stud_ante = studAnte;
+      dealerGameConfig.stud_small_bet = studSmallBet;
+      dealerGameConfig.stud_buy_price = studBuyPrice;
+    }
+
+    // Acey-Deucey: how a first-post ace counts, what a post costs and the bet cap
+    const isAceyDeucey = isGameType(gameTypeToSubmit, 'acey-deucey');
+    if (isAceyDeucey) {
+      dealerGameConfig.acey_ace_rule = aceyAceRule;
+      dealerGameConfig.acey_post_penalty = aceyPostPenalty;
+      dealerGameConfig.pot_max_enabled = potMaxEnabled;
+      dealerGameConfig.pot_max_value = parsedGutsPotMax;
+    }
+
+    // Screw Your Neighbor: lives everyone starts with
+    const isScrewYourNeighbor = isGameType(gameTypeToSubmit, 'screw-your-neighbor');
+    if (isScrewYourNeighbor) {
+      dealerGameConfig.starting_lives = startingLives;
+    }
+
+    // Left Right Center: chips everyone buys (at the ante apiece) and the wild variant
+    const isLeftRightCenter = isGameType(gameTypeToSubmit, 'left-right-center');
+    if (isLeftRightCenter) {
+      dealerGameConfig.lcr_chips = lcrChips;
+      dealerGameConfig.lcr_wild = lcrWild;
+    }
+
+    // Liar's Dice: dice in each cup, whether ones are wild and what a lost call costs
+    const isLiarsDice = isGameType(gameTypeToSubmit, 'liars-dice');
+    if (isLiarsDice) {
+      dealerGameConfig.liars_dice_starting_dice = liarsDiceStartingDice;
+      dealerGameConfig.liars_dice_ones_wild = liarsDiceOnesWild;
+      dealerGameConfig.liars_dice_lose_difference = liarsDiceLoseDifference;
+    }
+
+    // Spades: the score the partnerships play to and whether blind nil is allowed
+    const isSpades = isGameType(gameTypeToSubmit, 'spades');
+    if (isSpades) {
+      dealerGameConfig.spades_target_score = spadesTargetScore;
+      dealerGameConfig.spades_blind_nil = spadesBlindNil;
+    }
+
+    // Euchre: the score the partnerships play to and whether the dealer is stuck
+    const isEuchre = isGameType(gameTypeToSubmit, 'euchre');
+    if (isEuchre) {
+      dealerGameConfig.euchre_target_score = euchreTargetScore;
+      dealerGameConfig.euchre_stick_the_dealer = euchreStickTheDealer;
+    }
+
+    // Farkle: target and opening scores, and what the house-rule combinations are worth
+    const isFarkle = isGameType(gameTypeToSubmit, 'farkle');
+    if (isFarkle) {
+      dealerGameConfig.farkle_target_score = farkleTargetScore;
+      dealerGameConfig.farkle_min_opening = farkleMinOpening;
+      dealerGameConfig.farkle_three_pairs = farkleScoring.threePairs;
+      dealerGameConfig.farkle_straight = farkleScoring.straight;
+      dealerGameConfig.farkle_four_of_a_kind = farkleScoring.fourOfAKind;
+      dealerGameConfig.farkle_five_of_a_kind = farkleScoring.fiveOfAKind;
+      dealerGameConfig.farkle_six_of_a_kind = farkleScoring.sixOfAKind;
     }
     
     // Insert into dealer_games table first
@@ -1359,6 +1634,8 @@ export const DealerGameSetup = ({
           skunk_threshold: parsedSkunkThreshold,
           double_skunk_enabled: effectiveSkunksEnabled && selectedMode.doubleSkunkThreshold !== null,
           double_skunk_threshold: parsedDoubleSkunkThreshold,
+          cribbage_partnerships: cribbagePartnerships && activePlayerCount === 4,
+          cribbage_muggins: cribbageMuggins,
         })
         .eq('id', gameId);
       
@@ -1405,9 +1682,92 @@ export const DealerGameSetup = ({
       current_game_uuid: dealerGameId, // Reference the dealer_games record
     };
     
-    // Gin Rummy needs points_to_win on the games table
+    // Gin Rummy needs points_to_win and its variants on the games table
     if (isGinRummy) {
       updateFields.points_to_win = ginRummyPointsToWin;
+      updateFields.gin_oklahoma = ginRummyOklahoma;
+      updateFields.gin_hollywood = ginRummyHollywood;
+    }
+
+    // Hold'em reads its blinds from the games row
+    if (isHoldem) {
+      updateFields.small_blind = holdemSmallBlind;
+      updateFields.big_blind = holdemBigBlind;
+    }
+
+    // Guts starts from an empty pot (the first hand antes into it) and reads its rules from the games row
+    if (isGuts) {
+      updateFields.pot = 0;
+      updateFields.pot_max_enabled = potMaxEnabled;
+      updateFields.pot_max_value = parsedGutsPotMax;
+      updateFields.guts_cards = gutsCards;
+      updateFields.guts_bleed_enabled = gutsBleedEnabled;
+      updateFields.guts_bleed_value = parsedGutsBleed;
+      updateFields.reveal_at_showdown = true;
+    }
+
+    // Stud reads its variant and stakes from the games row
+    if (isStud) {
+      updateFields.stud_variant = studVariant;
+      updateFields.stud_ante = studAnte;
+      updateFields.stud_small_bet = studSmallBet;
+      updateFields.stud_buy_price = studBuyPrice;
+    }
+
+    // Acey-Deucey starts from an empty pot (the antes go in when the first hand is dealt)
+    if (isAceyDeucey) {
+      updateFields.pot = 0;
+      updateFields.acey_ace_rule = aceyAceRule;
+      updateFields.acey_post_penalty = aceyPostPenalty;
+      updateFields.pot_max_enabled = potMaxEnabled;
+      updateFields.pot_max_value = parsedGutsPotMax;
+    }
+
+    // Screw Your Neighbor starts from an empty pot too, and hands out lives with the first deal
+    if (isScrewYourNeighbor) {
+      updateFields.pot = 0;
+      updateFields.starting_lives = startingLives;
+    }
+
+    // Left Right Center's buy-ins go into the center when the game starts
+    if (isLeftRightCenter) {
+      updateFields.pot = 0;
+      updateFields.lcr_chips = lcrChips;
+      updateFields.lcr_wild = lcrWild;
+    }
+
+    // Liar's Dice antes go into the pot when the first cups are rolled
+    if (isLiarsDice) {
+      updateFields.pot = 0;
+      updateFields.liars_dice_starting_dice = liarsDiceStartingDice;
+      updateFields.liars_dice_ones_wild = liarsDiceOnesWild;
+      updateFields.liars_dice_lose_difference = liarsDiceLoseDifference;
+    }
+
+    // Spades antes go into the pot when the first hand is dealt
+    if (isSpades) {
+      updateFields.pot = 0;
+      updateFields.spades_target_score = spadesTargetScore;
+      updateFields.spades_blind_nil = spadesBlindNil;
+    }
+
+    // Euchre antes too
+    if (isEuchre) {
+      updateFields.pot = 0;
+      updateFields.euchre_target_score = euchreTargetScore;
+      updateFields.euchre_stick_the_dealer = euchreStickTheDealer;
+    }
+
+    // Farkle, like Yahtzee, takes no antes up front: the winner collects one from everyone
+    if (isFarkle) {
+      updateFields.pot = 0;
+      updateFields.farkle_target_score = farkleTargetScore;
+      updateFields.farkle_min_opening = farkleMinOpening;
+      updateFields.farkle_three_pairs = farkleScoring.threePairs;
+      updateFields.farkle_straight = farkleScoring.straight;
+      updateFields.farkle_four_of_a_kind = farkleScoring.fourOfAKind;
+      updateFields.farkle_five_of_a_kind = farkleScoring.fiveOfAKind;
+      updateFields.farkle_six_of_a_kind = farkleScoring.sixOfAKind;
     }
     
     const { error } = await supabase
@@ -1557,7 +1917,7 @@ export const DealerGameSetup = ({
                         </div>
                         {restriction && (
                           <span className={`text-xs font-medium flex-shrink-0 ${
-                            activePlayerCount > (game.maxPlayers || 99) 
+                            activePlayerCount > (game.maxPlayers || 99) || activePlayerCount < (game.minPlayers || 0)
                               ? 'text-red-400' 
                               : 'text-amber-400'
                           }`}>
@@ -1601,7 +1961,7 @@ export const DealerGameSetup = ({
                 >
                   <RotateCcw className="w-5 h-5 text-amber-400" />
                   <span className="text-base font-bold text-amber-400">
-                    Run Back {getGameDisplayName(previousGameType)}
+                    Run Back {getGameDisplayName(previousGameType, true)}
                   </span>
                 </button>
               </div>
@@ -1649,14 +2009,24 @@ export const DealerGameSetup = ({
   if (selectionStep === 'config') {
     // Simple ante games (dice + trivia) - just need ante config
     if (isSimpleAnteGame(selectedGameType)) {
-      const isSCC = selectedGameType === 'ship-captain-crew';
-      const isHorses = selectedGameType === 'horses';
-      const isTrivia = selectedGameType === 'sports-trivia';
-      const isCribbage = selectedGameType === 'cribbage';
-      const isGinRummy = selectedGameType === 'gin-rummy';
-      const isYahtzee = selectedGameType === 'yahtzee';
+      const isSCC = isGameType(selectedGameType, 'ship-captain-crew');
+      const isHorses = isGameType(selectedGameType, 'horses');
+      const isTrivia = isGameType(selectedGameType, 'sports-trivia');
+      const isCribbage = isGameType(selectedGameType, 'cribbage');
+      const isGinRummy = isGameType(selectedGameType, 'gin-rummy');
+      const isHoldem = isGameType(selectedGameType, 'holdem');
+      const isGuts = isGameType(selectedGameType, 'guts');
+      const isStud = isGameType(selectedGameType, 'stud');
+      const isAceyDeucey = isGameType(selectedGameType, 'acey-deucey');
+      const isScrewYourNeighbor = isGameType(selectedGameType, 'screw-your-neighbor');
+      const isLeftRightCenter = isGameType(selectedGameType, 'left-right-center');
+      const isLiarsDice = isGameType(selectedGameType, 'liars-dice');
+      const isSpades = isGameType(selectedGameType, 'spades');
+      const isEuchre = isGameType(selectedGameType, 'euchre');
+      const isYahtzee = isGameType(selectedGameType, 'yahtzee');
+      const isFarkle = isGameType(selectedGameType, 'farkle');
       
-      const gameDisplayName = isSCC ? 'Ship' : isHorses ? 'Horses' : isTrivia ? 'Trivia' : isCribbage ? 'Cribbage' : isGinRummy ? 'Gin Rummy' : isYahtzee ? 'Yahtzee' : selectedGameType;
+      const gameDisplayName = getGameDisplayName(selectedGameType, true);
       const gameRulesText = isSCC 
         ? '5 dice • Up to 3 rolls • Get 6-5-4 (Ship-Captain-Crew) • Max cargo wins'
         : isHorses 
@@ -1667,7 +2037,27 @@ export const DealerGameSetup = ({
               ? '10 cards • Draw & discard • Knock at ≤10 deadwood • Match to target'
               : isYahtzee
                 ? '5 dice • 13 categories • Highest total wins'
-                : 'First to 121 • Skunk (2x) if loser < 91 • Double-skunk (3x) if < 61';
+                : isFarkle
+                  ? `6 dice • Set aside scorers, bank or roll on • ${farkleMinOpening > 0 ? `${farkleMinOpening} to open • ` : ''}First to ${farkleTargetScore.toLocaleString()}`
+                  : isHoldem
+                    ? 'No-limit • 2 hole cards • Blinds & side pots • Play until one stack is left'
+                    : isGuts
+                      ? 'Everyone in or out at once • Best hand in wins • Losers match the pot • Ends when the pot is empty'
+                      : isStud
+                        ? `${STUD_VARIANTS[studVariant].description} • Fixed limit • Play until one stack is left`
+                        : isAceyDeucey
+                          ? 'Two posts • Bet the card lands in between • Posts pay extra • Ends when the pot is taken'
+                          : isScrewYourNeighbor
+                            ? 'One card each • Swap left or keep • Kings block • Lowest card loses a life • Last one standing wins'
+                            : isLeftRightCenter
+                              ? `A die per chip (up to 3) • L, R and C pass chips${lcrWild ? ' • ★ takes a chip • Three ★ win' : ''} • Last with chips wins the center`
+                              : isLiarsDice
+                                ? `${liarsDiceStartingDice} dice a cup • Raise the bid or call it a lie${liarsDiceOnesWild ? ' • 1s are wild' : ''} • Last with dice wins`
+                                : isSpades
+                                  ? `Partners across • Bid your tricks or nil${spadesBlindNil ? ' (blind nil 100 behind)' : ''} • Spades trump • 10 bags cost 100 • First to ${spadesTargetScore}`
+                                  : isEuchre
+                                    ? `Partners across • 9s up, bowers high • Order up or name trump, or go alone${euchreStickTheDealer ? ' • Stick the dealer' : ''} • First to ${euchreTargetScore}`
+                                    : 'First to 121 • Skunk (2x) if loser < 91 • Double-skunk (3x) if < 61';
       
       return (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -1693,7 +2083,7 @@ export const DealerGameSetup = ({
               {/* Simple Game Config */}
               <div className="space-y-4">
                 <div className="space-y-1">
-                  <Label htmlFor="ante-simple" className="text-amber-100 text-sm">Ante ($)</Label>
+                  <Label htmlFor="ante-simple" className="text-amber-100 text-sm">{isHoldem || isStud ? 'Buy-in ($)' : 'Ante ($)'}</Label>
                   <Input
                     id="ante-simple"
                     type="text"
@@ -1766,6 +2156,34 @@ export const DealerGameSetup = ({
                       </div>
                     )}
                     
+                    {/* Partnerships - only with exactly four players */}
+                    {activePlayerCount === 4 && (
+                      <div className="flex items-center justify-between pt-2">
+                        <div>
+                          <Label htmlFor="partnerships-toggle" className="text-amber-100 text-sm">Partners</Label>
+                          <p className="text-xs text-amber-200/50">Partners sit across and peg one score</p>
+                        </div>
+                        <Switch
+                          id="partnerships-toggle"
+                          checked={cribbagePartnerships}
+                          onCheckedChange={setCribbagePartnerships}
+                        />
+                      </div>
+                    )}
+
+                    {/* Muggins - players count their own hands */}
+                    <div className="flex items-center justify-between pt-2">
+                      <div>
+                        <Label htmlFor="muggins-toggle" className="text-amber-100 text-sm">Muggins</Label>
+                        <p className="text-xs text-amber-200/50">Count your own hand; opponents claim what you miss</p>
+                      </div>
+                      <Switch
+                        id="muggins-toggle"
+                        checked={cribbageMuggins}
+                        onCheckedChange={setCribbageMuggins}
+                      />
+                    </div>
+
                     {/* Mode description */}
                     <div className="text-xs text-amber-200/60 bg-amber-900/20 rounded-lg p-2 text-center">
                       {cribbageGameMode === 'full' && skunksEnabled && 'Skunk <91 (2x) • Double Skunk <61 (3x)'}
@@ -1844,10 +2262,37 @@ export const DealerGameSetup = ({
                           />
                         </div>
                       </div>
+
+                    {/* Oklahoma - the upcard sets the knock limit */}
+                    <div className="flex items-center justify-between pt-2">
+                      <div>
+                        <Label htmlFor="oklahoma-toggle" className="text-amber-100 text-sm">Oklahoma</Label>
+                        <p className="text-xs text-amber-200/50">First upcard sets the knock limit (ace = gin only); spades double the hand</p>
+                      </div>
+                      <Switch
+                        id="oklahoma-toggle"
+                        checked={ginRummyOklahoma}
+                        onCheckedChange={setGinRummyOklahoma}
+                      />
+                    </div>
+
+                    {/* Hollywood - three games scored at once */}
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <Label htmlFor="hollywood-toggle" className="text-amber-100 text-sm">Hollywood</Label>
+                        <p className="text-xs text-amber-200/50">Three games at once, with line, game and shutout bonuses</p>
+                      </div>
+                      <Switch
+                        id="hollywood-toggle"
+                        checked={ginRummyHollywood}
+                        onCheckedChange={setGinRummyHollywood}
+                      />
+                    </div>
                      
                      {/* Summary */}
                      <div className="text-xs text-amber-200/60 bg-amber-900/20 rounded-lg p-2 text-center">
-                       Match to {ginRummyPointsToWin} pts
+                       {ginRummyHollywood ? `Hollywood: 3 games to ${ginRummyPointsToWin} pts` : `Match to ${ginRummyPointsToWin} pts`}
+                       {ginRummyOklahoma && ' • Oklahoma'}
                        {ginRummyPerPointValue > 0 && ` • $${ginRummyPerPointValue}/pt`}
                        {ginRummyGinBonus > 0 && ` • Gin +${ginRummyGinBonus}pts`}
                        {ginRummyUndercutBonus > 0 && ` • Undercut +${ginRummyUndercutBonus}pts`}
@@ -1855,6 +2300,486 @@ export const DealerGameSetup = ({
                   </>
                 )}
                 
+                {/* Hold'em blinds */}
+                {isHoldem && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                      <Label className="text-amber-100 text-sm">Small Blind ($)</Label>
+                      <Input
+                        type="text"
+                        inputMode="numeric"
+                        value={holdemSmallBlind}
+                        onChange={(e) => setHoldemSmallBlind(parseInt(e.target.value) || 0)}
+                        className="bg-amber-900/30 border-poker-gold/50 text-white"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-amber-100 text-sm">Big Blind ($)</Label>
+                      <Input
+                        type="text"
+                        inputMode="numeric"
+                        value={holdemBigBlind}
+                        onChange={(e) => setHoldemBigBlind(parseInt(e.target.value) || 0)}
+                        className="bg-amber-900/30 border-poker-gold/50 text-white"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {/* Guts: cards, pot max and bleed */}
+                {isGuts && (
+                  <>
+                    <div className="space-y-2">
+                      <Label className="text-amber-100 text-sm">Cards</Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {[2, 3].map((count) => (
+                          <button
+                            key={count}
+                            type="button"
+                            onClick={() => setGutsCards(count)}
+                            className={`py-2.5 px-4 rounded-lg border transition-all font-medium ${
+                              gutsCards === count
+                                ? 'border-poker-gold bg-poker-gold/20 text-white'
+                                : 'border-amber-700/50 bg-amber-900/20 text-amber-200 hover:bg-amber-900/40'
+                            }`}
+                          >
+                            {count}-Card
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label className="text-amber-100 text-sm">Pot Max</Label>
+                          <Switch checked={potMaxEnabled} onCheckedChange={setPotMaxEnabled} />
+                        </div>
+                        {potMaxEnabled && (
+                          <Input
+                            type="text"
+                            inputMode="numeric"
+                            value={potMaxValue}
+                            onChange={(e) => setPotMaxValue(e.target.value)}
+                            className="bg-amber-900/30 border-poker-gold/50 text-white"
+                          />
+                        )}
+                      </div>
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label className="text-amber-100 text-sm">Bleed</Label>
+                          <Switch checked={gutsBleedEnabled} onCheckedChange={setGutsBleedEnabled} />
+                        </div>
+                        {gutsBleedEnabled && (
+                          <Input
+                            type="text"
+                            inputMode="numeric"
+                            value={gutsBleedValue}
+                            onChange={(e) => setGutsBleedValue(e.target.value)}
+                            className="bg-amber-900/30 border-poker-gold/50 text-white"
+                          />
+                        )}
+                      </div>
+                    </div>
+
+                    {/* Summary */}
+                    <div className="text-xs text-amber-200/60 bg-amber-900/20 rounded-lg p-2 text-center">
+                      Losers match {potMaxEnabled ? `the pot, up to $${potMaxValue || '?'}` : 'the whole pot'}
+                      {' • '}
+                      {gutsBleedEnabled ? `A win takes up to $${gutsBleedValue || '?'} out` : 'A win takes the pot'}
+                    </div>
+                  </>
+                )}
+
+                {/* Acey-Deucey: ace rule, post penalty and bet cap */}
+                {isAceyDeucey && (
+                  <>
+                    <div className="space-y-2">
+                      <Label className="text-amber-100 text-sm">Ace as First Post</Label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {([
+                          ['choice', "Player's call"],
+                          ['high', 'Always high'],
+                          ['low', 'Always low'],
+                        ] as const).map(([rule, label]) => (
+                          <button
+                            key={rule}
+                            type="button"
+                            onClick={() => setAceyAceRule(rule)}
+                            className={`py-2.5 px-2 rounded-lg border transition-all font-medium text-sm ${
+                              aceyAceRule === rule
+                                ? 'border-poker-gold bg-poker-gold/20 text-white'
+                                : 'border-amber-700/50 bg-amber-900/20 text-amber-200 hover:bg-amber-900/40'
+                            }`}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label className="text-amber-100 text-sm">Hitting a Post Pays</Label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {[1, 2, 3].map((penalty) => (
+                          <button
+                            key={penalty}
+                            type="button"
+                            onClick={() => setAceyPostPenalty(penalty)}
+                            className={`py-2.5 px-4 rounded-lg border transition-all font-medium ${
+                              aceyPostPenalty === penalty
+                                ? 'border-poker-gold bg-poker-gold/20 text-white'
+                                : 'border-amber-700/50 bg-amber-900/20 text-amber-200 hover:bg-amber-900/40'
+                            }`}
+                          >
+                            {penalty}× bet
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-amber-100 text-sm">Max Bet</Label>
+                        <Switch checked={potMaxEnabled} onCheckedChange={setPotMaxEnabled} />
+                      </div>
+                      {potMaxEnabled && (
+                        <Input
+                          type="text"
+                          inputMode="numeric"
+                          value={potMaxValue}
+                          onChange={(e) => setPotMaxValue(e.target.value)}
+                          className="bg-amber-900/30 border-poker-gold/50 text-white"
+                        />
+                      )}
+                    </div>
+
+                    {/* Summary */}
+                    <div className="text-xs text-amber-200/60 bg-amber-900/20 rounded-lg p-2 text-center">
+                      Bet up to {potMaxEnabled ? `the pot, capped at $${potMaxValue || '?'}` : 'the whole pot'}
+                      {' • '}
+                      {aceyPostPenalty === 1 ? 'A post loses the bet' : `A post pays ${aceyPostPenalty}× the bet`}
+                    </div>
+                  </>
+                )}
+
+                {/* Screw Your Neighbor: starting lives */}
+                {isScrewYourNeighbor && (
+                  <div className="space-y-2">
+                    <Label className="text-amber-100 text-sm">Lives</Label>
+                    <div className="grid grid-cols-5 gap-2">
+                      {[1, 2, 3, 4, 5].map((lives) => (
+                        <button
+                          key={lives}
+                          type="button"
+                          onClick={() => setStartingLives(lives)}
+                          className={`py-2.5 px-2 rounded-lg border transition-all font-medium ${
+                            startingLives === lives
+                              ? 'border-poker-gold bg-poker-gold/20 text-white'
+                              : 'border-amber-700/50 bg-amber-900/20 text-amber-200 hover:bg-amber-900/40'
+                          }`}
+                        >
+                          {lives}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Left Right Center: chips per player and the wild variant */}
+                {isLeftRightCenter && (
+                  <>
+                    <div className="space-y-2">
+                      <Label className="text-amber-100 text-sm">Chips per Player</Label>
+                      <div className="grid grid-cols-5 gap-2">
+                        {[1, 2, 3, 4, 5].map((chips) => (
+                          <button
+                            key={chips}
+                            type="button"
+                            onClick={() => setLcrChips(chips)}
+                            className={`py-2.5 px-2 rounded-lg border transition-all font-medium ${
+                              lcrChips === chips
+                                ? 'border-poker-gold bg-poker-gold/20 text-white'
+                                : 'border-amber-700/50 bg-amber-900/20 text-amber-200 hover:bg-amber-900/40'
+                            }`}
+                          >
+                            {chips}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label className="text-amber-100 text-sm">Wild Dice</Label>
+                      <Switch checked={lcrWild} onCheckedChange={setLcrWild} />
+                    </div>
+
+                    {/* Summary */}
+                    <div className="text-xs text-amber-200/60 bg-amber-900/20 rounded-lg p-2 text-center">
+                      Each chip is worth the ante
+                      {' • '}
+                      Buy-in ${(parseInt(anteAmount) || 0) * lcrChips}
+                    </div>
+                  </>
+                )}
+
+                {/* Liar's Dice: dice per cup, wild ones and the lose-the-difference rule */}
+                {isLiarsDice && (
+                  <>
+                    <div className="space-y-2">
+                      <Label className="text-amber-100 text-sm">Starting Dice</Label>
+                      <div className="grid grid-cols-4 gap-2">
+                        {[3, 4, 5, 6].map((dice) => (
+                          <button
+                            key={dice}
+                            type="button"
+                            onClick={() => setLiarsDiceStartingDice(dice)}
+                            className={`py-2.5 px-2 rounded-lg border transition-all font-medium ${
+                              liarsDiceStartingDice === dice
+                                ? 'border-poker-gold bg-poker-gold/20 text-white'
+                                : 'border-amber-700/50 bg-amber-900/20 text-amber-200 hover:bg-amber-900/40'
+                            }`}
+                          >
+                            {dice}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label className="text-amber-100 text-sm">Ones Wild</Label>
+                      <Switch checked={liarsDiceOnesWild} onCheckedChange={setLiarsDiceOnesWild} />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label className="text-amber-100 text-sm">Lose the Difference</Label>
+                      <Switch checked={liarsDiceLoseDifference} onCheckedChange={setLiarsDiceLoseDifference} />
+                    </div>
+
+                    {/* Summary */}
+                    <div className="text-xs text-amber-200/60 bg-amber-900/20 rounded-lg p-2 text-center">
+                      {liarsDiceOnesWild ? 'Ones count toward every bid' : 'Ones count as ones'}
+                      {' • '}
+                      {liarsDiceLoseDifference ? 'A lost call costs the difference' : 'A lost call costs one die'}
+                    </div>
+                  </>
+                )}
+
+                {/* Spades: the score to play to and whether a side well behind may bid blind nil */}
+                {isSpades && (
+                  <>
+                    <div className="space-y-2">
+                      <Label className="text-amber-100 text-sm">Play To</Label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {[250, 300, 500].map((target) => (
+                          <button
+                            key={target}
+                            type="button"
+                            onClick={() => setSpadesTargetScore(target)}
+                            className={`py-2.5 px-2 rounded-lg border transition-all font-medium ${
+                              spadesTargetScore === target
+                                ? 'border-poker-gold bg-poker-gold/20 text-white'
+                                : 'border-amber-700/50 bg-amber-900/20 text-amber-200 hover:bg-amber-900/40'
+                            }`}
+                          >
+                            {target}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label className="text-amber-100 text-sm">Blind Nil</Label>
+                      <Switch checked={spadesBlindNil} onCheckedChange={setSpadesBlindNil} />
+                    </div>
+
+                    {/* Summary */}
+                    <div className="text-xs text-amber-200/60 bg-amber-900/20 rounded-lg p-2 text-center">
+                      The winning partnership splits the pot
+                      {spadesBlindNil ? ' • Blind nil scores 200' : ''}
+                    </div>
+                  </>
+                )}
+
+                {/* Euchre: the score to play to and whether the dealer must name trump */}
+                {isEuchre && (
+                  <>
+                    <div className="space-y-2">
+                      <Label className="text-amber-100 text-sm">Play To</Label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {[5, 7, 10].map((target) => (
+                          <button
+                            key={target}
+                            type="button"
+                            onClick={() => setEuchreTargetScore(target)}
+                            className={`py-2.5 px-2 rounded-lg border transition-all font-medium ${
+                              euchreTargetScore === target
+                                ? 'border-poker-gold bg-poker-gold/20 text-white'
+                                : 'border-amber-700/50 bg-amber-900/20 text-amber-200 hover:bg-amber-900/40'
+                            }`}
+                          >
+                            {target}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label className="text-amber-100 text-sm">Stick the Dealer</Label>
+                      <Switch checked={euchreStickTheDealer} onCheckedChange={setEuchreStickTheDealer} />
+                    </div>
+
+                    {/* Summary */}
+                    <div className="text-xs text-amber-200/60 bg-amber-900/20 rounded-lg p-2 text-center">
+                      The winning partnership splits the pot
+                      {euchreStickTheDealer ? ' • No hand is thrown in' : ' • A hand everyone passes is thrown in'}
+                    </div>
+                  </>
+                )}
+
+                {/* Farkle: target and opening scores, and the house-rule scoring table */}
+                {isFarkle && (
+                  <>
+                    <div className="space-y-2">
+                      <Label className="text-amber-100 text-sm">Play To</Label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {[2500, 5000, 10000].map((target) => (
+                          <button
+                            key={target}
+                            type="button"
+                            onClick={() => setFarkleTargetScore(target)}
+                            className={`py-2.5 px-2 rounded-lg border transition-all font-medium ${
+                              farkleTargetScore === target
+                                ? 'border-poker-gold bg-poker-gold/20 text-white'
+                                : 'border-amber-700/50 bg-amber-900/20 text-amber-200 hover:bg-amber-900/40'
+                            }`}
+                          >
+                            {target.toLocaleString()}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label className="text-amber-100 text-sm">To Get on the Board</Label>
+                      <div className="grid grid-cols-4 gap-2">
+                        {[0, 350, 500, 1000].map((opening) => (
+                          <button
+                            key={opening}
+                            type="button"
+                            onClick={() => setFarkleMinOpening(opening)}
+                            className={`py-2.5 px-2 rounded-lg border transition-all font-medium ${
+                              farkleMinOpening === opening
+                                ? 'border-poker-gold bg-poker-gold/20 text-white'
+                                : 'border-amber-700/50 bg-amber-900/20 text-amber-200 hover:bg-amber-900/40'
+                            }`}
+                          >
+                            {opening === 0 ? 'Any' : opening}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* 0 = Off for three pairs and the straight, Double (the kind below) for the kinds */}
+                    {([
+                      ['threePairs', 'Three Pairs', [0, 750, 1500]],
+                      ['straight', 'Straight (1-6)', [0, 1500, 2500]],
+                      ['fourOfAKind', 'Four of a Kind', [0, 1000, 2000]],
+                      ['fiveOfAKind', 'Five of a Kind', [0, 2000, 3000]],
+                      ['sixOfAKind', 'Six of a Kind', [0, 3000, 5000]],
+                    ] as const).map(([rule, label, values]) => (
+                      <div key={rule} className="flex items-center justify-between gap-2">
+                        <Label className="text-amber-100 text-sm">{label}</Label>
+                        <div className="grid grid-cols-3 gap-1.5 w-[60%]">
+                          {values.map((value) => (
+                            <button
+                              key={value}
+                              type="button"
+                              onClick={() => setFarkleScoring((prev) => ({ ...prev, [rule]: value }))}
+                              className={`py-1.5 px-1 rounded-lg border transition-all text-sm font-medium ${
+                                farkleScoring[rule] === value
+                                  ? 'border-poker-gold bg-poker-gold/20 text-white'
+                                  : 'border-amber-700/50 bg-amber-900/20 text-amber-200 hover:bg-amber-900/40'
+                              }`}
+                            >
+                              {value > 0 ? value : rule === 'threePairs' || rule === 'straight' ? 'Off' : 'Double'}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+
+                    {/* Summary */}
+                    <div className="text-xs text-amber-200/60 bg-amber-900/20 rounded-lg p-2 text-center">
+                      1 = 100 • 5 = 50 • Three of a kind = 100× the face (1s = 1000)
+                      {' • '}
+                      Winner collects ${parseInt(anteAmount) || 0} from each player
+                    </div>
+                  </>
+                )}
+
+                {/* Stud: variant and fixed-limit stakes */}
+                {isStud && (
+                  <>
+                    <div className="space-y-2">
+                      <Label className="text-amber-100 text-sm">Variant</Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {STUD_VARIANT_LIST.map((variant) => (
+                          <button
+                            key={variant.id}
+                            type="button"
+                            onClick={() => setStudVariant(variant.id)}
+                            className={`py-2.5 px-4 rounded-lg border transition-all font-medium ${
+                              studVariant === variant.id
+                                ? 'border-poker-gold bg-poker-gold/20 text-white'
+                                : 'border-amber-700/50 bg-amber-900/20 text-amber-200 hover:bg-amber-900/40'
+                            }`}
+                          >
+                            {variant.name}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className={`grid gap-4 ${STUD_VARIANTS[studVariant].buysUpCard ? 'grid-cols-3' : 'grid-cols-2'}`}>
+                      <div className="space-y-1">
+                        <Label className="text-amber-100 text-sm">Ante ($)</Label>
+                        <Input
+                          type="text"
+                          inputMode="numeric"
+                          value={studAnte}
+                          onChange={(e) => setStudAnte(parseInt(e.target.value) || 0)}
+                          className="bg-amber-900/30 border-poker-gold/50 text-white"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-amber-100 text-sm">Small Bet ($)</Label>
+                        <Input
+                          type="text"
+                          inputMode="numeric"
+                          value={studSmallBet}
+                          onChange={(e) => setStudSmallBet(parseInt(e.target.value) || 0)}
+                          className="bg-amber-900/30 border-poker-gold/50 text-white"
+                        />
+                      </div>
+                      {STUD_VARIANTS[studVariant].buysUpCard && (
+                        <div className="space-y-1">
+                          <Label className="text-amber-100 text-sm">Buy a 4 ($)</Label>
+                          <Input
+                            type="text"
+                            inputMode="numeric"
+                            value={studBuyPrice}
+                            onChange={(e) => setStudBuyPrice(parseInt(e.target.value) || 0)}
+                            className="bg-amber-900/30 border-poker-gold/50 text-white"
+                          />
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Summary */}
+                    <div className="text-xs text-amber-200/60 bg-amber-900/20 rounded-lg p-2 text-center">
+                      Bring-in ${Math.max(1, Math.floor(studSmallBet / 2))}
+                      {' • '}
+                      ${studSmallBet}/${studSmallBet * 2} limit
+                    </div>
+                  </>
+                )}
+
                 {!isCribbage && !isGinRummy && (
                   <p className="text-sm text-amber-200/70 text-center">
                     {gameRulesText}
@@ -8,6 +8,7 @@ import { useDeviceSize } from "@/hooks/useDeviceSize";
 import { pushDiceTrace, isDiceTraceRecording } from "@/components/DiceTraceHUD";
 import { isDiceSnapEnabled } from "@/lib/diceSnapshots/enabled";
 import { recordDiceSnapFrame, DiceSnapSample } from "@/lib/diceSnapshots/recorder";
+import { isGameType } from "@/lib/gameTypes";
 
 // Persist rollKey / fly-in consumption across DiceTableLayout remounts.
 // MobileGameTable intentionally remounts DiceTableLayout when the dice "owner" changes,
@@ -241,7 +242,7 @@ export function DiceTableLayout({
   isQualified,
   cacheKey,
 }: DiceTableLayoutProps) {
-  const isSCC = gameType === 'ship-captain-crew';
+  const isSCC = isGameType(gameType, 'ship-captain-crew');
   const { isTablet } = useDeviceSize();
   
   // TABLET: Use larger dice size
@@ -0,0 +1,663 @@
+// Euchre Game Table - Mobile layout following SpadesGameTable
+// Circular felt with the four seats round it (the viewer at the bottom, their partner across,
+// the opponents either side in play order), the turned card in the middle while trump is called
+// and the trick once play starts. Hands come from player_cards the same way as spades', the
+// dealer's written back after the discard. The team scores run on the cribbage peg board.
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useWakeLock } from '@/hooks/useWakeLock';
+import type { Card, Suit } from '@/lib/cardUtils';
+import { RANK_VALUES, SUITS } from '@/lib/cardUtils';
+import type { EuchreState } from '@/lib/euchreTypes';
+import { euchreModule, type EuchreAction } from '@/lib/euchreModule';
+import {
+  getEuchreLegalPlays,
+  getEuchreSittingOut,
+  getEuchreTeam,
+  getEuchreTrickRules,
+  getEuchreTricksWon,
+  hideEuchreHands,
+  isEuchreDealerStuck,
+  withEuchreHand,
+} from '@/lib/euchreGameLogic';
+import { isSameCard } from '@/lib/trickTaking';
+import {
+  endEuchreGame,
+  fetchEuchreHand,
+  recordEuchreHandResult,
+  startNextEuchreHand,
+  storeEuchreHand,
+  updateEuchreState,
+} from '@/lib/euchreRoundLogic';
+import { logModuleAction } from '@/lib/handActionLog';
+import { PlayingCard } from './PlayingCard';
+import { CribbagePegBoard } from './CribbagePegBoard';
+import { ChipStack } from './ChipStack';
+import { ChipChangeIndicator } from './ChipChangeIndicator';
+import { MobileChatPanel } from './MobileChatPanel';
+import { HandHistory } from './HandHistory';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { useVisualPreferences } from '@/hooks/useVisualPreferences';
+import { useGameChat } from '@/hooks/useGameChat';
+import { cn, formatChipValue } from '@/lib/utils';
+import { getDisplayName } from '@/lib/botAlias';
+import peoriaBridgeMobile from '@/assets/peoria-bridge-mobile.jpg';
+import { MessageSquare, Clock, Layers } from 'lucide-react';
+
+interface Player {
+  id: string;
+  user_id: string;
+  position: number;
+  chips: number;
+  is_bot?: boolean;
+  profiles?: { username: string };
+}
+
+interface EuchreGameTableProps {
+  gameId: string;
+  roundId: string;
+  dealerGameId: string | null;
+  players: Player[];
+  currentUserId: string;
+  pot: number;
+  isGameOver: boolean;
+  onGameComplete: () => void;
+  onRefetch: () => void;
+}
+
+// Where each seat sits by how many places after the viewer it plays: bottom, left, top, right
+const SEAT_SPOTS = [
+  { left: '50%', top: '86%' },
+  { left: '13%', top: '50%' },
+  { left: '50%', top: '14%' },
+  { left: '87%', top: '50%' },
+];
+// Where each seat's card lands in the trick
+const TRICK_SPOTS = [
+  { left: '50%', top: '63%' },
+  { left: '35%', top: '50%' },
+  { left: '50%', top: '37%' },
+  { left: '65%', top: '50%' },
+];
+
+const SUIT_NAMES: Record<Suit, string> = { '♠': 'Spades', '♥': 'Hearts', '♦': 'Diamonds', '♣': 'Clubs' };
+
+/** Trump first, then the other suits, each high to low as they play */
+function sortHand(cards: Card[], trump: Suit | null): Card[] {
+  if (!trump) {
+    return [...cards].sort((a, b) => SUITS.indexOf(a.suit) - SUITS.indexOf(b.suit) || RANK_VALUES[b.rank] - RANK_VALUES[a.rank]);
+  }
+  const rules = getEuchreTrickRules(trump);
+  const suitOrder = (card: Card) => (rules.suitOf!(card) === trump ? -1 : SUITS.indexOf(card.suit));
+  return [...cards].sort((a, b) => suitOrder(a) - suitOrder(b) || rules.rankOf!(b) - rules.rankOf!(a));
+}
+
+export const EuchreGameTable = ({
+  gameId,
+  roundId,
+  dealerGameId,
+  players,
+  currentUserId,
+  pot,
+  isGameOver,
+  onGameComplete,
+  onRefetch,
+}: EuchreGameTableProps) => {
+  const { getTableColors } = useVisualPreferences();
+  const tableColors = getTableColors();
+
+  // Prevent screen from dimming during gameplay
+  useWakeLock(true);
+
+  const { allMessages, sendMessage, isSending: isChatSending } = useGameChat(gameId, players, currentUserId);
+
+  const [euState, setEuState] = useState<EuchreState | null>(null);
+  // What player_cards holds for me: the deal, or the dealer's hand after the discard
+  const [myHeld, setMyHeld] = useState<Card[]>([]);
+  const [goAlone, setGoAlone] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [activeTab, setActiveTab] = useState<'cards' | 'chat' | 'history'>('cards');
+  // Polls right after a local write can still return the state from before it
+  const optimisticUntilRef = useRef(0);
+
+  const currentPlayer = players.find(p => p.user_id === currentUserId);
+  const currentPlayerId = currentPlayer?.id;
+
+  // Reset per-hand state when a new hand is dealt
+  useEffect(() => {
+    setEuState(null);
+    setMyHeld([]);
+    setGoAlone(false);
+  }, [roundId]);
+
+  // Realtime subscription + polling fallback (same as gin rummy)
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!roundId) return;
+    let isActive = true;
+
+    const applyRound = (round: { game_state?: unknown }, source: string) => {
+      if (!isActive || !round.game_state) return;
+      if (source === 'poll' && Date.now() < optimisticUntilRef.current) return;
+      setEuState(round.game_state as EuchreState);
+    };
+
+    const channel = supabase
+      .channel(`euchre-${roundId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'rounds',
+          filter: `id=eq.${roundId}`,
+        },
+        (payload) => applyRound(payload.new as { game_state?: unknown }, 'realtime')
+      )
+      .subscribe();
+
+    const poll = async () => {
+      if (!isActive) return;
+
+      try {
+        const { data } = await supabase
+          .from('rounds')
+          .select('game_state')
+          .eq('id', roundId)
+          .maybeSingle();
+
+        if (data) applyRound(data, 'poll');
+      } catch {
+        // Silent fail
+      }
+
+      if (isActive) {
+        pollTimerRef.current = setTimeout(poll, 1500);
+      }
+    };
+
+    // The first poll loads the hand
+    pollTimerRef.current = setTimeout(poll, 0);
+
+    return () => {
+      isActive = false;
+      if (pollTimerRef.current) clearTimeout(pollTimerRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [roundId]);
+
+  // My hand (player_cards is written just after the round row, so retry until it lands)
+  useEffect(() => {
+    if (!roundId || !currentPlayerId || myHeld.length > 0) return;
+    if (!euState?.seats.includes(currentPlayerId)) return;
+
+    let cancelled = false;
+    const load = async () => {
+      const cards = await fetchEuchreHand(roundId, currentPlayerId);
+      if (cancelled) return;
+      if (cards.length > 0) setMyHeld(cards);
+      else setTimeout(load, 1000);
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [roundId, currentPlayerId, euState?.seats, myHeld.length]);
+
+  const getPosition = useCallback(
+    (playerId: string | null) => (playerId ? players.find(p => p.id === playerId)?.position ?? null : null),
+    [players]
+  );
+
+  // Apply an action to the stored (handless) state, with the actor's hand put back, and write it
+  // back without it. After a discard the dealer's new hand goes to player_cards first, so nobody
+  // reads the old one against the new state.
+  const dispatch = useCallback(async (state: EuchreState, action: EuchreAction, held: Card[]): Promise<Card[] | null> => {
+    const full = euchreModule.reduce(withEuchreHand(state, action.playerId, held), action);
+    const next = hideEuchreHands(full);
+    let stored: Card[] | null = null;
+    if (action.type === 'discard') {
+      stored = full.hands[action.playerId];
+      await storeEuchreHand(roundId, action.playerId, stored);
+    }
+    // The discard stays secret: the log only has the dealer throwing a card
+    void logModuleAction(roundId, state, action.type === 'discard' ? { type: action.type, playerId: action.playerId } : action);
+    optimisticUntilRef.current = Date.now() + 1500;
+    setEuState(next);
+    await updateEuchreState(roundId, next, getPosition(next.currentTurnPlayerId));
+    return stored;
+  }, [roundId, getPosition]);
+
+  const fetchStoredState = useCallback(async (): Promise<EuchreState | null> => {
+    const { data } = await supabase
+      .from('rounds')
+      .select('game_state')
+      .eq('id', roundId)
+      .maybeSingle();
+    return (data?.game_state as unknown as EuchreState | null) ?? null;
+  }, [roundId]);
+
+  // ─── Bot Action Loop ────────────────────────────────────────────
+  const botActionInProgress = useRef(false);
+
+  useEffect(() => {
+    if (!euState || euState.phase === 'complete' || botActionInProgress.current) return;
+
+    const botId = euState.currentTurnPlayerId;
+    if (!botId || !players.find(p => p.id === botId)?.is_bot) return;
+
+    const runBotAction = async () => {
+      if (botActionInProgress.current) return;
+      botActionInProgress.current = true;
+
+      try {
+        // Add a human-like delay, and leave a finished trick on the table a moment longer
+        const trickJustTaken = !euState.currentTrick && euState.tricks.length > 0;
+        await new Promise(resolve => setTimeout(resolve, 900 + Math.random() * 600 + (trickJustTaken ? 1200 : 0)));
+
+        // Re-fetch latest state to prevent stale-closure issues
+        const state = await fetchStoredState();
+        if (!state || state.phase === 'complete' || state.currentTurnPlayerId !== botId) return;
+
+        // The bot decides looking at its hand; the stored state never gets it
+        const held = await fetchEuchreHand(roundId, botId);
+        const action = euchreModule.botAction(withEuchreHand(state, botId, held), botId);
+        if (action) await dispatch(state, action, held);
+      } catch (err) {
+        console.error('[EUCHRE BOT] Error:', err);
+      } finally {
+        botActionInProgress.current = false;
+      }
+    };
+
+    const timeout = setTimeout(runBotAction, 300);
+    return () => clearTimeout(timeout);
+  }, [euState, players, roundId, dispatch, fetchStoredState]);
+
+  // ─── Hand Completion & Next Hand ──────────────────────────────
+  // Refs so a parent re-render doesn't restart the completion sequence
+  const onGameCompleteRef = useRef(onGameComplete);
+  const onRefetchRef = useRef(onRefetch);
+  useEffect(() => {
+    onGameCompleteRef.current = onGameComplete;
+    onRefetchRef.current = onRefetch;
+  }, [onGameComplete, onRefetch]);
+  const completedRoundRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!euState || euState.phase !== 'complete' || completedRoundRef.current === roundId) return;
+    if (!dealerGameId || isGameOver) return;
+
+    completedRoundRef.current = roundId;
+
+    const processCompletion = async () => {
+      try {
+        // Let everyone see how the hand went before it's settled
+        await new Promise(resolve => setTimeout(resolve, 4000));
+        await recordEuchreHandResult(gameId, roundId, euState);
+
+        if (euState.result?.winningTeam === null) {
+          const result = await startNextEuchreHand(gameId, dealerGameId, euState);
+          if (result.success) {
+            onRefetchRef.current();
+            return;
+          }
+        }
+
+        await endEuchreGame(gameId, euState);
+        onGameCompleteRef.current();
+      } catch (err) {
+        console.error('[EUCHRE] Hand completion error:', err);
+      }
+    };
+
+    processCompletion();
+  }, [euState, roundId, dealerGameId, gameId, isGameOver]);
+
+  const getPlayerUsername = useCallback((playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    if (!player) return '';
+    return getDisplayName(players, player, player.profiles?.username || 'Player');
+  }, [players]);
+
+  // The state with my hand in it, for what I hold and may play
+  const myState = useMemo(
+    () => (euState && currentPlayerId && myHeld.length > 0 ? withEuchreHand(euState, currentPlayerId, myHeld) : null),
+    [euState, currentPlayerId, myHeld]
+  );
+
+  const handleAction = async (action: EuchreAction) => {
+    if (!euState || isProcessing) return;
+    setIsProcessing(true);
+    try {
+      const stored = await dispatch(euState, action, myHeld);
+      if (stored) setMyHeld(stored);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (!euState || !roundId) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center bg-slate-900">
+        <p className="text-sm font-bold text-poker-gold animate-pulse">
+          {roundId ? 'Dealing...' : 'Awaiting antes...'}
+        </p>
+      </div>
+    );
+  }
+
+  const isComplete = euState.phase === 'complete';
+  const isCalling = euState.phase === 'ordering' || euState.phase === 'naming';
+  const isObserver = !currentPlayerId || !euState.seats.includes(currentPlayerId);
+  const isMyTurn = !isComplete && euState.currentTurnPlayerId === currentPlayerId;
+  const isDealer = euState.dealerPlayerId === currentPlayerId;
+  const tricksWon = getEuchreTricksWon(euState);
+  const sittingOut = getEuchreSittingOut(euState);
+  const result = euState.result;
+
+  // Seats counted round from the viewer (or the first seat for observers)
+  const viewerIndex = isObserver ? 0 : euState.seats.indexOf(currentPlayerId!);
+  const slotOf = (playerId: string) => (euState.seats.indexOf(playerId) - viewerIndex + 4) % 4;
+
+  const myTeam = isObserver ? 0 : getEuchreTeam(euState, currentPlayerId!);
+  const teamName = (team: number) =>
+    euState.seats.filter(id => getEuchreTeam(euState, id) === team).map(id => getPlayerUsername(id)).join(' & ');
+  const teamScores = result ? result.scores : euState.teamScores;
+
+  // The trick in progress, or the last one taken until the next card is led
+  const shownTrick = euState.currentTrick ?? (euState.phase === 'playing' ? euState.tricks[euState.tricks.length - 1] ?? null : null);
+  const myHand = myState && currentPlayerId ? sortHand(myState.hands[currentPlayerId] ?? [], euState.trumpSuit) : [];
+  const legal = myState && currentPlayerId && isMyTurn ? getEuchreLegalPlays(myState, currentPlayerId) : [];
+  const isDiscarding = isMyTurn && euState.phase === 'discarding';
+  const turnName = euState.currentTurnPlayerId ? getPlayerUsername(euState.currentTurnPlayerId) : '';
+  const makerName = euState.makerId ? getPlayerUsername(euState.makerId) : '';
+
+  // The peg board charts one row per partnership
+  const teamRows = [0, 1].map(team => ({
+    id: `team-${team}`,
+    user_id: `team-${team}`,
+    profiles: { username: team === myTeam && !isObserver ? 'Us' : teamName(team) },
+  }));
+
+  const describeStatus = () => {
+    if (isComplete && result) {
+      if (result.makersTeam === null) return 'Everyone passed • Redeal';
+      const outcome = result.euchred
+        ? `${teamName(1 - result.makersTeam)} euchre ${makerName}!`
+        : `${makerName}${result.alone ? ' alone' : ''} ${result.makerTricks === 5 ? 'takes all five' : `takes ${result.makerTricks}`}`;
+      return result.winningTeam !== null ? `${outcome} • ${teamName(result.winningTeam)} win the game!` : outcome;
+    }
+    if (euState.phase === 'ordering') return isMyTurn ? (isDealer ? 'Pick it up?' : 'Order it up?') : `${turnName} to call`;
+    if (euState.phase === 'naming') return isMyTurn ? 'Name trump?' : `${turnName} to call`;
+    if (euState.phase === 'discarding') return isMyTurn ? 'Discard a card' : `${turnName} is discarding`;
+    if (isMyTurn) return euState.currentTrick ? 'Your play' : 'Your lead';
+    return `${turnName} to ${euState.currentTrick ? 'play' : 'lead'}`;
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Felt Area */}
+      <div
+        className="relative flex items-start justify-center pt-1"
+        style={{
+          height: 'calc(min(90vw, calc(50vh - 32px)) + 10px)',
+          minHeight: '280px',
+        }}
+      >
+        <div className="absolute inset-0 bg-slate-200 z-0" />
+
+        <div
+          className="relative z-10"
+          style={{
+            width: 'min(90vw, calc(50vh - 32px))',
+            height: 'min(90vw, calc(50vh - 32px))',
+          }}
+        >
+          <div
+            className="absolute inset-0 rounded-full overflow-hidden border-2 border-white/80"
+            style={
+              tableColors.showBridge
+                ? { backgroundImage: `url(${peoriaBridgeMobile})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+                : { background: `radial-gradient(ellipse at center, ${tableColors.color} 0%, ${tableColors.darkColor} 100%)` }
+            }
+          />
+
+          {/* Pot and trump - top of the middle, clear of the trick */}
+          <div className="absolute left-1/2 top-[25%] -translate-x-1/2 -translate-y-1/2 z-20 flex items-center gap-1">
+            <ChipStack amount={pot} size="sm" />
+            <span className="text-xs font-bold text-poker-gold">${formatChipValue(pot)}</span>
+            {euState.trumpSuit && (
+              <span className={cn(
+                'ml-1 px-1.5 rounded bg-white text-sm font-bold',
+                euState.trumpSuit === '♥' || euState.trumpSuit === '♦' ? 'text-red-600' : 'text-black'
+              )}>
+                {euState.trumpSuit}
+              </span>
+            )}
+          </div>
+
+          {/* The turned card while trump is called */}
+          {isCalling && (
+            <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-20 flex flex-col items-center gap-1">
+              <PlayingCard card={euState.upcard} size="md" isDimmed={euState.phase === 'naming'} />
+              <p className="text-[10px] text-white/70">
+                {euState.phase === 'naming' ? 'Turned down' : 'Turned up'}
+              </p>
+            </div>
+          )}
+
+          {/* The trick */}
+          {shownTrick?.plays.map((play) => (
+            <div
+              key={`${play.card.rank}${play.card.suit}`}
+              className={cn(
+                'absolute z-20 -translate-x-1/2 -translate-y-1/2 rounded-md transition-all',
+                shownTrick.winnerId === play.playerId && 'ring-2 ring-poker-gold'
+              )}
+              style={TRICK_SPOTS[slotOf(play.playerId)]}
+            >
+              <PlayingCard card={play.card} size="md" />
+            </div>
+          ))}
+
+          {/* Seats */}
+          {euState.seats.map((playerId) => {
+            const isTurn = !isComplete && euState.currentTurnPlayerId === playerId;
+            const isPartnerOfViewer = !isObserver && getEuchreTeam(euState, playerId) === myTeam;
+            const player = players.find(p => p.id === playerId);
+
+            return (
+              <div
+                key={playerId}
+                className={cn('absolute z-[110] -translate-x-1/2 -translate-y-1/2', playerId === sittingOut && 'opacity-40')}
+                style={SEAT_SPOTS[slotOf(playerId)]}
+              >
+                <div
+                  data-chip-center={player?.position}
+                  className={cn(
+                    'rounded-lg px-2 py-0.5 bg-black/70 border text-center min-w-[64px]',
+                    isTurn ? 'border-yellow-400' : isPartnerOfViewer ? 'border-sky-400/60' : 'border-white/20'
+                  )}
+                >
+                  <div className="flex items-center justify-center gap-1">
+                    {euState.dealerPlayerId === playerId && (
+                      <span className="w-4 h-4 rounded-full bg-red-600 border border-white text-[9px] font-bold text-white flex items-center justify-center">D</span>
+                    )}
+                    <span className="text-[11px] font-semibold text-white truncate max-w-[70px]">
+                      {getPlayerUsername(playerId)}
+                    </span>
+                  </div>
+                  <div className="text-[10px] font-bold text-white/80">
+                    {playerId === sittingOut
+                      ? 'Sitting out'
+                      : euState.makerId === playerId
+                        ? `Called ${euState.trumpSuit}${euState.alone ? ' alone' : ''} • ${tricksWon[playerId]}`
+                        : euState.trumpSuit ? `${tricksWon[playerId]} ${tricksWon[playerId] === 1 ? 'trick' : 'tricks'}` : '—'}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Bottom section */}
+      <div className="flex-1 min-h-0 flex flex-col bg-gradient-to-t from-background via-background to-background/95 border-t border-border overflow-hidden">
+        {/* Team scores */}
+        <div className="mx-3 mt-2 rounded-lg bg-slate-900/90 px-2 py-1.5">
+          <CribbagePegBoard
+            players={teamRows}
+            playerStates={{}}
+            winningScore={euState.targetScore}
+            overrideScores={Object.fromEntries(teamRows.map((row, team) => [row.id, teamScores[team]]))}
+          />
+        </div>
+
+        {/* Status */}
+        <div className="min-h-[36px] shrink-0 flex flex-col items-center justify-center px-4">
+          {isComplete ? (
+            <div className="w-full bg-poker-gold/95 rounded-lg px-3 py-1.5 shadow-xl border-2 border-amber-900">
+              <p className="text-slate-900 font-bold text-xs text-center truncate">{describeStatus()}</p>
+            </div>
+          ) : (
+            <span className="text-sm text-foreground font-medium">{describeStatus()}</span>
+          )}
+        </div>
+
+        {/* Tab navigation */}
+        <div className="flex items-center justify-center gap-1 px-4 py-1.5 border-b border-border/50">
+          {([
+            ['cards', Layers],
+            ['chat', MessageSquare],
+            ['history', Clock],
+          ] as const).map(([tab, Icon]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={cn(
+                'flex-1 flex items-center justify-center py-2 px-3 rounded-md transition-all',
+                activeTab === tab ? 'bg-primary/20 text-foreground' : 'text-muted-foreground/50 hover:text-muted-foreground',
+                tab === 'cards' && isMyTurn && activeTab !== 'cards' && 'animate-pulse ring-2 ring-red-500'
+              )}
+            >
+              <Icon className="w-5 h-5" />
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'cards' && (
+          <div className="px-3 flex-1 min-h-0 overflow-y-auto">
+            {/* My hand; legal plays lift on my turn, and any card can go while I'm discarding */}
+            {!isObserver && myHand.length > 0 && (
+              <div className="flex flex-wrap items-end justify-center gap-0.5 py-2">
+                {myHand.map((card) => {
+                  const isLegal = isDiscarding || legal.some(c => isSameCard(c, card));
+                  return (
+                    <button
+                      key={`${card.rank}${card.suit}`}
+                      type="button"
+                      disabled={!isLegal || isProcessing}
+                      onClick={() => handleAction(
+                        isDiscarding
+                          ? { type: 'discard', playerId: currentPlayerId!, card }
+                          : { type: 'play', playerId: currentPlayerId!, card }
+                      )}
+                      className={cn('transition-transform', isLegal && '-translate-y-1.5', isMyTurn && !isLegal && !isCalling && 'opacity-50')}
+                    >
+                      <PlayingCard card={card} size="md" />
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {isMyTurn && isCalling && (
+              <div className="space-y-2 pb-2">
+                <div className="flex items-center justify-center gap-2">
+                  <Switch id="euchre-alone" checked={goAlone} onCheckedChange={setGoAlone} />
+                  <Label htmlFor="euchre-alone" className="text-sm">Go alone</Label>
+                </div>
+                {euState.phase === 'ordering' ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      disabled={isProcessing}
+                      onClick={() => handleAction({ type: 'order', playerId: currentPlayerId!, alone: goAlone })}
+                    >
+                      {isDealer ? 'Pick Up' : 'Order Up'} {SUIT_NAMES[euState.upcard.suit]}
+                    </Button>
+                    <Button variant="outline" disabled={isProcessing} onClick={() => handleAction({ type: 'pass', playerId: currentPlayerId! })}>
+                      Pass
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-4 gap-2">
+                    {SUITS.filter(suit => suit !== euState.upcard.suit).map((suit) => (
+                      <Button
+                        key={suit}
+                        variant="secondary"
+                        disabled={isProcessing}
+                        onClick={() => handleAction({ type: 'name', playerId: currentPlayerId!, suit, alone: goAlone })}
+                        className={suit === '♥' || suit === '♦' ? 'text-red-500' : undefined}
+                      >
+                        {suit}
+                      </Button>
+                    ))}
+                    <Button
+                      variant="outline"
+                      disabled={isProcessing || isEuchreDealerStuck(euState, currentPlayerId!)}
+                      onClick={() => handleAction({ type: 'pass', playerId: currentPlayerId! })}
+                    >
+                      Pass
+                    </Button>
+                  </div>
+                )}
+                {isEuchreDealerStuck(euState, currentPlayerId!) && (
+                  <p className="text-[11px] text-center text-muted-foreground">Stick the dealer: you have to name trump</p>
+                )}
+              </div>
+            )}
+
+            {/* Player info */}
+            {currentPlayer && (
+              <div className="relative flex items-center justify-center gap-2 py-2">
+                <p className="text-sm font-semibold text-foreground">{currentPlayer.profiles?.username || 'You'}</p>
+                <span className={cn('font-bold text-lg', currentPlayer.chips < 0 ? 'text-destructive' : 'text-poker-gold')}>
+                  {formatChipValue(currentPlayer.chips)}
+                </span>
+                <ChipChangeIndicator currentChips={currentPlayer.chips} playerId={currentPlayer.id} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'chat' && (
+          <div className="flex-1 min-h-0 flex flex-col">
+            <MobileChatPanel
+              messages={allMessages}
+              onSend={sendMessage}
+              isSending={isChatSending}
+              currentUserId={currentUserId}
+            />
+          </div>
+        )}
+
+        {activeTab === 'history' && (
+          <div className="flex-1 overflow-y-auto">
+            <HandHistory
+              gameId={gameId}
+              currentUserId={currentUserId}
+              currentPlayerId={currentPlayerId}
+              gameType="euchre"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,528 @@
+// Farkle Game Table - Mobile layout following LeftRightCenterGameTable
+// Circular felt with the seats laid out the way TurnSpotlight aims, each with their banked
+// score, and the dice in play in the middle. On your turn you tap the dice to set aside, then
+// roll the rest or bank; the dice set aside this turn sit under the roll. The state comes
+// from Game.tsx like Yahtzee's, and the turn driver follows YahtzeeGameTable: the bot
+// controller plays the bots, and plays out a human's turn for them when their turnDeadline
+// passes. Every roll goes to the dice audit log.
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { toast } from 'sonner';
+import { useWakeLock } from '@/hooks/useWakeLock';
+import type { FarkleState } from '@/lib/farkleTypes';
+import { farkleModule, type FarkleAction } from '@/lib/farkleModule';
+import { getFarkleRollCount, getFarkleTurnPoints, needsFarkleOpening } from '@/lib/farkleGameLogic';
+import { scoreFarkleDice } from '@/lib/farkleScoring';
+import {
+  endFarkleRound,
+  settleFarkleGame,
+  updateFarkleState,
+  withFarkleTurnDeadline,
+} from '@/lib/farkleRoundLogic';
+import { logModuleAction, recordDraws } from '@/lib/handActionLog';
+import { drawFairDiceRandom } from '@/lib/handFairness';
+import { logDiceRolls } from '@/lib/diceAudit';
+import { HorsesDie } from './HorsesDie';
+import { ChipChangeIndicator } from './ChipChangeIndicator';
+import { ChipTransferAnimation } from './ChipTransferAnimation';
+import { TurnSpotlight } from './TurnSpotlight';
+import { MobileChatPanel } from './MobileChatPanel';
+import { HandHistory } from './HandHistory';
+import { Button } from '@/components/ui/button';
+import { useVisualPreferences } from '@/hooks/useVisualPreferences';
+import { useGameChat } from '@/hooks/useGameChat';
+import { cn, formatChipValue } from '@/lib/utils';
+import { getDisplayName } from '@/lib/botAlias';
+import peoriaBridgeMobile from '@/assets/peoria-bridge-mobile.jpg';
+import { MessageSquare, Clock, Dices } from 'lucide-react';
+
+interface Player {
+  id: string;
+  user_id: string;
+  position: number;
+  chips: number;
+  is_bot?: boolean;
+  profiles?: { username: string };
+}
+
+interface FarkleGameTableProps {
+  gameId: string;
+  roundId: string;
+  players: Player[];
+  currentUserId: string;
+  anteAmount: number;
+  farkleState: FarkleState | null;
+}
+
+// Angles TurnSpotlight points at (degrees clockwise from the top): by how many seats
+// clockwise from the viewer, or by absolute seat for observers
+const SLOT_ANGLES: Record<number, number> = { 0: 180, 1: -135, 2: -90, 3: -45, 4: 45, 5: 90, 6: 135 };
+const OBSERVER_ANGLES: Record<number, number> = { 1: -45, 2: -90, 3: -135, 4: 180, 5: 135, 6: 90, 7: 45 };
+
+/** How long the dice tumble */
+const ROLL_ANIMATION_MS = 700;
+
+/** Pause between a bot's moves so everyone can follow them */
+const BOT_MOVE_DELAY_MS = 1500;
+
+function getSeatSpot(angle: number): { left: string; top: string } {
+  const radians = (angle * Math.PI) / 180;
+  return {
+    left: `${50 + Math.sin(radians) * 38}%`,
+    top: `${50 - Math.cos(radians) * 38}%`,
+  };
+}
+
+export const FarkleGameTable = ({
+  gameId,
+  roundId,
+  players,
+  currentUserId,
+  anteAmount,
+  farkleState: storedState,
+}: FarkleGameTableProps) => {
+  const { getTableColors } = useVisualPreferences();
+  const tableColors = getTableColors();
+
+  // Prevent screen from dimming during gameplay
+  useWakeLock(true);
+
+  const { allMessages, sendMessage, isSending: isChatSending } = useGameChat(gameId, players, currentUserId);
+
+  const [farkleState, setFarkleState] = useState<FarkleState | null>(storedState);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isRolling, setIsRolling] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [activeTab, setActiveTab] = useState<'dice' | 'chat' | 'history'>('dice');
+  // Game.tsx can still pass down the state from before a local write
+  const optimisticUntilRef = useRef(0);
+  const stateRef = useRef(farkleState);
+  stateRef.current = farkleState;
+  const feltRef = useRef<HTMLDivElement>(null);
+
+  const currentPlayer = players.find(p => p.user_id === currentUserId);
+  const currentPlayerId = currentPlayer?.id;
+
+  useEffect(() => {
+    if (storedState && Date.now() < optimisticUntilRef.current) return;
+    setFarkleState(storedState);
+  }, [storedState]);
+
+  // Reset when a new game is started
+  useEffect(() => {
+    optimisticUntilRef.current = 0;
+    setSelected([]);
+  }, [roundId]);
+
+  // Clock for the turn timer
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const getPosition = useCallback(
+    (playerId: string | null) => (playerId ? players.find(p => p.id === playerId)?.position ?? null : null),
+    [players]
+  );
+
+  const isBot = useCallback((playerId: string) => Boolean(players.find(p => p.id === playerId)?.is_bot), [players]);
+
+  // Apply an action and write it back with the next deadline. Real-money games roll from the
+  // hand's committed dice stream; the values drawn go into the action log for replays, and
+  // every die rolled into the dice audit.
+  const dispatch = useCallback(async (state: FarkleState, action: FarkleAction): Promise<FarkleState> => {
+    const rolledDice = action.type === 'roll'
+      ? Array.from({ length: getFarkleRollCount(state.turn, action.keep) }, () => ({ isHeld: false }))
+      : [];
+    const { random, draws } = recordDraws(await drawFairDiceRandom(gameId, rolledDice));
+    const next = withFarkleTurnDeadline(farkleModule.reduce(state, action, random), isBot);
+    void logModuleAction(roundId, state, action, draws);
+    if (action.type === 'roll') {
+      // A farkle ends the turn, so its dice are in the turn it was recorded in
+      const dice = next.currentTurnPlayerId === action.playerId ? next.turn.dice : next.turns[next.turns.length - 1].dice;
+      logDiceRolls(dice, dice.map(() => false), { gameId, roundId, playerId: action.playerId, rollNumber: state.turn.rolls + 1 });
+
+      setIsRolling(true);
+      window.setTimeout(() => setIsRolling(false), ROLL_ANIMATION_MS);
+    }
+    optimisticUntilRef.current = Date.now() + 1500;
+    setFarkleState(next);
+    setSelected([]);
+    await updateFarkleState(roundId, next);
+    return next;
+  }, [gameId, roundId, isBot]);
+
+  const deadline = farkleState?.turnDeadline ? new Date(farkleState.turnDeadline).getTime() : null;
+  const secondsLeft = deadline === null ? null : Math.max(0, Math.ceil((deadline - now) / 1000));
+  const isTimedOut = secondsLeft === 0;
+  const isController = !farkleState?.botControllerUserId || farkleState.botControllerUserId === currentUserId;
+
+  // ─── Bot Turn Loop ──────────────────────────────────────────────
+  // The controller plays a bot's whole turn, or a human's once their deadline passes. Each
+  // move resets a human's deadline, so a takeover runs on to the end of the turn rather than
+  // stopping when the timer does.
+  const botTurnRef = useRef<string | null>(null);
+  const unmountedRef = useRef(false);
+  useEffect(() => () => {
+    unmountedRef.current = true;
+  }, []);
+  const turnPlayerId = farkleState?.gamePhase === 'playing' ? farkleState.currentTurnPlayerId : null;
+  const runsTurn = Boolean(turnPlayerId && isController && (isBot(turnPlayerId) || isTimedOut));
+  // One loop per turn: every finished turn is added to state.turns
+  const turnKey = `${roundId}:${farkleState?.turns.length ?? 0}`;
+
+  useEffect(() => {
+    if (!runsTurn || !turnPlayerId || botTurnRef.current === turnKey) return;
+    botTurnRef.current = turnKey;
+
+    const runBotTurn = async () => {
+      try {
+        let state = stateRef.current;
+        while (state && state.gamePhase === 'playing' && state.currentTurnPlayerId === turnPlayerId) {
+          await new Promise(resolve => setTimeout(resolve, BOT_MOVE_DELAY_MS));
+          if (unmountedRef.current) return;
+          const action = farkleModule.botAction(state, turnPlayerId);
+          if (!action) return;
+          state = await dispatch(state, action);
+        }
+      } catch (err) {
+        console.error('[FARKLE BOT] Error:', err);
+      }
+    };
+
+    void runBotTurn();
+  }, [runsTurn, turnPlayerId, turnKey, dispatch]);
+
+  const getClockwiseDistance = useCallback((position: number) => {
+    const myPosition = currentPlayer?.position ?? 1;
+    return (position - myPosition + 7) % 7;
+  }, [currentPlayer?.position]);
+
+  // ─── Game Completion ────────────────────────────────────────────
+  // The winner collects the ante from everyone else; Game.tsx moves on once the game is over,
+  // or starts a new game on a tie
+  const [chipTransferId, setChipTransferId] = useState<string | null>(null);
+  const completedRoundRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!farkleState || farkleState.gamePhase !== 'complete' || completedRoundRef.current === roundId) return;
+    completedRoundRef.current = roundId;
+
+    if (farkleState.winnerId) setChipTransferId(`farkle-win-${roundId}`);
+
+    const processCompletion = async () => {
+      try {
+        const description = await settleFarkleGame(gameId, roundId, farkleState, anteAmount);
+        if (!description) return;
+        // Let the chips land before Game.tsx moves on
+        await new Promise(resolve => setTimeout(resolve, 2500));
+        await endFarkleRound(gameId, farkleState.winnerId, description, !farkleState.winnerId);
+      } catch (err) {
+        console.error('[FARKLE] Game completion error:', err);
+      }
+    };
+
+    void processCompletion();
+  }, [farkleState, roundId, gameId, anteAmount]);
+
+  const getPlayerUsername = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    if (!player) return '';
+    return getDisplayName(players, player, player.profiles?.username || 'Player');
+  };
+
+  const handleAction = async (action: FarkleAction) => {
+    if (!farkleState || isProcessing) return;
+    setIsProcessing(true);
+    try {
+      await dispatch(farkleState, action);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (!farkleState || !roundId) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center bg-slate-900">
+        <p className="text-sm font-bold text-poker-gold animate-pulse">Setting up Farkle...</p>
+      </div>
+    );
+  }
+
+  const isComplete = farkleState.gamePhase === 'complete';
+  const isObserver = !currentPlayerId || !farkleState.turnOrder.includes(currentPlayerId);
+  const isMyTurn = !isComplete && farkleState.currentTurnPlayerId === currentPlayerId;
+  const { turn } = farkleState;
+  const lastTurn = farkleState.turns[farkleState.turns.length - 1];
+  // Between turns the last roll stays on the felt
+  const feltDice = turn.rolls > 0 ? turn.dice : lastTurn?.dice ?? [];
+  const feltSetAside = turn.rolls > 0 ? turn.setAside : lastTurn?.setAside ?? [];
+  const turnName = farkleState.currentTurnPlayerId ? getPlayerUsername(farkleState.currentTurnPlayerId) : '';
+  const turnPosition = getPosition(farkleState.currentTurnPlayerId);
+
+  const selectionScore = scoreFarkleDice(selected.map(i => turn.dice[i]), farkleState.scoring);
+  const canPlay = isMyTurn && !isProcessing && !isRolling;
+  const needsSelection = turn.rolls > 0;
+  const bankPoints = getFarkleTurnPoints(farkleState, selected);
+  const mustOpen = isMyTurn && needsFarkleOpening(farkleState, currentPlayerId!);
+  const rollCount = getFarkleRollCount(turn, selected);
+  const isHotDice = needsSelection && selected.length === turn.dice.length && selectionScore > 0;
+
+  const seats = players.filter(p => farkleState.turnOrder.includes(p.id));
+  const seatAngle = (position: number) =>
+    isObserver || !currentPlayer ? OBSERVER_ANGLES[position] ?? 0 : SLOT_ANGLES[getClockwiseDistance(position)] ?? 0;
+  const winner = farkleState.winnerId ? players.find(p => p.id === farkleState.winnerId) : undefined;
+  const losers = winner ? seats.filter(p => p.id !== winner.id) : [];
+
+  const toggleDie = (index: number) => {
+    setSelected(prev => (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]));
+  };
+
+  const describeLastTurn = () => {
+    if (!lastTurn) return '';
+    const name = getPlayerUsername(lastTurn.playerId);
+    return lastTurn.farkled ? `${name} farkled!` : `${name} banked ${lastTurn.points}`;
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Felt Area */}
+      <div
+        className="relative flex items-start justify-center pt-1"
+        style={{
+          height: 'calc(min(90vw, calc(55vh - 32px)) + 10px)',
+          minHeight: '300px',
+        }}
+      >
+        <div className="absolute inset-0 bg-slate-200 z-0" />
+
+        <div
+          ref={feltRef}
+          className="relative z-10"
+          style={{
+            width: 'min(90vw, calc(55vh - 32px))',
+            height: 'min(90vw, calc(55vh - 32px))',
+          }}
+        >
+          <div
+            className="absolute inset-0 rounded-full overflow-hidden border-2 border-white/80"
+            style={
+              tableColors.showBridge
+                ? { backgroundImage: `url(${peoriaBridgeMobile})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+                : { background: `radial-gradient(ellipse at center, ${tableColors.color} 0%, ${tableColors.darkColor} 100%)` }
+            }
+          />
+
+          <TurnSpotlight
+            currentTurnPosition={turnPosition}
+            currentPlayerPosition={currentPlayer?.position ?? null}
+            isObserver={isObserver}
+            getClockwiseDistance={getClockwiseDistance}
+            containerRef={feltRef}
+            isVisible={!isComplete}
+          />
+
+          {/* The dice in play and those set aside this turn */}
+          <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-20 flex flex-col items-center gap-1.5 w-[60%]">
+            <span className="text-[10px] font-bold text-white/80 uppercase tracking-wide">
+              To {farkleState.targetScore.toLocaleString()}
+              {farkleState.finalRoundTriggeredBy ? ' • Final round' : ''}
+            </span>
+            <div className="flex flex-wrap justify-center gap-1">
+              {feltDice.map((value, i) => (
+                <HorsesDie
+                  key={`${turn.rollKey ?? 0}-${i}`}
+                  value={value}
+                  isHeld={turn.rolls > 0 && selected.includes(i)}
+                  canToggle={canPlay && turn.rolls > 0}
+                  onToggle={() => toggleDie(i)}
+                  isRolling={isRolling}
+                  size="sm"
+                  showWildHighlight={false}
+                />
+              ))}
+            </div>
+            {feltSetAside.length > 0 && (
+              <div className="flex flex-wrap justify-center gap-1.5">
+                {feltSetAside.map((group, g) => (
+                  <div key={g} className="flex gap-0.5 rounded bg-black/40 px-1 py-0.5">
+                    {group.map((value, i) => (
+                      <HorsesDie key={i} value={value} isHeld={false} canToggle={false} size="xs" showWildHighlight={false} />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+            {turn.rolls > 0 ? (
+              <span className="text-xs font-bold text-poker-gold">Turn: {turn.points}</span>
+            ) : lastTurn?.farkled && !isRolling ? (
+              <span className="text-sm font-black text-red-400 tracking-wide">FARKLE!</span>
+            ) : null}
+          </div>
+
+          {/* Seats */}
+          {seats.map((player) => {
+            const spot = getSeatSpot(seatAngle(player.position));
+            const ps = farkleState.playerStates[player.id];
+            const isTurn = !isComplete && farkleState.currentTurnPlayerId === player.id;
+            const isWinner = isComplete && farkleState.winnerId === player.id;
+
+            return (
+              <div
+                key={player.id}
+                className="absolute z-[110] -translate-x-1/2 -translate-y-1/2 flex flex-col items-center gap-0.5"
+                style={spot}
+              >
+                <div
+                  data-chip-center={player.position}
+                  className={cn(
+                    'rounded-lg px-2 py-0.5 bg-black/70 border text-center min-w-[64px]',
+                    isTurn ? 'border-yellow-400' : isWinner ? 'border-poker-gold' : 'border-white/20'
+                  )}
+                >
+                  <span className="block text-[11px] font-semibold text-white truncate max-w-[70px]">
+                    {getPlayerUsername(player.id)}
+                  </span>
+                  <span className={cn('block text-[11px] font-bold', ps?.hasOpened ? 'text-amber-200' : 'text-white/60')}>
+                    {ps?.hasOpened ? ps.score.toLocaleString() : 'Not on board'}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+
+          {winner && (
+            <ChipTransferAnimation
+              triggerId={chipTransferId}
+              amount={anteAmount}
+              winnerPosition={winner.position}
+              loserPositions={losers.map(p => p.position)}
+              loserPlayerIds={losers.map(p => p.id)}
+              currentPlayerPosition={currentPlayer?.position ?? null}
+              getClockwiseDistance={getClockwiseDistance}
+              containerRef={feltRef}
+              onAnimationEnd={() => setChipTransferId(null)}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Bottom section */}
+      <div className="flex-1 min-h-0 flex flex-col bg-gradient-to-t from-background via-background to-background/95 border-t border-border overflow-hidden">
+        {/* Status */}
+        <div className="min-h-[44px] shrink-0 flex flex-col items-center justify-center px-4">
+          {isComplete ? (
+            <div className="w-full bg-poker-gold/95 rounded-lg px-3 py-1.5 shadow-xl border-2 border-amber-900">
+              <p className="text-slate-900 font-bold text-xs text-center truncate">
+                {farkleState.winnerId ? `${getPlayerUsername(farkleState.winnerId)} wins!` : 'Tie - play again'}
+              </p>
+            </div>
+          ) : (
+            <span className="text-sm text-foreground font-medium">
+              {isMyTurn ? 'Your turn' : `${turnName}'s turn`}
+              {secondsLeft !== null && !isTimedOut && <span className="text-muted-foreground"> • {secondsLeft}s</span>}
+            </span>
+          )}
+          {lastTurn && turn.rolls === 0 && !isRolling && (
+            <span className="text-[11px] text-muted-foreground truncate max-w-full">{describeLastTurn()}</span>
+          )}
+        </div>
+
+        {/* Tab navigation */}
+        <div className="flex items-center justify-center gap-1 px-4 py-1.5 border-b border-border/50">
+          {([
+            ['dice', Dices],
+            ['chat', MessageSquare],
+            ['history', Clock],
+          ] as const).map(([tab, Icon]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={cn(
+                'flex-1 flex items-center justify-center py-2 px-3 rounded-md transition-all',
+                activeTab === tab ? 'bg-primary/20 text-foreground' : 'text-muted-foreground/50 hover:text-muted-foreground',
+                tab === 'dice' && isMyTurn && activeTab !== 'dice' && 'animate-pulse ring-2 ring-red-500'
+              )}
+            >
+              <Icon className="w-5 h-5" />
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'dice' && (
+          <div className="px-3 flex-1 min-h-0 overflow-y-auto">
+            {isMyTurn && (
+              <div className="space-y-2 py-2">
+                {needsSelection && (
+                  <p className="text-[11px] text-center text-muted-foreground">
+                    {selected.length === 0
+                      ? 'Tap the scoring dice to set aside'
+                      : selectionScore > 0
+                        ? `Setting aside ${selectionScore}${isHotDice ? ' • Hot dice!' : ''}`
+                        : 'Every die you set aside has to score'}
+                  </p>
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    disabled={!canPlay || (needsSelection && selectionScore === 0)}
+                    onClick={() => handleAction({ type: 'roll', playerId: currentPlayerId!, keep: selected })}
+                  >
+                    {isHotDice ? 'Roll All 6' : `Roll ${rollCount}`}
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    disabled={!canPlay || !needsSelection || selectionScore === 0 || (mustOpen && bankPoints < farkleState.minOpening)}
+                    onClick={() => handleAction({ type: 'bank', playerId: currentPlayerId!, keep: selected })}
+                  >
+                    Bank {needsSelection && selectionScore > 0 ? bankPoints : turn.points}
+                  </Button>
+                </div>
+                {mustOpen && (
+                  <p className="text-[11px] text-center text-muted-foreground">
+                    Bank {farkleState.minOpening} in one turn to get on the board
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Player info */}
+            {currentPlayer && (
+              <div className="relative flex items-center justify-center gap-2 py-2">
+                <p className="text-sm font-semibold text-foreground">{currentPlayer.profiles?.username || 'You'}</p>
+                <span className={cn('font-bold text-lg', currentPlayer.chips < 0 ? 'text-destructive' : 'text-poker-gold')}>
+                  {formatChipValue(currentPlayer.chips)}
+                </span>
+                <ChipChangeIndicator currentChips={currentPlayer.chips} playerId={currentPlayer.id} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'chat' && (
+          <div className="flex-1 min-h-0 flex flex-col">
+            <MobileChatPanel
+              messages={allMessages}
+              onSend={sendMessage}
+              isSending={isChatSending}
+              currentUserId={currentUserId}
+            />
+          </div>
+        )}
+
+        {activeTab === 'history' && (
+          <div className="flex-1 overflow-y-auto">
+            <HandHistory
+              gameId={gameId}
+              currentUserId={currentUserId}
+              currentPlayerId={currentPlayerId}
+              gameType="farkle"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -9,6 +9,7 @@ import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
 import { Settings, Bot, DollarSign, Timer, Spade, Dice5, Anchor, Crown } from 'lucide-react';
+import { canonicalGameType, isGameType } from '@/lib/gameTypes';
 
 interface GameDefaults {
   id: string;
@@ -130,7 +131,7 @@ export function GameDefaultsConfig({ open, onOpenChange }: GameDefaultsConfigPro
       }
       
       // Game-specific validations
-      if (gameType === 'holm') {
+      if (isGameType(gameType, 'holm-game')) {
         const chucky2nd = Number(defaultConfig.chucky_second_to_last_delay_seconds);
         if (isNaN(chucky2nd) || chucky2nd < 0.5 || chucky2nd > 10) {
           validationErrors.push(`Holm: Chucky 2nd-to-last delay must be 0.5-10 seconds`);
@@ -147,7 +148,7 @@ export function GameDefaultsConfig({ open, onOpenChange }: GameDefaultsConfigPro
         }
       }
       
-      if (gameType === '3-5-7') {
+      if (isGameType(gameType, '3-5-7')) {
         const legValue = Number(defaultConfig.leg_value);
         if (isNaN(legValue) || legValue < 1) {
           validationErrors.push(`3-5-7: Leg value must be at least $1`);
@@ -160,7 +161,7 @@ export function GameDefaultsConfig({ open, onOpenChange }: GameDefaultsConfigPro
       }
       
       // Cribbage validations
-      if (gameType === 'cribbage') {
+      if (isGameType(gameType, 'cribbage')) {
         const pointsToWin = Number(defaultConfig.points_to_win);
         if (isNaN(pointsToWin) || pointsToWin < 31 || pointsToWin > 200) {
           validationErrors.push(`Cribbage: Points to win must be 31-200`);
@@ -261,7 +262,7 @@ export function GameDefaultsConfig({ open, onOpenChange }: GameDefaultsConfigPro
     if (!gameDefaults) return null;
 
     // Cribbage doesn't use pot/pussy tax
-    if (gameType === 'cribbage') return null;
+    if (isGameType(gameType, 'cribbage')) return null;
 
     return (
       <div className="space-y-4 pt-4 border-t border-border">
@@ -779,8 +780,8 @@ export function GameDefaultsConfig({ open, onOpenChange }: GameDefaultsConfigPro
   };
 
   const renderSettingsForGameType = () => {
-    switch (selectedGameType) {
-      case 'holm':
+    switch (canonicalGameType(selectedGameType)) {
+      case 'holm-game':
         return renderHolmSettings();
       case '3-5-7':
         return render357Settings();
@@ -14,6 +14,7 @@ import { logSessionCreated } from "@/lib/sessionEventLog";
 import { getTimerSettingsAsync } from "@/hooks/useGlobalTimerSettings";
 import { formatChipValue } from "@/lib/utils";
 import { getBotAlias } from "@/lib/botAlias";
+import { STUD_VARIANTS, isStudVariant } from "@/lib/studVariants";
 import { PerfSession } from "@/lib/perf";
 import { Settings, Info, Wrench } from "lucide-react";
 import { GameRules } from "@/components/GameRules";
@@ -41,6 +42,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { isGameType, usesHorsesTable } from "@/lib/gameTypes";
 
 interface Game {
   id: string;
@@ -63,6 +65,29 @@ interface Game {
   game_type?: string;
   chucky_cards?: number;
   points_to_win?: number;
+  cribbage_partnerships?: boolean | null;
+  cribbage_muggins?: boolean | null;
+  gin_oklahoma?: boolean | null;
+  gin_hollywood?: boolean | null;
+  small_blind?: number | null;
+  big_blind?: number | null;
+  guts_cards?: number | null;
+  stud_variant?: string | null;
+  stud_small_bet?: number | null;
+  starting_lives?: number | null;
+  lcr_chips?: number | null;
+  lcr_wild?: boolean | null;
+  liars_dice_starting_dice?: number | null;
+  liars_dice_ones_wild?: boolean | null;
+  liars_dice_lose_difference?: boolean | null;
+  spades_target_score?: number | null;
+  spades_blind_nil?: boolean | null;
+  euchre_target_score?: number | null;
+  euchre_stick_the_dealer?: boolean | null;
+  farkle_target_score?: number | null;
+  farkle_min_opening?: number | null;
+  guts_bleed_enabled?: boolean | null;
+  guts_bleed_value?: number | null;
   real_money?: boolean;
   is_paused?: boolean;
   player_count?: number;
@@ -751,37 +776,107 @@ export const GameLobby = ({ userId }: GameLobbyProps) => {
                             <div className="text-xs text-amber-300/70 pt-2 mt-2 border-t border-amber-700/30 space-y-1">
                           <div className="flex flex-wrap items-center gap-1 sm:gap-2">
                                 <span className="px-1.5 sm:px-2 py-0.5 rounded bg-amber-600/20 text-amber-300 font-medium">
-                                  {game.game_type === 'holm-game' ? 'Holm' 
-                                    : game.game_type === 'cribbage' ? 'Cribbage'
-                                    : game.game_type === 'gin-rummy' ? 'Gin Rummy'
-                                    : game.game_type === 'horses' ? 'Horses'
-                                    : game.game_type === 'ship-captain-crew' ? 'SCC'
-                                    : game.game_type === 'yahtzee' ? 'Yahtzee'
+                                  {isGameType(game.game_type, 'holm-game') ? 'Holm' 
+                                    : isGameType(game.game_type, 'cribbage') ? 'Cribbage'
+                                    : isGameType(game.game_type, 'gin-rummy') ? 'Gin Rummy'
+                                    : isGameType(game.game_type, 'holdem') ? "Hold'em"
+                                    : isGameType(game.game_type, 'guts') ? 'Guts'
+                                    : isGameType(game.game_type, 'stud') ? 'Stud'
+                                    : isGameType(game.game_type, 'acey-deucey') ? 'Acey-Deucey'
+                                    : isGameType(game.game_type, 'screw-your-neighbor') ? 'Screw Your Neighbor'
+                                    : isGameType(game.game_type, 'horses') ? 'Horses'
+                                    : isGameType(game.game_type, 'ship-captain-crew') ? 'SCC'
+                                    : isGameType(game.game_type, 'yahtzee') ? 'Yahtzee'
+                                    : isGameType(game.game_type, 'left-right-center') ? 'Left Right Center'
+                                    : isGameType(game.game_type, 'farkle') ? 'Farkle'
+                                    : isGameType(game.game_type, 'liars-dice') ? "Liar's Dice"
+                                    : isGameType(game.game_type, 'spades') ? 'Spades'
+                                    : isGameType(game.game_type, 'euchre') ? 'Euchre'
                                     : '3-5-7'}
                                   {game.real_money && <span className="text-green-400 ml-1">$</span>}
                                 </span>
                                 <span className="text-amber-400/50">•</span>
-                                <span>${game.ante_amount} Ante</span>
-                                {game.game_type === 'holm-game' ? (
+                                <span>${game.ante_amount} {isGameType(game.game_type, 'holdem') || isGameType(game.game_type, 'stud') ? 'Buy-in' : 'Ante'}</span>
+                                {isGameType(game.game_type, 'holm-game') ? (
                                   <>
                                     <span className="text-amber-400/50">•</span>
                                     <span>{game.pot_max_enabled ? `$${game.pot_max_value} Max` : 'No Max'}</span>
                                     <span className="text-amber-400/50">•</span>
                                     <span>{game.chucky_cards || 4} Chucky</span>
                                   </>
-                                ) : game.game_type === 'cribbage' ? (
+                                ) : isGameType(game.game_type, 'cribbage') ? (
                                   <>
                                     <span className="text-amber-400/50">•</span>
-                                    <span>{game.points_to_win || 121} pts</span>
+                                    <span>{game.points_to_win || 121} pts{game.cribbage_partnerships ? ' • Partners' : ''}{game.cribbage_muggins ? ' • Muggins' : ''}</span>
                                     <span className="text-amber-400/50">•</span>
                                     <span>{(game as any).skunk_enabled ? 'Skunks' : 'No Skunks'}</span>
                                   </>
-                                ) : game.game_type === 'gin-rummy' ? (
+                                ) : isGameType(game.game_type, 'gin-rummy') ? (
                                   <>
                                     <span className="text-amber-400/50">•</span>
-                                    <span>{game.points_to_win || 25} pts</span>
+                                    <span>{game.points_to_win || 25} pts{game.gin_hollywood ? ' • Hollywood' : ''}{game.gin_oklahoma ? ' • Oklahoma' : ''}</span>
                                   </>
-                                ) : game.game_type === 'horses' || game.game_type === 'ship-captain-crew' || game.game_type === 'yahtzee' ? (
+                                ) : isGameType(game.game_type, 'holdem') ? (
+                                  <>
+                                    <span className="text-amber-400/50">•</span>
+                                    <span>${game.small_blind ?? 1}/${game.big_blind ?? 2} Blinds</span>
+                                  </>
+                                ) : isGameType(game.game_type, 'stud') ? (
+                                  <>
+                                    <span className="text-amber-400/50">•</span>
+                                    <span>{isStudVariant(game.stud_variant) ? STUD_VARIANTS[game.stud_variant].name : 'Seven-Card Stud'}</span>
+                                    <span className="text-amber-400/50">•</span>
+                                    <span>${game.stud_small_bet ?? 2}/${(game.stud_small_bet ?? 2) * 2}</span>
+                                  </>
+                                ) : isGameType(game.game_type, 'guts') ? (
+                                  <>
+                                    <span className="text-amber-400/50">•</span>
+                                    <span>{game.guts_cards ?? 3}-Card</span>
+                                    <span className="text-amber-400/50">•</span>
+                                    <span>{game.pot_max_enabled ? `$${game.pot_max_value} Max` : 'No Max'}</span>
+                                    {game.guts_bleed_enabled && (
+                                      <>
+                                        <span className="text-amber-400/50">•</span>
+                                        <span>${game.guts_bleed_value} Bleed</span>
+                                      </>
+                                    )}
+                                  </>
+                                ) : isGameType(game.game_type, 'acey-deucey') ? (
+                                  <>
+                                    <span className="text-amber-400/50">•</span>
+                                    <span>{game.pot_max_enabled ? `$${game.pot_max_value} Max Bet` : 'Bet the Pot'}</span>
+                                  </>
+                                ) : isGameType(game.game_type, 'screw-your-neighbor') ? (
+                                  <>
+                                    <span className="text-amber-400/50">•</span>
+                                    <span>{game.starting_lives ?? 3} Lives</span>
+                                  </>
+                                ) : isGameType(game.game_type, 'left-right-center') ? (
+                                  <>
+                                    <span className="text-amber-400/50">•</span>
+                                    <span>{game.lcr_chips ?? 3} Chips{game.lcr_wild ? ' • Wild' : ''}</span>
+                                  </>
+                                ) : isGameType(game.game_type, 'farkle') ? (
+                                  <>
+                                    <span className="text-amber-400/50">•</span>
+                                    <span>To {(game.farkle_target_score ?? 10000).toLocaleString()}{game.farkle_min_opening ? ` • ${game.farkle_min_opening} to Open` : ''}</span>
+                                  </>
+                                ) : isGameType(game.game_type, 'liars-dice') ? (
+                                  <>
+                                    <span className="text-amber-400/50">•</span>
+                                    <span>{game.liars_dice_starting_dice ?? 5} Dice{(game.liars_dice_ones_wild ?? true) ? ' • Ones Wild' : ''}</span>
+                                  </>
+                                ) : isGameType(game.game_type, 'spades') ? (
+                                  <>
+                                    <span className="text-amber-400/50">•</span>
+                                    <span>To {game.spades_target_score ?? 500}{(game.spades_blind_nil ?? true) ? ' • Blind Nil' : ''}</span>
+                                  </>
+                                ) : isGameType(game.game_type, 'euchre') ? (
+                                  <>
+                                    <span className="text-amber-400/50">•</span>
+                                    <span>To {game.euchre_target_score ?? 10}{game.euchre_stick_the_dealer ? ' • Stick the Dealer' : ''}</span>
+                                  </>
+                                ) : usesHorsesTable(game.game_type) || isGameType(game.game_type, 'yahtzee') ? (
                                   <></>
                                 ) : (
                                   <>
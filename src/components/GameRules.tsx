@@ -21,14 +21,24 @@ export const GameRules = ({ open, onOpenChange }: GameRulesProps) => {
         </DialogHeader>
         
         <Tabs defaultValue="357" className="w-full">
-          <TabsList className="grid w-full grid-cols-7">
+          <TabsList className="grid w-full grid-cols-[repeat(17,minmax(0,1fr))]">
             <TabsTrigger value="357" className="text-[10px] sm:text-sm px-0.5 sm:px-2">3-5-7</TabsTrigger>
             <TabsTrigger value="holm" className="text-[10px] sm:text-sm px-0.5 sm:px-2">Holm</TabsTrigger>
+            <TabsTrigger value="guts" className="text-[10px] sm:text-sm px-0.5 sm:px-2">Guts</TabsTrigger>
             <TabsTrigger value="horses" className="text-[10px] sm:text-sm px-0.5 sm:px-2">Horses</TabsTrigger>
             <TabsTrigger value="scc" className="text-[10px] sm:text-sm px-0.5 sm:px-2">SCC</TabsTrigger>
             <TabsTrigger value="cribbage" className="text-[10px] sm:text-sm px-0.5 sm:px-2">Crib</TabsTrigger>
             <TabsTrigger value="gin-rummy" className="text-[10px] sm:text-sm px-0.5 sm:px-2">Gin</TabsTrigger>
+            <TabsTrigger value="holdem" className="text-[10px] sm:text-sm px-0.5 sm:px-2">Hold'em</TabsTrigger>
+            <TabsTrigger value="stud" className="text-[10px] sm:text-sm px-0.5 sm:px-2">Stud</TabsTrigger>
+            <TabsTrigger value="acey-deucey" className="text-[10px] sm:text-sm px-0.5 sm:px-2">Acey</TabsTrigger>
+            <TabsTrigger value="screw-your-neighbor" className="text-[10px] sm:text-sm px-0.5 sm:px-2">SYN</TabsTrigger>
             <TabsTrigger value="yahtzee" className="text-[10px] sm:text-sm px-0.5 sm:px-2">Yahtzee</TabsTrigger>
+            <TabsTrigger value="left-right-center" className="text-[10px] sm:text-sm px-0.5 sm:px-2">LCR</TabsTrigger>
+            <TabsTrigger value="farkle" className="text-[10px] sm:text-sm px-0.5 sm:px-2">Farkle</TabsTrigger>
+            <TabsTrigger value="liars-dice" className="text-[10px] sm:text-sm px-0.5 sm:px-2">Liar's</TabsTrigger>
+            <TabsTrigger value="spades" className="text-[10px] sm:text-sm px-0.5 sm:px-2">Spades</TabsTrigger>
+            <TabsTrigger value="euchre" className="text-[10px] sm:text-sm px-0.5 sm:px-2">Euchre</TabsTrigger>
           </TabsList>
           
           <ScrollArea className="h-[60vh] mt-4">
@@ -344,6 +354,32 @@ export const GameRules = ({ open, onOpenChange }: GameRulesProps) => {
                   <li>Available in Full (121) and Half (61) game modes</li>
                 </ul>
               </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Partners (4 players)</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Optionally, four players play as two partnerships, partners sitting across from each other</li>
+                  <li>Everything either partner pegs or counts goes to one team score on a shared peg track</li>
+                  <li>Skunks go by the losing team's score; both losing partners pay, and both winners collect</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Muggins</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Optionally, nobody counts for you: each player declares their own hand, and the dealer their crib</li>
+                  <li>You peg what you declare, up to what the cards are really worth</li>
+                  <li>Points you miss are fair game: any opponent can call "Muggins!" before the next deal and peg them instead</li>
+                </ul>
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                Not sure what to throw?{' '}
+                <a href="/cribbage-analyzer" target="_blank" rel="noreferrer" className="text-primary underline">
+                  The discard analyzer
+                </a>{' '}
+                ranks every discard from a six-card deal.
+              </p>
             </TabsContent>
 
             <TabsContent value="gin-rummy" className="mt-0 space-y-4 pr-4">
@@ -402,6 +438,255 @@ export const GameRules = ({ open, onOpenChange }: GameRulesProps) => {
                   <li>Winner collects the ante from the loser</li>
                 </ul>
               </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Oklahoma (optional)</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>The first upcard sets the knock limit for the hand: its deadwood value (face cards = 10)</li>
+                  <li>An Ace upcard means the hand can only end in <strong>Gin</strong></li>
+                  <li>A spade upcard <strong>doubles</strong> everything the hand scores</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Hollywood (optional)</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Three games are scored side by side, each to the match target</li>
+                  <li>Your first hand won scores in game 1, your second in games 1 and 2, then every open game after that</li>
+                  <li>A game closes once someone reaches the target; play on until all three are won</li>
+                  <li><strong>Line bonus:</strong> 25 pts per hand won in a game (a box); the winner of each game adds 100</li>
+                  <li><strong>Shutout:</strong> a game won before the loser wins a hand in it counts double</li>
+                  <li>Highest total across the three games, bonuses included, wins the match</li>
+                </ul>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="guts" className="mt-0 space-y-4 pr-4">
+              <div className="space-y-3">
+                <h3 className="font-bold text-lg text-primary">Guts Overview</h3>
+                <p className="text-sm text-muted-foreground">
+                  A quick in-or-out poker game. Best hand in takes the pot — everyone else who was in has to match it.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Setup</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>2+ players; everyone antes once to start the pot</li>
+                  <li>Each hand, every player is dealt 2 or 3 cards (the dealer's choice)</li>
+                  <li>No wild cards</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">In or Out</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Everyone decides at the same time: <strong>stay</strong> in or <strong>fold</strong></li>
+                  <li>If nobody is in, the hand is redealt and the pot stays as it is</li>
+                  <li>If only one player is in, they take the pot</li>
+                  <li>If more than one is in, the best hand takes the pot; ties split it</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Matching the Pot</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Every player who was in and lost puts the size of the pot back in</li>
+                  <li><strong>Pot Max</strong>: losers match the pot only up to the cap</li>
+                  <li><strong>Bleed</strong>: a win takes only up to the bleed amount out of the pot, so it drains slowly</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Game End</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>The pot carries over from hand to hand</li>
+                  <li>The game ends when a hand leaves the pot empty</li>
+                </ul>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="holdem" className="mt-0 space-y-4 pr-4">
+              <div className="space-y-3">
+                <h3 className="font-bold text-lg text-primary">Texas Hold'em Overview</h3>
+                <p className="text-sm text-muted-foreground">
+                  No-limit Hold'em with blinds. Make the best five-card hand from your two hole cards and the five on the board, or make everyone else fold.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Setup</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>2+ players; everyone buys in for the same stack</li>
+                  <li>The two players left of the button post the small and big blinds (heads-up, the button posts the small blind)</li>
+                  <li>Each player is dealt 2 hole cards face down</li>
+                  <li>The button moves one seat left each hand</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Betting</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Four rounds: <strong>preflop</strong>, then after the <strong>flop</strong> (3 cards), <strong>turn</strong> and <strong>river</strong> (1 card each)</li>
+                  <li>Fold, check, call, bet or raise — up to your whole stack (<strong>no limit</strong>)</li>
+                  <li>A raise must be at least the big blind, or the size of the last raise</li>
+                  <li>An all-in for less than a full raise doesn't let players who already acted raise again</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Showdown & Side Pots</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Players still in after the river show their cards; the best hand wins</li>
+                  <li>An all-in player can only win what they matched from each opponent — the rest goes to <strong>side pots</strong></li>
+                  <li>Tied hands split the pot; odd chips go to the first winner left of the button</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Winning</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Chips change hands at the end of every hand</li>
+                  <li>Players who bust sit out; the game ends when one stack is left</li>
+                </ul>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="stud" className="mt-0 space-y-4 pr-4">
+              <div className="space-y-3">
+                <h3 className="font-bold text-lg text-primary">Seven-Card Stud Overview</h3>
+                <p className="text-sm text-muted-foreground">
+                  Fixed-limit seven-card stud. Make the best five-card hand from your seven cards: three dealt face down and four face up.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Setup</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>2-7 players; everyone buys in for the same stack</li>
+                  <li>Everyone antes, then gets 2 cards down and 1 up (the door card)</li>
+                  <li>The lowest door card posts the bring-in (half the small bet)</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Streets</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Fourth, fifth and sixth street each deal one more card face up</li>
+                  <li>Seventh street is the last card face down</li>
+                  <li>From fourth street on, the best hand showing acts first</li>
+                  <li>Third and fourth street bet the small bet; fifth street on bet the big bet (double)</li>
+                  <li>A bet and at most three raises per street</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Variants</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li><strong>Baseball</strong>: 3s and 9s are wild; a 4 dealt face up lets you buy an extra up card</li>
+                  <li><strong>Follow the Queen</strong>: queens are wild, and so is the rank of the next card up after the last queen up</li>
+                  <li><strong>Low Chicago</strong>: the lowest spade in the hole splits the pot with the best hand</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Winning</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Best hand at showdown wins the pot, or the last player left if everyone else folds</li>
+                  <li>All-in players can only win the side pots they put chips in</li>
+                  <li>The game ends when one player has all the chips</li>
+                </ul>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="acey-deucey" className="mt-0 space-y-4 pr-4">
+              <div className="space-y-3">
+                <h3 className="font-bold text-lg text-primary">Acey-Deucey Overview</h3>
+                <p className="text-sm text-muted-foreground">
+                  Also called In-Between. Bet the pot that the next card lands between your two posts.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Setup</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>2+ players; everyone antes into the pot once, at the start of the game</li>
+                  <li>Play starts left of the dealer; everyone takes one turn per hand</li>
+                  <li>The dealer moves left each hand and the pot carries over</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Your Turn</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Two cards are turned face up: the posts</li>
+                  <li>An ace as the first post is called high or low before the second post (the dealer can fix it high or low instead)</li>
+                  <li>Bet anything from $1 up to the pot (or the max bet, if one is set), or pass</li>
+                  <li>Posts with nothing in between (a pair or consecutive ranks) pass automatically</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">The Third Card</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li><strong>In between:</strong> take your bet out of the pot</li>
+                  <li><strong>Outside:</strong> your bet goes into the pot</li>
+                  <li><strong>Hits a post:</strong> pay the post penalty into the pot (double your bet by default)</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Winning</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>The game ends when someone takes the whole pot</li>
+                  <li>If too few players are left to deal another hand, the pot is split back among them</li>
+                </ul>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="screw-your-neighbor" className="mt-0 space-y-4 pr-4">
+              <div className="space-y-3">
+                <h3 className="font-bold text-lg text-primary">Screw Your Neighbor Overview</h3>
+                <p className="text-sm text-muted-foreground">
+                  One card each, and nobody wants the lowest. Lose all your lives and you're out; the last player standing wins the pot.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Setup</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>2+ players; everyone antes into the pot once, at the start of the game</li>
+                  <li>Everyone starts with the same number of lives (3 by default)</li>
+                  <li>Each hand, everyone still in gets one card face down</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Your Turn</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Play starts left of the dealer</li>
+                  <li>Keep your card, or swap it with the player on your left</li>
+                  <li><strong>Kings block:</strong> a king is turned up and kept, and nobody can swap into it</li>
+                  <li>The dealer goes last and may cut the deck, trading their card for the one cut</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Losing a Life</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Every card is turned up; aces are low</li>
+                  <li>The lowest card loses a life, and everyone tied for lowest loses one</li>
+                  <li>If that would knock out everyone left, nobody loses a life</li>
+                  <li>The deal moves left each hand</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Winning</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>The last player with lives left takes the pot</li>
+                </ul>
+              </div>
             </TabsContent>
 
             <TabsContent value="yahtzee" className="mt-0 space-y-4 pr-4">
@@ -470,6 +755,259 @@ export const GameRules = ({ open, onOpenChange }: GameRulesProps) => {
                 </ul>
               </div>
             </TabsContent>
+
+            <TabsContent value="left-right-center" className="mt-0 space-y-4 pr-4">
+              <div className="space-y-3">
+                <h3 className="font-bold text-lg text-primary">Left Right Center Overview</h3>
+                <p className="text-sm text-muted-foreground">
+                  No skill, just dice: roll to pass your chips around the table. The last player holding chips wins the center.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Setup</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>3+ players; everyone buys the same number of chips (3 by default)</li>
+                  <li>Each chip costs the ante, and every buy-in goes into the center pot</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Your Turn</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Play starts left of the dealer</li>
+                  <li>Roll one die for each chip you hold, up to 3</li>
+                  <li><strong>L:</strong> pass a chip to the player on your left</li>
+                  <li><strong>R:</strong> pass a chip to the player on your right</li>
+                  <li><strong>C:</strong> put a chip in the center</li>
+                  <li><strong>•:</strong> keep the chip</li>
+                  <li>Out of chips? Your turn is skipped, but you're still in: a neighbor can pass you chips</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Wild Dice (Optional)</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>One dot face becomes a <strong>★</strong></li>
+                  <li>Each ★ takes a chip from any player you choose</li>
+                  <li>Roll three ★ and you win the game on the spot</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Winning</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>When only one player has chips left, they take the whole pot</li>
+                </ul>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="farkle" className="mt-0 space-y-4 pr-4">
+              <div className="space-y-3">
+                <h3 className="font-bold text-lg text-primary">Farkle Overview</h3>
+                <p className="text-sm text-muted-foreground">
+                  A push-your-luck dice game: keep rolling to build your turn's score, but a roll with nothing to score loses it all.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Your Turn</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Play starts left of the dealer; roll all 6 dice</li>
+                  <li>Set aside at least one scoring die after every roll</li>
+                  <li>Then <strong>bank</strong> the turn's points or roll the dice that are left</li>
+                  <li><strong>Farkle:</strong> a roll with nothing to score ends your turn with no points</li>
+                  <li><strong>Hot dice:</strong> set aside all 6 and you roll all 6 again</li>
+                  <li>Until you bank the opening score (500 by default) in one turn, nothing counts</li>
+                  <li>Take too long and a bot plays out the rest of your turn</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Scoring</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li><strong>Single 1:</strong> <span className="text-primary font-medium">100</span> • <strong>Single 5:</strong> <span className="text-primary font-medium">50</span></li>
+                  <li><strong>Three of a kind:</strong> 100× the face; three 1s are <span className="text-primary font-medium">1000</span></li>
+                  <li><strong>Four, five and six of a kind:</strong> set by the dealer, as a fixed score or double the kind below</li>
+                  <li><strong>Three pairs</strong> and the <strong>1-6 straight</strong> (all six dice in one roll): set by the dealer, or off</li>
+                  <li>Every die you set aside has to score</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Winning</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Once someone banks to the target (10,000 by default), everyone else gets one last turn</li>
+                  <li>Highest score wins the ante from every other player</li>
+                  <li>A tie for the lead starts a new game</li>
+                </ul>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="liars-dice" className="mt-0 space-y-4 pr-4">
+              <div className="space-y-3">
+                <h3 className="font-bold text-lg text-primary">Liar's Dice Overview</h3>
+                <p className="text-sm text-muted-foreground">
+                  A bluffing game: everyone rolls under a cup and bids on what's under all of them. Call a bid a lie and the cups come up.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Setup</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>2+ players; everyone antes into the pot and starts with the same number of dice (5 by default)</li>
+                  <li>Each hand, everyone rolls their dice in secret: only you see your cup</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Bidding</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>A bid is a count and a face: "four 3s" says there are at least four 3s across every cup</li>
+                  <li>On your turn, raise the bid or call it a lie</li>
+                  <li>A raise bids more dice, or the same number of dice on a higher face</li>
+                  <li><strong>Ones wild (optional):</strong> 1s count toward every face. Nobody can open on 1s; bidding 1s takes half the dice (rounded up), and bidding off 1s takes double plus one</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Calling</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Everyone's cup comes up and the dice are counted</li>
+                  <li>At least as many as bid: the caller loses a die. Fewer: the bidder loses a die</li>
+                  <li><strong>Lose the difference (optional):</strong> the loser gives up one die for each the bid was off by</li>
+                  <li>The loser opens the next hand, or the next player if they're out of dice</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Winning</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>The last player with dice left takes the pot</li>
+                </ul>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="spades" className="mt-0 space-y-4 pr-4">
+              <div className="space-y-3">
+                <h3 className="font-bold text-lg text-primary">Spades Overview</h3>
+                <p className="text-sm text-muted-foreground">
+                  A partnership trick-taking game: each side bids the tricks it will take, with spades always trump.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Setup</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Exactly 4 players; partners sit across from each other</li>
+                  <li>Everyone antes into the pot, then all 52 cards are dealt, 13 each</li>
+                  <li>The deal passes left after every hand</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Bidding</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Starting left of the dealer, everyone bids once: 1 to 13 tricks, or nil</li>
+                  <li>Partners' bids add up to their side's contract</li>
+                  <li><strong>Nil:</strong> you promise to take no tricks at all</li>
+                  <li><strong>Blind nil (optional):</strong> a side 100 or more behind may bid nil before looking at their cards</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Play</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Left of the dealer leads the first trick; follow suit if you can, otherwise play anything</li>
+                  <li>The highest spade wins the trick, or the highest card of the suit led if no spade was played</li>
+                  <li>Spades can't be led until one has been played to a trick, unless you hold nothing else</li>
+                  <li>The trick's winner leads the next one</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Scoring</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Make your contract: 10 points a trick bid, plus 1 for each trick over (a bag)</li>
+                  <li>Fall short: lose 10 points a trick bid</li>
+                  <li>Nil scores 100 if made and costs 100 if broken (blind nil: 200); a nil bidder's tricks count as bags and don't help their partner</li>
+                  <li>Every 10 bags a side piles up costs it 100 points</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Winning</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>The first side to reach the target (500 by default) ahead of the other wins</li>
+                  <li>Tied on or past the target, another hand is dealt</li>
+                  <li>The winning partners split the pot</li>
+                </ul>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="euchre" className="mt-0 space-y-4 pr-4">
+              <div className="space-y-3">
+                <h3 className="font-bold text-lg text-primary">Euchre Overview</h3>
+                <p className="text-sm text-muted-foreground">
+                  A partnership trick-taking game with a short deck: one side calls trump and has to take at least three of the five tricks.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Setup</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Exactly 4 players; partners sit across from each other</li>
+                  <li>24 cards, 9s up; everyone antes into the pot, then gets 5 cards and the next card is turned up</li>
+                  <li>The deal passes left after every hand</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Bowers</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li><strong>Right bower:</strong> the jack of trump, the highest card</li>
+                  <li><strong>Left bower:</strong> the other jack of the same color, next highest; it counts as a trump, not as its own suit</li>
+                  <li>Then trump A, K, Q, 10, 9</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Calling Trump</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Starting left of the dealer, everyone may order the turned card up as trump or pass; if it's ordered, the dealer picks it up and discards</li>
+                  <li>If all four pass, the card is turned down and everyone in turn may name another suit or pass</li>
+                  <li>If everyone passes again, the hand is thrown in and the deal moves on</li>
+                  <li><strong>Stick the dealer (optional):</strong> the dealer can't pass the second round and must name trump</li>
+                  <li>Whoever calls trump may go alone: their partner sits the hand out</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Play</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>Left of the dealer leads the first trick (skipping a partner sitting out); follow suit if you can, otherwise play anything</li>
+                  <li>The highest trump wins the trick, or the highest card of the suit led if no trump was played</li>
+                  <li>The trick's winner leads the next one</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Scoring</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>The makers take 3 or 4 tricks: 1 point</li>
+                  <li>The makers take all 5 (a march): 2 points, or 4 going alone</li>
+                  <li>The makers take fewer than 3 (euchred): the defenders score 2</li>
+                </ul>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Winning</h4>
+                <ul className="text-sm space-y-1 list-disc list-inside text-muted-foreground">
+                  <li>The first side to reach the target (10 by default) wins</li>
+                  <li>The winning partners split the pot</li>
+                </ul>
+              </div>
+            </TabsContent>
           </ScrollArea>
         </Tabs>
       </DialogContent>
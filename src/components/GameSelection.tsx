@@ -2,6 +2,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Lock, Spade, Dice5, RotateCcw, UserMinus, LogOut } from "lucide-react";
 import { toast } from "sonner";
+import { GAME_TYPE_LIST, MAX_SEATS, getGameDisplayName, isDiceGame, type GameTypeInfo } from "@/lib/gameTypes";
 
 interface GameSelectionProps {
   onSelectGame: (gameType: string) => void;
@@ -25,75 +26,17 @@ export const GameSelection = ({
   onEndSession
 }: GameSelectionProps) => {
 
-  const cardGames = [
-    {
-      id: "holm-game",
-      name: "Holm",
-      description: "Beat Chucky!",
-      enabled: true,
-    },
-    {
-      id: "3-5-7",
-      name: "3-5-7",
-      description: "Classic wild card poker",
-      enabled: true,
-    },
-    {
-      id: "cribbage",
-      name: "Cribbage",
-      description: "Pegging to 121",
-      enabled: true,
-      maxPlayers: 4,
-    },
-    {
-      id: "gin-rummy",
-      name: "Gin Rummy",
-      description: "Meld & knock",
-      enabled: true,
-      maxPlayers: 2,
-    },
-    {
-      id: "sports-trivia",
-      name: "Trivia",
-      description: "Answer trivia, win the pot",
-      enabled: true,
-    },
-  ];
+  const toSelectable = (game: GameTypeInfo) => ({
+    id: game.id,
+    name: game.name,
+    description: game.description,
+    enabled: true,
+    minPlayers: game.minPlayers > 2 ? game.minPlayers : undefined,
+    maxPlayers: game.maxPlayers < MAX_SEATS ? game.maxPlayers : undefined,
+  });
 
-  const diceGames = [
-    {
-      id: "horses",
-      name: "Horses",
-      description: "5 dice, best hand wins",
-      enabled: true,
-    },
-    {
-      id: "ship-captain-crew",
-      name: "Ship Captain Crew",
-      description: "6-5-4",
-      enabled: true,
-    },
-    {
-      id: "yahtzee",
-      name: "Yahtzee",
-      description: "Fill your scorecard",
-      enabled: true,
-    },
-  ];
-
-  const getGameDisplayName = (gameType: string) => {
-    switch (gameType) {
-      case '3-5-7': return '3-5-7';
-      case 'holm-game': return 'Holm';
-      case 'horses': return 'Horses';
-      case 'ship-captain-crew': return 'Ship';
-      case 'sports-trivia': return 'Trivia';
-      case 'cribbage': return 'Cribbage';
-      case 'gin-rummy': return 'Gin Rummy';
-      case 'yahtzee': return 'Yahtzee';
-      default: return gameType;
-    }
-  };
+  const cardGames = GAME_TYPE_LIST.filter(g => g.family === 'cards').map(toSelectable);
+  const diceGames = GAME_TYPE_LIST.filter(g => g.family === 'dice').map(toSelectable);
 
   const handleRunBack = () => {
     if (lastGameType) {
@@ -110,18 +53,29 @@ export const GameSelection = ({
       toast.error(`${game.name} requires ${game.maxPlayers} or fewer players`);
       return;
     }
+    if (game.minPlayers && activePlayerCount < game.minPlayers) {
+      toast.error(`${game.name} requires at least ${game.minPlayers} players`);
+      return;
+    }
     onSelectGame(game.id);
   };
 
   const isGameDisabled = (game: typeof cardGames[0]) => {
     if (!game.enabled) return true;
     if (game.maxPlayers && activePlayerCount > game.maxPlayers) return true;
+    if (game.minPlayers && activePlayerCount < game.minPlayers) return true;
     // Disable trivia for non-superusers
     if (game.id === 'sports-trivia' && !isSuperuser) return true;
     return false;
   };
 
   const getPlayerRestrictionLabel = (game: typeof cardGames[0]) => {
+    if (game.minPlayers && game.minPlayers === game.maxPlayers) {
+      return `${game.minPlayers} players`;
+    }
+    if (game.minPlayers) {
+      return `${game.minPlayers}+ players`;
+    }
     if (game.maxPlayers) {
       return `${game.maxPlayers} max`;
     }
@@ -131,7 +85,7 @@ export const GameSelection = ({
   // Determine which tab to default to based on last game type
   const getDefaultTab = () => {
     if (lastGameType) {
-      return lastGameType === 'horses' || lastGameType === 'ship-captain-crew' || lastGameType === 'yahtzee' ? 'dice' : 'cards';
+      return isDiceGame(lastGameType) ? 'dice' : 'cards';
     }
     return 'cards';
   };
@@ -197,7 +151,7 @@ export const GameSelection = ({
                       </div>
                       {restriction && (
                         <span className={`text-xs font-medium flex-shrink-0 ${
-                          activePlayerCount > (game.maxPlayers || 99) 
+                          activePlayerCount > (game.maxPlayers || 99) || activePlayerCount < (game.minPlayers || 0)
                             ? 'text-red-400' 
                             : 'text-amber-400'
                         }`}>
@@ -240,7 +194,7 @@ export const GameSelection = ({
               >
                 <RotateCcw className="w-5 h-5 text-amber-400" />
                 <span className="text-base font-bold text-amber-400">
-                  Run Back {getGameDisplayName(lastGameType)}
+                  Run Back {getGameDisplayName(lastGameType, true)}
                 </span>
               </button>
             </div>
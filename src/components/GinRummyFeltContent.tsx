@@ -4,6 +4,7 @@
 import { CribbagePlayingCard } from './CribbagePlayingCard';
 import { CribbageTurnSpotlight } from './CribbageTurnSpotlight';
 import { GinRummyPegBoard } from './GinRummyPegBoard';
+import { GinRummyHollywoodScores } from './GinRummyHollywoodScores';
 import type { GinRummyState, GinRummyCard } from '@/lib/ginRummyTypes';
 import { getDiscardTop, stockRemaining } from '@/lib/ginRummyGameLogic';
 import { STOCK_EXHAUSTION_THRESHOLD } from '@/lib/ginRummyTypes';
@@ -62,14 +63,23 @@ export const GinRummyFeltContent = ({
         opponentIds={[opponentId]}
       />
 
-      {/* Match Score Pegboard - Top center */}
+      {/* Match Score Pegboard (Hollywood: the three-game sheet) - Top center */}
       <div className="absolute top-[20%] left-1/2 -translate-x-1/2 z-20 w-[70%]">
-        <GinRummyPegBoard
-          ginState={ginState}
-          currentPlayerId={currentPlayerId}
-          opponentId={opponentId}
-          getPlayerUsername={getPlayerUsername}
-        />
+        {ginState.hollywood ? (
+          <GinRummyHollywoodScores
+            ginState={ginState}
+            currentPlayerId={currentPlayerId}
+            opponentId={opponentId}
+            getPlayerUsername={getPlayerUsername}
+          />
+        ) : (
+          <GinRummyPegBoard
+            ginState={ginState}
+            currentPlayerId={currentPlayerId}
+            opponentId={opponentId}
+            getPlayerUsername={getPlayerUsername}
+          />
+        )}
       </div>
 
       {/* Stock & Discard Piles — hidden after knock/gin */}
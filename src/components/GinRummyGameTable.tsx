@@ -5,7 +5,7 @@ import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { useWakeLock } from '@/hooks/useWakeLock';
-import type { GinRummyState, GinRummyCard } from '@/lib/ginRummyTypes';
+import { GIN_BONUS, UNDERCUT_BONUS, type GinRummyState, type GinRummyCard } from '@/lib/ginRummyTypes';
 import {
   drawFromStock,
   drawFromDiscard,
@@ -17,6 +17,7 @@ import {
   finishLayingOff,
   scoreHand,
   getDiscardTop,
+  getKnockLimit,
 } from '@/lib/ginRummyGameLogic';
 import {
   shouldBotTakeFirstDraw,
@@ -30,6 +31,7 @@ import {
   recordGinRummyHandResult,
   endGinRummyGame,
 } from '@/lib/ginRummyRoundLogic';
+import { logModuleAction } from '@/lib/handActionLog';
 import { GinRummyFeltContent } from './GinRummyFeltContent';
 import { GinRummyMobileCardsTab } from './GinRummyMobileCardsTab';
 import { GinRummyKnockDisplay } from './GinRummyKnockDisplay';
@@ -223,12 +225,12 @@ export const GinRummyGameTable = ({
     const load = async () => {
       const { data, error } = await supabase
         .from('rounds')
-        .select('gin_rummy_state')
+        .select('game_state')
         .eq('id', roundId)
         .single();
 
-      if (!error && data?.gin_rummy_state) {
-        setGinState(data.gin_rummy_state as unknown as GinRummyState);
+      if (!error && data?.game_state) {
+        setGinState(data.game_state as unknown as GinRummyState);
       }
     };
     load();
@@ -302,9 +304,9 @@ export const GinRummyGameTable = ({
           filter: `id=eq.${roundId}`,
         },
         (payload) => {
-          const newData = payload.new as { gin_rummy_state?: GinRummyState };
-          if (newData.gin_rummy_state) {
-            applyState(newData.gin_rummy_state, 'realtime');
+          const newData = payload.new as { game_state?: GinRummyState };
+          if (newData.game_state) {
+            applyState(newData.game_state, 'realtime');
           }
         }
       )
@@ -320,12 +322,12 @@ export const GinRummyGameTable = ({
       try {
         const { data } = await supabase
           .from('rounds')
-          .select('gin_rummy_state')
+          .select('game_state')
           .eq('id', roundId)
           .maybeSingle();
 
-        if (data?.gin_rummy_state && isActive) {
-          applyState(data.gin_rummy_state as unknown as GinRummyState, 'poll');
+        if (data?.game_state && isActive) {
+          applyState(data.game_state as unknown as GinRummyState, 'poll');
         }
       } catch {
         // Silent fail
@@ -382,12 +384,12 @@ export const GinRummyGameTable = ({
         // Re-fetch latest state to prevent stale-closure issues
         const { data } = await supabase
           .from('rounds')
-          .select('gin_rummy_state')
+          .select('game_state')
           .eq('id', roundId)
           .single();
 
-        if (!data?.gin_rummy_state) return;
-        let state = data.gin_rummy_state as unknown as GinRummyState;
+        if (!data?.game_state) return;
+        let state = data.game_state as unknown as GinRummyState;
 
         // Phase guard: don't act during terminal or scoring phases
         if (['complete', 'scoring'].includes(state.phase)) {
@@ -406,25 +408,27 @@ export const GinRummyGameTable = ({
         if (state.phase === 'first_draw' && state.firstDrawOfferedTo === botId) {
           const upCard = state.discardPile[state.discardPile.length - 1];
           if (upCard && shouldBotTakeFirstDraw(botState.hand, upCard)) {
+            void logModuleAction(roundId, state, { type: 'take_first_draw', playerId: botId });
             state = takeFirstDrawCard(state, botId);
             // Write intermediate "draw" state so the opponent-draw animation fires
             const drawSnapshot = JSON.parse(JSON.stringify(state));
             await supabase
               .from('rounds')
-              .update({ gin_rummy_state: drawSnapshot })
+              .update({ game_state: drawSnapshot })
               .eq('id', roundId);
             setGinState(drawSnapshot);
             // Wait so the player can see the card-fly animation
             await new Promise(resolve => setTimeout(resolve, 1200));
             // Fall through to discard logic below (phase=playing, turnPhase=discard)
           } else {
+            void logModuleAction(roundId, state, { type: 'pass_first_draw', playerId: botId });
             state = passFirstDraw(state, botId);
             // After pass, if turn moved to human, write and stop
             if (state.currentTurnPlayerId !== botId) {
               optimisticUntilRef.current = Date.now() + 1200;
               await supabase
                 .from('rounds')
-                .update({ gin_rummy_state: JSON.parse(JSON.stringify(state)) })
+                .update({ game_state: JSON.parse(JSON.stringify(state)) })
                 .eq('id', roundId);
               setGinState(state);
               return;
@@ -436,8 +440,10 @@ export const GinRummyGameTable = ({
           const topDiscard = getDiscardTop(state);
           const source = botChooseDrawSource(botState.hand, topDiscard);
           if (source === 'discard' && topDiscard) {
+            void logModuleAction(roundId, state, { type: 'draw_discard', playerId: botId });
             state = drawFromDiscard(state, botId);
           } else {
+            void logModuleAction(roundId, state, { type: 'draw_stock', playerId: botId });
             state = drawFromStock(state, botId);
           }
 
@@ -445,7 +451,7 @@ export const GinRummyGameTable = ({
           const drawSnapshot = JSON.parse(JSON.stringify(state));
           await supabase
             .from('rounds')
-            .update({ gin_rummy_state: drawSnapshot })
+            .update({ game_state: drawSnapshot })
             .eq('id', roundId);
           setGinState(drawSnapshot);
 
@@ -460,17 +466,18 @@ export const GinRummyGameTable = ({
             ? state.lastAction.card
             : null;
 
-          const knockDecision = botShouldKnock(updatedBotState.hand, drawnFromDiscard);
+          const knockDecision = botShouldKnock(updatedBotState.hand, drawnFromDiscard, getKnockLimit(state));
 
           if (knockDecision.shouldKnock) {
             const discardCardVal = updatedBotState.hand[knockDecision.discardIndex];
+            void logModuleAction(roundId, state, { type: 'knock', playerId: botId, card: discardCardVal });
             state = declareKnock(state, botId, discardCardVal);
             if (state.phase === 'scoring') {
               // Gin! Write state first so gin overlay plays, then wait before scoring
               const ginSnapshot = JSON.parse(JSON.stringify(state));
               await supabase
                 .from('rounds')
-                .update({ gin_rummy_state: ginSnapshot })
+                .update({ game_state: ginSnapshot })
                 .eq('id', roundId);
               setGinState(ginSnapshot);
               await new Promise(resolve => setTimeout(resolve, 3500));
@@ -478,7 +485,7 @@ export const GinRummyGameTable = ({
               // Write scored state and RETURN — do not fall through to generic write
               await supabase
                 .from('rounds')
-                .update({ gin_rummy_state: JSON.parse(JSON.stringify(state)) })
+                .update({ game_state: JSON.parse(JSON.stringify(state)) })
                 .eq('id', roundId);
               setGinState(state);
               return;
@@ -487,7 +494,7 @@ export const GinRummyGameTable = ({
               const knockSnapshot = JSON.parse(JSON.stringify(state));
               await supabase
                 .from('rounds')
-                .update({ gin_rummy_state: knockSnapshot })
+                .update({ game_state: knockSnapshot })
                 .eq('id', roundId);
               setGinState(knockSnapshot);
               await new Promise(resolve => setTimeout(resolve, 2800));
@@ -496,6 +503,7 @@ export const GinRummyGameTable = ({
           } else {
             const discardIdx = knockDecision.discardIndex;
             const card = updatedBotState.hand[discardIdx];
+            void logModuleAction(roundId, state, { type: 'discard', playerId: botId, card });
             state = discardCard(state, botId, card);
           }
         }
@@ -505,17 +513,18 @@ export const GinRummyGameTable = ({
             ? state.lastAction.card
             : null;
 
-          const knockDecision = botShouldKnock(botState.hand, drawnFromDiscard);
+          const knockDecision = botShouldKnock(botState.hand, drawnFromDiscard, getKnockLimit(state));
 
           if (knockDecision.shouldKnock) {
             const discardCardVal = botState.hand[knockDecision.discardIndex];
+            void logModuleAction(roundId, state, { type: 'knock', playerId: botId, card: discardCardVal });
             state = declareKnock(state, botId, discardCardVal);
             if (state.phase === 'scoring') {
               // Gin! Write state first so gin overlay plays, then wait before scoring
               const ginSnapshot = JSON.parse(JSON.stringify(state));
               await supabase
                 .from('rounds')
-                .update({ gin_rummy_state: ginSnapshot })
+                .update({ game_state: ginSnapshot })
                 .eq('id', roundId);
               setGinState(ginSnapshot);
               await new Promise(resolve => setTimeout(resolve, 3500));
@@ -523,7 +532,7 @@ export const GinRummyGameTable = ({
               // Write scored state and RETURN — do not fall through to generic write
               await supabase
                 .from('rounds')
-                .update({ gin_rummy_state: JSON.parse(JSON.stringify(state)) })
+                .update({ game_state: JSON.parse(JSON.stringify(state)) })
                 .eq('id', roundId);
               setGinState(state);
               return;
@@ -532,7 +541,7 @@ export const GinRummyGameTable = ({
               const knockSnapshot = JSON.parse(JSON.stringify(state));
               await supabase
                 .from('rounds')
-                .update({ gin_rummy_state: knockSnapshot })
+                .update({ game_state: knockSnapshot })
                 .eq('id', roundId);
               setGinState(knockSnapshot);
               await new Promise(resolve => setTimeout(resolve, 2800));
@@ -540,6 +549,7 @@ export const GinRummyGameTable = ({
           } else {
             const discardIdx = knockDecision.discardIndex;
             const card = botState.hand[discardIdx];
+            void logModuleAction(roundId, state, { type: 'discard', playerId: botId, card });
             state = discardCard(state, botId, card);
           }
         }
@@ -550,7 +560,7 @@ export const GinRummyGameTable = ({
             // Show bot's cards on felt first, then wait 3s before laying off
             await supabase
               .from('rounds')
-              .update({ gin_rummy_state: JSON.parse(JSON.stringify(state)) })
+              .update({ game_state: JSON.parse(JSON.stringify(state)) })
               .eq('id', roundId);
             setGinState(state);
             await new Promise(resolve => setTimeout(resolve, 3000));
@@ -559,11 +569,12 @@ export const GinRummyGameTable = ({
             const layOffs = botGetLayOffs(botState.hand, state.playerStates[knockerId].melds);
             for (const lo of layOffs) {
               try {
+                void logModuleAction(roundId, state, { type: 'lay_off', playerId: botId, card: lo.card, meldIndex: lo.onMeldIndex });
                 state = layOffCard(state, botId, lo.card, lo.onMeldIndex);
                 // Write intermediate state so viewer can see each lay-off
                 await supabase
                   .from('rounds')
-                  .update({ gin_rummy_state: JSON.parse(JSON.stringify(state)) })
+                  .update({ game_state: JSON.parse(JSON.stringify(state)) })
                   .eq('id', roundId);
                 setGinState(state);
                 await new Promise(resolve => setTimeout(resolve, 1500));
@@ -571,6 +582,7 @@ export const GinRummyGameTable = ({
                 break; // Card may no longer be valid
               }
             }
+            void logModuleAction(roundId, state, { type: 'finish_laying_off', playerId: botId });
             state = finishLayingOff(state, botId);
             if (state.phase === 'scoring') {
               state = scoreHand(state);
@@ -581,7 +593,7 @@ export const GinRummyGameTable = ({
         // Write updated state
         await supabase
           .from('rounds')
-          .update({ gin_rummy_state: JSON.parse(JSON.stringify(state)) })
+          .update({ game_state: JSON.parse(JSON.stringify(state)) })
           .eq('id', roundId);
 
         setGinState(state);
@@ -680,7 +692,7 @@ export const GinRummyGameTable = ({
     try {
       const { error } = await supabase
         .from('rounds')
-        .update({ gin_rummy_state: JSON.parse(JSON.stringify(newState)) })
+        .update({ game_state: JSON.parse(JSON.stringify(newState)) })
         .eq('id', roundId);
       if (error) throw error;
       // Re-assert optimistic state after write succeeds so any poll that fires
@@ -701,10 +713,10 @@ export const GinRummyGameTable = ({
   const fetchFreshState = async (): Promise<GinRummyState | null> => {
     const { data } = await supabase
       .from('rounds')
-      .select('gin_rummy_state')
+      .select('game_state')
       .eq('id', roundId)
       .single();
-    return data?.gin_rummy_state as unknown as GinRummyState | null;
+    return data?.game_state as unknown as GinRummyState | null;
   };
 
   // Action handlers
@@ -712,6 +724,7 @@ export const GinRummyGameTable = ({
     if (!ginState || !currentPlayerId || isProcessing) return;
     try {
       const newState = drawFromStock(ginState, currentPlayerId);
+      void logModuleAction(roundId, ginState, { type: 'draw_stock', playerId: currentPlayerId });
       await updateState(newState);
     } catch (err) {
       toast.error((err as Error).message);
@@ -722,6 +735,7 @@ export const GinRummyGameTable = ({
     if (!ginState || !currentPlayerId || isProcessing) return;
     try {
       const newState = drawFromDiscard(ginState, currentPlayerId);
+      void logModuleAction(roundId, ginState, { type: 'draw_discard', playerId: currentPlayerId });
       await updateState(newState);
     } catch (err) {
       toast.error((err as Error).message);
@@ -734,6 +748,7 @@ export const GinRummyGameTable = ({
     if (!card) return;
     try {
       const newState = discardCard(ginState, currentPlayerId, card);
+      void logModuleAction(roundId, ginState, { type: 'discard', playerId: currentPlayerId, card });
       await updateState(newState);
     } catch (err) {
       toast.error((err as Error).message);
@@ -746,12 +761,13 @@ export const GinRummyGameTable = ({
     if (!card) return;
     try {
       let newState = declareKnock(ginState, currentPlayerId, card);
+      void logModuleAction(roundId, ginState, { type: 'knock', playerId: currentPlayerId, card });
       if (newState.phase === 'scoring') {
         // Gin! Show overlay FIRST locally, write to DB for opponent, then delay before tabling
         ginOverlayFiredRef.current = true;
         setShowGinOverlay(true);
         // Write to DB so opponent sees gin phase and gets overlay too
-        supabase.from('rounds').update({ gin_rummy_state: JSON.parse(JSON.stringify(newState)) }).eq('id', roundId);
+        supabase.from('rounds').update({ game_state: JSON.parse(JSON.stringify(newState)) }).eq('id', roundId);
         optimisticUntilRef.current = Date.now() + 4000;
         await new Promise(resolve => setTimeout(resolve, 3500));
         await updateState(newState);
@@ -762,7 +778,7 @@ export const GinRummyGameTable = ({
         knockOverlayFiredRef.current = true;
         setShowKnockOverlay(true);
         // Write to DB so opponent sees knocking phase and gets overlay too
-        supabase.from('rounds').update({ gin_rummy_state: JSON.parse(JSON.stringify(newState)) }).eq('id', roundId);
+        supabase.from('rounds').update({ game_state: JSON.parse(JSON.stringify(newState)) }).eq('id', roundId);
         optimisticUntilRef.current = Date.now() + 3300;
         await new Promise(resolve => setTimeout(resolve, 2800));
         await updateState(newState);
@@ -780,6 +796,7 @@ export const GinRummyGameTable = ({
       const fresh = await fetchFreshState();
       if (!fresh || fresh.phase !== 'first_draw' || fresh.firstDrawOfferedTo !== currentPlayerId) return;
       const newState = takeFirstDrawCard(fresh, currentPlayerId);
+      void logModuleAction(roundId, fresh, { type: 'take_first_draw', playerId: currentPlayerId });
       // Longer optimistic guard — we're transitioning to discard phase, no bot race
       optimisticUntilRef.current = Date.now() + 1500;
       await updateState(newState);
@@ -795,6 +812,7 @@ export const GinRummyGameTable = ({
       const fresh = await fetchFreshState();
       if (!fresh || fresh.phase !== 'first_draw' || fresh.firstDrawOfferedTo !== currentPlayerId) return;
       const newState = passFirstDraw(fresh, currentPlayerId);
+      void logModuleAction(roundId, fresh, { type: 'pass_first_draw', playerId: currentPlayerId });
       // Longer optimistic guard — bot needs 1-2s to decide after our pass
       optimisticUntilRef.current = Date.now() + 2500;
       await updateState(newState);
@@ -809,6 +827,7 @@ export const GinRummyGameTable = ({
     if (!card) return;
     try {
       const newState = layOffCard(ginState, currentPlayerId, card, meldIndex);
+      void logModuleAction(roundId, ginState, { type: 'lay_off', playerId: currentPlayerId, card, meldIndex });
       await updateState(newState);
     } catch (err) {
       toast.error((err as Error).message);
@@ -819,6 +838,7 @@ export const GinRummyGameTable = ({
     if (!ginState || !currentPlayerId || isProcessing) return;
     try {
       let newState = finishLayingOff(ginState, currentPlayerId);
+      void logModuleAction(roundId, ginState, { type: 'finish_laying_off', playerId: currentPlayerId });
       if (newState.phase === 'scoring') {
         newState = scoreHand(newState);
       }
@@ -950,7 +970,12 @@ export const GinRummyGameTable = ({
             {/* Game Title */}
             <div className="absolute top-3 left-0 right-0 z-20 flex items-center justify-center">
               <h2 className="text-sm font-bold text-white drop-shadow-lg">
-                ${anteAmount} GIN RUMMY <span className="font-normal text-white/70">({ginState.pointsToWin})</span>
+                ${anteAmount} GIN RUMMY{' '}
+                <span className="font-normal text-white/70">
+                  ({ginState.hollywood ? `Hollywood ${ginState.pointsToWin}` : ginState.pointsToWin}
+                  {ginState.oklahoma && ` • Knock ${getKnockLimit(ginState) === 0 ? 'gin only' : `≤${getKnockLimit(ginState)}`}`}
+                  {ginState.spadesDoubled && ' • ♠ ×2'})
+                </span>
               </h2>
             </div>
 
@@ -1101,9 +1126,11 @@ export const GinRummyGameTable = ({
             if (ginState.phase === 'complete' && ginState.knockResult) {
               const r = ginState.knockResult;
               const dwDiff = Math.abs(r.opponentDeadwood - r.knockerDeadwood);
-              const bonus = r.isGin ? ` (${dwDiff} dw + 25 gin bonus)` :
-                            r.isUndercut ? ` (${dwDiff} dw + 25 undercut bonus)` :
-                            '';
+              const bonus = (r.isGin ? ` (${dwDiff} dw + ${GIN_BONUS} gin bonus)` :
+                            r.isUndercut ? ` (${dwDiff} dw + ${UNDERCUT_BONUS} undercut bonus)` :
+                            '')
+                + (r.doubled ? ' ×2 ♠' : '')
+                + (r.hollywoodGames?.length ? ` → game ${r.hollywoodGames.map(i => i + 1).join(', ')}` : '');
               return (
                 <div className="w-full bg-poker-gold/95 backdrop-blur-sm rounded-md px-3 py-1.5 shadow-xl border-2 border-amber-900">
                   <p className="text-slate-900 font-bold text-[11px] text-center truncate">
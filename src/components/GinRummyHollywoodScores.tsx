@@ -0,0 +1,59 @@
+// Hollywood score sheet: the three games side by side, with each player's boxes (hands won) beside their score
+
+import { Fragment } from 'react';
+import type { GinRummyState } from '@/lib/ginRummyTypes';
+import { isHollywoodShutout } from '@/lib/ginRummyScoring';
+
+interface GinRummyHollywoodScoresProps {
+  ginState: GinRummyState;
+  currentPlayerId: string | undefined;
+  opponentId: string;
+  getPlayerUsername: (playerId: string) => string;
+}
+
+const PLAYER_TEXT_COLORS = ['text-red-200', 'text-blue-200'];
+
+export const GinRummyHollywoodScores = ({
+  ginState,
+  currentPlayerId,
+  opponentId,
+  getPlayerUsername,
+}: GinRummyHollywoodScoresProps) => {
+  const games = ginState.hollywood ?? [];
+  const playerIds = [currentPlayerId ?? '', opponentId];
+
+  return (
+    <div className="w-full rounded-md bg-black/30 px-2 py-1 space-y-0.5">
+      <div className="grid grid-cols-[3rem_repeat(3,1fr)] gap-x-1.5 items-center">
+        <span />
+        {games.map((game, i) => (
+          <span key={i} className={`text-[8px] text-center ${game.winnerId ? 'text-white/40' : 'text-white/60'}`}>
+            Game {i + 1}{isHollywoodShutout(game) ? ' • Shutout' : ''}
+          </span>
+        ))}
+
+        {playerIds.map((pid, index) => (
+          <Fragment key={pid}>
+            <span className="text-[9px] text-white/80 truncate text-right font-medium">
+              {getPlayerUsername(pid)}
+            </span>
+            {games.map((game, i) => (
+              <span
+                key={i}
+                className={`text-[10px] text-center font-bold ${
+                  game.winnerId === pid ? 'text-poker-gold' : PLAYER_TEXT_COLORS[index]
+                } ${game.winnerId && game.winnerId !== pid ? 'opacity-50' : ''}`}
+              >
+                {game.scores[pid] ?? 0}
+                <span className="text-[8px] font-normal text-white/50"> ({game.handsWon[pid] ?? 0})</span>
+              </span>
+            ))}
+          </Fragment>
+        ))}
+      </div>
+      <p className="text-[8px] text-white/40 text-center">
+        Each game to {ginState.pointsToWin} • boxes in brackets
+      </p>
+    </div>
+  );
+};
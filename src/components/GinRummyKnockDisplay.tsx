@@ -219,7 +219,7 @@ export const GinRummyKnockDisplay = ({
       {isComplete && (
         <p className="text-[8px] text-white/40 drop-shadow text-center">
           Match: {getPlayerUsername(knockerId)} {ginState.matchScores[knockerId] || 0} — {ginState.matchScores[opponentId] || 0} {getPlayerUsername(opponentId)}
-          <span className="text-white/25"> (to {ginState.pointsToWin})</span>
+          <span className="text-white/25">{ginState.hollywood ? ' (Hollywood, all games)' : ` (to ${ginState.pointsToWin})`}</span>
         </p>
       )}
     </div>
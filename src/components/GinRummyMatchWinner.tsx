@@ -36,7 +36,9 @@ export const GinRummyMatchWinner = ({ ginState, getPlayerUsername }: GinRummyMat
           {winnerScore} — {loserScore}
         </p>
         <p className="text-[10px] text-white/40">
-          Match to {ginState.pointsToWin} points
+          {ginState.hollywood
+            ? `Hollywood: 3 games to ${ginState.pointsToWin}, bonuses included`
+            : `Match to ${ginState.pointsToWin} points`}
         </p>
       </div>
     </div>
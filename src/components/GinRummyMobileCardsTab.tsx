@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { cn, formatChipValue } from '@/lib/utils';
 import type { GinRummyState, GinRummyCard, Meld } from '@/lib/ginRummyTypes';
 import { canKnock, hasGin, findLayOffOptions, findOptimalMelds } from '@/lib/ginRummyScoring';
+import { getKnockLimit } from '@/lib/ginRummyGameLogic';
 import { CribbagePlayingCard } from './CribbagePlayingCard';
 import { QuickEmoticonPicker } from './QuickEmoticonPicker';
 import { supabase } from '@/integrations/supabase/client';
@@ -116,7 +117,7 @@ export const GinRummyMobileCardsTab = ({
     return h;
   }, [selectedCardIndex, myState]);
 
-  const canKnockNow = isMyTurn && ginState.turnPhase === 'discard' && handAfterDiscard && canKnock(handAfterDiscard);
+  const canKnockNow = isMyTurn && ginState.turnPhase === 'discard' && handAfterDiscard && canKnock(handAfterDiscard, getKnockLimit(ginState));
   const hasGinNow = isMyTurn && ginState.turnPhase === 'discard' && handAfterDiscard && hasGin(handAfterDiscard);
 
   // Lay-off detection: am I the non-knocker in knocking/laying_off phase?
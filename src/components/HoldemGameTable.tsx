@@ -0,0 +1,672 @@
+// Texas Hold'em Game Table - Mobile layout following GinRummyGameTable pattern
+// Circular felt with the board (CommunityCards), seats around the rim, betting controls below.
+// Each bet flies from the seat into the pot (ChipTransferAnimation, with the pot as the target
+// seat) and each winner's share from the pot to the seat (PotToPlayerAnimation).
+//
+// rounds.game_state carries no hole cards: each client reads its own from player_cards,
+// bots' are read for their decisions, and everyone's once the round reaches the showdown.
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useWakeLock } from '@/hooks/useWakeLock';
+import type { Card } from '@/lib/cardUtils';
+import type { HoldemState } from '@/lib/holdemTypes';
+import { holdemModule, type HoldemAction } from '@/lib/holdemModule';
+import { getHoldemBetLimits, getHoldemPotTotal } from '@/lib/holdemGameLogic';
+import {
+  endHoldemGame,
+  fetchHoldemHoleCards,
+  getHoldemPlayersWithChips,
+  recordHoldemHandResult,
+  startNextHoldemHand,
+  updateHoldemState,
+} from '@/lib/holdemRoundLogic';
+import { logModuleAction, recordDraws } from '@/lib/handActionLog';
+import { runWithServerDeck } from '@/lib/handFairness';
+import { CommunityCards } from './CommunityCards';
+import { PlayingCard } from './PlayingCard';
+import { ChipStack } from './ChipStack';
+import { ChipChangeIndicator } from './ChipChangeIndicator';
+import { ChipTransferAnimation } from './ChipTransferAnimation';
+import { PotToPlayerAnimation } from './PotToPlayerAnimation';
+import { MobileChatPanel } from './MobileChatPanel';
+import { HandHistory } from './HandHistory';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { useVisualPreferences } from '@/hooks/useVisualPreferences';
+import { useGameChat } from '@/hooks/useGameChat';
+import { cn, formatChipValue } from '@/lib/utils';
+import { getDisplayName } from '@/lib/botAlias';
+import peoriaBridgeMobile from '@/assets/peoria-bridge-mobile.jpg';
+import { MessageSquare, Clock, Spade } from 'lucide-react';
+
+interface Player {
+  id: string;
+  user_id: string;
+  position: number;
+  chips: number;
+  is_bot?: boolean;
+  profiles?: { username: string };
+}
+
+interface HoldemGameTableProps {
+  gameId: string;
+  roundId: string;
+  dealerGameId: string | null;
+  players: Player[];
+  currentUserId: string;
+  isGameOver: boolean;
+  onGameComplete: () => void;
+  onRefetch: () => void;
+}
+
+/** The pot's "seat" for ChipTransferAnimation (real seats are 1-7) */
+const POT_POSITION = 0;
+
+// Seat spots around the felt, as % of its size; the viewer sits at the bottom
+function getSeatSpot(index: number, count: number): { left: string; top: string } {
+  const angle = Math.PI / 2 + (index / count) * Math.PI * 2;
+  return {
+    left: `${50 + Math.cos(angle) * 40}%`,
+    top: `${50 + Math.sin(angle) * 40}%`,
+  };
+}
+
+export const HoldemGameTable = ({
+  gameId,
+  roundId,
+  dealerGameId,
+  players,
+  currentUserId,
+  isGameOver,
+  onGameComplete,
+  onRefetch,
+}: HoldemGameTableProps) => {
+  const { getTableColors } = useVisualPreferences();
+  const tableColors = getTableColors();
+
+  // Prevent screen from dimming during gameplay
+  useWakeLock(true);
+
+  const { allMessages, sendMessage, isSending: isChatSending } = useGameChat(gameId, players, currentUserId);
+
+  const [holdemState, setHoldemState] = useState<HoldemState | null>(null);
+  const [myHoleCards, setMyHoleCards] = useState<Card[]>([]);
+  const [raiseTo, setRaiseTo] = useState(0);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [activeTab, setActiveTab] = useState<'cards' | 'chat' | 'history'>('cards');
+  // Polls right after a local write can still return the state from before it
+  const optimisticUntilRef = useRef(0);
+  const feltRef = useRef<HTMLDivElement>(null);
+
+  const currentPlayer = players.find(p => p.user_id === currentUserId);
+  const currentPlayerId = currentPlayer?.id;
+
+  // Reset per-hand state when a new hand is dealt
+  useEffect(() => {
+    setHoldemState(null);
+    setMyHoleCards([]);
+  }, [roundId]);
+
+  // Realtime subscription + polling fallback (same as gin rummy)
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!roundId) return;
+    let isActive = true;
+
+    const applyState = (state: HoldemState, source: string) => {
+      if (!isActive) return;
+      if (source === 'poll' && Date.now() < optimisticUntilRef.current) return;
+      setHoldemState(state);
+    };
+
+    const channel = supabase
+      .channel(`holdem-${roundId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'rounds',
+          filter: `id=eq.${roundId}`,
+        },
+        (payload) => {
+          const newData = payload.new as { game_state?: HoldemState };
+          if (newData.game_state) {
+            applyState(newData.game_state, 'realtime');
+          }
+        }
+      )
+      .subscribe();
+
+    const poll = async () => {
+      if (!isActive) return;
+
+      try {
+        const { data } = await supabase
+          .from('rounds')
+          .select('game_state')
+          .eq('id', roundId)
+          .maybeSingle();
+
+        if (data?.game_state && isActive) {
+          applyState(data.game_state as unknown as HoldemState, 'poll');
+        }
+      } catch {
+        // Silent fail
+      }
+
+      if (isActive) {
+        pollTimerRef.current = setTimeout(poll, 1500);
+      }
+    };
+
+    // The first poll loads the hand
+    pollTimerRef.current = setTimeout(poll, 0);
+
+    return () => {
+      isActive = false;
+      if (pollTimerRef.current) clearTimeout(pollTimerRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [roundId]);
+
+  // My hole cards (player_cards is written just after the round row, so retry until they land)
+  useEffect(() => {
+    if (!roundId || !currentPlayerId || myHoleCards.length > 0) return;
+    if (!holdemState?.seatOrder.includes(currentPlayerId)) return;
+
+    let cancelled = false;
+    const load = async () => {
+      const cards = await fetchHoldemHoleCards(roundId, currentPlayerId);
+      if (cancelled) return;
+      if (cards.length > 0) setMyHoleCards(cards);
+      else setTimeout(load, 1000);
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [roundId, currentPlayerId, holdemState?.seatOrder, myHoleCards.length]);
+
+  // Apply an action to the stored (public) state and write it back. An action that opens a
+  // street turns its board cards off the top of the hand's deck on the server; the values
+  // drawn go into the action log for replays.
+  const dispatch = useCallback(async (state: HoldemState, action: HoldemAction) => {
+    const { next, draws } = await runWithServerDeck(
+      gameId,
+      52,
+      deck => {
+        const { random, draws } = recordDraws(deck);
+        return { next: holdemModule.reduce(state, action, random), draws };
+      },
+      ({ next }) => next.communityCards.length - state.communityCards.length
+    );
+    void logModuleAction(roundId, state, action, draws);
+    optimisticUntilRef.current = Date.now() + 1500;
+    setHoldemState(next);
+    await updateHoldemState(roundId, next);
+  }, [gameId, roundId]);
+
+  const fetchStoredState = useCallback(async (): Promise<HoldemState | null> => {
+    const { data } = await supabase
+      .from('rounds')
+      .select('game_state')
+      .eq('id', roundId)
+      .maybeSingle();
+    return (data?.game_state as unknown as HoldemState | null) ?? null;
+  }, [roundId]);
+
+  // ─── Bot Action Loop ────────────────────────────────────────────
+  const botActionInProgress = useRef(false);
+
+  useEffect(() => {
+    if (!holdemState || holdemState.phase !== 'betting' || botActionInProgress.current) return;
+
+    const botId = holdemState.currentTurnPlayerId;
+    if (!botId || !players.find(p => p.id === botId)?.is_bot) return;
+
+    const runBotAction = async () => {
+      if (botActionInProgress.current) return;
+      botActionInProgress.current = true;
+
+      try {
+        // Add a human-like delay
+        await new Promise(resolve => setTimeout(resolve, 800 + Math.random() * 600));
+
+        // Re-fetch latest state to prevent stale-closure issues
+        const state = await fetchStoredState();
+        if (!state || state.phase !== 'betting' || state.currentTurnPlayerId !== botId) return;
+
+        // The bot decides holding its cards; the stored state never gets them
+        const holeCards = await fetchHoldemHoleCards(roundId, botId);
+        const withCards: HoldemState = {
+          ...state,
+          playerStates: { ...state.playerStates, [botId]: { ...state.playerStates[botId], holeCards } },
+        };
+        const action = holdemModule.botAction(withCards, botId);
+        if (action) await dispatch(state, action);
+      } catch (err) {
+        console.error('[HOLDEM BOT] Error:', err);
+      } finally {
+        botActionInProgress.current = false;
+      }
+    };
+
+    const timeout = setTimeout(runBotAction, 300);
+    return () => clearTimeout(timeout);
+  }, [holdemState, players, roundId, dispatch, fetchStoredState]);
+
+  // ─── Showdown ───────────────────────────────────────────────────
+  // The round's showdown status opens player_cards, so any client can turn the next hand up
+  const showInProgress = useRef(false);
+
+  useEffect(() => {
+    if (!holdemState || holdemState.phase !== 'showdown' || showInProgress.current) return;
+    const showingId = holdemState.currentTurnPlayerId;
+    if (!showingId) return;
+
+    const timeout = setTimeout(async () => {
+      if (showInProgress.current) return;
+      showInProgress.current = true;
+      try {
+        const state = await fetchStoredState();
+        if (!state || state.phase !== 'showdown' || state.currentTurnPlayerId !== showingId) return;
+        const holeCards = await fetchHoldemHoleCards(roundId, showingId);
+        if (holeCards.length === 2) {
+          await dispatch(state, { type: 'show', playerId: showingId, holeCards });
+        }
+      } catch (err) {
+        console.error('[HOLDEM] Showdown error:', err);
+      } finally {
+        showInProgress.current = false;
+      }
+    }, 900);
+    return () => clearTimeout(timeout);
+  }, [holdemState, roundId, dispatch, fetchStoredState]);
+
+  // ─── Chip Animations ────────────────────────────────────────────
+  // Chips a player puts in fly to the pot; when the hand completes each winner's share flies
+  // back out, one winner after another
+  const [playerToPot, setPlayerToPot] = useState<{ triggerId: string; amount: number; position: number; playerId: string } | null>(null);
+  const [potAwards, setPotAwards] = useState<{ triggerId: string; amount: number; position: number }[]>([]);
+  const seenStateRef = useRef<{ roundId: string; state: HoldemState } | null>(null);
+
+  useEffect(() => {
+    if (!holdemState) return;
+    const seen = seenStateRef.current;
+    seenStateRef.current = { roundId, state: holdemState };
+    // No animations for chips already in when the table loaded
+    if (!seen || seen.roundId !== roundId || seen.state === holdemState) return;
+
+    const actorId = holdemState.lastAction?.playerId;
+    const before = actorId ? seen.state.playerStates[actorId] : undefined;
+    const after = actorId ? holdemState.playerStates[actorId] : undefined;
+    const position = players.find(p => p.id === actorId)?.position;
+    if (actorId && before && after && position !== undefined && after.totalBet > before.totalBet) {
+      setPlayerToPot({
+        triggerId: `holdem-bet-${roundId}-${after.totalBet}-${actorId}`,
+        amount: after.totalBet - before.totalBet,
+        position,
+        playerId: actorId,
+      });
+    }
+
+    if (holdemState.phase === 'complete' && seen.state.phase !== 'complete') {
+      const awards = Object.values(holdemState.playerStates).flatMap(ps => {
+        // What was left behind after the bets, plus what came back from the pots
+        const won = ps.stack - (ps.startingStack - ps.totalBet);
+        const seat = players.find(p => p.id === ps.playerId)?.position;
+        return won > 0 && seat !== undefined
+          ? [{ triggerId: `holdem-pot-${roundId}-${ps.playerId}`, amount: won, position: seat }]
+          : [];
+      });
+      setPotAwards(awards);
+    }
+  }, [holdemState, roundId, players]);
+
+  const getClockwiseDistance = useCallback((position: number) => {
+    const myPosition = currentPlayer?.position ?? 1;
+    return (position - myPosition + 7) % 7;
+  }, [currentPlayer?.position]);
+
+  // ─── Hand Completion & Next Hand ──────────────────────────────
+  // Refs so a parent re-render doesn't restart the completion sequence
+  const onGameCompleteRef = useRef(onGameComplete);
+  const onRefetchRef = useRef(onRefetch);
+  useEffect(() => {
+    onGameCompleteRef.current = onGameComplete;
+    onRefetchRef.current = onRefetch;
+  }, [onGameComplete, onRefetch]);
+  const completedRoundRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!holdemState || holdemState.phase !== 'complete' || completedRoundRef.current === roundId) return;
+    if (!dealerGameId || isGameOver) return;
+
+    completedRoundRef.current = roundId;
+
+    const processCompletion = async () => {
+      try {
+        // Let everyone see who won the pot before chips move
+        await new Promise(resolve => setTimeout(resolve, 3000));
+        await recordHoldemHandResult(gameId, roundId, holdemState);
+
+        if (getHoldemPlayersWithChips(holdemState).length >= 2) {
+          const result = await startNextHoldemHand(gameId, dealerGameId, holdemState);
+          if (result.success) {
+            onRefetchRef.current();
+            return;
+          }
+        }
+
+        await endHoldemGame(gameId, holdemState);
+        onGameCompleteRef.current();
+      } catch (err) {
+        console.error('[HOLDEM] Hand completion error:', err);
+      }
+    };
+
+    processCompletion();
+  }, [holdemState, roundId, dealerGameId, gameId, isGameOver]);
+
+  const getPlayerUsername = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    if (!player) return '';
+    return getDisplayName(players, player, player.profiles?.username || 'Player');
+  };
+
+  const isMyTurn = !!holdemState && holdemState.phase === 'betting' && holdemState.currentTurnPlayerId === currentPlayerId;
+  const limits = isMyTurn && currentPlayerId ? getHoldemBetLimits(holdemState, currentPlayerId) : null;
+
+  // Start the raise slider at the minimum each time the turn comes round
+  const minRaiseTo = limits?.minRaiseTo;
+  useEffect(() => {
+    if (minRaiseTo !== undefined) setRaiseTo(minRaiseTo);
+  }, [minRaiseTo, isMyTurn]);
+
+  const handleAction = async (action: HoldemAction) => {
+    if (!holdemState || isProcessing) return;
+    setIsProcessing(true);
+    try {
+      await dispatch(holdemState, action);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (!holdemState || !roundId) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center bg-slate-900">
+        <p className="text-sm font-bold text-poker-gold animate-pulse">
+          {roundId ? "Shuffling up and dealing..." : 'Awaiting buy-ins...'}
+        </p>
+      </div>
+    );
+  }
+
+  // Seats clockwise starting with the viewer at the bottom
+  const seats = [...players]
+    .filter(p => holdemState.playerStates[p.id])
+    .sort((a, b) => a.position - b.position);
+  const myIndex = seats.findIndex(p => p.id === currentPlayerId);
+  const orderedSeats = myIndex > 0 ? [...seats.slice(myIndex), ...seats.slice(0, myIndex)] : seats;
+
+  const pot = getHoldemPotTotal(holdemState);
+  const myState = currentPlayerId ? holdemState.playerStates[currentPlayerId] : undefined;
+  const betLabel = holdemState.currentBet === 0 ? 'Bet' : 'Raise to';
+
+  const resultLines = (holdemState.results ?? []).map((potResult, i) => {
+    const names = potResult.winnerIds.map(getPlayerUsername).join(' & ');
+    const potName = holdemState.results!.length > 1 ? (i === 0 ? 'Main pot' : `Side pot ${i}`) : 'Pot';
+    const split = potResult.winnerIds.length > 1 ? ' (split)' : '';
+    return `${potName} $${formatChipValue(potResult.amount)}${split}: ${names}${potResult.handDescription ? ` - ${potResult.handDescription}` : ''}`;
+  });
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Felt Area */}
+      <div
+        className="relative flex items-start justify-center pt-1"
+        style={{
+          height: 'calc(min(90vw, calc(55vh - 32px)) + 10px)',
+          minHeight: '300px',
+        }}
+      >
+        <div className="absolute inset-0 bg-slate-200 z-0" />
+
+        <div
+          ref={feltRef}
+          className="relative z-10"
+          style={{
+            width: 'min(90vw, calc(55vh - 32px))',
+            height: 'min(90vw, calc(55vh - 32px))',
+          }}
+        >
+          <div
+            className="absolute inset-0 rounded-full overflow-hidden border-2 border-white/80"
+            style={
+              tableColors.showBridge
+                ? { backgroundImage: `url(${peoriaBridgeMobile})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+                : { background: `radial-gradient(ellipse at center, ${tableColors.color} 0%, ${tableColors.darkColor} 100%)` }
+            }
+          />
+
+          {/* Board: dealt street by street */}
+          {holdemState.communityCards.length > 0 && (
+            <CommunityCards cards={holdemState.communityCards} revealed={holdemState.communityCards.length} />
+          )}
+
+          {/* Pot - bets fly in here; the payouts start from the middle of the felt */}
+          <div className="absolute left-1/2 top-[58%] -translate-x-1/2 z-20 flex flex-col items-center">
+            <div data-chip-center={POT_POSITION}>
+              <ChipStack amount={pot} size="sm" />
+            </div>
+            <span className="text-xs font-bold text-poker-gold">Pot ${formatChipValue(pot)}</span>
+          </div>
+
+          {/* Seats */}
+          {orderedSeats.map((player, i) => {
+            const ps = holdemState.playerStates[player.id];
+            const spot = getSeatSpot(i, orderedSeats.length);
+            const isTurn = holdemState.currentTurnPlayerId === player.id && holdemState.phase !== 'complete';
+            const isWinner = holdemState.results?.some(r => r.winnerIds.includes(player.id));
+            const showCards = ps.holeCards.length > 0;
+            const isMe = player.id === currentPlayerId;
+
+            return (
+              <div
+                key={player.id}
+                className="absolute z-30 -translate-x-1/2 -translate-y-1/2 flex flex-col items-center"
+                style={spot}
+              >
+                {!isMe && !ps.folded && (
+                  <div className="flex -space-x-2 mb-0.5">
+                    {[0, 1].map(c => (
+                      <PlayingCard key={c} card={ps.holeCards[c]} isHidden={!showCards} size="sm" />
+                    ))}
+                  </div>
+                )}
+                <div
+                  data-chip-center={player.position}
+                  className={cn(
+                    'rounded-lg px-2 py-0.5 bg-black/70 border text-center min-w-[64px]',
+                    isTurn ? 'border-yellow-400 animate-pulse' : isWinner ? 'border-green-400' : 'border-white/20',
+                    ps.folded && 'opacity-40'
+                  )}
+                >
+                  <div className="flex items-center justify-center gap-1">
+                    {holdemState.dealerPlayerId === player.id && (
+                      <span className="w-4 h-4 rounded-full bg-red-600 border border-white text-[9px] font-bold text-white flex items-center justify-center">D</span>
+                    )}
+                    <span className="text-[11px] font-semibold text-white truncate max-w-[70px]">
+                      {getPlayerUsername(player.id)}
+                    </span>
+                  </div>
+                  <div className="text-[11px] text-poker-gold font-bold">
+                    {ps.allIn ? 'ALL IN' : `$${formatChipValue(ps.stack)}`}
+                  </div>
+                </div>
+                {ps.streetBet > 0 && holdemState.phase === 'betting' && (
+                  <span className="mt-0.5 text-[10px] font-bold text-amber-200 bg-black/50 rounded px-1">
+                    ${formatChipValue(ps.streetBet)}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+
+          <PotToPlayerAnimation
+            triggerId={potAwards[0]?.triggerId ?? null}
+            amount={potAwards[0]?.amount ?? 0}
+            winnerPosition={potAwards[0]?.position ?? 0}
+            currentPlayerPosition={currentPlayer?.position ?? null}
+            getClockwiseDistance={getClockwiseDistance}
+            containerRef={feltRef}
+            gameType="holdem"
+            onAnimationEnd={() => setPotAwards(awards => awards.slice(1))}
+          />
+          <ChipTransferAnimation
+            triggerId={playerToPot?.triggerId ?? null}
+            amount={playerToPot?.amount ?? 0}
+            winnerPosition={POT_POSITION}
+            loserPositions={playerToPot ? [playerToPot.position] : []}
+            loserPlayerIds={playerToPot ? [playerToPot.playerId] : []}
+            currentPlayerPosition={currentPlayer?.position ?? null}
+            getClockwiseDistance={getClockwiseDistance}
+            containerRef={feltRef}
+            onAnimationEnd={() => setPlayerToPot(null)}
+          />
+        </div>
+      </div>
+
+      {/* Bottom section */}
+      <div className="flex-1 min-h-0 flex flex-col bg-gradient-to-t from-background via-background to-background/95 border-t border-border overflow-hidden">
+        {/* Status */}
+        <div className="min-h-[44px] shrink-0 flex items-center justify-center px-4">
+          {holdemState.phase === 'complete' ? (
+            <div className="w-full bg-poker-gold/95 rounded-lg px-3 py-1.5 shadow-xl border-2 border-amber-900">
+              {resultLines.map(line => (
+                <p key={line} className="text-slate-900 font-bold text-xs text-center truncate">{line}</p>
+              ))}
+            </div>
+          ) : holdemState.phase === 'showdown' ? (
+            <span className="text-sm font-semibold text-amber-400 animate-pulse">Showdown</span>
+          ) : holdemState.currentTurnPlayerId ? (
+            <span className="text-sm text-foreground font-medium">
+              {isMyTurn ? 'Your turn' : `${getPlayerUsername(holdemState.currentTurnPlayerId)}'s turn`}
+            </span>
+          ) : null}
+        </div>
+
+        {/* Tab navigation */}
+        <div className="flex items-center justify-center gap-1 px-4 py-1.5 border-b border-border/50">
+          {([
+            ['cards', Spade],
+            ['chat', MessageSquare],
+            ['history', Clock],
+          ] as const).map(([tab, Icon]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={cn(
+                'flex-1 flex items-center justify-center py-2 px-3 rounded-md transition-all',
+                activeTab === tab ? 'bg-primary/20 text-foreground' : 'text-muted-foreground/50 hover:text-muted-foreground',
+                tab === 'cards' && isMyTurn && activeTab !== 'cards' && 'animate-pulse ring-2 ring-red-500'
+              )}
+            >
+              <Icon className="w-5 h-5" />
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'cards' && (
+          <div className="px-3 flex-1 min-h-0 overflow-y-auto">
+            {/* My hole cards */}
+            {myState && (
+              <div className={cn('flex items-center justify-center gap-1 py-2', myState.folded && 'opacity-40')}>
+                {myHoleCards.map((card, i) => (
+                  <PlayingCard key={i} card={card} size="xl" />
+                ))}
+              </div>
+            )}
+
+            {/* Betting controls */}
+            {limits && (
+              <div className="space-y-2 pb-2">
+                <div className="grid grid-cols-3 gap-2">
+                  <Button variant="destructive" disabled={isProcessing} onClick={() => handleAction({ type: 'fold', playerId: currentPlayerId! })}>
+                    Fold
+                  </Button>
+                  {limits.canCheck ? (
+                    <Button variant="secondary" disabled={isProcessing} onClick={() => handleAction({ type: 'check', playerId: currentPlayerId! })}>
+                      Check
+                    </Button>
+                  ) : (
+                    <Button variant="secondary" disabled={isProcessing} onClick={() => handleAction({ type: 'call', playerId: currentPlayerId! })}>
+                      Call ${formatChipValue(Math.min(limits.toCall, myState?.stack ?? 0))}
+                    </Button>
+                  )}
+                  <Button
+                    disabled={isProcessing || !limits.canRaise}
+                    onClick={() => handleAction({
+                      type: holdemState.currentBet === 0 ? 'bet' : 'raise',
+                      playerId: currentPlayerId!,
+                      amount: raiseTo,
+                    })}
+                  >
+                    {raiseTo === limits.maxRaiseTo ? 'All in' : `${betLabel} $${formatChipValue(raiseTo)}`}
+                  </Button>
+                </div>
+                {limits.canRaise && limits.maxRaiseTo > limits.minRaiseTo && (
+                  <Slider
+                    min={limits.minRaiseTo}
+                    max={limits.maxRaiseTo}
+                    step={1}
+                    value={[raiseTo]}
+                    onValueChange={([value]) => setRaiseTo(value)}
+                  />
+                )}
+              </div>
+            )}
+
+            {/* Player info */}
+            {currentPlayer && (
+              <div className="relative flex items-center justify-center gap-2 py-2">
+                <p className="text-sm font-semibold text-foreground">{currentPlayer.profiles?.username || 'You'}</p>
+                <span className={cn('font-bold text-lg', currentPlayer.chips < 0 ? 'text-destructive' : 'text-poker-gold')}>
+                  {formatChipValue(currentPlayer.chips)}
+                </span>
+                <ChipChangeIndicator currentChips={currentPlayer.chips} playerId={currentPlayer.id} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'chat' && (
+          <div className="flex-1 min-h-0 flex flex-col">
+            <MobileChatPanel
+              messages={allMessages}
+              onSend={sendMessage}
+              isSending={isChatSending}
+              currentUserId={currentUserId}
+            />
+          </div>
+        )}
+
+        {activeTab === 'history' && (
+          <div className="flex-1 overflow-y-auto">
+            <HandHistory
+              gameId={gameId}
+              currentUserId={currentUserId}
+              currentPlayerId={currentPlayerId}
+              gameType="holdem"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
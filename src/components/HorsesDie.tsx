@@ -13,6 +13,7 @@ interface HorsesDieProps {
   forceWhiteBackground?: boolean; // Force white background (for Beat: badge cargo dice)
   isUnusedDie?: boolean; // Whether this is an auto-locked die NOT used in final hand (reddish overlay for NQ cargo)
   isCargoDie?: boolean; // Whether this is a cargo die on a qualifying SCC hand (light blue shading)
+  renderFace?: (value: number) => React.ReactNode; // Drawn in place of the pips (Left Right Center's lettered dice)
 }
 
 export function HorsesDie({
@@ -27,6 +28,7 @@ export function HorsesDie({
   forceWhiteBackground = false,
   isUnusedDie = false,
   isCargoDie = false,
+  renderFace,
 }: HorsesDieProps) {
   // Track the displayed value during roll animation
   const [displayValue, setDisplayValue] = useState(value);
@@ -97,6 +99,14 @@ export function HorsesDie({
       );
     }
 
+    if (renderFace) {
+      return (
+        <div className="flex items-center justify-center w-full h-full">
+          {renderFace(v)}
+        </div>
+      );
+    }
+
     const dotClass = cn(
       dotSize,
       "rounded-full bg-foreground/90",
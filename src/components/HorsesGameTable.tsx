@@ -46,7 +46,9 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { getBotAlias } from "@/lib/botAlias";
 import { snapshotPlayerChips } from "@/lib/gameLogic";
+import { drawFairDiceRandom } from "@/lib/handFairness";
 import { logDiceEvent, logStateMismatch, logRaceConditionGuard, logDealerAnnouncement } from "@/lib/gameStateDebugLog";
+import { isGameType } from "@/lib/gameTypes";
 
 interface Player {
   id: string;
@@ -164,11 +166,11 @@ export function HorsesGameTable({
   isPaused = false,
 }: HorsesGameTableProps) {
   // Determine display title based on game type
-  const gameTitle = gameType === 'ship-captain-crew' ? 'Ship' : 'Horses';
+  const gameTitle = isGameType(gameType, 'ship-captain-crew') ? 'Ship' : 'Horses';
   const isMobile = useIsMobile();
 
   // Determine if this is an SCC game
-  const isSCC = gameType === 'ship-captain-crew';
+  const isSCC = isGameType(gameType, 'ship-captain-crew');
 
   // Local state for dice rolling animation (use union type for both game types)
   const [localHand, setLocalHand] = useState<HorsesHand | SCCHand>(() => 
@@ -594,7 +596,7 @@ export function HorsesGameTable({
       };
 
       // Initialize each player's state based on game type
-      const isSCC = gameType === 'ship-captain-crew';
+      const isSCC = isGameType(gameType, 'ship-captain-crew');
       order.forEach(playerId => {
         const initHand = isSCC ? createInitialSCCHand() : createInitialHand();
         initialState.playerStates[playerId] = {
@@ -763,9 +765,10 @@ export function HorsesGameTable({
     const heldMaskBeforeRoll = localHand.dice.map((d) => d.isHeld);
 
     // Roll immediately so the animation displays the NEW dice values (prevents old->new flash)
+    const random = await drawFairDiceRandom(gameId, localHand.dice);
     const newHand = isSCC 
-      ? rollSCCDice(localHand as SCCHand)
-      : rollDice(localHand as HorsesHand);
+      ? rollSCCDice(localHand as SCCHand, random)
+      : rollDice(localHand as HorsesHand, random);
     console.log(`[ROLL_DEBUG_DESKTOP] newHand dice: [${(newHand.dice as any[]).map((d: any) => d.value).join(',')}], rollsRemaining=${newHand.rollsRemaining}`);
 
      setIsRolling(true);
@@ -820,7 +823,7 @@ export function HorsesGameTable({
        }
        // Note: intermediate rolls already saved immediately above, no need to save again here
      }, animationDuration);
-  }, [isMyTurn, localHand, saveMyState, advanceToNextTurn, myPlayer?.id, isSCC]);
+  }, [isMyTurn, localHand, saveMyState, advanceToNextTurn, myPlayer?.id, isSCC, gameId]);
 
   // Handle toggle hold - SCC has auto-freeze for 6-5-4, humans cannot toggle SCC dice
   const handleToggleHold = useCallback((index: number) => {
@@ -1008,7 +1011,7 @@ export function HorsesGameTable({
             : horsesState;
 
         // Initialize bot hand based on game type
-        const isSCCGame = gameType === 'ship-captain-crew';
+        const isSCCGame = isGameType(gameType, 'ship-captain-crew');
         let botHand: HorsesHand | SCCHand = stateForWrites?.playerStates?.[botId]
           ? (isSCCGame 
               ? reconstructSCCHand(
@@ -1042,9 +1045,10 @@ export function HorsesGameTable({
           await new Promise((resolve) => setTimeout(resolve, 250));
 
           // Roll immediately so the fly-in animation "lands" on the NEW values (prevents old->new flash)
+          const random = await drawFairDiceRandom(gameId, botHand.dice);
           const rolledHand = isSCCGame
-            ? rollSCCDice(botHand as SCCHand)
-            : rollDice(botHand as HorsesHand);
+            ? rollSCCDice(botHand as SCCHand, random)
+            : rollDice(botHand as HorsesHand, random);
 
           // Show "rolling" animation (using rolled values so we don't flash old dice after animation)
           setBotDisplayState({
@@ -1335,7 +1339,7 @@ export function HorsesGameTable({
           pot_won: 0, // No chips awarded in a rollover
           player_chip_changes: {}, // Empty - no chip movements
           is_chopped: true,
-          game_type: gameType === "ship-captain-crew" ? "ship-captain-crew" : "horses",
+          game_type: isGameType(gameType, 'ship-captain-crew') ? "ship-captain-crew" : "horses",
           dealer_game_id: currentGameUuid,
         });
 
@@ -1416,7 +1420,7 @@ export function HorsesGameTable({
         pot_won: actualPot,
         player_chip_changes: chipChanges,
         is_chopped: false,
-        game_type: gameType === "ship-captain-crew" ? "ship-captain-crew" : "horses",
+        game_type: isGameType(gameType, 'ship-captain-crew') ? "ship-captain-crew" : "horses",
         dealer_game_id: currentGameUuid,
       });
 
@@ -15,6 +15,7 @@ import { useHorsesMobileController } from "@/hooks/useHorsesMobileController";
 import { EmoticonOverlay } from "@/hooks/useChipStackEmoticons";
 import { useDeviceSize } from "@/hooks/useDeviceSize";
 import { supabase } from "@/integrations/supabase/client";
+import { isGameType } from "@/lib/gameTypes";
 
 // Active-player dice roll mask durations (matches useHorsesMobileController constants)
 const ACTIVE_FIRST_ROLL_MS = 1300;   // Roll 1: ~1.3s
@@ -187,7 +188,7 @@ export function HorsesMobileCardsTab({
     horses.completedTurnHold && 
     (horses.completedTurnHold.expiresAt - Date.now() < 1500);
 
-  const isSCC = gameType === "ship-captain-crew";
+  const isSCC = isGameType(gameType, 'ship-captain-crew');
 
   // STICKY RESULT: Cache the result so it persists through game phase transitions (win animation)
   // Once I've completed my turn, keep showing my result badge until a new round starts
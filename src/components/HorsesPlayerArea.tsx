@@ -6,6 +6,7 @@ import { HorsesDie } from "./HorsesDie";
 import { HorsesHandResultDisplay } from "./HorsesHandResultDisplay";
 import { cn } from "@/lib/utils";
 import { Dice5 } from "lucide-react";
+import { isGameType } from "@/lib/gameTypes";
 
 // Union type for dice and hand results to support both Horses and SCC games
 type DiceGameHandResult = HorsesHandResult | SCCHandResult;
@@ -62,7 +63,7 @@ export function HorsesPlayerArea({
   
   // For Horses: hide username/seat when showing completed hand result to save space
   // CRITICAL: Only show compact result when we have a valid description to prevent flicker
-  const showCompactResult = gameType === 'horses' && hasTurnCompleted && effectiveResult?.description;
+  const showCompactResult = isGameType(gameType, 'horses') && hasTurnCompleted && effectiveResult?.description;
 
   return (
     <div
@@ -123,7 +124,7 @@ export function HorsesPlayerArea({
             <div className="animate-in fade-in duration-150">
               {diceValues && (
                 <div className="flex gap-1">
-                  {gameType === 'ship-captain-crew' ? (
+                  {isGameType(gameType, 'ship-captain-crew') ? (
                     getSCCDisplayOrder({ dice: diceValues as SCCDieType[] } as SCCHand).map(({ die, originalIndex }) => (
                       <HorsesDie
                         key={originalIndex}
@@ -160,7 +161,7 @@ export function HorsesPlayerArea({
                   isWinningHand && "bg-green-600"
                 )}
               >
-                {gameType === 'horses' ? (
+                {isGameType(gameType, 'horses') ? (
                   <HorsesHandResultDisplay 
                     description={handResult.description} 
                     isWinning={isWinningHand}
@@ -177,7 +178,7 @@ export function HorsesPlayerArea({
       {/* For other players: show completed dice (non-compact, non-Horses) */}
       {!showCompactResult && !isCurrentUser && hasTurnCompleted && diceValues && (
         <div className="flex gap-1 animate-in fade-in duration-150">
-          {gameType === 'ship-captain-crew' ? (
+          {isGameType(gameType, 'ship-captain-crew') ? (
             getSCCDisplayOrder({ dice: diceValues as SCCDieType[] } as SCCHand).map(({ die, originalIndex }) => (
               <HorsesDie
                 key={originalIndex}
@@ -220,7 +221,7 @@ export function HorsesPlayerArea({
                 effectiveResult.isWinning && "bg-green-600"
               )}
             >
-              {gameType === 'horses' ? (
+              {isGameType(gameType, 'horses') ? (
                 <HorsesHandResultDisplay 
                   description={effectiveResult.description} 
                   isWinning={effectiveResult.isWinning}
@@ -0,0 +1,660 @@
+// Left Right Center Game Table - Mobile layout following ScrewYourNeighborGameTable
+// Circular felt with the seats laid out the way TurnSpotlight aims, each with their chips, and
+// the center pot in the middle with the last roll's dice (HorsesDie with lettered faces) under
+// it. When a roll lands its chips fly to the neighbors and the center (ChipTransferAnimation,
+// with the center as seat 0: it carries data-chip-center="0"); a wild's chip flies from the
+// player it was taken from. Every roll goes to the dice audit log.
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useWakeLock } from '@/hooks/useWakeLock';
+import type { LeftRightCenterRoll, LeftRightCenterState } from '@/lib/leftRightCenterTypes';
+import { leftRightCenterModule, type LeftRightCenterAction } from '@/lib/leftRightCenterModule';
+import {
+  getLeftRightCenterDiceCount,
+  getLeftRightCenterFace,
+  getLeftRightCenterLeftNeighbor,
+  getLeftRightCenterRightNeighbor,
+  getLeftRightCenterStealTargets,
+  isLeftRightCenterThreeWilds,
+} from '@/lib/leftRightCenterGameLogic';
+import {
+  endLeftRightCenterGame,
+  recordLeftRightCenterResult,
+  updateLeftRightCenterState,
+} from '@/lib/leftRightCenterRoundLogic';
+import { logModuleAction, recordDraws } from '@/lib/handActionLog';
+import { drawFairDiceRandom } from '@/lib/handFairness';
+import { logDiceRolls } from '@/lib/diceAudit';
+import { HorsesDie } from './HorsesDie';
+import { ChipStack } from './ChipStack';
+import { ChipChangeIndicator } from './ChipChangeIndicator';
+import { ChipTransferAnimation } from './ChipTransferAnimation';
+import { PotToPlayerAnimation } from './PotToPlayerAnimation';
+import { TurnSpotlight } from './TurnSpotlight';
+import { MobileChatPanel } from './MobileChatPanel';
+import { HandHistory } from './HandHistory';
+import { Button } from '@/components/ui/button';
+import { useVisualPreferences } from '@/hooks/useVisualPreferences';
+import { useGameChat } from '@/hooks/useGameChat';
+import { cn, formatChipValue } from '@/lib/utils';
+import { getDisplayName } from '@/lib/botAlias';
+import peoriaBridgeMobile from '@/assets/peoria-bridge-mobile.jpg';
+import { MessageSquare, Clock, Dices } from 'lucide-react';
+
+interface Player {
+  id: string;
+  user_id: string;
+  position: number;
+  chips: number;
+  is_bot?: boolean;
+  profiles?: { username: string };
+}
+
+interface LeftRightCenterGameTableProps {
+  gameId: string;
+  roundId: string;
+  players: Player[];
+  currentUserId: string;
+  anteAmount: number;
+  pot: number;
+  isGameOver: boolean;
+  onGameComplete: () => void;
+}
+
+// Angles TurnSpotlight points at (degrees clockwise from the top): by how many seats
+// clockwise from the viewer, or by absolute seat for observers
+const SLOT_ANGLES: Record<number, number> = { 0: 180, 1: -135, 2: -90, 3: -45, 4: 45, 5: 90, 6: 135 };
+const OBSERVER_ANGLES: Record<number, number> = { 1: -45, 2: -90, 3: -135, 4: 180, 5: 135, 6: 90, 7: 45 };
+
+/** The center pot's "seat" for ChipTransferAnimation (real seats are 1-7) */
+const CENTER_POSITION = 0;
+
+/** How long the dice tumble before a roll's chips move */
+const ROLL_ANIMATION_MS = 700;
+
+interface ChipTransfer {
+  triggerId: string;
+  from: number;
+  to: number;
+  amount: number;
+}
+
+function getSeatSpot(angle: number): { left: string; top: string } {
+  const radians = (angle * Math.PI) / 180;
+  return {
+    left: `${50 + Math.sin(radians) * 38}%`,
+    top: `${50 - Math.cos(radians) * 38}%`,
+  };
+}
+
+export const LeftRightCenterGameTable = ({
+  gameId,
+  roundId,
+  players,
+  currentUserId,
+  anteAmount,
+  pot,
+  isGameOver,
+  onGameComplete,
+}: LeftRightCenterGameTableProps) => {
+  const { getTableColors } = useVisualPreferences();
+  const tableColors = getTableColors();
+
+  // Prevent screen from dimming during gameplay
+  useWakeLock(true);
+
+  const { allMessages, sendMessage, isSending: isChatSending } = useGameChat(gameId, players, currentUserId);
+
+  const [lcrState, setLcrState] = useState<LeftRightCenterState | null>(null);
+  const [turnPosition, setTurnPosition] = useState<number | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isRolling, setIsRolling] = useState(false);
+  const [transfers, setTransfers] = useState<ChipTransfer[]>([]);
+  const [activeTab, setActiveTab] = useState<'dice' | 'chat' | 'history'>('dice');
+  // Polls right after a local write can still return the state from before it
+  const optimisticUntilRef = useRef(0);
+  const feltRef = useRef<HTMLDivElement>(null);
+
+  const currentPlayer = players.find(p => p.user_id === currentUserId);
+  const currentPlayerId = currentPlayer?.id;
+
+  // Reset when a new game is started
+  useEffect(() => {
+    setLcrState(null);
+    setTurnPosition(null);
+  }, [roundId]);
+
+  // Realtime subscription + polling fallback (same as gin rummy)
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!roundId) return;
+    let isActive = true;
+
+    const applyRound = (round: { game_state?: unknown; current_turn_position?: number | null }, source: string) => {
+      if (!isActive || !round.game_state) return;
+      if (source === 'poll' && Date.now() < optimisticUntilRef.current) return;
+      setLcrState(round.game_state as LeftRightCenterState);
+      setTurnPosition(round.current_turn_position ?? null);
+    };
+
+    const channel = supabase
+      .channel(`left-right-center-${roundId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'rounds',
+          filter: `id=eq.${roundId}`,
+        },
+        (payload) => applyRound(payload.new as { game_state?: unknown; current_turn_position?: number | null }, 'realtime')
+      )
+      .subscribe();
+
+    const poll = async () => {
+      if (!isActive) return;
+
+      try {
+        const { data } = await supabase
+          .from('rounds')
+          .select('game_state, current_turn_position')
+          .eq('id', roundId)
+          .maybeSingle();
+
+        if (data) applyRound(data, 'poll');
+      } catch {
+        // Silent fail
+      }
+
+      if (isActive) {
+        pollTimerRef.current = setTimeout(poll, 1500);
+      }
+    };
+
+    // The first poll loads the game
+    pollTimerRef.current = setTimeout(poll, 0);
+
+    return () => {
+      isActive = false;
+      if (pollTimerRef.current) clearTimeout(pollTimerRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [roundId]);
+
+  const getPosition = useCallback(
+    (playerId: string | null) => (playerId ? players.find(p => p.id === playerId)?.position ?? null : null),
+    [players]
+  );
+
+  // Apply an action and write it back with the seat now to act. Real-money games roll from the
+  // hand's committed dice stream; the values drawn go into the action log for replays, and
+  // every die rolled into the dice audit.
+  const dispatch = useCallback(async (state: LeftRightCenterState, action: LeftRightCenterAction) => {
+    const rolledDice = action.type === 'roll'
+      ? Array.from({ length: getLeftRightCenterDiceCount(state, action.playerId) }, () => ({ isHeld: false }))
+      : [];
+    const { random, draws } = recordDraws(await drawFairDiceRandom(gameId, rolledDice));
+    const next = leftRightCenterModule.reduce(state, action, random);
+    const nextPosition = getPosition(next.currentTurnPlayerId);
+    void logModuleAction(roundId, state, action, draws);
+    if (action.type === 'roll') {
+      const roll = next.rolls[next.rolls.length - 1];
+      logDiceRolls(roll.dice, roll.dice.map(() => false), { gameId, roundId, playerId: action.playerId, rollNumber: 1 });
+    }
+    optimisticUntilRef.current = Date.now() + 1500;
+    setLcrState(next);
+    setTurnPosition(nextPosition);
+    await updateLeftRightCenterState(roundId, next, nextPosition);
+  }, [gameId, roundId, getPosition]);
+
+  const fetchStoredState = useCallback(async (): Promise<LeftRightCenterState | null> => {
+    const { data } = await supabase
+      .from('rounds')
+      .select('game_state')
+      .eq('id', roundId)
+      .maybeSingle();
+    return (data?.game_state as unknown as LeftRightCenterState | null) ?? null;
+  }, [roundId]);
+
+  // ─── Bot Action Loop ────────────────────────────────────────────
+  const botActionInProgress = useRef(false);
+
+  useEffect(() => {
+    if (!lcrState || lcrState.phase === 'complete' || botActionInProgress.current) return;
+
+    const botId = lcrState.currentTurnPlayerId;
+    if (!botId || !players.find(p => p.id === botId)?.is_bot) return;
+
+    const runBotAction = async () => {
+      if (botActionInProgress.current) return;
+      botActionInProgress.current = true;
+
+      try {
+        // Add a human-like delay
+        await new Promise(resolve => setTimeout(resolve, 1200 + Math.random() * 800));
+
+        // Re-fetch latest state to prevent stale-closure issues
+        const state = await fetchStoredState();
+        if (!state || state.phase === 'complete' || state.currentTurnPlayerId !== botId) return;
+
+        const action = leftRightCenterModule.botAction(state, botId);
+        if (action) await dispatch(state, action);
+      } catch (err) {
+        console.error('[LCR BOT] Error:', err);
+      } finally {
+        botActionInProgress.current = false;
+      }
+    };
+
+    const timeout = setTimeout(runBotAction, 300);
+    return () => clearTimeout(timeout);
+  }, [lcrState, players, dispatch, fetchStoredState]);
+
+  const getClockwiseDistance = useCallback((position: number) => {
+    const myPosition = currentPlayer?.position ?? 1;
+    return (position - myPosition + 7) % 7;
+  }, [currentPlayer?.position]);
+
+  // ─── Dice and Chip Animations ───────────────────────────────────
+  // What the table has already shown: a new roll tumbles the dice and then moves its chips,
+  // a new steal moves one chip. The first state loaded has nothing to animate.
+  const shownRef = useRef<{ rolls: number; steals: number } | null>(null);
+  const rollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => () => {
+    if (rollTimerRef.current) clearTimeout(rollTimerRef.current);
+  }, []);
+
+  useEffect(() => {
+    if (!lcrState) return;
+    const lastRoll = lcrState.rolls[lcrState.rolls.length - 1];
+    const shown = shownRef.current;
+    shownRef.current = { rolls: lcrState.rolls.length, steals: lastRoll?.stolenFrom.length ?? 0 };
+    if (!shown || !lastRoll) return;
+
+    const rollerPosition = getPosition(lastRoll.playerId);
+    if (rollerPosition === null) return;
+    const key = `${roundId}-${lcrState.rolls.length}`;
+
+    if (lcrState.rolls.length > shown.rolls) {
+      const count = (face: string) => lastRoll.faces.filter(f => f === face).length;
+      const passes: Array<[number | null, number]> = isLeftRightCenterThreeWilds(lastRoll)
+        ? []
+        : [
+            [getPosition(getLeftRightCenterLeftNeighbor(lcrState, lastRoll.playerId)), count('L')],
+            [CENTER_POSITION, count('C')],
+            [getPosition(getLeftRightCenterRightNeighbor(lcrState, lastRoll.playerId)), count('R')],
+          ];
+
+      setIsRolling(true);
+      if (rollTimerRef.current) clearTimeout(rollTimerRef.current);
+      rollTimerRef.current = setTimeout(() => {
+        setIsRolling(false);
+        setTransfers(passes.flatMap(([to, chips], i) =>
+          to === null || chips === 0
+            ? []
+            : [{ triggerId: `lcr-${key}-${i}`, from: rollerPosition, to, amount: chips * anteAmount }]
+        ));
+      }, ROLL_ANIMATION_MS);
+    } else if (lcrState.rolls.length === shown.rolls && lastRoll.stolenFrom.length > shown.steals) {
+      const victimPosition = getPosition(lastRoll.stolenFrom[lastRoll.stolenFrom.length - 1]);
+      if (victimPosition === null) return;
+      setTransfers([{
+        triggerId: `lcr-${key}-steal-${lastRoll.stolenFrom.length}`,
+        from: victimPosition,
+        to: rollerPosition,
+        amount: anteAmount,
+      }]);
+    }
+  }, [lcrState, roundId, anteAmount, getPosition]);
+
+  // ─── Pot to the Winner ──────────────────────────────────────────
+  const [potToPlayer, setPotToPlayer] = useState<{ triggerId: string; amount: number; position: number } | null>(null);
+  const potAnimatedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!lcrState || lcrState.phase !== 'complete' || potAnimatedRef.current === roundId) return;
+    const position = getPosition(lcrState.winnerId);
+    if (position === null || pot <= 0) return;
+
+    potAnimatedRef.current = roundId;
+    setPotToPlayer({ triggerId: `lcr-${roundId}`, amount: pot, position });
+  }, [lcrState, roundId, pot, getPosition]);
+
+  // ─── Game Completion ────────────────────────────────────────────
+  // Ref so a parent re-render doesn't restart the completion sequence
+  const onGameCompleteRef = useRef(onGameComplete);
+  useEffect(() => {
+    onGameCompleteRef.current = onGameComplete;
+  }, [onGameComplete]);
+  const completedRoundRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!lcrState || lcrState.phase !== 'complete' || completedRoundRef.current === roundId) return;
+    if (isGameOver) return;
+
+    completedRoundRef.current = roundId;
+
+    const processCompletion = async () => {
+      try {
+        // Let the last chips land before the pot is paid
+        await new Promise(resolve => setTimeout(resolve, 3500));
+        await recordLeftRightCenterResult(gameId, roundId, lcrState);
+        await endLeftRightCenterGame(gameId);
+        onGameCompleteRef.current();
+      } catch (err) {
+        console.error('[LCR] Game completion error:', err);
+      }
+    };
+
+    processCompletion();
+  }, [lcrState, roundId, gameId, isGameOver]);
+
+  const getPlayerUsername = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    if (!player) return '';
+    return getDisplayName(players, player, player.profiles?.username || 'Player');
+  };
+
+  const handleAction = async (action: LeftRightCenterAction) => {
+    if (!lcrState || isProcessing) return;
+    setIsProcessing(true);
+    try {
+      await dispatch(lcrState, action);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (!lcrState || !roundId) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center bg-slate-900">
+        <p className="text-sm font-bold text-poker-gold animate-pulse">
+          {roundId ? 'Handing out chips...' : 'Awaiting buy-ins...'}
+        </p>
+      </div>
+    );
+  }
+
+  const isComplete = lcrState.phase === 'complete';
+  const isObserver = !currentPlayerId || !lcrState.turnOrder.includes(currentPlayerId);
+  const isMyTurn = !isComplete && lcrState.currentTurnPlayerId === currentPlayerId;
+  const lastRoll = lcrState.rolls[lcrState.rolls.length - 1];
+  const turnName = lcrState.currentTurnPlayerId ? getPlayerUsername(lcrState.currentTurnPlayerId) : '';
+  const myDiceCount = currentPlayerId ? getLeftRightCenterDiceCount(lcrState, currentPlayerId) : 0;
+  const stealTargets = isMyTurn && lcrState.phase === 'stealing' ? getLeftRightCenterStealTargets(lcrState, currentPlayerId!) : [];
+
+  const seats = players.filter(p => lcrState.turnOrder.includes(p.id));
+  const seatAngle = (position: number) =>
+    isObserver || !currentPlayer ? OBSERVER_ANGLES[position] ?? 0 : SLOT_ANGLES[getClockwiseDistance(position)] ?? 0;
+
+  const renderFace = (value: number) => {
+    const face = getLeftRightCenterFace(value, lcrState.wild);
+    if (face === 'dot') return <div className="w-2.5 h-2.5 rounded-full bg-foreground/90" />;
+    if (face === 'wild') return <span className="text-lg font-black text-poker-gold">★</span>;
+    return <span className="text-lg font-black text-foreground">{face}</span>;
+  };
+
+  const describeRoll = (roll: LeftRightCenterRoll) => {
+    const name = getPlayerUsername(roll.playerId);
+    if (isLeftRightCenterThreeWilds(roll)) return `${name} rolled three wilds!`;
+    const faces = roll.faces.map(face => (face === 'dot' ? '•' : face === 'wild' ? '★' : face)).join(' ');
+    const steals = roll.stolenFrom.length > 0 ? ` • took from ${roll.stolenFrom.map(getPlayerUsername).join(', ')}` : '';
+    return `${name} rolled ${faces}${steals}`;
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Felt Area */}
+      <div
+        className="relative flex items-start justify-center pt-1"
+        style={{
+          height: 'calc(min(90vw, calc(55vh - 32px)) + 10px)',
+          minHeight: '300px',
+        }}
+      >
+        <div className="absolute inset-0 bg-slate-200 z-0" />
+
+        <div
+          ref={feltRef}
+          className="relative z-10"
+          style={{
+            width: 'min(90vw, calc(55vh - 32px))',
+            height: 'min(90vw, calc(55vh - 32px))',
+          }}
+        >
+          <div
+            className="absolute inset-0 rounded-full overflow-hidden border-2 border-white/80"
+            style={
+              tableColors.showBridge
+                ? { backgroundImage: `url(${peoriaBridgeMobile})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+                : { background: `radial-gradient(ellipse at center, ${tableColors.color} 0%, ${tableColors.darkColor} 100%)` }
+            }
+          />
+
+          <TurnSpotlight
+            currentTurnPosition={turnPosition}
+            currentPlayerPosition={currentPlayer?.position ?? null}
+            isObserver={isObserver}
+            getClockwiseDistance={getClockwiseDistance}
+            containerRef={feltRef}
+            isVisible={!isComplete}
+          />
+
+          {/* Center pot and the last roll - dead center, where PotToPlayerAnimation starts */}
+          <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-20 flex flex-col items-center gap-1">
+            <div data-chip-center={CENTER_POSITION}>
+              <ChipStack amount={pot} size="sm" />
+            </div>
+            <span className="text-xs font-bold text-poker-gold">
+              Center {lcrState.center} • ${formatChipValue(pot)}
+            </span>
+            {lastRoll && (
+              <div className="flex gap-1">
+                {lastRoll.dice.map((value, i) => (
+                  <HorsesDie
+                    key={i}
+                    value={value}
+                    isHeld={false}
+                    canToggle={false}
+                    isRolling={isRolling}
+                    size="sm"
+                    showWildHighlight={false}
+                    renderFace={renderFace}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Seats */}
+          {seats.map((player) => {
+            const spot = getSeatSpot(seatAngle(player.position));
+            const chips = lcrState.chips[player.id] ?? 0;
+            const isTurn = !isComplete && lcrState.currentTurnPlayerId === player.id;
+            const isWinner = isComplete && lcrState.winnerId === player.id;
+
+            return (
+              <div
+                key={player.id}
+                className="absolute z-[110] -translate-x-1/2 -translate-y-1/2 flex flex-col items-center gap-0.5"
+                style={spot}
+              >
+                <div
+                  data-chip-center={player.position}
+                  className={cn(
+                    'rounded-lg px-2 py-0.5 bg-black/70 border text-center min-w-[64px]',
+                    isTurn ? 'border-yellow-400' : isWinner ? 'border-poker-gold' : 'border-white/20',
+                    chips === 0 && !isComplete && 'opacity-60'
+                  )}
+                >
+                  <div className="flex items-center justify-center gap-1">
+                    {lcrState.dealerPlayerId === player.id && (
+                      <span className="w-4 h-4 rounded-full bg-red-600 border border-white text-[9px] font-bold text-white flex items-center justify-center">D</span>
+                    )}
+                    <span className="text-[11px] font-semibold text-white truncate max-w-[70px]">
+                      {getPlayerUsername(player.id)}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-center gap-0.5">
+                    {Array.from({ length: Math.min(chips, 5) }, (_, i) => (
+                      <span key={i} className="w-2 h-2 rounded-full bg-amber-400 border border-white/70" />
+                    ))}
+                    <span className={cn('text-[10px] font-bold', chips > 0 ? 'text-amber-200' : 'text-white/60')}>
+                      {chips > 5 ? `+${chips - 5}` : chips === 0 ? 'No chips' : ''}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          {transfers.map(transfer => (
+            <ChipTransferAnimation
+              key={transfer.triggerId}
+              triggerId={transfer.triggerId}
+              amount={transfer.amount}
+              winnerPosition={transfer.to}
+              loserPositions={[transfer.from]}
+              loserPlayerIds={[]}
+              currentPlayerPosition={currentPlayer?.position ?? null}
+              getClockwiseDistance={getClockwiseDistance}
+              containerRef={feltRef}
+            />
+          ))}
+
+          <PotToPlayerAnimation
+            triggerId={potToPlayer?.triggerId ?? null}
+            amount={potToPlayer?.amount ?? 0}
+            winnerPosition={potToPlayer?.position ?? 0}
+            currentPlayerPosition={currentPlayer?.position ?? null}
+            getClockwiseDistance={getClockwiseDistance}
+            containerRef={feltRef}
+            gameType="left-right-center"
+            onAnimationEnd={() => setPotToPlayer(null)}
+          />
+        </div>
+      </div>
+
+      {/* Bottom section */}
+      <div className="flex-1 min-h-0 flex flex-col bg-gradient-to-t from-background via-background to-background/95 border-t border-border overflow-hidden">
+        {/* Status */}
+        <div className="min-h-[44px] shrink-0 flex flex-col items-center justify-center px-4">
+          {isComplete ? (
+            <div className="w-full bg-poker-gold/95 rounded-lg px-3 py-1.5 shadow-xl border-2 border-amber-900">
+              <p className="text-slate-900 font-bold text-xs text-center truncate">
+                {lcrState.winnerId ? `${getPlayerUsername(lcrState.winnerId)} wins the center!` : 'Game over'}
+              </p>
+            </div>
+          ) : (
+            <span className="text-sm text-foreground font-medium">
+              {isMyTurn ? 'Your turn' : `${turnName}'s turn`}
+            </span>
+          )}
+          {lastRoll && !isRolling && (
+            <span className="text-[11px] text-muted-foreground truncate max-w-full">{describeRoll(lastRoll)}</span>
+          )}
+        </div>
+
+        {/* Tab navigation */}
+        <div className="flex items-center justify-center gap-1 px-4 py-1.5 border-b border-border/50">
+          {([
+            ['dice', Dices],
+            ['chat', MessageSquare],
+            ['history', Clock],
+          ] as const).map(([tab, Icon]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={cn(
+                'flex-1 flex items-center justify-center py-2 px-3 rounded-md transition-all',
+                activeTab === tab ? 'bg-primary/20 text-foreground' : 'text-muted-foreground/50 hover:text-muted-foreground',
+                tab === 'dice' && isMyTurn && activeTab !== 'dice' && 'animate-pulse ring-2 ring-red-500'
+              )}
+            >
+              <Icon className="w-5 h-5" />
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'dice' && (
+          <div className="px-3 flex-1 min-h-0 overflow-y-auto">
+            {isMyTurn && lcrState.phase === 'rolling' && (
+              <div className="space-y-2 py-2">
+                <Button
+                  className="w-full"
+                  disabled={isProcessing || isRolling}
+                  onClick={() => handleAction({ type: 'roll', playerId: currentPlayerId! })}
+                >
+                  Roll {myDiceCount} {myDiceCount === 1 ? 'Die' : 'Dice'}
+                </Button>
+                <p className="text-[11px] text-center text-muted-foreground">
+                  L passes a chip left • R passes one right • C puts one in the center
+                  {lcrState.wild ? ' • ★ takes a chip from anyone' : ''}
+                </p>
+              </div>
+            )}
+
+            {stealTargets.length > 0 && (
+              <div className="space-y-2 py-2">
+                <p className="text-xs text-center font-semibold text-poker-gold">
+                  Wild! Take a chip from{lcrState.pendingSteals > 1 ? ` (${lcrState.pendingSteals} to take)` : ''}:
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {stealTargets.map(targetId => (
+                    <Button
+                      key={targetId}
+                      variant="secondary"
+                      disabled={isProcessing}
+                      onClick={() => handleAction({ type: 'steal', playerId: currentPlayerId!, targetPlayerId: targetId })}
+                    >
+                      {getPlayerUsername(targetId)} ({lcrState.chips[targetId]})
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Player info */}
+            {currentPlayer && (
+              <div className="relative flex items-center justify-center gap-2 py-2">
+                <p className="text-sm font-semibold text-foreground">{currentPlayer.profiles?.username || 'You'}</p>
+                <span className={cn('font-bold text-lg', currentPlayer.chips < 0 ? 'text-destructive' : 'text-poker-gold')}>
+                  {formatChipValue(currentPlayer.chips)}
+                </span>
+                <ChipChangeIndicator currentChips={currentPlayer.chips} playerId={currentPlayer.id} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'chat' && (
+          <div className="flex-1 min-h-0 flex flex-col">
+            <MobileChatPanel
+              messages={allMessages}
+              onSend={sendMessage}
+              isSending={isChatSending}
+              currentUserId={currentUserId}
+            />
+          </div>
+        )}
+
+        {activeTab === 'history' && (
+          <div className="flex-1 overflow-y-auto">
+            <HandHistory
+              gameId={gameId}
+              currentUserId={currentUserId}
+              currentPlayerId={currentPlayerId}
+              gameType="left-right-center"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
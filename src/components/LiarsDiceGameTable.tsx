@@ -0,0 +1,678 @@
+// Liar's Dice Game Table - Mobile layout following ScrewYourNeighborGameTable
+// Circular felt with the seats laid out the way TurnSpotlight aims (the viewer at the bottom,
+// the rest clockwise by seat), each with their cup, and the pot and the standing bid in the
+// middle. Cups come from player_cards like hold'em's hole cards: everyone sees only their own
+// until a call turns them all up. The bid ladder below the felt lists every legal raise.
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useWakeLock } from '@/hooks/useWakeLock';
+import type { LiarsDiceState } from '@/lib/liarsDiceTypes';
+import { liarsDiceModule, type LiarsDiceAction } from '@/lib/liarsDiceModule';
+import {
+  getLiarsDiceBidLadder,
+  getLiarsDiceCountsAfter,
+  getLiarsDiceSurvivors,
+  getLiarsDiceTotal,
+  isLiarsDiceMatch,
+} from '@/lib/liarsDiceGameLogic';
+import {
+  endLiarsDiceGame,
+  fetchLiarsDiceCup,
+  recordLiarsDiceHandResult,
+  startNextLiarsDiceHand,
+  updateLiarsDiceState,
+} from '@/lib/liarsDiceRoundLogic';
+import { logModuleAction } from '@/lib/handActionLog';
+import { HorsesDie } from './HorsesDie';
+import { ChipStack } from './ChipStack';
+import { ChipChangeIndicator } from './ChipChangeIndicator';
+import { PotToPlayerAnimation } from './PotToPlayerAnimation';
+import { TurnSpotlight } from './TurnSpotlight';
+import { MobileChatPanel } from './MobileChatPanel';
+import { HandHistory } from './HandHistory';
+import { Button } from '@/components/ui/button';
+import { useVisualPreferences } from '@/hooks/useVisualPreferences';
+import { useGameChat } from '@/hooks/useGameChat';
+import { cn, formatChipValue } from '@/lib/utils';
+import { getDisplayName } from '@/lib/botAlias';
+import peoriaBridgeMobile from '@/assets/peoria-bridge-mobile.jpg';
+import { MessageSquare, Clock, Dices } from 'lucide-react';
+
+interface Player {
+  id: string;
+  user_id: string;
+  position: number;
+  chips: number;
+  is_bot?: boolean;
+  profiles?: { username: string };
+}
+
+interface LiarsDiceGameTableProps {
+  gameId: string;
+  roundId: string;
+  dealerGameId: string | null;
+  players: Player[];
+  currentUserId: string;
+  pot: number;
+  isGameOver: boolean;
+  onGameComplete: () => void;
+  onRefetch: () => void;
+}
+
+// Angles TurnSpotlight points at (degrees clockwise from the top): by how many seats
+// clockwise from the viewer, or by absolute seat for observers
+const SLOT_ANGLES: Record<number, number> = { 0: 180, 1: -135, 2: -90, 3: -45, 4: 45, 5: 90, 6: 135 };
+const OBSERVER_ANGLES: Record<number, number> = { 1: -45, 2: -90, 3: -135, 4: 180, 5: 135, 6: 90, 7: 45 };
+
+// Rows of the bid ladder shown at once, from the lowest legal quantity up
+const LADDER_ROWS = 5;
+
+function getSeatSpot(angle: number): { left: string; top: string } {
+  const radians = (angle * Math.PI) / 180;
+  return {
+    left: `${50 + Math.sin(radians) * 38}%`,
+    top: `${50 - Math.cos(radians) * 38}%`,
+  };
+}
+
+export const LiarsDiceGameTable = ({
+  gameId,
+  roundId,
+  dealerGameId,
+  players,
+  currentUserId,
+  pot,
+  isGameOver,
+  onGameComplete,
+  onRefetch,
+}: LiarsDiceGameTableProps) => {
+  const { getTableColors } = useVisualPreferences();
+  const tableColors = getTableColors();
+
+  // Prevent screen from dimming during gameplay
+  useWakeLock(true);
+
+  const { allMessages, sendMessage, isSending: isChatSending } = useGameChat(gameId, players, currentUserId);
+
+  const [ldState, setLdState] = useState<LiarsDiceState | null>(null);
+  const [turnPosition, setTurnPosition] = useState<number | null>(null);
+  const [myCup, setMyCup] = useState<number[]>([]);
+  const [selectedBid, setSelectedBid] = useState<{ quantity: number; face: number } | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [activeTab, setActiveTab] = useState<'dice' | 'chat' | 'history'>('dice');
+  // Polls right after a local write can still return the state from before it
+  const optimisticUntilRef = useRef(0);
+  const feltRef = useRef<HTMLDivElement>(null);
+
+  const currentPlayer = players.find(p => p.user_id === currentUserId);
+  const currentPlayerId = currentPlayer?.id;
+
+  // Reset per-hand state when a new hand is rolled
+  useEffect(() => {
+    setLdState(null);
+    setTurnPosition(null);
+    setMyCup([]);
+    setSelectedBid(null);
+  }, [roundId]);
+
+  // Realtime subscription + polling fallback (same as gin rummy)
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!roundId) return;
+    let isActive = true;
+
+    const applyRound = (round: { game_state?: unknown; current_turn_position?: number | null }, source: string) => {
+      if (!isActive || !round.game_state) return;
+      if (source === 'poll' && Date.now() < optimisticUntilRef.current) return;
+      setLdState(round.game_state as LiarsDiceState);
+      setTurnPosition(round.current_turn_position ?? null);
+    };
+
+    const channel = supabase
+      .channel(`liars-dice-${roundId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'rounds',
+          filter: `id=eq.${roundId}`,
+        },
+        (payload) => applyRound(payload.new as { game_state?: unknown; current_turn_position?: number | null }, 'realtime')
+      )
+      .subscribe();
+
+    const poll = async () => {
+      if (!isActive) return;
+
+      try {
+        const { data } = await supabase
+          .from('rounds')
+          .select('game_state, current_turn_position')
+          .eq('id', roundId)
+          .maybeSingle();
+
+        if (data) applyRound(data, 'poll');
+      } catch {
+        // Silent fail
+      }
+
+      if (isActive) {
+        pollTimerRef.current = setTimeout(poll, 1500);
+      }
+    };
+
+    // The first poll loads the hand
+    pollTimerRef.current = setTimeout(poll, 0);
+
+    return () => {
+      isActive = false;
+      if (pollTimerRef.current) clearTimeout(pollTimerRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [roundId]);
+
+  // My cup (player_cards is written just after the round row, so retry until it lands)
+  useEffect(() => {
+    if (!roundId || !currentPlayerId || myCup.length > 0) return;
+    if (!ldState?.seatOrder.includes(currentPlayerId)) return;
+
+    let cancelled = false;
+    const load = async () => {
+      const cup = await fetchLiarsDiceCup(roundId, currentPlayerId);
+      if (cancelled) return;
+      if (cup.length > 0) setMyCup(cup);
+      else setTimeout(load, 1000);
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [roundId, currentPlayerId, ldState?.seatOrder, myCup.length]);
+
+  const getPosition = useCallback(
+    (playerId: string | null) => (playerId ? players.find(p => p.id === playerId)?.position ?? null : null),
+    [players]
+  );
+
+  // Apply an action to the stored (cupless) state and write it back with the seat now to bid
+  const dispatch = useCallback(async (state: LiarsDiceState, action: LiarsDiceAction) => {
+    const next = liarsDiceModule.reduce(state, action);
+    const nextPosition = getPosition(next.currentTurnPlayerId);
+    void logModuleAction(roundId, state, action);
+    optimisticUntilRef.current = Date.now() + 1500;
+    setLdState(next);
+    setTurnPosition(nextPosition);
+    await updateLiarsDiceState(roundId, next, nextPosition);
+  }, [roundId, getPosition]);
+
+  const fetchStoredState = useCallback(async (): Promise<LiarsDiceState | null> => {
+    const { data } = await supabase
+      .from('rounds')
+      .select('game_state')
+      .eq('id', roundId)
+      .maybeSingle();
+    return (data?.game_state as unknown as LiarsDiceState | null) ?? null;
+  }, [roundId]);
+
+  // ─── Bot Action Loop ────────────────────────────────────────────
+  const botActionInProgress = useRef(false);
+
+  useEffect(() => {
+    if (!ldState || ldState.phase !== 'bidding' || botActionInProgress.current) return;
+
+    const botId = ldState.currentTurnPlayerId;
+    if (!botId || !players.find(p => p.id === botId)?.is_bot) return;
+
+    const runBotAction = async () => {
+      if (botActionInProgress.current) return;
+      botActionInProgress.current = true;
+
+      try {
+        // Add a human-like delay
+        await new Promise(resolve => setTimeout(resolve, 1200 + Math.random() * 800));
+
+        // Re-fetch latest state to prevent stale-closure issues
+        const state = await fetchStoredState();
+        if (!state || state.phase !== 'bidding' || state.currentTurnPlayerId !== botId) return;
+
+        // The bot decides looking at its cup; the stored state never gets it
+        const cup = await fetchLiarsDiceCup(roundId, botId);
+        const action = liarsDiceModule.botAction({ ...state, cups: { [botId]: cup } }, botId);
+        if (action) await dispatch(state, action);
+      } catch (err) {
+        console.error('[LIARS_DICE BOT] Error:', err);
+      } finally {
+        botActionInProgress.current = false;
+      }
+    };
+
+    const timeout = setTimeout(runBotAction, 300);
+    return () => clearTimeout(timeout);
+  }, [ldState, players, roundId, dispatch, fetchStoredState]);
+
+  // ─── Reveal ─────────────────────────────────────────────────────
+  // The round's showdown status opens player_cards, so any client can turn the cups up
+  const revealInProgress = useRef(false);
+
+  useEffect(() => {
+    if (!ldState || ldState.phase !== 'reveal' || !ldState.challenge || revealInProgress.current) return;
+    const callerId = ldState.challenge.challengerId;
+
+    const timeout = setTimeout(async () => {
+      if (revealInProgress.current) return;
+      revealInProgress.current = true;
+      try {
+        const state = await fetchStoredState();
+        if (!state || state.phase !== 'reveal') return;
+        const cups = Object.fromEntries(
+          await Promise.all(state.seatOrder.map(async id => [id, await fetchLiarsDiceCup(roundId, id)] as const))
+        );
+        await dispatch(state, { type: 'reveal', playerId: callerId, cups });
+      } catch (err) {
+        console.error('[LIARS_DICE] Reveal error:', err);
+      } finally {
+        revealInProgress.current = false;
+      }
+    }, 900);
+    return () => clearTimeout(timeout);
+  }, [ldState, roundId, dispatch, fetchStoredState]);
+
+  const getClockwiseDistance = useCallback((position: number) => {
+    const myPosition = currentPlayer?.position ?? 1;
+    return (position - myPosition + 7) % 7;
+  }, [currentPlayer?.position]);
+
+  // ─── Pot to the Last One With Dice ──────────────────────────────
+  const [potToPlayer, setPotToPlayer] = useState<{ triggerId: string; amount: number; position: number } | null>(null);
+  const potAnimatedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!ldState || ldState.phase !== 'complete' || potAnimatedRef.current === roundId) return;
+    const survivors = getLiarsDiceSurvivors(ldState);
+    const position = survivors.length === 1 ? getPosition(survivors[0]) : null;
+    if (position === null || pot <= 0) return;
+
+    potAnimatedRef.current = roundId;
+    setPotToPlayer({ triggerId: `liars-dice-${roundId}`, amount: pot, position });
+  }, [ldState, roundId, pot, getPosition]);
+
+  // ─── Hand Completion & Next Hand ──────────────────────────────
+  // Refs so a parent re-render doesn't restart the completion sequence
+  const onGameCompleteRef = useRef(onGameComplete);
+  const onRefetchRef = useRef(onRefetch);
+  useEffect(() => {
+    onGameCompleteRef.current = onGameComplete;
+    onRefetchRef.current = onRefetch;
+  }, [onGameComplete, onRefetch]);
+  const completedRoundRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!ldState || ldState.phase !== 'complete' || completedRoundRef.current === roundId) return;
+    if (!dealerGameId || isGameOver) return;
+
+    completedRoundRef.current = roundId;
+
+    const processCompletion = async () => {
+      try {
+        // Let everyone count the dice before the hand is settled
+        await new Promise(resolve => setTimeout(resolve, 4000));
+        await recordLiarsDiceHandResult(gameId, roundId, ldState);
+
+        if (getLiarsDiceSurvivors(ldState).length > 1) {
+          const result = await startNextLiarsDiceHand(gameId, dealerGameId, ldState);
+          if (result.success) {
+            onRefetchRef.current();
+            return;
+          }
+        }
+
+        await endLiarsDiceGame(gameId, ldState);
+        onGameCompleteRef.current();
+      } catch (err) {
+        console.error('[LIARS_DICE] Hand completion error:', err);
+      }
+    };
+
+    processCompletion();
+  }, [ldState, roundId, dealerGameId, gameId, isGameOver]);
+
+  const getPlayerUsername = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    if (!player) return '';
+    return getDisplayName(players, player, player.profiles?.username || 'Player');
+  };
+
+  const handleAction = async (action: LiarsDiceAction) => {
+    if (!ldState || isProcessing) return;
+    setIsProcessing(true);
+    try {
+      await dispatch(ldState, action);
+      setSelectedBid(null);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (!ldState || !roundId) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center bg-slate-900">
+        <p className="text-sm font-bold text-poker-gold animate-pulse">
+          {roundId ? 'Shaking the cups...' : 'Awaiting antes...'}
+        </p>
+      </div>
+    );
+  }
+
+  const isComplete = ldState.phase === 'complete';
+  const isObserver = !currentPlayerId || !ldState.seatOrder.includes(currentPlayerId);
+  const isMyTurn = ldState.phase === 'bidding' && ldState.currentTurnPlayerId === currentPlayerId;
+  const lastBid = ldState.bids[ldState.bids.length - 1];
+  const challenge = ldState.challenge;
+  const turnName = ldState.currentTurnPlayerId ? getPlayerUsername(ldState.currentTurnPlayerId) : '';
+  const countsAfter = getLiarsDiceCountsAfter(ldState);
+
+  // The ladder: the lowest legal quantities, every face that's a legal bid at each
+  const ladder = isMyTurn ? getLiarsDiceBidLadder(ldState) : [];
+  const ladderQuantities = [...new Set(ladder.map(b => b.quantity))].slice(0, LADDER_ROWS);
+
+  const seats = players.filter(p => ldState.seatOrder.includes(p.id));
+  const seatAngle = (position: number) =>
+    isObserver || !currentPlayer ? OBSERVER_ANGLES[position] ?? 0 : SLOT_ANGLES[getClockwiseDistance(position)] ?? 0;
+
+  const describeBid = (bid: { quantity: number; face: number }) => `${bid.quantity} × ${bid.face}s`;
+
+  const describeResult = () => {
+    if (!challenge) return '';
+    const survivors = getLiarsDiceSurvivors(ldState);
+    if (survivors.length === 1) return `${getPlayerUsername(survivors[0])} is the last one with dice!`;
+    if (!challenge.loserId) return '';
+    const lost = challenge.diceLost === 1 ? 'a die' : `${challenge.diceLost} dice`;
+    return `${challenge.count} on the table • ${getPlayerUsername(challenge.loserId)} ${challenge.loserId === currentPlayerId ? 'lose' : 'loses'} ${lost}`;
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Felt Area */}
+      <div
+        className="relative flex items-start justify-center pt-1"
+        style={{
+          height: 'calc(min(90vw, calc(55vh - 32px)) + 10px)',
+          minHeight: '300px',
+        }}
+      >
+        <div className="absolute inset-0 bg-slate-200 z-0" />
+
+        <div
+          ref={feltRef}
+          className="relative z-10"
+          style={{
+            width: 'min(90vw, calc(55vh - 32px))',
+            height: 'min(90vw, calc(55vh - 32px))',
+          }}
+        >
+          <div
+            className="absolute inset-0 rounded-full overflow-hidden border-2 border-white/80"
+            style={
+              tableColors.showBridge
+                ? { backgroundImage: `url(${peoriaBridgeMobile})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+                : { background: `radial-gradient(ellipse at center, ${tableColors.color} 0%, ${tableColors.darkColor} 100%)` }
+            }
+          />
+
+          <TurnSpotlight
+            currentTurnPosition={turnPosition}
+            currentPlayerPosition={currentPlayer?.position ?? null}
+            isObserver={isObserver}
+            getClockwiseDistance={getClockwiseDistance}
+            containerRef={feltRef}
+            isVisible={ldState.phase === 'bidding'}
+          />
+
+          {/* Pot and the standing bid - dead center, where PotToPlayerAnimation starts */}
+          <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-20 flex flex-col items-center gap-1">
+            <ChipStack amount={pot} size="sm" />
+            <span className="text-xs font-bold text-poker-gold">Pot ${formatChipValue(pot)}</span>
+            {lastBid ? (
+              <div className="flex items-center gap-1 rounded-lg bg-black/60 px-2 py-1">
+                <span className="text-sm font-black text-white">{lastBid.quantity} ×</span>
+                <HorsesDie value={lastBid.face} isHeld={false} canToggle={false} size="xs" showWildHighlight={false} />
+              </div>
+            ) : (
+              <span className="text-[10px] text-white/70">
+                {getLiarsDiceTotal(ldState)} dice{ldState.onesWild ? ' • Ones wild' : ''}
+              </span>
+            )}
+            {challenge && <span className="text-sm font-black text-red-400 tracking-wide">LIAR!</span>}
+          </div>
+
+          {/* Seats */}
+          {seats.map((player) => {
+            const spot = getSeatSpot(seatAngle(player.position));
+            const cup = ldState.cups[player.id] ?? [];
+            const isTurn = ldState.phase === 'bidding' && ldState.currentTurnPlayerId === player.id;
+            const isLoser = isComplete && challenge?.loserId === player.id;
+            const dice = isComplete ? countsAfter[player.id] : ldState.diceCounts[player.id];
+            const seatBid = [...ldState.bids].reverse().find(b => b.playerId === player.id);
+
+            return (
+              <div
+                key={player.id}
+                className="absolute z-[110] -translate-x-1/2 -translate-y-1/2 flex flex-col items-center gap-0.5"
+                style={spot}
+              >
+                {cup.length > 0 ? (
+                  <div className="flex gap-0.5 rounded bg-black/40 px-1 py-0.5">
+                    {cup.map((value, i) => (
+                      <HorsesDie
+                        key={i}
+                        value={value}
+                        isHeld={!!challenge && isLiarsDiceMatch(value, challenge.bid.face, ldState.onesWild)}
+                        canToggle={false}
+                        size="xs"
+                        showWildHighlight={false}
+                      />
+                    ))}
+                  </div>
+                ) : seatBid ? (
+                  <span className="text-[10px] font-bold text-white bg-black/50 rounded px-1">{describeBid(seatBid)}</span>
+                ) : null}
+                <div
+                  data-chip-center={player.position}
+                  className={cn(
+                    'rounded-lg px-2 py-0.5 bg-black/70 border text-center min-w-[64px]',
+                    isTurn ? 'border-yellow-400' : isLoser ? 'border-red-500' : 'border-white/20'
+                  )}
+                >
+                  <div className="flex items-center justify-center gap-1">
+                    {ldState.dealerPlayerId === player.id && (
+                      <span className="w-4 h-4 rounded-full bg-red-600 border border-white text-[9px] font-bold text-white flex items-center justify-center">D</span>
+                    )}
+                    <span className="text-[11px] font-semibold text-white truncate max-w-[70px]">
+                      {getPlayerUsername(player.id)}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-center gap-0.5">
+                    {dice > 0 ? (
+                      <>
+                        <Dices className="w-3 h-3 text-white/80" />
+                        <span className="text-[10px] text-white/80 font-bold">{dice}</span>
+                      </>
+                    ) : (
+                      <span className="text-[10px] text-red-300 font-bold">OUT</span>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          <PotToPlayerAnimation
+            triggerId={potToPlayer?.triggerId ?? null}
+            amount={potToPlayer?.amount ?? 0}
+            winnerPosition={potToPlayer?.position ?? 0}
+            currentPlayerPosition={currentPlayer?.position ?? null}
+            getClockwiseDistance={getClockwiseDistance}
+            containerRef={feltRef}
+            gameType="liars-dice"
+            onAnimationEnd={() => setPotToPlayer(null)}
+          />
+        </div>
+      </div>
+
+      {/* Bottom section */}
+      <div className="flex-1 min-h-0 flex flex-col bg-gradient-to-t from-background via-background to-background/95 border-t border-border overflow-hidden">
+        {/* Status */}
+        <div className="min-h-[44px] shrink-0 flex flex-col items-center justify-center px-4">
+          {isComplete ? (
+            <div className="w-full bg-poker-gold/95 rounded-lg px-3 py-1.5 shadow-xl border-2 border-amber-900">
+              <p className="text-slate-900 font-bold text-xs text-center truncate">{describeResult()}</p>
+            </div>
+          ) : challenge ? (
+            <span className="text-sm text-foreground font-medium">
+              {getPlayerUsername(challenge.challengerId)} calls {getPlayerUsername(challenge.bid.playerId)} a liar!
+            </span>
+          ) : (
+            <span className="text-sm text-foreground font-medium">
+              {isMyTurn ? 'Your bid' : `${turnName} to bid`}
+            </span>
+          )}
+          {lastBid && !challenge && (
+            <span className="text-[11px] text-muted-foreground truncate max-w-full">
+              {getPlayerUsername(lastBid.playerId)} bid {describeBid(lastBid)}
+            </span>
+          )}
+        </div>
+
+        {/* Tab navigation */}
+        <div className="flex items-center justify-center gap-1 px-4 py-1.5 border-b border-border/50">
+          {([
+            ['dice', Dices],
+            ['chat', MessageSquare],
+            ['history', Clock],
+          ] as const).map(([tab, Icon]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={cn(
+                'flex-1 flex items-center justify-center py-2 px-3 rounded-md transition-all',
+                activeTab === tab ? 'bg-primary/20 text-foreground' : 'text-muted-foreground/50 hover:text-muted-foreground',
+                tab === 'dice' && isMyTurn && activeTab !== 'dice' && 'animate-pulse ring-2 ring-red-500'
+              )}
+            >
+              <Icon className="w-5 h-5" />
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'dice' && (
+          <div className="px-3 flex-1 min-h-0 overflow-y-auto">
+            {/* My cup */}
+            {!isObserver && myCup.length > 0 && !isComplete && (
+              <div className="flex items-center justify-center gap-1 py-2">
+                {myCup.map((value, i) => (
+                  <HorsesDie
+                    key={i}
+                    value={value}
+                    isHeld={!!selectedBid && isLiarsDiceMatch(value, selectedBid.face, ldState.onesWild)}
+                    canToggle={false}
+                    size="sm"
+                    showWildHighlight={false}
+                  />
+                ))}
+              </div>
+            )}
+
+            {isMyTurn && (
+              <div className="space-y-2 pb-2">
+                {/* Bid ladder: a row per quantity, a column per face */}
+                <div className="space-y-1">
+                  {ladderQuantities.map((quantity) => (
+                    <div key={quantity} className="grid grid-cols-[2rem_repeat(6,minmax(0,1fr))] gap-1 items-center">
+                      <span className="text-xs font-bold text-foreground text-right pr-1">{quantity} ×</span>
+                      {[1, 2, 3, 4, 5, 6].map((face) => {
+                        const isLegal = ladder.some(b => b.quantity === quantity && b.face === face);
+                        const isSelected = selectedBid?.quantity === quantity && selectedBid.face === face;
+                        return (
+                          <button
+                            key={face}
+                            type="button"
+                            disabled={!isLegal || isProcessing}
+                            onClick={() => setSelectedBid({ quantity, face })}
+                            className={cn(
+                              'flex justify-center rounded-md py-0.5 border transition-all',
+                              isSelected ? 'border-poker-gold bg-poker-gold/20' : 'border-transparent',
+                              !isLegal && 'opacity-20'
+                            )}
+                          >
+                            <HorsesDie value={face} isHeld={false} canToggle={false} size="xs" showWildHighlight={false} />
+                          </button>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant="destructive"
+                    disabled={isProcessing || !lastBid}
+                    onClick={() => handleAction({ type: 'call', playerId: currentPlayerId! })}
+                  >
+                    Liar!
+                  </Button>
+                  <Button
+                    disabled={isProcessing || !selectedBid}
+                    onClick={() => selectedBid && handleAction({ type: 'bid', playerId: currentPlayerId!, ...selectedBid })}
+                  >
+                    {selectedBid ? `Bid ${describeBid(selectedBid)}` : 'Pick a Bid'}
+                  </Button>
+                </div>
+                <p className="text-[11px] text-center text-muted-foreground">
+                  {ldState.onesWild
+                    ? 'Ones are wild • Switch to ones at half the quantity, off them at double plus one'
+                    : 'Raise the quantity, or the face at the same quantity'}
+                </p>
+              </div>
+            )}
+
+            {/* Player info */}
+            {currentPlayer && (
+              <div className="relative flex items-center justify-center gap-2 py-2">
+                <p className="text-sm font-semibold text-foreground">{currentPlayer.profiles?.username || 'You'}</p>
+                <span className={cn('font-bold text-lg', currentPlayer.chips < 0 ? 'text-destructive' : 'text-poker-gold')}>
+                  {formatChipValue(currentPlayer.chips)}
+                </span>
+                <ChipChangeIndicator currentChips={currentPlayer.chips} playerId={currentPlayer.id} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'chat' && (
+          <div className="flex-1 min-h-0 flex flex-col">
+            <MobileChatPanel
+              messages={allMessages}
+              onSend={sendMessage}
+              isSending={isChatSending}
+              currentUserId={currentUserId}
+            />
+          </div>
+        )}
+
+        {activeTab === 'history' && (
+          <div className="flex-1 overflow-y-auto">
+            <HandHistory
+              gameId={gameId}
+              currentUserId={currentUserId}
+              currentPlayerId={currentPlayerId}
+              gameType="liars-dice"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -136,7 +136,7 @@ export const MobileChatPanel = ({
 
   const handleEmoticonClick = (emoticon: string) => {
     if (inputMessage.length + emoticon.length <= 100) {
-      setInputMessage(prev => prev + emoticon);
+      setInputMessage(inputMessage + emoticon);
     }
     setShowEmoticons(false);
     inputRef.current?.focus();
@@ -57,6 +57,7 @@ import { useDeviceSize } from "@/hooks/useDeviceSize";
 import { useWakeLock } from "@/hooks/useWakeLock";
 import { MessageSquare, User, Clock, Target } from "lucide-react";
 import { HandHistory } from "./HandHistory";
+import { isGameType, usesHorsesTable } from "@/lib/gameTypes";
 
 
 // Persist pot display across MobileGameTable remounts (Game.tsx uses changing `key`, which
@@ -440,7 +441,7 @@ export const MobileGameTable = ({
   useWakeLock(true);
 
   // Helper: check if this is a dice game (Horses or Ship Captain Crew)
-  const isDiceGame = gameType === 'horses' || gameType === 'ship-captain-crew';
+  const isDiceGame = usesHorsesTable(gameType);
   
   // Z-index for player slots - higher in dice games to stay above spotlight
   // For 3-5-7 games, player cards need to be above the pot (z-20) during showdown
@@ -1201,7 +1202,7 @@ export const MobileGameTable = ({
   
   // Delay community cards rendering by 1 second after player cards appear (Holm only)
   // Use external cache for community cards if provided (to persist across remounts during win animation)
-  const internalCommunityCardsCache = useRef<{ cards: CardType[] | null; round: number | null; show: boolean }>({ cards: null, round: null, show: gameType !== 'holm-game' });
+  const internalCommunityCardsCache = useRef<{ cards: CardType[] | null; round: number | null; show: boolean }>({ cards: null, round: null, show: !isGameType(gameType, 'holm-game') });
   const communityCardsCache = externalCommunityCardsCache || internalCommunityCardsCache;
 
   // CRITICAL: During dealer config phases, NEVER read from external cache - it may contain stale cards
@@ -1259,7 +1260,7 @@ export const MobileGameTable = ({
   const [showCommunityCards, setShowCommunityCards] = useState(() => {
     if (isDealerConfigPhase) return false;
     if (externalCommunityCardsCache?.current?.show) return true;
-    return gameType !== 'holm-game';
+    return !isGameType(gameType, 'holm-game');
   });
   const [staggeredCardCount, setStaggeredCardCount] = useState(0); // How many cards to show in staggered animation
   const [isDelayingCommunityCards, setIsDelayingCommunityCards] = useState(false); // Only true during active delay
@@ -1399,8 +1400,8 @@ export const MobileGameTable = ({
       }
 
       // Reset both internal/external community ref cache
-      communityCardsCache.current = { cards: null, round: null, show: gameType !== 'holm-game' };
-      setShowCommunityCards(gameType !== 'holm-game');
+      communityCardsCache.current = { cards: null, round: null, show: !isGameType(gameType, 'holm-game') };
+      setShowCommunityCards(!isGameType(gameType, 'holm-game'));
 
       // Chucky UI cache
       setCachedChuckyCards(null);
@@ -1476,7 +1477,7 @@ export const MobileGameTable = ({
 
   const shouldDeferHandReset = useCallback(() => {
     const isGameOverPhase = gameStatus === 'game_over' || !!isGameOver;
-    const is357Animating = gameType !== 'holm-game' && threeFiveSevenWinPhase !== 'idle';
+    const is357Animating = !isGameType(gameType, 'holm-game') && threeFiveSevenWinPhase !== 'idle';
     const isHolmAnimating = !!holmWinPotTriggerId || holmShowdownPhase !== 'idle';
     return isGameOverPhase || isHolmAnimating || is357Animating;
   }, [gameStatus, isGameOver, gameType, threeFiveSevenWinPhase, holmWinPotTriggerId, holmShowdownPhase]);
@@ -1525,10 +1526,10 @@ export const MobileGameTable = ({
   const isInEarlyPhase = roundStatus === 'betting' || roundStatus === 'pending' || roundStatus === 'ante';
   // Count players who stayed for multi-player showdown detection
   const stayedPlayersCount = players.filter(p => p.current_decision === 'stay').length;
-  const is357Round3MultiPlayerShowdown = gameType !== 'holm-game' && currentRound === 3 && allDecisionsIn && stayedPlayersCount >= 2;
+  const is357Round3MultiPlayerShowdown = !isGameType(gameType, 'holm-game') && currentRound === 3 && allDecisionsIn && stayedPlayersCount >= 2;
   // Combined check for any 3-5-7 multi-player showdown (rounds 2 or 3) - used to hide dealer button and shrink UI
   // Use allDecisionsIn OR awaitingNextRound to catch showdown state even when allDecisionsIn resets
-  const is357MultiPlayerShowdown = gameType !== 'holm-game' && 
+  const is357MultiPlayerShowdown = !isGameType(gameType, 'holm-game') && 
     (currentRound === 2 || currentRound === 3) && 
     stayedPlayersCount >= 2 && 
     (allDecisionsIn || awaitingNextRound);
@@ -1537,7 +1538,7 @@ export const MobileGameTable = ({
   // Keep tabled cards visible through win animation + until next hand to avoid flicker.
   // IMPORTANT: Holm showdown should table player cards BEFORE flipping the final 2 community cards,
   // so we allow this state to become true as soon as all_decisions_in is set.
-  const isSoloVsChuckyRaw = gameType === 'holm-game' && 
+  const isSoloVsChuckyRaw = isGameType(gameType, 'holm-game') && 
     stayedPlayersCount === 1 && 
     (chuckyActive || roundStatus === 'showdown' || roundStatus === 'completed' || allDecisionsIn || (awaitingNextRound && lastRoundResult) || holmWinPotTriggerId || isGameOver);
 
@@ -1621,21 +1622,21 @@ export const MobileGameTable = ({
   const isSoloVsChucky = isSoloVsChuckyRaw || soloVsChuckyTableLocked;
 
   // HOLM: Detect multi-player showdown (2+ players stayed) - needs tighter card overlap
-  const isHolmMultiPlayerShowdown = gameType === 'holm-game' && 
+  const isHolmMultiPlayerShowdown = isGameType(gameType, 'holm-game') && 
     stayedPlayersCount >= 2 && 
     (roundStatus === 'showdown' || roundStatus === 'completed' || allDecisionsIn);
   
   // 3-5-7 "secret reveal" for rounds 1 and 2: only players who stayed can see each other's cards
   const currentPlayerForSecretReveal = players.find(p => p.user_id === currentUserId);
   const currentPlayerStayed = currentPlayerForSecretReveal?.current_decision === 'stay';
-  const is357SecretRevealActive = gameType !== 'holm-game' && 
+  const is357SecretRevealActive = !isGameType(gameType, 'holm-game') && 
     (currentRound === 1 || currentRound === 2) && 
     allDecisionsIn && 
     stayedPlayersCount >= 2 && 
     revealAtShowdown && 
     currentPlayerStayed;
   
-  const isShowdownActive = (gameType === 'holm-game' && 
+  const isShowdownActive = (isGameType(gameType, 'holm-game') && 
     (roundStatus === 'showdown' || roundStatus === 'completed' || communityCardsRevealed === 4 || allDecisionsIn)) ||
     is357Round3MultiPlayerShowdown ||
     is357SecretRevealActive;
@@ -1656,7 +1657,7 @@ export const MobileGameTable = ({
   );
 
   const shouldShowHolmCommunityCards =
-    gameType === "holm-game" &&
+    isGameType(gameType, 'holm-game') &&
     !!approvedCommunityCards &&
     (approvedCommunityCards?.length ?? 0) > 0 &&
     showCommunityCards &&
@@ -1889,7 +1890,7 @@ export const MobileGameTable = ({
   
   useEffect(() => {
     // Only trigger transition guard for Holm games (they have the card flash issue)
-    if (gameType !== 'holm-game') return;
+    if (!isGameType(gameType, 'holm-game')) return;
     
     const prevContext = prevHandContextForTransitionRef.current;
     const newContext = handContextId ?? null;
@@ -2020,11 +2021,11 @@ export const MobileGameTable = ({
   const buckIsAssigned = buckPosition !== null && buckPosition !== undefined;
   const roundIsReady = currentTurnPosition !== null && currentTurnPosition !== undefined;
   const roundIsActive = roundStatus === 'betting' || roundStatus === 'active';
-  const isPlayerTurn = gameType === 'holm-game' ? buckIsAssigned && roundIsReady && roundIsActive && currentTurnPosition === currentPlayer?.position && !awaitingNextRound : true;
+  const isPlayerTurn = isGameType(gameType, 'holm-game') ? buckIsAssigned && roundIsReady && roundIsActive && currentTurnPosition === currentPlayer?.position && !awaitingNextRound : true;
   
   // For Holm: If it's player's turn, they should see buttons even if allDecisionsIn is stuck
   // This handles edge case where allDecisionsIn=true but round is still betting
-  const holmPlayerCanDecide = gameType === 'holm-game' && 
+  const holmPlayerCanDecide = isGameType(gameType, 'holm-game') && 
     isPlayerTurn && 
     roundStatus === 'betting' && 
     !hasDecided;
@@ -2039,10 +2040,10 @@ export const MobileGameTable = ({
   // 4. We've locked showdown mode (prevents snap-back after announcement clears)
   const hasExposedPlayers = players.some(p => isPlayerCardsExposed(p.id));
   // Check if we're showing an announcement (either normal round result or game-over)
-  const isShowingAnnouncement = gameType === 'holm-game' && !!lastRoundResult && (awaitingNextRound || isGameOver);
+  const isShowingAnnouncement = isGameType(gameType, 'holm-game') && !!lastRoundResult && (awaitingNextRound || isGameOver);
   // Include Chucky active state to prevent flicker when community cards start revealing
-  const isChuckyRevealing = gameType === 'holm-game' && (chuckyActive || cachedChuckyActive);
-  const isAnyPlayerInShowdownRaw = gameType === 'holm-game' && (hasExposedPlayers || isShowingAnnouncement || isChuckyRevealing);
+  const isChuckyRevealing = isGameType(gameType, 'holm-game') && (chuckyActive || cachedChuckyActive);
+  const isAnyPlayerInShowdownRaw = isGameType(gameType, 'holm-game') && (hasExposedPlayers || isShowingAnnouncement || isChuckyRevealing);
   
   // Lock showdown mode once it becomes true - only reset via resetHandUiCaches
   useEffect(() => {
@@ -2087,7 +2088,7 @@ export const MobileGameTable = ({
   // Format 3-5-7 showdown announcement based on reveal settings and whether current player stayed
   // New format from server: "WinnerName won showdown|||WINNER:id|||LOSERS:ids|||AMOUNT:x|||HANDNAME:description"
   const format357ShowdownAnnouncement = useMemo(() => {
-    if (!lastRoundResult || gameType === 'holm-game') return lastRoundResult?.split('|||')[0] || '';
+    if (!lastRoundResult || isGameType(gameType, 'holm-game')) return lastRoundResult?.split('|||')[0] || '';
     
     // Check if this is a 3-5-7 showdown result (contains HANDNAME field)
     const parts = lastRoundResult.split('|||');
@@ -2123,7 +2124,7 @@ export const MobileGameTable = ({
   // CRITICAL: Also check holmWinPotTriggerId - if pot animation is active, keep cards tabled for the winner
   // to prevent brief re-population during win celebration.
   const isCurrentPlayerSoloVsChucky =
-    gameType === 'holm-game' &&
+    isGameType(gameType, 'holm-game') &&
     !!currentPlayer &&
     (
       // Case 1: Normal solo-vs-Chucky flow
@@ -2165,7 +2166,7 @@ export const MobileGameTable = ({
 
   // Detect Chucky chopped animation
   useEffect(() => {
-    if (gameType === 'holm-game' && lastRoundResult && lastRoundResult !== lastChoppedResultRef.current && currentUserId) {
+    if (isGameType(gameType, 'holm-game') && lastRoundResult && lastRoundResult !== lastChoppedResultRef.current && currentUserId) {
       const currentUsername = currentPlayer?.profiles?.username || '';
       if (!currentUsername) return;
       const is1v1Loss = lastRoundResult.includes(`Chucky beat ${currentUsername} `);
@@ -2180,7 +2181,7 @@ export const MobileGameTable = ({
   // Detect 357 sweep animation (3-5-7 games only)
   useEffect(() => {
     if (
-      gameType !== 'holm-game' && 
+      !isGameType(gameType, 'holm-game') && 
       lastRoundResult && 
       lastRoundResult.startsWith('357_SWEEP:') &&
       lastRoundResult !== lastSweepsResultRef.current
@@ -2196,7 +2197,7 @@ export const MobileGameTable = ({
   // Also clear showdown state when buck moves - new hand is starting
   useEffect(() => {
     if (
-      gameType === 'holm-game' && 
+      isGameType(gameType, 'holm-game') && 
       buckPosition !== null && 
       buckPosition !== undefined && 
       currentPlayer && 
@@ -2254,7 +2255,7 @@ export const MobileGameTable = ({
       return;
     }
     
-    if (gameType !== 'holm-game') {
+    if (!isGameType(gameType, 'holm-game')) {
       console.log('🔥 [MOBILE_COMMUNITY] Not holm game, showing cards immediately');
       setShowCommunityCards(true);
       return;
@@ -2345,7 +2346,7 @@ export const MobileGameTable = ({
   // Backfill approvedCommunityCards if they arrive AFTER the 1s approval delay.
   // Bug: round gets "approved" while communityCards prop is still undefined -> approvedCommunityCards becomes null and never re-approved.
   useEffect(() => {
-    if (gameType !== 'holm-game') return;
+    if (!isGameType(gameType, 'holm-game')) return;
     if (!currentRound) return;
     if (isDelayingCommunityCards) return; // don't bypass the intended delay
     if (!showCommunityCards) return; // only backfill when UI intends to show them
@@ -2375,7 +2376,7 @@ export const MobileGameTable = ({
   // 2. The 1s delay timer was cancelled before completing
   // 3. Any other race condition that leaves cards stuck invisible
   useEffect(() => {
-    if (gameType !== 'holm-game') return;
+    if (!isGameType(gameType, 'holm-game')) return;
     if (!currentRound) return;
     if (isDealerConfigPhase) return;
     if (awaitingNextRound) return;
@@ -2412,7 +2413,7 @@ export const MobileGameTable = ({
 
   // Cache Chucky cards when available, clear only when buck passes or new game starts
   useEffect(() => {
-    if (gameType !== 'holm-game') return;
+    if (!isGameType(gameType, 'holm-game')) return;
     
     // CRITICAL: Clear cached Chucky cards when entering dealer config phases
     // This prevents old cards from the previous game showing up
@@ -2482,7 +2483,7 @@ export const MobileGameTable = ({
   const firedLegAnimationKeysRef = useRef<Set<string>>(new Set());
 
   useEffect(() => {
-    if (gameType === 'holm-game') return;
+    if (isGameType(gameType, 'holm-game')) return;
 
     // CRITICAL: This component is also used as a "background table" during dealer selection / setup phases.
     // In those phases, late realtime player updates (e.g. the final leg increment) can arrive AFTER the background
@@ -2798,7 +2799,7 @@ export const MobileGameTable = ({
   // Calculate expected card count for 3-5-7 games
   const getExpectedCardCount = (round: number): number => {
     if (isDiceGame) return 0;
-    if (gameType === 'holm-game') return 4;
+    if (isGameType(gameType, 'holm-game')) return 4;
     if (round === 1) return 3;
     if (round === 2) return 5;
     if (round === 3) return 7;
@@ -2887,7 +2888,7 @@ export const MobileGameTable = ({
   
   const renderPlayerChip = (player: Player, slotIndex?: number) => {
     const isTheirTurn =
-      (gameType === 'holm-game' && currentTurnPosition === player.position && !awaitingNextRound) ||
+      (isGameType(gameType, 'holm-game') && currentTurnPosition === player.position && !awaitingNextRound) ||
       (isDiceGame && horsesController.enabled && horsesController.currentTurnPlayerId === player.id && !awaitingNextRound);
     const isCurrentUser = player.user_id === currentUserId;
     
@@ -2898,7 +2899,7 @@ export const MobileGameTable = ({
     // CRITICAL: Only show other players' decisions after allDecisionsIn (for 3-5-7)
     // Holm game shows decisions immediately (turn-based), 3-5-7 hides until all in
     // Current user always sees their own decision immediately
-    const playerDecision = (isCurrentUser || allDecisionsIn || gameType === 'holm-game') 
+    const playerDecision = (isCurrentUser || allDecisionsIn || isGameType(gameType, 'holm-game')) 
       ? player.current_decision 
       : null;
     const playerCardsData = playerCards.find(pc => pc.player_id === player.id);
@@ -2911,12 +2912,12 @@ export const MobileGameTable = ({
     const rawIsActivePlayer = player.status === 'active' && !player.sitting_out;
     // In 3-5-7, if we're hiding this player's decision (not current user, not allDecisionsIn),
     // treat them as still active even if they've folded in the database
-    const apparentIsActivePlayer = (isCurrentUser || allDecisionsIn || gameType === 'holm-game')
+    const apparentIsActivePlayer = (isCurrentUser || allDecisionsIn || isGameType(gameType, 'holm-game'))
       ? rawIsActivePlayer
       : (player.status === 'active' || player.status === 'folded') && !player.sitting_out;
     
     // For Holm games, hide card backs when player folds
-    const hasFolded = gameType === 'holm-game' && playerDecision === 'fold';
+    const hasFolded = isGameType(gameType, 'holm-game') && playerDecision === 'fold';
     const showCardBacks = apparentIsActivePlayer && expectedCardCount > 0 && currentRound > 0 && !hasFolded;
     const cardCountToShow = cards.length > 0 ? cards.length : expectedCardCount;
 
@@ -2935,11 +2936,11 @@ export const MobileGameTable = ({
     // OR: 3-5-7 "secret reveal" in rounds 1-2 for players who stayed (only visible to other stayed players)
     const hasExposedCards = isPlayerCardsExposed(player.id) && cards.length > 0;
     const isInAnnouncementShowdown = isShowingAnnouncement && playerDecision === 'stay' && cards.length > 0;
-    const is357WinningLegPlayer = gameType !== 'holm-game' && winningLegPlayerId === player.id && cards.length > 0;
+    const is357WinningLegPlayer = !isGameType(gameType, 'holm-game') && winningLegPlayerId === player.id && cards.length > 0;
     const is357Round3Showdown = is357Round3MultiPlayerShowdown && hasExposedCards;
     // Secret reveal: show cards of OTHER players who stayed (rounds 1-2, revealAtShowdown enabled)
     const is357SecretRevealShowdown = is357SecretRevealActive && playerDecision === 'stay' && hasExposedCards;
-    const isShowdown = (gameType === 'holm-game' && (hasExposedCards || isInAnnouncementShowdown)) || is357WinningLegPlayer || is357Round3Showdown || is357SecretRevealShowdown;
+    const isShowdown = (isGameType(gameType, 'holm-game') && (hasExposedCards || isInAnnouncementShowdown)) || is357WinningLegPlayer || is357Round3Showdown || is357SecretRevealShowdown;
     
     // During showdown/announcement, hide chip stack to make room for bigger cards
     // EXCEPTION: During Holm win animation, keep winner's chipstack visible (cards are "tabled" below Chucky)
@@ -2951,11 +2952,11 @@ export const MobileGameTable = ({
     const isSoloVsChuckyPlayerForChip = isSoloVsChucky && soloLockedId === player.id && player.id !== currentPlayer?.id;
     // For Holm: hide chips for all players in showdown (gives room for exposed cards)
     // For 3-5-7: also hide chips during round 2 and 3 multi-player showdowns
-    const hideChipForShowdown = (gameType === 'holm-game' && isHolmMultiPlayerShowdown && isShowdown && !isHolmWinWinner && !isSoloVsChuckyPlayerForChip) ||
+    const hideChipForShowdown = (isGameType(gameType, 'holm-game') && isHolmMultiPlayerShowdown && isShowdown && !isHolmWinWinner && !isSoloVsChuckyPlayerForChip) ||
       (is357MultiPlayerShowdown && isShowdown);
     
     const isDealer = dealerPosition === player.position;
-    const playerLegs = gameType !== 'holm-game' ? player.legs : 0;
+    const playerLegs = !isGameType(gameType, 'holm-game') ? player.legs : 0;
     
     // Determine if legs should be on the left (inside for right-side slots 3,4,5)
     const isRightSideSlot = effectiveSlotIndex !== undefined && effectiveSlotIndex >= 3;
@@ -2968,7 +2969,7 @@ export const MobileGameTable = ({
     // Hide legs during win animation phases AND when legs have been swept (backend resets them to 0 after animation)
     // IMPORTANT: Keep legs visible during 'waiting' phase - that's when the LegEarnedAnimation is playing
     // Only hide once legs-to-player actually starts (that's when they visually fly away)
-    const hideLegsForWinAnimation = gameType !== 'holm-game' && (
+    const hideLegsForWinAnimation = !isGameType(gameType, 'holm-game') && (
       threeFiveSevenWinPhase === 'legs-to-player' || 
       threeFiveSevenWinPhase === 'pot-to-player' || 
       threeFiveSevenWinPhase === 'delay'
@@ -2976,7 +2977,7 @@ export const MobileGameTable = ({
     
     // During win animation sequence, use cached leg count to display legs
     // Use cached values when: any animation phase is active (waiting, legs-to-player, pot-to-player, delay)
-    const isIn357WinAnimation = gameType !== 'holm-game' && threeFiveSevenWinPhase !== 'idle';
+    const isIn357WinAnimation = !isGameType(gameType, 'holm-game') && threeFiveSevenWinPhase !== 'idle';
     const cachedLegsForThisPlayer = threeFiveSevenCachedLegPositions.find(p => p.playerId === player.id)?.legCount || 0;
     // During 'waiting' phase, use cached legs (already includes the just-won leg from parent)
     // This prevents the leg from flickering away when backend resets
@@ -3171,7 +3172,7 @@ export const MobileGameTable = ({
     // Using !hasFolded alone isn't enough because current_decision can be null (cleared between hands),
     // which would pass the !hasFolded check. This prevents sporadic card exposure during hand transitions
     // (especially after solo-vs-Chucky losses where decisions get cleared before the next hand).
-    const playerExplicitlyStayed = gameType === 'holm-game' ? playerDecision === 'stay' : true;
+    const playerExplicitlyStayed = isGameType(gameType, 'holm-game') ? playerDecision === 'stay' : true;
     const cardsElement = isShowdown && !shouldHideForTabling && playerExplicitlyStayed ? (
       <div className={`flex scale-100 origin-top relative z-40 ${isLosingPlayer ? 'opacity-40 grayscale-[30%]' : ''} ${showNameBelowCards && isUpperCorner ? '-mb-2' : ''}`}>
         <PlayerHand 
@@ -3182,7 +3183,7 @@ export const MobileGameTable = ({
           hasHighlights={isWinningPlayer && winningCardHighlights.hasHighlights}
           gameType={gameType}
           currentRound={currentRound}
-          showSeparated={gameType !== 'holm-game' && currentRound === 3 && cards.length === 7 && !is357MultiPlayerShowdown}
+          showSeparated={!isGameType(gameType, 'holm-game') && currentRound === 3 && cards.length === 7 && !is357MultiPlayerShowdown}
           tightOverlap={isHolmMultiPlayerShowdown}
           unusedCardsBelow={is357MultiPlayerShowdown && (currentRound === 2 || currentRound === 3)}
           isRightSide={isRightSideSlot}
@@ -3199,7 +3200,7 @@ export const MobileGameTable = ({
         // enter a stable game_over view / phase machine).
         const winnerIdFor357Hide = threeFiveSevenWinnerId ?? winningLegPlayerId;
         const is357WinContextActive =
-          gameType !== 'holm-game' && (threeFiveSevenWinPhase !== 'idle' || !!winningLegPlayerId);
+          !isGameType(gameType, 'holm-game') && (threeFiveSevenWinPhase !== 'idle' || !!winningLegPlayerId);
 
         const hideDuring357Win =
           is357WinContextActive && !!winnerIdFor357Hide && player.id !== winnerIdFor357Hide;
@@ -3247,7 +3248,7 @@ export const MobileGameTable = ({
     // Dice game result element - replaces chip stack for completed players
     // For SCC: show cargo dice with themed background or "NQ"; for Horses: show the result display
     const horsesResultElement = isDiceGame && effectiveHorsesResult && (() => {
-      if (gameType === 'ship-captain-crew') {
+      if (isGameType(gameType, 'ship-captain-crew')) {
         // Check if player qualified (has isQualified on result)
         const isQualified = (effectiveHorsesResult as any).isQualified;
         
@@ -3385,22 +3386,22 @@ export const MobileGameTable = ({
         {/* Game name on felt - single line for dice games - hide during waiting phase */}
         {!isWaitingPhase && (
           <div className="absolute top-3 left-1/2 transform -translate-x-1/2 z-10 flex flex-col items-center">
-            {isDiceGame || gameType === 'yahtzee' ? (
+            {isDiceGame || isGameType(gameType, 'yahtzee') ? (
               // Single line format: "$200 SHIP" or "$5 HORSES" or "$5 YAHTZEE"
               <span className="text-white/30 font-bold text-lg uppercase tracking-wider">
-                ${anteAmount} {gameType === 'ship-captain-crew' ? 'SHIP' : gameType === 'yahtzee' ? 'YAHTZEE' : 'HORSES'}
+                ${anteAmount} {isGameType(gameType, 'ship-captain-crew') ? 'SHIP' : isGameType(gameType, 'yahtzee') ? 'YAHTZEE' : 'HORSES'}
               </span>
             ) : (
               <>
                 <span className="text-white/30 font-bold text-lg uppercase tracking-wider">
-                  {gameType === 'holm-game' ? 'Holm' : gameType === 'cribbage' ? 'Cribbage' : gameType === 'gin-rummy' ? 'Gin Rummy' : '3-5-7'}
+                  {isGameType(gameType, 'holm-game') ? 'Holm' : isGameType(gameType, 'cribbage') ? 'Cribbage' : isGameType(gameType, 'gin-rummy') ? 'Gin Rummy' : isGameType(gameType, 'holdem') ? "Hold'em" : isGameType(gameType, 'stud') ? 'Stud' : isGameType(gameType, 'acey-deucey') ? 'Acey-Deucey' : isGameType(gameType, 'screw-your-neighbor') ? 'Screw Your Neighbor' : isGameType(gameType, 'left-right-center') ? 'Left Right Center' : isGameType(gameType, 'farkle') ? 'Farkle' : isGameType(gameType, 'liars-dice') ? "Liar's Dice" : isGameType(gameType, 'spades') ? 'Spades' : isGameType(gameType, 'euchre') ? 'Euchre' : isGameType(gameType, 'guts') ? 'Guts' : '3-5-7'}
                 </span>
                 {/* Only show No Limit/Max for non-dice games */}
                 <span className="text-white/40 text-xs font-medium">
                   {potMaxEnabled ? `$${potMaxValue} max` : 'No Limit'}
                 </span>
-                {/* Only show legs for 3-5-7 games (not holm) */}
-                {gameType !== 'holm-game' && (
+                {/* Only show legs for 3-5-7 games (not holm or guts) */}
+                {!isGameType(gameType, 'holm-game') && !isGameType(gameType, 'guts') && (
                   <span className="text-white/40 text-xs font-medium">
                     {legsToWin} legs to win
                   </span>
@@ -3412,7 +3413,7 @@ export const MobileGameTable = ({
         
         
         {/* Turn Spotlight - Holm games and Dice games */}
-        {gameType === 'holm-game' && (() => {
+        {isGameType(gameType, 'holm-game') && (() => {
           // SPOTLIGHT FIX: Compute sticky turn position to prevent "snap back" during DB sync.
           // The spotlight should only move to a NEW position, never revert to a previously visited one.
           const rawTurnPos = currentTurnPosition ?? null;
@@ -3894,7 +3895,7 @@ export const MobileGameTable = ({
         <BucksOnYouAnimation show={showBucksOnYou} onComplete={() => setShowBucksOnYou(false)} />
         
         {/* No Qualify Animation (Ship Captain Crew only) */}
-        {(gameType === 'ship-captain-crew') && (
+        {(isGameType(gameType, 'ship-captain-crew')) && (
           <NoQualifyAnimation 
             show={horsesController.showNoQualifyAnimation} 
             playerName={horsesController.noQualifyPlayerName ?? undefined}
@@ -3903,7 +3904,7 @@ export const MobileGameTable = ({
         )}
         
         {/* Midnight Animation (Ship Captain Crew only - when someone rolls 12) */}
-        {(gameType === 'ship-captain-crew') && (
+        {(isGameType(gameType, 'ship-captain-crew')) && (
           <MidnightAnimation 
             show={horsesController.showMidnightAnimation} 
             playerName={horsesController.midnightPlayerName ?? undefined}
@@ -3949,14 +3950,14 @@ export const MobileGameTable = ({
             return slotCoords[slotIndex] || { top: '85%', left: '40%' };
           })()}
           isWinningLeg={isWinningLegAnimation}
-          suppressWinnerOverlay={gameType !== 'holm-game'} // Suppress for 3-5-7 - has its own win animation
+          suppressWinnerOverlay={!isGameType(gameType, 'holm-game')} // Suppress for 3-5-7 - has its own win animation
           onComplete={() => {
             setShowLegEarned(false);
             legAnimationActiveRef.current = false; // Reset ref so next leg can trigger
             // For 3-5-7: When winning leg animation completes, immediately start the win animation sequence
             // GUARD: Only start if not already in progress (prevents double-firing)
             if (
-              gameType !== 'holm-game' &&
+              !isGameType(gameType, 'holm-game') &&
               isWinningLegAnimation &&
               threeFiveSevenWinnerId &&
               threeFiveSevenWinPhaseRef.current === 'idle'
@@ -3989,7 +3990,7 @@ export const MobileGameTable = ({
         />
         
         {/* 3-5-7 Legs To Player Animation (all legs fly to winner's chip stack) */}
-        {gameType !== 'holm-game' && threeFiveSevenWinPhase === 'legs-to-player' && threeFiveSevenWinnerId && (
+        {!isGameType(gameType, 'holm-game') && threeFiveSevenWinPhase === 'legs-to-player' && threeFiveSevenWinnerId && (
           <LegsToPlayerAnimation
             triggerId={legsToPlayerTriggerId}
             legPositions={threeFiveSevenCachedLegPositions} // Use cached positions from parent
@@ -4004,7 +4005,7 @@ export const MobileGameTable = ({
         )}
         
         {/* 3-5-7 Pot To Player Animation */}
-        {gameType !== 'holm-game' && threeFiveSevenWinPhase === 'pot-to-player' && threeFiveSevenWinnerId && (
+        {!isGameType(gameType, 'holm-game') && threeFiveSevenWinPhase === 'pot-to-player' && threeFiveSevenWinnerId && (
           <PotToPlayerAnimation
             triggerId={potToPlayerTriggerId357}
             amount={threeFiveSevenWinPotAmount}
@@ -4029,7 +4030,7 @@ export const MobileGameTable = ({
         {/* Only show AFTER leg award animation completes (not during 'waiting' phase) */}
         {/* 3-5-7 Winner Cards - tabled IMMEDIATELY when winner is detected (including 'waiting' phase)
             This ensures cards stay in tabled position throughout the entire win animation sequence */}
-        {gameType !== 'holm-game' && threeFiveSevenWinnerId && 
+        {!isGameType(gameType, 'holm-game') && threeFiveSevenWinnerId && 
          threeFiveSevenWinPhase !== 'idle' &&
          threeFiveSevenWinnerCards.length > 0 && 
          (currentRound === 3 || winner357ShowCards) && (
@@ -4090,7 +4091,7 @@ export const MobileGameTable = ({
           return (
             <div 
               className={`absolute left-1/2 transform -translate-x-1/2 z-20 transition-all duration-300 ${
-                gameType === 'holm-game' 
+                isGameType(gameType, 'holm-game') 
                   ? (isHolmMultiPlayerShowdown ? 'top-[50%] -translate-y-full' : 'top-[35%] -translate-y-full')
                   : isDiceGame
                     ? 'top-[28%] -translate-y-full'  /* Dice games: moved up since label is now single line */
@@ -4104,7 +4105,7 @@ export const MobileGameTable = ({
             >
               <div className={cn(
                 "relative bg-black/70 backdrop-blur-sm rounded-full border border-poker-gold/60",
-                gameType === 'holm-game' || isDiceGame 
+                isGameType(gameType, 'holm-game') || isDiceGame 
                   ? (isTablet ? 'px-10 py-4' : isDesktop ? 'px-8 py-3' : 'px-5 py-1.5')
                   : is357MultiPlayerShowdown 
                     ? (isTablet ? 'px-5 py-2' : 'px-3 py-1')
@@ -4112,14 +4113,14 @@ export const MobileGameTable = ({
               )}>
                 <span className={cn(
                   "text-poker-gold font-bold",
-                  gameType === 'holm-game' || isDiceGame 
+                  isGameType(gameType, 'holm-game') || isDiceGame 
                     ? (isTablet ? 'text-4xl' : isDesktop ? 'text-3xl' : 'text-xl')
                     : is357MultiPlayerShowdown 
                       ? (isTablet ? 'text-xl' : 'text-base')
                       : (isTablet ? 'text-4xl' : 'text-3xl')
                 )}>${formatChipValue(Math.round(
                   // Use cached pot during 3-5-7 win animation sequence (any non-idle phase)
-                  gameType !== 'holm-game' && threeFiveSevenWinPhase !== 'idle' && threeFiveSevenWinPotAmount > 0
+                  !isGameType(gameType, 'holm-game') && threeFiveSevenWinPhase !== 'idle' && threeFiveSevenWinPotAmount > 0
                     ? threeFiveSevenWinPotAmount 
                     : isInitialAntePending
                       ? 0
@@ -4249,7 +4250,7 @@ export const MobileGameTable = ({
 
         {/* Dice game felt dice OR result (rolls happen on the felt, not in the bottom section) */}
         {isDiceGame && horsesController.enabled && (() => {
-          const logPrefix = `[FELT_BLOCK_DEBUG ${gameType === 'ship-captain-crew' ? 'SCC' : 'HORSES'}]`;
+          const logPrefix = `[FELT_BLOCK_DEBUG ${isGameType(gameType, 'ship-captain-crew') ? 'SCC' : 'HORSES'}]`;
 
           const FELT_STICKY_MS = 1200;
 
@@ -4343,7 +4344,7 @@ export const MobileGameTable = ({
             const winningResultToBeat = liveWinningResult ?? 
               (cachedWinningResultRef.current ? { description: cachedWinningResultRef.current.description } : null);
             const winningDice = liveWinningDice ?? cachedWinningResultRef.current?.dice;
-            const isSCCGame = gameType === 'ship-captain-crew';
+            const isSCCGame = isGameType(gameType, 'ship-captain-crew');
             
             // For SCC, get cargo dice (non-SCC dice with value > 0)
             const cargoDice = isSCCGame && winningDice 
@@ -4390,7 +4391,7 @@ export const MobileGameTable = ({
                           />
                         ))}
                       </div>
-                    ) : gameType === 'horses' ? (
+                    ) : isGameType(gameType, 'horses') ? (
                       // Horses: Show result display
                       <HorsesHandResultDisplay 
                         description={winningResultToBeat.description} 
@@ -4459,7 +4460,7 @@ export const MobileGameTable = ({
                       isCurrentTurnWinning && "bg-green-600 text-white",
                     )}
                   >
-                    {gameType === 'horses' ? (
+                    {isGameType(gameType, 'horses') ? (
                       <HorsesHandResultDisplay 
                         description={currentTurnResult.description} 
                         isWinning={isCurrentTurnWinning}
@@ -4503,7 +4504,7 @@ export const MobileGameTable = ({
                           )}>
                             Beat:
                           </span>
-                          {gameType === 'ship-captain-crew' && (() => {
+                          {isGameType(gameType, 'ship-captain-crew') && (() => {
                             const cargo = winDice ? (winDice as SCCDieType[]).filter(d => !d.isSCC && d.value > 0) : [];
                             return cargo.length === 2 ? (
                               <div className={cn("flex items-center", isTablet ? "gap-2" : "gap-1")}>
@@ -4522,7 +4523,7 @@ export const MobileGameTable = ({
                               </div>
                             ) : null;
                           })()}
-                          {gameType === 'horses' && (
+                          {isGameType(gameType, 'horses') && (
                             <HorsesHandResultDisplay
                               description={winResult.description}
                               isWinning={true}
@@ -4566,9 +4567,9 @@ export const MobileGameTable = ({
                   canToggle={false}
                   size="md"
                   gameType={gameType ?? undefined}
-                  showWildHighlight={gameType !== 'ship-captain-crew'}
-                  useSCCDisplayOrder={gameType === 'ship-captain-crew'}
-                  sccHand={gameType === 'ship-captain-crew' ? { dice: (showDice ? diceArray! : fallbackDice) as SCCDieType[] } as SCCHand : undefined}
+                  showWildHighlight={!isGameType(gameType, 'ship-captain-crew')}
+                  useSCCDisplayOrder={isGameType(gameType, 'ship-captain-crew')}
+                  sccHand={isGameType(gameType, 'ship-captain-crew') ? { dice: (showDice ? diceArray! : fallbackDice) as SCCDieType[] } as SCCHand : undefined}
                   isObserver={true}
                   hideUnrolledDice={!((horsesController.feltDice as any)?.rollKey)}
                   heldMaskBeforeComplete={(horsesController.feltDice as any)?.heldMaskBeforeComplete}
@@ -4585,7 +4586,7 @@ export const MobileGameTable = ({
 
         {/* Solo player's Tabled Cards - shown above pot during solo-vs-Chucky showdown/win */}
         {/* NOTE: Also show to the solo player themselves (we hide their bottom-hand view while solo-vs-Chucky is active). */}
-        {gameType === 'holm-game' && isSoloVsChucky && (() => {
+        {isGameType(gameType, 'holm-game') && isSoloVsChucky && (() => {
           // Find the solo player (use locked id so tabling persists even if decisions clear)
           // NOTE: Do NOT fall back to winnerPlayerId here; it can be stale during hand transitions
           // and can briefly table the wrong player's cards (causing flicker/incorrect tabling).
@@ -4683,7 +4684,7 @@ export const MobileGameTable = ({
         
         {(() => {
           const shouldShow =
-            gameType === "holm-game" &&
+            isGameType(gameType, 'holm-game') &&
             approvedCommunityCards &&
             approvedCommunityCards.length > 0 &&
             showCommunityCards &&
@@ -4754,7 +4755,7 @@ export const MobileGameTable = ({
 
         {/* Chucky's Hand - use cached values to persist through announcement */}
         {/* DIM Chucky's cards when player wins (winnerPlayerId is set and it's a player, not Chucky) */}
-        {gameType === 'holm-game' && cachedChuckyActive && cachedChuckyCards && cachedChuckyCards.length > 0 && (
+        {isGameType(gameType, 'holm-game') && cachedChuckyActive && cachedChuckyCards && cachedChuckyCards.length > 0 && (
           <div 
             className={cn(
               "absolute left-1/2 transform -translate-x-1/2 z-10 flex items-center transition-all duration-300",
@@ -4812,7 +4813,7 @@ export const MobileGameTable = ({
         {/* This displays during the pot-to-winner animation so cards are visible */}
         {/* Don't show tabled cards to the winner themselves - they can see their own cards in their player card area */}
         {/* SKIP if cards are already tabled via solo vs Chucky - they're already in position */}
-        {gameType === 'holm-game' && holmWinPotTriggerId && winnerPlayerId && winnerCards.length > 0 && winnerPlayerId !== currentPlayer?.id && !isSoloVsChucky && (
+        {isGameType(gameType, 'holm-game') && holmWinPotTriggerId && winnerPlayerId && winnerCards.length > 0 && winnerPlayerId !== currentPlayer?.id && !isSoloVsChucky && (
           <div className="absolute top-2 left-1/2 transform -translate-x-1/2 z-20 flex flex-col items-center gap-1">
             <div 
               className="flex"
@@ -5031,7 +5032,7 @@ export const MobileGameTable = ({
         {/* Dealer button is now shown on player chip stacks (OUTSIDE position), no separate felt button needed */}
         
         {/* Buck indicator on felt - Holm games only, hide only during active showdown (not locked) */}
-        {gameType === 'holm-game' && buckPosition !== null && buckPosition !== undefined && !isAnyPlayerInShowdownRaw && (() => {
+        {isGameType(gameType, 'holm-game') && buckPosition !== null && buckPosition !== undefined && !isAnyPlayerInShowdownRaw && (() => {
         // CRITICAL: For observers (!currentPlayer), use ABSOLUTE position mapping
         // For seated players, use relative slots based on clockwise distance
         const isObserver = !currentPlayer;
@@ -5099,7 +5100,7 @@ export const MobileGameTable = ({
         
         {/* Current player's legs indicator on felt - 3-5-7 games only */}
         {/* Use a stable snapshot during the win transition so legs don't disappear/reappear mid-sequence */}
-        {gameType !== 'holm-game' && currentPlayer && (() => {
+        {!isGameType(gameType, 'holm-game') && currentPlayer && (() => {
           const hideLegsForWinAnimation =
             threeFiveSevenWinPhase === 'legs-to-player' ||
             threeFiveSevenWinPhase === 'pot-to-player' ||
@@ -5285,7 +5286,7 @@ export const MobileGameTable = ({
               </p>
             </div>
           ) : isGameOver && lastRoundResult && !(
-            gameType !== 'holm-game' && (
+            !isGameType(gameType, 'holm-game') && (
               threeFiveSevenWinTriggerId || 
               threeFiveSevenWinPhase !== 'idle' ||
               lastRoundResult.includes('won the game') ||
@@ -5296,14 +5297,14 @@ export const MobileGameTable = ({
             /* CRITICAL: Filter out Holm-specific "beat Chucky" messages for non-Holm games */
             <div className="w-full bg-poker-gold/95 backdrop-blur-sm rounded-lg px-4 py-2 shadow-xl border-2 border-amber-900">
               <p className="text-slate-900 font-bold text-sm text-center truncate">
-                {gameType !== 'holm-game' && lastRoundResult.includes('beat Chucky') 
+                {!isGameType(gameType, 'holm-game') && lastRoundResult.includes('beat Chucky') 
                   ? '🏆 Game Complete!' 
-                  : gameType !== 'holm-game' ? format357ShowdownAnnouncement : lastRoundResult.split('|||')[0]}
+                  : !isGameType(gameType, 'holm-game') ? format357ShowdownAnnouncement : lastRoundResult.split('|||')[0]}
               </p>
             </div>
           ) : !isGameOver && lastRoundResult && !lastRoundResult.startsWith('357_SWEEP:') && 
-             !(gameType !== 'holm-game' && lastRoundResult.includes('won the game')) &&
-             !(gameType !== 'holm-game' && threeFiveSevenWinTriggerId && lastRoundResult.includes('won a leg')) &&
+             !(!isGameType(gameType, 'holm-game') && lastRoundResult.includes('won the game')) &&
+             !(!isGameType(gameType, 'holm-game') && threeFiveSevenWinTriggerId && lastRoundResult.includes('won a leg')) &&
              // CRITICAL FIX: Never show prior round result during configuring or ante_decision phases
              // These are setup phases for a NEW hand - we should show dealer/ante messages instead
              gameStatus !== 'configuring' && gameStatus !== 'ante_decision' &&
@@ -5312,9 +5313,9 @@ export const MobileGameTable = ({
             /* CRITICAL: Filter out Holm-specific "beat Chucky" messages for non-Holm games */
             <div className="w-full bg-poker-gold/95 backdrop-blur-sm rounded-lg px-4 py-2 shadow-xl border-2 border-amber-900">
               <p className="text-slate-900 font-bold text-sm text-center truncate">
-                {gameType !== 'holm-game' && lastRoundResult.includes('beat Chucky') 
+                {!isGameType(gameType, 'holm-game') && lastRoundResult.includes('beat Chucky') 
                   ? '🏆 Game Complete!' 
-                  : gameType !== 'holm-game' ? format357ShowdownAnnouncement : lastRoundResult.split('|||')[0]}
+                  : !isGameType(gameType, 'holm-game') ? format357ShowdownAnnouncement : lastRoundResult.split('|||')[0]}
               </p>
             </div>
           ) : gameStatus === 'ante_decision' ? (
@@ -5431,14 +5432,14 @@ export const MobileGameTable = ({
             <div className="px-2 flex flex-col flex-1">
             {/* Cards display - FIRST (above action buttons) */}
             {(() => {
-              const isWinner357InAnimation = gameType !== 'holm-game' && 
+              const isWinner357InAnimation = !isGameType(gameType, 'holm-game') && 
                 threeFiveSevenWinnerId === currentPlayer?.id && 
                 threeFiveSevenWinPhase !== 'idle';
 
               // Card scaling - maximize use of vertical space
               // TABLET: Much bigger 357 R1 cards and all cards scaled up
               const currentPlayerHandScaleClass =
-                gameType !== "holm-game"
+                !isGameType(gameType, 'holm-game')
                   ? (currentRound === 1
                       ? (isTablet || isDesktop ? "scale-[2.8]" : "scale-[1.6]") // MUCH bigger R1 on tablet
                       : currentRound === 2
@@ -5449,7 +5450,7 @@ export const MobileGameTable = ({
               // Reserve space - must fully contain scaled cards so they don't overflow on tablet
               // TABLET: Adjusted card height reserve for smaller scale
               const currentPlayerHandReserveClass =
-                gameType === "holm-game"
+                isGameType(gameType, 'holm-game')
                   ? (isTablet || isDesktop ? "min-h-[170px]" : "min-h-[130px]") // Holm tablet - smaller reserve for smaller scale
                   : (currentRound === 1
                       ? (isTablet || isDesktop ? "min-h-[200px]" : "min-h-[120px]") // Taller for tablet R1
@@ -5466,7 +5467,7 @@ export const MobileGameTable = ({
               return (
                 <div className={cn(
                   "flex flex-col items-center",
-                  gameType !== "holm-game" ? "gap-0" : "gap-0",
+                  !isGameType(gameType, 'holm-game') ? "gap-0" : "gap-0",
                 )}>
                   {/* Dealer Selection Cards for current player */}
                   {showDealerSelectionCards ? (
@@ -5550,7 +5551,7 @@ export const MobileGameTable = ({
                       <span className="text-sm text-muted-foreground italic">Cards on the felt</span>
                     </div>
                   ) : currentPlayerCards.length > 0 ? (
-                    <div className={cn("flex items-start justify-center", currentPlayerHandReserveClass, gameType !== 'holm-game' && currentRound === 1 ? "w-auto" : "w-full")}>
+                    <div className={cn("flex items-start justify-center", currentPlayerHandReserveClass, !isGameType(gameType, 'holm-game') && currentRound === 1 ? "w-auto" : "w-full")}>
                       <div
                         className={`transform ${currentPlayerHandScaleClass} origin-top ${isPlayerTurn && roundStatus === 'betting' && !hasDecided && !isPaused && timeLeft !== null && timeLeft <= 3 ? 'animate-rapid-flash' : ''} ${(isShowingAnnouncement && winnerPlayerId && !isCurrentPlayerWinner && currentPlayer?.current_decision === 'stay') || currentPlayer?.current_decision === 'fold' ? 'opacity-40 grayscale-[30%]' : ''}`}
                       >
@@ -5562,7 +5563,7 @@ export const MobileGameTable = ({
                           hasHighlights={isCurrentPlayerWinner && winningCardHighlights.hasHighlights}
                           gameType={gameType}
                           currentRound={currentRound}
-                          showSeparated={gameType !== 'holm-game' && currentRound === 3 && currentPlayerCards.length === 7}
+                          showSeparated={!isGameType(gameType, 'holm-game') && currentRound === 3 && currentPlayerCards.length === 7}
                           tightOverlap={isHolmMultiPlayerShowdown}
                         />
                       </div>
@@ -5574,7 +5575,7 @@ export const MobileGameTable = ({
                         <PlayerHand 
                           cards={[]}
                           isHidden={true}
-                          expectedCardCount={gameType === 'holm-game' ? 2 : (currentRound === 1 ? 3 : currentRound === 2 ? 5 : 7)}
+                          expectedCardCount={isGameType(gameType, 'holm-game') ? 2 : (currentRound === 1 ? 3 : currentRound === 2 ? 5 : 7)}
                         />
                       </div>
                     </div>
@@ -5625,7 +5626,7 @@ export const MobileGameTable = ({
                       isTablet ? "w-[160px] text-lg h-14" : "w-[100px] text-sm h-9"
                     )}
                   >
-                    {gameType === 'holm-game' ? 'Fold' : 'Drop'}
+                    {isGameType(gameType, 'holm-game') ? 'Fold' : 'Drop'}
                   </Button>
                   <Button 
                     size="default" 
@@ -5653,7 +5654,7 @@ export const MobileGameTable = ({
                 >
                   ✓ {(pendingDecision || currentPlayer.current_decision) === "stay" ? "STAYED" : "FOLDED"}
                 </Badge>
-              ) : gameType === 'holm-game' && !canDecide && !hasDecided && roundStatus === 'betting' && currentPlayerCards.length > 0 && !currentPlayer?.auto_fold ? (
+              ) : isGameType(gameType, 'holm-game') && !canDecide && !hasDecided && roundStatus === 'betting' && currentPlayerCards.length > 0 && !currentPlayer?.auto_fold ? (
                 /* Holm pre-decision checkboxes - render in same spot as action buttons */
                 <div className="flex items-center justify-center gap-6">
                   <label className="flex items-center gap-2 cursor-pointer">
@@ -5685,7 +5686,7 @@ export const MobileGameTable = ({
                 /* Placeholder while waiting for cards - maintains layout stability */
                 <div className="flex gap-2 justify-center opacity-0 pointer-events-none">
                   <Button variant="destructive" size="default" className="flex-1 max-w-[120px] text-sm font-bold h-9">
-                    {gameType === 'holm-game' ? 'Fold' : 'Drop'}
+                    {isGameType(gameType, 'holm-game') ? 'Fold' : 'Drop'}
                   </Button>
                   <Button size="default" className="flex-1 max-w-[120px] bg-poker-chip-green text-white text-sm font-bold h-9">
                     Stay
@@ -5756,7 +5757,7 @@ export const MobileGameTable = ({
                   manualTrigger={winnerPotFlashTrigger?.playerId === currentPlayer.id ? { id: winnerPotFlashTrigger.id, amount: winnerPotFlashTrigger.amount } : null}
                 />
               </div>
-              {currentPlayerCards.length > 0 && gameType === 'holm-game' && chuckyActive && !isGameOver && !allDecisionsIn && roundStatus === 'betting' && <Badge className="bg-poker-gold/20 text-poker-gold border-poker-gold/40 text-xs px-2 py-0.5">
+              {currentPlayerCards.length > 0 && isGameType(gameType, 'holm-game') && chuckyActive && !isGameOver && !allDecisionsIn && roundStatus === 'betting' && <Badge className="bg-poker-gold/20 text-poker-gold border-poker-gold/40 text-xs px-2 py-0.5">
                   {formatHandRank(evaluateHand(currentPlayerCards, false).rank)}
                 </Badge>}
             </div>
@@ -5831,7 +5832,7 @@ export const MobileGameTable = ({
               <h3 className="text-sm font-bold text-foreground">Game Lobby</h3>
               <div className="flex items-center gap-2">
                 <Badge variant="outline" className="text-xs">
-                  {gameType === 'holm-game' ? 'Holm' : isDiceGame ? (gameType === 'ship-captain-crew' ? 'Ship' : 'Horses') : '3-5-7'}
+                  {isGameType(gameType, 'holm-game') ? 'Holm' : isDiceGame ? (isGameType(gameType, 'ship-captain-crew') ? 'Ship' : 'Horses') : isGameType(gameType, 'guts') ? 'Guts' : '3-5-7'}
                 </Badge>
                 <span className="text-xs text-muted-foreground">
                   Pot: <span className="text-poker-gold font-bold">${Math.round(displayedPot)}</span>
@@ -5855,14 +5856,14 @@ export const MobileGameTable = ({
                         {player.profiles?.username || (player.is_bot ? `Bot ${player.position}` : `P${player.position}`)}
                       </span>
                       {isDealing && !is357MultiPlayerShowdown && <span className="text-[9px] px-1 py-0 bg-poker-gold text-black rounded font-bold">D</span>}
-                      {hasBuck && gameType === 'holm-game' && <span className="text-[9px] px-1 py-0 bg-amber-600 text-white rounded font-bold">B</span>}
+                      {hasBuck && isGameType(gameType, 'holm-game') && <span className="text-[9px] px-1 py-0 bg-amber-600 text-white rounded font-bold">B</span>}
                       {player.is_bot && <span className="text-[9px] text-muted-foreground">(Bot)</span>}
                       {player.auto_fold && !player.is_bot && !player.sitting_out && <span className="text-[9px] text-amber-400 italic">folding</span>}
                       {player.sitting_out && <span className="text-[9px] text-muted-foreground italic">out</span>}
                     </div>
                     
                     <div className="flex items-center gap-2 flex-shrink-0">
-                      {gameType !== 'holm-game' && player.legs > 0 && (
+                      {!isGameType(gameType, 'holm-game') && player.legs > 0 && (
                         <div className="flex">
                           {Array.from({ length: Math.min(player.legs, legsToWin) }).map((_, i) => (
                             <div 
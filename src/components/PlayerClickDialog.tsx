@@ -7,8 +7,11 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { getBotAlias } from "@/lib/botAlias";
+import { isGameType } from "@/lib/gameTypes";
+import { CRIBBAGE_BOT_DIFFICULTIES, toCribbageBotDifficulty } from "@/lib/cribbageBotLogic";
 
 interface ClickedPlayer {
   id: string;
@@ -17,6 +20,7 @@ interface ClickedPlayer {
   sitting_out: boolean;
   waiting?: boolean;
   is_bot: boolean;
+  bot_difficulty?: string;
   created_at?: string;
   profiles?: {
     username: string;
@@ -29,6 +33,7 @@ interface PlayerClickDialogProps {
   player: ClickedPlayer | null;
   players: ClickedPlayer[];
   gameId: string;
+  gameType?: string | null;
   isHost: boolean;
   currentUserId?: string;
   onUpdate: () => void;
@@ -40,6 +45,7 @@ export const PlayerClickDialog = ({
   player,
   players,
   gameId,
+  gameType,
   isHost,
   currentUserId,
   onUpdate,
@@ -111,6 +117,20 @@ export const PlayerClickDialog = ({
     }
   };
   
+  // Takes effect on the bot's next decision
+  const handleDifficultyChange = async (difficulty: string) => {
+    setUpdating(true);
+    try {
+      await supabase
+        .from('players')
+        .update({ bot_difficulty: difficulty })
+        .eq('id', player.id);
+      onUpdate();
+    } finally {
+      setUpdating(false);
+    }
+  };
+  
   const handleRejoinNextHand = async () => {
     setUpdating(true);
     try {
@@ -158,6 +178,26 @@ export const PlayerClickDialog = ({
           {/* Bot control options - only for bots */}
           {player.is_bot && isHost && (
             <>
+              {isGameType(gameType, 'cribbage') && (
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-muted-foreground">Skill</span>
+                  <Select
+                    value={toCribbageBotDifficulty(player.bot_difficulty)}
+                    onValueChange={handleDifficultyChange}
+                    disabled={updating}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CRIBBAGE_BOT_DIFFICULTIES.map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              
               {isSittingOut ? (
                 <Button
                   variant="outline"
@@ -1,4 +1,5 @@
 import { Card as CardType, Rank, getBestFiveCardIndices } from "@/lib/cardUtils";
+import { isGameType } from "@/lib/gameTypes";
 import { PlayingCard, getCardSize, CardSize } from "@/components/PlayingCard";
 
 interface PlayerHandProps {
@@ -48,7 +49,7 @@ export const PlayerHand = ({
   };
   
   // Determine wild rank for 3-5-7 games
-  const is357Game = gameType === '3-5-7' || gameType === '3-5-7-game';
+  const is357Game = isGameType(gameType, '3-5-7');
   const wildRank = is357Game ? getWildRank(currentRound) : null;
   
   // For round 3 with 7 cards, separate into used and unused
@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { formatChipValue } from '@/lib/utils';
+import { isGameType, usesHorsesTable } from '@/lib/gameTypes';
 
 interface PotToPlayerAnimationProps {
   triggerId: string | null;
@@ -54,7 +55,7 @@ export const PotToPlayerAnimation: React.FC<PotToPlayerAnimationProps> = ({
   // Pot center position - different for Holm vs 3-5-7
   const getPotCenter = (rect: DOMRect): { x: number; y: number } => {
     // 3-5-7: pot is centered vertically (50%), Holm: pot is higher (38%)
-    const yPercent = gameType === 'holm-game' ? 0.38 : 0.5;
+    const yPercent = isGameType(gameType, 'holm-game') ? 0.38 : 0.5;
     return {
       x: rect.width * 0.5,
       y: rect.height * yPercent,
@@ -295,7 +296,7 @@ export const PotToPlayerAnimation: React.FC<PotToPlayerAnimationProps> = ({
   if (!animation) return null;
 
   // Fast-ish for dice games, slower for card games
-  const isDiceGame = gameType === 'horses' || gameType === 'ship-captain-crew';
+  const isDiceGame = usesHorsesTable(gameType);
   const animDuration = isDiceGame ? '1.6s' : '3.2s';
   const timingFn = isDiceGame ? 'linear' : 'ease-in-out';
 
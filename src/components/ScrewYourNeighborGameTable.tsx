@@ -0,0 +1,669 @@
+// Screw Your Neighbor Game Table - Mobile layout following AceyDeuceyGameTable
+// Circular felt with the seats laid out the way TurnSpotlight aims (the viewer at the bottom,
+// the rest clockwise by seat), each with their card and lives, and the pot in the middle.
+// The spotlight follows rounds.current_turn_position. The stored state has only the kings
+// turned up: each player's own card comes from player_cards, a swap goes through the server,
+// and at the showdown the table reads every card to turn them up.
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useWakeLock } from '@/hooks/useWakeLock';
+import type { Card } from '@/lib/cardUtils';
+import type { ScrewYourNeighborMove, ScrewYourNeighborState } from '@/lib/screwYourNeighborTypes';
+import { screwYourNeighborModule, type ScrewYourNeighborAction } from '@/lib/screwYourNeighborModule';
+import {
+  getScrewYourNeighborLeftNeighbor,
+  getScrewYourNeighborSurvivors,
+  hideScrewYourNeighborCards,
+  withScrewYourNeighborCard,
+} from '@/lib/screwYourNeighborGameLogic';
+import {
+  endScrewYourNeighborGame,
+  fetchScrewYourNeighborCard,
+  recordScrewYourNeighborHandResult,
+  startNextScrewYourNeighborHand,
+  storeScrewYourNeighborCard,
+  swapScrewYourNeighborCards,
+  updateScrewYourNeighborState,
+} from '@/lib/screwYourNeighborRoundLogic';
+import { logModuleAction, recordDraws } from '@/lib/handActionLog';
+import { runWithServerDeck } from '@/lib/handFairness';
+import { PlayingCard } from './PlayingCard';
+import { ChipStack } from './ChipStack';
+import { ChipChangeIndicator } from './ChipChangeIndicator';
+import { PotToPlayerAnimation } from './PotToPlayerAnimation';
+import { TurnSpotlight } from './TurnSpotlight';
+import { MobileChatPanel } from './MobileChatPanel';
+import { HandHistory } from './HandHistory';
+import { Button } from '@/components/ui/button';
+import { useVisualPreferences } from '@/hooks/useVisualPreferences';
+import { useGameChat } from '@/hooks/useGameChat';
+import { cn, formatChipValue } from '@/lib/utils';
+import { getDisplayName } from '@/lib/botAlias';
+import peoriaBridgeMobile from '@/assets/peoria-bridge-mobile.jpg';
+import { MessageSquare, Clock, Spade, Heart } from 'lucide-react';
+
+interface Player {
+  id: string;
+  user_id: string;
+  position: number;
+  chips: number;
+  is_bot?: boolean;
+  profiles?: { username: string };
+}
+
+interface ScrewYourNeighborGameTableProps {
+  gameId: string;
+  roundId: string;
+  dealerGameId: string | null;
+  players: Player[];
+  currentUserId: string;
+  pot: number;
+  isGameOver: boolean;
+  onGameComplete: () => void;
+  onRefetch: () => void;
+}
+
+// Angles TurnSpotlight points at (degrees clockwise from the top): by how many seats
+// clockwise from the viewer, or by absolute seat for observers
+const SLOT_ANGLES: Record<number, number> = { 0: 180, 1: -135, 2: -90, 3: -45, 4: 45, 5: 90, 6: 135 };
+const OBSERVER_ANGLES: Record<number, number> = { 1: -45, 2: -90, 3: -135, 4: 180, 5: 135, 6: 90, 7: 45 };
+
+function getSeatSpot(angle: number): { left: string; top: string } {
+  const radians = (angle * Math.PI) / 180;
+  return {
+    left: `${50 + Math.sin(radians) * 38}%`,
+    top: `${50 - Math.cos(radians) * 38}%`,
+  };
+}
+
+export const ScrewYourNeighborGameTable = ({
+  gameId,
+  roundId,
+  dealerGameId,
+  players,
+  currentUserId,
+  pot,
+  isGameOver,
+  onGameComplete,
+  onRefetch,
+}: ScrewYourNeighborGameTableProps) => {
+  const { getTableColors } = useVisualPreferences();
+  const tableColors = getTableColors();
+
+  // Prevent screen from dimming during gameplay
+  useWakeLock(true);
+
+  const { allMessages, sendMessage, isSending: isChatSending } = useGameChat(gameId, players, currentUserId);
+
+  const [synState, setSynState] = useState<ScrewYourNeighborState | null>(null);
+  const [myCard, setMyCard] = useState<Card | null>(null);
+  const [turnPosition, setTurnPosition] = useState<number | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [activeTab, setActiveTab] = useState<'cards' | 'chat' | 'history'>('cards');
+  // Polls right after a local write can still return the state from before it
+  const optimisticUntilRef = useRef(0);
+  const feltRef = useRef<HTMLDivElement>(null);
+
+  const currentPlayer = players.find(p => p.user_id === currentUserId);
+  const currentPlayerId = currentPlayer?.id;
+
+  // Reset per-hand state when a new hand is dealt
+  useEffect(() => {
+    setSynState(null);
+    setMyCard(null);
+    setTurnPosition(null);
+  }, [roundId]);
+
+  // Realtime subscription + polling fallback (same as gin rummy)
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!roundId) return;
+    let isActive = true;
+
+    const applyRound = (round: { game_state?: unknown; current_turn_position?: number | null }, source: string) => {
+      if (!isActive || !round.game_state) return;
+      if (source === 'poll' && Date.now() < optimisticUntilRef.current) return;
+      setSynState(round.game_state as ScrewYourNeighborState);
+      setTurnPosition(round.current_turn_position ?? null);
+    };
+
+    const channel = supabase
+      .channel(`screw-your-neighbor-${roundId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'rounds',
+          filter: `id=eq.${roundId}`,
+        },
+        (payload) => applyRound(payload.new as { game_state?: unknown; current_turn_position?: number | null }, 'realtime')
+      )
+      .subscribe();
+
+    const poll = async () => {
+      if (!isActive) return;
+
+      try {
+        const { data } = await supabase
+          .from('rounds')
+          .select('game_state, current_turn_position')
+          .eq('id', roundId)
+          .maybeSingle();
+
+        if (data) applyRound(data, 'poll');
+      } catch {
+        // Silent fail
+      }
+
+      if (isActive) {
+        pollTimerRef.current = setTimeout(poll, 1500);
+      }
+    };
+
+    // The first poll loads the hand
+    pollTimerRef.current = setTimeout(poll, 0);
+
+    return () => {
+      isActive = false;
+      if (pollTimerRef.current) clearTimeout(pollTimerRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [roundId]);
+
+  // My card (player_cards is written just before the state, but retry in case it lags).
+  // It changes hands on a swap with either neighbor, or on my cut as the dealer.
+  const myCardMoves = synState?.moves.filter(move =>
+    move.type === 'cut'
+      ? move.playerId === currentPlayerId
+      : move.type === 'swap' && (move.playerId === currentPlayerId || move.targetPlayerId === currentPlayerId)
+  ).length ?? 0;
+  const isSeated = !!currentPlayerId && !!synState?.seatOrder.includes(currentPlayerId);
+
+  useEffect(() => {
+    if (!roundId || !currentPlayerId || !isSeated) return;
+
+    let cancelled = false;
+    const load = async () => {
+      const card = await fetchScrewYourNeighborCard(roundId, currentPlayerId);
+      if (cancelled) return;
+      if (card) setMyCard(card);
+      else setTimeout(load, 1000);
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [roundId, currentPlayerId, isSeated, myCardMoves]);
+
+  const getPosition = useCallback(
+    (playerId: string | null) => (playerId ? players.find(p => p.id === playerId)?.position ?? null : null),
+    [players]
+  );
+
+  // Apply an action to the stored state, with the mover's card put back, and write it back
+  // without it. The cut is the next card of the server's deck; the values drawn go into the
+  // action log for replays. A swap is made on the server, which stores the state itself.
+  const dispatch = useCallback(async (state: ScrewYourNeighborState, action: ScrewYourNeighborAction, card: Card | null) => {
+    if (action.type === 'swap') {
+      const swapped = await swapScrewYourNeighborCards(roundId);
+      void logModuleAction(roundId, state, { ...action, blockedBy: swapped.blockedBy });
+      if (action.playerId === currentPlayerId) setMyCard(swapped.card);
+      optimisticUntilRef.current = Date.now() + 1500;
+      setSynState(swapped.state);
+      setTurnPosition(getPosition(swapped.state.currentTurnPlayerId));
+      return;
+    }
+
+    // A king turned up goes into the log: it's face up from here on
+    const logged: ScrewYourNeighborAction = action.type === 'king' && card ? { ...action, card } : action;
+    const known = card ? withScrewYourNeighborCard(state, action.playerId, card) : state;
+    const { next, draws } = await runWithServerDeck(
+      gameId,
+      52,
+      deck => {
+        const { random, draws } = recordDraws(deck);
+        return { next: screwYourNeighborModule.reduce(known, logged, random), draws };
+      },
+      () => (action.type === 'cut' ? 1 : 0)
+    );
+
+    if (action.type === 'cut') {
+      const cutCard = next.cards[action.playerId];
+      await storeScrewYourNeighborCard(roundId, action.playerId, cutCard);
+      if (action.playerId === currentPlayerId) setMyCard(cutCard);
+    }
+
+    const nextPosition = getPosition(next.currentTurnPlayerId);
+    void logModuleAction(roundId, state, logged, draws);
+    optimisticUntilRef.current = Date.now() + 1500;
+    setSynState(hideScrewYourNeighborCards(next));
+    setTurnPosition(nextPosition);
+    await updateScrewYourNeighborState(roundId, next, nextPosition);
+  }, [gameId, roundId, currentPlayerId, getPosition]);
+
+  const fetchStoredState = useCallback(async (): Promise<ScrewYourNeighborState | null> => {
+    const { data } = await supabase
+      .from('rounds')
+      .select('game_state')
+      .eq('id', roundId)
+      .maybeSingle();
+    return (data?.game_state as unknown as ScrewYourNeighborState | null) ?? null;
+  }, [roundId]);
+
+  // ─── Bot Action Loop ────────────────────────────────────────────
+  const botActionInProgress = useRef(false);
+
+  useEffect(() => {
+    if (!synState || synState.phase !== 'swapping' || botActionInProgress.current) return;
+
+    const botId = synState.currentTurnPlayerId;
+    if (!botId || !players.find(p => p.id === botId)?.is_bot) return;
+
+    const runBotAction = async () => {
+      if (botActionInProgress.current) return;
+      botActionInProgress.current = true;
+
+      try {
+        // Add a human-like delay
+        await new Promise(resolve => setTimeout(resolve, 1200 + Math.random() * 800));
+
+        // Re-fetch latest state to prevent stale-closure issues
+        const state = await fetchStoredState();
+        if (!state || state.phase !== 'swapping' || state.currentTurnPlayerId !== botId) return;
+
+        // The bot decides looking at its card; the stored state never gets it
+        const card = await fetchScrewYourNeighborCard(roundId, botId);
+        if (!card) return;
+        const action = screwYourNeighborModule.botAction(withScrewYourNeighborCard(state, botId, card), botId);
+        if (action) await dispatch(state, action, card);
+      } catch (err) {
+        console.error('[SYN BOT] Error:', err);
+      } finally {
+        botActionInProgress.current = false;
+      }
+    };
+
+    const timeout = setTimeout(runBotAction, 300);
+    return () => clearTimeout(timeout);
+  }, [synState, players, roundId, dispatch, fetchStoredState]);
+
+  // ─── Showdown ───────────────────────────────────────────────────
+  // The round's showdown status opens player_cards, so any client can turn the cards up
+  const revealInProgress = useRef(false);
+
+  useEffect(() => {
+    if (!synState || synState.phase !== 'showdown' || revealInProgress.current) return;
+
+    const timeout = setTimeout(async () => {
+      if (revealInProgress.current) return;
+      revealInProgress.current = true;
+      try {
+        const state = await fetchStoredState();
+        if (!state || state.phase !== 'showdown') return;
+        const cards = await Promise.all(state.seatOrder.map(id => fetchScrewYourNeighborCard(roundId, id)));
+        if (cards.every(Boolean)) {
+          await dispatch(
+            state,
+            { type: 'reveal', playerId: state.dealerPlayerId, cards: Object.fromEntries(state.seatOrder.map((id, i) => [id, cards[i]!])) },
+            null
+          );
+        }
+      } catch (err) {
+        console.error('[SYN] Reveal error:', err);
+      } finally {
+        revealInProgress.current = false;
+      }
+    }, 900);
+    return () => clearTimeout(timeout);
+  }, [synState, roundId, dispatch, fetchStoredState]);
+
+  const getClockwiseDistance = useCallback((position: number) => {
+    const myPosition = currentPlayer?.position ?? 1;
+    return (position - myPosition + 7) % 7;
+  }, [currentPlayer?.position]);
+
+  // ─── Pot to the Last One Standing ───────────────────────────────
+  const [potToPlayer, setPotToPlayer] = useState<{ triggerId: string; amount: number; position: number } | null>(null);
+  const potAnimatedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!synState || synState.phase !== 'complete' || potAnimatedRef.current === roundId) return;
+    const survivors = getScrewYourNeighborSurvivors(synState);
+    const position = survivors.length === 1 ? getPosition(survivors[0]) : null;
+    if (position === null || pot <= 0) return;
+
+    potAnimatedRef.current = roundId;
+    setPotToPlayer({ triggerId: `syn-${roundId}`, amount: pot, position });
+  }, [synState, roundId, pot, getPosition]);
+
+  // ─── Hand Completion & Next Hand ──────────────────────────────
+  // Refs so a parent re-render doesn't restart the completion sequence
+  const onGameCompleteRef = useRef(onGameComplete);
+  const onRefetchRef = useRef(onRefetch);
+  useEffect(() => {
+    onGameCompleteRef.current = onGameComplete;
+    onRefetchRef.current = onRefetch;
+  }, [onGameComplete, onRefetch]);
+  const completedRoundRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!synState || synState.phase !== 'complete' || completedRoundRef.current === roundId) return;
+    if (!dealerGameId || isGameOver) return;
+
+    completedRoundRef.current = roundId;
+
+    const processCompletion = async () => {
+      try {
+        // Let everyone see the cards before the hand is settled
+        await new Promise(resolve => setTimeout(resolve, 3500));
+        await recordScrewYourNeighborHandResult(gameId, roundId, synState);
+
+        if (getScrewYourNeighborSurvivors(synState).length > 1) {
+          const result = await startNextScrewYourNeighborHand(gameId, dealerGameId, synState);
+          if (result.success) {
+            onRefetchRef.current();
+            return;
+          }
+        }
+
+        await endScrewYourNeighborGame(gameId);
+        onGameCompleteRef.current();
+      } catch (err) {
+        console.error('[SYN] Hand completion error:', err);
+      }
+    };
+
+    processCompletion();
+  }, [synState, roundId, dealerGameId, gameId, isGameOver]);
+
+  const getPlayerUsername = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    if (!player) return '';
+    return getDisplayName(players, player, player.profiles?.username || 'Player');
+  };
+
+  const handleAction = async (action: ScrewYourNeighborAction) => {
+    if (!synState || isProcessing) return;
+    setIsProcessing(true);
+    try {
+      await dispatch(synState, action, myCard);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (!synState || !roundId) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center bg-slate-900">
+        <p className="text-sm font-bold text-poker-gold animate-pulse">
+          {roundId ? "Shuffling up and dealing..." : 'Awaiting antes...'}
+        </p>
+      </div>
+    );
+  }
+
+  const isComplete = synState.phase === 'complete';
+  const isObserver = !isSeated;
+  const isMyTurn = synState.phase === 'swapping' && synState.currentTurnPlayerId === currentPlayerId;
+  const isDealer = synState.dealerPlayerId === currentPlayerId;
+  const holdsKing = myCard?.rank === 'K';
+  const kingShown = !!currentPlayerId && synState.kingsShown.includes(currentPlayerId);
+  const neighborId = currentPlayerId ? getScrewYourNeighborLeftNeighbor(synState, currentPlayerId) : null;
+  const neighborShowsKing = !!neighborId && synState.kingsShown.includes(neighborId);
+  const lastMove = synState.moves[synState.moves.length - 1];
+  const turnName = synState.currentTurnPlayerId ? getPlayerUsername(synState.currentTurnPlayerId) : '';
+
+  const seats = players.filter(p => synState.seatOrder.includes(p.id));
+  const seatAngle = (position: number) =>
+    isObserver || !currentPlayer ? OBSERVER_ANGLES[position] ?? 0 : SLOT_ANGLES[getClockwiseDistance(position)] ?? 0;
+
+  const describeMove = (move: ScrewYourNeighborMove) => {
+    const name = getPlayerUsername(move.playerId);
+    const target = move.targetPlayerId ? getPlayerUsername(move.targetPlayerId) : '';
+    switch (move.type) {
+      case 'keep':
+        return `${name} kept their card`;
+      case 'swap':
+        return `${name} swapped with ${target}`;
+      case 'blocked':
+        return `${target}'s king blocked ${name}'s swap`;
+      case 'king':
+        return `${name} shows a king`;
+      case 'cut':
+        return `${name} cut the deck`;
+    }
+  };
+
+  const describeResult = () => {
+    const survivors = getScrewYourNeighborSurvivors(synState);
+    if (survivors.length === 1) return `${getPlayerUsername(survivors[0])} is the last one standing!`;
+    if (synState.loserIds.length === 0) return 'Everyone tied for low - no lives lost';
+    return `${synState.loserIds.map(getPlayerUsername).join(' & ')} ${synState.loserIds.length === 1 ? 'loses' : 'lose'} a life`;
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Felt Area */}
+      <div
+        className="relative flex items-start justify-center pt-1"
+        style={{
+          height: 'calc(min(90vw, calc(55vh - 32px)) + 10px)',
+          minHeight: '300px',
+        }}
+      >
+        <div className="absolute inset-0 bg-slate-200 z-0" />
+
+        <div
+          ref={feltRef}
+          className="relative z-10"
+          style={{
+            width: 'min(90vw, calc(55vh - 32px))',
+            height: 'min(90vw, calc(55vh - 32px))',
+          }}
+        >
+          <div
+            className="absolute inset-0 rounded-full overflow-hidden border-2 border-white/80"
+            style={
+              tableColors.showBridge
+                ? { backgroundImage: `url(${peoriaBridgeMobile})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+                : { background: `radial-gradient(ellipse at center, ${tableColors.color} 0%, ${tableColors.darkColor} 100%)` }
+            }
+          />
+
+          <TurnSpotlight
+            currentTurnPosition={turnPosition}
+            currentPlayerPosition={currentPlayer?.position ?? null}
+            isObserver={isObserver}
+            getClockwiseDistance={getClockwiseDistance}
+            containerRef={feltRef}
+            isVisible={synState.phase === 'swapping'}
+          />
+
+          {/* Pot - dead center, where PotToPlayerAnimation starts */}
+          <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-20 flex flex-col items-center">
+            <ChipStack amount={pot} size="sm" />
+            <span className="text-xs font-bold text-poker-gold">Pot ${formatChipValue(pot)}</span>
+          </div>
+
+          {/* Seats */}
+          {seats.map((player) => {
+            const spot = getSeatSpot(seatAngle(player.position));
+            // Only the kings turned up (everything, once revealed) and my own card are known here
+            const card = synState.cards[player.id] ?? (player.id === currentPlayerId ? myCard : null);
+            const isTurn = !isComplete && synState.currentTurnPlayerId === player.id;
+            const isLoser = isComplete && synState.loserIds.includes(player.id);
+            const lives = synState.lives[player.id] - (isLoser ? 1 : 0);
+
+            return (
+              <div
+                key={player.id}
+                className="absolute z-[110] -translate-x-1/2 -translate-y-1/2 flex flex-col items-center gap-0.5"
+                style={spot}
+              >
+                {card ? <PlayingCard card={card} size="sm" /> : <PlayingCard isHidden size="sm" />}
+                <div
+                  data-chip-center={player.position}
+                  className={cn(
+                    'rounded-lg px-2 py-0.5 bg-black/70 border text-center min-w-[64px]',
+                    isTurn ? 'border-yellow-400' : isLoser ? 'border-red-500' : 'border-white/20'
+                  )}
+                >
+                  <div className="flex items-center justify-center gap-1">
+                    {synState.dealerPlayerId === player.id && (
+                      <span className="w-4 h-4 rounded-full bg-red-600 border border-white text-[9px] font-bold text-white flex items-center justify-center">D</span>
+                    )}
+                    <span className="text-[11px] font-semibold text-white truncate max-w-[70px]">
+                      {getPlayerUsername(player.id)}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-center gap-0.5">
+                    {Array.from({ length: Math.max(0, lives) }, (_, i) => (
+                      <Heart key={i} className="w-2.5 h-2.5 fill-red-500 text-red-500" />
+                    ))}
+                    {lives <= 0 && <span className="text-[10px] text-red-300 font-bold">OUT</span>}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          <PotToPlayerAnimation
+            triggerId={potToPlayer?.triggerId ?? null}
+            amount={potToPlayer?.amount ?? 0}
+            winnerPosition={potToPlayer?.position ?? 0}
+            currentPlayerPosition={currentPlayer?.position ?? null}
+            getClockwiseDistance={getClockwiseDistance}
+            containerRef={feltRef}
+            gameType="screw-your-neighbor"
+            onAnimationEnd={() => setPotToPlayer(null)}
+          />
+        </div>
+      </div>
+
+      {/* Bottom section */}
+      <div className="flex-1 min-h-0 flex flex-col bg-gradient-to-t from-background via-background to-background/95 border-t border-border overflow-hidden">
+        {/* Status */}
+        <div className="min-h-[44px] shrink-0 flex flex-col items-center justify-center px-4">
+          {isComplete ? (
+            <div className="w-full bg-poker-gold/95 rounded-lg px-3 py-1.5 shadow-xl border-2 border-amber-900">
+              <p className="text-slate-900 font-bold text-xs text-center truncate">{describeResult()}</p>
+            </div>
+          ) : synState.phase === 'showdown' ? (
+            <span className="text-sm text-foreground font-medium animate-pulse">Turning the cards up...</span>
+          ) : (
+            <span className="text-sm text-foreground font-medium">
+              {isMyTurn ? 'Your turn' : `${turnName}'s turn`}
+            </span>
+          )}
+          {lastMove && (
+            <span className="text-[11px] text-muted-foreground truncate max-w-full">{describeMove(lastMove)}</span>
+          )}
+        </div>
+
+        {/* Tab navigation */}
+        <div className="flex items-center justify-center gap-1 px-4 py-1.5 border-b border-border/50">
+          {([
+            ['cards', Spade],
+            ['chat', MessageSquare],
+            ['history', Clock],
+          ] as const).map(([tab, Icon]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={cn(
+                'flex-1 flex items-center justify-center py-2 px-3 rounded-md transition-all',
+                activeTab === tab ? 'bg-primary/20 text-foreground' : 'text-muted-foreground/50 hover:text-muted-foreground',
+                tab === 'cards' && isMyTurn && activeTab !== 'cards' && 'animate-pulse ring-2 ring-red-500'
+              )}
+            >
+              <Icon className="w-5 h-5" />
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'cards' && (
+          <div className="px-3 flex-1 min-h-0 overflow-y-auto">
+            {isMyTurn && holdsKing && (
+              <div className="space-y-2 py-2">
+                <Button
+                  className="w-full"
+                  disabled={isProcessing}
+                  onClick={() => handleAction(kingShown ? { type: 'keep', playerId: currentPlayerId! } : { type: 'king', playerId: currentPlayerId! })}
+                >
+                  {kingShown ? 'Keep Your King' : 'Turn Up Your King'}
+                </Button>
+                <p className="text-[11px] text-center text-muted-foreground">A king can't be taken - it stays with you</p>
+              </div>
+            )}
+
+            {isMyTurn && !holdsKing && (
+              <div className="space-y-2 py-2">
+                <div className="grid grid-cols-2 gap-2">
+                  <Button variant="secondary" disabled={isProcessing || !myCard} onClick={() => handleAction({ type: 'keep', playerId: currentPlayerId! })}>
+                    Keep
+                  </Button>
+                  {isDealer ? (
+                    <Button disabled={isProcessing || !myCard} onClick={() => handleAction({ type: 'cut', playerId: currentPlayerId! })}>
+                      Cut the Deck
+                    </Button>
+                  ) : (
+                    <Button
+                      disabled={isProcessing || !myCard || neighborShowsKing}
+                      onClick={() => handleAction({ type: 'swap', playerId: currentPlayerId! })}
+                    >
+                      Swap with {neighborId ? getPlayerUsername(neighborId) : 'Neighbor'}
+                    </Button>
+                  )}
+                </div>
+                <p className="text-[11px] text-center text-muted-foreground">
+                  {isDealer
+                    ? 'As dealer you can trade your card for one cut from the deck'
+                    : neighborShowsKing
+                      ? 'Your neighbor is showing a king - it can\'t be taken'
+                      : 'Lowest card loses a life • Aces are low • Kings can\'t be taken'}
+                </p>
+              </div>
+            )}
+
+            {/* Player info */}
+            {currentPlayer && (
+              <div className="relative flex items-center justify-center gap-2 py-2">
+                <p className="text-sm font-semibold text-foreground">{currentPlayer.profiles?.username || 'You'}</p>
+                <span className={cn('font-bold text-lg', currentPlayer.chips < 0 ? 'text-destructive' : 'text-poker-gold')}>
+                  {formatChipValue(currentPlayer.chips)}
+                </span>
+                <ChipChangeIndicator currentChips={currentPlayer.chips} playerId={currentPlayer.id} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'chat' && (
+          <div className="flex-1 min-h-0 flex flex-col">
+            <MobileChatPanel
+              messages={allMessages}
+              onSend={sendMessage}
+              isSending={isChatSending}
+              currentUserId={currentUserId}
+            />
+          </div>
+        )}
+
+        {activeTab === 'history' && (
+          <div className="flex-1 overflow-y-auto">
+            <HandHistory
+              gameId={gameId}
+              currentUserId={currentUserId}
+              currentPlayerId={currentPlayerId}
+              gameType="screw-your-neighbor"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,636 @@
+// Spades Game Table - Mobile layout following LiarsDiceGameTable
+// Circular felt with the four seats round it (the viewer at the bottom, their partner across,
+// the opponents either side in play order) and the trick in the middle. Hands come from
+// player_cards like hold'em's hole cards: everyone sees only their own, and the table puts it
+// back into the state for a play. The team scores run on the cribbage peg board.
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useWakeLock } from '@/hooks/useWakeLock';
+import type { Card } from '@/lib/cardUtils';
+import { RANK_VALUES } from '@/lib/cardUtils';
+import type { SpadesBid, SpadesState } from '@/lib/spadesTypes';
+import { spadesModule, type SpadesAction } from '@/lib/spadesModule';
+import {
+  getSpadesLegalPlays,
+  getSpadesTeam,
+  getSpadesTricksWon,
+  hideSpadesHands,
+  isSpadesNilBid,
+  withSpadesHand,
+} from '@/lib/spadesGameLogic';
+import { isSameCard } from '@/lib/trickTaking';
+import {
+  endSpadesGame,
+  fetchSpadesHand,
+  recordSpadesHandResult,
+  startNextSpadesHand,
+  updateSpadesState,
+} from '@/lib/spadesRoundLogic';
+import { logModuleAction } from '@/lib/handActionLog';
+import { PlayingCard } from './PlayingCard';
+import { CribbagePegBoard } from './CribbagePegBoard';
+import { ChipStack } from './ChipStack';
+import { ChipChangeIndicator } from './ChipChangeIndicator';
+import { MobileChatPanel } from './MobileChatPanel';
+import { HandHistory } from './HandHistory';
+import { Button } from '@/components/ui/button';
+import { useVisualPreferences } from '@/hooks/useVisualPreferences';
+import { useGameChat } from '@/hooks/useGameChat';
+import { cn, formatChipValue } from '@/lib/utils';
+import { getDisplayName } from '@/lib/botAlias';
+import peoriaBridgeMobile from '@/assets/peoria-bridge-mobile.jpg';
+import { MessageSquare, Clock, Spade } from 'lucide-react';
+
+interface Player {
+  id: string;
+  user_id: string;
+  position: number;
+  chips: number;
+  is_bot?: boolean;
+  profiles?: { username: string };
+}
+
+interface SpadesGameTableProps {
+  gameId: string;
+  roundId: string;
+  dealerGameId: string | null;
+  players: Player[];
+  currentUserId: string;
+  pot: number;
+  isGameOver: boolean;
+  onGameComplete: () => void;
+  onRefetch: () => void;
+}
+
+// Where each seat sits by how many places after the viewer it plays: bottom, left, top, right
+const SEAT_SPOTS = [
+  { left: '50%', top: '86%' },
+  { left: '13%', top: '50%' },
+  { left: '50%', top: '14%' },
+  { left: '87%', top: '50%' },
+];
+// Where each seat's card lands in the trick
+const TRICK_SPOTS = [
+  { left: '50%', top: '63%' },
+  { left: '35%', top: '50%' },
+  { left: '50%', top: '37%' },
+  { left: '65%', top: '50%' },
+];
+
+const SUIT_ORDER: Card['suit'][] = ['♠', '♥', '♣', '♦'];
+
+function sortHand(cards: Card[]): Card[] {
+  return [...cards].sort(
+    (a, b) => SUIT_ORDER.indexOf(a.suit) - SUIT_ORDER.indexOf(b.suit) || RANK_VALUES[b.rank] - RANK_VALUES[a.rank]
+  );
+}
+
+function describeBid(bid: SpadesBid | undefined): string {
+  if (bid === undefined) return '';
+  if (bid === 'nil') return 'Nil';
+  if (bid === 'blind_nil') return 'Blind Nil';
+  return String(bid);
+}
+
+export const SpadesGameTable = ({
+  gameId,
+  roundId,
+  dealerGameId,
+  players,
+  currentUserId,
+  pot,
+  isGameOver,
+  onGameComplete,
+  onRefetch,
+}: SpadesGameTableProps) => {
+  const { getTableColors } = useVisualPreferences();
+  const tableColors = getTableColors();
+
+  // Prevent screen from dimming during gameplay
+  useWakeLock(true);
+
+  const { allMessages, sendMessage, isSending: isChatSending } = useGameChat(gameId, players, currentUserId);
+
+  const [spState, setSpState] = useState<SpadesState | null>(null);
+  const [myDealt, setMyDealt] = useState<Card[]>([]);
+  // Blind nil has to be bid before looking, so an eligible hand starts face down
+  const [cardsSeen, setCardsSeen] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [activeTab, setActiveTab] = useState<'cards' | 'chat' | 'history'>('cards');
+  // Polls right after a local write can still return the state from before it
+  const optimisticUntilRef = useRef(0);
+
+  const currentPlayer = players.find(p => p.user_id === currentUserId);
+  const currentPlayerId = currentPlayer?.id;
+
+  // Reset per-hand state when a new hand is dealt
+  useEffect(() => {
+    setSpState(null);
+    setMyDealt([]);
+    setCardsSeen(false);
+  }, [roundId]);
+
+  // Realtime subscription + polling fallback (same as gin rummy)
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!roundId) return;
+    let isActive = true;
+
+    const applyRound = (round: { game_state?: unknown }, source: string) => {
+      if (!isActive || !round.game_state) return;
+      if (source === 'poll' && Date.now() < optimisticUntilRef.current) return;
+      setSpState(round.game_state as SpadesState);
+    };
+
+    const channel = supabase
+      .channel(`spades-${roundId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'rounds',
+          filter: `id=eq.${roundId}`,
+        },
+        (payload) => applyRound(payload.new as { game_state?: unknown }, 'realtime')
+      )
+      .subscribe();
+
+    const poll = async () => {
+      if (!isActive) return;
+
+      try {
+        const { data } = await supabase
+          .from('rounds')
+          .select('game_state')
+          .eq('id', roundId)
+          .maybeSingle();
+
+        if (data) applyRound(data, 'poll');
+      } catch {
+        // Silent fail
+      }
+
+      if (isActive) {
+        pollTimerRef.current = setTimeout(poll, 1500);
+      }
+    };
+
+    // The first poll loads the hand
+    pollTimerRef.current = setTimeout(poll, 0);
+
+    return () => {
+      isActive = false;
+      if (pollTimerRef.current) clearTimeout(pollTimerRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [roundId]);
+
+  // My hand (player_cards is written just after the round row, so retry until it lands)
+  useEffect(() => {
+    if (!roundId || !currentPlayerId || myDealt.length > 0) return;
+    if (!spState?.seats.includes(currentPlayerId)) return;
+
+    let cancelled = false;
+    const load = async () => {
+      const cards = await fetchSpadesHand(roundId, currentPlayerId);
+      if (cancelled) return;
+      if (cards.length > 0) setMyDealt(cards);
+      else setTimeout(load, 1000);
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [roundId, currentPlayerId, spState?.seats, myDealt.length]);
+
+  const getPosition = useCallback(
+    (playerId: string | null) => (playerId ? players.find(p => p.id === playerId)?.position ?? null : null),
+    [players]
+  );
+
+  // Apply an action to the stored (handless) state, with the actor's hand put back from the
+  // cards they were dealt, and write it back without it
+  const dispatch = useCallback(async (state: SpadesState, action: SpadesAction, dealt: Card[]) => {
+    const next = hideSpadesHands(spadesModule.reduce(withSpadesHand(state, action.playerId, dealt), action));
+    const nextPosition = getPosition(next.currentTurnPlayerId);
+    void logModuleAction(roundId, state, action);
+    optimisticUntilRef.current = Date.now() + 1500;
+    setSpState(next);
+    await updateSpadesState(roundId, next, nextPosition);
+  }, [roundId, getPosition]);
+
+  const fetchStoredState = useCallback(async (): Promise<SpadesState | null> => {
+    const { data } = await supabase
+      .from('rounds')
+      .select('game_state')
+      .eq('id', roundId)
+      .maybeSingle();
+    return (data?.game_state as unknown as SpadesState | null) ?? null;
+  }, [roundId]);
+
+  // ─── Bot Action Loop ────────────────────────────────────────────
+  const botActionInProgress = useRef(false);
+
+  useEffect(() => {
+    if (!spState || spState.phase === 'complete' || botActionInProgress.current) return;
+
+    const botId = spState.currentTurnPlayerId;
+    if (!botId || !players.find(p => p.id === botId)?.is_bot) return;
+
+    const runBotAction = async () => {
+      if (botActionInProgress.current) return;
+      botActionInProgress.current = true;
+
+      try {
+        // Add a human-like delay, and leave a finished trick on the table a moment longer
+        const trickJustTaken = !spState.currentTrick && spState.tricks.length > 0;
+        await new Promise(resolve => setTimeout(resolve, 900 + Math.random() * 600 + (trickJustTaken ? 1200 : 0)));
+
+        // Re-fetch latest state to prevent stale-closure issues
+        const state = await fetchStoredState();
+        if (!state || state.phase === 'complete' || state.currentTurnPlayerId !== botId) return;
+
+        // The bot decides looking at its hand; the stored state never gets it
+        const dealt = await fetchSpadesHand(roundId, botId);
+        const action = spadesModule.botAction(withSpadesHand(state, botId, dealt), botId);
+        if (action) await dispatch(state, action, dealt);
+      } catch (err) {
+        console.error('[SPADES BOT] Error:', err);
+      } finally {
+        botActionInProgress.current = false;
+      }
+    };
+
+    const timeout = setTimeout(runBotAction, 300);
+    return () => clearTimeout(timeout);
+  }, [spState, players, roundId, dispatch, fetchStoredState]);
+
+  // ─── Hand Completion & Next Hand ──────────────────────────────
+  // Refs so a parent re-render doesn't restart the completion sequence
+  const onGameCompleteRef = useRef(onGameComplete);
+  const onRefetchRef = useRef(onRefetch);
+  useEffect(() => {
+    onGameCompleteRef.current = onGameComplete;
+    onRefetchRef.current = onRefetch;
+  }, [onGameComplete, onRefetch]);
+  const completedRoundRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!spState || spState.phase !== 'complete' || completedRoundRef.current === roundId) return;
+    if (!dealerGameId || isGameOver) return;
+
+    completedRoundRef.current = roundId;
+
+    const processCompletion = async () => {
+      try {
+        // Let everyone read the scores before the hand is settled
+        await new Promise(resolve => setTimeout(resolve, 5000));
+        await recordSpadesHandResult(gameId, roundId, spState);
+
+        if (spState.result?.winningTeam === null) {
+          const result = await startNextSpadesHand(gameId, dealerGameId, spState);
+          if (result.success) {
+            onRefetchRef.current();
+            return;
+          }
+        }
+
+        await endSpadesGame(gameId, spState);
+        onGameCompleteRef.current();
+      } catch (err) {
+        console.error('[SPADES] Hand completion error:', err);
+      }
+    };
+
+    processCompletion();
+  }, [spState, roundId, dealerGameId, gameId, isGameOver]);
+
+  const getPlayerUsername = useCallback((playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    if (!player) return '';
+    return getDisplayName(players, player, player.profiles?.username || 'Player');
+  }, [players]);
+
+  // The state with my hand in it, for what I hold and may play
+  const myState = useMemo(
+    () => (spState && currentPlayerId && myDealt.length > 0 ? withSpadesHand(spState, currentPlayerId, myDealt) : null),
+    [spState, currentPlayerId, myDealt]
+  );
+
+  const handleAction = async (action: SpadesAction) => {
+    if (!spState || isProcessing) return;
+    setIsProcessing(true);
+    try {
+      await dispatch(spState, action, myDealt);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (!spState || !roundId) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center bg-slate-900">
+        <p className="text-sm font-bold text-poker-gold animate-pulse">
+          {roundId ? 'Dealing...' : 'Awaiting antes...'}
+        </p>
+      </div>
+    );
+  }
+
+  const isComplete = spState.phase === 'complete';
+  const isObserver = !currentPlayerId || !spState.seats.includes(currentPlayerId);
+  const isMyTurn = !isComplete && spState.currentTurnPlayerId === currentPlayerId;
+  const tricksWon = getSpadesTricksWon(spState);
+  const result = spState.result;
+
+  // Seats counted round from the viewer (or the first seat for observers)
+  const viewerIndex = isObserver ? 0 : spState.seats.indexOf(currentPlayerId!);
+  const slotOf = (playerId: string) => (spState.seats.indexOf(playerId) - viewerIndex + 4) % 4;
+
+  const myTeam = isObserver ? 0 : getSpadesTeam(spState, currentPlayerId!);
+  const teamName = (team: number) =>
+    spState.seats.filter((_, i) => i % 2 === team).map(id => getPlayerUsername(id)).join(' & ');
+  const teamScores = result ? result.teams.map(t => t.score) : spState.teamScores;
+  const teamBags = result ? result.teams.map(t => t.totalBags) : spState.teamBags;
+
+  // Blind nil is open while my side trails by enough and I haven't bid
+  const blindNilOpen = !isObserver && spState.blindNil && spState.phase === 'bidding'
+    && spState.bids[currentPlayerId!] === undefined
+    && teamScores[1 - myTeam] - teamScores[myTeam] >= 100;
+  const showMyCards = cardsSeen || !blindNilOpen;
+
+  // The trick in progress, or the last one taken until the next card is led
+  const shownTrick = spState.currentTrick ?? (spState.phase === 'playing' ? spState.tricks[spState.tricks.length - 1] ?? null : null);
+  const myHand = myState && currentPlayerId ? sortHand(myState.hands[currentPlayerId] ?? []) : [];
+  const legal = myState && currentPlayerId && isMyTurn ? getSpadesLegalPlays(myState, currentPlayerId) : [];
+  const turnName = spState.currentTurnPlayerId ? getPlayerUsername(spState.currentTurnPlayerId) : '';
+
+  // The peg board charts one row per partnership
+  const teamRows = [0, 1].map(team => ({
+    id: `team-${team}`,
+    user_id: `team-${team}`,
+    profiles: { username: team === myTeam && !isObserver ? 'Us' : teamName(team) },
+  }));
+
+  const describeStatus = () => {
+    if (isComplete && result) {
+      if (result.winningTeam !== null) {
+        return `${teamName(result.winningTeam)} ${result.winningTeam === myTeam && !isObserver ? 'win' : 'wins'} the game!`;
+      }
+      return result.teams
+        .map((t, i) => `${teamName(i)} ${t.tricks}/${t.bid} (${t.contractPoints + t.nilPoints + t.bagPenalty >= 0 ? '+' : ''}${t.contractPoints + t.nilPoints + t.bagPenalty})`)
+        .join(' • ');
+    }
+    if (spState.phase === 'bidding') return isMyTurn ? 'Your bid' : `${turnName} to bid`;
+    if (isMyTurn) return spState.currentTrick ? 'Your play' : 'Your lead';
+    return `${turnName} to ${spState.currentTrick ? 'play' : 'lead'}`;
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Felt Area */}
+      <div
+        className="relative flex items-start justify-center pt-1"
+        style={{
+          height: 'calc(min(90vw, calc(50vh - 32px)) + 10px)',
+          minHeight: '280px',
+        }}
+      >
+        <div className="absolute inset-0 bg-slate-200 z-0" />
+
+        <div
+          className="relative z-10"
+          style={{
+            width: 'min(90vw, calc(50vh - 32px))',
+            height: 'min(90vw, calc(50vh - 32px))',
+          }}
+        >
+          <div
+            className="absolute inset-0 rounded-full overflow-hidden border-2 border-white/80"
+            style={
+              tableColors.showBridge
+                ? { backgroundImage: `url(${peoriaBridgeMobile})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+                : { background: `radial-gradient(ellipse at center, ${tableColors.color} 0%, ${tableColors.darkColor} 100%)` }
+            }
+          />
+
+          {/* Pot - top of the middle, clear of the trick */}
+          <div className="absolute left-1/2 top-[25%] -translate-x-1/2 -translate-y-1/2 z-20 flex items-center gap-1">
+            <ChipStack amount={pot} size="sm" />
+            <span className="text-xs font-bold text-poker-gold">${formatChipValue(pot)}</span>
+          </div>
+
+          {/* The trick */}
+          {shownTrick?.plays.map((play) => (
+            <div
+              key={`${play.card.rank}${play.card.suit}`}
+              className={cn(
+                'absolute z-20 -translate-x-1/2 -translate-y-1/2 rounded-md transition-all',
+                shownTrick.winnerId === play.playerId && 'ring-2 ring-poker-gold'
+              )}
+              style={TRICK_SPOTS[slotOf(play.playerId)]}
+            >
+              <PlayingCard card={play.card} size="md" />
+            </div>
+          ))}
+          {spState.phase === 'bidding' && (
+            <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-20 text-center">
+              <p className="text-xs font-bold text-white/80">Bidding</p>
+              <p className="text-[10px] text-white/60">Play to {spState.targetScore}</p>
+            </div>
+          )}
+
+          {/* Seats */}
+          {spState.seats.map((playerId) => {
+            const bid = spState.bids[playerId];
+            const isTurn = !isComplete && spState.currentTurnPlayerId === playerId;
+            const isPartnerOfViewer = !isObserver && getSpadesTeam(spState, playerId) === myTeam;
+            const nilBroken = isSpadesNilBid(bid) && tricksWon[playerId] > 0;
+            const player = players.find(p => p.id === playerId);
+
+            return (
+              <div
+                key={playerId}
+                className="absolute z-[110] -translate-x-1/2 -translate-y-1/2"
+                style={SEAT_SPOTS[slotOf(playerId)]}
+              >
+                <div
+                  data-chip-center={player?.position}
+                  className={cn(
+                    'rounded-lg px-2 py-0.5 bg-black/70 border text-center min-w-[64px]',
+                    isTurn ? 'border-yellow-400' : isPartnerOfViewer ? 'border-sky-400/60' : 'border-white/20'
+                  )}
+                >
+                  <div className="flex items-center justify-center gap-1">
+                    {spState.dealerPlayerId === playerId && (
+                      <span className="w-4 h-4 rounded-full bg-red-600 border border-white text-[9px] font-bold text-white flex items-center justify-center">D</span>
+                    )}
+                    <span className="text-[11px] font-semibold text-white truncate max-w-[70px]">
+                      {getPlayerUsername(playerId)}
+                    </span>
+                  </div>
+                  <div className={cn('text-[10px] font-bold', nilBroken ? 'text-red-300' : 'text-white/80')}>
+                    {bid === undefined ? '—' : `${tricksWon[playerId]} / ${describeBid(bid)}`}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Bottom section */}
+      <div className="flex-1 min-h-0 flex flex-col bg-gradient-to-t from-background via-background to-background/95 border-t border-border overflow-hidden">
+        {/* Team scores */}
+        <div className="mx-3 mt-2 rounded-lg bg-slate-900/90 px-2 py-1.5">
+          <CribbagePegBoard
+            players={teamRows}
+            playerStates={{}}
+            winningScore={spState.targetScore}
+            overrideScores={Object.fromEntries(teamRows.map((row, team) => [row.id, teamScores[team]]))}
+          />
+          <p className="text-[10px] text-white/60 text-center pt-0.5">
+            Bags: {teamRows.map((row, team) => `${row.profiles.username} ${teamBags[team]}`).join(' • ')}
+          </p>
+        </div>
+
+        {/* Status */}
+        <div className="min-h-[36px] shrink-0 flex flex-col items-center justify-center px-4">
+          {isComplete ? (
+            <div className="w-full bg-poker-gold/95 rounded-lg px-3 py-1.5 shadow-xl border-2 border-amber-900">
+              <p className="text-slate-900 font-bold text-xs text-center truncate">{describeStatus()}</p>
+            </div>
+          ) : (
+            <span className="text-sm text-foreground font-medium">{describeStatus()}</span>
+          )}
+        </div>
+
+        {/* Tab navigation */}
+        <div className="flex items-center justify-center gap-1 px-4 py-1.5 border-b border-border/50">
+          {([
+            ['cards', Spade],
+            ['chat', MessageSquare],
+            ['history', Clock],
+          ] as const).map(([tab, Icon]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={cn(
+                'flex-1 flex items-center justify-center py-2 px-3 rounded-md transition-all',
+                activeTab === tab ? 'bg-primary/20 text-foreground' : 'text-muted-foreground/50 hover:text-muted-foreground',
+                tab === 'cards' && isMyTurn && activeTab !== 'cards' && 'animate-pulse ring-2 ring-red-500'
+              )}
+            >
+              <Icon className="w-5 h-5" />
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'cards' && (
+          <div className="px-3 flex-1 min-h-0 overflow-y-auto">
+            {/* My hand; legal plays lift on my turn */}
+            {!isObserver && myHand.length > 0 && (
+              <div className="flex flex-wrap items-end justify-center gap-0.5 py-2">
+                {myHand.map((card) => {
+                  const isLegal = legal.some(c => isSameCard(c, card));
+                  return (
+                    <button
+                      key={`${card.rank}${card.suit}`}
+                      type="button"
+                      disabled={!isLegal || isProcessing || !showMyCards}
+                      onClick={() => handleAction({ type: 'play', playerId: currentPlayerId!, card })}
+                      className={cn('transition-transform', isLegal && '-translate-y-1.5', isMyTurn && !isLegal && 'opacity-50')}
+                    >
+                      <PlayingCard card={card} isHidden={!showMyCards} size="md" />
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {blindNilOpen && !cardsSeen && (
+              <div className="grid grid-cols-2 gap-2 pb-2">
+                <Button variant="outline" onClick={() => setCardsSeen(true)}>
+                  See Cards
+                </Button>
+                <Button
+                  variant="destructive"
+                  disabled={!isMyTurn || isProcessing}
+                  onClick={() => handleAction({ type: 'bid', playerId: currentPlayerId!, bid: 'blind_nil' })}
+                >
+                  Blind Nil (±200)
+                </Button>
+              </div>
+            )}
+
+            {isMyTurn && spState.phase === 'bidding' && showMyCards && (
+              <div className="space-y-2 pb-2">
+                <div className="grid grid-cols-7 gap-1">
+                  {Array.from({ length: 13 }, (_, i) => i + 1).map((tricks) => (
+                    <Button
+                      key={tricks}
+                      size="sm"
+                      variant="outline"
+                      disabled={isProcessing}
+                      onClick={() => handleAction({ type: 'bid', playerId: currentPlayerId!, bid: tricks })}
+                    >
+                      {tricks}
+                    </Button>
+                  ))}
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    disabled={isProcessing}
+                    onClick={() => handleAction({ type: 'bid', playerId: currentPlayerId!, bid: 'nil' })}
+                  >
+                    Nil
+                  </Button>
+                </div>
+                <p className="text-[11px] text-center text-muted-foreground">
+                  Bid the tricks you'll take • Nil scores 100 if you take none
+                </p>
+              </div>
+            )}
+
+            {/* Player info */}
+            {currentPlayer && (
+              <div className="relative flex items-center justify-center gap-2 py-2">
+                <p className="text-sm font-semibold text-foreground">{currentPlayer.profiles?.username || 'You'}</p>
+                <span className={cn('font-bold text-lg', currentPlayer.chips < 0 ? 'text-destructive' : 'text-poker-gold')}>
+                  {formatChipValue(currentPlayer.chips)}
+                </span>
+                <ChipChangeIndicator currentChips={currentPlayer.chips} playerId={currentPlayer.id} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'chat' && (
+          <div className="flex-1 min-h-0 flex flex-col">
+            <MobileChatPanel
+              messages={allMessages}
+              onSend={sendMessage}
+              isSending={isChatSending}
+              currentUserId={currentUserId}
+            />
+          </div>
+        )}
+
+        {activeTab === 'history' && (
+          <div className="flex-1 overflow-y-auto">
+            <HandHistory
+              gameId={gameId}
+              currentUserId={currentUserId}
+              currentPlayerId={currentPlayerId}
+              gameType="spades"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,585 @@
+// Seven-Card Stud Game Table - Mobile layout following HoldemGameTable
+// Circular felt with each seat's up cards around the rim, fixed-limit betting controls below.
+//
+// rounds.game_state carries no hole cards: each client reads its own from player_cards,
+// bots' are read for their decisions, and everyone's once the round reaches the showdown.
+// player_cards holds the seventh-street card from the deal; it stays face down until then.
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useWakeLock } from '@/hooks/useWakeLock';
+import type { Card } from '@/lib/cardUtils';
+import type { StudState } from '@/lib/studTypes';
+import { studModule, type StudAction } from '@/lib/studModule';
+import {
+  getStudBetLimits,
+  getStudBetSize,
+  getStudHoleCardsInPlay,
+  getStudPotTotal,
+  getStudWildRanks,
+} from '@/lib/studGameLogic';
+import { STUD_VARIANTS } from '@/lib/studVariants';
+import {
+  endStudGame,
+  fetchStudHoleCards,
+  getStudPlayersWithChips,
+  recordStudHandResult,
+  startNextStudHand,
+  updateStudState,
+} from '@/lib/studRoundLogic';
+import { logModuleAction } from '@/lib/handActionLog';
+import { PlayingCard } from './PlayingCard';
+import { ChipStack } from './ChipStack';
+import { ChipChangeIndicator } from './ChipChangeIndicator';
+import { MobileChatPanel } from './MobileChatPanel';
+import { HandHistory } from './HandHistory';
+import { Button } from '@/components/ui/button';
+import { useVisualPreferences } from '@/hooks/useVisualPreferences';
+import { useGameChat } from '@/hooks/useGameChat';
+import { cn, formatChipValue } from '@/lib/utils';
+import { getDisplayName } from '@/lib/botAlias';
+import peoriaBridgeMobile from '@/assets/peoria-bridge-mobile.jpg';
+import { MessageSquare, Clock, Spade } from 'lucide-react';
+
+interface Player {
+  id: string;
+  user_id: string;
+  position: number;
+  chips: number;
+  is_bot?: boolean;
+  profiles?: { username: string };
+}
+
+interface StudGameTableProps {
+  gameId: string;
+  roundId: string;
+  dealerGameId: string | null;
+  players: Player[];
+  currentUserId: string;
+  isGameOver: boolean;
+  onGameComplete: () => void;
+  onRefetch: () => void;
+}
+
+// Seat spots around the felt, as % of its size; the viewer sits at the bottom
+function getSeatSpot(index: number, count: number): { left: string; top: string } {
+  const angle = Math.PI / 2 + (index / count) * Math.PI * 2;
+  return {
+    left: `${50 + Math.cos(angle) * 40}%`,
+    top: `${50 + Math.sin(angle) * 40}%`,
+  };
+}
+
+export const StudGameTable = ({
+  gameId,
+  roundId,
+  dealerGameId,
+  players,
+  currentUserId,
+  isGameOver,
+  onGameComplete,
+  onRefetch,
+}: StudGameTableProps) => {
+  const { getTableColors } = useVisualPreferences();
+  const tableColors = getTableColors();
+
+  // Prevent screen from dimming during gameplay
+  useWakeLock(true);
+
+  const { allMessages, sendMessage, isSending: isChatSending } = useGameChat(gameId, players, currentUserId);
+
+  const [studState, setStudState] = useState<StudState | null>(null);
+  const [myHoleCards, setMyHoleCards] = useState<Card[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [activeTab, setActiveTab] = useState<'cards' | 'chat' | 'history'>('cards');
+  // Polls right after a local write can still return the state from before it
+  const optimisticUntilRef = useRef(0);
+
+  const currentPlayer = players.find(p => p.user_id === currentUserId);
+  const currentPlayerId = currentPlayer?.id;
+
+  // Reset per-hand state when a new hand is dealt
+  useEffect(() => {
+    setStudState(null);
+    setMyHoleCards([]);
+  }, [roundId]);
+
+  // Realtime subscription + polling fallback (same as gin rummy)
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!roundId) return;
+    let isActive = true;
+
+    const applyState = (state: StudState, source: string) => {
+      if (!isActive) return;
+      if (source === 'poll' && Date.now() < optimisticUntilRef.current) return;
+      setStudState(state);
+    };
+
+    const channel = supabase
+      .channel(`stud-${roundId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'rounds',
+          filter: `id=eq.${roundId}`,
+        },
+        (payload) => {
+          const newData = payload.new as { game_state?: StudState };
+          if (newData.game_state) {
+            applyState(newData.game_state, 'realtime');
+          }
+        }
+      )
+      .subscribe();
+
+    const poll = async () => {
+      if (!isActive) return;
+
+      try {
+        const { data } = await supabase
+          .from('rounds')
+          .select('game_state')
+          .eq('id', roundId)
+          .maybeSingle();
+
+        if (data?.game_state && isActive) {
+          applyState(data.game_state as unknown as StudState, 'poll');
+        }
+      } catch {
+        // Silent fail
+      }
+
+      if (isActive) {
+        pollTimerRef.current = setTimeout(poll, 1500);
+      }
+    };
+
+    // The first poll loads the hand
+    pollTimerRef.current = setTimeout(poll, 0);
+
+    return () => {
+      isActive = false;
+      if (pollTimerRef.current) clearTimeout(pollTimerRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [roundId]);
+
+  // My hole cards (player_cards is written just after the round row, so retry until they land)
+  useEffect(() => {
+    if (!roundId || !currentPlayerId || myHoleCards.length > 0) return;
+    if (!studState?.seatOrder.includes(currentPlayerId)) return;
+
+    let cancelled = false;
+    const load = async () => {
+      const cards = await fetchStudHoleCards(roundId, currentPlayerId);
+      if (cancelled) return;
+      if (cards.length > 0) setMyHoleCards(cards);
+      else setTimeout(load, 1000);
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [roundId, currentPlayerId, studState?.seatOrder, myHoleCards.length]);
+
+  // Apply an action to the stored (public) state and write it back
+  const dispatch = useCallback(async (state: StudState, action: StudAction) => {
+    const next = studModule.reduce(state, action);
+    void logModuleAction(roundId, state, action);
+    optimisticUntilRef.current = Date.now() + 1500;
+    setStudState(next);
+    await updateStudState(roundId, next);
+  }, [roundId]);
+
+  const fetchStoredState = useCallback(async (): Promise<StudState | null> => {
+    const { data } = await supabase
+      .from('rounds')
+      .select('game_state')
+      .eq('id', roundId)
+      .maybeSingle();
+    return (data?.game_state as unknown as StudState | null) ?? null;
+  }, [roundId]);
+
+  // ─── Bot Action Loop ────────────────────────────────────────────
+  const botActionInProgress = useRef(false);
+
+  useEffect(() => {
+    if (!studState || studState.phase !== 'betting' || botActionInProgress.current) return;
+
+    const botId = studState.currentTurnPlayerId;
+    if (!botId || !players.find(p => p.id === botId)?.is_bot) return;
+
+    const runBotAction = async () => {
+      if (botActionInProgress.current) return;
+      botActionInProgress.current = true;
+
+      try {
+        // Add a human-like delay
+        await new Promise(resolve => setTimeout(resolve, 800 + Math.random() * 600));
+
+        // Re-fetch latest state to prevent stale-closure issues
+        const state = await fetchStoredState();
+        if (!state || state.phase !== 'betting' || state.currentTurnPlayerId !== botId) return;
+
+        // The bot decides holding its cards; the stored state never gets them
+        const holeCards = await fetchStudHoleCards(roundId, botId);
+        const withCards: StudState = {
+          ...state,
+          playerStates: { ...state.playerStates, [botId]: { ...state.playerStates[botId], holeCards } },
+        };
+        const action = studModule.botAction(withCards, botId);
+        if (action) await dispatch(state, action);
+      } catch (err) {
+        console.error('[STUD BOT] Error:', err);
+      } finally {
+        botActionInProgress.current = false;
+      }
+    };
+
+    const timeout = setTimeout(runBotAction, 300);
+    return () => clearTimeout(timeout);
+  }, [studState, players, roundId, dispatch, fetchStoredState]);
+
+  // ─── Showdown ───────────────────────────────────────────────────
+  // The round's showdown status opens player_cards, so any client can turn the next hand up
+  const showInProgress = useRef(false);
+
+  useEffect(() => {
+    if (!studState || studState.phase !== 'showdown' || showInProgress.current) return;
+    const showingId = studState.currentTurnPlayerId;
+    if (!showingId) return;
+
+    const timeout = setTimeout(async () => {
+      if (showInProgress.current) return;
+      showInProgress.current = true;
+      try {
+        const state = await fetchStoredState();
+        if (!state || state.phase !== 'showdown' || state.currentTurnPlayerId !== showingId) return;
+        const holeCards = await fetchStudHoleCards(roundId, showingId);
+        if (holeCards.length === 3) {
+          await dispatch(state, { type: 'show', playerId: showingId, holeCards });
+        }
+      } catch (err) {
+        console.error('[STUD] Showdown error:', err);
+      } finally {
+        showInProgress.current = false;
+      }
+    }, 900);
+    return () => clearTimeout(timeout);
+  }, [studState, roundId, dispatch, fetchStoredState]);
+
+  // ─── Hand Completion & Next Hand ──────────────────────────────
+  // Refs so a parent re-render doesn't restart the completion sequence
+  const onGameCompleteRef = useRef(onGameComplete);
+  const onRefetchRef = useRef(onRefetch);
+  useEffect(() => {
+    onGameCompleteRef.current = onGameComplete;
+    onRefetchRef.current = onRefetch;
+  }, [onGameComplete, onRefetch]);
+  const completedRoundRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!studState || studState.phase !== 'complete' || completedRoundRef.current === roundId) return;
+    if (!dealerGameId || isGameOver) return;
+
+    completedRoundRef.current = roundId;
+
+    const processCompletion = async () => {
+      try {
+        // Let everyone see who won the pot before chips move
+        await new Promise(resolve => setTimeout(resolve, 3000));
+        await recordStudHandResult(gameId, roundId, studState);
+
+        if (getStudPlayersWithChips(studState).length >= 2) {
+          const result = await startNextStudHand(gameId, dealerGameId, studState);
+          if (result.success) {
+            onRefetchRef.current();
+            return;
+          }
+        }
+
+        await endStudGame(gameId, studState);
+        onGameCompleteRef.current();
+      } catch (err) {
+        console.error('[STUD] Hand completion error:', err);
+      }
+    };
+
+    processCompletion();
+  }, [studState, roundId, dealerGameId, gameId, isGameOver]);
+
+  const getPlayerUsername = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    if (!player) return '';
+    return getDisplayName(players, player, player.profiles?.username || 'Player');
+  };
+
+  const isMyTurn = !!studState && studState.phase === 'betting' && studState.currentTurnPlayerId === currentPlayerId;
+  const limits = isMyTurn && currentPlayerId ? getStudBetLimits(studState, currentPlayerId) : null;
+
+  const handleAction = async (action: StudAction) => {
+    if (!studState || isProcessing) return;
+    setIsProcessing(true);
+    try {
+      await dispatch(studState, action);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (!studState || !roundId) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center bg-slate-900">
+        <p className="text-sm font-bold text-poker-gold animate-pulse">
+          {roundId ? "Shuffling up and dealing..." : 'Awaiting buy-ins...'}
+        </p>
+      </div>
+    );
+  }
+
+  // Seats clockwise starting with the viewer at the bottom
+  const seats = [...players]
+    .filter(p => studState.playerStates[p.id])
+    .sort((a, b) => a.position - b.position);
+  const myIndex = seats.findIndex(p => p.id === currentPlayerId);
+  const orderedSeats = myIndex > 0 ? [...seats.slice(myIndex), ...seats.slice(0, myIndex)] : seats;
+
+  const pot = getStudPotTotal(studState);
+  const myState = currentPlayerId ? studState.playerStates[currentPlayerId] : undefined;
+  const wildRanks = getStudWildRanks(studState);
+  const betLabel = studState.currentBet === 0
+    ? 'Bet'
+    : studState.currentBet < getStudBetSize(studState) ? 'Complete to' : 'Raise to';
+  // Hole cards face down in front of each seat: two, and the third from seventh street
+  const holeCardsInPlay = studState.street === 'seventh' ? 3 : 2;
+
+  const resultLines = (studState.results ?? []).map((potResult, i) => {
+    const names = potResult.winnerIds.map(getPlayerUsername).join(' & ');
+    const potName = studState.results!.length > 1 ? (i === 0 ? 'Main pot' : `Side pot ${i}`) : 'Pot';
+    const split = potResult.winnerIds.length > 1 ? ' (split)' : '';
+    const lowHalf = potResult.splitWinnerId
+      ? ` / ${getPlayerUsername(potResult.splitWinnerId)} - ${potResult.splitDescription}`
+      : '';
+    return `${potName} $${formatChipValue(potResult.amount)}${split}: ${names}${potResult.handDescription ? ` - ${potResult.handDescription}` : ''}${lowHalf}`;
+  });
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Felt Area */}
+      <div
+        className="relative flex items-start justify-center pt-1"
+        style={{
+          height: 'calc(min(90vw, calc(55vh - 32px)) + 10px)',
+          minHeight: '300px',
+        }}
+      >
+        <div className="absolute inset-0 bg-slate-200 z-0" />
+
+        <div
+          className="relative z-10"
+          style={{
+            width: 'min(90vw, calc(55vh - 32px))',
+            height: 'min(90vw, calc(55vh - 32px))',
+          }}
+        >
+          <div
+            className="absolute inset-0 rounded-full overflow-hidden border-2 border-white/80"
+            style={
+              tableColors.showBridge
+                ? { backgroundImage: `url(${peoriaBridgeMobile})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+                : { background: `radial-gradient(ellipse at center, ${tableColors.color} 0%, ${tableColors.darkColor} 100%)` }
+            }
+          />
+
+          {/* Variant and what's wild */}
+          <div className="absolute left-1/2 top-[38%] -translate-x-1/2 z-20 text-center">
+            <p className="text-xs font-bold text-white/80 uppercase tracking-wider">{STUD_VARIANTS[studState.variant].name}</p>
+            {wildRanks.length > 0 && (
+              <p className="text-[11px] font-semibold text-amber-300">Wild: {wildRanks.join(', ')}</p>
+            )}
+          </div>
+
+          {/* Pot */}
+          <div className="absolute left-1/2 top-[58%] -translate-x-1/2 z-20 flex flex-col items-center">
+            <ChipStack amount={pot} size="sm" />
+            <span className="text-xs font-bold text-poker-gold">Pot ${formatChipValue(pot)}</span>
+          </div>
+
+          {/* Seats */}
+          {orderedSeats.map((player, i) => {
+            const ps = studState.playerStates[player.id];
+            const spot = getSeatSpot(i, orderedSeats.length);
+            const isTurn = studState.currentTurnPlayerId === player.id && studState.phase !== 'complete';
+            const isWinner = studState.results?.some(r => r.winnerIds.includes(player.id) || r.splitWinnerId === player.id);
+            const showCards = ps.holeCards.length > 0;
+            const isMe = player.id === currentPlayerId;
+
+            return (
+              <div
+                key={player.id}
+                className="absolute z-30 -translate-x-1/2 -translate-y-1/2 flex flex-col items-center"
+                style={spot}
+              >
+                {!ps.folded && (
+                  <div className="flex -space-x-3 mb-0.5">
+                    {!isMe && Array.from({ length: holeCardsInPlay }, (_, c) => (
+                      <PlayingCard key={`hole-${c}`} card={ps.holeCards[c]} isHidden={!showCards} size="sm" />
+                    ))}
+                    {ps.upCards.map((card, c) => (
+                      <PlayingCard key={`up-${c}`} card={card} size="sm" isWild={wildRanks.includes(card.rank)} />
+                    ))}
+                  </div>
+                )}
+                <div
+                  className={cn(
+                    'rounded-lg px-2 py-0.5 bg-black/70 border text-center min-w-[64px]',
+                    isTurn ? 'border-yellow-400 animate-pulse' : isWinner ? 'border-green-400' : 'border-white/20',
+                    ps.folded && 'opacity-40'
+                  )}
+                >
+                  <div className="flex items-center justify-center gap-1">
+                    {studState.dealerPlayerId === player.id && (
+                      <span className="w-4 h-4 rounded-full bg-red-600 border border-white text-[9px] font-bold text-white flex items-center justify-center">D</span>
+                    )}
+                    <span className="text-[11px] font-semibold text-white truncate max-w-[70px]">
+                      {getPlayerUsername(player.id)}
+                    </span>
+                  </div>
+                  <div className="text-[11px] text-poker-gold font-bold">
+                    {ps.allIn ? 'ALL IN' : `$${formatChipValue(ps.stack)}`}
+                  </div>
+                </div>
+                {ps.streetBet > 0 && studState.phase === 'betting' && (
+                  <span className="mt-0.5 text-[10px] font-bold text-amber-200 bg-black/50 rounded px-1">
+                    ${formatChipValue(ps.streetBet)}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Bottom section */}
+      <div className="flex-1 min-h-0 flex flex-col bg-gradient-to-t from-background via-background to-background/95 border-t border-border overflow-hidden">
+        {/* Status */}
+        <div className="min-h-[44px] shrink-0 flex items-center justify-center px-4">
+          {studState.phase === 'complete' ? (
+            <div className="w-full bg-poker-gold/95 rounded-lg px-3 py-1.5 shadow-xl border-2 border-amber-900">
+              {resultLines.map(line => (
+                <p key={line} className="text-slate-900 font-bold text-xs text-center truncate">{line}</p>
+              ))}
+            </div>
+          ) : studState.phase === 'showdown' ? (
+            <span className="text-sm font-semibold text-amber-400 animate-pulse">Showdown</span>
+          ) : studState.currentTurnPlayerId ? (
+            <span className="text-sm text-foreground font-medium">
+              {isMyTurn ? 'Your turn' : `${getPlayerUsername(studState.currentTurnPlayerId)}'s turn`}
+            </span>
+          ) : null}
+        </div>
+
+        {/* Tab navigation */}
+        <div className="flex items-center justify-center gap-1 px-4 py-1.5 border-b border-border/50">
+          {([
+            ['cards', Spade],
+            ['chat', MessageSquare],
+            ['history', Clock],
+          ] as const).map(([tab, Icon]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={cn(
+                'flex-1 flex items-center justify-center py-2 px-3 rounded-md transition-all',
+                activeTab === tab ? 'bg-primary/20 text-foreground' : 'text-muted-foreground/50 hover:text-muted-foreground',
+                tab === 'cards' && isMyTurn && activeTab !== 'cards' && 'animate-pulse ring-2 ring-red-500'
+              )}
+            >
+              <Icon className="w-5 h-5" />
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'cards' && (
+          <div className="px-3 flex-1 min-h-0 overflow-y-auto">
+            {/* My hole cards, dimmed as nobody else sees them (the seventh-street one once dealt), then my up cards */}
+            {myState && (
+              <div className={cn('flex items-center justify-center gap-1 py-2', myState.folded && 'opacity-40')}>
+                {getStudHoleCardsInPlay(myHoleCards, studState.street).map((card, i) => (
+                  <PlayingCard key={`hole-${i}`} card={card} size="xl" isWild={wildRanks.includes(card.rank)} className="opacity-80" />
+                ))}
+                {myState.upCards.map((card, i) => (
+                  <PlayingCard key={`up-${i}`} card={card} size="xl" isWild={wildRanks.includes(card.rank)} />
+                ))}
+              </div>
+            )}
+
+            {/* Betting controls */}
+            {limits && (
+              <div className="space-y-2 pb-2">
+                <div className="grid grid-cols-3 gap-2">
+                  <Button variant="destructive" disabled={isProcessing} onClick={() => handleAction({ type: 'fold', playerId: currentPlayerId! })}>
+                    Fold
+                  </Button>
+                  {limits.canCheck ? (
+                    <Button variant="secondary" disabled={isProcessing} onClick={() => handleAction({ type: 'check', playerId: currentPlayerId! })}>
+                      Check
+                    </Button>
+                  ) : (
+                    <Button variant="secondary" disabled={isProcessing} onClick={() => handleAction({ type: 'call', playerId: currentPlayerId! })}>
+                      Call ${formatChipValue(Math.min(limits.toCall, myState?.stack ?? 0))}
+                    </Button>
+                  )}
+                  <Button
+                    disabled={isProcessing || !limits.canRaise}
+                    onClick={() => handleAction({ type: studState.currentBet === 0 ? 'bet' : 'raise', playerId: currentPlayerId! })}
+                  >
+                    {`${betLabel} $${formatChipValue(limits.raiseTo)}`}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* Player info */}
+            {currentPlayer && (
+              <div className="relative flex items-center justify-center gap-2 py-2">
+                <p className="text-sm font-semibold text-foreground">{currentPlayer.profiles?.username || 'You'}</p>
+                <span className={cn('font-bold text-lg', currentPlayer.chips < 0 ? 'text-destructive' : 'text-poker-gold')}>
+                  {formatChipValue(currentPlayer.chips)}
+                </span>
+                <ChipChangeIndicator currentChips={currentPlayer.chips} playerId={currentPlayer.id} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'chat' && (
+          <div className="flex-1 min-h-0 flex flex-col">
+            <MobileChatPanel
+              messages={allMessages}
+              onSend={sendMessage}
+              isSending={isChatSending}
+              currentUserId={currentUserId}
+            />
+          </div>
+        )}
+
+        {activeTab === 'history' && (
+          <div className="flex-1 overflow-y-auto">
+            <HandHistory
+              gameId={gameId}
+              currentUserId={currentUserId}
+              currentPlayerId={currentPlayerId}
+              gameType="stud"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
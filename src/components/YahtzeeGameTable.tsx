@@ -30,6 +30,8 @@ import {
   rollYahtzeeDice, toggleYahtzeeHold,
   scoreYahtzeeCategory, advanceYahtzeeTurn,
 } from "@/lib/yahtzeeGameLogic";
+import { drawFairDiceRandom } from "@/lib/handFairness";
+import { logModuleAction, recordDraws } from "@/lib/handActionLog";
 import { getPotentialScores, getTotalScore, isYahtzee, getUpperSubtotal, hasUpperBonus, getJokerValidCategories, getJokerScore } from "@/lib/yahtzeeScoring";
 import {
   getBotHoldDecision, getBotCategoryChoice, shouldBotStopRolling,
@@ -82,7 +84,7 @@ interface YahtzeeGameTableProps {
 async function updateYahtzeeState(roundId: string, state: YahtzeeState): Promise<Error | null> {
   const { error } = await supabase
     .from("rounds")
-    .update({ yahtzee_state: state } as any)
+    .update({ game_state: state } as any)
     .eq("id", roundId);
   return error;
 }
@@ -371,7 +373,14 @@ export function YahtzeeGameTable({
       })),
     };
 
-    const newPs = rollYahtzeeDice(psWithLocalHolds);
+    const { random, draws } = recordDraws(await drawFairDiceRandom(gameId, psWithLocalHolds.dice));
+    const newPs = rollYahtzeeDice(psWithLocalHolds, random);
+    void logModuleAction(
+      currentRoundId,
+      yahtzeeState,
+      { type: 'roll', playerId: myPlayer.id, held: psWithLocalHolds.dice.map(d => d.isHeld) },
+      draws
+    );
     setLocalDice(newPs.dice);
     setLocalRollsRemaining(newPs.rollsRemaining);
 
@@ -478,6 +487,7 @@ export function YahtzeeGameTable({
     }
 
     const newPs = scoreYahtzeeCategory(myPs, category);
+    void logModuleAction(currentRoundId, yahtzeeState, { type: 'score', playerId: myPlayer.id, category });
     setLocalDice(newPs.dice);
     setLocalRollsRemaining(newPs.rollsRemaining);
 
@@ -622,7 +632,10 @@ export function YahtzeeGameTable({
           }
 
           const t = Date.now();
-          ps = rollYahtzeeDice(ps);
+          const { random, draws } = recordDraws(await drawFairDiceRandom(gameId, ps.dice));
+          const held = ps.dice.map(d => d.isHeld);
+          ps = rollYahtzeeDice(ps, random);
+          void logModuleAction(currentRoundId, state, { type: 'roll', playerId: currentTurnPlayerId, held }, draws);
           state = { ...state, playerStates: { ...state.playerStates, [currentTurnPlayerId]: { ...ps, rollKey: t } } };
           await updateYahtzeeState(currentRoundId, state);
 
@@ -648,6 +661,7 @@ export function YahtzeeGameTable({
         setLastScoredCategory(category);
         setScoringInProgress(true);
 
+        void logModuleAction(currentRoundId, state, { type: 'score', playerId: currentTurnPlayerId, category });
         ps = scoreYahtzeeCategory(ps, category);
         // Write scored state (but don't advance turn yet) so scorecard updates visually
         state = { ...state, playerStates: { ...state.playerStates, [currentTurnPlayerId]: ps } };
@@ -0,0 +1,389 @@
+import { AceyDeuceyGameTable } from "@/components/AceyDeuceyGameTable";
+import { CribbageMobileGameTable } from "@/components/CribbageMobileGameTable";
+import { EuchreGameTable } from "@/components/EuchreGameTable";
+import { FarkleGameTable } from "@/components/FarkleGameTable";
+import { GinRummyGameTable } from "@/components/GinRummyGameTable";
+import { HoldemGameTable } from "@/components/HoldemGameTable";
+import { LeftRightCenterGameTable } from "@/components/LeftRightCenterGameTable";
+import { LiarsDiceGameTable } from "@/components/LiarsDiceGameTable";
+import { ScrewYourNeighborGameTable } from "@/components/ScrewYourNeighborGameTable";
+import { SpadesGameTable } from "@/components/SpadesGameTable";
+import { StudGameTable } from "@/components/StudGameTable";
+import { YahtzeeGameTable } from "@/components/YahtzeeGameTable";
+import { AceyDeuceyHandDisplay } from "@/components/hand-history/AceyDeuceyHandDisplay";
+import { EuchreHandDisplay } from "@/components/hand-history/EuchreHandDisplay";
+import { FarkleHandDisplay } from "@/components/hand-history/FarkleHandDisplay";
+import { GinRummyHandDisplay } from "@/components/hand-history/GinRummyHandDisplay";
+import { HoldemHandDisplay } from "@/components/hand-history/HoldemHandDisplay";
+import { LeftRightCenterHandDisplay } from "@/components/hand-history/LeftRightCenterHandDisplay";
+import { LiarsDiceHandDisplay } from "@/components/hand-history/LiarsDiceHandDisplay";
+import { ScrewYourNeighborHandDisplay } from "@/components/hand-history/ScrewYourNeighborHandDisplay";
+import { SpadesHandDisplay } from "@/components/hand-history/SpadesHandDisplay";
+import { StudHandDisplay } from "@/components/hand-history/StudHandDisplay";
+import type { AceyDeuceyState } from "@/lib/aceyDeuceyTypes";
+import type { CribbageConfig } from "@/lib/cribbageModule";
+import type { EuchreState } from "@/lib/euchreTypes";
+import { getEuchreTricksWon } from "@/lib/euchreGameLogic";
+import type { FarkleState } from "@/lib/farkleTypes";
+import type { GinRummyState } from "@/lib/ginRummyTypes";
+import type { HoldemState } from "@/lib/holdemTypes";
+import type { LeftRightCenterState } from "@/lib/leftRightCenterTypes";
+import type { LiarsDiceState } from "@/lib/liarsDiceTypes";
+import type { ScrewYourNeighborState } from "@/lib/screwYourNeighborTypes";
+import type { SpadesState } from "@/lib/spadesTypes";
+import { getSpadesTricksWon } from "@/lib/spadesGameLogic";
+import type { StudState } from "@/lib/studTypes";
+import { STUD_VARIANTS } from "@/lib/studVariants";
+import type { YahtzeeState } from "@/lib/yahtzeeTypes";
+import type { GameHandHistoryProps, GameTableProps } from "./types";
+
+// Adapters from the shared module table props to each game's own table
+
+export function AceyDeuceyModuleTable(props: GameTableProps) {
+  return (
+    <AceyDeuceyGameTable
+      gameId={props.gameId}
+      roundId={props.roundId}
+      dealerGameId={props.dealerGameId}
+      players={props.players}
+      currentUserId={props.currentUserId}
+      isGameOver={props.isGameOver}
+      onGameComplete={props.onGameComplete}
+      onRefetch={props.onRefetch}
+    />
+  );
+}
+
+export function CribbageModuleTable(props: GameTableProps) {
+  return (
+    <CribbageMobileGameTable
+      gameId={props.gameId}
+      roundId={props.roundId}
+      dealerGameId={props.dealerGameId}
+      handNumber={props.handNumber}
+      players={props.players}
+      currentUserId={props.currentUserId}
+      dealerPosition={props.dealerPosition}
+      anteAmount={props.anteAmount}
+      pot={props.isGameOver ? 0 : props.pot}
+      isHost={props.isHost}
+      onGameComplete={props.onGameComplete}
+      dealerChatMessages={props.dealerChatMessages ?? []}
+      onInjectDealerChatMessage={props.onInjectDealerChatMessage ?? (() => {})}
+      gameConfig={props.config as CribbageConfig}
+      onPlayerClick={props.onPlayerClick}
+    />
+  );
+}
+
+export function EuchreModuleTable(props: GameTableProps) {
+  return (
+    <EuchreGameTable
+      gameId={props.gameId}
+      roundId={props.roundId}
+      dealerGameId={props.dealerGameId}
+      players={props.players}
+      currentUserId={props.currentUserId}
+      pot={props.pot}
+      isGameOver={props.isGameOver}
+      onGameComplete={props.onGameComplete}
+      onRefetch={props.onRefetch}
+    />
+  );
+}
+
+export function GinRummyModuleTable(props: GameTableProps) {
+  return (
+    <GinRummyGameTable
+      gameId={props.gameId}
+      roundId={props.roundId}
+      dealerGameId={props.dealerGameId}
+      handNumber={props.handNumber}
+      players={props.players}
+      currentUserId={props.currentUserId}
+      dealerPosition={props.dealerPosition}
+      anteAmount={props.anteAmount}
+      pot={props.pot}
+      isHost={props.isHost}
+      onGameComplete={props.onGameComplete}
+    />
+  );
+}
+
+export function HoldemModuleTable(props: GameTableProps) {
+  return (
+    <HoldemGameTable
+      gameId={props.gameId}
+      roundId={props.roundId}
+      dealerGameId={props.dealerGameId}
+      players={props.players}
+      currentUserId={props.currentUserId}
+      isGameOver={props.isGameOver}
+      onGameComplete={props.onGameComplete}
+      onRefetch={props.onRefetch}
+    />
+  );
+}
+
+export function FarkleModuleTable(props: GameTableProps) {
+  return (
+    <FarkleGameTable
+      gameId={props.gameId}
+      roundId={props.roundId}
+      players={props.players}
+      currentUserId={props.currentUserId}
+      anteAmount={props.anteAmount}
+      farkleState={props.gameState as FarkleState | null}
+    />
+  );
+}
+
+export function LeftRightCenterModuleTable(props: GameTableProps) {
+  return (
+    <LeftRightCenterGameTable
+      gameId={props.gameId}
+      roundId={props.roundId}
+      players={props.players}
+      currentUserId={props.currentUserId}
+      anteAmount={props.anteAmount}
+      pot={props.pot}
+      isGameOver={props.isGameOver}
+      onGameComplete={props.onGameComplete}
+    />
+  );
+}
+
+export function LiarsDiceModuleTable(props: GameTableProps) {
+  return (
+    <LiarsDiceGameTable
+      gameId={props.gameId}
+      roundId={props.roundId}
+      dealerGameId={props.dealerGameId}
+      players={props.players}
+      currentUserId={props.currentUserId}
+      pot={props.pot}
+      isGameOver={props.isGameOver}
+      onGameComplete={props.onGameComplete}
+      onRefetch={props.onRefetch}
+    />
+  );
+}
+
+export function ScrewYourNeighborModuleTable(props: GameTableProps) {
+  return (
+    <ScrewYourNeighborGameTable
+      gameId={props.gameId}
+      roundId={props.roundId}
+      dealerGameId={props.dealerGameId}
+      players={props.players}
+      currentUserId={props.currentUserId}
+      pot={props.pot}
+      isGameOver={props.isGameOver}
+      onGameComplete={props.onGameComplete}
+      onRefetch={props.onRefetch}
+    />
+  );
+}
+
+export function SpadesModuleTable(props: GameTableProps) {
+  return (
+    <SpadesGameTable
+      gameId={props.gameId}
+      roundId={props.roundId}
+      dealerGameId={props.dealerGameId}
+      players={props.players}
+      currentUserId={props.currentUserId}
+      pot={props.pot}
+      isGameOver={props.isGameOver}
+      onGameComplete={props.onGameComplete}
+      onRefetch={props.onRefetch}
+    />
+  );
+}
+
+export function StudModuleTable(props: GameTableProps) {
+  return (
+    <StudGameTable
+      gameId={props.gameId}
+      roundId={props.roundId}
+      dealerGameId={props.dealerGameId}
+      players={props.players}
+      currentUserId={props.currentUserId}
+      isGameOver={props.isGameOver}
+      onGameComplete={props.onGameComplete}
+      onRefetch={props.onRefetch}
+    />
+  );
+}
+
+export function YahtzeeModuleTable(props: GameTableProps) {
+  return (
+    <YahtzeeGameTable
+      gameId={props.gameId}
+      players={props.players}
+      currentUserId={props.currentUserId || undefined}
+      pot={props.pot}
+      anteAmount={props.anteAmount}
+      dealerPosition={props.dealerPosition}
+      currentRoundId={props.roundId || null}
+      dealerGameId={props.dealerGameId}
+      yahtzeeState={props.gameState as YahtzeeState | null}
+      onRefetch={props.onRefetch}
+      isHost={props.isHost}
+      onPlayerClick={props.onPlayerClick}
+    />
+  );
+}
+
+export function AceyDeuceyModuleHandHistory({ gameState, playerNames, currentPlayerId }: GameHandHistoryProps) {
+  const state = gameState as AceyDeuceyState;
+  return (
+    <AceyDeuceyHandDisplay
+      turns={state.turns}
+      pot={state.pot}
+      playerNames={playerNames}
+      currentPlayerId={currentPlayerId}
+    />
+  );
+}
+
+export function EuchreModuleHandHistory({ gameState, playerNames, currentPlayerId }: GameHandHistoryProps) {
+  const state = gameState as EuchreState;
+  const result = state.result!;
+  return (
+    <EuchreHandDisplay
+      seats={state.seats}
+      upcard={state.upcard}
+      trumpSuit={state.trumpSuit}
+      makerId={state.makerId}
+      alone={state.alone}
+      tricksWon={getEuchreTricksWon(state)}
+      makersTeam={result.makersTeam}
+      euchred={result.euchred}
+      points={result.points}
+      scores={result.scores}
+      winningTeam={result.winningTeam}
+      playerNames={playerNames}
+      currentPlayerId={currentPlayerId}
+    />
+  );
+}
+
+export function FarkleModuleHandHistory({ gameState, playerNames, currentPlayerId }: GameHandHistoryProps) {
+  const state = gameState as FarkleState;
+  return (
+    <FarkleHandDisplay
+      turnOrder={state.turnOrder}
+      scores={Object.fromEntries(state.turnOrder.map((id) => [id, state.playerStates[id]?.score ?? 0]))}
+      turns={state.turns}
+      targetScore={state.targetScore}
+      winnerId={state.winnerId}
+      playerNames={playerNames}
+      currentPlayerId={currentPlayerId}
+    />
+  );
+}
+
+export function GinRummyModuleHandHistory({ gameState, playerNames, currentPlayerId }: GameHandHistoryProps) {
+  const state = gameState as GinRummyState;
+  return (
+    <GinRummyHandDisplay
+      playerStates={state.playerStates}
+      knockResult={state.knockResult}
+      playerNames={playerNames}
+      currentPlayerId={currentPlayerId}
+    />
+  );
+}
+
+export function HoldemModuleHandHistory({ gameState, playerNames, currentPlayerId }: GameHandHistoryProps) {
+  const state = gameState as HoldemState;
+  return (
+    <HoldemHandDisplay
+      seatOrder={state.seatOrder}
+      playerStates={state.playerStates}
+      results={state.results ?? []}
+      playerNames={playerNames}
+      currentPlayerId={currentPlayerId}
+    />
+  );
+}
+
+export function LeftRightCenterModuleHandHistory({ gameState, playerNames, currentPlayerId }: GameHandHistoryProps) {
+  const state = gameState as LeftRightCenterState;
+  return (
+    <LeftRightCenterHandDisplay
+      turnOrder={state.turnOrder}
+      chips={state.chips}
+      center={state.center}
+      rolls={state.rolls}
+      winnerId={state.winnerId}
+      playerNames={playerNames}
+      currentPlayerId={currentPlayerId}
+    />
+  );
+}
+
+export function LiarsDiceModuleHandHistory({ gameState, playerNames, currentPlayerId }: GameHandHistoryProps) {
+  const state = gameState as LiarsDiceState;
+  const challenge = state.challenge!;
+  return (
+    <LiarsDiceHandDisplay
+      seatOrder={state.seatOrder}
+      cups={state.cups}
+      diceCounts={state.diceCounts}
+      bids={state.bids}
+      challengerId={challenge.challengerId}
+      count={challenge.count ?? 0}
+      loserId={challenge.loserId ?? ""}
+      diceLost={challenge.diceLost}
+      playerNames={playerNames}
+      currentPlayerId={currentPlayerId}
+    />
+  );
+}
+
+export function ScrewYourNeighborModuleHandHistory({ gameState, playerNames, currentPlayerId }: GameHandHistoryProps) {
+  const state = gameState as ScrewYourNeighborState;
+  return (
+    <ScrewYourNeighborHandDisplay
+      seatOrder={state.seatOrder}
+      cards={state.cards}
+      lives={state.lives}
+      moves={state.moves}
+      loserIds={state.loserIds}
+      playerNames={playerNames}
+      currentPlayerId={currentPlayerId}
+    />
+  );
+}
+
+export function SpadesModuleHandHistory({ gameState, playerNames, currentPlayerId }: GameHandHistoryProps) {
+  const state = gameState as SpadesState;
+  const result = state.result!;
+  return (
+    <SpadesHandDisplay
+      seats={state.seats}
+      bids={state.bids}
+      tricksWon={getSpadesTricksWon(state)}
+      teams={result.teams}
+      winningTeam={result.winningTeam}
+      playerNames={playerNames}
+      currentPlayerId={currentPlayerId}
+    />
+  );
+}
+
+export function StudModuleHandHistory({ gameState, playerNames, currentPlayerId }: GameHandHistoryProps) {
+  const state = gameState as StudState;
+  return (
+    <StudHandDisplay
+      variantName={STUD_VARIANTS[state.variant].name}
+      seatOrder={state.seatOrder}
+      playerStates={state.playerStates}
+      results={state.results ?? []}
+      playerNames={playerNames}
+      currentPlayerId={currentPlayerId}
+    />
+  );
+}
@@ -0,0 +1,199 @@
+import { canonicalGameType, type GameTypeId } from "@/lib/gameTypes";
+import { aceyDeuceyModule } from "@/lib/aceyDeuceyModule";
+import { cribbageModule } from "@/lib/cribbageModule";
+import { euchreModule } from "@/lib/euchreModule";
+import { farkleModule } from "@/lib/farkleModule";
+import { ginRummyModule } from "@/lib/ginRummyModule";
+import { holdemModule } from "@/lib/holdemModule";
+import { leftRightCenterModule } from "@/lib/leftRightCenterModule";
+import { liarsDiceModule } from "@/lib/liarsDiceModule";
+import { screwYourNeighborModule } from "@/lib/screwYourNeighborModule";
+import { spadesModule } from "@/lib/spadesModule";
+import { studModule } from "@/lib/studModule";
+import { yahtzeeModule } from "@/lib/yahtzeeModule";
+import { startAceyDeuceyRound } from "@/lib/aceyDeuceyRoundLogic";
+import { startEuchreRound } from "@/lib/euchreRoundLogic";
+import { startFarkleRound } from "@/lib/farkleRoundLogic";
+import { startGinRummyRound } from "@/lib/ginRummyRoundLogic";
+import { startHoldemRound } from "@/lib/holdemRoundLogic";
+import { startLeftRightCenterRound } from "@/lib/leftRightCenterRoundLogic";
+import { startLiarsDiceRound } from "@/lib/liarsDiceRoundLogic";
+import { startScrewYourNeighborRound } from "@/lib/screwYourNeighborRoundLogic";
+import { startSpadesRound } from "@/lib/spadesRoundLogic";
+import { startStudRound } from "@/lib/studRoundLogic";
+import { startYahtzeeRound } from "@/lib/yahtzeeRoundLogic";
+import type { AceyDeuceyState } from "@/lib/aceyDeuceyTypes";
+import type { EuchreState } from "@/lib/euchreTypes";
+import type { FarkleState } from "@/lib/farkleTypes";
+import type { GinRummyState } from "@/lib/ginRummyTypes";
+import type { HoldemState } from "@/lib/holdemTypes";
+import type { LeftRightCenterState } from "@/lib/leftRightCenterTypes";
+import type { LiarsDiceState } from "@/lib/liarsDiceTypes";
+import type { ScrewYourNeighborState } from "@/lib/screwYourNeighborTypes";
+import type { SpadesState } from "@/lib/spadesTypes";
+import type { StudState } from "@/lib/studTypes";
+import {
+  AceyDeuceyModuleHandHistory,
+  AceyDeuceyModuleTable,
+  CribbageModuleTable,
+  EuchreModuleHandHistory,
+  EuchreModuleTable,
+  FarkleModuleHandHistory,
+  FarkleModuleTable,
+  GinRummyModuleHandHistory,
+  GinRummyModuleTable,
+  HoldemModuleHandHistory,
+  HoldemModuleTable,
+  LeftRightCenterModuleHandHistory,
+  LeftRightCenterModuleTable,
+  LiarsDiceModuleHandHistory,
+  LiarsDiceModuleTable,
+  ScrewYourNeighborModuleHandHistory,
+  ScrewYourNeighborModuleTable,
+  SpadesModuleHandHistory,
+  SpadesModuleTable,
+  StudModuleHandHistory,
+  StudModuleTable,
+  YahtzeeModuleTable,
+} from "./GameModuleViews";
+import {
+  aceyDeuceyReplayView,
+  cribbageReplayView,
+  euchreReplayView,
+  farkleReplayView,
+  ginRummyReplayView,
+  holdemReplayView,
+  leftRightCenterReplayView,
+  liarsDiceReplayView,
+  screwYourNeighborReplayView,
+  spadesReplayView,
+  studReplayView,
+  yahtzeeReplayView,
+} from "./replayViews";
+import type { GameModule } from "./types";
+
+// Rules (src/lib/*Module.ts) joined with their renderers.
+// Cribbage's hand history is built from its event log, not its final state.
+const GAME_MODULES: Partial<Record<GameTypeId, GameModule>> = {
+  "acey-deucey": {
+    ...aceyDeuceyModule,
+    Table: AceyDeuceyModuleTable,
+    showTableDuringAnte: false,
+    antesToPot: true,
+    startHand: (gameId) => startAceyDeuceyRound(gameId),
+    HandHistory: AceyDeuceyModuleHandHistory,
+    hasHandHistory: (gameState) => ((gameState as AceyDeuceyState | null)?.turns.length ?? 0) > 0,
+    replayView: aceyDeuceyReplayView,
+  },
+  cribbage: {
+    ...cribbageModule,
+    Table: CribbageModuleTable,
+    showTableDuringAnte: true,
+    antesToPot: false,
+    replayView: cribbageReplayView,
+  },
+  euchre: {
+    ...euchreModule,
+    Table: EuchreModuleTable,
+    showTableDuringAnte: false,
+    antesToPot: true,
+    startHand: (gameId) => startEuchreRound(gameId),
+    HandHistory: EuchreModuleHandHistory,
+    hasHandHistory: (gameState) => (gameState as EuchreState | null)?.phase === "complete",
+    replayView: euchreReplayView,
+  },
+  farkle: {
+    ...farkleModule,
+    Table: FarkleModuleTable,
+    showTableDuringAnte: false,
+    antesToPot: false,
+    startHand: (gameId) => startFarkleRound(gameId, true),
+    HandHistory: FarkleModuleHandHistory,
+    hasHandHistory: (gameState) => (gameState as FarkleState | null)?.gamePhase === "complete",
+    replayView: farkleReplayView,
+  },
+  "gin-rummy": {
+    ...ginRummyModule,
+    Table: GinRummyModuleTable,
+    showTableDuringAnte: true,
+    antesToPot: true,
+    startHand: (gameId) => startGinRummyRound(gameId),
+    HandHistory: GinRummyModuleHandHistory,
+    hasHandHistory: (gameState) => Boolean((gameState as GinRummyState | null)?.knockResult),
+    replayView: ginRummyReplayView,
+  },
+  holdem: {
+    ...holdemModule,
+    Table: HoldemModuleTable,
+    showTableDuringAnte: false,
+    antesToPot: false,
+    startHand: (gameId) => startHoldemRound(gameId),
+    HandHistory: HoldemModuleHandHistory,
+    hasHandHistory: (gameState) => Boolean((gameState as HoldemState | null)?.results),
+    replayView: holdemReplayView,
+  },
+  "left-right-center": {
+    ...leftRightCenterModule,
+    Table: LeftRightCenterModuleTable,
+    showTableDuringAnte: false,
+    antesToPot: true,
+    antesPerPlayer: (game) => leftRightCenterModule.config.fromGame(game).chipsPerPlayer,
+    startHand: (gameId) => startLeftRightCenterRound(gameId),
+    HandHistory: LeftRightCenterModuleHandHistory,
+    hasHandHistory: (gameState) => (gameState as LeftRightCenterState | null)?.phase === "complete",
+    replayView: leftRightCenterReplayView,
+  },
+  "liars-dice": {
+    ...liarsDiceModule,
+    Table: LiarsDiceModuleTable,
+    showTableDuringAnte: false,
+    antesToPot: true,
+    startHand: (gameId) => startLiarsDiceRound(gameId),
+    HandHistory: LiarsDiceModuleHandHistory,
+    hasHandHistory: (gameState) => (gameState as LiarsDiceState | null)?.phase === "complete",
+    replayView: liarsDiceReplayView,
+  },
+  "screw-your-neighbor": {
+    ...screwYourNeighborModule,
+    Table: ScrewYourNeighborModuleTable,
+    showTableDuringAnte: false,
+    antesToPot: true,
+    startHand: (gameId) => startScrewYourNeighborRound(gameId),
+    HandHistory: ScrewYourNeighborModuleHandHistory,
+    hasHandHistory: (gameState) => (gameState as ScrewYourNeighborState | null)?.phase === "complete",
+    replayView: screwYourNeighborReplayView,
+  },
+  spades: {
+    ...spadesModule,
+    Table: SpadesModuleTable,
+    showTableDuringAnte: false,
+    antesToPot: true,
+    startHand: (gameId) => startSpadesRound(gameId),
+    HandHistory: SpadesModuleHandHistory,
+    hasHandHistory: (gameState) => (gameState as SpadesState | null)?.phase === "complete",
+    replayView: spadesReplayView,
+  },
+  stud: {
+    ...studModule,
+    Table: StudModuleTable,
+    showTableDuringAnte: false,
+    antesToPot: false,
+    startHand: (gameId) => startStudRound(gameId),
+    HandHistory: StudModuleHandHistory,
+    hasHandHistory: (gameState) => Boolean((gameState as StudState | null)?.results),
+    replayView: studReplayView,
+  },
+  yahtzee: {
+    ...yahtzeeModule,
+    Table: YahtzeeModuleTable,
+    showTableDuringAnte: false,
+    antesToPot: false,
+    startHand: (gameId) => startYahtzeeRound(gameId, true),
+    replayView: yahtzeeReplayView,
+  },
+};
+
+export function getGameModule(gameType: string | null | undefined): GameModule | undefined {
+  const id = canonicalGameType(gameType);
+  return id ? GAME_MODULES[id] : undefined;
+}
@@ -0,0 +1,207 @@
+import type { ReplayTableView } from "@/lib/handReplay";
+import type { AceyDeuceyState } from "@/lib/aceyDeuceyTypes";
+import { getAceyDeuceyChipChanges } from "@/lib/aceyDeuceyGameLogic";
+import type { CribbageState } from "@/lib/cribbageTypes";
+import type { EuchreState } from "@/lib/euchreTypes";
+import { getEuchreSittingOut, getEuchreTricksWon } from "@/lib/euchreGameLogic";
+import type { FarkleState } from "@/lib/farkleTypes";
+import type { GinRummyState } from "@/lib/ginRummyTypes";
+import type { HoldemState } from "@/lib/holdemTypes";
+import type { LeftRightCenterState } from "@/lib/leftRightCenterTypes";
+import type { LiarsDiceState } from "@/lib/liarsDiceTypes";
+import { getLiarsDiceCountsAfter } from "@/lib/liarsDiceGameLogic";
+import type { ScrewYourNeighborState } from "@/lib/screwYourNeighborTypes";
+import { getScrewYourNeighborLivesAfter } from "@/lib/screwYourNeighborGameLogic";
+import type { SpadesState } from "@/lib/spadesTypes";
+import { getSpadesTricksWon } from "@/lib/spadesGameLogic";
+import type { StudState } from "@/lib/studTypes";
+import type { YahtzeeState } from "@/lib/yahtzeeTypes";
+import { getTotalScore } from "@/lib/yahtzeeScoring";
+
+// What each module game's table shows at one step of a hand replay (see handReplay.ts)
+
+// Seats show the chips won or paid in so far; the table shows the posts up now, or the last
+// turn's posts with the card turned between them
+export function aceyDeuceyReplayView(gameState: unknown): ReplayTableView {
+  const state = gameState as AceyDeuceyState;
+  const changes = getAceyDeuceyChipChanges(state);
+  const lastTurn = state.turns[state.turns.length - 1];
+  return {
+    seats: state.seatOrder.map((playerId) => ({ playerId, score: changes[playerId] })),
+    tableCards: state.posts.length > 0
+      ? state.posts
+      : lastTurn
+        ? [lastTurn.posts[0], ...(lastTurn.card ? [lastTurn.card] : []), lastTurn.posts[1]]
+        : [],
+  };
+}
+
+export function cribbageReplayView(gameState: unknown): ReplayTableView {
+  const state = gameState as CribbageState;
+  return {
+    seats: state.turnOrder.map((playerId) => ({
+      playerId,
+      cards: state.playerStates[playerId]?.hand ?? [],
+      score: state.playerStates[playerId]?.pegScore ?? 0,
+    })),
+    tableCards: [
+      ...(state.cutCard ? [state.cutCard] : []),
+      ...state.pegging.playedCards.map((played) => played.card),
+    ],
+  };
+}
+
+// As in Spades, hands stay out of the state: each seat is its cards still to play face down
+// (none for a partner sitting out) and tricks taken stand in for the score. The turned card
+// sits in the middle while trump is called, then the trick on the table
+export function euchreReplayView(gameState: unknown): ReplayTableView {
+  const state = gameState as EuchreState;
+  const tricksWon = getEuchreTricksWon(state);
+  const sittingOut = getEuchreSittingOut(state);
+  const played = [...state.tricks, ...(state.currentTrick ? [state.currentTrick] : [])].flatMap((trick) => trick.plays);
+  const shownTrick = state.currentTrick ?? state.tricks[state.tricks.length - 1];
+  const calling = state.phase === 'ordering' || state.phase === 'naming';
+  return {
+    seats: state.seats.map((playerId) => ({
+      playerId,
+      hiddenCards: playerId === sittingOut ? 0 : 5 - played.filter((play) => play.playerId === playerId).length,
+      score: tricksWon[playerId],
+    })),
+    tableCards: calling ? [state.upcard] : shownTrick?.plays.map((play) => play.card) ?? [],
+  };
+}
+
+// Banked scores; the seat to act shows the dice in play, or the last turn's final roll
+// between turns
+export function farkleReplayView(gameState: unknown): ReplayTableView {
+  const state = gameState as FarkleState;
+  const lastTurn = state.turns[state.turns.length - 1];
+  const roller = state.turn.rolls > 0 ? state.currentTurnPlayerId : lastTurn?.playerId;
+  const dice = state.turn.rolls > 0 ? state.turn.dice : lastTurn?.dice ?? [];
+  return {
+    seats: state.turnOrder.map((playerId) => ({
+      playerId,
+      dice: playerId === roller ? dice : [],
+      score: state.playerStates[playerId]?.score ?? 0,
+    })),
+  };
+}
+
+export function ginRummyReplayView(gameState: unknown): ReplayTableView {
+  const state = gameState as GinRummyState;
+  const discardTop = state.discardPile[state.discardPile.length - 1];
+  return {
+    seats: state.turnOrder.map((playerId) => ({
+      playerId,
+      cards: state.playerStates[playerId]?.hand ?? [],
+      score: state.matchScores[playerId] ?? 0,
+    })),
+    tableCards: discardTop ? [discardTop] : [],
+  };
+}
+
+// Hole cards are only in the state once shown down; until then the seat keeps what the
+// viewer already knows (their own). The stack stands in for the score.
+export function holdemReplayView(gameState: unknown): ReplayTableView {
+  const state = gameState as HoldemState;
+  return {
+    seats: state.seatOrder.map((playerId) => {
+      const ps = state.playerStates[playerId];
+      return {
+        playerId,
+        ...(ps?.holeCards.length ? { cards: ps.holeCards } : {}),
+        score: ps?.stack ?? 0,
+      };
+    }),
+    tableCards: state.communityCards,
+  };
+}
+
+// Up cards are public; the hole cards stay backs until shown down. No table cards in stud.
+// Chips in front of each player stand in for the score; the seat to roll last shows its dice
+export function leftRightCenterReplayView(gameState: unknown): ReplayTableView {
+  const state = gameState as LeftRightCenterState;
+  const lastRoll = state.rolls[state.rolls.length - 1];
+  return {
+    seats: state.turnOrder.map((playerId) => ({
+      playerId,
+      dice: lastRoll?.playerId === playerId ? lastRoll.dice : [],
+      score: state.chips[playerId] ?? 0,
+    })),
+  };
+}
+
+// Cups are only in the state once a call turns them up (see liarsDiceTypes.ts); dice left
+// stand in for the score
+export function liarsDiceReplayView(gameState: unknown): ReplayTableView {
+  const state = gameState as LiarsDiceState;
+  const counts = getLiarsDiceCountsAfter(state);
+  return {
+    seats: state.seatOrder.map((playerId) => ({ playerId, dice: state.cups[playerId] ?? [], score: counts[playerId] })),
+  };
+}
+
+// Cards are only in the state once turned up (see screwYourNeighborTypes.ts), the rest stay
+// backs; lives stand in for the score, and the dealer's cut card sits in the middle
+export function screwYourNeighborReplayView(gameState: unknown): ReplayTableView {
+  const state = gameState as ScrewYourNeighborState;
+  const lives = getScrewYourNeighborLivesAfter(state);
+  const cut = state.moves.find((move) => move.type === "cut");
+  return {
+    seats: state.seatOrder.map((playerId) => {
+      const card = state.cards[playerId];
+      return { playerId, ...(card ? { cards: [card] } : { hiddenCards: 1 }), score: lives[playerId] };
+    }),
+    tableCards: cut?.card ? [cut.card] : [],
+  };
+}
+
+// Hands never reach the state (see spadesRoundLogic.ts), so each seat is its cards still to
+// play face down; tricks taken stand in for the score, and the trick on the table sits in the
+// middle (the last one taken until the next lead)
+export function spadesReplayView(gameState: unknown): ReplayTableView {
+  const state = gameState as SpadesState;
+  const tricksWon = getSpadesTricksWon(state);
+  const played = [...state.tricks, ...(state.currentTrick ? [state.currentTrick] : [])].flatMap((trick) => trick.plays);
+  const shownTrick = state.currentTrick ?? state.tricks[state.tricks.length - 1];
+  return {
+    seats: state.seats.map((playerId) => ({
+      playerId,
+      hiddenCards: 13 - played.filter((play) => play.playerId === playerId).length,
+      score: tricksWon[playerId],
+    })),
+    tableCards: shownTrick?.plays.map((play) => play.card) ?? [],
+  };
+}
+
+export function studReplayView(gameState: unknown): ReplayTableView {
+  const state = gameState as StudState;
+  return {
+    seats: state.seatOrder.map((playerId) => {
+      const ps = state.playerStates[playerId];
+      const shown = (ps?.holeCards.length ?? 0) > 0;
+      return {
+        playerId,
+        cards: ps ? [...ps.holeCards, ...ps.upCards] : [],
+        hiddenCards: shown || ps?.folded ? 0 : state.street === 'seventh' ? 3 : 2,
+        score: ps?.stack ?? 0,
+      };
+    }),
+  };
+}
+
+export function yahtzeeReplayView(gameState: unknown): ReplayTableView {
+  const state = gameState as YahtzeeState;
+  return {
+    seats: state.turnOrder.map((playerId) => {
+      const ps = state.playerStates[playerId];
+      return {
+        playerId,
+        // 0 = not rolled yet this turn
+        dice: ps?.dice.filter((d) => d.value > 0).map((d) => d.value) ?? [],
+        held: ps?.dice.filter((d) => d.value > 0).map((d) => d.isHeld) ?? [],
+        score: ps ? getTotalScore(ps.scorecard) : 0,
+      };
+    }),
+  };
+}
@@ -0,0 +1,71 @@
+import type { ComponentType } from "react";
+import type { AnyGameRules, GameConfigRow } from "@/lib/gameModule";
+import type { ReplayTableView } from "@/lib/handReplay";
+
+export interface GameTablePlayer {
+  id: string;
+  user_id: string;
+  position: number;
+  chips: number;
+  is_bot: boolean;
+  sitting_out: boolean;
+  // Set by the host per bot; only cribbage bots read it so far
+  bot_difficulty?: string;
+  profiles?: { username: string };
+}
+
+export interface DealerChatMessage {
+  id: string;
+  message: string;
+  created_at: string;
+  isDealer: true;
+}
+
+// What Game.tsx hands every module table
+export interface GameTableProps<Config = unknown> {
+  gameId: string;
+  // Empty while antes are collected, before the first hand is dealt
+  roundId: string;
+  dealerGameId: string | null;
+  handNumber: number;
+  players: GameTablePlayer[];
+  currentUserId: string;
+  dealerPosition: number;
+  anteAmount: number;
+  pot: number;
+  isHost: boolean;
+  // The win sequence is playing (status game_over); the table must stay mounted
+  isGameOver: boolean;
+  config: Config;
+  // rounds.game_state of the current round as last fetched by the page
+  gameState: unknown;
+  onGameComplete: () => void;
+  onRefetch: () => void;
+  onPlayerClick?: (player: GameTablePlayer) => void;
+  dealerChatMessages?: DealerChatMessage[];
+  onInjectDealerChatMessage?: (message: string) => void;
+}
+
+export interface GameHandHistoryProps {
+  // Final rounds.game_state of the hand
+  gameState: unknown;
+  playerNames: Map<string, string>;
+  currentPlayerId?: string;
+}
+
+export interface GameModule extends AnyGameRules {
+  Table: ComponentType<GameTableProps>;
+  // Replaces the poker table while antes are collected
+  showTableDuringAnte: boolean;
+  // The antes fly into the pot when the game starts; false when they're a buy-in or nothing is taken up front
+  antesToPot: boolean;
+  // Antes each player pays up front, one when unset
+  antesPerPlayer?: (game: GameConfigRow) => number;
+  // Deals the first hand once the antes are in; cribbage picks its dealer first instead
+  startHand?: (gameId: string) => Promise<unknown>;
+  // Hand-history detail for a finished hand; replaces the generic card rows
+  HandHistory?: ComponentType<GameHandHistoryProps>;
+  hasHandHistory?: (gameState: unknown) => boolean;
+  // The table at one step of a hand replay
+  replayView?: (gameState: unknown) => ReplayTableView;
+}
@@ -0,0 +1,67 @@
+import { cn } from "@/lib/utils";
+import { MiniPlayingCard } from "./MiniPlayingCard";
+import type { CardData } from "./types";
+
+interface AceyDeuceyTurnData {
+  playerId: string;
+  posts: CardData[];
+  bet: number;
+  card: CardData | null;
+  outcome: "win" | "lose" | "post" | "pass";
+  chipChange: number;
+}
+
+interface AceyDeuceyHandDisplayProps {
+  turns: AceyDeuceyTurnData[];
+  pot: number;
+  playerNames: Map<string, string>;
+  currentPlayerId?: string;
+}
+
+const OUTCOME_LABELS: Record<AceyDeuceyTurnData["outcome"], string> = {
+  win: "Between",
+  lose: "Outside",
+  post: "Post",
+  pass: "Pass",
+};
+
+/** Every turn of an Acey-Deucey hand: the posts, the card turned between them and the chips moved */
+export function AceyDeuceyHandDisplay({ turns, pot, playerNames, currentPlayerId }: AceyDeuceyHandDisplayProps) {
+  const nameOf = (playerId: string) =>
+    playerId === currentPlayerId ? "You" : (playerNames.get(playerId) || "Unknown");
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs font-semibold px-2 py-1.5 rounded text-center bg-primary/20 text-primary">
+        {pot > 0 ? `Pot after the hand: $${pot}` : "Pot taken"}
+      </div>
+
+      {turns.map((turn, i) => (
+        <div
+          key={i}
+          className={cn(
+            "flex items-center gap-2 rounded px-2 py-1.5",
+            turn.chipChange > 0 ? "bg-primary/10" : "bg-muted/20",
+            turn.outcome === "pass" && "opacity-50"
+          )}
+        >
+          <span className="text-xs font-medium text-foreground">{nameOf(turn.playerId)}</span>
+          <div className="flex gap-0.5">
+            <MiniPlayingCard card={turn.posts[0]} />
+            {turn.card && <MiniPlayingCard card={turn.card} />}
+            <MiniPlayingCard card={turn.posts[1]} />
+          </div>
+          <span className="text-[10px] text-muted-foreground">
+            {OUTCOME_LABELS[turn.outcome]}
+            {turn.bet > 0 && ` • bet $${turn.bet}`}
+          </span>
+          {turn.chipChange !== 0 && (
+            <span className={cn("text-[10px] font-semibold ml-auto", turn.chipChange > 0 ? "text-green-500" : "text-red-500")}>
+              {turn.chipChange > 0 ? "+" : "-"}${Math.abs(turn.chipChange)}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -27,6 +27,8 @@ function getEventLabel(eventType: string): string {
     case "hand_scoring": return "Hand";
     case "crib_scoring": return "Crib";
     case "cut_card": return "Cut";
+    case "count_declared": return "Count";
+    case "muggins": return "Muggins";
     default: return eventType;
   }
 }
@@ -260,6 +262,12 @@ function CribbageEventRow({ event, playerNames, allEvents, eventIndex, scoresAft
     case "cut_card":
       description = "Cut card revealed";
       break;
+    case "count_declared":
+      description = event.event_subtype === "crib" ? `${username} counts the crib` : `${username} counts`;
+      break;
+    case "muggins":
+      description = `${username} claims the missed ${event.event_subtype === "crib" ? "crib" : "hand"} points`;
+      break;
     default:
       description = username;
   }
@@ -279,7 +287,7 @@ function CribbageEventRow({ event, playerNames, allEvents, eventIndex, scoresAft
         <div className="flex items-center gap-2 flex-1 min-w-0">
           <span className={cn(
             "text-[10px] font-medium w-10 flex-shrink-0",
-            event.event_type === "his_heels" ? "text-primary" : "text-muted-foreground"
+            event.event_type === "his_heels" || event.event_type === "muggins" ? "text-primary" : "text-muted-foreground"
           )}>
             {label}
           </span>
@@ -357,10 +365,12 @@ function groupEventsByHand(events: CribbageEventRecord[]): Map<number, CribbageE
 function separateEventsByPhase(events: CribbageEventRecord[]): {
   peggingEvents: CribbageEventRecord[];
   scoringEvents: CribbageEventRecord[];
+  mugginsEvents: CribbageEventRecord[];
   cutCard: CardData | null;
 } {
   const peggingEvents: CribbageEventRecord[] = [];
   const scoringEvents: CribbageEventRecord[] = [];
+  const mugginsEvents: CribbageEventRecord[] = [];
   let cutCard: CardData | null = null;
 
   for (const event of events) {
@@ -372,13 +382,16 @@ function separateEventsByPhase(events: CribbageEventRecord[]): {
       event.event_type === "hand_scoring" ||
       event.event_type === "crib_scoring" ||
       event.event_type === "crib_reveal" ||
-      event.event_type === "his_heels"
+      event.event_type === "his_heels" ||
+      event.event_type === "count_declared"
     ) {
       scoringEvents.push(event);
+    } else if (event.event_type === "muggins") {
+      mugginsEvents.push(event);
     }
   }
 
-  return { peggingEvents, scoringEvents, cutCard };
+  return { peggingEvents, scoringEvents, mugginsEvents, cutCard };
 }
 
 // Extract player hands from pegging events (cards played during pegging = their 4-card hand)
@@ -427,7 +440,10 @@ function groupScoringByPlayer(
   let cribDealerId: string | null = null;
 
   for (const event of events) {
-    if (event.event_type === "hand_scoring" || event.event_type === "his_heels") {
+    // Muggins declarations sit with the hand or crib they count
+    const isHandCount = event.event_type === "count_declared" && event.event_subtype !== "crib";
+    const isCribCount = event.event_type === "count_declared" && event.event_subtype === "crib";
+    if (event.event_type === "hand_scoring" || event.event_type === "his_heels" || isHandCount) {
       if (!handScoringByPlayer.has(event.player_id)) {
         handScoringByPlayer.set(event.player_id, []);
       }
@@ -436,7 +452,7 @@ function groupScoringByPlayer(
       // crib_reveal contains the full 4-card crib
       cribRevealCards = event.cards_involved || [];
       cribDealerId = event.player_id;
-    } else if (event.event_type === "crib_scoring") {
+    } else if (event.event_type === "crib_scoring" || isCribCount) {
       cribScoringEvents.push(event);
       if (!cribDealerId) {
         cribDealerId = event.player_id;
@@ -512,7 +528,7 @@ export function CribbageEventDisplay({ events, playerNames, playerHands = [], po
     <div className="space-y-3">
       {handNumbers.map((handNum) => {
         const handEvents = groupedByHand.get(handNum)!;
-        const { peggingEvents, scoringEvents, cutCard } = separateEventsByPhase(handEvents);
+        const { peggingEvents, scoringEvents, mugginsEvents, cutCard } = separateEventsByPhase(handEvents);
         
         // Extract hands from pegging events
         const extractedHands = extractPlayerHands(peggingEvents);
@@ -606,6 +622,22 @@ export function CribbageEventDisplay({ events, playerNames, playerHands = [], po
                 })}
               </div>
             )}
+
+            {/* Muggins claims - opponents pegging the points a count missed */}
+            {mugginsEvents.length > 0 && (
+              <div className="space-y-1 mt-2">
+                {mugginsEvents.map((event) => (
+                  <CribbageEventRow
+                    key={event.id}
+                    event={event}
+                    playerNames={playerNames}
+                    allEvents={handEvents}
+                    eventIndex={handEvents.indexOf(event)}
+                    scoresAfterForRow={computedScoresAfterById.get(event.id)}
+                  />
+                ))}
+              </div>
+            )}
           </div>
         );
       })}
@@ -1,5 +1,6 @@
 import { AccordionItem, AccordionTrigger, AccordionContent } from "@/components/ui/accordion";
 import { cn, formatChipValue } from "@/lib/utils";
+import { getGameDisplayName, isGameType } from "@/lib/gameTypes";
 import { HandAccordionContent } from "./HandAccordionContent";
 import type { DealerGameGroup } from "./types";
 
@@ -10,28 +11,6 @@ interface DealerGameAccordionProps {
   playerNames?: Map<string, string>;
 }
 
-// Format game type for display
-const formatGameType = (type: string | null | undefined): string => {
-  if (!type) return "";
-  const normalized = type.toLowerCase().replace(/-/g, "");
-  switch (normalized) {
-    case "holmgame":
-      return "Holm";
-    case "357":
-      return "3-5-7";
-    case "horses":
-      return "Horses";
-    case "shipcaptaincrew":
-      return "SCC";
-    case "cribbage":
-      return "Cribbage";
-    case "ginrummy":
-      return "Gin Rummy";
-    default:
-      return type;
-  }
-};
-
 export function DealerGameAccordion({
   group,
   currentPlayerId,
@@ -39,12 +18,12 @@ export function DealerGameAccordion({
   playerNames,
 }: DealerGameAccordionProps) {
   const displayNumber = group.displayNumber;
-  const gameTypeDisplay = formatGameType(group.gameType);
+  const gameTypeDisplay = getGameDisplayName(group.gameType, true);
 
   const startedAt = group.dealerGame?.started_at || group.latestTimestamp;
   const startedText = startedAt ? `Started: ${new Date(startedAt).toLocaleString()}` : "";
 
-  const isCribbage = group.gameType === "cribbage";
+  const isCribbage = isGameType(group.gameType, 'cribbage');
   const cribbageScoreline = (() => {
     if (!isCribbage || !group.cribbageFinalScores) return null;
     const scores = Object.values(group.cribbageFinalScores).filter((v) => typeof v === 'number' && !Number.isNaN(v));
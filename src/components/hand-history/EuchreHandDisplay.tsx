@@ -0,0 +1,79 @@
+import { cn } from "@/lib/utils";
+
+interface EuchreHandDisplayProps {
+  seats: string[];
+  upcard: { rank: string; suit: string };
+  trumpSuit: string | null;
+  makerId: string | null;
+  alone: boolean;
+  tricksWon: Record<string, number>;
+  makersTeam: number | null;
+  euchred: boolean;
+  points: number[];
+  scores: number[];
+  winningTeam: number | null;
+  playerNames: Map<string, string>;
+  currentPlayerId?: string;
+}
+
+/** A Euchre hand: the turned card and who called what, then each partnership's tricks and score */
+export function EuchreHandDisplay({
+  seats,
+  upcard,
+  trumpSuit,
+  makerId,
+  alone,
+  tricksWon,
+  makersTeam,
+  euchred,
+  points,
+  scores,
+  winningTeam,
+  playerNames,
+  currentPlayerId,
+}: EuchreHandDisplayProps) {
+  const nameOf = (playerId: string) =>
+    playerId === currentPlayerId ? "You" : (playerNames.get(playerId) || "Unknown");
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-[10px] text-muted-foreground px-2">
+        <span>Turned up {upcard.rank}{upcard.suit}</span>
+        <span className="ml-auto">
+          {makerId
+            ? <><span className="font-medium text-foreground">{nameOf(makerId)}</span> called {trumpSuit}{alone ? " alone" : ""}</>
+            : "Everyone passed • Thrown in"}
+        </span>
+      </div>
+
+      {[0, 1].map((team) => {
+        const members = seats.filter((_, i) => i % 2 === team);
+        const isMakers = makersTeam === team;
+        return (
+          <div
+            key={team}
+            className={cn("rounded px-2 py-1.5 space-y-0.5", winningTeam === team ? "bg-poker-gold/10" : "bg-muted/20")}
+          >
+            {members.map((playerId) => (
+              <div key={playerId} className="flex items-center gap-2 text-[10px] text-muted-foreground">
+                <span className="text-xs font-medium text-foreground">{nameOf(playerId)}</span>
+                <span className="ml-auto">
+                  {tricksWon[playerId] ?? 0} {tricksWon[playerId] === 1 ? "trick" : "tricks"}
+                </span>
+              </div>
+            ))}
+            <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+              <span>{isMakers ? (euchred ? "Makers • Euchred" : "Makers") : makersTeam === null ? "" : "Defenders"}</span>
+              <span className={cn("ml-auto font-semibold", points[team] > 0 ? "text-green-500" : "text-muted-foreground")}>
+                +{points[team]}
+              </span>
+              <span className="font-bold text-foreground">
+                {scores[team]}{winningTeam === team ? " • Won" : ""}
+              </span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { cn } from "@/lib/utils";
+
+interface FarkleTurnData {
+  playerId: string;
+  points: number;
+  farkled: boolean;
+  dice: number[];
+  setAside: number[][];
+}
+
+interface FarkleHandDisplayProps {
+  turnOrder: string[];
+  scores: Record<string, number>;
+  turns: FarkleTurnData[];
+  targetScore: number;
+  winnerId: string | null;
+  playerNames: Map<string, string>;
+  currentPlayerId?: string;
+}
+
+/** A Farkle game: every turn in order, then the final scores */
+export function FarkleHandDisplay({
+  turnOrder,
+  scores,
+  turns,
+  targetScore,
+  winnerId,
+  playerNames,
+  currentPlayerId,
+}: FarkleHandDisplayProps) {
+  const nameOf = (playerId: string) =>
+    playerId === currentPlayerId ? "You" : (playerNames.get(playerId) || "Unknown");
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-0.5">
+        {turns.map((turn, i) => (
+          <div key={i} className="flex items-center gap-2 text-[10px] text-muted-foreground px-2">
+            <span className="font-medium text-foreground">{nameOf(turn.playerId)}</span>
+            <span className="flex flex-wrap gap-1">
+              {turn.setAside.map((group, g) => (
+                <span key={g} className="font-mono">{group.join("")}</span>
+              ))}
+              {turn.farkled && <span className="font-mono line-through">{turn.dice.join("")}</span>}
+            </span>
+            <span className={cn("ml-auto", turn.farkled ? "text-red-500" : "text-foreground")}>
+              {turn.farkled ? "Farkle" : `+${turn.points}`}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {[...turnOrder]
+        .sort((a, b) => (scores[b] ?? 0) - (scores[a] ?? 0))
+        .map((playerId) => {
+          const isWinner = playerId === winnerId;
+          return (
+            <div
+              key={playerId}
+              className={cn("flex items-center gap-2 rounded px-2 py-1.5", isWinner ? "bg-green-500/10" : "bg-muted/20")}
+            >
+              <span className="text-xs font-medium text-foreground">{nameOf(playerId)}</span>
+              <span className={cn("text-[10px] ml-auto", isWinner ? "text-green-500 font-semibold" : "text-muted-foreground")}>
+                {isWinner ? "Wins • " : ""}
+                {(scores[playerId] ?? 0).toLocaleString()} / {targetScore.toLocaleString()}
+              </span>
+            </div>
+          );
+        })}
+    </div>
+  );
+}
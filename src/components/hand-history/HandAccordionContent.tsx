@@ -2,8 +2,12 @@ import { cn, formatChipValue } from "@/lib/utils";
 import { HandHistoryEventRow } from "./HandHistoryEventRow";
 import { MiniCardRow, MiniPlayingCard } from "./MiniPlayingCard";
 import { CribbageEventDisplay } from "./CribbageEventDisplay";
-import { GinRummyHandDisplay } from "./GinRummyHandDisplay";
+import { HandFairnessPanel } from "./HandFairnessPanel";
+import { HandReplayPlayer } from "./HandReplayPlayer";
 import { compactHandDescription, compactLegDescription } from "@/lib/handDescriptionUtils";
+import { isGameType } from "@/lib/gameTypes";
+import { getGameModule } from "@/components/game-modules/registry";
+import type { GameModule } from "@/components/game-modules/types";
 import type { DealerGameGroup, RoundGroup, GameResultRecord, CribbageEventRecord, CardData, HandGroup } from "./types";
 
 interface HandAccordionContentProps {
@@ -108,7 +112,7 @@ function RoundDisplay({
   roundIndex,
   totalRounds,
   is357,
-  isGinRummy,
+  gameModule,
   currentPlayerId,
   playerNames,
   showAnteInRound = true,
@@ -118,16 +122,17 @@ function RoundDisplay({
   roundIndex: number;
   totalRounds: number;
   is357: boolean;
-  isGinRummy?: boolean;
+  gameModule?: GameModule;
   currentPlayerId?: string;
   playerNames?: Map<string, string>;
   showAnteInRound?: boolean;
   usePoints?: boolean;
 }) {
   const hasCribbageEvents = round.cribbageEvents && round.cribbageEvents.length > 0;
-  const hasGinRummyState = isGinRummy && round.ginRummyState?.knockResult;
-  // For cribbage/gin rummy, don't show player cards separately
-  const hasCards = !hasCribbageEvents && !hasGinRummyState && round.visiblePlayerCards.length > 0;
+  const ModuleHandHistory = gameModule?.HandHistory;
+  const hasModuleHistory = !!ModuleHandHistory && !!gameModule?.hasHandHistory?.(round.gameState);
+  // For cribbage and module-rendered hands, don't show player cards separately
+  const hasCards = !hasCribbageEvents && !hasModuleHistory && round.visiblePlayerCards.length > 0;
   const hasCommunityCards = round.communityCards.length > 0;
   const hasChuckyCards = round.chuckyCards.length > 0;
   
@@ -275,11 +280,10 @@ function RoundDisplay({
         />
       )}
 
-      {/* Gin Rummy hand display - shows both players' hands with melds/deadwood */}
-      {hasGinRummyState && playerNames && (
-        <GinRummyHandDisplay
-          playerStates={round.ginRummyState.playerStates}
-          knockResult={round.ginRummyState.knockResult}
+      {/* Game module's own hand display (gin rummy: both hands with melds/deadwood) */}
+      {hasModuleHistory && ModuleHandHistory && playerNames && (
+        <ModuleHandHistory
+          gameState={round.gameState}
           playerNames={playerNames}
           currentPlayerId={currentPlayerId}
         />
@@ -312,10 +316,11 @@ export function HandAccordionContent({
   currentUserId,
   playerNames,
 }: HandAccordionContentProps) {
-  const is357 = group.gameType === "357" || group.gameType === "3-5-7";
-  const isHolm = group.gameType === "holm-game";
-  const isCribbage = group.gameType === "cribbage";
-  const isGinRummy = group.gameType === "gin-rummy";
+  const is357 = isGameType(group.gameType, "3-5-7");
+  const isHolm = isGameType(group.gameType, 'holm-game');
+  const isCribbage = isGameType(group.gameType, 'cribbage');
+  const isGinRummy = isGameType(group.gameType, 'gin-rummy');
+  const gameModule = getGameModule(group.gameType);
   const hasMultipleHands = group.hands.length > 1;
 
   // For dice games with rollovers, check if we have multiple rounds
@@ -347,6 +352,21 @@ export function HandAccordionContent({
             playerNames={playerNames}
             pointsToWin={pointsToWin}
           />
+          {group.hands.map((hand) => (hand.fairness || hand.rounds.length > 0) && (
+            <div key={hand.handNumber}>
+              <div className="text-[10px] text-muted-foreground font-medium">Hand {hand.handNumber}</div>
+              {hand.rounds.length > 0 && (
+                <HandReplayPlayer
+                  roundId={hand.rounds[0].roundId}
+                  gameType={group.gameType}
+                  rounds={hand.rounds}
+                  currentPlayerId={currentPlayerId}
+                  playerNames={playerNames}
+                />
+              )}
+              {hand.fairness && <HandFairnessPanel fairness={hand.fairness} gameType={group.gameType} />}
+            </div>
+          ))}
         </div>
       );
     }
@@ -371,7 +391,7 @@ export function HandAccordionContent({
   return (
     <div className="space-y-2 pt-2">
       {/* Metadata */}
-      {group.gameType !== "cribbage" && (
+      {!isGameType(group.gameType, 'cribbage') && (
         <div className="text-xs text-muted-foreground mb-2">
           {!isGinRummy && group.totalPot > 0 && `Pot: $${formatChipValue(group.totalPot)} • `}
           {new Date(group.latestTimestamp).toLocaleTimeString()}
@@ -433,7 +453,7 @@ export function HandAccordionContent({
                   roundIndex={roundIdx}
                   totalRounds={hand.rounds.length}
                   is357={is357}
-                  isGinRummy={isGinRummy}
+                  gameModule={gameModule}
                   currentPlayerId={currentPlayerId}
                   playerNames={playerNames}
                   showAnteInRound={!is357}
@@ -441,6 +461,20 @@ export function HandAccordionContent({
                 />
               </div>
             ))}
+
+            {hand.rounds.length > 0 && (
+              <HandReplayPlayer
+                roundId={hand.rounds[0].roundId}
+                gameType={group.gameType}
+                rounds={hand.rounds}
+                currentPlayerId={currentPlayerId}
+                playerNames={playerNames}
+              />
+            )}
+
+            {hand.fairness && (
+              <HandFairnessPanel fairness={hand.fairness} gameType={group.gameType} />
+            )}
           </div>
         );
       })}
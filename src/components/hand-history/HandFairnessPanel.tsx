@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { verifyHandSeed, type HandSeedRecord, type HandSeedVerification } from "@/lib/handFairness";
+import { CHUCKY_LABEL, DICE_LABEL, type FairDeal } from "@rules/fairness.ts";
+import { MiniPlayingCard } from "./MiniPlayingCard";
+
+interface HandFairnessPanelProps {
+  fairness: HandSeedRecord;
+  gameType: string | null;
+}
+
+function deckTitle(label: string, deckCount: number): string {
+  if (label === CHUCKY_LABEL) return "Chucky's deck order";
+  if (label.startsWith("deck:")) return `Round ${label.slice("deck:".length)} deck order`;
+  return deckCount > 1 ? "Round 1 deck order" : "Deck order";
+}
+
+function describeDeal(deal: FairDeal): string {
+  const what = deal.label === DICE_LABEL
+    ? `${deal.count} ${deal.count === 1 ? "die" : "dice"}`
+    : `${deal.count} ${deal.count === 1 ? "card" : "cards"}${deal.label === CHUCKY_LABEL ? " for Chucky" : ""}`;
+  const forSeat = deal.seat === null ? "the table" : `seat ${deal.seat}`;
+  const by = deal.drawnBy === null ? "the server" : `seat ${deal.drawnBy}`;
+  return `${what} for ${forSeat}, drawn by ${by}`;
+}
+
+// Commit-reveal details for one real-money hand, with client-side verification
+export function HandFairnessPanel({ fairness, gameType }: HandFairnessPanelProps) {
+  const [verification, setVerification] = useState<HandSeedVerification | null>(null);
+
+  return (
+    <div className="mt-2 rounded border border-border/40 bg-muted/20 p-2 space-y-1.5 text-[10px]">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-mono text-muted-foreground truncate" title={fairness.seedHash}>
+          Seed hash {fairness.seedHash.slice(0, 16)}…
+        </span>
+        {fairness.serverSeed ? (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-6 px-2 text-[10px] flex-shrink-0"
+            onClick={() => setVerification(verifyHandSeed(fairness, gameType))}
+          >
+            Verify this deal
+          </Button>
+        ) : (
+          <span className="text-muted-foreground flex-shrink-0">Seed revealed after the hand</span>
+        )}
+      </div>
+
+      {verification && (
+        <div className="space-y-1.5">
+          <div className={cn("font-medium", verification.hashMatches ? "text-poker-chip-green" : "text-poker-chip-red")}>
+            {verification.hashMatches
+              ? "✓ Revealed seed matches the published hash"
+              : "✗ Revealed seed does NOT match the published hash"}
+          </div>
+          <div className="font-mono text-muted-foreground break-all">Seed {fairness.serverSeed}</div>
+
+          {verification.deals.length > 0 && (
+            <div className="space-y-0.5">
+              <div className={cn("font-medium", verification.deals.every(d => d.matches) ? "text-poker-chip-green" : "text-poker-chip-red")}>
+                {verification.deals.every(d => d.matches)
+                  ? "✓ Every recorded deal matches the seed"
+                  : "✗ Some recorded deals do NOT match the seed"}
+              </div>
+              {verification.deals.map((deal, i) => (
+                <div key={i} className={cn(!deal.matches && "text-poker-chip-red")}>
+                  {deal.matches ? "✓" : "✗"} {describeDeal(deal)}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {verification.decks.map((deck) => (
+            <div key={deck.label} className="space-y-0.5">
+              <div className="text-muted-foreground">{deckTitle(deck.label, verification.decks.length)}</div>
+              <div className="flex flex-wrap gap-0.5">
+                {deck.cards.map((card, i) => (
+                  <MiniPlayingCard key={i} card={card} />
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {verification.dice.length > 0 && (
+            <div>
+              <span className="text-muted-foreground">Dice sequence </span>
+              <span className="font-mono">{verification.dice.join(" ")}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { ChevronLeft, ChevronRight, Pause, Play } from "lucide-react";
+import { cn, formatChipValue } from "@/lib/utils";
+import { fetchHandLog } from "@/lib/handActionLog";
+import { buildReplayFrames, describeReplayFrame, type ReplayFrame } from "@/lib/handReplay";
+import { getGameModule } from "@/components/game-modules/registry";
+import { MiniCardRow, MiniPlayingCard } from "./MiniPlayingCard";
+import type { RoundGroup } from "./types";
+
+const STEP_MS = 1200;
+
+interface HandReplayPlayerProps {
+  // Any round of the hand; the log covers all of them
+  roundId: string;
+  gameType: string | null;
+  // The hand's rounds as Hand History shows them: their visible cards fill in hole cards
+  rounds: RoundGroup[];
+  currentPlayerId?: string;
+  playerNames?: Map<string, string>;
+}
+
+function FaceDownCard() {
+  return <div className="w-5 h-7 rounded border border-border/50 bg-primary/40 shadow-sm" />;
+}
+
+function ReplayTable({
+  frame,
+  currentPlayerId,
+  playerName,
+}: {
+  frame: ReplayFrame;
+  currentPlayerId?: string;
+  playerName: (playerId: string) => string;
+}) {
+  return (
+    <div className="space-y-1.5">
+      <div className="text-[10px] text-muted-foreground">Pot: ${formatChipValue(frame.pot)}</div>
+
+      {frame.communityCards.length > 0 && <MiniCardRow cards={frame.communityCards} label="Table:" />}
+      {frame.chuckyCards.length > 0 && (
+        <MiniCardRow cards={frame.chuckyCards} label="👿 Chucky:" className="text-destructive" />
+      )}
+
+      {frame.seats.map((seat) => {
+        const isActor = seat.playerId === frame.action.player_id;
+        const isViewer = seat.playerId === currentPlayerId;
+        return (
+          <div
+            key={seat.playerId}
+            className={cn(
+              "flex items-center gap-2 rounded px-2 py-1",
+              isActor ? "bg-poker-gold/15 ring-1 ring-poker-gold/40" : "bg-muted/20"
+            )}
+          >
+            <span className="text-xs w-16 truncate">{isViewer ? "You" : playerName(seat.playerId)}</span>
+
+            <div className="flex gap-0.5 flex-wrap flex-1 min-w-0">
+              {seat.cards.map((card, i) => (
+                <MiniPlayingCard key={`c${i}`} card={card} />
+              ))}
+              {Array.from({ length: seat.hiddenCards }, (_, i) => (
+                <FaceDownCard key={`h${i}`} />
+              ))}
+              {seat.dice.map((value, i) => (
+                <span
+                  key={`d${i}`}
+                  className={cn(
+                    "w-5 h-5 text-xs font-mono flex items-center justify-center border rounded",
+                    seat.held[i] ? "bg-primary/20 border-primary" : "bg-background border-border"
+                  )}
+                >
+                  {value}
+                </span>
+              ))}
+            </div>
+
+            {seat.decision && (
+              <span
+                className={cn(
+                  "text-[10px] px-1.5 py-0.5 rounded",
+                  seat.decision === "fold" ? "bg-destructive/20 text-destructive" : "bg-primary/20 text-primary"
+                )}
+              >
+                {seat.decision === "fold" ? "✗ Fold" : seat.decision === "stay" ? "✓ Stay" : "✓ Locked"}
+              </span>
+            )}
+            {seat.score !== null && (
+              <span className="text-[10px] text-muted-foreground tabular-nums">{seat.score} pts</span>
+            )}
+            <span
+              className={cn(
+                "text-xs font-medium tabular-nums w-10 text-right",
+                seat.chipChange > 0 ? "text-poker-chip-green" : seat.chipChange < 0 ? "text-poker-chip-red" : "text-muted-foreground"
+              )}
+            >
+              {seat.chipChange !== 0 && <>{seat.chipChange > 0 ? "+" : ""}{formatChipValue(seat.chipChange)}</>}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Step-through replay of one hand from its action log
+export function HandReplayPlayer({ roundId, gameType, rounds, currentPlayerId, playerNames }: HandReplayPlayerProps) {
+  const [frames, setFrames] = useState<ReplayFrame[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  const knownCards = useMemo(
+    () => new Map(rounds.map((round) => [round.roundId, new Map(round.visiblePlayerCards.map((pc) => [pc.playerId, pc.cards]))])),
+    [rounds]
+  );
+
+  const playerName = (playerId: string) => playerNames?.get(playerId) || "Unknown";
+
+  const load = async () => {
+    setLoading(true);
+    const log = await fetchHandLog(roundId);
+    try {
+      setFrames(buildReplayFrames(log, { moduleView: getGameModule(gameType)?.replayView, knownCards }));
+    } catch (err) {
+      // The log doesn't replay under the current rules: show the inputs without module state
+      console.warn("[HAND_REPLAY] Replay failed, showing the raw log:", err);
+      setFrames(buildReplayFrames(log, { knownCards }));
+    }
+    setIndex(0);
+    setLoading(false);
+  };
+
+  const lastIndex = frames ? frames.length - 1 : 0;
+
+  useEffect(() => {
+    if (!playing) return;
+    if (index >= lastIndex) {
+      setPlaying(false);
+      return;
+    }
+    const timer = window.setTimeout(() => setIndex((i) => Math.min(i + 1, lastIndex)), STEP_MS);
+    return () => window.clearTimeout(timer);
+  }, [playing, index, lastIndex]);
+
+  if (!frames) {
+    return (
+      <Button
+        size="sm"
+        variant="outline"
+        className="mt-2 h-6 px-2 text-[10px]"
+        disabled={loading}
+        onClick={load}
+      >
+        {loading ? "Loading replay..." : "▶ Replay hand"}
+      </Button>
+    );
+  }
+
+  if (frames.length === 0) {
+    return <div className="mt-2 text-[10px] text-muted-foreground">No replay recorded for this hand</div>;
+  }
+
+  const frame = frames[Math.min(index, lastIndex)];
+
+  return (
+    <div className="mt-2 rounded border border-border/40 bg-muted/10 p-2 space-y-2">
+      <div className="text-[10px] text-muted-foreground truncate">
+        {index + 1}/{frames.length} · {describeReplayFrame(frame, playerName)}
+      </div>
+
+      <ReplayTable frame={frame} currentPlayerId={currentPlayerId} playerName={playerName} />
+
+      <div className="flex items-center gap-1">
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          disabled={index === 0}
+          onClick={() => { setPlaying(false); setIndex((i) => Math.max(i - 1, 0)); }}
+        >
+          <ChevronLeft className="w-3 h-3" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          onClick={() => {
+            if (!playing && index >= lastIndex) setIndex(0);
+            setPlaying((p) => !p);
+          }}
+        >
+          {playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          disabled={index >= lastIndex}
+          onClick={() => { setPlaying(false); setIndex((i) => Math.min(i + 1, lastIndex)); }}
+        >
+          <ChevronRight className="w-3 h-3" />
+        </Button>
+        <Slider
+          className="flex-1 ml-1"
+          min={0}
+          max={Math.max(lastIndex, 1)}
+          step={1}
+          value={[index]}
+          disabled={lastIndex === 0}
+          onValueChange={([value]) => { setPlaying(false); setIndex(Math.min(value, lastIndex)); }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { cn } from "@/lib/utils";
+import { MiniPlayingCard } from "./MiniPlayingCard";
+import type { CardData } from "./types";
+
+interface HoldemShownPlayer {
+  playerId: string;
+  holeCards: CardData[];
+  folded: boolean;
+  totalBet: number;
+}
+
+interface HoldemPotResultData {
+  amount: number;
+  winnerIds: string[];
+  handDescription: string | null;
+}
+
+interface HoldemHandDisplayProps {
+  seatOrder: string[];
+  playerStates: Record<string, HoldemShownPlayer>;
+  results: HoldemPotResultData[];
+  playerNames: Map<string, string>;
+  currentPlayerId?: string;
+}
+
+/** Pots won and the hole cards shown down, for hold'em hand history (the board is shown above) */
+export function HoldemHandDisplay({
+  seatOrder,
+  playerStates,
+  results,
+  playerNames,
+  currentPlayerId,
+}: HoldemHandDisplayProps) {
+  const nameOf = (playerId: string) =>
+    playerId === currentPlayerId ? "You" : (playerNames.get(playerId) || "Unknown");
+  const winners = new Set(results.flatMap((pot) => pot.winnerIds));
+
+  return (
+    <div className="space-y-2">
+      {/* One banner per pot */}
+      {results.map((pot, i) => (
+        <div key={i} className="text-xs font-semibold px-2 py-1.5 rounded text-center bg-primary/20 text-primary">
+          {results.length > 1 ? (i === 0 ? "Main pot" : `Side pot ${i}`) : "Pot"} ${pot.amount}
+          {" — "}
+          {pot.winnerIds.map(nameOf).join(" & ")}
+          {pot.winnerIds.length > 1 && " (split)"}
+          {pot.handDescription && `: ${pot.handDescription}`}
+        </div>
+      ))}
+
+      {/* Hands shown down */}
+      {seatOrder.map((playerId) => {
+        const ps = playerStates[playerId];
+        if (!ps || ps.holeCards.length === 0) return null;
+
+        return (
+          <div
+            key={playerId}
+            className={cn(
+              "flex items-center gap-2 rounded px-2 py-1.5",
+              winners.has(playerId) ? "bg-primary/10" : "bg-muted/20"
+            )}
+          >
+            <span className="text-xs font-medium text-foreground">{nameOf(playerId)}</span>
+            <div className="flex gap-0.5">
+              {ps.holeCards.map((card, ci) => (
+                <MiniPlayingCard key={ci} card={card} />
+              ))}
+            </div>
+            <span className="text-[10px] text-muted-foreground ml-auto">in ${ps.totalBet}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
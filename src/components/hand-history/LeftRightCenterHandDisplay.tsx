@@ -0,0 +1,76 @@
+import { cn } from "@/lib/utils";
+
+interface LeftRightCenterRollData {
+  playerId: string;
+  dice: number[];
+  faces: Array<"L" | "C" | "R" | "dot" | "wild">;
+  stolenFrom: string[];
+}
+
+interface LeftRightCenterHandDisplayProps {
+  turnOrder: string[];
+  chips: Record<string, number>;
+  center: number;
+  rolls: LeftRightCenterRollData[];
+  winnerId: string | null;
+  playerNames: Map<string, string>;
+  currentPlayerId?: string;
+}
+
+const FACE_LABELS = { L: "L", C: "C", R: "R", dot: "•", wild: "★" } as const;
+
+/** A Left Right Center game: every roll in order, then the chips each player finished with */
+export function LeftRightCenterHandDisplay({
+  turnOrder,
+  chips,
+  center,
+  rolls,
+  winnerId,
+  playerNames,
+  currentPlayerId,
+}: LeftRightCenterHandDisplayProps) {
+  const nameOf = (playerId: string) =>
+    playerId === currentPlayerId ? "You" : (playerNames.get(playerId) || "Unknown");
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-0.5">
+        {rolls.map((roll, i) => (
+          <div key={i} className="flex items-center gap-2 text-[10px] text-muted-foreground px-2">
+            <span className="font-medium text-foreground">{nameOf(roll.playerId)}</span>
+            <span className="flex gap-0.5">
+              {roll.faces.map((face, j) => (
+                <span
+                  key={j}
+                  className={cn(
+                    "w-4 h-4 rounded border text-[9px] font-bold flex items-center justify-center",
+                    face === "wild" ? "border-poker-gold text-poker-gold" : "border-border text-foreground"
+                  )}
+                >
+                  {FACE_LABELS[face]}
+                </span>
+              ))}
+            </span>
+            {roll.stolenFrom.length > 0 && <span>Took from {roll.stolenFrom.map(nameOf).join(", ")}</span>}
+          </div>
+        ))}
+      </div>
+
+      {turnOrder.map((playerId) => {
+        const isWinner = playerId === winnerId;
+        return (
+          <div
+            key={playerId}
+            className={cn("flex items-center gap-2 rounded px-2 py-1.5", isWinner ? "bg-green-500/10" : "bg-muted/20")}
+          >
+            <span className="text-xs font-medium text-foreground">{nameOf(playerId)}</span>
+            <span className={cn("text-[10px] ml-auto", isWinner ? "text-green-500 font-semibold" : "text-muted-foreground")}>
+              {isWinner ? `Wins the center (${center}) • ` : ""}
+              {chips[playerId] ?? 0} {chips[playerId] === 1 ? "chip" : "chips"}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
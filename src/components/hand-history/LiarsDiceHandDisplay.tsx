@@ -0,0 +1,75 @@
+import { cn } from "@/lib/utils";
+
+interface LiarsDiceBidData {
+  playerId: string;
+  quantity: number;
+  face: number;
+}
+
+interface LiarsDiceHandDisplayProps {
+  seatOrder: string[];
+  cups: Record<string, number[]>;
+  diceCounts: Record<string, number>;
+  bids: LiarsDiceBidData[];
+  challengerId: string;
+  count: number;
+  loserId: string;
+  diceLost: number;
+  playerNames: Map<string, string>;
+  currentPlayerId?: string;
+}
+
+/** A Liar's Dice hand: the bids in order, the call, then everyone's cup and dice left */
+export function LiarsDiceHandDisplay({
+  seatOrder,
+  cups,
+  diceCounts,
+  bids,
+  challengerId,
+  count,
+  loserId,
+  diceLost,
+  playerNames,
+  currentPlayerId,
+}: LiarsDiceHandDisplayProps) {
+  const nameOf = (playerId: string) =>
+    playerId === currentPlayerId ? "You" : (playerNames.get(playerId) || "Unknown");
+  const lastBid = bids[bids.length - 1];
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-0.5">
+        {bids.map((bid, i) => (
+          <div key={i} className="flex items-center gap-2 text-[10px] text-muted-foreground px-2">
+            <span className="font-medium text-foreground">{nameOf(bid.playerId)}</span>
+            <span>Bid {bid.quantity} × {bid.face}s</span>
+          </div>
+        ))}
+        {lastBid && (
+          <div className="flex items-center gap-2 text-[10px] text-muted-foreground px-2">
+            <span className="font-medium text-foreground">{nameOf(challengerId)}</span>
+            <span>Called it a lie • {count} on the table</span>
+          </div>
+        )}
+      </div>
+
+      {seatOrder.map((playerId) => {
+        const isLoser = playerId === loserId;
+        const diceLeft = diceCounts[playerId] - (isLoser ? diceLost : 0);
+        return (
+          <div
+            key={playerId}
+            className={cn("flex items-center gap-2 rounded px-2 py-1.5", isLoser ? "bg-red-500/10" : "bg-muted/20")}
+          >
+            <span className="text-xs font-medium text-foreground">{nameOf(playerId)}</span>
+            <span className="text-[10px] font-mono text-foreground">{(cups[playerId] ?? []).join(" ")}</span>
+            <span className={cn("text-[10px] ml-auto", isLoser ? "text-red-500 font-semibold" : "text-muted-foreground")}>
+              {isLoser ? `Lost ${diceLost === 1 ? "a die" : `${diceLost} dice`} • ` : ""}
+              {diceLeft > 0 ? `${diceLeft} ${diceLeft === 1 ? "die" : "dice"} left` : "Out"}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { cn } from "@/lib/utils";
+import { MiniPlayingCard } from "./MiniPlayingCard";
+import type { CardData } from "./types";
+
+interface ScrewYourNeighborMoveData {
+  type: "keep" | "swap" | "blocked" | "king" | "cut";
+  playerId: string;
+  targetPlayerId?: string;
+  card?: CardData;
+}
+
+interface ScrewYourNeighborHandDisplayProps {
+  seatOrder: string[];
+  cards: Record<string, CardData>;
+  lives: Record<string, number>;
+  moves: ScrewYourNeighborMoveData[];
+  loserIds: string[];
+  playerNames: Map<string, string>;
+  currentPlayerId?: string;
+}
+
+/** A Screw Your Neighbor hand: the moves around the table, then everyone's final card and lives */
+export function ScrewYourNeighborHandDisplay({
+  seatOrder,
+  cards,
+  lives,
+  moves,
+  loserIds,
+  playerNames,
+  currentPlayerId,
+}: ScrewYourNeighborHandDisplayProps) {
+  const nameOf = (playerId: string) =>
+    playerId === currentPlayerId ? "You" : (playerNames.get(playerId) || "Unknown");
+
+  const describeMove = (move: ScrewYourNeighborMoveData) => {
+    const target = move.targetPlayerId ? nameOf(move.targetPlayerId) : "";
+    switch (move.type) {
+      case "keep":
+        return "Kept";
+      case "swap":
+        return `Swapped with ${target}`;
+      case "blocked":
+        return `Blocked by ${target}'s king`;
+      case "king":
+        return "Showed a king";
+      case "cut":
+        return "Cut the deck";
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-0.5">
+        {moves.map((move, i) => (
+          <div key={i} className="flex items-center gap-2 text-[10px] text-muted-foreground px-2">
+            <span className="font-medium text-foreground">{nameOf(move.playerId)}</span>
+            <span>{describeMove(move)}</span>
+            {move.card && <MiniPlayingCard card={move.card} />}
+          </div>
+        ))}
+      </div>
+
+      {seatOrder.map((playerId) => {
+        const isLoser = loserIds.includes(playerId);
+        const livesLeft = lives[playerId] - (isLoser ? 1 : 0);
+        return (
+          <div
+            key={playerId}
+            className={cn("flex items-center gap-2 rounded px-2 py-1.5", isLoser ? "bg-red-500/10" : "bg-muted/20")}
+          >
+            <span className="text-xs font-medium text-foreground">{nameOf(playerId)}</span>
+            <MiniPlayingCard card={cards[playerId]} />
+            <span className={cn("text-[10px] ml-auto", isLoser ? "text-red-500 font-semibold" : "text-muted-foreground")}>
+              {isLoser ? "Lost a life • " : ""}
+              {livesLeft > 0 ? `${livesLeft} ${livesLeft === 1 ? "life" : "lives"} left` : "Out"}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
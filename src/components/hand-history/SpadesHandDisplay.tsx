@@ -0,0 +1,81 @@
+import { cn } from "@/lib/utils";
+
+type SpadesBidData = number | "nil" | "blind_nil";
+
+interface SpadesTeamData {
+  bid: number;
+  tricks: number;
+  contractPoints: number;
+  nilPoints: number;
+  bagPenalty: number;
+  score: number;
+  totalBags: number;
+}
+
+interface SpadesHandDisplayProps {
+  seats: string[];
+  bids: Record<string, SpadesBidData>;
+  tricksWon: Record<string, number>;
+  teams: SpadesTeamData[];
+  winningTeam: number | null;
+  playerNames: Map<string, string>;
+  currentPlayerId?: string;
+}
+
+function describeBid(bid: SpadesBidData | undefined): string {
+  if (bid === "nil") return "Nil";
+  if (bid === "blind_nil") return "Blind Nil";
+  return String(bid ?? "—");
+}
+
+/** A Spades hand: each partnership's bids and tricks, what the hand scored and where it leaves them */
+export function SpadesHandDisplay({
+  seats,
+  bids,
+  tricksWon,
+  teams,
+  winningTeam,
+  playerNames,
+  currentPlayerId,
+}: SpadesHandDisplayProps) {
+  const nameOf = (playerId: string) =>
+    playerId === currentPlayerId ? "You" : (playerNames.get(playerId) || "Unknown");
+
+  return (
+    <div className="space-y-2">
+      {teams.map((team, index) => {
+        const members = seats.filter((_, i) => i % 2 === index);
+        const handPoints = team.contractPoints + team.nilPoints + team.bagPenalty;
+        const isWinner = winningTeam === index;
+        return (
+          <div
+            key={index}
+            className={cn("rounded px-2 py-1.5 space-y-0.5", isWinner ? "bg-poker-gold/10" : "bg-muted/20")}
+          >
+            {members.map((playerId) => {
+              const nilBroken = (bids[playerId] === "nil" || bids[playerId] === "blind_nil") && tricksWon[playerId] > 0;
+              return (
+                <div key={playerId} className="flex items-center gap-2 text-[10px] text-muted-foreground">
+                  <span className="text-xs font-medium text-foreground">{nameOf(playerId)}</span>
+                  <span>Bid {describeBid(bids[playerId])}</span>
+                  <span className={cn("ml-auto", nilBroken && "text-red-500 font-semibold")}>
+                    {tricksWon[playerId] ?? 0} {tricksWon[playerId] === 1 ? "trick" : "tricks"}
+                  </span>
+                </div>
+              );
+            })}
+            <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+              <span>{team.tricks}/{team.bid}{team.bagPenalty < 0 ? ` • Bagged ${team.bagPenalty}` : ""}</span>
+              <span className={cn("ml-auto font-semibold", handPoints < 0 ? "text-red-500" : "text-green-500")}>
+                {handPoints >= 0 ? "+" : ""}{handPoints}
+              </span>
+              <span className="font-bold text-foreground">
+                {team.score}{isWinner ? " • Won" : ""}
+              </span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { cn } from "@/lib/utils";
+import { MiniPlayingCard } from "./MiniPlayingCard";
+import type { CardData } from "./types";
+
+interface StudShownPlayer {
+  playerId: string;
+  holeCards: CardData[];
+  upCards: CardData[];
+  folded: boolean;
+  totalBet: number;
+}
+
+interface StudPotResultData {
+  amount: number;
+  winnerIds: string[];
+  handDescription: string | null;
+  splitWinnerId: string | null;
+  splitDescription: string | null;
+}
+
+interface StudHandDisplayProps {
+  variantName: string;
+  seatOrder: string[];
+  playerStates: Record<string, StudShownPlayer>;
+  results: StudPotResultData[];
+  playerNames: Map<string, string>;
+  currentPlayerId?: string;
+}
+
+/** Pots won and every seat's cards, for stud hand history: hole cards only where shown down */
+export function StudHandDisplay({
+  variantName,
+  seatOrder,
+  playerStates,
+  results,
+  playerNames,
+  currentPlayerId,
+}: StudHandDisplayProps) {
+  const nameOf = (playerId: string) =>
+    playerId === currentPlayerId ? "You" : (playerNames.get(playerId) || "Unknown");
+  const winners = new Set(results.flatMap((pot) => [...pot.winnerIds, ...(pot.splitWinnerId ? [pot.splitWinnerId] : [])]));
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[10px] uppercase tracking-wider text-muted-foreground text-center">{variantName}</p>
+
+      {/* One banner per pot */}
+      {results.map((pot, i) => (
+        <div key={i} className="text-xs font-semibold px-2 py-1.5 rounded text-center bg-primary/20 text-primary">
+          {results.length > 1 ? (i === 0 ? "Main pot" : `Side pot ${i}`) : "Pot"} ${pot.amount}
+          {" — "}
+          {pot.winnerIds.map(nameOf).join(" & ")}
+          {pot.winnerIds.length > 1 && " (split)"}
+          {pot.handDescription && `: ${pot.handDescription}`}
+          {pot.splitWinnerId && ` / ${nameOf(pot.splitWinnerId)}: ${pot.splitDescription}`}
+        </div>
+      ))}
+
+      {seatOrder.map((playerId) => {
+        const ps = playerStates[playerId];
+        if (!ps) return null;
+
+        return (
+          <div
+            key={playerId}
+            className={cn(
+              "flex items-center gap-2 rounded px-2 py-1.5",
+              winners.has(playerId) ? "bg-primary/10" : "bg-muted/20",
+              ps.folded && "opacity-50"
+            )}
+          >
+            <span className="text-xs font-medium text-foreground">{nameOf(playerId)}</span>
+            <div className="flex gap-0.5">
+              {ps.holeCards.map((card, ci) => (
+                <MiniPlayingCard key={`hole-${ci}`} card={card} />
+              ))}
+              {ps.holeCards.length > 0 && <span className="w-1" />}
+              {ps.upCards.map((card, ci) => (
+                <MiniPlayingCard key={`up-${ci}`} card={card} />
+              ))}
+            </div>
+            <span className="text-[10px] text-muted-foreground ml-auto">in ${ps.totalBet}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 // Core types for Hand History display
 
+import type { HandSeedRecord } from "@/lib/handFairness";
+
 export interface GameResultRecord {
   id: string;
   game_id: string;
@@ -36,7 +38,7 @@ export interface RoundRecord {
   dealer_game_id?: string | null;
   community_cards?: any;
   chucky_cards?: any;
-  gin_rummy_state?: any;
+  game_state?: any;
 }
 
 export interface PlayerCardRecord {
@@ -78,14 +80,16 @@ export interface RoundGroup {
   cribbagePointsToWin?: number;
   // Stay/fold decisions - public info visible to all
   playerDecisions?: PlayerActionRecord[];
-  // Gin Rummy state for hand display
-  ginRummyState?: any;
+  // Final rounds.game_state, for games with a module hand-history renderer
+  gameState?: unknown;
 }
 
 export interface HandGroup {
   handNumber: number;
   rounds: RoundGroup[];
   totalChipChange: number;
+  // Real-money hands: seed commitment (and the seed once revealed)
+  fairness?: HandSeedRecord;
 }
 
 export interface DealerGameGroup {
@@ -12,6 +12,9 @@ import type {
   CribbageEventRecord,
 } from "./types";
 import { truncateCribbageEventsAtWin } from "./cribbageHistoryUtils";
+import { fetchHandSeeds, type HandSeedRecord } from "@/lib/handFairness";
+import { isGameType, usesHorsesTable } from "@/lib/gameTypes";
+import { usesGameModule } from "@/lib/gameModule";
 
 interface UseHandHistoryDataProps {
   gameId: string;
@@ -59,6 +62,9 @@ export function useHandHistoryData({
     Map<string, CribbageEventRecord[]>
   >(new Map());
 
+  // Real-money seed commitments keyed by `${dealerGameId}:${handNumber}`
+  const [handSeeds, setHandSeeds] = useState<Map<string, HandSeedRecord>>(new Map());
+
   useEffect(() => {
     fetchData();
   }, [gameId]);
@@ -147,7 +153,7 @@ export function useHandHistoryData({
       const { data: roundsData } = await supabase
         .from("rounds")
         .select(
-          "id, game_id, round_number, hand_number, pot, status, created_at, horses_state, dealer_game_id, community_cards, chucky_cards, gin_rummy_state"
+          "id, game_id, round_number, hand_number, pot, status, created_at, horses_state, dealer_game_id, community_cards, chucky_cards, game_state"
         )
         .eq("game_id", gameId)
         .order("created_at", { ascending: true });
@@ -171,6 +177,9 @@ export function useHandHistoryData({
 
       // Fetch player names from snapshots and current players
       await fetchPlayerNames(roundsData || []);
+
+      const seeds = await fetchHandSeeds(gameId);
+      setHandSeeds(new Map(seeds.map((seed) => [`${seed.dealerGameId}:${seed.handNumber}`, seed])));
     } finally {
       if (showLoading) setLoading(false);
     }
@@ -453,9 +462,9 @@ export function useHandHistoryData({
       const dgRounds = roundsByDealerGame.get(dgId) || [];
 
       const gameType = dealerGame?.game_type || dgResults[0]?.game_type || null;
-      const isDiceGame = gameType === "horses" || gameType === "ship-captain-crew";
-      const isCribbage = gameType === "cribbage";
-      const isGinRummy = gameType === "gin-rummy";
+      const isDiceGame = usesHorsesTable(gameType);
+      const isCribbage = isGameType(gameType, 'cribbage');
+      const isGinRummy = isGameType(gameType, 'gin-rummy');
 
       // For cribbage games, collect all cribbage events for all rounds in this dealer game
       let allCribbageEventsForDealerGame: CribbageEventRecord[] = [];
@@ -602,8 +611,8 @@ export function useHandHistoryData({
           );
           
           // For 3-5-7, also check if reveal_at_showdown is enabled in dealer game config
-          const is357Game = gameType === "357" || gameType === "3-5-7";
-          const isHolmGame = gameType === "holm-game";
+          const is357Game = isGameType(gameType, "3-5-7");
+          const isHolmGame = isGameType(gameType, 'holm-game');
           const revealAtShowdown = is357Game && dealerGame?.config?.reveal_at_showdown !== false;
 
           // Get player actions for this round to identify who stayed vs folded
@@ -719,7 +728,7 @@ export function useHandHistoryData({
             cribbageEvents,
             cribbagePointsToWin,
             playerDecisions: playerDecisions.length > 0 ? playerDecisions : undefined,
-            ginRummyState: isGinRummy ? (round as any).gin_rummy_state : undefined,
+            gameState: usesGameModule(gameType) ? round.game_state : undefined,
           });
         });
 
@@ -738,6 +747,7 @@ export function useHandHistoryData({
           handNumber: handNum,
           rounds: roundGroups,
           totalChipChange: handChipChange,
+          fairness: handSeeds.get(`${dgId}:${handNum}`),
         });
       });
 
@@ -980,6 +990,7 @@ export function useHandHistoryData({
     playerCardsByRound,
     roundCardData,
     cribbageEventsByRound,
+    handSeeds,
   ]);
 
   return {
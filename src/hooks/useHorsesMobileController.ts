@@ -35,6 +35,9 @@ import {
 import { shouldSCCBotStopRolling } from "@/lib/sccBotLogic";
 import { pushDiceTrace, isDiceTraceRecording } from "@/components/DiceTraceHUD";
 import { logDiceRolls, getRollNumber } from "@/lib/diceAudit";
+import { logDecision, logDiceHold, logDiceRoll } from "@/lib/handActionLog";
+import { drawFairDiceRandom } from "@/lib/handFairness";
+import { isGameType } from "@/lib/gameTypes";
 
 export interface HorsesPlayerForController {
   id: string;
@@ -166,7 +169,7 @@ export function useHorsesMobileController({
   isPaused = false,
 }: UseHorsesMobileControllerArgs) {
   // Determine if this is a Ship Captain Crew game
-  const isSCC = gameType === 'ship-captain-crew';
+  const isSCC = isGameType(gameType, 'ship-captain-crew');
   
   // Local state for dice rolling animation (only used by the local user when it's their turn)
   // Use union type to support both game types
@@ -1218,7 +1221,8 @@ export function useHorsesMobileController({
 
     // Roll immediately so the animation displays the NEW dice values (prevents old->new flash)
     const rollNumber = getRollNumber(localHand.rollsRemaining);
-    const newHand = isSCC ? rollSCCDice(localHand as SCCHand) : rollDice(localHand as HorsesHand);
+    const random = await drawFairDiceRandom(gameId, localHand.dice);
+    const newHand = isSCC ? rollSCCDice(localHand as SCCHand, random) : rollDice(localHand as HorsesHand, random);
     const newVals = (newHand.dice as any[]).map((d: any) => d.value).join(",");
     console.log(`[ROLL_DEBUG] newHand dice: [${newVals}], rollsRemaining=${newHand.rollsRemaining}`);
     logDebug("roll_start", `isFirstRoll=${isFirstRoll} anim=${animationDuration}ms dice=[${newVals}] rr=${newHand.rollsRemaining}`);
@@ -1234,6 +1238,9 @@ export function useHorsesMobileController({
         rollNumber,
       }
     );
+    if (currentRoundId && myPlayer) {
+      void logDiceRoll(currentRoundId, myPlayer.id, newHand.dice.map(d => d.value), heldMaskBeforeRoll, rollNumber);
+    }
 
     // Mark interaction immediately so realtime/DB snapshots can't overwrite the felt during the roll animation.
     lastLocalEditAtRef.current = rollStartTime;
@@ -1330,6 +1337,7 @@ export function useHorsesMobileController({
         
         setLocalHand(nextHand);
         void saveMyState(nextHand, false, undefined, heldMaskAtLastRollStartRef.current ?? undefined);
+        if (currentRoundId && myPlayer) void logDiceHold(currentRoundId, myPlayer.id, newDice.map(d => d.isHeld));
         return;
       }
 
@@ -1346,8 +1354,9 @@ export function useHorsesMobileController({
       // Preserve the held-mask captured at the start of the last roll so observers' layout/animations
       // don't get reset by realtime hold toggles between rolls.
       void saveMyState(nextHand, false, undefined, heldMaskAtLastRollStartRef.current ?? undefined);
+      if (currentRoundId && myPlayer) void logDiceHold(currentRoundId, myPlayer.id, nextHand.dice.map(d => d.isHeld));
     },
-    [enabled, isPaused, isMyTurn, localHand, saveMyState, isSCC],
+    [enabled, isPaused, isMyTurn, localHand, saveMyState, isSCC, currentRoundId, myPlayer],
   );
 
   const handleLockIn = useCallback(async () => {
@@ -1369,6 +1378,7 @@ export function useHorsesMobileController({
       const lockedHand = lockInSCCHand(sccHand);
       lastLocalEditAtRef.current = Date.now();
       setLocalHand(lockedHand);
+      if (currentRoundId && myPlayer) void logDecision(currentRoundId, myPlayer.id, 'lock_in');
 
       const result = evaluateSCCHand(lockedHand);
       await saveMyState(lockedHand, true, result, heldMaskBeforeComplete);
@@ -1382,6 +1392,7 @@ export function useHorsesMobileController({
     const lockedHand = lockInHand(localHand as HorsesHand);
     lastLocalEditAtRef.current = Date.now();
     setLocalHand(lockedHand);
+    if (currentRoundId && myPlayer) void logDecision(currentRoundId, myPlayer.id, 'lock_in');
 
     const result = evaluateHand(lockedHand.dice);
     await saveMyState(lockedHand, true, result, heldMaskBeforeComplete);
@@ -1389,7 +1400,7 @@ export function useHorsesMobileController({
     setTimeout(() => {
       advanceToNextTurn(myPlayer?.id ?? null);
     }, HORSES_POST_TURN_PAUSE_MS);
-  }, [enabled, isPaused, isMyTurn, localHand, saveMyState, advanceToNextTurn, myPlayer?.id, isSCC]);
+  }, [enabled, isPaused, isMyTurn, localHand, saveMyState, advanceToNextTurn, myPlayer, isSCC, currentRoundId]);
 
   // Bot auto-play with visible animation (mobile)
   // CRITICAL: This effect should ONLY re-run when the turn identity changes (round + bot/auto-roll player),
@@ -1522,7 +1533,8 @@ export function useHorsesMobileController({
 
           // Roll immediately so the fly-in animation "lands" on the NEW values (prevents old->new flash)
           const botRollNumber = getRollNumber(botHand.rollsRemaining);
-          const rolledHand = isSCC ? rollSCCDice(botHand as SCCHand) : rollDice(botHand as HorsesHand);
+          const random = await drawFairDiceRandom(gameId, botHand.dice);
+          const rolledHand = isSCC ? rollSCCDice(botHand as SCCHand, random) : rollDice(botHand as HorsesHand, random);
 
           // Audit log the bot dice rolls for randomness validation
           logDiceRolls(
@@ -1535,6 +1547,13 @@ export function useHorsesMobileController({
               rollNumber: botRollNumber,
             }
           );
+          void logDiceRoll(
+            currentRoundId,
+            botId,
+            rolledHand.dice.map(d => d.value),
+            heldMaskBeforeComplete ?? [],
+            botRollNumber
+          );
 
           setBotDisplayState({
             playerId: botId,
@@ -1784,7 +1803,7 @@ export function useHorsesMobileController({
           pot_won: 0, // No chips awarded in a rollover
           player_chip_changes: {}, // Empty - no chip movements
           is_chopped: true,
-          game_type: gameType === "ship-captain-crew" ? "ship-captain-crew" : "horses",
+          game_type: isGameType(gameType, 'ship-captain-crew') ? "ship-captain-crew" : "horses",
           dealer_game_id: currentGameUuid,
         });
 
@@ -1851,7 +1870,7 @@ export function useHorsesMobileController({
         pot_won: actualPot,
         player_chip_changes: chipChanges,
         is_chopped: false,
-        game_type: gameType === "ship-captain-crew" ? "ship-captain-crew" : "horses",
+        game_type: isGameType(gameType, 'ship-captain-crew') ? "ship-captain-crew" : "horses",
         dealer_game_id: currentGameUuid,
       });
 
@@ -407,8 +407,11 @@ export type Database = {
       }
       game_defaults: {
         Row: {
+          acey_ace_rule: string
+          acey_post_penalty: number
           allow_bot_dealers: boolean
           ante_amount: number
+          big_blind: number
           bot_decision_delay_seconds: number
           bot_fold_probability: number
           bot_use_hand_strength: boolean
@@ -416,14 +419,35 @@ export type Database = {
           chucky_last_card_delay_seconds: number
           chucky_second_to_last_delay_seconds: number
           created_at: string
+          cribbage_muggins: boolean
+          cribbage_partnerships: boolean
           decision_timer_seconds: number
           double_skunk_enabled: boolean
           double_skunk_threshold: number
+          euchre_stick_the_dealer: boolean
+          euchre_target_score: number
+          farkle_five_of_a_kind: number
+          farkle_four_of_a_kind: number
+          farkle_min_opening: number
+          farkle_six_of_a_kind: number
+          farkle_straight: number
+          farkle_target_score: number
+          farkle_three_pairs: number
           game_type: string
           gin_bonus: number
+          gin_hollywood: boolean
+          gin_oklahoma: boolean
+          guts_bleed_enabled: boolean
+          guts_bleed_value: number
+          guts_cards: number
           id: string
+          lcr_chips: number
+          lcr_wild: boolean
           leg_value: number
           legs_to_win: number
+          liars_dice_lose_difference: boolean
+          liars_dice_ones_wild: boolean
+          liars_dice_starting_dice: number
           per_point_value: number
           points_to_win: number
           pot_max_enabled: boolean
@@ -435,12 +459,23 @@ export type Database = {
           reveal_at_showdown: boolean
           skunk_enabled: boolean
           skunk_threshold: number
+          small_blind: number
+          spades_blind_nil: boolean
+          spades_target_score: number
+          starting_lives: number
+          stud_ante: number
+          stud_buy_price: number
+          stud_small_bet: number
+          stud_variant: string
           undercut_bonus: number
           updated_at: string
         }
         Insert: {
+          acey_ace_rule?: string
+          acey_post_penalty?: number
           allow_bot_dealers?: boolean
           ante_amount?: number
+          big_blind?: number
           bot_decision_delay_seconds?: number
           bot_fold_probability?: number
           bot_use_hand_strength?: boolean
@@ -448,14 +483,35 @@ export type Database = {
           chucky_last_card_delay_seconds?: number
           chucky_second_to_last_delay_seconds?: number
           created_at?: string
+          cribbage_muggins?: boolean
+          cribbage_partnerships?: boolean
           decision_timer_seconds?: number
           double_skunk_enabled?: boolean
           double_skunk_threshold?: number
+          euchre_stick_the_dealer?: boolean
+          euchre_target_score?: number
+          farkle_five_of_a_kind?: number
+          farkle_four_of_a_kind?: number
+          farkle_min_opening?: number
+          farkle_six_of_a_kind?: number
+          farkle_straight?: number
+          farkle_target_score?: number
+          farkle_three_pairs?: number
           game_type: string
           gin_bonus?: number
+          gin_hollywood?: boolean
+          gin_oklahoma?: boolean
+          guts_bleed_enabled?: boolean
+          guts_bleed_value?: number
+          guts_cards?: number
           id?: string
+          lcr_chips?: number
+          lcr_wild?: boolean
           leg_value?: number
           legs_to_win?: number
+          liars_dice_lose_difference?: boolean
+          liars_dice_ones_wild?: boolean
+          liars_dice_starting_dice?: number
           per_point_value?: number
           points_to_win?: number
           pot_max_enabled?: boolean
@@ -467,12 +523,23 @@ export type Database = {
           reveal_at_showdown?: boolean
           skunk_enabled?: boolean
           skunk_threshold?: number
+          small_blind?: number
+          spades_blind_nil?: boolean
+          spades_target_score?: number
+          starting_lives?: number
+          stud_ante?: number
+          stud_buy_price?: number
+          stud_small_bet?: number
+          stud_variant?: string
           undercut_bonus?: number
           updated_at?: string
         }
         Update: {
+          acey_ace_rule?: string
+          acey_post_penalty?: number
           allow_bot_dealers?: boolean
           ante_amount?: number
+          big_blind?: number
           bot_decision_delay_seconds?: number
           bot_fold_probability?: number
           bot_use_hand_strength?: boolean
@@ -480,14 +547,35 @@ export type Database = {
           chucky_last_card_delay_seconds?: number
           chucky_second_to_last_delay_seconds?: number
           created_at?: string
+          cribbage_muggins?: boolean
+          cribbage_partnerships?: boolean
           decision_timer_seconds?: number
           double_skunk_enabled?: boolean
           double_skunk_threshold?: number
+          euchre_stick_the_dealer?: boolean
+          euchre_target_score?: number
+          farkle_five_of_a_kind?: number
+          farkle_four_of_a_kind?: number
+          farkle_min_opening?: number
+          farkle_six_of_a_kind?: number
+          farkle_straight?: number
+          farkle_target_score?: number
+          farkle_three_pairs?: number
           game_type?: string
           gin_bonus?: number
+          gin_hollywood?: boolean
+          gin_oklahoma?: boolean
+          guts_bleed_enabled?: boolean
+          guts_bleed_value?: number
+          guts_cards?: number
           id?: string
+          lcr_chips?: number
+          lcr_wild?: boolean
           leg_value?: number
           legs_to_win?: number
+          liars_dice_lose_difference?: boolean
+          liars_dice_ones_wild?: boolean
+          liars_dice_starting_dice?: number
           per_point_value?: number
           points_to_win?: number
           pot_max_enabled?: boolean
@@ -499,6 +587,14 @@ export type Database = {
           reveal_at_showdown?: boolean
           skunk_enabled?: boolean
           skunk_threshold?: number
+          small_blind?: number
+          spades_blind_nil?: boolean
+          spades_target_score?: number
+          starting_lives?: number
+          stud_ante?: number
+          stud_buy_price?: number
+          stud_small_bet?: number
+          stud_variant?: string
           undercut_bonus?: number
           updated_at?: string
         }
@@ -636,17 +732,22 @@ export type Database = {
       }
       games: {
         Row: {
+          acey_ace_rule: string | null
+          acey_post_penalty: number | null
           all_decisions_in: boolean | null
           ante_amount: number
           ante_decision_deadline: string | null
           ante_decision_timer_seconds: number
           awaiting_next_round: boolean | null
+          big_blind: number | null
           buck_position: number | null
           buy_in: number
           chucky_cards: number | null
           config_complete: boolean
           config_deadline: string | null
           created_at: string
+          cribbage_muggins: boolean | null
+          cribbage_partnerships: boolean | null
           current_game_uuid: string | null
           current_host: string | null
           current_round: number | null
@@ -654,15 +755,34 @@ export type Database = {
           dealer_selection_state: Json | null
           double_skunk_enabled: boolean | null
           double_skunk_threshold: number | null
+          euchre_stick_the_dealer: boolean | null
+          euchre_target_score: number | null
+          farkle_five_of_a_kind: number | null
+          farkle_four_of_a_kind: number | null
+          farkle_min_opening: number | null
+          farkle_six_of_a_kind: number | null
+          farkle_straight: number | null
+          farkle_target_score: number | null
+          farkle_three_pairs: number | null
           game_over_at: string | null
           game_setup_timer_seconds: number
           game_type: string | null
+          gin_hollywood: boolean | null
+          gin_oklahoma: boolean | null
+          guts_bleed_enabled: boolean | null
+          guts_bleed_value: number | null
+          guts_cards: number | null
           id: string
           is_first_hand: boolean
           is_paused: boolean | null
           last_round_result: string | null
+          lcr_chips: number | null
+          lcr_wild: boolean | null
           leg_value: number
           legs_to_win: number
+          liars_dice_lose_difference: boolean | null
+          liars_dice_ones_wild: boolean | null
+          liars_dice_starting_dice: number | null
           name: string | null
           next_round_number: number | null
           paused_time_remaining: number | null
@@ -680,22 +800,35 @@ export type Database = {
           session_ended_at: string | null
           skunk_enabled: boolean | null
           skunk_threshold: number | null
+          small_blind: number | null
+          spades_blind_nil: boolean | null
+          spades_target_score: number | null
+          starting_lives: number | null
           status: string
+          stud_ante: number | null
+          stud_buy_price: number | null
+          stud_small_bet: number | null
+          stud_variant: string | null
           total_hands: number | null
           updated_at: string
         }
         Insert: {
+          acey_ace_rule?: string | null
+          acey_post_penalty?: number | null
           all_decisions_in?: boolean | null
           ante_amount?: number
           ante_decision_deadline?: string | null
           ante_decision_timer_seconds?: number
           awaiting_next_round?: boolean | null
+          big_blind?: number | null
           buck_position?: number | null
           buy_in?: number
           chucky_cards?: number | null
           config_complete?: boolean
           config_deadline?: string | null
           created_at?: string
+          cribbage_muggins?: boolean | null
+          cribbage_partnerships?: boolean | null
           current_game_uuid?: string | null
           current_host?: string | null
           current_round?: number | null
@@ -703,15 +836,34 @@ export type Database = {
           dealer_selection_state?: Json | null
           double_skunk_enabled?: boolean | null
           double_skunk_threshold?: number | null
+          euchre_stick_the_dealer?: boolean | null
+          euchre_target_score?: number | null
+          farkle_five_of_a_kind?: number | null
+          farkle_four_of_a_kind?: number | null
+          farkle_min_opening?: number | null
+          farkle_six_of_a_kind?: number | null
+          farkle_straight?: number | null
+          farkle_target_score?: number | null
+          farkle_three_pairs?: number | null
           game_over_at?: string | null
           game_setup_timer_seconds?: number
           game_type?: string | null
+          gin_hollywood?: boolean | null
+          gin_oklahoma?: boolean | null
+          guts_bleed_enabled?: boolean | null
+          guts_bleed_value?: number | null
+          guts_cards?: number | null
           id?: string
           is_first_hand?: boolean
           is_paused?: boolean | null
           last_round_result?: string | null
+          lcr_chips?: number | null
+          lcr_wild?: boolean | null
           leg_value?: number
           legs_to_win?: number
+          liars_dice_lose_difference?: boolean | null
+          liars_dice_ones_wild?: boolean | null
+          liars_dice_starting_dice?: number | null
           name?: string | null
           next_round_number?: number | null
           paused_time_remaining?: number | null
@@ -729,22 +881,35 @@ export type Database = {
           session_ended_at?: string | null
           skunk_enabled?: boolean | null
           skunk_threshold?: number | null
+          small_blind?: number | null
+          spades_blind_nil?: boolean | null
+          spades_target_score?: number | null
+          starting_lives?: number | null
           status?: string
+          stud_ante?: number | null
+          stud_buy_price?: number | null
+          stud_small_bet?: number | null
+          stud_variant?: string | null
           total_hands?: number | null
           updated_at?: string
         }
         Update: {
+          acey_ace_rule?: string | null
+          acey_post_penalty?: number | null
           all_decisions_in?: boolean | null
           ante_amount?: number
           ante_decision_deadline?: string | null
           ante_decision_timer_seconds?: number
           awaiting_next_round?: boolean | null
+          big_blind?: number | null
           buck_position?: number | null
           buy_in?: number
           chucky_cards?: number | null
           config_complete?: boolean
           config_deadline?: string | null
           created_at?: string
+          cribbage_muggins?: boolean | null
+          cribbage_partnerships?: boolean | null
           current_game_uuid?: string | null
           current_host?: string | null
           current_round?: number | null
@@ -752,15 +917,34 @@ export type Database = {
           dealer_selection_state?: Json | null
           double_skunk_enabled?: boolean | null
           double_skunk_threshold?: number | null
+          euchre_stick_the_dealer?: boolean | null
+          euchre_target_score?: number | null
+          farkle_five_of_a_kind?: number | null
+          farkle_four_of_a_kind?: number | null
+          farkle_min_opening?: number | null
+          farkle_six_of_a_kind?: number | null
+          farkle_straight?: number | null
+          farkle_target_score?: number | null
+          farkle_three_pairs?: number | null
           game_over_at?: string | null
           game_setup_timer_seconds?: number
           game_type?: string | null
+          gin_hollywood?: boolean | null
+          gin_oklahoma?: boolean | null
+          guts_bleed_enabled?: boolean | null
+          guts_bleed_value?: number | null
+          guts_cards?: number | null
           id?: string
           is_first_hand?: boolean
           is_paused?: boolean | null
           last_round_result?: string | null
+          lcr_chips?: number | null
+          lcr_wild?: boolean | null
           leg_value?: number
           legs_to_win?: number
+          liars_dice_lose_difference?: boolean | null
+          liars_dice_ones_wild?: boolean | null
+          liars_dice_starting_dice?: number | null
           name?: string | null
           next_round_number?: number | null
           paused_time_remaining?: number | null
@@ -778,12 +962,130 @@ export type Database = {
           session_ended_at?: string | null
           skunk_enabled?: boolean | null
           skunk_threshold?: number | null
+          small_blind?: number | null
+          spades_blind_nil?: boolean | null
+          spades_target_score?: number | null
+          starting_lives?: number | null
           status?: string
+          stud_ante?: number | null
+          stud_buy_price?: number | null
+          stud_small_bet?: number | null
+          stud_variant?: string | null
           total_hands?: number | null
           updated_at?: string
         }
         Relationships: []
       }
+      hand_actions: {
+        Row: {
+          action_key: string | null
+          action_type: string
+          created_at: string
+          dealer_game_id: string | null
+          game_id: string
+          game_type: string
+          hand_number: number
+          id: string
+          payload: Json
+          player_id: string | null
+          round_id: string | null
+          round_number: number | null
+          sequence_number: number
+        }
+        Insert: {
+          action_key?: string | null
+          action_type: string
+          created_at?: string
+          dealer_game_id?: string | null
+          game_id: string
+          game_type: string
+          hand_number: number
+          id?: string
+          payload?: Json
+          player_id?: string | null
+          round_id?: string | null
+          round_number?: number | null
+          sequence_number: number
+        }
+        Update: {
+          action_key?: string | null
+          action_type?: string
+          created_at?: string
+          dealer_game_id?: string | null
+          game_id?: string
+          game_type?: string
+          hand_number?: number
+          id?: string
+          payload?: Json
+          player_id?: string | null
+          round_id?: string | null
+          round_number?: number | null
+          sequence_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hand_actions_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hand_actions_round_id_fkey"
+            columns: ["round_id"]
+            isOneToOne: false
+            referencedRelation: "rounds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hand_seeds: {
+        Row: {
+          created_at: string
+          dealer_game_id: string
+          deals: Json
+          dealt: Json
+          draws: Json
+          game_id: string
+          hand_number: number
+          id: string
+          seed_hash: string
+          server_seed: string
+        }
+        Insert: {
+          created_at?: string
+          dealer_game_id: string
+          deals?: Json
+          dealt?: Json
+          draws?: Json
+          game_id: string
+          hand_number: number
+          id?: string
+          seed_hash: string
+          server_seed: string
+        }
+        Update: {
+          created_at?: string
+          dealer_game_id?: string
+          deals?: Json
+          dealt?: Json
+          draws?: Json
+          game_id?: string
+          hand_number?: number
+          id?: string
+          seed_hash?: string
+          server_seed?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hand_seeds_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       insert_audit_log: {
         Row: {
           created_at: string
@@ -971,6 +1273,7 @@ export type Database = {
           auto_ante: boolean
           auto_ante_runback: boolean
           auto_fold: boolean
+          bot_difficulty: string
           chips: number
           created_at: string
           current_decision: string | null
@@ -980,6 +1283,7 @@ export type Database = {
           id: string
           is_bot: boolean
           legs: number
+          lives: number
           mobile_view: boolean | null
           position: number
           pre_fold: boolean | null
@@ -997,6 +1301,7 @@ export type Database = {
           auto_ante?: boolean
           auto_ante_runback?: boolean
           auto_fold?: boolean
+          bot_difficulty?: string
           chips?: number
           created_at?: string
           current_decision?: string | null
@@ -1006,6 +1311,7 @@ export type Database = {
           id?: string
           is_bot?: boolean
           legs?: number
+          lives?: number
           mobile_view?: boolean | null
           position: number
           pre_fold?: boolean | null
@@ -1023,6 +1329,7 @@ export type Database = {
           auto_ante?: boolean
           auto_ante_runback?: boolean
           auto_fold?: boolean
+          bot_difficulty?: string
           chips?: number
           created_at?: string
           current_decision?: string | null
@@ -1032,6 +1339,7 @@ export type Database = {
           id?: string
           is_bot?: boolean
           legs?: number
+          lives?: number
           mobile_view?: boolean | null
           position?: number
           pre_fold?: boolean | null
@@ -1127,6 +1435,7 @@ export type Database = {
           dealer_game_id: string | null
           decision_deadline: string | null
           game_id: string
+          game_state: Json | null
           gin_rummy_state: Json | null
           hand_number: number | null
           horses_state: Json | null
@@ -1150,6 +1459,7 @@ export type Database = {
           dealer_game_id?: string | null
           decision_deadline?: string | null
           game_id: string
+          game_state?: Json | null
           gin_rummy_state?: Json | null
           hand_number?: number | null
           horses_state?: Json | null
@@ -1173,6 +1483,7 @@ export type Database = {
           dealer_game_id?: string | null
           decision_deadline?: string | null
           game_id?: string
+          game_state?: Json | null
           gin_rummy_state?: Json | null
           hand_number?: number | null
           horses_state?: Json | null
@@ -1454,6 +1765,16 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      append_hand_action: {
+        Args: {
+          _action_key?: string
+          _action_type: string
+          _payload?: Json
+          _player_id?: string
+          _round_id: string
+        }
+        Returns: number
+      }
       claim_horses_bot_controller: {
         Args: { _round_id: string }
         Returns: Json
@@ -1462,6 +1783,30 @@ export type Database = {
         Args: { amount: number; player_ids: string[] }
         Returns: undefined
       }
+      deal_fair_cards: {
+        Args: {
+          _count: number
+          _dealer_game_id?: string
+          _deck_size: number
+          _game_id: string
+          _hand_number?: number
+          _label?: string
+        }
+        Returns: number[]
+      }
+      get_hand_seeds: {
+        Args: { _game_id: string }
+        Returns: {
+          created_at: string
+          dealer_game_id: string
+          deals: Json
+          draws: Json
+          hand_number: number
+          seed_hash: string
+          server_seed: string
+        }[]
+      }
+      hand_seed_is_revealed: { Args: { _seed_id: string }; Returns: boolean }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1482,6 +1827,23 @@ export type Database = {
         Returns: number
       }
       is_admin: { Args: { _user_id: string }; Returns: boolean }
+      roll_fair_dice: {
+        Args: { _count: number; _game_id: string }
+        Returns: number[]
+      }
+      submit_357_decision: {
+        Args: {
+          _decision: string
+          _game_id: string
+          _mark_auto_fold?: boolean
+          _player_id: string
+        }
+        Returns: Json
+      }
+      swap_screw_your_neighbor_cards: {
+        Args: { _round_id: string }
+        Returns: Json
+      }
       user_in_game: { Args: { game_id_param: string }; Returns: boolean }
       user_is_in_game: { Args: { game_id_param: string }; Returns: boolean }
     }
@@ -0,0 +1,37 @@
+// Acey-Deucey bot AI
+// Deterministic: the bot works out the odds of the cards still unseen this hand and bets a
+// share of the pot that grows with its edge.
+
+import { getAceyDeuceyMaxBet, getAceyDeuceyOutcome, getAceyDeuceyUnseenCards } from './aceyDeuceyGameLogic';
+import type { AceyDeuceyState } from './aceyDeuceyTypes';
+
+export type AceyDeuceyBotDecision =
+  | { type: 'call_ace'; high: boolean }
+  | { type: 'bet'; amount: number }
+  | { type: 'pass' };
+
+/** Expected chips won per chip bet on the current posts (negative when betting loses) */
+export function getAceyDeuceyEdge(state: AceyDeuceyState): number {
+  const unseen = getAceyDeuceyUnseenCards(state);
+  if (unseen.length === 0 || state.posts.length < 2) return -1;
+
+  const total = unseen.reduce((sum, card) => {
+    const outcome = getAceyDeuceyOutcome(state.posts, state.aceHigh, card);
+    return sum + (outcome === 'win' ? 1 : outcome === 'lose' ? -1 : -state.postPenalty);
+  }, 0);
+  return total / unseen.length;
+}
+
+/** The bot's move on its turn */
+export function getBotAceyDeuceyDecision(state: AceyDeuceyState): AceyDeuceyBotDecision {
+  // Low leaves every card but another ace above it, and a second ace (always high) then
+  // spans the whole deck; high turns a second ace into a post
+  if (state.phase === 'calling-ace') return { type: 'call_ace', high: false };
+
+  const edge = getAceyDeuceyEdge(state);
+  const maxBet = getAceyDeuceyMaxBet(state);
+  if (edge <= 0 || maxBet < 1) return { type: 'pass' };
+
+  const amount = Math.max(1, Math.min(maxBet, Math.round(maxBet * edge * 1.5)));
+  return { type: 'bet', amount };
+}
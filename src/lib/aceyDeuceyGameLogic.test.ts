@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom } from '@rules/random.ts';
+import {
+  callAceyDeuceyAce,
+  dealAceyDeuceyHand,
+  getAceyDeuceyChipChanges,
+  getAceyDeuceyOutcome,
+  getAceyDeuceySpread,
+  passAceyDeucey,
+  placeAceyDeuceyBet,
+  type AceyDeuceySetup,
+} from './aceyDeuceyGameLogic';
+import type { AceyDeuceyState } from './aceyDeuceyTypes';
+import { cards } from './testHelpers';
+
+const setup: AceyDeuceySetup = {
+  playerIds: ['a', 'b', 'c'],
+  dealerPlayerId: 'a',
+  pot: 30,
+  aceRule: 'low',
+  postPenalty: 2,
+  potMax: null,
+};
+
+/** Call aces low and bet the whole pot every turn */
+function playTurn(state: AceyDeuceyState, seed: string): AceyDeuceyState {
+  const playerId = state.currentTurnPlayerId!;
+  const random = createSeededRandom(seed);
+  if (state.phase === 'calling-ace') return callAceyDeuceyAce(state, playerId, false, random);
+  return placeAceyDeuceyBet(state, playerId, state.pot, random);
+}
+
+describe('Acey-Deucey Game Logic', () => {
+  describe('posts', () => {
+    it('counts the cards strictly between the posts', () => {
+      expect(getAceyDeuceySpread(cards('4♠', 'J♦'), null)).toBe(6);
+      expect(getAceyDeuceySpread(cards('9♠', '8♦'), null)).toBe(0);
+      expect(getAceyDeuceySpread(cards('7♠', '7♦'), null)).toBe(0);
+    });
+
+    it('counts a first-post ace as called', () => {
+      expect(getAceyDeuceySpread(cards('A♠', '5♦'), false)).toBe(3);
+      expect(getAceyDeuceySpread(cards('A♠', '5♦'), true)).toBe(8);
+      // An ace as the second post is always high
+      expect(getAceyDeuceySpread(cards('5♦', 'A♠'), null)).toBe(8);
+    });
+
+    it('scores the third card against the posts', () => {
+      const posts = cards('4♠', 'J♦');
+      expect(getAceyDeuceyOutcome(posts, null, cards('8♣')[0])).toBe('win');
+      expect(getAceyDeuceyOutcome(posts, null, cards('K♣')[0])).toBe('lose');
+      expect(getAceyDeuceyOutcome(posts, null, cards('J♣')[0])).toBe('post');
+    });
+  });
+
+  describe('dealAceyDeuceyHand', () => {
+    it('starts left of the dealer with two posts up', () => {
+      const state = dealAceyDeuceyHand({ ...setup, dealerPlayerId: 'b' }, createSeededRandom('deal'));
+      expect(state.seatOrder).toEqual(['c', 'a', 'b']);
+      // Posts with nothing between them pass straight to the next seat
+      expect(state.turns[0]?.playerId ?? state.currentTurnPlayerId).toBe('c');
+      expect(state.turns.every(turn => turn.outcome === 'pass')).toBe(true);
+      expect(state.phase).toBe('betting');
+      expect(state.posts).toHaveLength(2);
+    });
+
+    it('waits for the ace call when the dealer left it to the player', () => {
+      // Find a seed whose first post is an ace
+      for (let i = 0; i < 200; i++) {
+        const state = dealAceyDeuceyHand({ ...setup, aceRule: 'choice' }, createSeededRandom(`ace-${i}`));
+        if (state.posts[0]?.rank !== 'A') continue;
+        expect(state.phase).toBe('calling-ace');
+        expect(state.posts).toHaveLength(1);
+        const called = callAceyDeuceyAce(state, state.currentTurnPlayerId!, true, createSeededRandom('call'));
+        expect(called.turns.length > 0 || called.aceHigh === true).toBe(true);
+        return;
+      }
+      throw new Error('No seed dealt an ace first');
+    });
+  });
+
+  describe('betting', () => {
+    it('rejects bets outside $1 to the pot and bets out of turn', () => {
+      const state = dealAceyDeuceyHand({ ...setup, potMax: 10 }, createSeededRandom('bets'));
+      const playerId = state.currentTurnPlayerId!;
+      const other = state.seatOrder.find(id => id !== playerId)!;
+      expect(() => placeAceyDeuceyBet(state, playerId, 0)).toThrow('Bet must be between $1 and $10');
+      expect(() => placeAceyDeuceyBet(state, playerId, 11)).toThrow('Bet must be between $1 and $10');
+      expect(() => passAceyDeucey(state, other)).toThrow('Not your turn');
+    });
+
+    it('moves each bet in or out of the pot by its outcome', () => {
+      let state = dealAceyDeuceyHand(setup, createSeededRandom('hand'));
+      for (let i = 0; state.phase !== 'complete'; i++) state = playTurn(state, `turn-${i}`);
+
+      for (const turn of state.turns) {
+        const expected = { win: turn.bet, lose: -turn.bet, post: -turn.bet * 2, pass: 0 }[turn.outcome];
+        expect(turn.chipChange).toBe(expected);
+      }
+      const changes = getAceyDeuceyChipChanges(state);
+      const taken = Object.values(changes).reduce((sum, change) => sum + change, 0);
+      expect(state.pot).toBe(setup.pot - taken);
+    });
+
+    it('ends the hand as soon as a win empties the pot', () => {
+      for (let i = 0; i < 200; i++) {
+        let state = dealAceyDeuceyHand(setup, createSeededRandom(`sweep-${i}`));
+        for (let t = 0; state.phase !== 'complete'; t++) state = playTurn(state, `sweep-${i}-${t}`);
+        if (state.pot !== 0) continue;
+        expect(state.turns[state.turns.length - 1].outcome).toBe('win');
+        expect(state.currentTurnPlayerId).toBeNull();
+        return;
+      }
+      throw new Error('No seed took the pot');
+    });
+  });
+});
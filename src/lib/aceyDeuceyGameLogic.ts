@@ -0,0 +1,192 @@
+// Acey-Deucey (In-Between) core game logic
+// Pure functions for the pot game: each turn a player gets two face-up posts and bets, up to
+// the pot, that the next card lands strictly between them. A card outside loses the bet to the
+// pot and a card matching a post costs the bet times the post penalty. A hand is one turn for
+// everyone around the table; the pot carries over and the game ends once a win empties it.
+//
+// Cards are drawn as they're needed, so the stored state (rounds.game_state is public) never
+// holds a card before it's face up. Each step shuffles a full deck and turns the first cards in
+// it not yet seen this hand: a real-money hand's seeded shuffle is the same order every time,
+// so its cards come off that one deck in order and can be verified afterwards.
+
+import { RANK_VALUES, createDeck, type Card } from './cardUtils';
+import { shuffle, type RandomSource } from '@rules/random.ts';
+import type { AceRule, AceyDeuceyOutcome, AceyDeuceyState, AceyDeuceyTurn } from './aceyDeuceyTypes';
+
+export interface AceyDeuceySetup {
+  /** Player ids in seat order */
+  playerIds: string[];
+  dealerPlayerId: string;
+  pot: number;
+  aceRule: AceRule;
+  postPenalty: number;
+  potMax: number | null;
+}
+
+const cardKey = (card: Card) => `${card.rank}${card.suit}`;
+
+/** Cards not turned yet this hand */
+export function getAceyDeuceyUnseenCards(state: AceyDeuceyState): Card[] {
+  const seen = new Set(
+    [...state.turns.flatMap(turn => [...turn.posts, ...(turn.card ? [turn.card] : [])]), ...state.posts].map(cardKey)
+  );
+  return createDeck().filter(card => !seen.has(cardKey(card)));
+}
+
+/** The first card in `deck` not turned yet this hand */
+function drawCard(state: AceyDeuceyState, deck: Card[]): Card {
+  const unseen = new Set(getAceyDeuceyUnseenCards(state).map(cardKey));
+  return deck.find(card => unseen.has(cardKey(card)))!;
+}
+
+/**
+ * The posts' values, low first. A first-post ace counts 1 or 14 as called; any other ace is
+ * high. Null until both posts are up.
+ */
+export function getAceyDeuceyPostValues(posts: Card[], aceHigh: boolean | null): [number, number] | null {
+  if (posts.length < 2) return null;
+  const first = posts[0].rank === 'A' && aceHigh === false ? 1 : RANK_VALUES[posts[0].rank];
+  const second = RANK_VALUES[posts[1].rank];
+  return [Math.min(first, second), Math.max(first, second)];
+}
+
+/** How many ranks lie strictly between the posts (0 means no card can win) */
+export function getAceyDeuceySpread(posts: Card[], aceHigh: boolean | null): number {
+  const values = getAceyDeuceyPostValues(posts, aceHigh);
+  return values ? Math.max(0, values[1] - values[0] - 1) : 0;
+}
+
+/** Largest bet allowed: the pot, capped by the pot max */
+export function getAceyDeuceyMaxBet(state: AceyDeuceyState): number {
+  return state.potMax === null ? state.pot : Math.min(state.pot, state.potMax);
+}
+
+/** Outcome of turning `card` against the posts; a card matching a post's rank hits the post */
+export function getAceyDeuceyOutcome(posts: Card[], aceHigh: boolean | null, card: Card): AceyDeuceyOutcome {
+  if (posts.some(post => post.rank === card.rank)) return 'post';
+  const [low, high] = getAceyDeuceyPostValues(posts, aceHigh)!;
+  const value = RANK_VALUES[card.rank];
+  return value > low && value < high ? 'win' : 'lose';
+}
+
+/**
+ * Start the turn of the player at `index` in seat order, or complete the hand once everyone
+ * has had one or the pot is empty. Posts nothing can land between are passed automatically.
+ */
+function startTurn(state: AceyDeuceyState, index: number, deck: Card[]): AceyDeuceyState {
+  if (index >= state.seatOrder.length || state.pot <= 0) {
+    return { ...state, phase: 'complete', currentTurnPlayerId: null, posts: [], aceHigh: null };
+  }
+
+  const playerId = state.seatOrder[index];
+  const first = drawCard(state, deck);
+  const turnState: AceyDeuceyState = { ...state, currentTurnPlayerId: playerId, posts: [first], aceHigh: null };
+
+  if (first.rank === 'A') {
+    // The ace is called before the second post is seen
+    if (state.aceRule === 'choice') return { ...turnState, phase: 'calling-ace' };
+    return dealSecondPost({ ...turnState, aceHigh: state.aceRule === 'high' }, deck);
+  }
+  return dealSecondPost(turnState, deck);
+}
+
+function dealSecondPost(state: AceyDeuceyState, deck: Card[]): AceyDeuceyState {
+  const posts = [...state.posts, drawCard(state, deck)];
+  const next: AceyDeuceyState = { ...state, phase: 'betting', posts };
+  return getAceyDeuceySpread(posts, state.aceHigh) === 0 ? settleTurn(next, 0, null, deck) : next;
+}
+
+/** Record the current player's turn, move the chips in or out of the pot and start the next turn */
+function settleTurn(state: AceyDeuceyState, bet: number, card: Card | null, deck: Card[]): AceyDeuceyState {
+  const playerId = state.currentTurnPlayerId!;
+  const outcome = card ? getAceyDeuceyOutcome(state.posts, state.aceHigh, card) : 'pass';
+  const chipChange = outcome === 'win' ? bet : outcome === 'lose' ? -bet : outcome === 'post' ? -bet * state.postPenalty : 0;
+
+  const turn: AceyDeuceyTurn = {
+    playerId,
+    posts: [state.posts[0], state.posts[1]],
+    aceHigh: state.aceHigh,
+    bet,
+    card,
+    outcome,
+    chipChange,
+  };
+  const settled: AceyDeuceyState = {
+    ...state,
+    pot: state.pot - chipChange,
+    turns: [...state.turns, turn],
+    posts: [],
+    aceHigh: null,
+  };
+  return startTurn(settled, state.seatOrder.indexOf(playerId) + 1, deck);
+}
+
+function assertTurn(state: AceyDeuceyState, playerId: string, phase: AceyDeuceyState['phase']) {
+  if (state.phase !== phase || state.currentTurnPlayerId !== playerId) {
+    throw new Error('Not your turn');
+  }
+}
+
+/** Deal a hand: play starts left of the dealer with the first player's posts */
+export function dealAceyDeuceyHand(setup: AceyDeuceySetup, random: RandomSource = Math.random): AceyDeuceyState {
+  const dealerIdx = Math.max(0, setup.playerIds.indexOf(setup.dealerPlayerId));
+  const seatOrder = setup.playerIds.map((_, i) => setup.playerIds[(dealerIdx + 1 + i) % setup.playerIds.length]);
+
+  return startTurn(
+    {
+      phase: 'betting',
+      dealerPlayerId: setup.dealerPlayerId,
+      seatOrder,
+      pot: setup.pot,
+      aceRule: setup.aceRule,
+      postPenalty: setup.postPenalty,
+      potMax: setup.potMax,
+      currentTurnPlayerId: null,
+      posts: [],
+      aceHigh: null,
+      turns: [],
+    },
+    0,
+    shuffle(createDeck(), random)
+  );
+}
+
+/** Call a first-post ace high or low, then turn the second post */
+export function callAceyDeuceyAce(
+  state: AceyDeuceyState,
+  playerId: string,
+  high: boolean,
+  random: RandomSource = Math.random
+): AceyDeuceyState {
+  assertTurn(state, playerId, 'calling-ace');
+  return dealSecondPost({ ...state, aceHigh: high }, shuffle(createDeck(), random));
+}
+
+/** Bet on the card in between and turn it */
+export function placeAceyDeuceyBet(
+  state: AceyDeuceyState,
+  playerId: string,
+  amount: number,
+  random: RandomSource = Math.random
+): AceyDeuceyState {
+  assertTurn(state, playerId, 'betting');
+  const maxBet = getAceyDeuceyMaxBet(state);
+  if (!Number.isInteger(amount) || amount < 1 || amount > maxBet) {
+    throw new Error(`Bet must be between $1 and $${maxBet}`);
+  }
+  const deck = shuffle(createDeck(), random);
+  return settleTurn(state, amount, drawCard(state, deck), deck);
+}
+
+/** Pass on the posts without betting */
+export function passAceyDeucey(state: AceyDeuceyState, playerId: string, random: RandomSource = Math.random): AceyDeuceyState {
+  assertTurn(state, playerId, 'betting');
+  return settleTurn(state, 0, null, shuffle(createDeck(), random));
+}
+
+/** Net chips each player took from (positive) or put into (negative) the pot this hand */
+export function getAceyDeuceyChipChanges(state: AceyDeuceyState): Record<string, number> {
+  const changes: Record<string, number> = Object.fromEntries(state.seatOrder.map(id => [id, 0]));
+  for (const turn of state.turns) changes[turn.playerId] += turn.chipChange;
+  return changes;
+}
@@ -0,0 +1,68 @@
+// Acey-Deucey (In-Between) as a game module (see gameModule.ts)
+
+import type { GameRules } from './gameModule';
+import type { AceRule, AceyDeuceyState } from './aceyDeuceyTypes';
+import {
+  callAceyDeuceyAce,
+  dealAceyDeuceyHand,
+  passAceyDeucey,
+  placeAceyDeuceyBet,
+} from './aceyDeuceyGameLogic';
+import { getBotAceyDeuceyDecision } from './aceyDeuceyBotLogic';
+
+export interface AceyDeuceyConfig {
+  aceRule: AceRule;
+  /** A post costs the bet times this */
+  postPenalty: number;
+  /** Bets are capped here (the games row's pot max); null when only the pot limits them */
+  potMax: number | null;
+}
+
+export type AceyDeuceyAction =
+  | { type: 'call_ace'; playerId: string; high: boolean }
+  | { type: 'bet'; playerId: string; amount: number }
+  | { type: 'pass'; playerId: string };
+
+const ACE_RULES: readonly AceRule[] = ['high', 'low', 'choice'];
+
+export function isAceRule(value: unknown): value is AceRule {
+  return ACE_RULES.includes(value as AceRule);
+}
+
+export const aceyDeuceyModule: GameRules<AceyDeuceyState, AceyDeuceyAction, AceyDeuceyConfig> = {
+  id: 'acey-deucey',
+
+  config: {
+    defaults: { aceRule: 'choice', postPenalty: 2, potMax: null },
+    fromGame: game => ({
+      aceRule: isAceRule(game.acey_ace_rule) ? game.acey_ace_rule : 'choice',
+      postPenalty: game.acey_post_penalty ?? 2,
+      potMax: game.pot_max_enabled ? game.pot_max_value ?? null : null,
+    }),
+  },
+
+  // Everyone antes into the pot for the first hand; later hands carry the pot over
+  // (see aceyDeuceyRoundLogic.ts)
+  createInitialState: ({ playerIds, dealerPlayerId, anteAmount, config }, random) =>
+    dealAceyDeuceyHand({ playerIds, dealerPlayerId, pot: anteAmount * playerIds.length, ...config }, random),
+
+  reduce: (state, action, random) => {
+    switch (action.type) {
+      case 'call_ace':
+        return callAceyDeuceyAce(state, action.playerId, action.high, random);
+      case 'bet':
+        return placeAceyDeuceyBet(state, action.playerId, action.amount, random);
+      case 'pass':
+        return passAceyDeucey(state, action.playerId, random);
+    }
+  },
+
+  getActivePlayerId: state => (state.phase === 'complete' ? null : state.currentTurnPlayerId),
+
+  isHandOver: state => state.phase === 'complete',
+
+  botAction: (state, playerId) => {
+    if (state.phase === 'complete' || state.currentTurnPlayerId !== playerId) return null;
+    return { ...getBotAceyDeuceyDecision(state), playerId };
+  },
+};
@@ -0,0 +1,359 @@
+// Acey-Deucey round orchestration - database integration layer
+// Follows the same patterns as holdemRoundLogic.ts:
+// - DB-First round creation with atomic guards
+// - State persistence via game_state JSONB column
+// - Atomic claim before chips move at the end of a hand
+//
+// One round is one hand: a turn for everyone around the table. The pot lives in games.pot
+// between hands; chips move in and out of it when a hand is settled.
+
+import { fetchPlayerDisplayName, getGameRepository, isUniqueViolation, type GameRow } from './gameRepository';
+import { aceyDeuceyModule } from './aceyDeuceyModule';
+import { dealAceyDeuceyHand, getAceyDeuceyChipChanges, getAceyDeuceyUnseenCards } from './aceyDeuceyGameLogic';
+import { recordGameResult, snapshotPlayerChips } from './gameLogic';
+import { logDeal } from './handActionLog';
+import { runWithFairDeck } from './handFairness';
+import type { Json } from '@/integrations/supabase/types';
+import type { AceyDeuceyState } from './aceyDeuceyTypes';
+
+type AceyDeuceyRoundResult = {
+  success: boolean;
+  roundId?: string;
+  handNumber?: number;
+  error?: string;
+  alreadyStarted?: boolean;
+};
+
+/**
+ * Start the first Acey-Deucey hand.
+ * Everyone antes into the pot; play starts left of the player in the dealer position.
+ */
+export async function startAceyDeuceyRound(gameId: string): Promise<AceyDeuceyRoundResult> {
+  console.log('[ACEY-DEUCEY] Starting acey-deucey round', { gameId });
+  const repo = getGameRepository();
+
+  try {
+    const { data: game, error: gameError } = await repo.games.get(gameId);
+
+    if (gameError || !game) {
+      throw new Error(`Failed to fetch game: ${gameError?.message}`);
+    }
+
+    if (game.status === 'game_over' || game.status === 'session_ended') {
+      return { success: false, error: 'Game already over' };
+    }
+
+    const { data: players, error: playersError } = await repo.players.listByGame(gameId);
+
+    if (playersError) {
+      throw new Error(`Failed to fetch players: ${playersError.message}`);
+    }
+
+    const activePlayers = (players || [])
+      .filter(p => !p.sitting_out && p.status === 'active')
+      .sort((a, b) => a.position - b.position);
+
+    if (activePlayers.length < 2) {
+      throw new Error('Acey-Deucey requires at least 2 players');
+    }
+
+    const dealerPosition = game.dealer_position || 1;
+    const dealerPlayer = activePlayers.find(p => p.position === dealerPosition) || activePlayers[0];
+    const anteAmount = game.ante_amount || 1;
+    const pot = anteAmount * activePlayers.length;
+
+    const dealerGameId = game.current_game_uuid;
+    if (!dealerGameId) {
+      throw new Error('No dealer_game_id - cannot create round');
+    }
+
+    const result = await dealAceyDeuceyRound(
+      game,
+      dealerGameId,
+      activePlayers.map(p => p.id),
+      dealerPlayer.id,
+      pot
+    );
+
+    // Only the client that created the round collects the antes
+    if (result.roundId) {
+      await repo.games.update(gameId, {
+        status: 'in_progress',
+        current_round: 1,
+        pot,
+      });
+
+      const playerIds = activePlayers.map(p => p.id);
+      const { error: anteError } = await repo.players.decrementChips(playerIds, anteAmount);
+      if (anteError) {
+        console.error('[ACEY-DEUCEY] ERROR collecting antes:', anteError);
+      } else {
+        // Record the antes in game_results to keep the accounting zero-sum
+        recordGameResult(
+          gameId,
+          result.handNumber ?? 1,
+          null,
+          'Ante',
+          `${playerIds.length} players anted $${anteAmount}`,
+          0,
+          Object.fromEntries(playerIds.map(id => [id, -anteAmount])),
+          false,
+          'acey-deucey',
+          dealerGameId
+        );
+      }
+    }
+    return result;
+
+  } catch (error) {
+    console.error('[ACEY-DEUCEY] Error starting round:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Start the next hand with the pot carried over.
+ * The deal moves one seat left, and players who joined since play without anteing.
+ */
+export async function startNextAceyDeuceyHand(
+  gameId: string,
+  dealerGameId: string,
+  previousState: AceyDeuceyState
+): Promise<AceyDeuceyRoundResult> {
+  console.log('[ACEY-DEUCEY] Starting next hand', { gameId, dealerGameId });
+  const repo = getGameRepository();
+
+  try {
+    const { data: game, error: gameError } = await repo.games.get(gameId);
+    if (gameError || !game) {
+      throw new Error(`Failed to fetch game: ${gameError?.message}`);
+    }
+
+    const { data: players, error: playersError } = await repo.players.listByGame(gameId);
+    if (playersError) {
+      throw new Error(`Failed to fetch players: ${playersError.message}`);
+    }
+
+    const seated = (players || [])
+      .filter(p => !p.sitting_out && p.status === 'active')
+      .sort((a, b) => a.position - b.position);
+
+    if (seated.length < 2) {
+      return { success: false, error: 'Not enough players' };
+    }
+
+    const lastDealer = (players || []).find(p => p.id === previousState.dealerPlayerId);
+    const lastDealerPosition = lastDealer?.position ?? 0;
+    const nextDealer = seated.find(p => p.position > lastDealerPosition) || seated[0];
+
+    return await dealAceyDeuceyRound(
+      game,
+      dealerGameId,
+      seated.map(p => p.id),
+      nextDealer.id,
+      previousState.pot
+    );
+
+  } catch (error) {
+    console.error('[ACEY-DEUCEY] Error starting next hand:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/** Deal a hand (the first player's posts) into a new round row */
+async function dealAceyDeuceyRound(
+  game: GameRow,
+  dealerGameId: string,
+  playerIds: string[],
+  dealerPlayerId: string,
+  pot: number
+): Promise<AceyDeuceyRoundResult> {
+  const repo = getGameRepository();
+
+  // Calculate hand number (DB-First)
+  const { data: latestHandNumber } = await repo.rounds.getLatestHandNumber(dealerGameId);
+  const handNumber = (latestHandNumber ?? 0) + 1;
+
+  // Real-money hands turn every card off the top of the hand's committed deck
+  const config = aceyDeuceyModule.config.fromGame(game);
+  const state = await runWithFairDeck(
+    game.id,
+    52,
+    random => dealAceyDeuceyHand({ playerIds, dealerPlayerId, pot, ...config }, random),
+    dealt => 52 - getAceyDeuceyUnseenCards(dealt).length
+  );
+
+  const { data: round, error: roundError } = await repo.rounds.insert({
+    game_id: game.id,
+    dealer_game_id: dealerGameId,
+    round_number: 1, // One round per hand, like hold'em
+    hand_number: handNumber,
+    cards_dealt: 2,
+    pot: state.pot,
+    status: 'betting',
+    game_state: state as unknown as Json,
+  });
+
+  if (roundError || !round) {
+    // Atomic guard: unique constraint violation means another client already created it
+    if (isUniqueViolation(roundError)) {
+      console.log('[ACEY-DEUCEY] Round already exists (atomic guard)');
+      return { success: true, alreadyStarted: true };
+    }
+    throw new Error(`Failed to create round: ${roundError?.message}`);
+  }
+
+  const insertedHandNumber = round.hand_number ?? handNumber;
+
+  await repo.games.update(game.id, {
+    total_hands: insertedHandNumber,
+    is_first_hand: insertedHandNumber === 1,
+  });
+
+  void logDeal(round.id, { state, dealtTo: state.seatOrder, cardsDealt: 2 });
+
+  console.log('[ACEY-DEUCEY] Hand dealt', { roundId: round.id, handNumber: insertedHandNumber });
+  return { success: true, roundId: round.id, handNumber: insertedHandNumber };
+}
+
+/** Update acey-deucey state in the database (after each action) */
+export async function updateAceyDeuceyState(roundId: string, newState: AceyDeuceyState): Promise<boolean> {
+  try {
+    const { error } = await getGameRepository().rounds.update(
+      roundId,
+      {
+        game_state: JSON.parse(JSON.stringify(newState)),
+        pot: newState.pot,
+      },
+      { neq: { status: 'completed' } }
+    );
+
+    if (error) {
+      console.error('[ACEY-DEUCEY] Failed to update state:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('[ACEY-DEUCEY] Error updating state:', error);
+    return false;
+  }
+}
+
+/**
+ * Settle a completed hand: move each player's net into or out of the pot and record it for
+ * hand history. Uses atomic claim pattern (transition status to 'completed') so only one
+ * client pays out.
+ */
+export async function recordAceyDeuceyHandResult(
+  gameId: string,
+  roundId: string,
+  state: AceyDeuceyState
+): Promise<boolean> {
+  const repo = getGameRepository();
+
+  if (state.phase !== 'complete') {
+    console.warn('[ACEY-DEUCEY] Hand not complete, nothing to record');
+    return false;
+  }
+
+  const { data: claimedRounds, error: claimError } = await repo.rounds.update(
+    roundId,
+    { status: 'completed', game_state: JSON.parse(JSON.stringify(state)) },
+    { neq: { status: 'completed' } }
+  );
+
+  if (claimError) {
+    console.error('[ACEY-DEUCEY] Failed to claim hand result:', claimError);
+    return false;
+  }
+
+  const claimedRound = claimedRounds && claimedRounds.length > 0 ? claimedRounds[0] : null;
+  if (!claimedRound) {
+    console.log('[ACEY-DEUCEY] Hand already settled by another client');
+    return true;
+  }
+
+  const chipChanges = getAceyDeuceyChipChanges(state);
+  for (const [playerId, change] of Object.entries(chipChanges)) {
+    if (change === 0) continue;
+    const { error } = await repo.players.incrementChips(playerId, change);
+    if (error) console.error('[ACEY-DEUCEY] Failed to move chips:', playerId, error);
+  }
+
+  // The hand is named after whoever took the most out of the pot
+  const [bestId, bestChange] = Object.entries(chipChanges).reduce(
+    (best, entry) => (entry[1] > best[1] ? entry : best),
+    ['', 0] as [string, number]
+  );
+  const winnerUsername = bestId ? await fetchPlayerDisplayName(gameId, bestId) : null;
+  const description = state.pot <= 0 && winnerUsername
+    ? `${winnerUsername} took the pot`
+    : winnerUsername
+      ? `${winnerUsername} won $${bestChange} • Pot $${state.pot}`
+      : `Nobody won • Pot $${state.pot}`;
+
+  const { error: resultError } = await repo.gameResults.insert({
+    game_id: gameId,
+    dealer_game_id: claimedRound.dealer_game_id,
+    hand_number: claimedRound.hand_number ?? 1,
+    pot_won: Object.values(chipChanges).reduce((sum, change) => sum + Math.max(0, change), 0),
+    winner_player_id: bestId || null,
+    winner_username: winnerUsername,
+    winning_hand_description: description,
+    is_chopped: false,
+    player_chip_changes: chipChanges,
+    game_type: 'acey-deucey',
+  });
+  if (resultError) console.error('[ACEY-DEUCEY] Failed to record result:', resultError);
+
+  await repo.games.update(gameId, { pot: state.pot, last_round_result: description });
+
+  await snapshotPlayerChips(gameId, claimedRound.hand_number ?? 1).catch((err) => {
+    console.error('[ACEY-DEUCEY] Failed to snapshot chips:', err);
+  });
+
+  console.log('[ACEY-DEUCEY] Hand settled', { roundId, description, chipChanges });
+  return true;
+}
+
+/**
+ * End the game. Normally a win has emptied the pot; if the table ran out of players first,
+ * what's left goes back evenly to those still seated (odd chips to the first).
+ */
+export async function endAceyDeuceyGame(gameId: string, state: AceyDeuceyState): Promise<boolean> {
+  const repo = getGameRepository();
+
+  try {
+    const lastWin = [...state.turns].reverse().find(turn => turn.outcome === 'win');
+    const winnerUsername = lastWin ? await fetchPlayerDisplayName(gameId, lastWin.playerId) : 'Nobody';
+    const lastResult = state.pot > 0 ? `Pot of $${state.pot} returned` : `${winnerUsername} took the pot`;
+
+    // Atomic claim: only the client that ends the game hands back a leftover pot
+    const { data: claimed } = await repo.games.update(
+      gameId,
+      {
+        status: 'game_over',
+        pot: 0,
+        last_round_result: lastResult,
+        game_over_at: new Date().toISOString(),
+      },
+      { neq: { status: 'game_over' } }
+    );
+
+    if (state.pot > 0 && claimed && claimed.length > 0) {
+      const { data: players } = await repo.players.listByGame(gameId);
+      const seated = (players || []).filter(p => !p.sitting_out && p.status === 'active');
+      const share = seated.length > 0 ? Math.floor(state.pot / seated.length) : 0;
+      for (const [i, player] of seated.entries()) {
+        const amount = share + (i === 0 ? state.pot - share * seated.length : 0);
+        if (amount > 0) await repo.players.incrementChips(player.id, amount);
+      }
+    }
+
+    console.log('[ACEY-DEUCEY] Game over', { gameId, lastResult });
+    return true;
+  } catch (error) {
+    console.error('[ACEY-DEUCEY] Error ending game:', error);
+    return false;
+  }
+}
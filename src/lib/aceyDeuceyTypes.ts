@@ -0,0 +1,54 @@
+// Acey-Deucey (In-Between) game types and interfaces
+// Cards use the poker Card from cardUtils ('♠','♥','♦','♣' suits)
+
+import type { Card } from './cardUtils';
+
+/**
+ * How an ace turned as the first post counts: always high, always low, or called by the
+ * player before the second post. An ace as the second post is always high.
+ */
+export type AceRule = 'high' | 'low' | 'choice';
+
+export type AceyDeuceyPhase =
+  | 'calling-ace' // The first post is an ace and the player calls it high or low
+  | 'betting' // Both posts are up; the player bets or passes
+  | 'complete'; // Everyone has had a turn this hand, or the pot was taken
+
+export type AceyDeuceyOutcome =
+  | 'win' // Strictly between the posts: the bet comes out of the pot
+  | 'lose' // Outside the posts: the bet goes in
+  | 'post' // Matched a post: the bet times the post penalty goes in
+  | 'pass'; // No bet (or no card can land between the posts)
+
+export interface AceyDeuceyTurn {
+  playerId: string;
+  posts: [Card, Card];
+  /** How a first-post ace counted; null when the first post isn't an ace */
+  aceHigh: boolean | null;
+  bet: number;
+  /** The card turned between the posts; null on a pass */
+  card: Card | null;
+  outcome: AceyDeuceyOutcome;
+  /** Chips the player took out of the pot (positive) or put in (negative) */
+  chipChange: number;
+}
+
+export interface AceyDeuceyState {
+  phase: AceyDeuceyPhase;
+  dealerPlayerId: string;
+  /** Turn order for the hand, starting left of the dealer */
+  seatOrder: string[];
+  /** Carried from hand to hand; the game ends once a win empties it */
+  pot: number;
+  aceRule: AceRule;
+  /** What a post costs, as a multiple of the bet */
+  postPenalty: number;
+  /** Largest bet allowed on top of the size of the pot; null when only the pot limits it */
+  potMax: number | null;
+  currentTurnPlayerId: string | null;
+  /** The current player's posts, and how a first-post ace was called */
+  posts: Card[];
+  aceHigh: boolean | null;
+  /** Settled turns this hand, in order; every card turned this hand is here or in posts */
+  turns: AceyDeuceyTurn[];
+}
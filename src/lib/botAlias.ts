@@ -3,7 +3,7 @@
  * based on the order bots were added to the game session.
  */
 export function getBotAlias(
-  players: Array<{ user_id: string; is_bot?: boolean; created_at?: string; profiles?: { username?: string } }>,
+  players: Array<{ user_id: string; is_bot?: boolean; created_at?: string; profiles?: { username?: string } | null }>,
   botUserId: string
 ): string {
   // Always use session-based index ordering for consistent aliases (Bot 1, Bot 2, etc.)
@@ -26,7 +26,7 @@ export function getBotAlias(
  * Returns display name - alias for bots, actual name for humans
  */
 export function getDisplayName(
-  players: Array<{ user_id: string; is_bot?: boolean; created_at?: string; profiles?: { username?: string } }>,
+  players: Array<{ user_id: string; is_bot?: boolean; created_at?: string; profiles?: { username?: string } | null }>,
   player: { user_id: string; is_bot?: boolean },
   actualUsername: string
 ): string {
@@ -1,4 +1,5 @@
 import { Card, evaluateHand, RANK_VALUES, HandRank, Rank } from './cardUtils';
+import { isGameType } from './gameTypes';
 
 export type AggressionLevel = 'very_conservative' | 'conservative' | 'normal' | 'aggressive' | 'very_aggressive';
 
@@ -22,17 +23,17 @@ const AGGRESSION_MULTIPLIERS: Record<AggressionLevel, number> = {
 export function getBotFoldProbability(
   cards: Card[],
   communityCards: Card[],
-  gameType: 'holm' | '357',
+  gameType: 'holm' | '357' | 'guts',
   roundNumber: number,
   aggressionLevel: AggressionLevel = 'normal'
 ): number {
   // Combine player cards with community cards for evaluation
   const allCards = [...cards, ...communityCards];
   
-  // For Holm, we don't use wild cards. For 3-5-7, use wild based on round
-  const useWildCards = gameType === '357';
+  // Holm and Guts don't use wild cards. For 3-5-7, use wild based on round
+  const useWildCards = isGameType(gameType, '3-5-7');
   // Determine explicit wild rank for 3-5-7 games
-  const wildRank = gameType === '357' ? (roundNumber === 1 ? '3' : roundNumber === 2 ? '5' : '7') : null;
+  const wildRank = isGameType(gameType, '3-5-7') ? (roundNumber === 1 ? '3' : roundNumber === 2 ? '5' : '7') : null;
   const evaluation = evaluateHand(allCards, useWildCards, wildRank as any);
   
   console.log('[BOT STRENGTH] Evaluating hand:', {
@@ -46,8 +47,10 @@ export function getBotFoldProbability(
   
   // Get base fold probability
   let baseProbability: number;
-  if (gameType === 'holm') {
+  if (isGameType(gameType, 'holm-game')) {
     baseProbability = getHolmFoldProbability(evaluation.rank, allCards);
+  } else if (isGameType(gameType, 'guts')) {
+    baseProbability = getGutsFoldProbability(evaluation.rank, allCards);
   } else {
     baseProbability = get357FoldProbability(evaluation.rank, allCards, roundNumber);
   }
@@ -109,6 +112,29 @@ function hasFourToFlush(cards: Card[]): boolean {
   return Object.values(suitCounts).some(count => count >= 4);
 }
 
+/**
+ * Guts fold probabilities (2 or 3 cards, no wilds). Losing means matching the pot,
+ * so only a made hand stays in with any confidence:
+ * - Three of a kind: 0%
+ * - Pair of 8s or better: 10%
+ * - Pair of 2s through 7s: 30%
+ * - Ace high: 60%
+ * - Any other high card: 80%
+ */
+function getGutsFoldProbability(rank: HandRank, cards: Card[]): number {
+  if (rank === 'three-of-a-kind') {
+    return 0;
+  }
+
+  if (rank === 'pair') {
+    const values = cards.map(c => RANK_VALUES[c.rank]);
+    const pairValue = Math.max(...values.filter(v => values.indexOf(v) !== values.lastIndexOf(v)));
+    return pairValue >= 8 ? 10 : 30;
+  }
+
+  return cards.some(c => c.rank === 'A') ? 60 : 80;
+}
+
 /**
  * 3-5-7 game fold probabilities by round
  */
@@ -3,6 +3,8 @@ import { makeDecision } from "./gameLogic";
 import { getBotFoldProbability, AggressionLevel } from "./botHandStrength";
 import { Card } from "./cardUtils";
 import { generateUUID } from "./uuid";
+import { getGameDefaultsKey, isGameType, usesHorsesTable } from "./gameTypes";
+import type { RandomSource } from "@rules/random.ts";
 import { getNextBotNumber, makeBotUsername } from "./botNaming";
 
 // Weighted aggression levels - extreme levels are rare
@@ -14,41 +16,32 @@ const AGGRESSION_WEIGHTS: { level: AggressionLevel; weight: number }[] = [
   { level: 'very_aggressive', weight: 5 }      // 5% chance
 ];
 
-function getRandomAggressionLevel(seed?: string): AggressionLevel {
+function getRandomAggressionLevel(random: RandomSource): AggressionLevel {
   const totalWeight = AGGRESSION_WEIGHTS.reduce((sum, w) => sum + w.weight, 0);
 
-  // Prefer a stable pseudo-random value derived from a seed (UUID) so we never depend on
-  // potentially-deterministic RNG behavior in certain environments.
-  const rand01 = (() => {
-    if (seed) {
-      // FNV-1a 32-bit hash over the seed string
-      let hash = 2166136261;
-      for (let i = 0; i < seed.length; i++) {
-        hash ^= seed.charCodeAt(i);
-        hash = Math.imul(hash, 16777619);
-      }
-      const bucket0to99 = (hash >>> 0) % 100;
-      return bucket0to99 / 100;
-    }
-
-    try {
-      const buf = new Uint32Array(1);
-      crypto.getRandomValues(buf);
-      return buf[0] / 2 ** 32;
-    } catch {
-      return Math.random();
-    }
-  })();
-
-  let random = rand01 * totalWeight;
+  let remaining = random() * totalWeight;
   for (const { level, weight } of AGGRESSION_WEIGHTS) {
-    random -= weight;
-    if (random <= 0) return level;
+    remaining -= weight;
+    if (remaining <= 0) return level;
   }
 
   return 'normal';
 }
 
+/**
+ * The aggression roll for a bot id: the FNV-1a hash of the id bucketed 0-99, so a given
+ * id lands on the same level it always has
+ */
+function aggressionRollFor(botId: string): RandomSource {
+  let hash = 2166136261;
+  for (let i = 0; i < botId.length; i++) {
+    hash ^= botId.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  const bucket0to99 = (hash >>> 0) % 100;
+  return () => bucket0to99 / 100;
+}
+
 export async function addBotPlayer(gameId: string) {
   console.log('[BOT CREATION] ========== Starting bot creation ==========');
   console.log('[BOT CREATION] Game ID:', gameId);
@@ -113,7 +106,8 @@ export async function addBotPlayer(gameId: string) {
   const botId = generateUUID();
   console.log('[BOT CREATION] Generated bot ID:', botId);
   
-  const aggressionLevel = getRandomAggressionLevel(botId);
+  // Rolled from the bot id so a bot's aggression is stable and reproducible
+  const aggressionLevel = getRandomAggressionLevel(aggressionRollFor(botId));
   console.log('[BOT CREATION] Assigned aggression level:', aggressionLevel);
   
   // Get bot usernames scoped to this game session (including left bots) for sequential numbering
@@ -193,7 +187,7 @@ export async function addBotPlayer(gameId: string) {
  * Add a bot player that starts sitting out (waiting to join next game)
  * Used by host during active games to add bots that will join at next hand
  */
-export async function addBotPlayerSittingOut(gameId: string) {
+export async function addBotPlayerSittingOut(gameId: string, random: RandomSource = Math.random) {
   console.log('[BOT CREATION SITTING-OUT] ========== Starting sitting-out bot creation ==========');
   console.log('[BOT CREATION SITTING-OUT] Game ID:', gameId);
   
@@ -225,7 +219,7 @@ export async function addBotPlayerSittingOut(gameId: string) {
   }
   
   // Pick a random open position
-  const randomIndex = Math.floor(Math.random() * openPositions.length);
+  const randomIndex = Math.floor(random() * openPositions.length);
   const nextPosition = openPositions[randomIndex];
 
   console.log('[BOT CREATION SITTING-OUT] Selected random position:', nextPosition);
@@ -234,7 +228,8 @@ export async function addBotPlayerSittingOut(gameId: string) {
   const botId = generateUUID();
   console.log('[BOT CREATION SITTING-OUT] Generated bot ID:', botId);
   
-  const aggressionLevel = getRandomAggressionLevel(botId);
+  // Rolled from the bot id so a bot's aggression is stable and reproducible
+  const aggressionLevel = getRandomAggressionLevel(aggressionRollFor(botId));
   console.log('[BOT CREATION SITTING-OUT] Assigned aggression level:', aggressionLevel);
   
   // Get bot usernames scoped to this game session (including left bots) for sequential numbering
@@ -312,7 +307,11 @@ export async function addBotPlayerSittingOut(gameId: string) {
   return botPlayer;
 }
 
-export async function makeBotDecisions(gameId: string, passedTurnPosition?: number | null) {
+export async function makeBotDecisions(
+  gameId: string,
+  passedTurnPosition?: number | null,
+  random: RandomSource = Math.random
+) {
   console.log('[BOT DECISIONS] Making decisions for game:', gameId, 'turnPosition:', passedTurnPosition);
   
   // Get current round and game type, and check pause state
@@ -330,13 +329,13 @@ export async function makeBotDecisions(gameId: string, passedTurnPosition?: numb
   
   // CRITICAL: Skip for dice games - they have their own bot logic in horsesBotLogic.ts and sccBotLogic.ts
   // This function is ONLY for poker-style games (Holm, 3-5-7) that use current_decision/decision_locked
-  const isDiceGame = gameData?.game_type === 'horses' || gameData?.game_type === 'ship-captain-crew';
+  const isDiceGame = usesHorsesTable(gameData?.game_type);
   if (isDiceGame) {
     console.log('[BOT DECISIONS] Skipping - dice games have their own bot logic');
     return false;
   }
   
-  const isHolmGame = gameData?.game_type === 'holm-game' || gameData?.game_type === 'holm';
+  const isHolmGame = isGameType(gameData?.game_type, 'holm-game');
   const dealerGameId = (gameData as any)?.current_game_uuid as string | null | undefined;
   const roundNumber = gameData?.current_round || 1;
   const handNumber = gameData?.total_hands || 1;
@@ -419,7 +418,7 @@ export async function makeBotDecisions(gameId: string, passedTurnPosition?: numb
   });
 
   // Get game defaults for bot behavior (for decision delay and hand strength toggle)
-  const gameTypeKey = isHolmGame ? 'holm' : '3-5-7';
+  const gameTypeKey = getGameDefaultsKey(gameData?.game_type) ?? '3-5-7';
   const { data: gameDefaults } = await supabase
     .from('game_defaults')
     .select('bot_decision_delay_seconds, bot_fold_probability, bot_use_hand_strength')
@@ -467,7 +466,7 @@ export async function makeBotDecisions(gameId: string, passedTurnPosition?: numb
     
     // Non-blocking delay before bot makes decision - fire and forget
     // This allows the caller to return immediately while bot "thinks"
-    const shouldFold = Math.random() * 100 < foldProbability;
+    const shouldFold = random() * 100 < foldProbability;
     const decision: 'stay' | 'fold' = shouldFold ? 'fold' : 'stay';
     
     console.log('[BOT DECISIONS] Bot at position', bot.position, 'will decide:', decision, 'after', decisionDelay, 's');
@@ -485,7 +484,8 @@ export async function makeBotDecisions(gameId: string, passedTurnPosition?: numb
     return true;
   }
   
-  // For 3-5-7 games, process all bots with staggered delays (simultaneous decisions)
+  // For 3-5-7 and Guts, process all bots with staggered delays (simultaneous decisions)
+  const isGuts = isGameType(gameData?.game_type, 'guts');
   for (const bot of botsToDecide) {
     const botAggressionLevel = aggressionMap.get(bot.user_id) || 'normal';
     
@@ -502,7 +502,7 @@ export async function makeBotDecisions(gameId: string, passedTurnPosition?: numb
     // Calculate fold probability - use hand strength or universal setting
     let foldProbability: number;
     if (useHandStrength) {
-      foldProbability = getBotFoldProbability(botCards, [], '357', roundNumber, botAggressionLevel);
+      foldProbability = getBotFoldProbability(botCards, [], isGuts ? 'guts' : '357', roundNumber, botAggressionLevel);
       console.log('[BOT DECISIONS] 3-5-7 bot at position', bot.position, 'fold probability:', foldProbability, '% (round', roundNumber, ', hand strength, aggression:', botAggressionLevel, ')');
     } else {
       // Use universal fold probability directly - no aggression adjustment
@@ -512,13 +512,14 @@ export async function makeBotDecisions(gameId: string, passedTurnPosition?: numb
     }
     
     // Stagger bot decisions slightly to feel more natural
-    const randomDelay = (decisionDelay * 1000) + Math.random() * 1500;
+    const randomDelay = (decisionDelay * 1000) + random() * 1500;
+    
+    // Decide to stay or fold based on calculated probability. Drawn now rather than
+    // inside the timeout so the draws happen in bot order, not timer order.
+    const shouldFold = random() * 100 < foldProbability;
+    const decision: 'stay' | 'fold' = shouldFold ? 'fold' : 'stay';
     
     setTimeout(async () => {
-      // Decide to stay or fold based on calculated probability
-      const shouldFold = Math.random() * 100 < foldProbability;
-      const decision: 'stay' | 'fold' = shouldFold ? 'fold' : 'stay';
-      
       console.log('[BOT DECISIONS] Bot', bot.id, 'deciding:', decision, 'after', randomDelay, 'ms');
       
       await makeDecision(gameId, bot.id, decision);
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { runSimulation, SIM_GAMES, type BotPolicyName, type SimGameId } from './botSimulator';
+
+const SEATS: Record<SimGameId, number> = {
+  cribbage: 2,
+  'gin-rummy': 2,
+  yahtzee: 3,
+  horses: 4,
+  'ship-captain-crew': 4,
+};
+
+describe('bot simulator', () => {
+  it.each(SIM_GAMES)('plays %s bot against random without failures', game => {
+    const policies = Array.from({ length: SEATS[game] }, (_, i): BotPolicyName => (i % 2 ? 'random' : 'bot'));
+    const report = runSimulation({ game, games: 5, policies, seed: 'test', pointsToWin: 61 });
+    expect(report.failures).toEqual([]);
+    const wins = report.seats.reduce((sum, s) => sum + s.wins, 0);
+    expect(wins + report.ties).toBe(5);
+  });
+
+  it('replays the same games from the same seed', () => {
+    const options = { game: 'cribbage' as const, games: 3, policies: ['bot', 'bot'] as const, seed: 7, pointsToWin: 61 };
+    const first = runSimulation({ ...options, policies: [...options.policies] });
+    const second = runSimulation({ ...options, policies: [...options.policies] });
+    expect(second).toEqual(first);
+  });
+
+  it('reports engine crashes with the seed that caused them', () => {
+    const report = runSimulation({ game: 'gin-rummy', games: 2, policies: ['bot', 'bot', 'bot'], seed: 'x' });
+    expect(report.failed).toBe(2);
+    expect(report.failures[1]).toMatchObject({ game: 1, seed: 'x:1', kind: 'invariant' });
+  });
+});
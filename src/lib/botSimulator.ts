@@ -0,0 +1,523 @@
+/**
+ * Headless bot-vs-bot simulator.
+ *
+ * Plays complete games with the pure engines and bot logic - no Supabase, no React -
+ * so bots can be tuned and rules regressions caught offline. Game i of a run is
+ * seeded from `${seed}:${i}`, so every failure it reports can be replayed.
+ * The command-line wrapper is scripts/simulate-bots.mjs (`npm run simulate -- --help`).
+ */
+
+import { createSeededRandom, shuffle, type RandomSource } from '@rules/random.ts';
+import type { GameRules } from './gameModule';
+import { cribbageModule, type CribbageAction } from './cribbageModule';
+import { ginRummyModule, type GinRummyModuleAction } from './ginRummyModule';
+import { yahtzeeModule, type YahtzeeAction } from './yahtzeeModule';
+import { startNewHand } from './cribbageGameLogic';
+import { canPlayCard } from './cribbageScoring';
+import { DISCARD_COUNT, type CribbageCard, type CribbageState } from './cribbageTypes';
+import { createNextGinRummyHandState, dealHand, getDiscardTop, getKnockLimit } from './ginRummyGameLogic';
+import { canKnock } from './ginRummyScoring';
+import type { GinRummyCard, GinRummyState } from './ginRummyTypes';
+import { botGetLayOffs } from './ginRummyBotLogic';
+import { getAvailableCategories, getTotalScore } from './yahtzeeScoring';
+import type { YahtzeeCategory, YahtzeeState } from './yahtzeeTypes';
+import {
+  compareHands,
+  createInitialHand,
+  determineWinners,
+  evaluateHand,
+  rollDice,
+  type HorsesHandResult,
+} from './horsesGameLogic';
+import { applyHoldDecision, getBotHoldDecision, shouldBotStopRolling } from './horsesBotLogic';
+import {
+  compareSCCHands,
+  createInitialSCCHand,
+  determineSCCWinners,
+  evaluateSCCHand,
+  lockInSCCHand,
+  rollSCCDice,
+  type SCCHand,
+  type SCCHandResult,
+} from './sccGameLogic';
+import { getSCCBotDecision } from './sccBotLogic';
+
+export type SimGameId = 'cribbage' | 'gin-rummy' | 'yahtzee' | 'horses' | 'ship-captain-crew';
+
+export const SIM_GAMES: SimGameId[] = ['cribbage', 'gin-rummy', 'yahtzee', 'horses', 'ship-captain-crew'];
+
+/** 'bot' is the shipped bot logic; 'random' picks uniformly among legal moves */
+export type BotPolicyName = 'bot' | 'random';
+
+export const BOT_POLICIES: BotPolicyName[] = ['bot', 'random'];
+
+export interface SimulationOptions {
+  game: SimGameId;
+  games: number;
+  /** One policy per seat; the number of seats comes from this list */
+  policies: BotPolicyName[];
+  seed?: number | string;
+  /** Match target for cribbage and gin rummy (their defaults otherwise) */
+  pointsToWin?: number;
+}
+
+export interface SeatReport {
+  seat: number;
+  policy: BotPolicyName;
+  wins: number;
+  winRate: number;
+  averageScore: number;
+}
+
+export interface SimulationFailure {
+  game: number;
+  seed: string;
+  kind: 'crash' | 'invariant';
+  message: string;
+}
+
+export interface SimulationReport {
+  game: SimGameId;
+  games: number;
+  seed: string;
+  seats: SeatReport[];
+  /** Games with more than one winner (dice games roll these over) */
+  ties: number;
+  /** Cribbage only: games won by 2x / 3x payout */
+  skunks: number;
+  doubleSkunks: number;
+  averageActions: number;
+  /** Games that crashed or broke an invariant; they count toward nothing else */
+  failed: number;
+  /** The first MAX_REPORTED_FAILURES of them */
+  failures: SimulationFailure[];
+}
+
+const MAX_REPORTED_FAILURES = 20;
+// A game still running after this many actions is stuck
+const MAX_ACTIONS_PER_GAME = 20000;
+
+class InvariantViolation extends Error {}
+
+function invariant(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new InvariantViolation(message);
+}
+
+interface GameContext {
+  playerIds: string[];
+  policies: BotPolicyName[];
+  dealerSeat: number;
+  random: RandomSource;
+  pointsToWin?: number;
+}
+
+interface GameOutcome {
+  /** Seat indexes; more than one means a tie */
+  winners: number[];
+  scores: number[];
+  /** Payout multiplier: 2 = skunk, 3 = double skunk */
+  multiplier: number;
+  actions: number;
+}
+
+type Policy<State, Action> = (state: State, playerId: string, random: RandomSource) => Action | null;
+
+function pick<T>(items: T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function cardKey(card: { rank: string; suit: string }): string {
+  return `${card.rank}-${card.suit}`;
+}
+
+function assertUniqueCards(cards: { rank: string; suit: string }[], where: string) {
+  const seen = new Set<string>();
+  for (const card of cards) {
+    const key = cardKey(card);
+    invariant(!seen.has(key), `${where}: ${key} appears twice`);
+    seen.add(key);
+  }
+}
+
+/** Let the seats act until the hand is over, checking invariants after every action */
+function playHand<State, Action>(
+  rules: GameRules<State, Action, unknown>,
+  initial: State,
+  ctx: GameContext,
+  policies: Record<BotPolicyName, Policy<State, Action>>,
+  check: (prev: State, next: State) => void,
+  counter: { actions: number }
+): State {
+  let state = initial;
+  while (!rules.isHandOver(state)) {
+    const playerId = rules.getActivePlayerId(state);
+    invariant(playerId, 'Hand is not over but nobody can act');
+    const policy = policies[ctx.policies[ctx.playerIds.indexOf(playerId)]];
+    const action = policy(state, playerId, ctx.random);
+    invariant(action, `No action for ${playerId} while it is their move`);
+    const next = rules.reduce(state, action, ctx.random);
+    check(state, next);
+    state = next;
+    invariant(++counter.actions <= MAX_ACTIONS_PER_GAME, `Game did not finish in ${MAX_ACTIONS_PER_GAME} actions`);
+  }
+  return state;
+}
+
+// ─── Cribbage ───────────────────────────────────────────────────
+
+const cribbagePolicies: Record<BotPolicyName, Policy<CribbageState, CribbageAction>> = {
+  bot: (state, playerId) => cribbageModule.botAction(state, playerId),
+  random: (state, playerId, random) => {
+    const { hand } = state.playerStates[playerId];
+    if (state.phase === 'discarding') {
+      const count = DISCARD_COUNT[state.turnOrder.length] || 2;
+      const cardIndices = shuffle(hand.map((_, i) => i), random).slice(0, count);
+      return { type: 'discard', playerId, cardIndices };
+    }
+    const playable = hand
+      .map((card, cardIndex) => ({ card, cardIndex }))
+      .filter(({ card }) => canPlayCard(card, state.pegging.currentCount));
+    return playable.length > 0
+      ? { type: 'play', playerId, cardIndex: pick(playable, random).cardIndex }
+      : { type: 'go', playerId };
+  },
+};
+
+function checkCribbage(prev: CribbageState, next: CribbageState) {
+  invariant(next.pegging.currentCount >= 0 && next.pegging.currentCount <= 31, `Pegging count is ${next.pegging.currentCount}`);
+  for (const [id, ps] of Object.entries(next.playerStates)) {
+    invariant(ps.pegScore >= prev.playerStates[id].pegScore, `${id}'s score went down`);
+  }
+  const cards: CribbageCard[] = [
+    ...Object.values(next.playerStates).flatMap(ps => ps.hand),
+    ...next.crib,
+    ...next.pegging.playedCards.map(p => p.card),
+    ...(next.cutCard ? [next.cutCard] : []),
+  ];
+  assertUniqueCards(cards, 'Cribbage');
+  if (next.cutCard) {
+    invariant(next.crib.length === 4, `Crib holds ${next.crib.length} cards after the cut`);
+  }
+}
+
+function playCribbage(ctx: GameContext): GameOutcome {
+  const counter = { actions: 0 };
+  const config = { ...cribbageModule.config.defaults, ...(ctx.pointsToWin ? { pointsToWin: ctx.pointsToWin } : {}) };
+  let state = cribbageModule.createInitialState(
+    { playerIds: ctx.playerIds, dealerPlayerId: ctx.playerIds[ctx.dealerSeat], anteAmount: 1, config },
+    ctx.random
+  );
+
+  for (;;) {
+    state = playHand(cribbageModule, state, ctx, cribbagePolicies, checkCribbage, counter);
+    if (state.phase === 'complete') break;
+    state = startNewHand(state, ctx.playerIds, ctx.random);
+  }
+
+  const winner = ctx.playerIds.indexOf(state.winnerPlayerId ?? '');
+  invariant(winner >= 0, 'Cribbage ended without a winner');
+  invariant(state.playerStates[state.winnerPlayerId!].pegScore >= state.pointsToWin, 'Cribbage winner is short of the target');
+  return {
+    winners: [winner],
+    scores: ctx.playerIds.map(id => state.playerStates[id].pegScore),
+    multiplier: state.payoutMultiplier,
+    actions: counter.actions,
+  };
+}
+
+// ─── Gin Rummy ──────────────────────────────────────────────────
+
+const ginRummyPolicies: Record<BotPolicyName, Policy<GinRummyState, GinRummyModuleAction>> = {
+  bot: (state, playerId) => ginRummyModule.botAction(state, playerId),
+  random: (state, playerId, random) => {
+    const { hand } = state.playerStates[playerId];
+    if (state.phase === 'first_draw') {
+      return { type: random() < 0.5 ? 'take_first_draw' : 'pass_first_draw', playerId };
+    }
+    if (state.phase === 'playing' && state.turnPhase === 'draw') {
+      return { type: getDiscardTop(state) && random() < 0.5 ? 'draw_discard' : 'draw_stock', playerId };
+    }
+    if (state.phase === 'playing') {
+      const drawn = state.drawSource === 'discard' ? state.lastAction?.card : undefined;
+      const card = pick(hand.filter(c => !drawn || cardKey(c) !== cardKey(drawn)), random);
+      const rest = hand.filter(c => c !== card);
+      return canKnock(rest, getKnockLimit(state)) && random() < 0.5 ? { type: 'knock', playerId, card } : { type: 'discard', playerId, card };
+    }
+    const knocker = Object.values(state.playerStates).find(ps => ps.hasKnocked || ps.hasGin);
+    const layOffs = knocker ? botGetLayOffs(hand, knocker.melds) : [];
+    if (layOffs.length > 0 && random() < 0.5) {
+      const { card, onMeldIndex } = pick(layOffs, random);
+      return { type: 'lay_off', playerId, card, meldIndex: onMeldIndex };
+    }
+    return { type: 'finish_laying_off', playerId };
+  },
+};
+
+function checkGinRummy(prev: GinRummyState, next: GinRummyState) {
+  const cards: GinRummyCard[] = [
+    ...Object.values(next.playerStates).flatMap(ps => [...ps.hand, ...ps.laidOffCards]),
+    ...next.stockPile,
+    ...next.discardPile,
+  ];
+  invariant(cards.length === 52, `Gin rummy has ${cards.length} cards in play`);
+  assertUniqueCards(cards, 'Gin rummy');
+  for (const [id, score] of Object.entries(next.matchScores)) {
+    invariant(score >= (prev.matchScores[id] ?? 0), `${id}'s match score went down`);
+  }
+}
+
+function playGinRummy(ctx: GameContext): GameOutcome {
+  invariant(ctx.playerIds.length === 2, 'Gin rummy is played by exactly 2 seats');
+  const counter = { actions: 0 };
+  const config = { ...ginRummyModule.config.defaults, pointsToWin: ctx.pointsToWin ?? ginRummyModule.config.defaults.pointsToWin };
+  let state = ginRummyModule.createInitialState(
+    { playerIds: ctx.playerIds, dealerPlayerId: ctx.playerIds[ctx.dealerSeat], anteAmount: 1, config },
+    ctx.random
+  );
+
+  for (;;) {
+    state = playHand(ginRummyModule, state, ctx, ginRummyPolicies, checkGinRummy, counter);
+    if (state.winnerPlayerId) break;
+    // Same hand-over as startNextGinRummyHand
+    state = dealHand(createNextGinRummyHandState(state), ctx.random);
+  }
+
+  return {
+    winners: [ctx.playerIds.indexOf(state.winnerPlayerId)],
+    scores: ctx.playerIds.map(id => state.matchScores[id] ?? 0),
+    multiplier: 1,
+    actions: counter.actions,
+  };
+}
+
+// ─── Yahtzee ────────────────────────────────────────────────────
+
+const yahtzeePolicies: Record<BotPolicyName, Policy<YahtzeeState, YahtzeeAction>> = {
+  bot: (state, playerId) => yahtzeeModule.botAction(state, playerId),
+  random: (state, playerId, random) => {
+    const ps = state.playerStates[playerId];
+    if (ps.rollsRemaining === 3 || (ps.rollsRemaining > 0 && random() < 0.5)) {
+      return { type: 'roll', playerId, held: ps.dice.map(() => random() < 0.5) };
+    }
+    const category: YahtzeeCategory = pick(getAvailableCategories(ps.scorecard), random);
+    return { type: 'score', playerId, category };
+  },
+};
+
+function checkYahtzee(prev: YahtzeeState, next: YahtzeeState) {
+  for (const [id, ps] of Object.entries(next.playerStates)) {
+    const rolled = ps.rollsRemaining < 3;
+    invariant(
+      ps.dice.every(d => (rolled ? d.value >= 1 : d.value === 0) && d.value <= 6),
+      `${id} has impossible dice ${ps.dice.map(d => d.value).join(',')}`
+    );
+    for (const [category, score] of Object.entries(prev.playerStates[id].scorecard.scores)) {
+      invariant(ps.scorecard.scores[category as YahtzeeCategory] === score, `${id}'s ${category} score changed`);
+    }
+  }
+}
+
+function playYahtzee(ctx: GameContext): GameOutcome {
+  const counter = { actions: 0 };
+  const initial = yahtzeeModule.createInitialState({
+    playerIds: ctx.playerIds,
+    dealerPlayerId: ctx.playerIds[ctx.dealerSeat],
+    anteAmount: 1,
+    config: {},
+  });
+  const state = playHand(yahtzeeModule, initial, ctx, yahtzeePolicies, checkYahtzee, counter);
+
+  const scores = ctx.playerIds.map(id => getTotalScore(state.playerStates[id].scorecard));
+  const best = Math.max(...scores);
+  return {
+    winners: scores.flatMap((score, seat) => (score === best ? [seat] : [])),
+    scores,
+    multiplier: 1,
+    actions: counter.actions,
+  };
+}
+
+// ─── Dice games (Horses, Ship Captain Crew) ─────────────────────
+
+/** Seats in turn order, starting left of the dealer */
+function turnOrder(ctx: GameContext): number[] {
+  return ctx.playerIds.map((_, i) => (ctx.dealerSeat + 1 + i) % ctx.playerIds.length);
+}
+
+function assertDice(dice: { value: number }[], game: string) {
+  invariant(dice.every(d => d.value >= 1 && d.value <= 6), `${game} rolled ${dice.map(d => d.value).join(',')}`);
+}
+
+function playHorses(ctx: GameContext): GameOutcome {
+  const results: HorsesHandResult[] = [];
+  let best: HorsesHandResult | null = null;
+  let actions = 0;
+
+  for (const seat of turnOrder(ctx)) {
+    const isBot = ctx.policies[seat] === 'bot';
+    let hand = rollDice(createInitialHand(), ctx.random);
+    actions++;
+    while (!hand.isComplete) {
+      const stop = isBot ? shouldBotStopRolling(hand.dice, hand.rollsRemaining, best) : ctx.random() < 0.3;
+      if (stop) break;
+      hand = isBot
+        ? applyHoldDecision(hand, getBotHoldDecision({ currentDice: hand.dice, rollsRemaining: hand.rollsRemaining, currentWinningResult: best }))
+        : { ...hand, dice: hand.dice.map(d => ({ ...d, isHeld: ctx.random() < 0.5 })) };
+      hand = rollDice(hand, ctx.random);
+      actions++;
+    }
+    assertDice(hand.dice, 'Horses');
+    results[seat] = evaluateHand(hand.dice);
+    if (!best || compareHands(results[seat], best) > 0) best = results[seat];
+  }
+
+  return { winners: determineWinners(results), scores: results.map(r => r.rank), multiplier: 1, actions };
+}
+
+function playShipCaptainCrew(ctx: GameContext): GameOutcome {
+  const results: SCCHandResult[] = [];
+  let best: SCCHandResult | null = null;
+  let actions = 0;
+
+  for (const seat of turnOrder(ctx)) {
+    const isBot = ctx.policies[seat] === 'bot';
+    let hand: SCCHand = rollSCCDice(createInitialSCCHand(), ctx.random);
+    actions++;
+    while (!hand.isComplete) {
+      const qualified = hand.hasShip && hand.hasCaptain && hand.hasCrew;
+      const stop = isBot
+        ? getSCCBotDecision({ currentHand: hand, rollsRemaining: hand.rollsRemaining, currentWinningResult: best }).shouldStopRolling
+        : qualified && ctx.random() < 0.3;
+      if (stop && qualified) {
+        hand = lockInSCCHand(hand);
+        break;
+      }
+      hand = rollSCCDice(hand, ctx.random);
+      actions++;
+    }
+    assertDice(hand.dice, 'Ship Captain Crew');
+    results[seat] = evaluateSCCHand(hand);
+    if (!best || compareSCCHands(results[seat], best) > 0) best = results[seat];
+  }
+
+  return { winners: determineSCCWinners(results), scores: results.map(r => r.cargoSum), multiplier: 1, actions };
+}
+
+const GAME_RUNNERS: Record<SimGameId, (ctx: GameContext) => GameOutcome> = {
+  cribbage: playCribbage,
+  'gin-rummy': playGinRummy,
+  yahtzee: playYahtzee,
+  horses: playHorses,
+  'ship-captain-crew': playShipCaptainCrew,
+};
+
+// ─── Runner ─────────────────────────────────────────────────────
+
+export function runSimulation(options: SimulationOptions): SimulationReport {
+  const { game, games, policies, pointsToWin } = options;
+  const seed = String(options.seed ?? Date.now());
+  const playerIds = policies.map((_, seat) => `seat-${seat + 1}`);
+  const runGame = GAME_RUNNERS[game];
+
+  const wins = policies.map(() => 0);
+  const scoreTotals = policies.map(() => 0);
+  const failures: SimulationFailure[] = [];
+  let completed = 0;
+  let failed = 0;
+  let ties = 0;
+  let skunks = 0;
+  let doubleSkunks = 0;
+  let actions = 0;
+
+  for (let i = 0; i < games; i++) {
+    const gameSeed = `${seed}:${i}`;
+    try {
+      const outcome = runGame({
+        playerIds,
+        policies,
+        // Rotate the deal so no seat keeps the dealer's edge
+        dealerSeat: i % policies.length,
+        random: createSeededRandom(gameSeed),
+        pointsToWin,
+      });
+      completed++;
+      actions += outcome.actions;
+      outcome.scores.forEach((score, seat) => (scoreTotals[seat] += score));
+      if (outcome.winners.length === 1) {
+        wins[outcome.winners[0]]++;
+      } else {
+        ties++;
+      }
+      if (outcome.multiplier === 2) skunks++;
+      if (outcome.multiplier === 3) doubleSkunks++;
+    } catch (err) {
+      failed++;
+      if (failures.length < MAX_REPORTED_FAILURES) {
+        failures.push({
+          game: i,
+          seed: gameSeed,
+          kind: err instanceof InvariantViolation ? 'invariant' : 'crash',
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  }
+
+  return {
+    game,
+    games,
+    seed,
+    seats: policies.map((policy, seat) => ({
+      seat: seat + 1,
+      policy,
+      wins: wins[seat],
+      winRate: completed ? wins[seat] / completed : 0,
+      averageScore: completed ? scoreTotals[seat] / completed : 0,
+    })),
+    ties,
+    skunks,
+    doubleSkunks,
+    averageActions: completed ? actions / completed : 0,
+    failed,
+    failures,
+  };
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+export function formatSimulationReport(report: SimulationReport): string {
+  const completed = report.games - report.failed;
+  const lines = [
+    `${report.game}: ${report.games} games, seed ${report.seed}`,
+    '',
+    'seat  policy  wins      win rate  avg score',
+    ...report.seats.map(s =>
+      [
+        String(s.seat).padEnd(6),
+        s.policy.padEnd(8),
+        String(s.wins).padEnd(10),
+        percent(s.winRate).padEnd(10),
+        s.averageScore.toFixed(1),
+      ].join('')
+    ),
+    '',
+    `ties: ${report.ties}`,
+  ];
+  if (report.game === 'cribbage') {
+    lines.push(
+      `skunks: ${report.skunks} (${percent(completed ? report.skunks / completed : 0)}), ` +
+        `double skunks: ${report.doubleSkunks} (${percent(completed ? report.doubleSkunks / completed : 0)})`
+    );
+  }
+  lines.push(`average actions per game: ${report.averageActions.toFixed(1)}`);
+  lines.push(`failures: ${report.failed}`);
+  for (const f of report.failures) {
+    lines.push(`  game ${f.game} (seed ${f.seed}) ${f.kind}: ${f.message}`);
+  }
+  if (report.failed > report.failures.length) {
+    lines.push(`  … and ${report.failed - report.failures.length} more`);
+  }
+  return lines.join('\n');
+}
@@ -2,203 +2,174 @@
  * Cribbage Bot Decision Logic
  * 
  * Handles:
- * 1. Discarding cards to crib
- * 2. Playing pegging cards
+ * 1. Discarding cards to crib, by expected hand and crib over every cut
+ * 2. Playing pegging cards, looking ahead to the next player's reply
  * 3. Calling "go" when appropriate
+ * 4. Calling muggins on counts the other side missed
  */
 
 import type { CribbageCard, CribbageState, CribbagePlayerState } from './cribbageTypes';
-import { getCardPointValue, hasPlayableCard } from './cribbageScoring';
+import { evaluatePegging, getCardPointValue, hasPlayableCard } from './cribbageScoring';
 import { DISCARD_COUNT } from './cribbageTypes';
+import { createDeck, getCribbageCountScore, getCribbagePartner } from './cribbageGameLogic';
+import { getCribbageDiscardOptions } from './cribbageDiscardAnalysis';
 
 /**
- * Get the numeric rank value for sorting
+ * How well a bot plays, picked per bot by the host:
+ * - easy: keeps the best hand without a thought for the crib, and pegs whatever scores now
+ * - normal: weighs the crib into its discard, and steers clear of counts the next player can score off (5, 21, ...)
+ * - hard: also plays for the reply to their reply, leading into pairs and runs it can finish
  */
-function getRankValue(rank: string): number {
-  if (rank === 'A') return 1;
-  if (rank === 'J') return 11;
-  if (rank === 'Q') return 12;
-  if (rank === 'K') return 13;
-  return parseInt(rank, 10);
-}
+export type CribbageBotDifficulty = 'easy' | 'normal' | 'hard';
 
-/**
- * Score a potential hand (simplified heuristic)
- * Higher score = better hand to keep
- */
-function scoreHand(cards: CribbageCard[], cutCard: CribbageCard | null): number {
-  let score = 0;
-  
-  // Count 15s
-  const values = cards.map(c => getCardPointValue(c));
-  // Check all combinations for 15s (simplified - just pairs and triples)
-  for (let i = 0; i < values.length; i++) {
-    for (let j = i + 1; j < values.length; j++) {
-      if (values[i] + values[j] === 15) score += 2;
-      for (let k = j + 1; k < values.length; k++) {
-        if (values[i] + values[j] + values[k] === 15) score += 2;
-      }
-    }
-  }
-  
-  // Count pairs
-  const ranks = cards.map(c => c.rank);
-  for (let i = 0; i < ranks.length; i++) {
-    for (let j = i + 1; j < ranks.length; j++) {
-      if (ranks[i] === ranks[j]) score += 2;
-    }
-  }
-  
-  // Check for runs (simplified - 3-card runs)
-  const sortedRanks = cards.map(c => getRankValue(c.rank)).sort((a, b) => a - b);
-  for (let i = 0; i <= sortedRanks.length - 3; i++) {
-    if (sortedRanks[i + 1] === sortedRanks[i] + 1 && 
-        sortedRanks[i + 2] === sortedRanks[i] + 2) {
-      score += 3;
-    }
-  }
-  
-  // Check for flush (all same suit)
-  if (cards.length >= 4 && cards.every(c => c.suit === cards[0].suit)) {
-    score += cards.length;
-  }
-  
-  // Bonus for 5s (they make 15s easily)
-  score += cards.filter(c => getCardPointValue(c) === 5).length * 0.5;
-  
-  return score;
+export const CRIBBAGE_BOT_DIFFICULTIES: { value: CribbageBotDifficulty; label: string }[] = [
+  { value: 'easy', label: 'Easy' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'hard', label: 'Hard' },
+];
+
+export function toCribbageBotDifficulty(value: string | null | undefined): CribbageBotDifficulty {
+  return CRIBBAGE_BOT_DIFFICULTIES.some(d => d.value === value) ? (value as CribbageBotDifficulty) : 'normal';
 }
 
+// One card of each rank, standing in for an unseen card; pegging doesn't care about suits
+const RANK_CARDS = createDeck().filter(card => card.suit === 'clubs');
+
 /**
- * Determine which cards the bot should discard to crib
+ * Determine which cards the bot should discard to crib: the discard with the best average hand
+ * over every cut, plus or minus the average crib (see cribbageDiscardAnalysis)
  */
 export function getBotDiscardIndices(
   hand: CribbageCard[],
   playerCount: number,
-  isDealer: boolean
+  isMyCrib: boolean,
+  difficulty: CribbageBotDifficulty = 'normal'
 ): number[] {
   const discardCount = DISCARD_COUNT[playerCount] || 2;
-  
-  // Generate all possible discard combinations
-  const indices = hand.map((_, i) => i);
-  const combinations: number[][] = [];
-  
-  if (discardCount === 1) {
-    for (let i = 0; i < hand.length; i++) {
-      combinations.push([i]);
-    }
-  } else if (discardCount === 2) {
-    for (let i = 0; i < hand.length; i++) {
-      for (let j = i + 1; j < hand.length; j++) {
-        combinations.push([i, j]);
-      }
-    }
-  }
-  
-  // Score each combination (based on kept hand)
-  let bestDiscard = combinations[0];
-  let bestScore = -Infinity;
-  
-  for (const discardIndices of combinations) {
-    const keptCards = hand.filter((_, i) => !discardIndices.includes(i));
-    const discardedCards = discardIndices.map(i => hand[i]);
-    
-    let keepScore = scoreHand(keptCards, null);
-    
-    // If dealer, crib cards help us
-    // If not dealer, crib cards help opponent (so we prefer low-scoring discards)
-    let cribAdjust = scoreHand(discardedCards, null) * 0.5;
-    if (!isDealer) {
-      cribAdjust = -cribAdjust; // Penalize giving good cards to opponent's crib
-    }
-    
-    // Avoid giving 5s to opponent's crib (they easily make 15s)
-    if (!isDealer) {
-      const fiveCount = discardedCards.filter(c => getCardPointValue(c) === 5).length;
-      cribAdjust -= fiveCount * 2;
-    }
-    
-    const totalScore = keepScore + cribAdjust;
-    
-    if (totalScore > bestScore) {
-      bestScore = totalScore;
-      bestDiscard = discardIndices;
-    }
-  }
-  
-  return bestDiscard;
+  const [best] = getCribbageDiscardOptions(hand, discardCount, isMyCrib, difficulty !== 'easy');
+  return best.discard.map(card => hand.indexOf(card));
 }
 
 /**
- * Determine which card the bot should play during pegging
+ * Determine which card the bot should play during pegging. Every playable card is worth what it
+ * pegs now, less what the next player can expect to peg back off it (normal and up), plus what
+ * the bot can expect to peg off that reply in turn (hard, when the play comes straight back).
+ * The next player's hand is read as random cards from those the bot hasn't seen.
  */
 export function getBotPeggingCardIndex(
-  playerState: CribbagePlayerState,
-  currentCount: number,
-  playedCards: { playerId: string; card: CribbageCard }[]
+  state: CribbageState,
+  botId: string,
+  difficulty: CribbageBotDifficulty = 'normal'
 ): number | null {
-  const playableCards: { index: number; card: CribbageCard; score: number }[] = [];
-  
-  for (let i = 0; i < playerState.hand.length; i++) {
-    const card = playerState.hand[i];
-    const cardValue = getCardPointValue(card);
-    
-    if (currentCount + cardValue <= 31) {
-      // Calculate pegging potential
-      let score = 0;
-      const newCount = currentCount + cardValue;
-      
-      // 15 = 2 points
-      if (newCount === 15) score += 20;
-      
-      // 31 = 2 points
-      if (newCount === 31) score += 20;
-      
-      // Check for pairs with last played card
-      if (playedCards.length > 0) {
-        const lastCard = playedCards[playedCards.length - 1].card;
-        if (lastCard.rank === card.rank) {
-          score += 20; // Pair = 2 points
-          
-          // Check for three of a kind
-          if (playedCards.length > 1 && 
-              playedCards[playedCards.length - 2].card.rank === card.rank) {
-            score += 40; // Three of a kind = 6 points
-          }
-        }
-      }
-      
-      // Check for runs
-      if (playedCards.length >= 2) {
-        const recentRanks = playedCards.slice(-2).map(p => getRankValue(p.card.rank));
-        const myRank = getRankValue(card.rank);
-        const allRanks = [...recentRanks, myRank].sort((a, b) => a - b);
-        
-        if (allRanks[1] === allRanks[0] + 1 && allRanks[2] === allRanks[1] + 1) {
-          score += 30; // 3-card run = 3 points
+  const { hand } = state.playerStates[botId];
+  const { currentCount } = state.pegging;
+  const run = state.pegging.playedCards.slice(state.pegging.sequenceStartIndex);
+  const unseen = getUnseenRankCounts(state, botId);
+
+  // Whoever has cards left plays next; the count comes back to the bot if that's all of them
+  const order = state.turnOrder;
+  const seat = order.indexOf(botId);
+  const others = [...order.slice(seat + 1), ...order.slice(0, seat)].filter(id => state.playerStates[id].hand.length > 0);
+  const nextId = others[0] ?? null;
+  const comesBack = others.length === 1;
+
+  let bestIndex: number | null = null;
+  let bestValue = -Infinity;
+
+  hand.forEach((card, index) => {
+    if (currentCount + getCardPointValue(card) > 31) return;
+
+    const played = [...run, { playerId: botId, card }];
+    const count = currentCount + getCardPointValue(card);
+    let value = evaluatePegging(run, card, currentCount, false).total;
+
+    if (difficulty !== 'easy' && nextId && count < 31) {
+      const rest = hand.filter((_, i) => i !== index);
+      for (const { rank, chance, points } of getLikelyReplies(played, count, unseen, state.playerStates[nextId].hand.length)) {
+        value -= chance * points;
+        if (difficulty === 'hard' && comesBack) {
+          const reply = { playerId: nextId, card: RANK_CARDS.find(c => c.rank === rank)! };
+          const replyCount = count + getCardPointValue(reply.card);
+          const counter = Math.max(
+            0,
+            ...rest
+              .filter(c => replyCount + getCardPointValue(c) <= 31)
+              .map(c => evaluatePegging([...played, reply], c, replyCount, false).total)
+          );
+          value += chance * counter;
         }
       }
-      
-      // Prefer leaving count that's hard to make 15/31
-      // Avoid leaving count at 5 or 21 (easy to hit 15/31)
-      if (newCount === 5 || newCount === 21) {
-        score -= 5;
-      }
-      
-      // Prefer playing lower value cards first (save high cards)
-      score -= cardValue * 0.5;
-      
-      playableCards.push({ index: i, card, score });
+    }
+
+    // Otherwise hold the low cards back, for slipping in under 31 later
+    value -= getCardPointValue(card) / 100;
+
+    if (value > bestValue) {
+      bestValue = value;
+      bestIndex = index;
+    }
+  });
+
+  return bestIndex;
+}
+
+// Cards of each rank the bot can't account for: not in its hand or discard, not cut, not played
+function getUnseenRankCounts(state: CribbageState, botId: string): Map<string, number> {
+  const seen = [
+    ...state.playerStates[botId].hand,
+    ...state.playerStates[botId].discardedToCrib,
+    ...state.pegging.playedCards.map(p => p.card),
+    ...(state.cutCard ? [state.cutCard] : []),
+  ];
+  const counts = new Map<string, number>();
+  for (const card of createDeck()) {
+    if (!seen.some(s => s.rank === card.rank && s.suit === card.suit)) {
+      counts.set(card.rank, (counts.get(card.rank) ?? 0) + 1);
     }
   }
-  
-  if (playableCards.length === 0) {
-    return null; // Must call go
-  }
-  
-  // Sort by score descending and return best card
-  playableCards.sort((a, b) => b.score - a.score);
-  return playableCards[0].index;
+  return counts;
+}
+
+/**
+ * The next player's possible replies, and the chance each is the best one they hold. They play
+ * whatever pegs the most; with nothing to peg, any card they can play is as likely as any other.
+ */
+function getLikelyReplies(
+  played: { playerId: string; card: CribbageCard }[],
+  count: number,
+  unseen: Map<string, number>,
+  handSize: number
+): { rank: string; chance: number; points: number }[] {
+  const total = [...unseen.values()].reduce((sum, n) => sum + n, 0);
+  // Chance that a hand of handSize random unseen cards holds at least one of the rank
+  const holds = (copies: number) => {
+    let none = 1;
+    for (let i = 0; i < handSize && i < total; i++) none *= Math.max(0, total - copies - i) / (total - i);
+    return 1 - none;
+  };
+
+  const replies = RANK_CARDS.filter(card => (unseen.get(card.rank) ?? 0) > 0 && count + getCardPointValue(card) <= 31)
+    .map(card => ({
+      rank: card.rank,
+      copies: unseen.get(card.rank)!,
+      points: evaluatePegging(played, card, count, false).total,
+    }))
+    .sort((a, b) => b.points - a.points);
+
+  let unlikely = 1;
+  const scoring = replies
+    .filter(reply => reply.points > 0)
+    .map(reply => {
+      const chance = unlikely * holds(reply.copies);
+      unlikely -= chance;
+      return { rank: reply.rank, chance, points: reply.points };
+    });
+  const quiet = replies.filter(reply => reply.points === 0);
+  const quietCopies = quiet.reduce((sum, reply) => sum + reply.copies, 0);
+  return [
+    ...scoring,
+    ...quiet.map(reply => ({ rank: reply.rank, chance: (unlikely * reply.copies) / quietCopies, points: 0 })),
+  ];
 }
 
 /**
@@ -210,3 +181,19 @@ export function shouldBotCallGo(
 ): boolean {
   return !hasPlayableCard(playerState.hand, currentCount);
 }
+
+/**
+ * With muggins, the first declared count by the other side that the bot can see was miscounted,
+ * and by how much; null if there's nothing to call
+ */
+export function getBotMugginsClaim(state: CribbageState, botId: string): { index: number; missed: number } | null {
+  const partnerId = getCribbagePartner(state, botId);
+  const counts = state.counts ?? [];
+  for (let index = 0; index < counts.length; index++) {
+    const c = counts[index];
+    if (c.declared === null || c.claimedBy || c.playerId === botId || c.playerId === partnerId) continue;
+    const missed = getCribbageCountScore(state, c) - c.declared;
+    if (missed !== 0) return { index, missed };
+  }
+  return null;
+}
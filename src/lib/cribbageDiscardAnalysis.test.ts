@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeCribbageDiscards, parseCribbageCards } from './cribbageDiscardAnalysis';
+
+const names = (cards: { rank: string; suit: string }[]) => cards.map(c => c.rank + c.suit[0]).sort().join(' ');
+
+describe('Cribbage discard analysis', () => {
+  it('reads cards in letter or symbol suits', () => {
+    expect(names(parseCribbageCards('5h 10♣ js, AD'))).toBe('10c 5h Ad Js');
+    expect(parseCribbageCards('1X ZZ')).toEqual([]);
+  });
+
+  it('needs six different cards', () => {
+    expect(() => analyzeCribbageDiscards(parseCribbageCards('5H 5D 5C JS'), true)).toThrow('Enter exactly 6 cards');
+    expect(() => analyzeCribbageDiscards(parseCribbageCards('5H 5H 5C JS 2D 9C'), true)).toThrow(
+      'Each card can only be dealt once'
+    );
+  });
+
+  it('ranks all fifteen discards, each over all 46 cuts', () => {
+    const options = analyzeCribbageDiscards(parseCribbageCards('5H 5D 5C JS 2D 9C'), true);
+    expect(options).toHaveLength(15);
+    expect(options.every(o => o.cuts.length === 46)).toBe(true);
+
+    const best = options[0];
+    expect(names(best.keep)).toBe('5c 5d 5h Js');
+    expect(best.cuts[0]).toMatchObject({ cut: { rank: '5', suit: 'spades' }, score: { total: 29, nobs: 1 } });
+    expect(best.expectedNet).toBeCloseTo(best.expectedHand + best.expectedCrib);
+  });
+
+  it("counts the crib against you when it's the opponent's", () => {
+    const dealt = parseCribbageCards('5H 5D KC QS 2D 9C');
+    const mine = analyzeCribbageDiscards(dealt, true).find(o => names(o.discard) === '5d 5h')!;
+    const theirs = analyzeCribbageDiscards(dealt, false).find(o => names(o.discard) === '5d 5h')!;
+    expect(mine.expectedCrib).toBe(theirs.expectedCrib);
+    expect(mine.expectedCrib).toBeGreaterThan(8);
+    expect(theirs.expectedNet).toBeCloseTo(theirs.expectedHand - theirs.expectedCrib);
+  });
+});
@@ -0,0 +1,161 @@
+// Cribbage discard analysis: which two of six dealt cards to lay away (see /cribbage-analyzer)
+
+import type { CribbageCard, HandScore } from './cribbageTypes';
+import { createDeck } from './cribbageGameLogic';
+import { evaluateHand } from './cribbageScoring';
+
+export interface CribbageCutOutcome {
+  cut: CribbageCard;
+  score: HandScore;
+}
+
+export interface CribbageDiscardOption {
+  keep: CribbageCard[];
+  discard: CribbageCard[];
+  /** Average hand count over the 46 cuts */
+  expectedHand: number;
+  /** Average crib count, the other two crib cards and the cut drawn at random from the rest */
+  expectedCrib: number;
+  /** The hand plus the crib when it's yours, less it when it's the opponent's */
+  expectedNet: number;
+  /** Every cut, best first */
+  cuts: CribbageCutOutcome[];
+}
+
+const SUIT_LETTERS: Record<string, CribbageCard['suit']> = {
+  H: 'hearts', D: 'diamonds', C: 'clubs', S: 'spades',
+  '♥': 'hearts', '♦': 'diamonds', '♣': 'clubs', '♠': 'spades',
+};
+
+const RANKS = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
+
+const sameCard = (a: CribbageCard, b: CribbageCard) => a.rank === b.rank && a.suit === b.suit;
+
+// Adds up to a number unique to each mix of up to four cards per rank
+const rankWeight = (card: CribbageCard) => 5 ** RANKS.indexOf(card.rank);
+
+// Fifteens, pairs and runs of five cards by their rank weights; there are only 6,175 mixes of ranks
+const rankScores = new Map<number, number>();
+
+/**
+ * Read cards typed as "5H 5D JS 10C" or "5♥ 5♦ J♠ 10♣"; anything unrecognised is skipped
+ */
+export function parseCribbageCards(input: string): CribbageCard[] {
+  const deck = createDeck();
+  const cards: CribbageCard[] = [];
+  for (const token of input.trim().toUpperCase().split(/[\s,]+/)) {
+    const suit = SUIT_LETTERS[token.slice(-1)];
+    const rank = token.slice(0, -1) === 'T' ? '10' : token.slice(0, -1);
+    const card = suit && deck.find(c => c.rank === rank && c.suit === suit);
+    if (card) cards.push(card);
+  }
+  return cards;
+}
+
+/**
+ * Rank all 15 ways to lay two of six dealt cards away, for two-handed play. The crib's other
+ * two cards are taken as random, though a real opponent throws to suit their own crib.
+ */
+export function analyzeCribbageDiscards(dealt: CribbageCard[], isMyCrib: boolean): CribbageDiscardOption[] {
+  if (dealt.length !== 6) {
+    throw new Error('Enter exactly 6 cards');
+  }
+  if (dealt.some((card, i) => dealt.findIndex(other => sameCard(card, other)) !== i)) {
+    throw new Error('Each card can only be dealt once');
+  }
+  return getCribbageDiscardOptions(dealt, 2, isMyCrib);
+}
+
+/**
+ * Every way to lay discardCount of the dealt cards away, best first. Leaving the crib out
+ * (weighCrib false) ranks on the kept hand alone, and is a good deal quicker.
+ */
+export function getCribbageDiscardOptions(
+  dealt: CribbageCard[],
+  discardCount: number,
+  isMyCrib: boolean,
+  weighCrib = true
+): CribbageDiscardOption[] {
+  const rest = createDeck().filter(card => !dealt.some(d => sameCard(card, d)));
+  const options: CribbageDiscardOption[] = [];
+
+  const discardIndices = Array.from({ length: discardCount }, (_, i) => i);
+  do {
+    const discard = discardIndices.map(i => dealt[i]);
+    const keep = dealt.filter((_, k) => !discardIndices.includes(k));
+
+    const cuts = rest
+      .map(cut => ({ cut, score: evaluateHand(keep, cut, false) }))
+      .sort((a, b) => b.score.total - a.score.total);
+    const expectedHand = cuts.reduce((sum, c) => sum + c.score.total, 0) / cuts.length;
+    const expectedCrib = weighCrib ? getExpectedCrib(discard, rest) : 0;
+
+    options.push({
+      keep,
+      discard,
+      expectedHand,
+      expectedCrib,
+      expectedNet: isMyCrib ? expectedHand + expectedCrib : expectedHand - expectedCrib,
+      cuts,
+    });
+  } while (nextCombination(discardIndices, dealt.length));
+
+  return options.sort((a, b) => b.expectedNet - a.expectedNet);
+}
+
+// Steps an ascending set of indices into 0..n-1 on to the next one; false once they're used up
+function nextCombination(picks: number[], n: number): boolean {
+  let i = picks.length - 1;
+  while (i >= 0 && picks[i] === n - picks.length + i) i--;
+  if (i < 0) return false;
+  picks[i]++;
+  for (let j = i + 1; j < picks.length; j++) picks[j] = picks[j - 1] + 1;
+  return true;
+}
+
+/**
+ * Every set of the crib's other cards plus the cut is equally likely, and any of them equally
+ * likely to be the cut. Fifteens, pairs and runs only depend on the five ranks, so those are
+ * cached; the flush and nobs depend on which card was cut.
+ */
+function getExpectedCrib(discard: CribbageCard[], rest: CribbageCard[]): number {
+  const discardWeight = discard.reduce((sum, card) => sum + rankWeight(card), 0);
+  const weights = rest.map(rankWeight);
+  const drawCount = 5 - discard.length;
+  const canFlush = discard.every(card => card.suit === discard[0].suit);
+  let total = 0;
+  let draws = 0;
+
+  // Stepped through in place; there are up to 178,365 of them
+  const picks = Array.from({ length: drawCount }, (_, i) => i);
+  const five = [...discard, ...picks.map(i => rest[i])];
+  do {
+    let key = discardWeight;
+    for (let d = 0; d < drawCount; d++) {
+      five[discard.length + d] = rest[picks[d]];
+      key += weights[picks[d]];
+    }
+
+    let rankScore = rankScores.get(key);
+    if (rankScore === undefined) {
+      // Without a cut there's no flush or nobs in a crib, leaving the fifteens, pairs and runs
+      rankScore = evaluateHand(five, null, true).total;
+      rankScores.set(key, rankScore);
+    }
+
+    const flush = canFlush && five.every(card => card.suit === five[0].suit) ? 5 : 0;
+    // Each jack held with a cut of its suit, over the drawn cards that could be the cut
+    let nobs = 0;
+    for (let j = 0; j < 5; j++) {
+      if (five[j].rank !== 'J') continue;
+      for (let d = discard.length; d < 5; d++) {
+        if (d !== j && five[d].suit === five[j].suit) nobs++;
+      }
+    }
+
+    total += rankScore + flush + nobs / drawCount;
+    draws++;
+  } while (nextCombination(picks, rest.length));
+
+  return total / draws;
+}
@@ -15,7 +15,9 @@ export type CribbageEventType =
   | 'crib_reveal'
   | 'his_heels'
   | 'go'
-  | 'cut_card';
+  | 'cut_card'
+  | 'count_declared'
+  | 'muggins';
 
 export interface LogCribbageEventParams {
   roundId: string;
@@ -318,3 +320,66 @@ export function logCribScoringCombo(
     sequenceNumber,
   });
 }
+
+/**
+ * Log a muggins declaration: what the owner pegged for their hand or crib
+ */
+export function logCountDeclared(
+  roundId: string,
+  dealerGameId: string | null,
+  handNumber: number,
+  playerId: string,
+  kind: 'hand' | 'crib',
+  cards: CribbageCard[],
+  points: number,
+  scoresAfter: Record<string, number>,
+  sequenceNumber?: number
+): void {
+  logCribbageEvent({
+    roundId,
+    dealerGameId,
+    handNumber,
+    playerId,
+    eventType: 'count_declared',
+    eventSubtype: kind,
+    cardPlayed: null,
+    cardsInvolved: cards,
+    cardsOnTable: null,
+    runningCount: null,
+    points,
+    scoresAfter,
+    sequenceNumber,
+  });
+}
+
+/**
+ * Log a settled muggins claim: the points pegged, to the claimer for a right call or to the
+ * owner for a wrong one (negative when an over-count is taken back)
+ */
+export function logMugginsClaim(
+  roundId: string,
+  dealerGameId: string | null,
+  handNumber: number,
+  playerId: string,
+  kind: 'hand' | 'crib',
+  cards: CribbageCard[],
+  points: number,
+  scoresAfter: Record<string, number>,
+  sequenceNumber?: number
+): void {
+  logCribbageEvent({
+    roundId,
+    dealerGameId,
+    handNumber,
+    playerId,
+    eventType: 'muggins',
+    eventSubtype: kind,
+    cardPlayed: null,
+    cardsInvolved: cards,
+    cardsOnTable: null,
+    runningCount: null,
+    points,
+    scoresAfter,
+    sequenceNumber,
+  });
+}
@@ -42,3 +42,18 @@ export function seqCribReveal(): number {
 export function seqCribScoring(comboIndex: number): number {
   return 20_000 + Math.max(0, comboIndex);
 }
+
+/**
+ * Muggins declaration sequence number.
+ * @param countIndex index into state.counts (counting order)
+ */
+export function seqCountDeclared(countIndex: number): number {
+  return 30_000 + Math.max(0, countIndex) * 10;
+}
+
+/**
+ * A muggins claim lands right after the declaration it corrects.
+ */
+export function seqMugginsClaim(countIndex: number): number {
+  return seqCountDeclared(countIndex) + 1;
+}
@@ -0,0 +1,227 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom } from '@rules/random.ts';
+import {
+  applyHandCountScores,
+  claimMuggins,
+  declareCribbageCount,
+  getCribbageCountScore,
+  getCribbageDeclarer,
+  getCribbagePartner,
+  getCribbageScore,
+  getCribbageSides,
+  getMugginsOutcome,
+  initializeCribbageGame,
+  MUGGINS_PENALTY,
+  startNewHand,
+} from './cribbageGameLogic';
+import { getBotDiscardIndices, getBotPeggingCardIndex, type CribbageBotDifficulty } from './cribbageBotLogic';
+import { parseCribbageCards } from './cribbageDiscardAnalysis';
+import type { CribbageCountDeclaration, CribbageState, HandScore } from './cribbageTypes';
+
+const PLAYERS = ['a', 'b', 'c', 'd'];
+
+const handScore = (total: number): HandScore => ({ fifteens: total, pairs: 0, runs: 0, flush: 0, nobs: 0, total });
+
+// 'd' deals, so 'a' counts first; 'a' and 'c' partner against 'b' and 'd'
+function partnershipGame(scores: Record<string, number>): CribbageState {
+  const state = initializeCribbageGame(PLAYERS, 'd', 1, { partnerships: true }, createSeededRandom('cribbage'));
+  const playerStates = { ...state.playerStates };
+  for (const [id, pegScore] of Object.entries(scores)) {
+    playerStates[id] = { ...playerStates[id], pegScore };
+  }
+  return { ...state, playerStates };
+}
+
+// The state after pegging, with each player's hand (and the dealer's crib) waiting to be counted
+function counted(state: CribbageState, hands: Record<string, number>, crib = 0): CribbageState {
+  return {
+    ...state,
+    phase: 'counting',
+    lastHandCount: {
+      countedAt: new Date().toISOString(),
+      playerHandScores: Object.fromEntries(PLAYERS.map(id => [id, handScore(hands[id] ?? 0)])),
+      dealerHandScore: handScore(hands[state.dealerPlayerId] ?? 0),
+      cribScore: handScore(crib),
+    },
+  };
+}
+
+describe('Cribbage partnerships', () => {
+  it('only pairs players off with four at the table', () => {
+    expect(partnershipGame({}).partnerships).toBe(true);
+    const threeHanded = initializeCribbageGame(['a', 'b', 'c'], 'c', 1, { partnerships: true });
+    expect(threeHanded.partnerships).toBe(false);
+    expect(getCribbagePartner(threeHanded, 'a')).toBeNull();
+  });
+
+  it('partners players sitting opposite and adds their scores together', () => {
+    const state = partnershipGame({ a: 20, b: 5, c: 12, d: 9 });
+    expect(getCribbagePartner(state, 'a')).toBe('c');
+    expect(getCribbagePartner(state, 'd')).toBe('b');
+    expect(getCribbageSides(state)).toEqual([['a', 'c'], ['b', 'd']]);
+    expect(getCribbageScore(state, 'c')).toBe(32);
+    expect(getCribbageScore(state, 'b', { b: 40 })).toBe(49);
+  });
+
+  it("wins on the combined score and skunks on the losing side's", () => {
+    const state = applyHandCountScores(counted(partnershipGame({ a: 60, b: 30, c: 55, d: 40 }), { a: 4, c: 2, b: 8 }));
+    expect(state).toMatchObject({ phase: 'complete', winnerPlayerId: 'a', loserScore: 78, payoutMultiplier: 2 });
+  });
+
+  it('keeps scores apart and the partnerships on for the next hand', () => {
+    const state = applyHandCountScores(counted(partnershipGame({ a: 10, b: 10, c: 10, d: 10 }), { a: 4, d: 6 }, 3));
+    expect(state.phase).toBe('counting');
+    expect(getCribbageScore(state, 'a')).toBe(24);
+    expect(getCribbageScore(state, 'b')).toBe(29);
+
+    const next = startNewHand(state, PLAYERS, createSeededRandom('next'));
+    expect(next).toMatchObject({ partnerships: true, dealerPlayerId: 'a' });
+    expect(getCribbageScore(next, 'd')).toBe(29);
+  });
+});
+
+describe('Cribbage muggins', () => {
+  const owed = (playerId: string, kind: CribbageCountDeclaration['kind']): CribbageCountDeclaration => ({
+    playerId,
+    kind,
+    score: null,
+    declared: null,
+    claimedBy: null,
+    claimed: null,
+  });
+
+  // 'd' deals: 'a' to 'c' declare their hands in turn, then the dealer's hand and crib. With the
+  // 2 of clubs cut, the hands are worth 8, 4, 6 and 2, and the crib 5.
+  function mugginsCount(options: { partnerships?: boolean } = {}): CribbageState {
+    const state = initializeCribbageGame(PLAYERS, 'd', 1, { muggins: true, ...options }, createSeededRandom('muggins'));
+    const hands: Record<string, string> = { a: '5H TD JS 3C', b: '9H 6D KS KC', c: '7H 8D 4S 4C', d: 'TH 9S 6H AD' };
+    return {
+      ...state,
+      phase: 'counting',
+      cutCard: parseCribbageCards('2C')[0],
+      crib: parseCribbageCards('AH 3D 8S QH'),
+      pegging: {
+        ...state.pegging,
+        playedCards: PLAYERS.flatMap(id => parseCribbageCards(hands[id]).map(card => ({ playerId: id, card }))),
+      },
+      counts: [owed('a', 'hand'), owed('b', 'hand'), owed('c', 'hand'), owed('d', 'hand'), owed('d', 'crib')],
+    };
+  }
+
+  it('pegs whatever each owner declares, in counting order', () => {
+    let state = mugginsCount();
+    expect(getCribbageDeclarer(state)).toBe('a');
+    expect(() => declareCribbageCount(state, 'b', 4)).toThrow('Not your count');
+
+    state = declareCribbageCount(state, 'a', 6);
+    state = declareCribbageCount(state, 'b', 12);
+    expect(state.playerStates.a.pegScore).toBe(6);
+    expect(state.playerStates.b.pegScore).toBe(12);
+    expect(getCribbageDeclarer(state)).toBe('c');
+  });
+
+  it('keeps what each count is worth out of the state until a claim on it is settled', () => {
+    let state = mugginsCount();
+    state = declareCribbageCount(state, 'a', 6);
+    state = declareCribbageCount(state, 'b', 4);
+    expect(state.counts!.map(c => c.score)).toEqual([null, null, null, null, null]);
+    state = claimMuggins(state, 'c', 0, 2);
+    expect(state.counts!.map(c => c.score)).toEqual([8, null, null, null, null]);
+  });
+
+  it("lets an opponent claim the points missed, but not the owner's own side", () => {
+    let state = mugginsCount({ partnerships: true });
+    state = declareCribbageCount(state, 'a', 5);
+    state = declareCribbageCount(state, 'b', 4);
+
+    expect(() => claimMuggins(state, 'c', 0, 3)).toThrow("You can't claim your own side's count");
+    expect(() => claimMuggins(state, 'b', 2, 3)).toThrow('That count has not been declared');
+    expect(() => claimMuggins(state, 'd', 0, 0)).toThrow('Invalid claim');
+    expect(() => claimMuggins(state, 'd', 0, -6)).toThrow('Invalid claim');
+
+    state = claimMuggins(state, 'd', 0, 3);
+    expect(state.playerStates.d.pegScore).toBe(3);
+    expect(state.lastEvent).toMatchObject({ type: 'muggins', playerId: 'd', points: 3, label: 'Muggins' });
+    expect(() => claimMuggins(state, 'b', 0, 3)).toThrow('Already claimed');
+  });
+
+  it('pegs the penalty to the owner on a wrong call', () => {
+    let state = mugginsCount();
+    state = declareCribbageCount(state, 'a', 6);
+    state = claimMuggins(state, 'b', 0, 1);
+    expect(state.playerStates.a.pegScore).toBe(6 + MUGGINS_PENALTY);
+    expect(state.playerStates.b.pegScore).toBe(0);
+    expect(state.lastEvent).toMatchObject({ playerId: 'a', points: MUGGINS_PENALTY, label: 'Wrong muggins' });
+  });
+
+  it('takes an over-count back off the owner', () => {
+    let state = mugginsCount();
+    state = declareCribbageCount(state, 'a', 12);
+    state = claimMuggins(state, 'c', 0, -4);
+    expect(state.playerStates.a.pegScore).toBe(8);
+    expect(getMugginsOutcome(state.counts![0])).toEqual({ playerId: 'a', points: -4, right: true });
+  });
+
+  it('ends the game on a declaration that reaches the target', () => {
+    const start = mugginsCount();
+    const state = { ...start, playerStates: { ...start.playerStates, a: { ...start.playerStates.a, pegScore: 115 } } };
+    expect(declareCribbageCount(state, 'a', 8)).toMatchObject({ phase: 'complete', winnerPlayerId: 'a' });
+  });
+
+  it('does not peg the counts a second time once the hand is over', () => {
+    let state = mugginsCount();
+    for (const id of ['a', 'b', 'c', 'd', 'd']) {
+      state = declareCribbageCount(state, id, getCribbageCountScore(state, state.counts!.find(c => c.declared === null)!));
+    }
+    const after = applyHandCountScores(state);
+    expect(after).toMatchObject({ lastHandCount: null, counts: null });
+    expect(after.playerStates.d.pegScore).toBe(7);
+  });
+});
+
+describe('Cribbage bots', () => {
+  const DIFFICULTIES: CribbageBotDifficulty[] = ['easy', 'normal', 'hard'];
+  const ranks = (cards: { rank: string }[]) => cards.map(c => c.rank).join(' ');
+
+  // 'a' to play on `count`, against 'b' holding four unknown cards
+  function pegging(hand: string, count: number, run = ''): CribbageState {
+    const state = initializeCribbageGame(['a', 'b'], 'b', 1, {}, createSeededRandom('pegging'));
+    return {
+      ...state,
+      phase: 'pegging',
+      cutCard: parseCribbageCards('2C')[0],
+      playerStates: {
+        a: { ...state.playerStates.a, hand: parseCribbageCards(hand) },
+        b: { ...state.playerStates.b, hand: state.playerStates.b.hand.slice(0, 4) },
+      },
+      pegging: {
+        ...state.pegging,
+        playedCards: parseCribbageCards(run).map(card => ({ playerId: 'b', card })),
+        currentCount: count,
+        currentTurnPlayerId: 'a',
+      },
+    };
+  }
+
+  const plays = (state: CribbageState) =>
+    DIFFICULTIES.map(difficulty => state.playerStates.a.hand[getBotPeggingCardIndex(state, 'a', difficulty)!].rank);
+
+  it("keeps off the opponent's crib unless playing easy", () => {
+    const hand = parseCribbageCards('2H 3D 7C 8S JD QC');
+    const discards = (isMyCrib: boolean, difficulty: CribbageBotDifficulty) =>
+      ranks(getBotDiscardIndices(hand, 2, isMyCrib, difficulty).map(i => hand[i]));
+    expect(discards(true, 'normal')).toBe('7 8');
+    expect(discards(false, 'easy')).toBe('7 8');
+    expect(discards(false, 'normal')).toBe('8 Q');
+    expect(getBotDiscardIndices(hand.slice(0, 5), 3, false)).toHaveLength(1);
+  });
+
+  it('stays off counts of 5 and 21 unless playing easy', () => {
+    expect(plays(pegging('5H 9S KD QC', 0))).toEqual(['5', 'K', 'K']);
+    expect(plays(pegging('5H 8S', 16, 'KC 6D'))).toEqual(['5', '8', '8']);
+  });
+
+  it('leads into a run it can finish when playing hard', () => {
+    expect(plays(pegging('6H 7S 8D KC', 0))).toEqual(['6', '7', '8']);
+  });
+});
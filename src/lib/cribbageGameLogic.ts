@@ -3,6 +3,7 @@
 import type { 
   CribbageState, 
   CribbageCard, 
+  CribbageCountDeclaration,
   CribbagePlayerState,
   CribbagePhase 
 } from './cribbageTypes';
@@ -16,6 +17,7 @@ import {
 import { evaluateHand, evaluatePegging, checkHisHeels, getCardPointValue, hasPlayableCard } from './cribbageScoring';
 import type { PeggingPoints } from './cribbageTypes';
 import { generateUUID } from '@/lib/uuid';
+import { shuffle, type RandomSource } from '@rules/random.ts';
 
 /**
  * Create a standard 52-card deck
@@ -41,13 +43,8 @@ export function createDeck(): CribbageCard[] {
 /**
  * Shuffle a deck using Fisher-Yates algorithm
  */
-export function shuffleDeck(deck: CribbageCard[]): CribbageCard[] {
-  const shuffled = [...deck];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
+export function shuffleDeck(deck: CribbageCard[], random?: RandomSource): CribbageCard[] {
+  return shuffle(deck, random);
 }
 
 /**
@@ -59,6 +56,17 @@ export interface CribbageGameConfig {
   skunkThreshold?: number;
   doubleSkunkEnabled?: boolean;
   doubleSkunkThreshold?: number;
+  /** Partners opposite each other, playing to a combined score; only taken up with 4 players */
+  partnerships?: boolean;
+  /** Owners declare their own counts, and opponents may claim the points they miss */
+  muggins?: boolean;
+}
+
+/**
+ * Cards a freshly dealt hand took off the top of the deck
+ */
+export function getCribbageCardsDealt(state: CribbageState): number {
+  return Object.values(state.playerStates).reduce((n, ps) => n + ps.hand.length + ps.discardedToCrib.length, 0);
 }
 
 /**
@@ -68,13 +76,14 @@ export function initializeCribbageGame(
   playerIds: string[],
   dealerPlayerId: string,
   anteAmount: number,
-  config?: CribbageGameConfig
+  config?: CribbageGameConfig,
+  random?: RandomSource
 ): CribbageState {
   const playerCount = playerIds.length;
   const cardsPerPlayer = CARDS_PER_PLAYER[playerCount] || 6;
   
   // Create and shuffle deck
-  const deck = shuffleDeck(createDeck());
+  const deck = shuffleDeck(createDeck(), random);
   
   // Deal cards
   const playerStates: Record<string, CribbagePlayerState> = {};
@@ -124,6 +133,9 @@ export function initializeCribbageGame(
     skunkThreshold: config?.skunkThreshold ?? SKUNK_THRESHOLD,
     doubleSkunkEnabled: config?.doubleSkunkEnabled ?? true,
     doubleSkunkThreshold: config?.doubleSkunkThreshold ?? DOUBLE_SKUNK_THRESHOLD,
+    partnerships: (config?.partnerships ?? false) && playerCount === 4,
+    muggins: config?.muggins ?? false,
+    counts: null,
     lastEvent: null,
     lastHandCount: null,
     winnerPlayerId: null,
@@ -132,6 +144,38 @@ export function initializeCribbageGame(
   };
 }
 
+/**
+ * A player's partner, sitting opposite them, in a partnership game; null otherwise
+ */
+export function getCribbagePartner(state: CribbageState, playerId: string): string | null {
+  if (!state.partnerships) return null;
+  const index = state.turnOrder.indexOf(playerId);
+  return index === -1 ? null : state.turnOrder[(index + 2) % state.turnOrder.length];
+}
+
+/**
+ * The score a player is racing to pointsToWin with: their own pegScore, plus their partner's
+ * in a partnership game. `scores` stands in for the pegScores (e.g. mid-count in the UI).
+ */
+export function getCribbageScore(
+  state: CribbageState,
+  playerId: string,
+  scores?: Record<string, number>
+): number {
+  const scoreOf = (id: string) => scores?.[id] ?? state.playerStates[id]?.pegScore ?? 0;
+  const partnerId = getCribbagePartner(state, playerId);
+  return scoreOf(playerId) + (partnerId ? scoreOf(partnerId) : 0);
+}
+
+/**
+ * The sides in seat order: the two partnerships, or every player on their own
+ */
+export function getCribbageSides(state: CribbageState): string[][] {
+  const seats = Object.keys(state.playerStates);
+  if (!state.partnerships) return seats.map(id => [id]);
+  return [[seats[0], seats[2]], [seats[1], seats[3]]];
+}
+
 function describePeggingPoints(points: PeggingPoints): string {
   const parts: string[] = [];
   if (points.thirtyOne) parts.push('31');
@@ -201,12 +245,25 @@ function beginNewPeggingRun(state: CribbageState, lastToPlayId: string | null):
 }
 
 /**
- * Process a player's discard to crib
+ * Whether this player's discard is the last one the crib is waiting on (it turns the cut)
+ */
+export function isCribbageLastDiscard(state: CribbageState, playerId: string): boolean {
+  return state.phase === 'discarding' && Object.values(state.playerStates).every(
+    ps => ps.playerId === playerId || ps.discardedToCrib.length > 0
+  );
+}
+
+/**
+ * Process a player's discard to crib.
+ * When `deckOrder` (the hand's shuffled deck) is given, the cut is the first
+ * undealt card of it; otherwise an undealt card picked with `random`.
  */
 export function discardToCrib(
   state: CribbageState,
   playerId: string,
-  cardIndices: number[]
+  cardIndices: number[],
+  deckOrder?: CribbageCard[],
+  random: RandomSource = Math.random
 ): CribbageState {
   if (state.phase !== 'discarding') {
     throw new Error('Not in discarding phase');
@@ -245,7 +302,7 @@ export function discardToCrib(
   );
   
   if (allDiscarded) {
-    return advanceToCutting(newState);
+    return advanceToCutting(newState, deckOrder, random);
   }
   
   return newState;
@@ -254,7 +311,7 @@ export function discardToCrib(
 /**
  * Advance to cutting phase and reveal cut card
  */
-function advanceToCutting(state: CribbageState): CribbageState {
+function advanceToCutting(state: CribbageState, deckOrder: CribbageCard[] | undefined, random: RandomSource): CribbageState {
   // Get a card that hasn't been dealt
   const usedCards = new Set<string>();
   for (const ps of Object.values(state.playerStates)) {
@@ -263,10 +320,10 @@ function advanceToCutting(state: CribbageState): CribbageState {
     }
   }
   
-  const deck = createDeck().filter(
+  const deck = (deckOrder ?? createDeck()).filter(
     c => !usedCards.has(`${c.rank}-${c.suit}`)
   );
-  const cutCard = deck[Math.floor(Math.random() * deck.length)];
+  const cutCard = deckOrder ? deck[0] : deck[Math.floor(random() * deck.length)];
   
   let newState: CribbageState = {
     ...state,
@@ -299,7 +356,7 @@ function advanceToCutting(state: CribbageState): CribbageState {
     };
     
     // Check for win
-    if (newScore >= newState.pointsToWin) {
+    if (getCribbageScore(newState, newState.dealerPlayerId) >= newState.pointsToWin) {
       return endGame(newState, newState.dealerPlayerId);
     }
   }
@@ -419,7 +476,7 @@ export function playPeggingCard(
   };
   
   // Check for win
-  if (newScore >= newState.pointsToWin) {
+  if (getCribbageScore(newState, playerId) >= newState.pointsToWin) {
     return endGame(newState, playerId);
   }
   
@@ -500,7 +557,7 @@ export function callGo(state: CribbageState, playerId: string): CribbageState {
     };
     
     // Check for win
-    if (newScore >= newState.pointsToWin) {
+    if (getCribbageScore(newState, state.pegging.lastToPlay) >= newState.pointsToWin) {
       return endGame(newState, state.pegging.lastToPlay);
     }
 
@@ -625,12 +682,25 @@ function advanceToCounting(state: CribbageState): CribbageState {
     winnerPlayerId: null,
     loserScore: null,
     payoutMultiplier: 1,
-    lastHandCount: {
-      countedAt: new Date().toISOString(),
-      playerHandScores,
-      dealerHandScore,
-      cribScore,
-    },
+    // With muggins the totals stay out of the shared state: nothing is pegged until each owner
+    // declares their count, and each true count is only filled in as it's declared
+    lastHandCount: state.muggins
+      ? null
+      : {
+          countedAt: new Date().toISOString(),
+          playerHandScores,
+          dealerHandScore,
+          cribScore,
+        },
+    counts: state.muggins
+      ? [
+          ...state.turnOrder
+            .filter(id => id !== state.dealerPlayerId)
+            .map(id => countDeclaration(id, 'hand')),
+          countDeclaration(state.dealerPlayerId, 'hand'),
+          countDeclaration(state.dealerPlayerId, 'crib'),
+        ]
+      : null,
     // IMPORTANT: Preserve lastEvent if it's a pegging_points or go_point event so the UI
     // chat injection effect can announce it (e.g., "Last +1") before counting animation starts.
     // Previously this was overwritten with a hand_count marker which swallowed the announcement.
@@ -648,6 +718,132 @@ function advanceToCounting(state: CribbageState): CribbageState {
   };
 }
 
+function countDeclaration(playerId: string, kind: CribbageCountDeclaration['kind']): CribbageCountDeclaration {
+  return { playerId, kind, score: null, declared: null, claimedBy: null, claimed: null };
+}
+
+/**
+ * Whether the hand has reached counting: the stored totals, or with muggins the counts being
+ * declared. Tells a counting win apart from a pegging win once the phase is complete.
+ */
+export function isCribbageHandCounted(state: CribbageState): boolean {
+  return Boolean(state.lastHandCount || state.counts);
+}
+
+/**
+ * With muggins, the player whose hand (or crib) is next to be declared; null once all are in
+ */
+export function getCribbageDeclarer(state: CribbageState): string | null {
+  return state.counts?.find(c => c.declared === null)?.playerId ?? null;
+}
+
+/**
+ * The cards behind a muggins count: the crib, or the hand the player pegged with
+ */
+export function getCribbageCountCards(state: CribbageState, entry: CribbageCountDeclaration): CribbageCard[] {
+  if (entry.kind === 'crib') return state.crib;
+  return state.pegging.playedCards.filter(pc => pc.playerId === entry.playerId).map(pc => pc.card);
+}
+
+/**
+ * What a muggins count's cards are actually worth
+ */
+export function getCribbageCountScore(state: CribbageState, entry: CribbageCountDeclaration): number {
+  return evaluateHand(getCribbageCountCards(state, entry), state.cutCard, entry.kind === 'crib').total;
+}
+
+/**
+ * With muggins, peg the declared count for the next hand or crib. Any count is taken as
+ * declared: it's only checked against the cards when someone calls muggins on it.
+ */
+export function declareCribbageCount(state: CribbageState, playerId: string, points: number): CribbageState {
+  if (state.phase !== 'counting' || !state.counts) {
+    throw new Error('Not counting with muggins');
+  }
+  const index = state.counts.findIndex(c => c.declared === null);
+  if (index === -1 || state.counts[index].playerId !== playerId) {
+    throw new Error('Not your count');
+  }
+  if (!Number.isInteger(points) || points < 0) {
+    throw new Error('Invalid count');
+  }
+
+  const counts = state.counts.map((c, i) => (i === index ? { ...c, declared: points } : c));
+  return pegCountedPoints({ ...state, counts }, playerId, points);
+}
+
+/** What the owner pegs when an opponent calls muggins wrongly */
+export const MUGGINS_PENALTY = 2;
+
+/**
+ * How a settled muggins claim was pegged: a right call pegs the missed points to the claimer
+ * (or takes an over-count back off the owner), a wrong one pegs MUGGINS_PENALTY to the owner
+ */
+export function getMugginsOutcome(entry: CribbageCountDeclaration): { playerId: string; points: number; right: boolean } | null {
+  if (!entry.claimedBy || entry.claimed === null || entry.score === null || entry.declared === null) return null;
+  const missed = entry.score - entry.declared;
+  if (entry.claimed !== missed) return { playerId: entry.playerId, points: MUGGINS_PENALTY, right: false };
+  return missed > 0
+    ? { playerId: entry.claimedBy, points: missed, right: true }
+    : { playerId: entry.playerId, points: missed, right: true };
+}
+
+/**
+ * Call muggins on a declared hand or crib, naming the points its owner missed (negative if they
+ * counted too many). Settling the claim reveals what the cards are worth; see getMugginsOutcome
+ * for what's pegged.
+ */
+export function claimMuggins(state: CribbageState, claimerId: string, index: number, missed: number): CribbageState {
+  if (state.phase !== 'counting' || !state.counts) {
+    throw new Error('Not counting with muggins');
+  }
+  const entry = state.counts[index];
+  if (!entry || entry.declared === null) {
+    throw new Error('That count has not been declared');
+  }
+  if (claimerId === entry.playerId || claimerId === getCribbagePartner(state, entry.playerId)) {
+    throw new Error("You can't claim your own side's count");
+  }
+  if (!state.playerStates[claimerId]) {
+    throw new Error('Player not found');
+  }
+  if (entry.claimedBy) {
+    throw new Error('Already claimed');
+  }
+  if (!Number.isInteger(missed) || missed === 0 || entry.declared + missed < 0) {
+    throw new Error('Invalid claim');
+  }
+
+  const settled = { ...entry, claimedBy: claimerId, claimed: missed, score: getCribbageCountScore(state, entry) };
+  const outcome = getMugginsOutcome(settled)!;
+  const counts = state.counts.map((c, i) => (i === index ? settled : c));
+  return pegCountedPoints(
+    {
+      ...state,
+      counts,
+      lastEvent: {
+        id: generateUUID(),
+        type: 'muggins',
+        playerId: outcome.playerId,
+        points: outcome.points,
+        label: outcome.right ? 'Muggins' : 'Wrong muggins',
+        createdAt: new Date().toISOString(),
+      },
+    },
+    outcome.playerId,
+    outcome.points
+  );
+}
+
+function pegCountedPoints(state: CribbageState, playerId: string, points: number): CribbageState {
+  const ps = state.playerStates[playerId];
+  const next: CribbageState = {
+    ...state,
+    playerStates: { ...state.playerStates, [playerId]: { ...ps, pegScore: ps.pegScore + points } },
+  };
+  return getCribbageScore(next, playerId) >= state.pointsToWin ? endGame(next, playerId) : next;
+}
+
 /**
  * Apply the stored hand+crib counting totals onto pegScore.
  * Used AFTER the counting animation completes (no-win case).
@@ -658,6 +854,10 @@ function advanceToCounting(state: CribbageState): CribbageState {
  * threshold but a new hand is started instead of ending the game.
  */
 export function applyHandCountScores(state: CribbageState): CribbageState {
+  // With muggins, the declared counts (and any claims) were pegged as they were made
+  if (state.counts) {
+    return state.phase === 'complete' ? state : { ...state, lastHandCount: null, counts: null };
+  }
   if (!state.lastHandCount) return state;
 
   const dealerId = state.dealerPlayerId;
@@ -685,31 +885,9 @@ export function applyHandCountScores(state: CribbageState): CribbageState {
 
   // Check if anyone has reached the winning score after applying counting points.
   // This is critical to catch wins that occurred during the counting animation.
-  for (const [playerId, ps] of Object.entries(nextPlayerStates)) {
-    if (ps.pegScore >= state.pointsToWin) {
-      // Find loser with lowest score for skunk calculation
-      let lowestScore = state.pointsToWin;
-      for (const [otherId, otherPs] of Object.entries(nextPlayerStates)) {
-        if (otherId !== playerId && otherPs.pegScore < lowestScore) {
-          lowestScore = otherPs.pegScore;
-        }
-      }
-
-      // Calculate payout multiplier based on game config
-      let multiplier = 1;
-      if (state.doubleSkunkEnabled && lowestScore < state.doubleSkunkThreshold) {
-        multiplier = 3; // Double skunk
-      } else if (state.skunkEnabled && lowestScore < state.skunkThreshold) {
-        multiplier = 2; // Skunk
-      }
-
-       return {
-         ...baseUpdatedState,
-        phase: 'complete',
-        winnerPlayerId: playerId,
-        loserScore: lowestScore,
-        payoutMultiplier: multiplier,
-      };
+  for (const playerId of Object.keys(nextPlayerStates)) {
+    if (getCribbageScore(baseUpdatedState, playerId) >= state.pointsToWin) {
+      return endGame(baseUpdatedState, playerId);
     }
   }
 
@@ -725,12 +903,12 @@ export function applyHandCountScores(state: CribbageState): CribbageState {
  * End the game with a winner
  */
 function endGame(state: CribbageState, winnerPlayerId: string): CribbageState {
-  // Find loser with lowest score for skunk calculation
+  // Find loser with lowest score for skunk calculation (the other side's, with partnerships)
+  const partnerId = getCribbagePartner(state, winnerPlayerId);
   let lowestScore = state.pointsToWin;
   for (const ps of Object.values(state.playerStates)) {
-    if (ps.playerId !== winnerPlayerId && ps.pegScore < lowestScore) {
-      lowestScore = ps.pegScore;
-    }
+    if (ps.playerId === winnerPlayerId || ps.playerId === partnerId) continue;
+    lowestScore = Math.min(lowestScore, getCribbageScore(state, ps.playerId));
   }
   
   // Calculate payout multiplier based on game config
@@ -772,38 +950,21 @@ export function getPhaseDisplayName(phase: CribbagePhase): string {
  */
 export function startNewHand(
   state: CribbageState,
-  playerIds: string[]
+  playerIds: string[],
+  random?: RandomSource
 ): CribbageState {
   // SAFETY CHECK: If someone has already won, don't start a new hand.
   // This catches edge cases where the win wasn't properly detected earlier.
   for (const ps of Object.values(state.playerStates)) {
-    if (ps.pegScore >= state.pointsToWin) {
+    const score = getCribbageScore(state, ps.playerId);
+    if (score >= state.pointsToWin) {
       console.warn('[CRIBBAGE] startNewHand called but player has already won:', {
         playerId: ps.playerId,
-        score: ps.pegScore,
+        score,
         pointsToWin: state.pointsToWin,
       });
       // Return the state with winner set - caller should handle this
-      const winnerId = ps.playerId;
-      let lowestScore = state.pointsToWin;
-      for (const otherPs of Object.values(state.playerStates)) {
-        if (otherPs.playerId !== winnerId && otherPs.pegScore < lowestScore) {
-          lowestScore = otherPs.pegScore;
-        }
-      }
-      let multiplier = 1;
-      if (state.doubleSkunkEnabled && lowestScore < state.doubleSkunkThreshold) {
-        multiplier = 3;
-      } else if (state.skunkEnabled && lowestScore < state.skunkThreshold) {
-        multiplier = 2;
-      }
-      return {
-        ...state,
-        phase: 'complete',
-        winnerPlayerId: winnerId,
-        loserScore: lowestScore,
-        payoutMultiplier: multiplier,
-      };
+      return endGame(state, ps.playerId);
     }
   }
 
@@ -829,7 +990,9 @@ export function startNewHand(
     skunkThreshold: state.skunkThreshold,
     doubleSkunkEnabled: state.doubleSkunkEnabled,
     doubleSkunkThreshold: state.doubleSkunkThreshold,
-  });
+    partnerships: state.partnerships,
+    muggins: state.muggins,
+  }, random);
   
   // Restore peg scores
   for (const [playerId, score] of Object.entries(currentScores)) {
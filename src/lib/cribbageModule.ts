@@ -0,0 +1,129 @@
+// Cribbage as a game module (see gameModule.ts)
+
+import type { GameRules } from './gameModule';
+import type { CribbageCard, CribbageState } from './cribbageTypes';
+import {
+  CRIBBAGE_WINNING_SCORE,
+  DOUBLE_SKUNK_THRESHOLD,
+  SKUNK_THRESHOLD,
+} from './cribbageTypes';
+import {
+  applyHandCountScores,
+  callGo,
+  claimMuggins,
+  declareCribbageCount,
+  discardToCrib,
+  getCribbageCountScore,
+  getCribbageDeclarer,
+  getCribbagePartner,
+  initializeCribbageGame,
+  playPeggingCard,
+  type CribbageGameConfig,
+} from './cribbageGameLogic';
+import { getBotDiscardIndices, getBotMugginsClaim, getBotPeggingCardIndex, shouldBotCallGo } from './cribbageBotLogic';
+
+export type CribbageConfig = Required<CribbageGameConfig>;
+
+export type CribbageAction =
+  | { type: 'discard'; playerId: string; cardIndices: number[]; deckOrder?: CribbageCard[] }
+  | { type: 'play'; playerId: string; cardIndex: number }
+  | { type: 'go'; playerId: string }
+  | { type: 'declare'; playerId: string; points: number }
+  | { type: 'claim'; playerId: string; index: number; missed: number };
+
+/**
+ * Once pegging ends the hands are counted; nobody decides anything there. With muggins the
+ * owners declare their counts instead, and the points are pegged as they go.
+ */
+function settle(state: CribbageState): CribbageState {
+  return state.phase === 'counting' && !state.counts ? applyHandCountScores(state) : state;
+}
+
+export const cribbageModule: GameRules<CribbageState, CribbageAction, CribbageConfig> = {
+  id: 'cribbage',
+
+  config: {
+    defaults: {
+      pointsToWin: CRIBBAGE_WINNING_SCORE,
+      skunkEnabled: true,
+      skunkThreshold: SKUNK_THRESHOLD,
+      doubleSkunkEnabled: true,
+      doubleSkunkThreshold: DOUBLE_SKUNK_THRESHOLD,
+      partnerships: false,
+      muggins: false,
+    },
+    fromGame: game => ({
+      pointsToWin: game.points_to_win || CRIBBAGE_WINNING_SCORE,
+      skunkEnabled: game.skunk_enabled ?? true,
+      skunkThreshold: game.skunk_threshold || SKUNK_THRESHOLD,
+      doubleSkunkEnabled: game.double_skunk_enabled ?? true,
+      doubleSkunkThreshold: game.double_skunk_threshold || DOUBLE_SKUNK_THRESHOLD,
+      partnerships: game.cribbage_partnerships ?? false,
+      muggins: game.cribbage_muggins ?? false,
+    }),
+  },
+
+  createInitialState: ({ playerIds, dealerPlayerId, anteAmount, config }, random) => {
+    const state = initializeCribbageGame(playerIds, dealerPlayerId, anteAmount, config, random);
+    // Cribbage settles with direct transfers, not a pot
+    return { ...state, pot: 0 };
+  },
+
+  reduce: (state, action, random) => {
+    switch (action.type) {
+      case 'discard':
+        return settle(discardToCrib(state, action.playerId, action.cardIndices, action.deckOrder, random));
+      case 'play':
+        return settle(playPeggingCard(state, action.playerId, action.cardIndex));
+      case 'go':
+        return settle(callGo(state, action.playerId));
+      case 'declare':
+        return declareCribbageCount(state, action.playerId, action.points);
+      case 'claim':
+        return claimMuggins(state, action.playerId, action.index, action.missed);
+    }
+  },
+
+  getActivePlayerId: state => {
+    if (state.phase === 'discarding') {
+      return state.turnOrder.find(id => state.playerStates[id]?.discardedToCrib.length === 0) ?? null;
+    }
+    if (state.phase === 'pegging') return state.pegging.currentTurnPlayerId;
+    if (state.phase === 'counting') return getCribbageDeclarer(state);
+    return null;
+  },
+
+  // With muggins, claims stay open after the last count until the next deal
+  isHandOver: state =>
+    state.phase === 'complete' || (state.phase === 'counting' && getCribbageDeclarer(state) === null),
+
+  botAction: (state, playerId) => {
+    const playerState = state.playerStates[playerId];
+    if (!playerState) return null;
+
+    if (state.phase === 'discarding') {
+      if (playerState.discardedToCrib.length > 0) return null;
+      const isMyCrib = [playerId, getCribbagePartner(state, playerId)].includes(state.cribOwnerPlayerId);
+      const cardIndices = getBotDiscardIndices(playerState.hand, state.turnOrder.length, isMyCrib);
+      return { type: 'discard', playerId, cardIndices };
+    }
+
+    if (state.phase === 'pegging' && state.pegging.currentTurnPlayerId === playerId) {
+      if (shouldBotCallGo(playerState, state.pegging.currentCount)) {
+        return { type: 'go', playerId };
+      }
+      const cardIndex = getBotPeggingCardIndex(state, playerId);
+      return cardIndex === null ? { type: 'go', playerId } : { type: 'play', playerId, cardIndex };
+    }
+
+    if (state.phase === 'counting' && state.counts) {
+      // Bots count perfectly, and never let an opponent's miss go
+      const claim = getBotMugginsClaim(state, playerId);
+      if (claim) return { type: 'claim', playerId, ...claim };
+      const entry = state.counts.find(c => c.declared === null);
+      if (entry?.playerId === playerId) return { type: 'declare', playerId, points: getCribbageCountScore(state, entry) };
+    }
+
+    return null;
+  },
+};
@@ -1,15 +1,17 @@
 // Cribbage round orchestration - database integration layer
 
-import { supabase } from '@/integrations/supabase/client';
-import { initializeCribbageGame, startNewHand } from './cribbageGameLogic';
+import { fetchPlayerDisplayName, getGameRepository, isUniqueViolation } from './gameRepository';
+import { getCribbageCardsDealt, getCribbagePartner, getCribbageScore, startNewHand } from './cribbageGameLogic';
+import { cribbageModule } from './cribbageModule';
 import { snapshotPlayerChips } from './gameLogic';
-import { getBotAlias } from './botAlias';
+import { runWithFairDeck } from './handFairness';
+import { logDeal } from './handActionLog';
 import type { CribbageState } from './cribbageTypes';
 
 /**
  * Start a new Cribbage round/hand.
- * 
- * This creates a round record with cribbage_state initialized:
+ *
+ * This creates a round record with game_state initialized:
  * - Shuffles and deals cards to each player
  * - Sets up the discard phase
  * - Initializes peg scores and pot
@@ -19,14 +21,11 @@ export async function startCribbageRound(
   isFirstHand: boolean = true
 ): Promise<{ success: boolean; roundId?: string; handNumber?: number; error?: string }> {
   console.log('[CRIBBAGE] Starting cribbage round', { gameId, isFirstHand });
+  const repo = getGameRepository();
 
   try {
     // Fetch game data
-    const { data: game, error: gameError } = await supabase
-      .from('games')
-      .select('*, players(*)')
-      .eq('id', gameId)
-      .single();
+    const { data: game, error: gameError } = await repo.games.get(gameId);
 
     if (gameError || !game) {
       throw new Error(`Failed to fetch game: ${gameError?.message}`);
@@ -38,9 +37,15 @@ export async function startCribbageRound(
       return { success: false, error: 'Game already over' };
     }
 
+    const { data: players, error: playersError } = await repo.players.listByGame(gameId);
+
+    if (playersError) {
+      throw new Error(`Failed to fetch players: ${playersError.message}`);
+    }
+
     // Get active players (not sitting out)
-    const activePlayers = (game.players || []).filter(
-      (p: any) => !p.sitting_out && p.status === 'active'
+    const activePlayers = (players || []).filter(
+      p => !p.sitting_out && p.status === 'active'
     );
 
     if (activePlayers.length < 2) {
@@ -53,40 +58,20 @@ export async function startCribbageRound(
 
     // Determine dealer
     const dealerPosition = game.dealer_position || 1;
-    const dealerPlayer = activePlayers.find((p: any) => p.position === dealerPosition) 
+    const dealerPlayer = activePlayers.find(p => p.position === dealerPosition)
       || activePlayers[0];
-    
+
     if (!dealerPlayer) {
       throw new Error('Could not determine dealer');
     }
 
     // Sort players by position for consistent turn order
-    const sortedPlayers = [...activePlayers].sort((a: any, b: any) => a.position - b.position);
-    const playerIds = sortedPlayers.map((p: any) => p.id);
+    const sortedPlayers = [...activePlayers].sort((a, b) => a.position - b.position);
+    const playerIds = sortedPlayers.map(p => p.id);
 
     // Get ante amount (used only for payout calculation, not pot collection)
     const anteAmount = game.ante_amount || 1;
 
-    // IMPORTANT: First hand should run the "choose first dealer" high-card animation
-    // on the client *before* we deal cards / initialize cribbage_state.
-    // So for isFirstHand, we intentionally leave cribbage_state null here.
-    const shouldDeferInitializationToClient = isFirstHand;
-
-    const cribbageState = shouldDeferInitializationToClient
-      ? null
-      : (() => {
-          const s = initializeCribbageGame(playerIds, dealerPlayer.id, anteAmount, {
-            pointsToWin: game.points_to_win ?? 121,
-            skunkEnabled: game.skunk_enabled ?? true,
-            skunkThreshold: game.skunk_threshold ?? 91,
-            doubleSkunkEnabled: game.double_skunk_enabled ?? true,
-            doubleSkunkThreshold: game.double_skunk_threshold ?? 61,
-          });
-          // Override pot to 0 - cribbage uses direct transfers, not pot
-          s.pot = 0;
-          return s;
-        })();
-
     // Get current dealer_game_id
     const dealerGameId = game.current_game_uuid;
     if (!dealerGameId) {
@@ -94,68 +79,67 @@ export async function startCribbageRound(
     }
 
     // Calculate hand number
-    const { data: existingRounds } = await supabase
-      .from('rounds')
-      .select('hand_number')
-      .eq('dealer_game_id', dealerGameId)
-      .order('hand_number', { ascending: false })
-      .limit(1);
-
-    const handNumber = existingRounds && existingRounds.length > 0
-      ? (existingRounds[0].hand_number || 0) + 1
-      : 1;
-
-    // Create round record (cribbage_state may be null for first hand)
-    const { data: round, error: roundError } = await supabase
-      .from('rounds')
-      .insert({
-        game_id: gameId,
-        dealer_game_id: dealerGameId,
-        round_number: 1, // Cribbage uses single round per hand
-        hand_number: handNumber,
-        cards_dealt: cribbageState ? 6 : 0,
-        pot: cribbageState ? cribbageState.pot : 0,
-        status: 'betting', // Using 'betting' for active play
-        cribbage_state: cribbageState as any,
-      })
-      .select()
-      .single();
+    const { data: latestHandNumber } = await repo.rounds.getLatestHandNumber(dealerGameId);
+    const handNumber = (latestHandNumber ?? 0) + 1;
+
+    // IMPORTANT: First hand should run the "choose first dealer" high-card animation
+    // on the client *before* we deal cards / initialize game_state.
+    // So for isFirstHand, we intentionally leave game_state null here.
+    const shouldDeferInitializationToClient = isFirstHand;
+
+    const cribbageState = shouldDeferInitializationToClient
+      ? null
+      : await runWithFairDeck(
+          gameId,
+          52,
+          random => cribbageModule.createInitialState({
+            playerIds,
+            dealerPlayerId: dealerPlayer.id,
+            anteAmount,
+            config: cribbageModule.config.fromGame(game),
+          }, random),
+          getCribbageCardsDealt
+        );
+
+    // Create round record (game_state may be null for first hand)
+    const { data: round, error: roundError } = await repo.rounds.insert({
+      game_id: gameId,
+      dealer_game_id: dealerGameId,
+      round_number: 1, // Cribbage uses single round per hand
+      hand_number: handNumber,
+      cards_dealt: cribbageState ? 6 : 0,
+      pot: cribbageState ? cribbageState.pot : 0,
+      status: 'betting', // Using 'betting' for active play
+      game_state: cribbageState as any,
+    });
 
     if (roundError || !round) {
       throw new Error(`Failed to create round: ${roundError?.message}`);
     }
 
     // Update game status
-    await supabase
-      .from('games')
-      .update({
-        status: 'in_progress',
-        current_round: 1,
-        total_hands: handNumber,
-        pot: cribbageState ? cribbageState.pot : 0,
-        is_first_hand: isFirstHand,
-      })
-      .eq('id', gameId);
+    await repo.games.update(gameId, {
+      status: 'in_progress',
+      current_round: 1,
+      total_hands: handNumber,
+      pot: cribbageState ? cribbageState.pot : 0,
+      is_first_hand: isFirstHand,
+    });
 
     // Store player cards in player_cards table for each player (only after we actually deal)
     if (cribbageState) {
+      void logDeal(round.id, { state: cribbageState });
+
       for (const playerId of playerIds) {
         const playerState = cribbageState.playerStates[playerId];
         if (playerState) {
           try {
-            // Use upsert with the unique constraint on (player_id, round_id)
-            const { error } = await supabase
-              .from('player_cards')
-              .upsert(
-                {
-                  player_id: playerId,
-                  round_id: round.id,
-                  cards: playerState.hand as any,
-                },
-                {
-                  onConflict: 'player_id,round_id',
-                }
-              );
+            // Upsert on the unique constraint (player_id, round_id)
+            const { error } = await repo.playerCards.upsert({
+              player_id: playerId,
+              round_id: round.id,
+              cards: playerState.hand as any,
+            });
             if (error) {
               console.warn('[CRIBBAGE] Failed to store player cards:', playerId, error.message);
             }
@@ -183,7 +167,7 @@ export async function startCribbageRound(
 
 /**
  * Start a new cribbage hand after counting phase completes.
- * 
+ *
  * CRITICAL: This creates a NEW round record with incremented hand_number.
  * This ensures event logging is properly scoped to (dealer_game_id, hand_number).
  */
@@ -194,58 +178,61 @@ export async function startNextCribbageHand(
   playerIds: string[]
 ): Promise<{ success: boolean; roundId?: string; handNumber?: number; newState?: CribbageState; error?: string; alreadyStarted?: boolean }> {
   console.log('[CRIBBAGE] Starting next hand', { gameId, dealerGameId });
+  const repo = getGameRepository();
 
   try {
+    // Get the next hand number
+    const { data: latestHandNumber } = await repo.rounds.getLatestHandNumber(dealerGameId);
+    const handNumber = (latestHandNumber ?? 0) + 1;
+
+    // A game that's already won isn't dealt again (startNewHand reports the winner). Otherwise
+    // close the counted hand's round first: real-money deals come from the game's open hand,
+    // and only move on to the next one once every round of it is completed.
+    const gameWon = Object.keys(previousState.playerStates).some(id => getCribbageScore(previousState, id) >= previousState.pointsToWin);
+    if (!gameWon && latestHandNumber) {
+      const { data: previousRound } = await repo.rounds.findByHand(dealerGameId, latestHandNumber, 1);
+      if (previousRound) {
+        await repo.rounds.update(previousRound.id, { status: 'completed' }, { neq: { status: 'completed' } });
+      }
+    }
+
     // Calculate the new state with rotated dealer and preserved scores
-    const newState = startNewHand(previousState, playerIds);
-    
+    // (real-money hands shuffle from the hand's committed seed)
+    const newState = gameWon
+      ? startNewHand(previousState, playerIds)
+      : await runWithFairDeck(gameId, 52, random => startNewHand(previousState, playerIds, random), getCribbageCardsDealt);
+
     // Check if the new state indicates a winner (safety check from startNewHand)
     if (newState.phase === 'complete' && newState.winnerPlayerId) {
       console.log('[CRIBBAGE] startNextCribbageHand detected winner from startNewHand', {
         winnerId: newState.winnerPlayerId,
       });
-      return { 
-        success: true, 
-        newState, 
-        error: 'Winner detected - no new hand needed' 
+      return {
+        success: true,
+        newState,
+        error: 'Winner detected - no new hand needed'
       };
     }
 
-    // Get the next hand number
-    const { data: existingRounds } = await supabase
-      .from('rounds')
-      .select('hand_number')
-      .eq('dealer_game_id', dealerGameId)
-      .order('hand_number', { ascending: false })
-      .limit(1);
-
-    const handNumber = existingRounds && existingRounds.length > 0
-      ? (existingRounds[0].hand_number || 0) + 1
-      : 1;
-
     console.log('[CRIBBAGE] Creating new round for hand', { handNumber, dealerGameId });
 
     // Create a NEW round record for this hand.
     // ATOMIC GUARD: The unique index (dealer_game_id, hand_number, round_number) ensures
     // only one client successfully inserts. Other clients will get a conflict error.
-    const { data: round, error: roundError } = await supabase
-      .from('rounds')
-      .insert({
-        game_id: gameId,
-        dealer_game_id: dealerGameId,
-        round_number: 1, // Cribbage uses single round per hand
-        hand_number: handNumber,
-        cards_dealt: 6,
-        pot: 0,
-        status: 'betting',
-        cribbage_state: newState as any,
-      })
-      .select()
-      .single();
+    const { data: round, error: roundError } = await repo.rounds.insert({
+      game_id: gameId,
+      dealer_game_id: dealerGameId,
+      round_number: 1, // Cribbage uses single round per hand
+      hand_number: handNumber,
+      cards_dealt: 6,
+      pot: 0,
+      status: 'betting',
+      game_state: newState as any,
+    });
 
     // Check for unique constraint violation (duplicate key) - another client already created the round
     if (roundError) {
-      if (roundError.code === '23505' || roundError.message?.includes('duplicate key')) {
+      if (isUniqueViolation(roundError)) {
         console.log('[CRIBBAGE] Round already exists for this hand (atomic guard), another client won the race');
         // Return success but indicate another client handled it
         return { success: true, alreadyStarted: true };
@@ -260,33 +247,25 @@ export async function startNextCribbageHand(
     // DB-First pattern: Use the RETURNED hand_number from insert, not the calculated value
     // This ensures games.total_hands is always in sync with actual round records
     const insertedHandNumber = round.hand_number ?? handNumber;
-    
+
     // Update game with authoritative hand number from the insert response
-    await supabase
-      .from('games')
-      .update({
-        total_hands: insertedHandNumber,
-        is_first_hand: false,
-      })
-      .eq('id', gameId);
+    await repo.games.update(gameId, {
+      total_hands: insertedHandNumber,
+      is_first_hand: false,
+    });
+
+    void logDeal(round.id, { state: newState });
 
     // Store player cards for the new hand
     for (const playerId of playerIds) {
       const playerState = newState.playerStates[playerId];
       if (playerState) {
         try {
-          const { error } = await supabase
-            .from('player_cards')
-            .upsert(
-              {
-                player_id: playerId,
-                round_id: round.id,
-                cards: playerState.hand as any,
-              },
-              {
-                onConflict: 'player_id,round_id',
-              }
-            );
+          const { error } = await repo.playerCards.upsert({
+            player_id: playerId,
+            round_id: round.id,
+            cards: playerState.hand as any,
+          });
           if (error) {
             console.warn('[CRIBBAGE] Failed to store player cards (next hand):', playerId, error.message);
           }
@@ -302,11 +281,11 @@ export async function startNextCribbageHand(
       newDealerId: newState.dealerPlayerId,
     });
 
-    return { 
-      success: true, 
-      roundId: round.id, 
-      handNumber: insertedHandNumber, 
-      newState 
+    return {
+      success: true,
+      roundId: round.id,
+      handNumber: insertedHandNumber,
+      newState
     };
 
   } catch (error: any) {
@@ -323,13 +302,10 @@ export async function updateCribbageState(
   newState: CribbageState
 ): Promise<boolean> {
   try {
-    const { error } = await supabase
-      .from('rounds')
-      .update({
-        cribbage_state: newState as any,
-        pot: newState.pot,
-      })
-      .eq('id', roundId);
+    const { error } = await getGameRepository().rounds.update(roundId, {
+      game_state: newState as any,
+      pot: newState.pot,
+    });
 
     if (error) {
       console.error('[CRIBBAGE] Failed to update state:', error);
@@ -343,6 +319,22 @@ export async function updateCribbageState(
   }
 }
 
+/**
+ * "Alice wins Skunk! +$4", or "Alice & Carol win +$2 each" for a partnership
+ */
+async function describeCribbageWin(
+  gameId: string,
+  winnerIds: string[],
+  multiplier: number,
+  amountPerWinner: number
+): Promise<string> {
+  const names = await Promise.all(winnerIds.map(id => fetchPlayerDisplayName(gameId, id)));
+  const skunkType = multiplier === 3 ? 'Double-Skunk!' : multiplier === 2 ? 'Skunk!' : '';
+  const verb = names.length > 1 ? 'win' : 'wins';
+  const each = names.length > 1 ? ' each' : '';
+  return `${names.join(' & ')} ${verb}${skunkType ? ' ' + skunkType : ''} +$${amountPerWinner}${each}`;
+}
+
 /**
  * End a cribbage game/hand and distribute winnings
  */
@@ -351,33 +343,38 @@ export async function endCribbageGame(
   roundId: string,
   cribbageState: CribbageState
 ): Promise<boolean> {
-  console.log('[CRIBBAGE] Ending game', { 
-    gameId, 
-    roundId, 
+  console.log('[CRIBBAGE] Ending game', {
+    gameId,
+    roundId,
     winner: cribbageState.winnerPlayerId,
     multiplier: cribbageState.payoutMultiplier,
     anteAmount: cribbageState.anteAmount,
   });
+  const repo = getGameRepository();
 
   try {
     if (!roundId || !gameId) {
       console.error('[CRIBBAGE] endCribbageGame called with missing roundId or gameId', { roundId, gameId });
       return false;
     }
-    
+
     if (!cribbageState.winnerPlayerId) {
       throw new Error('No winner specified');
     }
 
-    // Get all player IDs (losers are everyone except winner)
+    // Get all player IDs (losers are everyone except winner, and their partner with partnerships)
     const playerIds = Object.keys(cribbageState.playerStates);
-    const loserIds = playerIds.filter(id => id !== cribbageState.winnerPlayerId);
+    const partnerId = getCribbagePartner(cribbageState, cribbageState.winnerPlayerId);
+    const winnerIds = partnerId ? [cribbageState.winnerPlayerId, partnerId] : [cribbageState.winnerPlayerId];
+    const loserIds = playerIds.filter(id => !winnerIds.includes(id));
 
-    // Calculate payout based on ante and multiplier (skunk/double-skunk)
+    // Calculate payout based on ante and multiplier (skunk/double-skunk). Both partners on the
+    // losing side pay it, and the winning partners split what comes in.
     const baseAmount = cribbageState.anteAmount;
     const multiplier = cribbageState.payoutMultiplier || 1;
     const amountPerLoser = baseAmount * multiplier;
     const totalWinnerGain = amountPerLoser * loserIds.length;
+    const amountPerWinner = totalWinnerGain / winnerIds.length;
 
     console.log('[CRIBBAGE] Payout calculation:', {
       baseAmount,
@@ -385,21 +382,21 @@ export async function endCribbageGame(
       amountPerLoser,
       loserCount: loserIds.length,
       totalWinnerGain,
+      amountPerWinner,
     });
 
     // Idempotency guard:
     // Only ONE client should execute payouts + result insert. We "claim" processing by atomically
     // transitioning the round to completed (only if it wasn't already).
-    // NOTE: Using .select() after .update() only returns rows that were actually modified.
-    const { data: claimedRounds, error: claimError } = await supabase
-      .from('rounds')
-      .update({
+    // NOTE: The conditional update only returns rows that were actually modified.
+    const { data: claimedRounds, error: claimError } = await repo.rounds.update(
+      roundId,
+      {
         status: 'completed',
-        cribbage_state: cribbageState as any,
-      })
-      .eq('id', roundId)
-      .neq('status', 'completed')
-      .select('hand_number, dealer_game_id');
+        game_state: cribbageState as any,
+      },
+      { neq: { status: 'completed' } }
+    );
 
     if (claimError) {
       console.error('[CRIBBAGE] Failed to claim end-of-game processing:', claimError);
@@ -416,11 +413,7 @@ export async function endCribbageGame(
     // If we didn't claim the round, check if it was already completed or verify status
     if (!claimedRound) {
       // Double-check: maybe another client already completed it
-      const { data: existingRound } = await supabase
-        .from('rounds')
-        .select('status, hand_number, dealer_game_id')
-        .eq('id', roundId)
-        .single();
+      const { data: existingRound } = await repo.rounds.get(roundId);
 
       if (existingRound?.status === 'completed') {
         console.log('[CRIBBAGE] endCribbageGame already processed by another client. Ensuring game is game_over.');
@@ -429,34 +422,14 @@ export async function endCribbageGame(
         // Still try to ensure game_over status is set
       }
 
-      const { data: winner } = await supabase
-        .from('players')
-        .select('id, user_id, is_bot, created_at, profiles(username)')
-        .eq('id', cribbageState.winnerPlayerId)
-        .single();
-
-      // Get all players to determine bot alias
-      const { data: playersForAlias } = await supabase
-        .from('players')
-        .select('id, user_id, is_bot, created_at')
-        .eq('game_id', gameId);
-
-      const winnerDisplayName = winner?.is_bot && playersForAlias
-        ? getBotAlias(playersForAlias, winner.user_id)
-        : ((winner?.profiles as any)?.username || 'Player');
-
-      const skunkType = multiplier === 3 ? 'Double-Skunk!' : multiplier === 2 ? 'Skunk!' : '';
-      const resultDescription = `${winnerDisplayName} wins${skunkType ? ' ' + skunkType : ''} +$${totalWinnerGain}`;
-
-      await supabase
-        .from('games')
-        .update({
-          status: 'game_over',
-          pot: 0,
-          last_round_result: resultDescription,
-          game_over_at: new Date().toISOString(),
-        })
-        .eq('id', gameId);
+      const resultDescription = await describeCribbageWin(gameId, winnerIds, multiplier, amountPerWinner);
+
+      await repo.games.update(gameId, {
+        status: 'game_over',
+        pot: 0,
+        last_round_result: resultDescription,
+        game_over_at: new Date().toISOString(),
+      });
 
       return true;
     }
@@ -477,10 +450,7 @@ export async function endCribbageGame(
     // Deduct from each loser (awaited for critical financial data)
     for (const loserId of loserIds) {
       chipChanges[loserId] = -amountPerLoser;
-      const { error: deductError } = await supabase.rpc('increment_player_chips', {
-        p_player_id: loserId,
-        p_amount: -amountPerLoser,
-      });
+      const { error: deductError } = await repo.players.incrementChips(loserId, -amountPerLoser);
       if (deductError) {
         console.error('[CRIBBAGE] Failed to deduct from loser:', loserId, deductError);
       } else {
@@ -488,65 +458,43 @@ export async function endCribbageGame(
       }
     }
 
-    // Award to winner (awaited for critical financial data)
-    chipChanges[cribbageState.winnerPlayerId] = totalWinnerGain;
-    const { error: awardError } = await supabase.rpc('increment_player_chips', {
-      p_player_id: cribbageState.winnerPlayerId,
-      p_amount: totalWinnerGain,
-    });
-    if (awardError) {
-      console.error('[CRIBBAGE] Failed to award winner:', awardError);
-    } else {
-      console.log('[CRIBBAGE] Awarded winner:', cribbageState.winnerPlayerId, totalWinnerGain);
+    // Award to winner(s) (awaited for critical financial data)
+    for (const winnerId of winnerIds) {
+      chipChanges[winnerId] = amountPerWinner;
+      const { error: awardError } = await repo.players.incrementChips(winnerId, amountPerWinner);
+      if (awardError) {
+        console.error('[CRIBBAGE] Failed to award winner:', winnerId, awardError);
+      } else {
+        console.log('[CRIBBAGE] Awarded winner:', winnerId, amountPerWinner);
+      }
     }
 
     // Get winner info for display - use bot alias if applicable
-    const { data: winner } = await supabase
-      .from('players')
-      .select('id, user_id, is_bot, created_at, profiles(username)')
-      .eq('id', cribbageState.winnerPlayerId)
-      .single();
-
-    // Get all players to determine bot alias
-    const { data: allPlayersForAlias } = await supabase
-      .from('players')
-      .select('id, user_id, is_bot, created_at')
-      .eq('game_id', gameId);
-
-    const winnerUsername = winner?.is_bot && allPlayersForAlias
-      ? getBotAlias(allPlayersForAlias, winner.user_id)
-      : ((winner?.profiles as any)?.username || 'Player');
-
-    const skunkType = multiplier === 3 ? 'Double-Skunk!' : multiplier === 2 ? 'Skunk!' : '';
-    const resultDescription = `${winnerUsername} wins${skunkType ? ' ' + skunkType : ''} +$${totalWinnerGain}`;
+    const winnerUsername = await fetchPlayerDisplayName(gameId, cribbageState.winnerPlayerId);
+    const resultDescription = await describeCribbageWin(gameId, winnerIds, multiplier, amountPerWinner);
 
     // Update game status
-    await supabase
-      .from('games')
-      .update({
-        status: 'game_over',
-        pot: 0,
-        last_round_result: resultDescription,
-        game_over_at: new Date().toISOString(),
-      })
-      .eq('id', gameId);
+    await repo.games.update(gameId, {
+      status: 'game_over',
+      pot: 0,
+      last_round_result: resultDescription,
+      game_over_at: new Date().toISOString(),
+    });
 
     // Record in game_results with actual hand_number and chip changes
-    const { error: resultError } = await supabase
-      .from('game_results')
-      .insert({
-        game_id: gameId,
-        dealer_game_id: dealerGameId,
-        hand_number: handNumber,
-        pot_won: totalWinnerGain,
-        winner_player_id: cribbageState.winnerPlayerId,
-        winner_username: winnerUsername,
-        winning_hand_description: resultDescription,
-        is_chopped: false,
-        player_chip_changes: chipChanges,
-        game_type: 'cribbage',
-      });
-    
+    const { error: resultError } = await repo.gameResults.insert({
+      game_id: gameId,
+      dealer_game_id: dealerGameId,
+      hand_number: handNumber,
+      pot_won: totalWinnerGain,
+      winner_player_id: cribbageState.winnerPlayerId,
+      winner_username: winnerUsername,
+      winning_hand_description: resultDescription,
+      is_chopped: false,
+      player_chip_changes: chipChanges,
+      game_type: 'cribbage',
+    });
+
     if (resultError) {
       console.error('[CRIBBAGE] Failed to record game result:', resultError);
     } else {
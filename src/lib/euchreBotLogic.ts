@@ -0,0 +1,129 @@
+// Euchre bot AI
+// Deterministic and rule-based: calls trump by rating the hand as trumps would fall (bowers,
+// high trumps, length, off-suit aces and voids), counting the turned card for or against it by
+// who picks it up, and goes alone on a hand that should take the lot. In play it leads trump
+// when its side made it, cashes off-suit aces, takes tricks as cheaply as it can unless its
+// partner already has them, and otherwise throws its lowest card.
+
+import { SUITS, type Card, type Suit } from './cardUtils';
+import { getPartner, getWinningPlay, type Trick } from './trickTaking';
+import {
+  getEuchreLegalPlays,
+  getEuchreTeam,
+  getEuchreTrickRules,
+  isEuchreDealerStuck,
+  isLeftBower,
+  isRightBower,
+} from './euchreGameLogic';
+import type { EuchreState } from './euchreTypes';
+
+/** Rating at which the bot calls trump, and at which it goes alone */
+const CALL_RATING = 7;
+const ALONE_RATING = 11;
+
+export type EuchreBotCall =
+  | { type: 'pass' }
+  | { type: 'order'; alone: boolean }
+  | { type: 'name'; suit: Suit; alone: boolean };
+
+/** How strong `hand` is with `trump`: about three points a likely trick */
+export function rateEuchreHand(hand: Card[], trump: Suit): number {
+  const rules = getEuchreTrickRules(trump);
+  let rating = 0;
+  let trumps = 0;
+
+  for (const card of hand) {
+    if (rules.suitOf!(card) === trump) {
+      trumps++;
+      if (isRightBower(card, trump)) rating += 3.5;
+      else if (isLeftBower(card, trump)) rating += 3;
+      else if (card.rank === 'A') rating += 2.5;
+      else if (card.rank === 'K') rating += 2;
+      else rating += 1.5;
+    } else if (card.rank === 'A') {
+      rating += 2;
+    }
+  }
+
+  // Short off suits let the trumps ruff in
+  const offSuits = SUITS.filter(suit => suit !== trump && !hand.some(c => rules.suitOf!(c) === suit));
+  if (trumps >= 2) rating += offSuits.length;
+
+  return rating;
+}
+
+/** The card the dealer throws after picking up: the lowest off-suit card, keeping aces */
+export function getBotEuchreDiscard(hand: Card[], trump: Suit): Card {
+  const rules = getEuchreTrickRules(trump);
+  const byRank = (a: Card, b: Card) => rules.rankOf!(a) - rules.rankOf!(b);
+  const offSuit = hand.filter(c => rules.suitOf!(c) !== trump).sort(byRank);
+  const candidates = offSuit.filter(c => c.rank !== 'A');
+  // Throwing a singleton voids the suit
+  const singleton = candidates.find(c => offSuit.filter(o => o.suit === c.suit).length === 1);
+  return singleton ?? candidates[0] ?? offSuit[0] ?? [...hand].sort(byRank)[0];
+}
+
+/** The bot's call in either round; needs its hand in the state */
+export function getBotEuchreCall(state: EuchreState, playerId: string): EuchreBotCall {
+  const hand = state.hands[playerId] ?? [];
+
+  if (state.phase === 'ordering') {
+    const trump = state.upcard.suit;
+    const isDealer = playerId === state.dealerPlayerId;
+    let rating: number;
+    if (isDealer) {
+      // The dealer rates the hand they'd keep
+      const picked = [...hand, state.upcard];
+      const discard = getBotEuchreDiscard(picked, trump);
+      rating = rateEuchreHand(picked.filter(c => c !== discard), trump);
+    } else {
+      // The turned card goes to the partner or to the other side
+      const dealerIsPartner = getPartner(state.seats, playerId) === state.dealerPlayerId;
+      const upcardValue = rateEuchreHand([state.upcard], trump);
+      rating = rateEuchreHand(hand, trump) + (dealerIsPartner ? upcardValue / 2 : -upcardValue / 2);
+    }
+    if (rating < CALL_RATING) return { type: 'pass' };
+    return { type: 'order', alone: rating >= ALONE_RATING };
+  }
+
+  const suits = SUITS.filter(suit => suit !== state.upcard.suit);
+  const best = suits.reduce((a, b) => (rateEuchreHand(hand, b) > rateEuchreHand(hand, a) ? b : a));
+  const rating = rateEuchreHand(hand, best);
+  if (rating < CALL_RATING && !isEuchreDealerStuck(state, playerId)) return { type: 'pass' };
+  return { type: 'name', suit: best, alone: rating >= ALONE_RATING };
+}
+
+/** The bot's card; needs its hand in the state */
+export function getBotEuchrePlay(state: EuchreState, playerId: string): Card | null {
+  const trump = state.trumpSuit;
+  if (!trump) return null;
+
+  const rules = getEuchreTrickRules(trump);
+  const cheapestFirst = (a: Card, b: Card) =>
+    (rules.suitOf!(a) === trump ? 1 : 0) - (rules.suitOf!(b) === trump ? 1 : 0) || rules.rankOf!(a) - rules.rankOf!(b);
+  const legal = [...getEuchreLegalPlays(state, playerId)].sort(cheapestFirst);
+  if (legal.length === 0) return null;
+
+  const trick = state.currentTrick;
+  const wouldWin = (card: Card) => {
+    if (!trick) return true;
+    const next: Trick = { ...trick, plays: [...trick.plays, { playerId, card }] };
+    return getWinningPlay(next, rules)?.playerId === playerId;
+  };
+
+  if (!trick) {
+    // The makers draw trump from the top; everyone cashes an off-suit ace, else leads low
+    const trumps = legal.filter(c => rules.suitOf!(c) === trump);
+    const isMaker = state.makerId !== null && getEuchreTeam(state, state.makerId) === getEuchreTeam(state, playerId);
+    if (isMaker && trumps.length >= 2) return trumps[trumps.length - 1];
+    const ace = legal.find(c => c.rank === 'A' && rules.suitOf!(c) !== trump);
+    return ace ?? legal[0];
+  }
+
+  const partnerHasIt = getWinningPlay(trick, rules)?.playerId === getPartner(state.seats, playerId);
+  const winners = legal.filter(wouldWin);
+  if (!partnerHasIt && winners.length > 0) return winners[0];
+
+  // Can't win or needn't: throw the cheapest card
+  return legal[0];
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom } from '@rules/random.ts';
+import type { Card } from './cardUtils';
+import { getWinningPlay, type Trick } from './trickTaking';
+import {
+  dealEuchreHand,
+  discardEuchre,
+  getEuchreLegalPlays,
+  getEuchreTrickRules,
+  hideEuchreHands,
+  nameEuchreTrump,
+  orderUpEuchre,
+  passEuchre,
+  playEuchreCard,
+  scoreEuchreHand,
+  withEuchreHand,
+} from './euchreGameLogic';
+import type { EuchreState } from './euchreTypes';
+import { card, partnershipHand, SEATS, tricksTaken } from './testHelpers';
+
+// 'a' and 'c' partner against 'b' and 'd'; 'd' dealt, so 'a' is first to call and to lead
+function handWith(hands: Record<string, Card[]>, options: Partial<EuchreState> = {}): EuchreState {
+  return {
+    ...partnershipHand(hands),
+    phase: 'ordering',
+    upcard: card('9♥'),
+    trumpSuit: null,
+    makerId: null,
+    alone: false,
+    passes: 0,
+    targetScore: 10,
+    stickTheDealer: false,
+    ...options,
+  };
+}
+
+function scored(wins: Record<string, number>, options: Partial<EuchreState> = {}) {
+  return scoreEuchreHand(
+    handWith({}, { phase: 'playing', trumpSuit: '♥', makerId: 'a', tricks: tricksTaken(wins), ...options })
+  ).result!;
+}
+
+describe('Euchre Game Logic', () => {
+  describe('bowers', () => {
+    it('ranks the right bower over the left, and the left over the ace of trump', () => {
+      const rules = getEuchreTrickRules('♥');
+      const trick: Trick = {
+        leaderId: 'a',
+        plays: [
+          { playerId: 'a', card: card('A♥') },
+          { playerId: 'b', card: card('J♦') },
+          { playerId: 'c', card: card('J♥') },
+          { playerId: 'd', card: card('K♥') },
+        ],
+        winnerId: null,
+      };
+      expect(getWinningPlay(trick, rules)?.playerId).toBe('c');
+      expect(getWinningPlay({ ...trick, plays: trick.plays.filter(p => p.playerId !== 'c') }, rules)?.playerId).toBe('b');
+    });
+
+    it('makes the left bower follow trump, not its own suit', () => {
+      const state = handWith(
+        { b: [card('J♦'), card('A♦'), card('9♠')] },
+        {
+          phase: 'playing',
+          trumpSuit: '♥',
+          makerId: 'a',
+          currentTurnPlayerId: 'b',
+          currentTrick: { leaderId: 'a', plays: [{ playerId: 'a', card: card('10♥') }], winnerId: null },
+        }
+      );
+      expect(getEuchreLegalPlays(state, 'b')).toEqual([card('J♦')]);
+
+      const diamondLed = { ...state, currentTrick: { leaderId: 'a', plays: [{ playerId: 'a', card: card('10♦') }], winnerId: null } };
+      expect(getEuchreLegalPlays(diamondLed, 'b')).toEqual([card('A♦')]);
+    });
+  });
+
+  describe('dealing', () => {
+    it('deals five each from the 24-card deck and turns one up', () => {
+      const state = dealEuchreHand({ seats: SEATS, dealerPlayerId: 'd', targetScore: 10, stickTheDealer: false }, createSeededRandom('euchre'));
+      const dealt = [...Object.values(state.hands).flat(), state.upcard];
+      expect(Object.values(state.hands).every(hand => hand.length === 5)).toBe(true);
+      expect(new Set(dealt.map(c => c.rank + c.suit)).size).toBe(21);
+      expect(dealt.every(c => ['9', '10', 'J', 'Q', 'K', 'A'].includes(c.rank))).toBe(true);
+      expect(state.currentTurnPlayerId).toBe('a');
+    });
+
+    it('needs four players', () => {
+      expect(() => dealEuchreHand({ seats: ['a', 'b', 'c'], dealerPlayerId: 'c', targetScore: 10, stickTheDealer: false })).toThrow(
+        'Euchre needs exactly 4 players'
+      );
+    });
+  });
+
+  describe('calling trump', () => {
+    it('has the dealer pick up the ordered card and discard', () => {
+      const dealerHand = [card('9♠'), card('10♠'), card('Q♣'), card('K♦'), card('A♥')];
+      const ordered = orderUpEuchre(handWith({ d: dealerHand }), 'a', false);
+      expect(ordered).toMatchObject({ phase: 'discarding', trumpSuit: '♥', makerId: 'a', currentTurnPlayerId: 'd' });
+      expect(ordered.hands.d).toHaveLength(6);
+
+      const discarded = discardEuchre(ordered, 'd', card('9♠'));
+      expect(discarded).toMatchObject({ phase: 'playing', currentTurnPlayerId: 'a' });
+      expect(discarded.hands.d).toHaveLength(5);
+      expect(discarded.hands.d).toContainEqual(card('9♥'));
+      expect(() => discardEuchre(ordered, 'd', card('J♣'))).toThrow("That card isn't in your hand");
+    });
+
+    it('turns the card down after four passes and throws the hand in after eight', () => {
+      let state = handWith({});
+      for (const id of SEATS) state = passEuchre(state, id);
+      expect(state).toMatchObject({ phase: 'naming', passes: 0, currentTurnPlayerId: 'a' });
+      expect(() => nameEuchreTrump(state, 'a', '♥', false)).toThrow('♥ was turned down');
+
+      for (const id of SEATS) state = passEuchre(state, id);
+      expect(state.phase).toBe('complete');
+      expect(state.result).toMatchObject({ makersTeam: null, points: [0, 0], winningTeam: null });
+    });
+
+    it('makes a stuck dealer name trump', () => {
+      let state = handWith({}, { phase: 'naming', stickTheDealer: true });
+      for (const id of ['a', 'b', 'c']) state = passEuchre(state, id);
+      expect(() => passEuchre(state, 'd')).toThrow('The dealer is stuck: name trump');
+      expect(nameEuchreTrump(state, 'd', '♠', false)).toMatchObject({ phase: 'playing', trumpSuit: '♠', makerId: 'd' });
+    });
+
+    it("skips the partner of a player going alone, even when that's the dealer", () => {
+      // 'b' orders up alone: partner 'd' dealt, so nobody picks up and 'a' leads
+      const state = orderUpEuchre(handWith({}, { currentTurnPlayerId: 'b' }), 'b', true);
+      expect(state).toMatchObject({ phase: 'playing', alone: true, currentTurnPlayerId: 'a' });
+
+      let played = playEuchreCard(state, 'a', card('9♠'));
+      played = playEuchreCard(played, 'b', card('A♠'));
+      played = playEuchreCard(played, 'c', card('10♠'));
+      expect(played.currentTrick).toBeNull();
+      expect(played.tricks[0]).toMatchObject({ winnerId: 'b' });
+      expect(played.tricks[0].plays).toHaveLength(3);
+    });
+  });
+
+  describe('scoring', () => {
+    it('scores 1 for three or four tricks and 2 for a march', () => {
+      expect(scored({ a: 2, c: 1, b: 2 }).points).toEqual([1, 0]);
+      expect(scored({ a: 4, d: 1 }).points).toEqual([1, 0]);
+      expect(scored({ a: 3, c: 2 }).points).toEqual([2, 0]);
+    });
+
+    it('scores 4 for a march alone', () => {
+      expect(scored({ a: 5 }, { alone: true }).points).toEqual([4, 0]);
+    });
+
+    it('gives the defenders 2 when the makers are euchred', () => {
+      const result = scored({ a: 2, b: 3 });
+      expect(result).toMatchObject({ euchred: true, points: [0, 2] });
+    });
+
+    it('ends the game when a side reaches the target', () => {
+      expect(scored({ a: 3, c: 2 }, { teamScores: [8, 9] })).toMatchObject({ scores: [10, 9], winningTeam: 0 });
+      expect(scored({ a: 3, b: 2 }, { teamScores: [8, 9] }).winningTeam).toBeNull();
+    });
+  });
+
+  describe('hidden hands', () => {
+    it('puts back the held cards less those played, with the turned card while the dealer discards', () => {
+      const held = [card('9♠'), card('10♠'), card('Q♣'), card('K♦'), card('A♥')];
+      const discarding = hideEuchreHands(handWith({}, { phase: 'discarding', trumpSuit: '♥', makerId: 'a', currentTurnPlayerId: 'd' }));
+      expect(withEuchreHand(discarding, 'd', held).hands.d).toHaveLength(6);
+
+      const playing = hideEuchreHands(
+        handWith({}, {
+          phase: 'playing',
+          trumpSuit: '♥',
+          makerId: 'a',
+          currentTrick: { leaderId: 'd', plays: [{ playerId: 'd', card: card('Q♣') }], winnerId: null },
+        })
+      );
+      expect(withEuchreHand(playing, 'd', held).hands.d).toHaveLength(4);
+    });
+  });
+});
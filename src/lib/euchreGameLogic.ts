@@ -0,0 +1,280 @@
+// Euchre core game logic
+// Pure functions for four-handed partnership Euchre, built on the trick-taking core
+// (trickTaking.ts). The deck is the 24 cards from nine up; everyone gets five and the next card
+// is turned up on the kitty. Left of the dealer round, each player may order the dealer to pick
+// it up (its suit becomes trump, the dealer discards) or pass; if all four pass, each may name
+// another suit or pass again, and a hand nobody calls is thrown in. With stick the dealer on,
+// the dealer can't pass the second time round.
+//
+// The jack of trump (right bower) is the top trump and the other jack of its colour (left bower)
+// plays as the second-highest trump. Whoever calls may go alone, their partner sitting the hand
+// out. The makers score 1 for three or four tricks and 2 for all five (4 alone); held to fewer
+// than three they're euchred and the defenders score 2. First side to the target wins.
+
+import { createDeck, RANK_VALUES, type Card, type Suit } from './cardUtils';
+import { shuffle, type RandomSource } from '@rules/random.ts';
+import {
+  addTrickPlay,
+  getLegalPlays,
+  getNextSeat,
+  getPartner,
+  getPartnershipTeam,
+  isLegalPlay,
+  isSameCard,
+  removeCard,
+  type TrickRules,
+} from './trickTaking';
+import type { EuchreHandResult, EuchreState } from './euchreTypes';
+
+const CARDS_PER_HAND = 5;
+const EUCHRE_RANKS: Card['rank'][] = ['9', '10', 'J', 'Q', 'K', 'A'];
+const MAKER_POINTS = 1;
+const MARCH_POINTS = 2;
+const LONER_MARCH_POINTS = 4;
+const EUCHRE_POINTS = 2;
+
+export interface EuchreSetup {
+  /** The four players in play order */
+  seats: string[];
+  dealerPlayerId: string;
+  /** Scores carried from earlier hands; zero for the first */
+  teamScores?: number[];
+  targetScore: number;
+  stickTheDealer: boolean;
+}
+
+/** The other suit of the same colour: the left bower's suit */
+export function getSameColorSuit(suit: Suit): Suit {
+  return ({ '♠': '♣', '♣': '♠', '♥': '♦', '♦': '♥' } as const)[suit];
+}
+
+export function isRightBower(card: Card, trump: Suit): boolean {
+  return card.rank === 'J' && card.suit === trump;
+}
+
+export function isLeftBower(card: Card, trump: Suit): boolean {
+  return card.rank === 'J' && card.suit === getSameColorSuit(trump);
+}
+
+/** How cards play with `trump`: the left bower joins trump, and both bowers rank above the ace */
+export function getEuchreTrickRules(trump: Suit): TrickRules {
+  return {
+    trumpSuit: trump,
+    suitOf: card => (isLeftBower(card, trump) ? trump : card.suit),
+    rankOf: card => (isRightBower(card, trump) ? 16 : isLeftBower(card, trump) ? 15 : RANK_VALUES[card.rank]),
+  };
+}
+
+export function getEuchreTeam(state: Pick<EuchreState, 'seats'>, playerId: string): number {
+  return getPartnershipTeam(state.seats, playerId);
+}
+
+/** The maker's partner while they go alone; null otherwise */
+export function getEuchreSittingOut(state: EuchreState): string | null {
+  return state.alone && state.makerId ? getPartner(state.seats, state.makerId) : null;
+}
+
+/** The seats playing the hand, in play order */
+export function getEuchreActiveSeats(state: EuchreState): string[] {
+  const out = getEuchreSittingOut(state);
+  return state.seats.filter(id => id !== out);
+}
+
+/** Tricks each player has taken this hand */
+export function getEuchreTricksWon(state: EuchreState): Record<string, number> {
+  const won: Record<string, number> = Object.fromEntries(state.seats.map(id => [id, 0]));
+  for (const trick of state.tricks) {
+    if (trick.winnerId) won[trick.winnerId]++;
+  }
+  return won;
+}
+
+/** Cards `playerId` may play now; empty when it isn't their turn or the state doesn't hold their hand */
+export function getEuchreLegalPlays(state: EuchreState, playerId: string): Card[] {
+  if (state.phase !== 'playing' || state.currentTurnPlayerId !== playerId || !state.trumpSuit) return [];
+  return getLegalPlays(state.hands[playerId] ?? [], state.currentTrick, getEuchreTrickRules(state.trumpSuit));
+}
+
+/** Whether the dealer has to name trump rather than pass */
+export function isEuchreDealerStuck(state: EuchreState, playerId: string): boolean {
+  return state.stickTheDealer && state.phase === 'naming' && playerId === state.dealerPlayerId;
+}
+
+/** The state as stored: nobody's hand */
+export function hideEuchreHands(state: EuchreState): EuchreState {
+  return { ...state, hands: {} };
+}
+
+/**
+ * The stored state with one player's hand back from the cards player_cards holds for them: the
+ * dealer's has the turned card added while they're choosing a discard, and the cards played
+ * come out.
+ */
+export function withEuchreHand(state: EuchreState, playerId: string, held: Card[]): EuchreState {
+  const pickingUp = state.phase === 'discarding' && playerId === state.dealerPlayerId;
+  const played = [...state.tricks, ...(state.currentTrick ? [state.currentTrick] : [])]
+    .flatMap(trick => trick.plays)
+    .filter(play => play.playerId === playerId)
+    .map(play => play.card);
+  const hand = played.reduce((cards, card) => removeCard(cards, card), pickingUp ? [...held, state.upcard] : held);
+  return { ...state, hands: { ...state.hands, [playerId]: hand } };
+}
+
+/** The seat after `playerId` that's playing the hand */
+function getNextActiveSeat(state: EuchreState, playerId: string): string {
+  const out = getEuchreSittingOut(state);
+  const next = getNextSeat(state.seats, playerId);
+  return next === out ? getNextSeat(state.seats, next) : next;
+}
+
+/** Deal five each from left of the dealer and turn up the next card */
+export function dealEuchreHand(setup: EuchreSetup, random: RandomSource = Math.random): EuchreState {
+  if (setup.seats.length !== 4) throw new Error('Euchre needs exactly 4 players');
+
+  const deck = shuffle(createDeck().filter(c => EUCHRE_RANKS.includes(c.rank)), random);
+  const firstSeat = getNextSeat(setup.seats, setup.dealerPlayerId);
+  const start = setup.seats.indexOf(firstSeat);
+  const hands: Record<string, Card[]> = Object.fromEntries(setup.seats.map(id => [id, []]));
+  deck.slice(0, CARDS_PER_HAND * 4).forEach((card, i) => {
+    hands[setup.seats[(start + i) % 4]].push(card);
+  });
+
+  return {
+    phase: 'ordering',
+    seats: setup.seats,
+    dealerPlayerId: setup.dealerPlayerId,
+    hands,
+    upcard: deck[CARDS_PER_HAND * 4],
+    trumpSuit: null,
+    makerId: null,
+    alone: false,
+    passes: 0,
+    currentTurnPlayerId: firstSeat,
+    currentTrick: null,
+    tricks: [],
+    teamScores: setup.teamScores ?? [0, 0],
+    targetScore: setup.targetScore,
+    stickTheDealer: setup.stickTheDealer,
+    result: null,
+  };
+}
+
+/** Play starts left of the dealer, past a partner sitting out */
+function startPlay(state: EuchreState): EuchreState {
+  return { ...state, phase: 'playing', currentTurnPlayerId: getNextActiveSeat(state, state.dealerPlayerId) };
+}
+
+/**
+ * Pass on the turned card or a second-round call. Four passes on the turned card open the
+ * second round; four more throw the hand in.
+ */
+export function passEuchre(state: EuchreState, playerId: string): EuchreState {
+  if ((state.phase !== 'ordering' && state.phase !== 'naming') || state.currentTurnPlayerId !== playerId) {
+    throw new Error('Not your turn');
+  }
+  if (isEuchreDealerStuck(state, playerId)) throw new Error('The dealer is stuck: name trump');
+
+  const passes = state.passes + 1;
+  if (passes < state.seats.length) {
+    return { ...state, passes, currentTurnPlayerId: getNextSeat(state.seats, playerId) };
+  }
+  if (state.phase === 'ordering') {
+    return { ...state, phase: 'naming', passes: 0, currentTurnPlayerId: getNextSeat(state.seats, state.dealerPlayerId) };
+  }
+  return scoreEuchreHand({ ...state, passes });
+}
+
+/** Order the dealer up: the turned card's suit is trump and the dealer picks it up */
+export function orderUpEuchre(state: EuchreState, playerId: string, alone: boolean): EuchreState {
+  if (state.phase !== 'ordering' || state.currentTurnPlayerId !== playerId) throw new Error('Not your turn');
+
+  const called: EuchreState = { ...state, trumpSuit: state.upcard.suit, makerId: playerId, alone, passes: 0 };
+  // A dealer whose partner goes alone sits out and leaves the card where it is
+  if (getEuchreSittingOut(called) === state.dealerPlayerId) return startPlay(called);
+
+  const dealerHand = state.hands[state.dealerPlayerId];
+  return {
+    ...called,
+    phase: 'discarding',
+    hands: dealerHand ? { ...state.hands, [state.dealerPlayerId]: [...dealerHand, state.upcard] } : state.hands,
+    currentTurnPlayerId: state.dealerPlayerId,
+  };
+}
+
+/** The dealer throws a card away after picking up */
+export function discardEuchre(state: EuchreState, playerId: string, card: Card): EuchreState {
+  if (state.phase !== 'discarding' || state.currentTurnPlayerId !== playerId) throw new Error('Not your turn');
+
+  const hand = state.hands[playerId];
+  if (hand && !hand.some(c => isSameCard(c, card))) throw new Error("That card isn't in your hand");
+  return startPlay({ ...state, hands: hand ? { ...state.hands, [playerId]: removeCard(hand, card) } : state.hands });
+}
+
+/** Name trump in the second round; the turned-down suit is out */
+export function nameEuchreTrump(state: EuchreState, playerId: string, suit: Suit, alone: boolean): EuchreState {
+  if (state.phase !== 'naming' || state.currentTurnPlayerId !== playerId) throw new Error('Not your turn');
+  if (suit === state.upcard.suit) throw new Error(`${suit} was turned down`);
+
+  return startPlay({ ...state, trumpSuit: suit, makerId: playerId, alone, passes: 0 });
+}
+
+/** Play a card to the trick. The trick's winner leads the next one, and the fifth scores the hand. */
+export function playEuchreCard(state: EuchreState, playerId: string, card: Card): EuchreState {
+  if (state.phase !== 'playing' || state.currentTurnPlayerId !== playerId || !state.trumpSuit) {
+    throw new Error('Not your turn');
+  }
+
+  const rules = getEuchreTrickRules(state.trumpSuit);
+  const hand = state.hands[playerId];
+  let hands = state.hands;
+  if (hand) {
+    if (!hand.some(c => isSameCard(c, card))) throw new Error("That card isn't in your hand");
+    if (!isLegalPlay(hand, state.currentTrick, card, rules)) throw new Error('Follow suit');
+    hands = { ...hands, [playerId]: removeCard(hand, card) };
+  }
+
+  const seatCount = getEuchreActiveSeats(state).length;
+  const trick = addTrickPlay(state.currentTrick, { playerId, card }, seatCount, rules);
+  const next: EuchreState = { ...state, hands };
+
+  if (!trick.winnerId) {
+    return { ...next, currentTrick: trick, currentTurnPlayerId: getNextActiveSeat(state, playerId) };
+  }
+
+  const tricks = [...state.tricks, trick];
+  const played = { ...next, currentTrick: null, tricks, currentTurnPlayerId: trick.winnerId };
+  return tricks.length === CARDS_PER_HAND ? scoreEuchreHand(played) : played;
+}
+
+/** Score the hand once the last trick is in (or nobody called trump) */
+export function scoreEuchreHand(state: EuchreState): EuchreState {
+  const points = [0, 0];
+  let makersTeam: number | null = null;
+  let makerTricks = 0;
+
+  if (state.makerId) {
+    makersTeam = getEuchreTeam(state, state.makerId);
+    const won = getEuchreTricksWon(state);
+    makerTricks = state.seats.filter(id => getEuchreTeam(state, id) === makersTeam).reduce((sum, id) => sum + won[id], 0);
+    if (makerTricks < 3) {
+      points[1 - makersTeam] = EUCHRE_POINTS;
+    } else if (makerTricks === CARDS_PER_HAND) {
+      points[makersTeam] = state.alone ? LONER_MARCH_POINTS : MARCH_POINTS;
+    } else {
+      points[makersTeam] = MAKER_POINTS;
+    }
+  }
+
+  const scores = state.teamScores.map((score, team) => score + points[team]);
+  const winningTeam = scores.findIndex(score => score >= state.targetScore);
+  const result: EuchreHandResult = {
+    makersTeam,
+    makerTricks,
+    alone: state.alone,
+    euchred: makersTeam !== null && makerTricks < 3,
+    points,
+    scores,
+    winningTeam: winningTeam === -1 ? null : winningTeam,
+  };
+  return { ...state, phase: 'complete', currentTurnPlayerId: null, result };
+}
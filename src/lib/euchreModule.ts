@@ -0,0 +1,81 @@
+// Euchre as a game module (see gameModule.ts)
+
+import type { GameRules } from './gameModule';
+import type { Card, Suit } from './cardUtils';
+import type { EuchreState } from './euchreTypes';
+import {
+  dealEuchreHand,
+  discardEuchre,
+  nameEuchreTrump,
+  orderUpEuchre,
+  passEuchre,
+  playEuchreCard,
+} from './euchreGameLogic';
+import { getBotEuchreCall, getBotEuchreDiscard, getBotEuchrePlay } from './euchreBotLogic';
+
+export interface EuchreConfig {
+  /** Points a partnership plays to */
+  targetScore: number;
+  /** Whether the dealer has to name trump when everyone else passes the second round */
+  stickTheDealer: boolean;
+}
+
+export type EuchreAction =
+  | { type: 'pass'; playerId: string }
+  | { type: 'order'; playerId: string; alone: boolean }
+  | { type: 'name'; playerId: string; suit: Suit; alone: boolean }
+  | { type: 'discard'; playerId: string; card: Card }
+  | { type: 'play'; playerId: string; card: Card };
+
+export const euchreModule: GameRules<EuchreState, EuchreAction, EuchreConfig> = {
+  id: 'euchre',
+
+  config: {
+    defaults: { targetScore: 10, stickTheDealer: false },
+    fromGame: game => ({
+      targetScore: game.euchre_target_score ?? 10,
+      stickTheDealer: game.euchre_stick_the_dealer ?? false,
+    }),
+  },
+
+  // Partners sit across: the players come in seat order. Later hands carry the scores (see
+  // euchreRoundLogic.ts).
+  createInitialState: ({ playerIds, dealerPlayerId, config }, random) =>
+    dealEuchreHand(
+      { seats: playerIds, dealerPlayerId, targetScore: config.targetScore, stickTheDealer: config.stickTheDealer },
+      random
+    ),
+
+  reduce: (state, action) => {
+    switch (action.type) {
+      case 'pass':
+        return passEuchre(state, action.playerId);
+      case 'order':
+        return orderUpEuchre(state, action.playerId, action.alone);
+      case 'name':
+        return nameEuchreTrump(state, action.playerId, action.suit, action.alone);
+      case 'discard':
+        return discardEuchre(state, action.playerId, action.card);
+      case 'play':
+        return playEuchreCard(state, action.playerId, action.card);
+    }
+  },
+
+  getActivePlayerId: state => state.currentTurnPlayerId,
+
+  isHandOver: state => state.phase === 'complete',
+
+  // Needs the bot's hand in the state: the table puts it back from player_cards
+  botAction: (state, playerId) => {
+    if (state.currentTurnPlayerId !== playerId || !state.hands[playerId]?.length) return null;
+
+    if (state.phase === 'ordering' || state.phase === 'naming') {
+      return { playerId, ...getBotEuchreCall(state, playerId) };
+    }
+    if (state.phase === 'discarding') {
+      return { type: 'discard', playerId, card: getBotEuchreDiscard(state.hands[playerId], state.trumpSuit!) };
+    }
+    const card = getBotEuchrePlay(state, playerId);
+    return card ? { type: 'play', playerId, card } : null;
+  },
+};
@@ -0,0 +1,62 @@
+// Euchre game types and interfaces
+// Cards use the poker Card from cardUtils ('♠','♥','♦','♣' suits), nines up
+
+import type { Card, Suit } from './cardUtils';
+import type { Trick } from './trickTaking';
+
+export type EuchrePhase =
+  | 'ordering' // First round of calling: order the dealer up to the turned card's suit, or pass
+  | 'naming' // Second round: name any other suit as trump, or pass
+  | 'discarding' // The dealer has picked up the turned card and throws one away
+  | 'playing' // Five tricks
+  | 'complete'; // Scored, or passed out when nobody called trump
+
+export interface EuchreHandResult {
+  /** The partnership that called trump; null when everyone passed twice and the hand was thrown in */
+  makersTeam: number | null;
+  /** Tricks the makers took */
+  makerTricks: number;
+  alone: boolean;
+  /** Whether the makers took fewer than three */
+  euchred: boolean;
+  /** Points each team scored this hand */
+  points: number[];
+  /** Running scores after the hand */
+  scores: number[];
+  /** The team that reached the target, once the game is over */
+  winningTeam: number | null;
+}
+
+export interface EuchreState {
+  phase: EuchrePhase;
+  /** The four players in play order; partners sit across, so team 0 is seats 0 and 2 */
+  seats: string[];
+  dealerPlayerId: string;
+  /**
+   * Cards still in each hand. Kept out of the stored state like spades' (hideEuchreHands): each
+   * hand goes to player_cards at the deal (and the dealer's again after the discard), and the
+   * table puts back the one it holds before an action (withEuchreHand). The kitty never leaves
+   * the deal.
+   */
+  hands: Record<string, Card[]>;
+  /** The card turned up on the kitty */
+  upcard: Card;
+  trumpSuit: Suit | null;
+  /** Who called trump */
+  makerId: string | null;
+  /** Whether the maker is playing without their partner */
+  alone: boolean;
+  /** Passes so far in this round of calling */
+  passes: number;
+  currentTurnPlayerId: string | null;
+  /** The trick being played; null between tricks */
+  currentTrick: Trick | null;
+  /** Finished tricks, in order */
+  tricks: Trick[];
+  /** Team scores going into the hand */
+  teamScores: number[];
+  targetScore: number;
+  /** Whether the dealer has to name trump when it comes back round to them in the second round */
+  stickTheDealer: boolean;
+  result: EuchreHandResult | null;
+}
@@ -0,0 +1,46 @@
+/**
+ * Farkle Bot Logic
+ *
+ * Heuristic bot: it always takes hot dice, otherwise sets aside whatever scores most once
+ * the dice it gives up are counted against it, and banks once the points at risk outweigh
+ * what the dice left are likely to add. It rolls on until it is on the board, and in the
+ * final round until it has the lead.
+ */
+
+import { getFarkleScoringOptions } from './farkleScoring';
+import { getFarkleRollCount, getFarkleTurnPoints, needsFarkleOpening } from './farkleGameLogic';
+import type { FarkleState } from './farkleTypes';
+
+/** Rough worth of rolling on with this many dice, used to value keeping dice back */
+const ROLL_VALUE: Record<number, number> = { 1: 25, 2: 50, 3: 100, 4: 150, 5: 250, 6: 400 };
+
+/** Bank at this many turn points with this many dice left to roll */
+const BANK_AT: Record<number, number> = { 1: 300, 2: 300, 3: 400, 4: 1000, 5: 2000, 6: 3000 };
+
+/** Which of the dice in play to set aside */
+export function getBotFarkleKeep(state: FarkleState): number[] {
+  const options = getFarkleScoringOptions(state.turn.dice, state.scoring);
+  if (options.length === 0) return [];
+
+  const hotDice = options.find(o => o.indices.length === state.turn.dice.length);
+  if (hotDice) return hotDice.indices;
+
+  const value = (o: { indices: number[]; score: number }) =>
+    o.score + ROLL_VALUE[state.turn.dice.length - o.indices.length];
+  return options.reduce((best, o) => (value(o) > value(best) ? o : best)).indices;
+}
+
+/** Whether to bank after setting aside `keep` */
+export function shouldBotBankFarkle(state: FarkleState, playerId: string, keep: number[]): boolean {
+  const points = getFarkleTurnPoints(state, keep);
+  if (needsFarkleOpening(state, playerId) && points < state.minOpening) return false;
+
+  const total = state.playerStates[playerId].score + points;
+  if (state.finalRoundTriggeredBy) {
+    const best = Math.max(...state.turnOrder.filter(id => id !== playerId).map(id => state.playerStates[id].score));
+    return total > best;
+  }
+  if (total >= state.targetScore) return true;
+
+  return points >= BANK_AT[getFarkleRollCount(state.turn, keep)];
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { bankFarklePoints, dealFarkleGame, rollFarkleDice } from './farkleGameLogic';
+import { DEFAULT_FARKLE_SCORING, getFarkleScoringOptions, scoreFarkleDice } from './farkleScoring';
+import type { FarkleState } from './farkleTypes';
+import { diceRolling, THREE_HANDED } from './testHelpers';
+
+// 'a' to roll, then 'b', then 'c' (the dealer)
+function gameWith(overrides: Partial<FarkleState> = {}): FarkleState {
+  return {
+    ...dealFarkleGame({
+      ...THREE_HANDED,
+      targetScore: 10000,
+      minOpening: 0,
+      scoring: DEFAULT_FARKLE_SCORING,
+    }),
+    ...overrides,
+  };
+}
+
+describe('Farkle Scoring', () => {
+  it('scores singles and kinds only when every die counts', () => {
+    expect(scoreFarkleDice([1, 5], DEFAULT_FARKLE_SCORING)).toBe(150);
+    expect(scoreFarkleDice([2, 2, 2], DEFAULT_FARKLE_SCORING)).toBe(200);
+    expect(scoreFarkleDice([1, 1, 1, 5], DEFAULT_FARKLE_SCORING)).toBe(1050);
+    expect(scoreFarkleDice([1, 2], DEFAULT_FARKLE_SCORING)).toBe(0);
+  });
+
+  it('follows the house rules for big kinds, pairs and the straight', () => {
+    const doubling = { ...DEFAULT_FARKLE_SCORING, fourOfAKind: 0, fiveOfAKind: 0, threePairs: 0 };
+    expect(scoreFarkleDice([4, 4, 4, 4], DEFAULT_FARKLE_SCORING)).toBe(1000);
+    expect(scoreFarkleDice([4, 4, 4, 4], doubling)).toBe(800);
+    expect(scoreFarkleDice([4, 4, 4, 4, 4], doubling)).toBe(1600);
+    expect(scoreFarkleDice([2, 2, 3, 3, 4, 4], DEFAULT_FARKLE_SCORING)).toBe(1500);
+    expect(scoreFarkleDice([2, 2, 3, 3, 4, 4], doubling)).toBe(0);
+    expect(scoreFarkleDice([1, 2, 3, 4, 5, 6], DEFAULT_FARKLE_SCORING)).toBe(1500);
+    expect(scoreFarkleDice([1, 2, 3, 4, 5, 6], { ...DEFAULT_FARKLE_SCORING, straight: 0 })).toBe(0);
+  });
+
+  it('lists the best way to set dice aside first', () => {
+    const [best] = getFarkleScoringOptions([1, 3, 3, 3, 5, 2], DEFAULT_FARKLE_SCORING);
+    expect(best).toEqual({ indices: [0, 1, 2, 3, 4], score: 450 });
+  });
+});
+
+describe('Farkle Game Logic', () => {
+  it('starts left of the dealer', () => {
+    const state = gameWith();
+    expect(state.turnOrder).toEqual(['a', 'b', 'c']);
+    expect(state.currentTurnPlayerId).toBe('a');
+  });
+
+  it('loses the turn on a farkle', () => {
+    let state = rollFarkleDice(gameWith(), 'a', [], diceRolling(1, 2, 3, 4, 6, 6));
+    state = rollFarkleDice(state, 'a', [0], diceRolling(2, 3, 4, 6, 2));
+    expect(state.playerStates.a).toMatchObject({ score: 0, farkles: 1 });
+    expect(state.turns[0]).toMatchObject({ playerId: 'a', points: 0, farkled: true });
+    expect(state.currentTurnPlayerId).toBe('b');
+  });
+
+  it('rolls all six again on hot dice', () => {
+    let state = rollFarkleDice(gameWith(), 'a', [], diceRolling(1, 1, 1, 5, 5, 5));
+    state = rollFarkleDice(state, 'a', [0, 1, 2, 3, 4, 5], diceRolling(1, 2, 3, 4, 6, 6));
+    expect(state.turn.dice).toHaveLength(6);
+    expect(state.turn.points).toBe(1500);
+    state = bankFarklePoints(state, 'a', [0]);
+    expect(state.playerStates.a.score).toBe(1600);
+  });
+
+  it('only lets dice that score be set aside', () => {
+    const state = rollFarkleDice(gameWith(), 'a', [], diceRolling(1, 2, 3, 4, 6, 6));
+    expect(() => bankFarklePoints(state, 'a', [1])).toThrow('Set aside scoring dice first');
+    expect(() => bankFarklePoints(state, 'b', [0])).toThrow('Not your turn');
+  });
+
+  it('needs the minimum opening score in one turn', () => {
+    const state = rollFarkleDice(gameWith({ minOpening: 500 }), 'a', [], diceRolling(1, 2, 3, 4, 6, 6));
+    expect(() => bankFarklePoints(state, 'a', [0])).toThrow('You need 500 in one turn to get on the board');
+  });
+
+  it('gives everyone one last turn once the target is reached', () => {
+    const scores = { a: 9900, b: 9000, c: 9950 };
+    let state = gameWith({
+      playerStates: Object.fromEntries(Object.entries(scores).map(([id, score]) => [id, { score, hasOpened: true, farkles: 0 }])),
+    });
+    state = bankFarklePoints(rollFarkleDice(state, 'a', [], diceRolling(1, 2, 3, 4, 6, 6)), 'a', [0]);
+    expect(state.finalRoundTriggeredBy).toBe('a');
+    expect(state.gamePhase).toBe('playing');
+
+    state = bankFarklePoints(rollFarkleDice(state, 'b', [], diceRolling(5, 2, 3, 4, 6, 6)), 'b', [0]);
+    state = bankFarklePoints(rollFarkleDice(state, 'c', [], diceRolling(1, 1, 3, 4, 6, 6)), 'c', [0, 1]);
+    expect(state.gamePhase).toBe('complete');
+    expect(state.winnerId).toBe('c');
+    expect(state.playerStates.c.score).toBe(10150);
+  });
+});
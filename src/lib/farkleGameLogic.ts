@@ -0,0 +1,167 @@
+/**
+ * Farkle Game Logic
+ *
+ * Pure functions for the turn: roll six dice, set aside scoring dice, then bank or roll the
+ * rest. A roll with nothing to score (a farkle) ends the turn with no points; setting aside
+ * all six dice (hot dice) rolls all six again. Nothing counts until a player banks the
+ * minimum opening score in one turn. Once someone banks to the target, everyone else gets
+ * one last turn and the high score wins.
+ */
+
+import { rollDie, type RandomSource } from '@rules/random.ts';
+import { hasFarkleScoringDice, scoreFarkleDice } from './farkleScoring';
+import type { FarklePlayerState, FarkleScoringRules, FarkleState, FarkleTurn } from './farkleTypes';
+
+export const FARKLE_DICE = 6;
+
+export interface FarkleSetup {
+  /** Player ids in seat order */
+  playerIds: string[];
+  dealerPlayerId: string;
+  targetScore: number;
+  minOpening: number;
+  scoring: FarkleScoringRules;
+}
+
+/** A turn before its first roll */
+export function createFarkleTurn(): FarkleTurn {
+  return { dice: [], setAside: [], points: 0, rolls: 0 };
+}
+
+function createPlayerState(): FarklePlayerState {
+  return { score: 0, hasOpened: false, farkles: 0 };
+}
+
+/** Play starts left of the dealer */
+export function dealFarkleGame(setup: FarkleSetup): FarkleState {
+  const dealerIdx = Math.max(0, setup.playerIds.indexOf(setup.dealerPlayerId));
+  const turnOrder = setup.playerIds.map((_, i) => setup.playerIds[(dealerIdx + 1 + i) % setup.playerIds.length]);
+
+  return {
+    currentTurnPlayerId: turnOrder[0] ?? null,
+    playerStates: Object.fromEntries(turnOrder.map(pid => [pid, createPlayerState()])),
+    gamePhase: 'playing',
+    turnOrder,
+    currentRound: 1,
+    turn: createFarkleTurn(),
+    targetScore: setup.targetScore,
+    minOpening: setup.minOpening,
+    scoring: setup.scoring,
+    finalRoundTriggeredBy: null,
+    turns: [],
+    winnerId: null,
+    botControllerUserId: null,
+  };
+}
+
+/** Dice the next roll throws after setting aside `keep` (indices into the dice in play) */
+export function getFarkleRollCount(turn: FarkleTurn, keep: number[]): number {
+  if (turn.rolls === 0) return FARKLE_DICE;
+  const remaining = turn.dice.length - keep.length;
+  return remaining > 0 ? remaining : FARKLE_DICE; // Hot dice
+}
+
+/** Points a bank would score right now, setting aside `keep` first */
+export function getFarkleTurnPoints(state: FarkleState, keep: number[]): number {
+  return state.turn.points + scoreFarkleDice(keep.map(i => state.turn.dice[i]), state.scoring);
+}
+
+/** Whether a player still has to bank the minimum opening score */
+export function needsFarkleOpening(state: FarkleState, playerId: string): boolean {
+  return state.minOpening > 0 && !state.playerStates[playerId]?.hasOpened;
+}
+
+function assertTurn(state: FarkleState, playerId: string) {
+  if (state.gamePhase !== 'playing' || state.currentTurnPlayerId !== playerId) {
+    throw new Error('Not your turn');
+  }
+}
+
+/** Set aside the chosen dice; every one of them has to score */
+function setAside(state: FarkleState, keep: number[]): FarkleTurn {
+  const { turn } = state;
+  const valid = keep.length > 0
+    && new Set(keep).size === keep.length
+    && keep.every(i => Number.isInteger(i) && i >= 0 && i < turn.dice.length);
+  const kept = valid ? keep.map(i => turn.dice[i]) : [];
+  const score = scoreFarkleDice(kept, state.scoring);
+  if (score === 0) throw new Error('Set aside scoring dice first');
+
+  return {
+    ...turn,
+    dice: turn.dice.filter((_, i) => !keep.includes(i)),
+    setAside: [...turn.setAside, kept],
+    points: turn.points + score,
+  };
+}
+
+/** Finish the turn and pass the dice left; after the final round the high score wins */
+function endTurn(state: FarkleState, points: number, farkled: boolean, dice: number[]): FarkleState {
+  const playerId = state.currentTurnPlayerId!;
+  const ps = state.playerStates[playerId];
+  const nextPs: FarklePlayerState = farkled
+    ? { ...ps, farkles: ps.farkles + 1 }
+    : { ...ps, score: ps.score + points, hasOpened: true };
+  const playerStates = { ...state.playerStates, [playerId]: nextPs };
+  const finalRoundTriggeredBy = state.finalRoundTriggeredBy
+    ?? (nextPs.score >= state.targetScore ? playerId : null);
+
+  const idx = state.turnOrder.indexOf(playerId);
+  const nextPlayerId = state.turnOrder[(idx + 1) % state.turnOrder.length];
+  const next: FarkleState = {
+    ...state,
+    playerStates,
+    finalRoundTriggeredBy,
+    turn: createFarkleTurn(),
+    turns: [...state.turns, { playerId, points: farkled ? 0 : points, farkled, dice, setAside: state.turn.setAside }],
+    currentTurnPlayerId: nextPlayerId,
+    currentRound: idx === state.turnOrder.length - 1 ? state.currentRound + 1 : state.currentRound,
+  };
+
+  if (finalRoundTriggeredBy && nextPlayerId === finalRoundTriggeredBy) {
+    const best = Math.max(...state.turnOrder.map(pid => playerStates[pid].score));
+    const leaders = state.turnOrder.filter(pid => playerStates[pid].score === best);
+    return {
+      ...next,
+      currentTurnPlayerId: null,
+      gamePhase: 'complete',
+      winnerId: leaders.length === 1 ? leaders[0] : null,
+    };
+  }
+  return next;
+}
+
+/**
+ * Roll: the whole six to start the turn, otherwise set aside `keep` (indices into the dice in
+ * play) and roll the rest, or all six on hot dice. A roll with nothing to score farkles.
+ */
+export function rollFarkleDice(
+  state: FarkleState,
+  playerId: string,
+  keep: number[],
+  random: RandomSource = Math.random
+): FarkleState {
+  assertTurn(state, playerId);
+  const turn = state.turn.rolls === 0 ? state.turn : setAside(state, keep);
+  const count = getFarkleRollCount(state.turn, keep);
+  const dice = Array.from({ length: count }, () => rollDie(random));
+  const rolled: FarkleState = {
+    ...state,
+    turn: { ...turn, dice, rolls: turn.rolls + 1, rollKey: (turn.rollKey ?? 0) + 1 },
+  };
+
+  if (!hasFarkleScoringDice(dice, state.scoring)) return endTurn(rolled, 0, true, dice);
+  return rolled;
+}
+
+/** Set aside `keep` and bank the turn's points */
+export function bankFarklePoints(state: FarkleState, playerId: string, keep: number[]): FarkleState {
+  assertTurn(state, playerId);
+  if (state.turn.rolls === 0) throw new Error('Roll first');
+
+  const turn = setAside(state, keep);
+  if (needsFarkleOpening(state, playerId) && turn.points < state.minOpening) {
+    throw new Error(`You need ${state.minOpening} in one turn to get on the board`);
+  }
+  return endTurn({ ...state, turn }, turn.points, false, state.turn.dice);
+}
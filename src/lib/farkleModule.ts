@@ -0,0 +1,66 @@
+// Farkle as a game module (see gameModule.ts)
+
+import type { GameRules } from './gameModule';
+import type { FarkleScoringRules, FarkleState } from './farkleTypes';
+import { bankFarklePoints, dealFarkleGame, rollFarkleDice } from './farkleGameLogic';
+import { DEFAULT_FARKLE_SCORING } from './farkleScoring';
+import { getBotFarkleKeep, shouldBotBankFarkle } from './farkleBotLogic';
+
+export interface FarkleConfig {
+  /** Banked score that wins */
+  targetScore: number;
+  /** Points to bank in one turn before a player's score counts (0 = none) */
+  minOpening: number;
+  scoring: FarkleScoringRules;
+}
+
+export type FarkleAction =
+  /** `keep`: indices of the dice in play to set aside first (none on the turn's first roll) */
+  | { type: 'roll'; playerId: string; keep: number[] }
+  | { type: 'bank'; playerId: string; keep: number[] };
+
+export const farkleModule: GameRules<FarkleState, FarkleAction, FarkleConfig> = {
+  id: 'farkle',
+
+  config: {
+    defaults: { targetScore: 10000, minOpening: 500, scoring: DEFAULT_FARKLE_SCORING },
+    fromGame: game => ({
+      targetScore: game.farkle_target_score ?? 10000,
+      minOpening: game.farkle_min_opening ?? 500,
+      scoring: {
+        threePairs: game.farkle_three_pairs ?? DEFAULT_FARKLE_SCORING.threePairs,
+        straight: game.farkle_straight ?? DEFAULT_FARKLE_SCORING.straight,
+        fourOfAKind: game.farkle_four_of_a_kind ?? DEFAULT_FARKLE_SCORING.fourOfAKind,
+        fiveOfAKind: game.farkle_five_of_a_kind ?? DEFAULT_FARKLE_SCORING.fiveOfAKind,
+        sixOfAKind: game.farkle_six_of_a_kind ?? DEFAULT_FARKLE_SCORING.sixOfAKind,
+      },
+    }),
+  },
+
+  // The whole game is one hand: it ends after the final round
+  createInitialState: ({ playerIds, dealerPlayerId, config }) =>
+    dealFarkleGame({ playerIds, dealerPlayerId, ...config }),
+
+  reduce: (state, action, random) => {
+    switch (action.type) {
+      case 'roll':
+        return rollFarkleDice(state, action.playerId, action.keep, random);
+      case 'bank':
+        return bankFarklePoints(state, action.playerId, action.keep);
+    }
+  },
+
+  getActivePlayerId: state => (state.gamePhase === 'playing' ? state.currentTurnPlayerId : null),
+
+  isHandOver: state => state.gamePhase === 'complete',
+
+  botAction: (state, playerId) => {
+    if (state.gamePhase !== 'playing' || state.currentTurnPlayerId !== playerId) return null;
+    if (state.turn.rolls === 0) return { type: 'roll', playerId, keep: [] };
+
+    const keep = getBotFarkleKeep(state);
+    return shouldBotBankFarkle(state, playerId, keep)
+      ? { type: 'bank', playerId, keep }
+      : { type: 'roll', playerId, keep };
+  },
+};
@@ -0,0 +1,330 @@
+/**
+ * Farkle Round Logic
+ * Handles creating rounds and managing the session lifecycle for Farkle.
+ * Follows the same patterns as yahtzeeRoundLogic.ts: turn order from the dealer's left,
+ * a single bot controller, no antes up front (the winner collects an ante from every other
+ * player at the end) and a tie rolls over into a new game.
+ *
+ * Unlike Yahtzee, a turn can run to many rolls, so turnDeadline is reset for every roll or
+ * bank a human owes rather than once per turn.
+ */
+
+import { fetchPlayerDisplayName, getGameRepository } from "./gameRepository";
+import { snapshotPlayerChips } from "./gameLogic";
+import { logDeal } from "./handActionLog";
+import { farkleModule } from "./farkleModule";
+import type { Json } from "@/integrations/supabase/types";
+import type { FarkleState } from "./farkleTypes";
+
+/** Seconds a human gets for each roll or bank before a bot plays the turn out for them */
+export const FARKLE_TURN_TIMER_SECONDS = 30;
+
+/** Set the deadline for the player now to act: none for bots or once the game is over */
+export function withFarkleTurnDeadline(state: FarkleState, isBot: (playerId: string) => boolean): FarkleState {
+  const playerId = state.gamePhase === 'playing' ? state.currentTurnPlayerId : null;
+  return {
+    ...state,
+    turnDeadline: playerId && !isBot(playerId)
+      ? new Date(Date.now() + FARKLE_TURN_TIMER_SECONDS * 1000).toISOString()
+      : null,
+  };
+}
+
+export async function startFarkleRound(gameId: string, isFirstHand: boolean = false): Promise<void> {
+  console.log('[FARKLE] 🎲 Starting round', { gameId, isFirstHand });
+  const repo = getGameRepository();
+
+  const { data: game, error: gameError } = await repo.games.get(gameId);
+
+  if (gameError || !game) {
+    console.error('[FARKLE] Failed to get game:', gameError);
+    throw new Error('Failed to get game state');
+  }
+
+  // Guards (same as yahtzee)
+  if (game.is_paused) {
+    console.warn('[FARKLE] Blocked - game is paused');
+    return;
+  }
+  if (game.status === 'session_ended') {
+    console.warn('[FARKLE] Blocked - session ended');
+    return;
+  }
+  if (!isFirstHand) {
+    const canStart = game.awaiting_next_round === true || game.status === 'game_over';
+    if (!canStart) {
+      console.warn('[FARKLE] Blocked - not ready for next hand');
+      return;
+    }
+  }
+
+  const dealerGameId = game.current_game_uuid;
+  let newHandNumber: number;
+  let newRoundNumber: number;
+
+  if (isFirstHand) {
+    newHandNumber = 1;
+    newRoundNumber = 1;
+  } else {
+    const { data: latestHandNumber } = await repo.rounds.getLatestHandNumber(dealerGameId);
+
+    newHandNumber = (latestHandNumber ?? 0) + 1;
+    newRoundNumber = newHandNumber;
+  }
+
+  // Atomic claim (same pattern as yahtzee)
+  if (isFirstHand) {
+    const { data: claim } = await repo.games.update(
+      gameId,
+      {
+        status: 'in_progress',
+        current_round: newRoundNumber,
+        total_hands: newHandNumber,
+        awaiting_next_round: false,
+        all_decisions_in: false,
+        last_round_result: null,
+        game_over_at: null,
+        is_first_hand: true,
+      },
+      { neq: { status: 'in_progress' } }
+    );
+
+    if (!claim || claim.length === 0) {
+      console.log('[FARKLE] Another client claimed first-hand start, skipping');
+      return;
+    }
+  } else if (game.awaiting_next_round) {
+    const { data: claim } = await repo.games.update(
+      gameId,
+      {
+        status: 'in_progress',
+        current_round: newRoundNumber,
+        total_hands: newHandNumber,
+        awaiting_next_round: false,
+        all_decisions_in: false,
+        last_round_result: null,
+        game_over_at: null,
+        is_first_hand: false,
+      },
+      // Only one client should succeed: require the current_round we observed
+      { eq: { awaiting_next_round: true, current_round: game.current_round } }
+    );
+    if (!claim || claim.length === 0) {
+      console.log('[FARKLE] Another client claimed rollover, skipping');
+      return;
+    }
+  }
+
+  // Check for existing round
+  const { data: existingRound } = await repo.rounds.findByHand(dealerGameId, newHandNumber, newRoundNumber);
+
+  if (existingRound) {
+    console.log('[FARKLE] Round already exists:', existingRound.id);
+    return;
+  }
+
+  // Get active players
+  const { data: players, error: playersError } = await repo.players.listByGame(gameId);
+
+  if (playersError) {
+    console.error('[FARKLE] Failed to get players:', playersError);
+    throw new Error('Failed to get players');
+  }
+
+  const activePlayers = (players || []).filter(p => !p.sitting_out);
+  const anteAmount = game.ante_amount || 1;
+
+  // Turn order starts left of the dealer
+  const sortedActive = [...activePlayers].sort((a, b) => a.position - b.position);
+  const dealerPos = game.dealer_position;
+  const dealerPlayer = dealerPos ? sortedActive.find(p => p.position === dealerPos) : undefined;
+
+  const state = farkleModule.createInitialState({
+    playerIds: sortedActive.map(p => p.id),
+    dealerPlayerId: dealerPlayer?.id ?? '',
+    anteAmount,
+    config: farkleModule.config.fromGame(game),
+  });
+
+  const controllerUserId =
+    state.turnOrder
+      .map(id => sortedActive.find(p => p.id === id))
+      .find(p => p && !p.is_bot)?.user_id ?? null;
+
+  const initialState = withFarkleTurnDeadline(
+    { ...state, botControllerUserId: controllerUserId },
+    id => Boolean(sortedActive.find(p => p.id === id)?.is_bot)
+  );
+
+  // Farkle doesn't collect antes — the winner collects one from everyone else at the end
+  const potForRound = 0;
+
+  // Create round
+  const { data: round, error: roundError } = await repo.rounds.insert({
+    game_id: gameId,
+    round_number: newRoundNumber,
+    hand_number: newHandNumber,
+    cards_dealt: 2, // Constraint requires >= 2
+    status: 'betting',
+    pot: potForRound,
+    game_state: initialState as unknown as Json,
+    dealer_game_id: dealerGameId || null,
+  });
+
+  if (roundError || !round) {
+    console.error('[FARKLE] Failed to create round:', roundError);
+    throw new Error('Failed to create round');
+  }
+
+  void logDeal(round.id, { state: initialState });
+
+  // Update game pointers
+  await repo.games.update(gameId, {
+    status: 'in_progress',
+    current_round: newRoundNumber,
+    total_hands: newHandNumber,
+    pot: potForRound,
+    all_decisions_in: false,
+    awaiting_next_round: false,
+    last_round_result: null,
+    game_over_at: null,
+    is_first_hand: isFirstHand,
+    config_deadline: null,
+    ante_decision_deadline: null,
+  });
+
+  console.log('[FARKLE] ✅ Round started, target:', initialState.targetScore);
+}
+
+/** Write the state back after a roll or bank */
+export async function updateFarkleState(roundId: string, newState: FarkleState): Promise<boolean> {
+  const { error } = await getGameRepository().rounds.update(
+    roundId,
+    { game_state: JSON.parse(JSON.stringify(newState)) },
+    { neq: { status: 'completed' } }
+  );
+
+  if (error) {
+    console.error('[FARKLE] Failed to update state:', error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Settle a finished game: the winner collects the ante from every other player. Uses the
+ * atomic claim pattern (transition the round to 'completed') so only one client pays out.
+ * A tie moves no chips. Returns the description for endFarkleRound, or null when another
+ * client already settled it.
+ */
+export async function settleFarkleGame(
+  gameId: string,
+  roundId: string,
+  state: FarkleState,
+  anteAmount: number
+): Promise<string | null> {
+  const repo = getGameRepository();
+
+  const { data: claimedRounds, error: claimError } = await repo.rounds.update(
+    roundId,
+    { status: 'completed', game_state: JSON.parse(JSON.stringify(state)) },
+    { neq: { status: 'completed' } }
+  );
+
+  const claimedRound = claimedRounds && claimedRounds.length > 0 ? claimedRounds[0] : null;
+  if (claimError || !claimedRound) {
+    if (claimError) console.error('[FARKLE] Failed to claim result:', claimError);
+    else console.log('[FARKLE] Result already recorded by another client');
+    return null;
+  }
+
+  const scores = [...state.turnOrder]
+    .sort((a, b) => state.playerStates[b].score - state.playerStates[a].score)
+    .map(id => state.playerStates[id].score)
+    .join('-');
+  if (!state.winnerId) return `Tie ${scores}`;
+
+  const winnerId = state.winnerId;
+  const losers = state.turnOrder.filter(id => id !== winnerId);
+  const winAmount = losers.length * anteAmount;
+  const winnerUsername = await fetchPlayerDisplayName(gameId, winnerId);
+  const description = `${winnerUsername} wins ${scores}!`;
+
+  const { error: payError } = await repo.players.incrementChips(winnerId, winAmount);
+  if (payError) console.error('[FARKLE] Failed to pay the winner:', winnerId, payError);
+  if (losers.length > 0) {
+    const { error } = await repo.players.decrementChips(losers, anteAmount);
+    if (error) console.error('[FARKLE] Failed to collect from the losers:', error);
+  }
+
+  const chipChanges: Record<string, number> = Object.fromEntries(losers.map(id => [id, -anteAmount]));
+  chipChanges[winnerId] = winAmount;
+
+  const { error: resultError } = await repo.gameResults.insert({
+    game_id: gameId,
+    dealer_game_id: claimedRound.dealer_game_id,
+    hand_number: claimedRound.hand_number ?? 1,
+    pot_won: winAmount,
+    winner_player_id: winnerId,
+    winner_username: winnerUsername,
+    winning_hand_description: `Score: ${scores}`,
+    is_chopped: false,
+    player_chip_changes: chipChanges,
+    game_type: 'farkle',
+  });
+  if (resultError) console.error('[FARKLE] Failed to record result:', resultError);
+
+  await snapshotPlayerChips(gameId, claimedRound.hand_number ?? 1).catch(err =>
+    console.error('[FARKLE] Failed to snapshot chips:', err));
+
+  return description;
+}
+
+/** End the Farkle game: game over for a winner, a rollover into a new game on a tie */
+export async function endFarkleRound(
+  gameId: string,
+  winnerId: string | null,
+  winnerDescription: string,
+  isTie: boolean = false,
+): Promise<void> {
+  console.log('[FARKLE] Ending round', { gameId, winnerId, winnerDescription, isTie });
+  const repo = getGameRepository();
+
+  if (isTie) {
+    await repo.games.update(gameId, {
+      awaiting_next_round: true,
+      last_round_result: 'Tie - rollover',
+    });
+  } else if (winnerId) {
+    // Use atomic guard: only transition if still in_progress
+    const { data: claim } = await repo.games.update(
+      gameId,
+      {
+        status: 'game_over',
+        last_round_result: winnerDescription,
+        game_over_at: new Date().toISOString(),
+        awaiting_next_round: true,
+      },
+      { eq: { status: 'in_progress' } }
+    );
+
+    if (!claim || claim.length === 0) {
+      // Atomic guard missed — check if game is already game_over (another client beat us)
+      const { data: freshGame } = await repo.games.get(gameId);
+
+      if (freshGame?.status === 'game_over') {
+        console.log('[FARKLE] Game already in game_over, no action needed');
+        return;
+      }
+
+      // Status is something unexpected — force transition to game_over so we don't get stuck
+      console.warn('[FARKLE] Atomic guard missed but game not game_over (status:', freshGame?.status, '), forcing transition');
+      await repo.games.update(gameId, {
+        status: 'game_over',
+        last_round_result: winnerDescription,
+        game_over_at: new Date().toISOString(),
+        awaiting_next_round: true,
+      });
+    }
+  }
+}
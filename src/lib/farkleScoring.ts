@@ -0,0 +1,97 @@
+/**
+ * Farkle Scoring
+ *
+ * Singles: a 1 is 100, a 5 is 50. Three of a kind is 100 times the face (three 1s are 1000).
+ * Four, five and six of a kind, three pairs and the straight score whatever the table's
+ * FarkleScoringRules say. A set of dice only scores when every die in it counts.
+ */
+
+import type { FarkleScoringRules } from './farkleTypes';
+
+/** The scoring most tables start from */
+export const DEFAULT_FARKLE_SCORING: FarkleScoringRules = {
+  threePairs: 1500,
+  straight: 1500,
+  fourOfAKind: 1000,
+  fiveOfAKind: 2000,
+  sixOfAKind: 3000,
+};
+
+const SINGLE_SCORES: Record<number, number> = { 1: 100, 5: 50 };
+
+/** n of a kind (3-6) of one face */
+export function getFarkleKindScore(face: number, count: number, rules: FarkleScoringRules): number {
+  if (count <= 3) return face === 1 ? 1000 : face * 100;
+  const fixed = count === 4 ? rules.fourOfAKind : count === 5 ? rules.fiveOfAKind : rules.sixOfAKind;
+  return fixed > 0 ? fixed : getFarkleKindScore(face, count - 1, rules) * 2;
+}
+
+function countFaces(values: number[]): number[] {
+  const counts = [0, 0, 0, 0, 0, 0, 0];
+  values.forEach(v => counts[v]++);
+  return counts;
+}
+
+/** Best score for `count` of one face using every die, or -1 when some can't score */
+function scoreFace(face: number, count: number, rules: FarkleScoringRules): number {
+  const single = SINGLE_SCORES[face] ?? 0;
+  let best = single > 0 ? count * single : -1;
+  for (let kind = 3; kind <= count; kind++) {
+    const rest = count - kind;
+    if (rest > 0 && single === 0) continue;
+    best = Math.max(best, getFarkleKindScore(face, kind, rules) + rest * single);
+  }
+  return best;
+}
+
+/**
+ * What a set of dice scores when every one of them counts; 0 when any die doesn't score
+ * (or there are no dice).
+ */
+export function scoreFarkleDice(values: number[], rules: FarkleScoringRules): number {
+  if (values.length === 0) return 0;
+  const counts = countFaces(values);
+
+  let byFace = 0;
+  for (let face = 1; face <= 6; face++) {
+    if (counts[face] === 0) continue;
+    const score = scoreFace(face, counts[face], rules);
+    if (score < 0) {
+      byFace = 0;
+      break;
+    }
+    byFace += score;
+  }
+
+  let special = 0;
+  if (values.length === 6) {
+    const faces = counts.slice(1);
+    if (rules.straight > 0 && faces.every(c => c === 1)) special = rules.straight;
+    if (rules.threePairs > 0 && faces.filter(c => c === 2).length === 3) special = Math.max(special, rules.threePairs);
+  }
+  return Math.max(byFace, special);
+}
+
+/**
+ * Every way to set aside scoring dice from a roll: indices into `values` and what they score,
+ * highest score first
+ */
+export function getFarkleScoringOptions(
+  values: number[],
+  rules: FarkleScoringRules
+): Array<{ indices: number[]; score: number }> {
+  const options: Array<{ indices: number[]; score: number }> = [];
+  for (let mask = 1; mask < 1 << values.length; mask++) {
+    const indices = values.map((_, i) => i).filter(i => mask & (1 << i));
+    const score = scoreFarkleDice(indices.map(i => values[i]), rules);
+    if (score > 0) options.push({ indices, score });
+  }
+  return options.sort((a, b) => b.score - a.score || a.indices.length - b.indices.length);
+}
+
+/** Whether a roll has anything to set aside; false is a farkle */
+export function hasFarkleScoringDice(values: number[], rules: FarkleScoringRules): boolean {
+  const counts = countFaces(values);
+  if (counts[1] > 0 || counts[5] > 0 || counts.some(c => c >= 3)) return true;
+  return scoreFarkleDice(values, rules) > 0;
+}
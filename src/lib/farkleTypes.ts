@@ -0,0 +1,81 @@
+// Farkle game types and interfaces
+// Six dice. Each roll the player sets aside at least one scoring die, then banks the turn's
+// points or rolls the rest; a roll with nothing to score is a farkle and loses the turn's
+// points. Setting aside all six ("hot dice") earns a fresh roll of all six.
+
+/**
+ * What the combinations a table argues about are worth. The dealer picks these at setup and
+ * they are stored in the state, so every client and every replay scores alike.
+ */
+export interface FarkleScoringRules {
+  /** Three pairs in one roll; 0 = they don't score as a set */
+  threePairs: number;
+  /** 1-2-3-4-5-6 in one roll; 0 = it doesn't score as a set */
+  straight: number;
+  /** 0 = double the three of a kind */
+  fourOfAKind: number;
+  /** 0 = double the four of a kind */
+  fiveOfAKind: number;
+  /** 0 = double the five of a kind */
+  sixOfAKind: number;
+}
+
+export interface FarklePlayerState {
+  /** Banked points */
+  score: number;
+  /** Whether they have banked the minimum opening score yet */
+  hasOpened: boolean;
+  /** Turns that ended in a farkle */
+  farkles: number;
+}
+
+/** The turn in progress */
+export interface FarkleTurn {
+  /** Dice still in play from the last roll; empty before the turn's first roll */
+  dice: number[];
+  /** Scoring dice set aside this turn, one group per roll */
+  setAside: number[][];
+  /** Points set aside so far this turn */
+  points: number;
+  /** Rolls made this turn */
+  rolls: number;
+  /** Stable per-roll key for the dice fly-in animation (like horses) */
+  rollKey?: number;
+}
+
+/** How a finished turn went, for the hand history */
+export interface FarkleTurnResult {
+  playerId: string;
+  /** Points banked (0 on a farkle) */
+  points: number;
+  farkled: boolean;
+  /** The final roll: the dice that farkled, or the last dice in play when banking */
+  dice: number[];
+  setAside: number[][];
+}
+
+/** The full Farkle state stored in rounds.game_state JSONB */
+export interface FarkleState {
+  currentTurnPlayerId: string | null;
+  playerStates: Record<string, FarklePlayerState>;
+  gamePhase: 'waiting' | 'playing' | 'complete';
+  turnOrder: string[]; // Player IDs in turn order
+  /** Times round the table, counting from 1 */
+  currentRound: number;
+  turn: FarkleTurn;
+  /** Banked score that wins */
+  targetScore: number;
+  /** Points a player must bank in one turn before anything counts (0 = none) */
+  minOpening: number;
+  scoring: FarkleScoringRules;
+  /** The player who first reached the target; everyone else gets one more turn */
+  finalRoundTriggeredBy: string | null;
+  /** Every finished turn, in order */
+  turns: FarkleTurnResult[];
+  /** The high score once the game is complete; null on a tie */
+  winnerId: string | null;
+  /** Single-client bot driver */
+  botControllerUserId?: string | null;
+  /** ISO timestamp deadline for the current player's next roll or bank */
+  turnDeadline?: string | null;
+}
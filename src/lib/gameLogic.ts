@@ -1,6 +1,11 @@
 import { supabase } from "@/integrations/supabase/client";
-import { createDeck, shuffleDeck, type Card, evaluateHand, formatHandRank, formatHandRankDetailed, has357Hand } from "./cardUtils";
+import { createDeck, type Card, evaluateHand, formatHandRank, formatHandRankDetailed, has357Hand } from "./cardUtils";
 import { getBotAlias } from "./botAlias";
+import { getGameDefaultsKey, isGameType, usesHorsesTable, usesSimultaneousDecisions } from "./gameTypes";
+import { shuffleHandDeck } from "./handFairness";
+import { deckLabel } from "@rules/fairness.ts";
+import { getGameRepository } from "./gameRepository";
+import { logDeal, logDecision } from "./handActionLog";
 import { logPlayerDecision, logGameState, logRaceConditionGuard, logStatusChange, logDiceEvent, logAllDecisionsIn } from "./gameStateDebugLog";
 
 /**
@@ -152,20 +157,18 @@ export async function recordGameResult(
     dealerGameId
   });
   
-  const { error } = await supabase
-    .from('game_results')
-    .insert({
-      game_id: gameId,
-      hand_number: handNumber,
-      winner_player_id: winnerPlayerId,
-      winner_username: winnerUsername,
-      winning_hand_description: winningHandDescription,
-      pot_won: potWon,
-      player_chip_changes: playerChipChanges,
-      is_chopped: isChopped,
-      game_type: gameType || null,
-      dealer_game_id: dealerGameId || null
-    });
+  const { error } = await getGameRepository().gameResults.insert({
+    game_id: gameId,
+    hand_number: handNumber,
+    winner_player_id: winnerPlayerId,
+    winner_username: winnerUsername,
+    winning_hand_description: winningHandDescription,
+    pot_won: potWon,
+    player_chip_changes: playerChipChanges,
+    is_chopped: isChopped,
+    game_type: gameType || null,
+    dealer_game_id: dealerGameId || null
+  });
   
   if (error) {
     console.error('[GAME RESULT] Error recording game result:', error);
@@ -177,22 +180,26 @@ export async function recordGameResult(
 export async function startRound(gameId: string, roundNumber: number) {
   console.log('[START_ROUND] Starting round', roundNumber, 'for game', gameId);
   
-  // PARALLEL: Fetch game config + defaults (players are fetched AFTER we reset statuses)
+  // PARALLEL: Fetch game config + defaults (players are fetched AFTER we reset statuses).
+  // Defaults for both simultaneous games come back; the game's own row is picked below.
   const [gameConfigResult, gameDefaultsResult] = await Promise.all([
     supabase
       .from('games')
-      .select('ante_amount, leg_value, status, current_round, total_hands, pot, current_game_uuid, game_over_at')
+      .select('game_type, guts_cards, ante_amount, leg_value, status, current_round, total_hands, pot, current_game_uuid, game_over_at')
       .eq('id', gameId)
       .single(),
     supabase
       .from('game_defaults')
-      .select('decision_timer_seconds')
-      .eq('game_type', '3-5-7')
-      .maybeSingle()
+      .select('game_type, decision_timer_seconds')
+      .in('game_type', ['3-5-7', 'guts'])
   ]);
   
   const gameConfig = gameConfigResult.data;
-  const gameDefaults = gameDefaultsResult.data;
+  const defaultsKey = getGameDefaultsKey(gameConfig?.game_type) ?? '3-5-7';
+  const gameDefaults = gameDefaultsResult.data?.find(d => d.game_type === defaultsKey);
+
+  // Guts deals every hand as round 1 and only antes to start the pot
+  const isGuts = isGameType(gameConfig?.game_type, 'guts');
 
   // CRITICAL GUARD: Block round creation if game is already over or ended
   if (gameConfig?.status === 'game_over' || gameConfig?.status === 'session_ended') {
@@ -207,7 +214,8 @@ export async function startRound(gameId: string, roundNumber: number) {
   }
 
   // Prevent starting if already in progress with this round
-  if (gameConfig?.status === 'in_progress' && gameConfig?.current_round === roundNumber) {
+  // (Guts stays on round 1; the round insert below is its only duplicate guard)
+  if (!isGuts && gameConfig?.status === 'in_progress' && gameConfig?.current_round === roundNumber) {
     logRaceConditionGuard(gameId, 'gameLogic:startRound', 'ROUND_ALREADY_IN_PROGRESS', {
       roundNumber,
       currentRound: gameConfig?.current_round,
@@ -219,7 +227,7 @@ export async function startRound(gameId: string, roundNumber: number) {
   const anteAmount = gameConfig?.ante_amount || 1;
   const legValue = gameConfig?.leg_value || 1;
   const currentGameUuid = gameConfig?.current_game_uuid || null;
-  const cardsToDeal = roundNumber === 1 ? 3 : roundNumber === 2 ? 5 : 7;
+  const cardsToDeal = isGuts ? (gameConfig?.guts_cards ?? 3) : roundNumber === 1 ? 3 : roundNumber === 2 ? 5 : 7;
   const timerSeconds = gameDefaults?.decision_timer_seconds ?? 10;
 
   // NOTE: We no longer delete old rounds - they are preserved for hand history
@@ -250,7 +258,7 @@ export async function startRound(gameId: string, roundNumber: number) {
     .insert({
       game_id: gameId,
       round_number: roundNumber,
-      cards_dealt: roundNumber === 1 ? 3 : roundNumber === 2 ? 5 : 7,
+      cards_dealt: cardsToDeal,
       status: 'betting',
       pot: 0, // Will be updated after ante collection
       decision_deadline: deadline.toISOString(),
@@ -347,8 +355,9 @@ export async function startRound(gameId: string, roundNumber: number) {
     active: activePlayers.map((p) => ({ id: p.id, position: p.position, status: p.status, sitting_out: p.sitting_out })),
   });
   
-  // Charge antes only for round 1 (initial ante or re-ante after round 3 wraps)
-  if (roundNumber === 1) {
+  // Charge antes only for round 1 (initial ante or re-ante after round 3 wraps).
+  // Guts antes once to start the pot, which then carries from hand to hand until it's empty.
+  if (roundNumber === 1 && (!isGuts || !gameConfig?.pot)) {
     console.log('[START_ROUND] Charging antes. Players:', activePlayers.map(p => ({ id: p.id, position: p.position, chips_before: p.chips, is_bot: p.is_bot })));
     
     // Calculate total pot from active players
@@ -384,7 +393,7 @@ export async function startRound(gameId: string, roundNumber: number) {
         0, // pot_won is 0 - this is money going INTO the pot
         anteChipChanges,
         false,
-        '357', // game_type
+        isGuts ? 'guts' : '357', // game_type
         currentGameUuid // dealer_game_id
       );
       console.log('[START_ROUND] Recorded ante chip changes in game_results:', anteChipChanges);
@@ -446,10 +455,6 @@ export async function startRound(gameId: string, roundNumber: number) {
   // Use the inserted round from here on
   const round = insertedRound;
 
-  // Deal cards - create deck and remove already dealt cards
-  let deck = shuffleDeck(createDeck());
-  let cardIndex = 0;
-
   // Get previous round cards if this isn't round 1 (of the current 3-5-7 game)
   // CRITICAL: Use dealer_game_id to ensure we only get cards from THIS game, not previous games
   let previousRoundCards: Map<string, Card[]> = new Map();
@@ -483,6 +488,19 @@ export async function startRound(gameId: string, roundNumber: number) {
     }
   }
   
+  const newCardsToDeal = roundNumber === 1 ? cardsToDeal : 2; // Round 1 gets 3 (Guts 2 or 3), rounds 2 & 3 get 2 new cards
+
+  // Deal cards - create deck and remove already dealt cards
+  // (real-money hands shuffle from the hand's committed seed, one deck per round; enough of
+  // it is dealt to cover the new cards once the ones players already hold are skipped)
+  let deck = await shuffleHandDeck(
+    gameId,
+    createDeck(),
+    alreadyDealtCards.length + newCardsToDeal * activePlayers.length,
+    deckLabel(round.round_number)
+  );
+  let cardIndex = 0;
+
   // Remove already dealt cards from the deck
   if (alreadyDealtCards.length > 0) {
     deck = deck.filter(card => {
@@ -493,8 +511,6 @@ export async function startRound(gameId: string, roundNumber: number) {
     console.log('[START_ROUND] Removed', alreadyDealtCards.length, 'already dealt cards, deck now has', deck.length, 'cards');
   }
 
-  const newCardsToDeal = roundNumber === 1 ? 3 : 2; // Round 1 gets 3, rounds 2 & 3 get 2 new cards
-
   // BATCH: Prepare all player cards for a single insert
   const playerCardInserts: Array<{ player_id: string; round_id: string; cards: any }> = [];
   
@@ -527,9 +543,16 @@ export async function startRound(gameId: string, roundNumber: number) {
     console.log('[START_ROUND] Batch dealt cards to', playerCardInserts.length, 'players');
   }
 
+  // Who was dealt in; the cards stay in player_cards, which keeps them private until shown
+  void logDeal(round.id, {
+    roundNumber: round.round_number,
+    dealtTo: playerCardInserts.map(pc => pc.player_id),
+    cardsDealt: playerCardInserts[0]?.cards.length ?? 0,
+  });
+
   // ============ IMMEDIATE 357 CHECK FOR ROUND 1 ============
   // Check for 3-5-7 hand immediately after dealing cards - no decision needed!
-  if (roundNumber === 1) {
+  if (roundNumber === 1 && !isGuts) {
     console.log('[START_ROUND] Checking for immediate 3-5-7 hands...');
     
     // Fetch all player cards just dealt (include is_bot for alias resolution)
@@ -699,7 +722,7 @@ export async function makeDecision(gameId: string, playerId: string, decision: '
   // CRITICAL GUARD: Dice games (horses, ship-captain-crew) do NOT use makeDecision.
   // They have their own turn-based dice rolling logic. If makeDecision is called for a dice game,
   // it's a bug that will corrupt game state. Bail out immediately.
-  const isDiceGame = game.game_type === 'horses' || game.game_type === 'ship-captain-crew';
+  const isDiceGame = usesHorsesTable(game.game_type);
   if (isDiceGame) {
     console.error('[MAKE DECISION] BLOCKED: makeDecision called for dice game - this is a bug!', {
       gameId,
@@ -718,9 +741,14 @@ export async function makeDecision(gameId: string, playerId: string, decision: '
 
   // CRITICAL: For Holm games, fetch the LATEST round by round_number DESC
   // game.current_round is NOT updated for Holm (to avoid check constraint violation)
-  const isHolmGame = game.game_type === 'holm-game';
-  const is357Game = game.game_type === '3-5-7' || game.game_type === '3-5-7-game' || game.game_type === '357';
-  const handNumber = typeof game.total_hands === 'number' ? game.total_hands : 1;
+  const isHolmGame = isGameType(game.game_type, 'holm-game');
+
+  // 3-5-7 and Guts decisions are server-authoritative: the RPC validates, records and closes betting atomically.
+  if (usesSimultaneousDecisions(game.game_type)) {
+    await submit357Decision(gameId, playerId, decision);
+    return;
+  }
+
   const roundNumber = typeof game.current_round === 'number' ? game.current_round : null;
 
   if (!isHolmGame && roundNumber === null) {
@@ -757,38 +785,24 @@ export async function makeDecision(gameId: string, playerId: string, decision: '
     currentRound = latestRound;
     console.log('[MAKE DECISION] Holm game - using latest round by round_number:', latestRound?.round_number);
   } else {
-    if (is357Game) {
-      // 3-5-7 can have multiple round_number=1/2/3 rows across hands.
-      // Disambiguate via (dealer_game_id, hand_number, round_number).
-      const { data: round357 } = await supabase
-        .from('rounds')
-        .select('*')
-        .eq('game_id', gameId)
-        .eq('dealer_game_id', game.current_game_uuid)
-        .eq('hand_number', handNumber)
-        .eq('round_number', roundNumber)
-        .maybeSingle();
-      currentRound = round357;
-    } else {
-      // Non-3-5-7 games can restart at round_number=1 when a new dealer game starts.
-      // Always scope to the active dealer_game_id when available and take the latest by (hand_number, round_number).
-      const baseRoundQuery = supabase
-        .from('rounds')
-        .select('*')
-        .eq('game_id', gameId);
+    // Non-3-5-7 games can restart at round_number=1 when a new dealer game starts.
+    // Always scope to the active dealer_game_id when available and take the latest by (hand_number, round_number).
+    const baseRoundQuery = supabase
+      .from('rounds')
+      .select('*')
+      .eq('game_id', gameId);
 
-      const scopedQuery = game.current_game_uuid
-        ? baseRoundQuery.eq('dealer_game_id', game.current_game_uuid)
-        : baseRoundQuery;
+    const scopedQuery = game.current_game_uuid
+      ? baseRoundQuery.eq('dealer_game_id', game.current_game_uuid)
+      : baseRoundQuery;
 
-      const { data: latestRound } = await scopedQuery
-        .order('hand_number', { ascending: false })
-        .order('round_number', { ascending: false })
-        .limit(1)
-        .maybeSingle();
+    const { data: latestRound } = await scopedQuery
+      .order('hand_number', { ascending: false })
+      .order('round_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
-      currentRound = latestRound;
-    }
+    currentRound = latestRound;
   }
   
   if (!currentRound) {
@@ -903,6 +917,8 @@ export async function makeDecision(gameId: string, playerId: string, decision: '
     
     console.log(`[MAKE_DECISION] ✅ STAY SUCCESS: player=${shortPlayerId} position=${player.position} decision_locked=true`);
     
+    void logDecision(currentRound.id, playerId, 'stay');
+
     // DEBUG LOG: Player stay decision (fire-and-forget)
     logPlayerDecision(gameId, playerId, 'stay', true, 'gameLogic:makeDecision:staySuccess', {
       round_id: currentRound.id,
@@ -915,7 +931,7 @@ export async function makeDecision(gameId: string, playerId: string, decision: '
     });
   } else {
     // In Holm game, folding only affects current hand - keep status 'active'
-    // In 3-5-7 game, folding eliminates player from entire session - set status 'folded'
+    // Other games: folding eliminates player from entire session - set status 'folded'
     const updatePayload = { 
       current_decision: 'fold',
       decision_locked: true,
@@ -975,6 +991,8 @@ export async function makeDecision(gameId: string, playerId: string, decision: '
     
     console.log(`[MAKE_DECISION] ✅ FOLD SUCCESS: player=${shortPlayerId} position=${player.position} decision_locked=true status=${isHolmGame ? 'active' : 'folded'}`);
     
+    void logDecision(currentRound.id, playerId, 'fold');
+
     // DEBUG LOG: Player fold decision (fire-and-forget)
     logPlayerDecision(gameId, playerId, 'fold', true, 'gameLogic:makeDecision:foldSuccess', {
       round_id: currentRound.id,
@@ -1000,13 +1018,129 @@ export async function makeDecision(gameId: string, playerId: string, decision: '
     await checkHolmRoundComplete(gameId, player.position);
   } else {
     // Check if all players have decided (only for non-Holm games)
-    console.log(`[MAKE_DECISION] 3-5-7 game - calling checkAllDecisionsIn for game=${shortGameId}`);
+    console.log(`[MAKE_DECISION] Non-Holm game - calling checkAllDecisionsIn for game=${shortGameId}`);
     await checkAllDecisionsIn(gameId);
   }
   
   console.log(`[MAKE_DECISION] ===== COMPLETE ===== game=${shortGameId} player=${shortPlayerId} decision=${decision}`);
 }
 
+interface Submit357DecisionResult {
+  accepted: boolean;
+  reason?: string;
+  round_id?: string;
+  decision?: 'stay' | 'fold' | null;
+  all_decisions_in?: boolean;
+}
+
+/**
+ * Submit a 3-5-7 or Guts stay/fold intent to the server (submit_357_decision RPC).
+ * The RPC locks the game row, validates the acting player, records the decision and,
+ * if it was the last one, sets all_decisions_in in the same transaction. Only the caller
+ * whose decision closed betting runs endRound, so there is no client-side race to guard.
+ * A decision rejected because betting already closed re-runs endRound, in case that caller never did.
+ */
+async function submit357Decision(
+  gameId: string,
+  playerId: string,
+  decision: 'stay' | 'fold',
+  markAutoFold: boolean = false
+): Promise<Submit357DecisionResult> {
+  const { data, error } = await supabase.rpc('submit_357_decision', {
+    _game_id: gameId,
+    _player_id: playerId,
+    _decision: decision,
+    _mark_auto_fold: markAutoFold,
+  });
+
+  if (error) {
+    console.error('[SUBMIT_357_DECISION] RPC failed:', { gameId, playerId, decision, error: error.message });
+    await logGameState({
+      gameId,
+      playerId,
+      eventType: 'PLAYER_DECISION_MADE',
+      playerDecision: decision,
+      sourceLocation: 'gameLogic:submit357Decision:rpcError',
+      details: { error: error.message, error_code: error.code, timestamp: new Date().toISOString() },
+    });
+    throw new Error(`Decision failed: ${error.message}`);
+  }
+
+  const result = data as unknown as Submit357DecisionResult;
+
+  if (!result.accepted) {
+    console.log(`[SUBMIT_357_DECISION] Rejected: ${result.reason}`, { gameId, playerId, decision });
+    // Betting may have closed without endRound ever running (e.g. the closing client crashed)
+    if (result.reason === 'betting_closed') {
+      await recoverClosedBetting(gameId, 'SUBMIT_357_DECISION');
+    }
+    return result;
+  }
+
+  if (result.round_id) {
+    void logDecision(result.round_id, playerId, decision, { autoFold: markAutoFold });
+  }
+
+  logPlayerDecision(gameId, playerId, decision, true, 'gameLogic:submit357Decision', {
+    round_id: result.round_id,
+    all_decisions_in: result.all_decisions_in,
+    auto_fold: markAutoFold,
+    timestamp: new Date().toISOString(),
+  });
+
+  if (result.all_decisions_in) {
+    await logAllDecisionsIn(gameId, result.round_id ?? null, true, 'gameLogic:submit357Decision', {
+      closing_player_id: playerId,
+      closing_decision: decision,
+    });
+    try {
+      await endRound(gameId);
+    } catch (endRoundError) {
+      console.error('[SUBMIT_357_DECISION] ❌ ERROR in endRound:', endRoundError);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Run endRound for a round whose betting already closed (all_decisions_in is set).
+ * endRound is idempotent and has its own atomic round lock, so it's safe to call again.
+ */
+async function endClosedRound(
+  gameId: string,
+  game: { status: string; is_paused: boolean | null; game_type: string | null },
+  source: string
+) {
+  console.warn(`[${source}] all_decisions_in already true - attempting recovery endRound`, {
+    gameId: gameId.slice(0, 8),
+    status: game.status,
+    isPaused: game.is_paused,
+    gameType: game.game_type,
+  });
+
+  if (!game.is_paused && game.status === 'in_progress') {
+    try {
+      await endRound(gameId);
+    } catch (err) {
+      console.error(`[${source}] Recovery endRound failed:`, err);
+    }
+  }
+}
+
+/** Re-read the game and finish its round if betting closed without endRound running */
+async function recoverClosedBetting(gameId: string, source: string) {
+  const { data: game } = await supabase
+    .from('games')
+    .select('all_decisions_in, status, is_paused, game_type')
+    .eq('id', gameId)
+    .single();
+
+  if (game?.all_decisions_in) {
+    await endClosedRound(gameId, game, source);
+  }
+}
+
 async function checkAllDecisionsIn(gameId: string) {
   const shortGameId = gameId.slice(0, 8);
   const checkTimestamp = new Date().toISOString();
@@ -1027,23 +1161,8 @@ async function checkAllDecisionsIn(gameId: string) {
   // RECOVERY: It's possible for all_decisions_in to be set true but endRound never ran
   // (e.g. client crash / refresh right after the atomic flag update). In that case the game
   // would be permanently stuck because this function would "skip" forever.
-  // endRound is idempotent and has its own atomic round lock, so it's safe to call here.
   if (game?.all_decisions_in) {
-    console.warn(`[CHECK_ALL_DECISIONS] all_decisions_in already true - attempting recovery endRound`, {
-      gameId: shortGameId,
-      status: game.status,
-      isPaused: game.is_paused,
-      gameType: game.game_type,
-    });
-
-    if (!game.is_paused && game.status === 'in_progress') {
-      try {
-        await endRound(gameId);
-      } catch (err) {
-        console.error('[CHECK_ALL_DECISIONS] Recovery endRound failed:', err);
-      }
-    }
-
+    await endClosedRound(gameId, game, 'CHECK_ALL_DECISIONS');
     return;
   }
 
@@ -1127,7 +1246,8 @@ export async function autoFoldUndecided(gameId: string) {
     .eq('id', gameId)
     .single();
   
-  const isHolmGame = game?.game_type === 'holm-game';
+  const isHolmGame = isGameType(game?.game_type, 'holm-game');
+  const isSimultaneousGame = usesSimultaneousDecisions(game?.game_type);
   
   // Get players who haven't decided yet (active and not sitting out)
   const { data: undecidedPlayers, error: fetchError } = await supabase
@@ -1151,6 +1271,19 @@ export async function autoFoldUndecided(gameId: string) {
 
   console.log('[AUTO-FOLD] Auto-folding', undecidedPlayers.length, 'undecided players');
 
+  // 3-5-7 and Guts: timer-expiry folds go through the same server action as player decisions.
+  // Whichever fold closes betting runs endRound inside submit357Decision.
+  if (isSimultaneousGame) {
+    for (const player of undecidedPlayers) {
+      try {
+        await submit357Decision(gameId, player.id, 'fold', true);
+      } catch (err) {
+        console.error('[AUTO-FOLD] Error folding player:', player.id, err);
+      }
+    }
+    return;
+  }
+
   // Auto-fold all undecided players
   // In Holm game, keep status 'active' so they can play next hand
   for (const player of undecidedPlayers) {
@@ -1369,7 +1502,7 @@ export async function endRound(gameId: string) {
   // Fetch game configuration
   const { data: gameConfig } = await supabase
     .from('games')
-    .select('leg_value, legs_to_win, pot_max_enabled, pot_max_value, pussy_tax_enabled, pussy_tax_value, current_game_uuid, reveal_at_showdown')
+    .select('leg_value, legs_to_win, pot_max_enabled, pot_max_value, pussy_tax_enabled, pussy_tax_value, current_game_uuid, reveal_at_showdown, guts_bleed_enabled, guts_bleed_value')
     .eq('id', gameId)
     .single();
   
@@ -1387,7 +1520,8 @@ export async function endRound(gameId: string) {
   const currentRound = game.current_round;
 
   // Get all player hands for this round
-  const is357Game = game.game_type === '3-5-7' || game.game_type === '3-5-7-game' || game.game_type === '357';
+  const is357Game = isGameType(game.game_type, '3-5-7');
+  const isGuts = isGameType(game.game_type, 'guts');
   const handNumber = typeof game.total_hands === 'number' ? game.total_hands : 1;
   
   console.log(`[END_ROUND] Config: is357Game=${is357Game} handNumber=${handNumber} currentRound=${currentRound} dealerGameId=${currentGameUuid?.slice(0,8)}`);
@@ -1402,7 +1536,7 @@ export async function endRound(gameId: string) {
 
   let round: any | null = null;
 
-  if (is357Game) {
+  if (is357Game || isGuts) {
     const { data } = await baseRoundQuery
       .eq('dealer_game_id', currentGameUuid)
       .eq('hand_number', handNumber)
@@ -1487,6 +1621,25 @@ export async function endRound(gameId: string) {
     return;
   }
 
+  // Guts settles every hand on its own (no legs, sweeps or pussy tax)
+  if (isGuts) {
+    const { endGutsRound } = await import('./gutsRoundLogic');
+    await endGutsRound(
+      gameId,
+      { pot: game.pot, total_hands: game.total_hands, reveal_at_showdown: revealAtShowdown },
+      round,
+      allPlayers,
+      {
+        potMaxEnabled,
+        potMaxValue,
+        bleedEnabled: gameConfig?.guts_bleed_enabled ?? false,
+        bleedValue: gameConfig?.guts_bleed_value || 5,
+      },
+      currentGameUuid
+    );
+    return;
+  }
+
   // Find players who stayed (didn't fold)
   const playersWhoStayed = allPlayers.filter(p => p.current_decision === 'stay');
   const playersWhoFolded = allPlayers.filter(p => p.current_decision === 'fold');
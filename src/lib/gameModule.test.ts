@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { createSeededRandom } from '@rules/random.ts';
+import { getCribbageCountScore } from './cribbageGameLogic';
+import type { CribbageCountDeclaration } from './cribbageTypes';
+import { getGameRules, usesGameModule, type GameRules } from './gameModule';
+import { aceyDeuceyModule } from './aceyDeuceyModule';
+import { cribbageModule } from './cribbageModule';
+import { euchreModule } from './euchreModule';
+import { farkleModule } from './farkleModule';
+import { ginRummyModule } from './ginRummyModule';
+import { holdemModule } from './holdemModule';
+import { leftRightCenterModule } from './leftRightCenterModule';
+import { liarsDiceModule } from './liarsDiceModule';
+import { screwYourNeighborModule } from './screwYourNeighborModule';
+import { spadesModule } from './spadesModule';
+import { studModule } from './studModule';
+import { yahtzeeModule } from './yahtzeeModule';
+
+// Bots take every seat until the hand is over
+function playOut<State, Action, Config>(
+  rules: GameRules<State, Action, Config>,
+  playerIds: string[],
+  seed: string,
+  anteAmount = 1,
+  config = rules.config.defaults
+) {
+  const random = createSeededRandom(seed);
+  let state = rules.createInitialState(
+    { playerIds, dealerPlayerId: playerIds[0], anteAmount, config },
+    random
+  );
+  let actions = 0;
+  while (!rules.isHandOver(state)) {
+    const playerId = rules.getActivePlayerId(state);
+    expect(playerId).not.toBeNull();
+    const action = rules.botAction(state, playerId!);
+    expect(action).not.toBeNull();
+    state = rules.reduce(state, action!, random);
+    if (++actions > 500) throw new Error('Hand did not finish');
+  }
+  return state;
+}
+
+describe('game modules', () => {
+  it('resolves modules through game type aliases', () => {
+    expect(getGameRules('ginrummy')?.id).toBe('gin-rummy');
+    expect(usesGameModule('cribbage')).toBe(true);
+    expect(usesGameModule('yahtzee')).toBe(true);
+    expect(usesGameModule('3-5-7-game')).toBe(false);
+  });
+
+  it('reads dealer setup from a games row', () => {
+    expect(getGameRules('cribbage')!.config.fromGame({ points_to_win: 61, skunk_enabled: false })).toMatchObject({
+      pointsToWin: 61,
+      skunkEnabled: false,
+      skunkThreshold: 91,
+    });
+    expect(getGameRules('gin-rummy')!.config.fromGame({})).toEqual({ pointsToWin: 100, oklahoma: false, hollywood: false });
+    expect(getGameRules('gin-rummy')!.config.fromGame({ gin_oklahoma: true, gin_hollywood: true })).toMatchObject({
+      oklahoma: true,
+      hollywood: true,
+    });
+  });
+
+  it('plays a cribbage hand through to counting', () => {
+    const state = playOut(cribbageModule, ['a', 'b'], 'cribbage');
+    expect(state.crib).toHaveLength(4);
+    expect(state.lastHandCount ?? null).toBeNull();
+  });
+
+  it('has bots declare every count in a muggins hand', () => {
+    const rules = cribbageModule;
+    const state = playOut(rules, ['a', 'b'], 'cribbage', 1, { ...rules.config.defaults, muggins: true });
+    expect(state.counts).toHaveLength(3);
+    expect(state.counts.every((c: CribbageCountDeclaration) => c.declared === getCribbageCountScore(state, c))).toBe(true);
+  });
+
+  it('plays a gin rummy hand through to a result', () => {
+    const state = playOut(ginRummyModule, ['a', 'b'], 'gin');
+    expect(state.phase).toBe('complete');
+  });
+
+  it('plays an Oklahoma Hollywood gin rummy hand onto the score sheet', () => {
+    const rules = ginRummyModule;
+    const state = playOut(rules, ['a', 'b'], 'gin', 1, { ...rules.config.defaults, oklahoma: true, hollywood: true });
+    expect(state.hollywood).toHaveLength(3);
+    if (state.knockResult) {
+      expect(state.knockResult.isGin || state.knockResult.knockerDeadwood <= state.knockLimit).toBe(true);
+      expect(state.knockResult.hollywoodGames).toEqual([0]);
+    }
+  });
+
+  it("plays a hold'em hand through to a settled pot", () => {
+    const state = playOut(holdemModule, ['a', 'b', 'c'], 'holdem', 100);
+    const stacks = Object.values(state.playerStates).map((ps: { stack: number }) => ps.stack);
+    expect(state.results.length).toBeGreaterThan(0);
+    expect(stacks.reduce((sum: number, stack: number) => sum + stack, 0)).toBe(300);
+  });
+
+  it('plays a Follow the Queen stud hand through to a settled pot', () => {
+    const rules = studModule;
+    const state = playOut(rules, ['a', 'b', 'c'], 'stud', 100, { ...rules.config.defaults, variant: 'follow-the-queen' });
+    const stacks = Object.values(state.playerStates).map((ps: { stack: number }) => ps.stack);
+    expect(state.results.length).toBeGreaterThan(0);
+    expect(stacks.reduce((sum: number, stack: number) => sum + stack, 0)).toBe(300);
+  });
+
+  it('plays an acey-deucey hand with the pot carried in the state', () => {
+    const rules = aceyDeuceyModule;
+    const state = playOut(rules, ['a', 'b', 'c'], 'acey', 5);
+    const taken = state.turns.reduce((sum: number, turn: { chipChange: number }) => sum + turn.chipChange, 0);
+    expect(state.turns.length).toBeGreaterThan(0);
+    expect(state.pot).toBe(15 - taken);
+  });
+
+  it('plays a screw your neighbor hand through to the reveal', () => {
+    const state = playOut(screwYourNeighborModule, ['a', 'b', 'c', 'd'], 'syn');
+    expect(state.moves.length).toBe(4);
+    expect(state.loserIds.length).toBeGreaterThan(0);
+  });
+
+  it('plays a wild left right center game until one player holds the chips', () => {
+    const rules = leftRightCenterModule;
+    const state = playOut(rules, ['a', 'b', 'c', 'd'], 'lcr', 1, { chipsPerPlayer: 3, wild: true });
+    const holders = state.turnOrder.filter((id: string) => state.chips[id] > 0);
+    expect(holders.length).toBeLessThanOrEqual(1);
+    expect(state.center + Object.values(state.chips).reduce((sum: number, chips) => sum + (chips as number), 0)).toBe(12);
+  });
+
+  it('plays a yahtzee game until every scorecard is full', () => {
+    const state = playOut(yahtzeeModule, ['a', 'b'], 'yahtzee');
+    expect(state.turnOrder).toEqual(['b', 'a']);
+    expect(Object.values(state.playerStates).every((ps: { isComplete: boolean }) => ps.isComplete)).toBe(true);
+  });
+
+  it('plays a farkle game through the final round', () => {
+    const rules = farkleModule;
+    const state = playOut(rules, ['a', 'b', 'c'], 'farkle', 1, { ...rules.config.defaults, targetScore: 2000 });
+    expect(state.finalRoundTriggeredBy).not.toBeNull();
+    // Everyone after the player who reached the target got one more turn
+    const trigger = state.turnOrder.indexOf(state.finalRoundTriggeredBy);
+    expect(state.turns[state.turns.length - 1].playerId).toBe(state.turnOrder[(trigger + 2) % 3]);
+  });
+
+  it("plays a liar's dice hand through to a call", () => {
+    const state = playOut(liarsDiceModule, ['a', 'b', 'c'], 'liars-dice');
+    expect(state.challenge.loserId).not.toBeNull();
+    expect([state.challenge.challengerId, state.challenge.bid.playerId]).toContain(state.challenge.loserId);
+  });
+
+  it('plays a spades hand through all thirteen tricks', () => {
+    const state = playOut(spadesModule, ['a', 'b', 'c', 'd'], 'spades');
+    expect(state.tricks).toHaveLength(13);
+    expect(state.result!.teams.map(t => t.score)).toEqual(state.result!.teams.map(t => t.contractPoints + t.nilPoints + t.bagPenalty));
+  });
+
+  it('plays a euchre hand through to a score', () => {
+    const state = playOut(euchreModule, ['a', 'b', 'c', 'd'], 'euchre');
+    expect(state.result!.scores).toEqual(state.result!.points);
+    if (state.makerId) expect(state.tricks).toHaveLength(5);
+  });
+
+  it('rejects actions out of turn', () => {
+    const rules = yahtzeeModule;
+    const state = rules.createInitialState({ playerIds: ['a', 'b'], dealerPlayerId: 'a', anteAmount: 1, config: {} });
+    expect(() => rules.reduce(state, { type: 'roll', playerId: 'a' })).toThrow('Not your turn');
+  });
+});
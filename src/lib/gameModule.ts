@@ -0,0 +1,95 @@
+/**
+ * Game module contract.
+ *
+ * A game that plugs in through a module owns its whole state shape: it is stored
+ * as-is in rounds.game_state, and everything that needs to understand it goes
+ * through the module. This file is the rules half (pure - no React, no Supabase)
+ * so bots and headless tools can drive a hand; the table and hand-history
+ * renderers are added on top in src/components/game-modules.
+ */
+
+import type { Tables } from '@/integrations/supabase/types';
+import type { RandomSource } from '@rules/random.ts';
+import { canonicalGameType, type GameTypeId } from '@rules/gameTypes.ts';
+import { aceyDeuceyModule } from './aceyDeuceyModule';
+import { cribbageModule } from './cribbageModule';
+import { euchreModule } from './euchreModule';
+import { farkleModule } from './farkleModule';
+import { ginRummyModule } from './ginRummyModule';
+import { holdemModule } from './holdemModule';
+import { leftRightCenterModule } from './leftRightCenterModule';
+import { liarsDiceModule } from './liarsDiceModule';
+import { screwYourNeighborModule } from './screwYourNeighborModule';
+import { spadesModule } from './spadesModule';
+import { studModule } from './studModule';
+import { yahtzeeModule } from './yahtzeeModule';
+
+/** The games row a module reads its dealer-setup options from */
+export type GameConfigRow = Partial<Tables<'games'>>;
+
+export interface GameConfigSchema<Config> {
+  defaults: Config;
+  /** Dealer-setup options for a game, falling back to the defaults */
+  fromGame(game: GameConfigRow): Config;
+}
+
+export interface GameSetup<Config> {
+  /** Player ids in seat order */
+  playerIds: string[];
+  dealerPlayerId: string;
+  anteAmount: number;
+  config: Config;
+}
+
+export interface GameRules<State, Action, Config> {
+  id: GameTypeId;
+  config: GameConfigSchema<Config>;
+  /** State for a freshly dealt hand */
+  createInitialState(setup: GameSetup<Config>, random?: RandomSource): State;
+  /**
+   * Apply one action and return the settled state: steps no player decides
+   * (scoring a gin hand, counting cribbage hands) are applied as well.
+   * Throws on an illegal action.
+   */
+  reduce(state: State, action: Action, random?: RandomSource): State;
+  /** Player who has to act next, or null when nobody can */
+  getActivePlayerId(state: State): string | null;
+  isHandOver(state: State): boolean;
+  /** The bot policy: the action a bot in this seat takes, or null if it has none */
+  botAction(state: State, playerId: string): Action | null;
+}
+
+/**
+ * Rules for any game, its types unknown to the caller. The methods take their arguments
+ * bivariantly, so every module fits; what one hands back goes into the same module only.
+ */
+export type AnyGameRules = GameRules<unknown, unknown, unknown>;
+
+const GAME_RULES: Partial<Record<GameTypeId, AnyGameRules>> = {
+  'acey-deucey': aceyDeuceyModule,
+  cribbage: cribbageModule,
+  euchre: euchreModule,
+  farkle: farkleModule,
+  'gin-rummy': ginRummyModule,
+  holdem: holdemModule,
+  'left-right-center': leftRightCenterModule,
+  'liars-dice': liarsDiceModule,
+  'screw-your-neighbor': screwYourNeighborModule,
+  spades: spadesModule,
+  stud: studModule,
+  yahtzee: yahtzeeModule,
+};
+
+/**
+ * Rules module for a stored game_type, or undefined for games that still keep
+ * their own state columns (poker games, horses, trivia)
+ */
+export function getGameRules(gameType: string | null | undefined): AnyGameRules | undefined {
+  const id = canonicalGameType(gameType);
+  return id ? GAME_RULES[id] : undefined;
+}
+
+/** Whether a game keeps its state in rounds.game_state */
+export function usesGameModule(gameType: string | null | undefined): boolean {
+  return getGameRules(gameType) !== undefined;
+}
@@ -0,0 +1,144 @@
+// Data access for round orchestration - games, players, rounds, player_cards, game_results, hand_actions
+//
+// Round logic talks to this interface instead of calling supabase.from(...) directly,
+// so whole multi-client round flows (including the lost-race paths) can run against
+// the in-memory backend (inMemoryGameRepository.ts). The app uses the Supabase backend.
+//
+// Results keep Supabase's { data, error } shape so call sites handle failures the way
+// they always have. Conditional updates resolve to the rows they actually changed,
+// which is how callers find out whether they won a claim.
+
+import type { Json, Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { supabaseGameRepository } from './supabaseGameRepository';
+import { getBotAlias } from './botAlias';
+
+export type GameRow = Tables<'games'>;
+export type PlayerRow = Tables<'players'>;
+export type RoundRow = Tables<'rounds'>;
+export type PlayerCardsRow = Tables<'player_cards'>;
+export type GameResultRow = Tables<'game_results'>;
+export type GameDefaultsRow = Tables<'game_defaults'>;
+export type HandActionRow = Tables<'hand_actions'>;
+
+/** An action for the hand a round belongs to (see handActionLog.ts) */
+export interface NewHandAction {
+  roundId: string;
+  actionType: string;
+  playerId?: string | null;
+  payload?: Json;
+  /** Logging the same key twice keeps the first action */
+  actionKey?: string | null;
+}
+
+/** What swap_screw_your_neighbor_cards hands back to the player who swapped */
+export interface ScrewYourNeighborSwap {
+  /** The round's stored state after the swap */
+  state: Json;
+  /** The neighbor's king if it blocked the swap, else null */
+  blockedBy: Json;
+  /** The swapping player's card now */
+  card: Json;
+}
+
+/** A player with the profile username the UI shows (bots get an alias instead, see botAlias.ts) */
+export type PlayerWithProfile = PlayerRow & { profiles: { username: string } | null };
+
+export interface RepositoryError {
+  message: string;
+  /** Postgres error code where there is one (see UNIQUE_VIOLATION) */
+  code?: string;
+}
+
+export interface RepositoryResult<T> {
+  data: T | null;
+  error: RepositoryError | null;
+}
+
+/** Column conditions for a conditional update; a null value means IS NULL / IS NOT NULL */
+export interface RowFilter<Row> {
+  eq?: Partial<Row>;
+  neq?: Partial<Row>;
+}
+
+export const UNIQUE_VIOLATION = '23505';
+
+/** Another client already inserted the same row (the insert-as-lock guards rely on this) */
+export function isUniqueViolation(error: RepositoryError | null | undefined): boolean {
+  return error?.code === UNIQUE_VIOLATION || !!error?.message?.includes('duplicate key');
+}
+
+export interface GameRepository {
+  games: {
+    get(gameId: string): Promise<RepositoryResult<GameRow>>;
+    /** Resolves to the updated rows: empty when the filter no longer matches */
+    update(gameId: string, patch: TablesUpdate<'games'>, filter?: RowFilter<GameRow>): Promise<RepositoryResult<GameRow[]>>;
+    getDealerGameConfig(dealerGameId: string): Promise<RepositoryResult<Json>>;
+    getDefaults(gameType: string): Promise<RepositoryResult<GameDefaultsRow>>;
+  };
+  players: {
+    get(playerId: string): Promise<RepositoryResult<PlayerWithProfile>>;
+    /** Every player in the game, ordered by position */
+    listByGame(gameId: string): Promise<RepositoryResult<PlayerWithProfile[]>>;
+    update(playerIds: string[], patch: TablesUpdate<'players'>): Promise<RepositoryResult<PlayerRow[]>>;
+    updateByGame(gameId: string, patch: TablesUpdate<'players'>): Promise<RepositoryResult<PlayerRow[]>>;
+    /** Atomic chips += amount (increment_player_chips) */
+    incrementChips(playerId: string, amount: number): Promise<RepositoryResult<number>>;
+    /** Atomic chips -= amount for each player (decrement_player_chips) */
+    decrementChips(playerIds: string[], amount: number): Promise<RepositoryResult<null>>;
+  };
+  rounds: {
+    get(roundId: string): Promise<RepositoryResult<RoundRow>>;
+    findByHand(dealerGameId: string | null, handNumber: number, roundNumber: number): Promise<RepositoryResult<RoundRow>>;
+    /** Highest hand_number in the dealer game, 0 when it has no rounds yet */
+    getLatestHandNumber(dealerGameId: string | null): Promise<RepositoryResult<number>>;
+    /** Fails with UNIQUE_VIOLATION when (dealer_game_id, hand_number, round_number) is taken */
+    insert(round: TablesInsert<'rounds'>): Promise<RepositoryResult<RoundRow>>;
+    update(roundId: string, patch: TablesUpdate<'rounds'>, filter?: RowFilter<RoundRow>): Promise<RepositoryResult<RoundRow[]>>;
+  };
+  playerCards: {
+    /** A player's cards for the round; RLS hides other players' until the round shows down */
+    get(roundId: string, playerId: string): Promise<RepositoryResult<PlayerCardsRow>>;
+    /** Fails with UNIQUE_VIOLATION when a player already has cards for the round */
+    insert(rows: TablesInsert<'player_cards'>[]): Promise<RepositoryResult<null>>;
+    /** Insert or replace on (player_id, round_id) */
+    upsert(row: TablesInsert<'player_cards'>): Promise<RepositoryResult<null>>;
+    /** Change the given players' rows for the round, e.g. who else may see the cards */
+    update(roundId: string, playerIds: string[], patch: TablesUpdate<'player_cards'>): Promise<RepositoryResult<PlayerCardsRow[]>>;
+    /**
+     * Screw Your Neighbor: the player to act trades cards with the one on their left (unless
+     * it's a king) and the turn moves on, all on the server (swap_screw_your_neighbor_cards)
+     */
+    swapScrewYourNeighborCards(roundId: string): Promise<RepositoryResult<ScrewYourNeighborSwap>>;
+  };
+  gameResults: {
+    /** Also logs the payout into the hand's action log (a trigger on the Supabase side) */
+    insert(result: TablesInsert<'game_results'>): Promise<RepositoryResult<null>>;
+  };
+  handActions: {
+    /** Resolves to the action's sequence number within its hand */
+    append(action: NewHandAction): Promise<RepositoryResult<number>>;
+    /** The whole log of the hand the round belongs to, in sequence order */
+    listByHand(roundId: string): Promise<RepositoryResult<HandActionRow[]>>;
+  };
+}
+
+let current: GameRepository = supabaseGameRepository;
+
+export function getGameRepository(): GameRepository {
+  return current;
+}
+
+/** Swap the backend (tests and the headless tools); pass nothing to go back to Supabase */
+export function setGameRepository(repository?: GameRepository): void {
+  current = repository ?? supabaseGameRepository;
+}
+
+/** Username for results and announcements: bots get their session alias */
+export async function fetchPlayerDisplayName(gameId: string, playerId: string): Promise<string> {
+  const repo = getGameRepository();
+  const { data: player } = await repo.players.get(playerId);
+  if (!player?.is_bot) return player?.profiles?.username || 'Player';
+
+  const { data: players } = await repo.players.listByGame(gameId);
+  return players ? getBotAlias(players, player.user_id) : 'Player';
+}
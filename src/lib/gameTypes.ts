@@ -0,0 +1,2 @@
+// The game type registry lives in the shared rules package so the edge functions resolve game types the same way.
+export * from '@rules/gameTypes.ts';
@@ -155,11 +155,13 @@ export function botChooseDiscard(
 
 /**
  * Should the bot knock (or gin) instead of just discarding?
+ * knockLimit is the hand's limit (lower in Oklahoma).
  * Returns { shouldKnock: boolean, discardIndex: number }
  */
 export function botShouldKnock(
   hand: GinRummyCard[],
-  drawnFromDiscard: GinRummyCard | null
+  drawnFromDiscard: GinRummyCard | null,
+  knockLimit = KNOCK_DEADWOOD_LIMIT
 ): { shouldKnock: boolean; discardIndex: number } {
   // Try each possible discard and check if we can knock
   let bestKnockIdx = -1;
@@ -174,7 +176,7 @@ export function botShouldKnock(
     const remaining = hand.filter((_, j) => j !== i);
     const grouping = findOptimalMelds(remaining);
     
-    if (grouping.deadwoodValue <= KNOCK_DEADWOOD_LIMIT && grouping.deadwoodValue < bestDeadwood) {
+    if (grouping.deadwoodValue <= knockLimit && grouping.deadwoodValue < bestDeadwood) {
       bestDeadwood = grouping.deadwoodValue;
       bestKnockIdx = i;
     }
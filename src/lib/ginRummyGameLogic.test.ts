@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   createInitialGinRummyState,
   dealHand,
@@ -14,6 +14,8 @@ import {
   getNextDealer,
   getDiscardTop,
 } from './ginRummyGameLogic';
+import { createSeededRandom } from '@rules/random.ts';
+import type { GinRummyCard } from './ginRummyTypes';
 
 describe('Gin Rummy Game Logic', () => {
   const P1 = 'player-1';
@@ -48,6 +50,21 @@ describe('Gin Rummy Game Logic', () => {
       expect(state.stockPile.length).toBe(31); // 52 - 20 - 1
       expect(state.firstDrawOfferedTo).toBe(P2); // Non-dealer first
     });
+
+    it('replays the same hand from the same seed and actions', () => {
+      // Actions are stamped with the time; both plays have to happen at the same moment
+      vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z'), toFake: ['Date'] });
+      const play = () => {
+        let state = dealHand(freshState(), createSeededRandom('hand-1'));
+        state = takeFirstDrawCard(state, P2);
+        return discardCard(state, P2, state.playerStates[P2].hand[0]);
+      };
+      try {
+        expect(JSON.stringify(play())).toBe(JSON.stringify(play()));
+      } finally {
+        vi.useRealTimers();
+      }
+    });
   });
 
   describe('first draw phase', () => {
@@ -154,4 +171,43 @@ describe('Gin Rummy Game Logic', () => {
       expect(getNextDealer(withResult)).toBe(P1); // Loser deals
     });
   });
+
+  describe('Oklahoma', () => {
+    const c = (rank: string, suit: GinRummyCard['suit']): GinRummyCard => ({
+      rank,
+      suit,
+      value: rank === 'A' ? 1 : ['J', 'Q', 'K'].includes(rank) ? 10 : parseInt(rank, 10),
+    });
+
+    // P2 to discard with three melds, a 2♣ and a K♣; the upcard was the 3♠
+    function knockingState() {
+      const state = dealHand(createInitialGinRummyState(P1, P2, 5, 100, undefined, { oklahoma: true }));
+      return {
+        ...state,
+        phase: 'playing' as const,
+        turnPhase: 'discard' as const,
+        knockLimit: 3,
+        spadesDoubled: true,
+        discardPile: [c('3', '♠')],
+        playerStates: {
+          [P1]: { ...state.playerStates[P1], hand: [c('K', '♥'), c('Q', '♦'), c('J', '♣'), c('9', '♥'), c('8', '♣'), c('6', '♦'), c('4', '♥'), c('4', '♦'), c('2', '♦'), c('K', '♦')] },
+          [P2]: { ...state.playerStates[P2], hand: [c('A', '♥'), c('2', '♥'), c('3', '♥'), c('5', '♠'), c('6', '♠'), c('7', '♠'), c('8', '♦'), c('9', '♦'), c('10', '♦'), c('2', '♣'), c('K', '♣')] },
+        },
+      };
+    }
+
+    it('holds a knock to the upcard limit', () => {
+      const state = { ...knockingState(), knockLimit: 1 };
+      expect(() => declareKnock(state, P2, c('K', '♣'))).toThrow('exceeds knock limit of 1');
+    });
+
+    it('doubles the hand when the upcard is a spade', () => {
+      let state = declareKnock(knockingState(), P2, c('K', '♣'));
+      state = scoreHand(finishLayingOff(state, P1));
+      const result = state.knockResult!;
+      expect(result.doubled).toBe(true);
+      expect(result.pointsAwarded).toBe((result.opponentDeadwood - result.knockerDeadwood) * 2);
+      expect(state.matchScores[P2]).toBe(result.pointsAwarded);
+    });
+  });
 });
@@ -8,6 +8,7 @@ import {
   GinRummyPlayerState,
   GinRummyPhase,
   GinRummyAction,
+  HollywoodGame,
   KnockResult,
   CARDS_PER_PLAYER,
   KNOCK_DEADWOOD_LIMIT,
@@ -20,18 +21,29 @@ import {
   scoreKnock,
   sumDeadwood,
   canDrawFromStock,
+  enterHollywoodScore,
+  getHollywoodTotals,
+  getOklahomaKnockLimit,
 } from './ginRummyScoring';
 import { isGinRiggedDealEnabled } from './debugFlags';
+import type { RandomSource } from '@rules/random.ts';
 
 // ─── State Factory ──────────────────────────────────────────────
 
+/** Variant rules a match is played with, carried from hand to hand */
+export interface GinRummyVariant {
+  oklahoma?: boolean;
+  hollywood?: HollywoodGame[] | null; // The match's Hollywood sheet so far
+}
+
 /** Create the initial Gin Rummy state for a new hand */
 export function createInitialGinRummyState(
   dealerPlayerId: string,
   nonDealerPlayerId: string,
   anteAmount: number,
   pointsToWin: number,
-  existingMatchScores?: Record<string, number>
+  existingMatchScores?: Record<string, number>,
+  variant: GinRummyVariant = {}
 ): GinRummyState {
   return {
     phase: 'dealing',
@@ -56,12 +68,32 @@ export function createInitialGinRummyState(
       [dealerPlayerId]: 0,
       [nonDealerPlayerId]: 0,
     },
+    oklahoma: variant.oklahoma ?? false,
+    knockLimit: KNOCK_DEADWOOD_LIMIT,
+    spadesDoubled: false,
+    hollywood: variant.hollywood ?? null,
     knockResult: null,
     lastAction: null,
     winnerPlayerId: null,
   };
 }
 
+/** Next hand of a match: the loser deals, match scores and variant rules carry over */
+export function createNextGinRummyHandState(previousState: GinRummyState): GinRummyState {
+  const dealerId = getNextDealer(previousState);
+  const nonDealerId = dealerId === previousState.dealerPlayerId
+    ? previousState.nonDealerPlayerId
+    : previousState.dealerPlayerId;
+  return createInitialGinRummyState(
+    dealerId,
+    nonDealerId,
+    previousState.anteAmount,
+    previousState.pointsToWin,
+    previousState.matchScores,
+    { oklahoma: previousState.oklahoma, hollywood: previousState.hollywood }
+  );
+}
+
 function createPlayerState(playerId: string): GinRummyPlayerState {
   return {
     playerId,
@@ -78,8 +110,8 @@ function createPlayerState(playerId: string): GinRummyPlayerState {
 // ─── Deal ───────────────────────────────────────────────────────
 
 /** Deal 10 cards to each player, place one face-up on discard pile, rest is stock */
-export function dealHand(state: GinRummyState): GinRummyState {
-  const deck = shuffleDeck(createGinRummyDeck());
+export function dealHand(state: GinRummyState, random?: RandomSource): GinRummyState {
+  const deck = shuffleDeck(createGinRummyDeck(), random);
   const { dealerPlayerId, nonDealerPlayerId } = state;
 
   // Debug: rigged hands for testing knock/lay-off flow
@@ -92,7 +124,7 @@ export function dealHand(state: GinRummyState): GinRummyState {
   const upCard = deck[CARDS_PER_PLAYER * 2]; // First discard pile card
   const stockPile = deck.slice(CARDS_PER_PLAYER * 2 + 1); // Remaining cards
 
-  return {
+  return applyOklahomaUpCard({
     ...state,
     phase: 'first_draw',
     playerStates: {
@@ -112,6 +144,17 @@ export function dealHand(state: GinRummyState): GinRummyState {
     drawSource: null,
     firstDrawOfferedTo: nonDealerPlayerId,
     firstDrawPassed: [],
+  });
+}
+
+/** Oklahoma: the first upcard sets the hand's knock limit, and a spade doubles the hand */
+function applyOklahomaUpCard(state: GinRummyState): GinRummyState {
+  if (!state.oklahoma) return state;
+  const upCard = state.discardPile[0];
+  return {
+    ...state,
+    knockLimit: getOklahomaKnockLimit(upCard),
+    spadesDoubled: upCard.suit === '♠',
   };
 }
 
@@ -161,7 +204,7 @@ function dealRiggedHand(state: GinRummyState, fullDeck: GinRummyCard[]): GinRumm
 
   console.log('[GIN-RUMMY DEBUG] Rigged deal active! Dealer deadwood=1, Non-dealer has 2 lay-off cards (4♠, 10♦) + isolated high deadwood (cannot accidentally gin)');
 
-  return {
+  return applyOklahomaUpCard({
     ...state,
     phase: 'first_draw',
     playerStates: {
@@ -181,7 +224,7 @@ function dealRiggedHand(state: GinRummyState, fullDeck: GinRummyCard[]): GinRumm
     drawSource: null,
     firstDrawOfferedTo: nonDealerPlayerId,
     firstDrawPassed: [],
-  };
+  });
 }
 // Non-dealer may take the face-up card or pass.
 // If non-dealer passes, dealer may take it or pass.
@@ -490,8 +533,9 @@ export function declareKnock(
   const grouping = findOptimalMelds(knockHand);
   const isGin = grouping.deadwoodValue === 0;
 
-  if (grouping.deadwoodValue > KNOCK_DEADWOOD_LIMIT && !isGin) {
-    throw new Error(`Deadwood (${grouping.deadwoodValue}) exceeds knock limit of ${KNOCK_DEADWOOD_LIMIT}`);
+  const knockLimit = getKnockLimit(state);
+  if (grouping.deadwoodValue > knockLimit && !isGin) {
+    throw new Error(`Deadwood (${grouping.deadwoodValue}) exceeds knock limit of ${knockLimit}`);
   }
 
   const newDiscard = [...state.discardPile, discardCardData];
@@ -646,7 +690,7 @@ export function scoreHand(state: GinRummyState): GinRummyState {
   const knockerState = state.playerStates[knockerId];
   const opponentState = state.playerStates[opponentId];
 
-  const result = scoreKnock(
+  let result: KnockResult = scoreKnock(
     knockerId,
     opponentId,
     knockerState.hand,
@@ -654,15 +698,39 @@ export function scoreHand(state: GinRummyState): GinRummyState {
     opponentState.laidOffCards,
     knockerState.hasGin
   );
+  if (state.spadesDoubled) {
+    result = { ...result, pointsAwarded: result.pointsAwarded * 2, doubled: true };
+  }
 
   // Update match scores
-  const newMatchScores = { ...state.matchScores };
-  newMatchScores[result.winnerId] = (newMatchScores[result.winnerId] || 0) + result.pointsAwarded;
+  let newMatchScores = { ...state.matchScores };
+  let hollywood = state.hollywood ?? null;
+  let matchWinner: string | null;
+
+  if (hollywood) {
+    // Hollywood: the points go into each game they're entered in; the match
+    // ends once all three games are won, on totals with their bonuses
+    const entry = enterHollywoodScore(hollywood, result.winnerId, result.pointsAwarded, state.pointsToWin);
+    hollywood = entry.games;
+    result = { ...result, hollywoodGames: entry.entered };
+    newMatchScores[result.winnerId] = (newMatchScores[result.winnerId] || 0)
+      + result.pointsAwarded * entry.entered.length;
+
+    matchWinner = null;
+    if (hollywood.every(game => game.winnerId)) {
+      newMatchScores = getHollywoodTotals(hollywood, state.turnOrder);
+      // A tie on totals goes to whoever won the last game
+      const loserId = getOpponent(state, result.winnerId);
+      matchWinner = newMatchScores[result.winnerId] >= newMatchScores[loserId] ? result.winnerId : loserId;
+    }
+  } else {
+    newMatchScores[result.winnerId] = (newMatchScores[result.winnerId] || 0) + result.pointsAwarded;
 
-  // Check if anyone has won the match
-  const matchWinner = newMatchScores[result.winnerId] >= state.pointsToWin
-    ? result.winnerId
-    : null;
+    // Check if anyone has won the match
+    matchWinner = newMatchScores[result.winnerId] >= state.pointsToWin
+      ? result.winnerId
+      : null;
+  }
 
   // Populate opponent's melds/deadwood for display
   const opponentGrouping = findOptimalMelds(
@@ -676,6 +744,7 @@ export function scoreHand(state: GinRummyState): GinRummyState {
     phase: 'complete',
     knockResult: result,
     matchScores: newMatchScores,
+    hollywood,
     winnerPlayerId: matchWinner,
     playerStates: {
       ...state.playerStates,
@@ -704,6 +773,11 @@ function getKnocker(state: GinRummyState): string {
   throw new Error('No player has knocked');
 }
 
+/** Deadwood a knock may carry this hand */
+export function getKnockLimit(state: GinRummyState): number {
+  return state.knockLimit ?? KNOCK_DEADWOOD_LIMIT;
+}
+
 /** Check if stock pile is exhausted (hand should be voided) */
 export function isStockExhausted(state: GinRummyState): boolean {
   return state.stockPile.length <= STOCK_EXHAUSTION_THRESHOLD;
@@ -0,0 +1,157 @@
+// Gin Rummy as a game module (see gameModule.ts)
+
+import type { GameRules } from './gameModule';
+import type { GinRummyCard, GinRummyState } from './ginRummyTypes';
+import {
+  createInitialGinRummyState,
+  dealHand,
+  declareKnock,
+  discardCard,
+  drawFromDiscard,
+  drawFromStock,
+  finishLayingOff,
+  getDiscardTop,
+  getKnockLimit,
+  layOffCard,
+  passFirstDraw,
+  scoreHand,
+  takeFirstDrawCard,
+} from './ginRummyGameLogic';
+import {
+  botChooseDrawSource,
+  botGetLayOffs,
+  botShouldKnock,
+  shouldBotTakeFirstDraw,
+} from './ginRummyBotLogic';
+import { createHollywoodGames } from './ginRummyScoring';
+
+export interface GinRummyConfig {
+  pointsToWin: number;
+  /** The first upcard sets the knock limit and a spade upcard doubles the hand */
+  oklahoma: boolean;
+  /** Three games scored at once, with line and game bonuses at match end */
+  hollywood: boolean;
+}
+
+export type GinRummyModuleAction =
+  | { type: 'take_first_draw'; playerId: string }
+  | { type: 'pass_first_draw'; playerId: string }
+  | { type: 'draw_stock'; playerId: string }
+  | { type: 'draw_discard'; playerId: string }
+  | { type: 'discard'; playerId: string; card: GinRummyCard }
+  | { type: 'knock'; playerId: string; card: GinRummyCard }
+  | { type: 'lay_off'; playerId: string; card: GinRummyCard; meldIndex: number }
+  | { type: 'finish_laying_off'; playerId: string };
+
+/** Gin and finished lay-offs go straight to scoring */
+function settle(state: GinRummyState): GinRummyState {
+  return state.phase === 'scoring' ? scoreHand(state) : state;
+}
+
+function getKnockerId(state: GinRummyState): string | undefined {
+  return Object.values(state.playerStates).find(ps => ps.hasKnocked || ps.hasGin)?.playerId;
+}
+
+export const ginRummyModule: GameRules<GinRummyState, GinRummyModuleAction, GinRummyConfig> = {
+  id: 'gin-rummy',
+
+  config: {
+    defaults: { pointsToWin: 100, oklahoma: false, hollywood: false },
+    fromGame: game => ({
+      pointsToWin: game.points_to_win ?? 100,
+      oklahoma: game.gin_oklahoma ?? false,
+      hollywood: game.gin_hollywood ?? false,
+    }),
+  },
+
+  createInitialState: ({ playerIds, dealerPlayerId, anteAmount, config }, random) => {
+    const nonDealerPlayerId = playerIds.find(id => id !== dealerPlayerId);
+    if (playerIds.length !== 2 || !nonDealerPlayerId) {
+      throw new Error('Gin Rummy requires exactly 2 players');
+    }
+    const state = createInitialGinRummyState(dealerPlayerId, nonDealerPlayerId, anteAmount, config.pointsToWin, undefined, {
+      oklahoma: config.oklahoma,
+      hollywood: config.hollywood ? createHollywoodGames([dealerPlayerId, nonDealerPlayerId]) : null,
+    });
+    return dealHand(state, random);
+  },
+
+  reduce: (state, action) => {
+    switch (action.type) {
+      case 'take_first_draw':
+        return takeFirstDrawCard(state, action.playerId);
+      case 'pass_first_draw':
+        return passFirstDraw(state, action.playerId);
+      case 'draw_stock':
+        return drawFromStock(state, action.playerId);
+      case 'draw_discard':
+        return drawFromDiscard(state, action.playerId);
+      case 'discard':
+        return discardCard(state, action.playerId, action.card);
+      case 'knock':
+        return settle(declareKnock(state, action.playerId, action.card));
+      case 'lay_off':
+        return layOffCard(state, action.playerId, action.card, action.meldIndex);
+      case 'finish_laying_off':
+        return settle(finishLayingOff(state, action.playerId));
+    }
+  },
+
+  getActivePlayerId: state => {
+    switch (state.phase) {
+      case 'first_draw':
+        return state.firstDrawOfferedTo;
+      case 'playing':
+      case 'knocking':
+      case 'laying_off':
+        return state.currentTurnPlayerId;
+      default:
+        return null;
+    }
+  },
+
+  isHandOver: state => state.phase === 'complete',
+
+  botAction: (state, playerId) => {
+    const botState = state.playerStates[playerId];
+    if (!botState) return null;
+
+    if (state.phase === 'first_draw') {
+      if (state.firstDrawOfferedTo !== playerId) return null;
+      const upCard = getDiscardTop(state);
+      return upCard && shouldBotTakeFirstDraw(botState.hand, upCard)
+        ? { type: 'take_first_draw', playerId }
+        : { type: 'pass_first_draw', playerId };
+    }
+
+    if (state.currentTurnPlayerId !== playerId) return null;
+
+    if (state.phase === 'playing' && state.turnPhase === 'draw') {
+      const source = botChooseDrawSource(botState.hand, getDiscardTop(state));
+      return source === 'discard' && getDiscardTop(state)
+        ? { type: 'draw_discard', playerId }
+        : { type: 'draw_stock', playerId };
+    }
+
+    if (state.phase === 'playing') {
+      const drawnFromDiscard = state.drawSource === 'discard' && state.lastAction?.card
+        ? state.lastAction.card
+        : null;
+      const { shouldKnock, discardIndex } = botShouldKnock(botState.hand, drawnFromDiscard, getKnockLimit(state));
+      const card = botState.hand[discardIndex];
+      return shouldKnock ? { type: 'knock', playerId, card } : { type: 'discard', playerId, card };
+    }
+
+    if (state.phase === 'knocking' || state.phase === 'laying_off') {
+      const knockerId = getKnockerId(state);
+      if (!knockerId || knockerId === playerId) return null;
+      // One card at a time, so every lay-off shows up as its own action
+      const [layOff] = botGetLayOffs(botState.hand, state.playerStates[knockerId].melds);
+      return layOff
+        ? { type: 'lay_off', playerId, card: layOff.card, meldIndex: layOff.onMeldIndex }
+        : { type: 'finish_laying_off', playerId };
+    }
+
+    return null;
+  },
+};
@@ -1,37 +1,35 @@
 // Gin Rummy round orchestration - database integration layer
 // Follows the same patterns as cribbageRoundLogic.ts:
 // - DB-First round creation with atomic guards
-// - State persistence via gin_rummy_state JSONB column
+// - State persistence via game_state JSONB column
 // - Atomic claim for end-of-game processing
 
-import { supabase } from '@/integrations/supabase/client';
+import { fetchPlayerDisplayName, getGameRepository, isUniqueViolation } from './gameRepository';
 import {
-  createInitialGinRummyState,
+  createNextGinRummyHandState,
   dealHand,
-  getNextDealer,
   scoreHand,
 } from './ginRummyGameLogic';
+import { ginRummyModule } from './ginRummyModule';
 import { snapshotPlayerChips } from './gameLogic';
-import { getBotAlias } from './botAlias';
+import { logDeal } from './handActionLog';
+import { drawFairDeckRandom } from './handFairness';
 import { describeKnockResult } from './ginRummyScoring';
 import type { GinRummyState } from './ginRummyTypes';
 
 /**
  * Start the first Gin Rummy round/hand.
- * Creates a round record with gin_rummy_state initialized.
+ * Creates a round record with game_state initialized.
  */
 export async function startGinRummyRound(
   gameId: string
 ): Promise<{ success: boolean; roundId?: string; handNumber?: number; error?: string }> {
   console.log('[GIN-RUMMY] Starting gin rummy round', { gameId });
+  const repo = getGameRepository();
 
   try {
     // Fetch game data
-    const { data: game, error: gameError } = await supabase
-      .from('games')
-      .select('*, players(*)')
-      .eq('id', gameId)
-      .single();
+    const { data: game, error: gameError } = await repo.games.get(gameId);
 
     if (gameError || !game) {
       throw new Error(`Failed to fetch game: ${gameError?.message}`);
@@ -41,9 +39,15 @@ export async function startGinRummyRound(
       return { success: false, error: 'Game already over' };
     }
 
+    const { data: players, error: playersError } = await repo.players.listByGame(gameId);
+
+    if (playersError) {
+      throw new Error(`Failed to fetch players: ${playersError.message}`);
+    }
+
     // Get active players - gin rummy is strictly 2 players
-    const activePlayers = (game.players || []).filter(
-      (p: any) => !p.sitting_out && p.status === 'active'
+    const activePlayers = (players || []).filter(
+      p => !p.sitting_out && p.status === 'active'
     );
 
     if (activePlayers.length !== 2) {
@@ -52,22 +56,12 @@ export async function startGinRummyRound(
 
     // Determine dealer and non-dealer
     const dealerPosition = game.dealer_position || 1;
-    const sortedPlayers = [...activePlayers].sort((a: any, b: any) => a.position - b.position);
-    const dealerPlayer = sortedPlayers.find((p: any) => p.position === dealerPosition)
+    const sortedPlayers = [...activePlayers].sort((a, b) => a.position - b.position);
+    const dealerPlayer = sortedPlayers.find(p => p.position === dealerPosition)
       || sortedPlayers[0];
-    const nonDealerPlayer = sortedPlayers.find((p: any) => p.id !== dealerPlayer.id)!;
+    const nonDealerPlayer = sortedPlayers.find(p => p.id !== dealerPlayer.id)!;
 
     const anteAmount = game.ante_amount || 1;
-    const pointsToWin = game.points_to_win ?? 100;
-
-    // Initialize and deal
-    let ginState = createInitialGinRummyState(
-      dealerPlayer.id,
-      nonDealerPlayer.id,
-      anteAmount,
-      pointsToWin
-    );
-    ginState = dealHand(ginState);
 
     const dealerGameId = game.current_game_uuid;
     if (!dealerGameId) {
@@ -75,36 +69,34 @@ export async function startGinRummyRound(
     }
 
     // Calculate hand number (DB-First)
-    const { data: existingRounds } = await supabase
-      .from('rounds')
-      .select('hand_number')
-      .eq('dealer_game_id', dealerGameId)
-      .order('hand_number', { ascending: false })
-      .limit(1);
-
-    const handNumber = existingRounds && existingRounds.length > 0
-      ? (existingRounds[0].hand_number || 0) + 1
-      : 1;
+    const { data: latestHandNumber } = await repo.rounds.getLatestHandNumber(dealerGameId);
+    const handNumber = (latestHandNumber ?? 0) + 1;
+
+    // Initialize and deal (real-money hands shuffle from the hand's committed seed; the
+    // stock is kept in the state, so the whole deck is dealt)
+    const random = await drawFairDeckRandom(gameId, 52);
+    const ginState = ginRummyModule.createInitialState({
+      playerIds: [dealerPlayer.id, nonDealerPlayer.id],
+      dealerPlayerId: dealerPlayer.id,
+      anteAmount,
+      config: ginRummyModule.config.fromGame(game),
+    }, random);
 
     // Create round record
-    const { data: round, error: roundError } = await supabase
-      .from('rounds')
-      .insert({
-        game_id: gameId,
-        dealer_game_id: dealerGameId,
-        round_number: 1, // Gin rummy uses single round per hand (like cribbage)
-        hand_number: handNumber,
-        cards_dealt: 10,
-        pot: 0,
-        status: 'betting',
-        gin_rummy_state: ginState as any,
-      })
-      .select()
-      .single();
+    const { data: round, error: roundError } = await repo.rounds.insert({
+      game_id: gameId,
+      dealer_game_id: dealerGameId,
+      round_number: 1, // Gin rummy uses single round per hand (like cribbage)
+      hand_number: handNumber,
+      cards_dealt: 10,
+      pot: 0,
+      status: 'betting',
+      game_state: ginState as any,
+    });
 
     if (roundError || !round) {
       // Atomic guard: unique constraint violation means another client already created it
-      if (roundError?.code === '23505') {
+      if (isUniqueViolation(roundError)) {
         console.log('[GIN-RUMMY] Round already exists (atomic guard)');
         return { success: true };
       }
@@ -114,31 +106,26 @@ export async function startGinRummyRound(
     const insertedHandNumber = round.hand_number ?? handNumber;
 
     // Update game status with authoritative values from DB
-    await supabase
-      .from('games')
-      .update({
-        status: 'in_progress',
-        current_round: 1,
-        total_hands: insertedHandNumber,
-        pot: 0,
-        is_first_hand: handNumber === 1,
-      })
-      .eq('id', gameId);
+    await repo.games.update(gameId, {
+      status: 'in_progress',
+      current_round: 1,
+      total_hands: insertedHandNumber,
+      pot: 0,
+      is_first_hand: handNumber === 1,
+    });
+
+    void logDeal(round.id, { state: ginState });
 
     // Store player cards for hand history
     for (const playerId of [dealerPlayer.id, nonDealerPlayer.id]) {
       const playerState = ginState.playerStates[playerId];
       if (playerState) {
-        await supabase
-          .from('player_cards')
-          .upsert(
-            {
-              player_id: playerId,
-              round_id: round.id,
-              cards: playerState.hand as any,
-            },
-            { onConflict: 'player_id,round_id' }
-          )
+        await repo.playerCards
+          .upsert({
+            player_id: playerId,
+            round_id: round.id,
+            cards: playerState.hand as any,
+          })
           .then(({ error }) => {
             if (error) console.warn('[GIN-RUMMY] Failed to store player cards:', playerId, error.message);
           });
@@ -171,6 +158,7 @@ export async function startNextGinRummyHand(
   alreadyStarted?: boolean;
 }> {
   console.log('[GIN-RUMMY] Starting next hand', { gameId, dealerGameId });
+  const repo = getGameRepository();
 
   try {
     // Check if match is over (someone hit pointsToWin)
@@ -178,52 +166,41 @@ export async function startNextGinRummyHand(
       return { success: false, error: 'Match already won' };
     }
 
-    // Rotate dealer
-    const nextDealerId = getNextDealer(previousState);
-    const nextNonDealerId = nextDealerId === previousState.dealerPlayerId
-      ? previousState.nonDealerPlayerId
-      : previousState.dealerPlayerId;
-
-    // Create new hand state with preserved match scores
-    let newState = createInitialGinRummyState(
-      nextDealerId,
-      nextNonDealerId,
-      previousState.anteAmount,
-      previousState.pointsToWin,
-      previousState.matchScores
-    );
-    newState = dealHand(newState);
+    // Rotate dealer; match scores and variant rules carry over
+    let newState = createNextGinRummyHandState(previousState);
+    const nextDealerId = newState.dealerPlayerId;
+    const nextNonDealerId = newState.nonDealerPlayerId;
 
     // Get next hand number (DB-First)
-    const { data: existingRounds } = await supabase
-      .from('rounds')
-      .select('hand_number')
-      .eq('dealer_game_id', dealerGameId)
-      .order('hand_number', { ascending: false })
-      .limit(1);
+    const { data: latestHandNumber } = await repo.rounds.getLatestHandNumber(dealerGameId);
+    const handNumber = (latestHandNumber ?? 0) + 1;
+
+    // Close the finished hand's round first: real-money deals come from the game's open
+    // hand, and only move on to the next one once every round of it is completed
+    if (latestHandNumber) {
+      const { data: previousRound } = await repo.rounds.findByHand(dealerGameId, latestHandNumber, 1);
+      if (previousRound) {
+        await repo.rounds.update(previousRound.id, { status: 'completed' }, { neq: { status: 'completed' } });
+      }
+    }
 
-    const handNumber = existingRounds && existingRounds.length > 0
-      ? (existingRounds[0].hand_number || 0) + 1
-      : 1;
+    const random = await drawFairDeckRandom(gameId, 52);
+    newState = dealHand(newState, random);
 
     // Atomic insert (unique constraint guard)
-    const { data: round, error: roundError } = await supabase
-      .from('rounds')
-      .insert({
-        game_id: gameId,
-        dealer_game_id: dealerGameId,
-        round_number: 1,
-        hand_number: handNumber,
-        cards_dealt: 10,
-        pot: 0,
-        status: 'betting',
-        gin_rummy_state: newState as any,
-      })
-      .select()
-      .single();
+    const { data: round, error: roundError } = await repo.rounds.insert({
+      game_id: gameId,
+      dealer_game_id: dealerGameId,
+      round_number: 1,
+      hand_number: handNumber,
+      cards_dealt: 10,
+      pot: 0,
+      status: 'betting',
+      game_state: newState as any,
+    });
 
     if (roundError) {
-      if (roundError.code === '23505' || roundError.message?.includes('duplicate key')) {
+      if (isUniqueViolation(roundError)) {
         console.log('[GIN-RUMMY] Next hand already exists (atomic guard)');
         return { success: true, alreadyStarted: true };
       }
@@ -235,24 +212,19 @@ export async function startNextGinRummyHand(
     const insertedHandNumber = round.hand_number ?? handNumber;
 
     // Update game state
-    await supabase
-      .from('games')
-      .update({
-        total_hands: insertedHandNumber,
-        is_first_hand: false,
-      })
-      .eq('id', gameId);
+    await repo.games.update(gameId, {
+      total_hands: insertedHandNumber,
+      is_first_hand: false,
+    });
+
+    void logDeal(round.id, { state: newState });
 
     // Store player cards
     for (const playerId of [nextDealerId, nextNonDealerId]) {
       const ps = newState.playerStates[playerId];
       if (ps) {
-        supabase
-          .from('player_cards')
-          .upsert(
-            { player_id: playerId, round_id: round.id, cards: ps.hand as any },
-            { onConflict: 'player_id,round_id' }
-          )
+        repo.playerCards
+          .upsert({ player_id: playerId, round_id: round.id, cards: ps.hand as any })
           .then(({ error }) => {
             if (error) console.warn('[GIN-RUMMY] Failed to store cards:', playerId, error.message);
           });
@@ -276,10 +248,7 @@ export async function updateGinRummyState(
   newState: GinRummyState
 ): Promise<boolean> {
   try {
-    const { error } = await supabase
-      .from('rounds')
-      .update({ gin_rummy_state: newState as any })
-      .eq('id', roundId);
+    const { error } = await getGameRepository().rounds.update(roundId, { game_state: newState as any });
 
     if (error) {
       console.error('[GIN-RUMMY] Failed to update state:', error);
@@ -298,17 +267,13 @@ export async function updateGinRummyState(
 export async function fetchGinRummyState(
   roundId: string
 ): Promise<GinRummyState | null> {
-  const { data, error } = await supabase
-    .from('rounds')
-    .select('gin_rummy_state')
-    .eq('id', roundId)
-    .single();
+  const { data, error } = await getGameRepository().rounds.get(roundId);
 
-  if (error || !data?.gin_rummy_state) {
+  if (error || !data?.game_state) {
     console.error('[GIN-RUMMY] Failed to fetch state:', error);
     return null;
   }
-  return data.gin_rummy_state as unknown as GinRummyState;
+  return data.game_state as unknown as GinRummyState;
 }
 
 /**
@@ -326,6 +291,7 @@ export async function endGinRummyGame(
     winner: ginState.winnerPlayerId,
     matchScores: ginState.matchScores,
   });
+  const repo = getGameRepository();
 
   try {
     if (!ginState.winnerPlayerId) {
@@ -336,15 +302,14 @@ export async function endGinRummyGame(
     const loserId = playerIds.find(id => id !== ginState.winnerPlayerId)!;
 
     // Atomic claim: transition round to 'completed'
-    const { data: claimedRounds, error: claimError } = await supabase
-      .from('rounds')
-      .update({
+    const { data: claimedRounds, error: claimError } = await repo.rounds.update(
+      roundId,
+      {
         status: 'completed',
-        gin_rummy_state: ginState as any,
-      })
-      .eq('id', roundId)
-      .neq('status', 'completed')
-      .select('hand_number, dealer_game_id');
+        game_state: ginState as any,
+      },
+      { neq: { status: 'completed' } }
+    );
 
     if (claimError) {
       console.error('[GIN-RUMMY] Failed to claim end-of-game:', claimError);
@@ -355,14 +320,11 @@ export async function endGinRummyGame(
 
     if (!claimedRound) {
       console.log('[GIN-RUMMY] Already processed by another client');
-      await supabase
-        .from('games')
-        .update({
-          status: 'game_over',
-          pot: 0,
-          game_over_at: new Date().toISOString(),
-        })
-        .eq('id', gameId);
+      await repo.games.update(gameId, {
+        status: 'game_over',
+        pot: 0,
+        game_over_at: new Date().toISOString(),
+      });
       return true;
     }
 
@@ -377,7 +339,8 @@ export async function endGinRummyGame(
     // Base match payout: the ante amount (chips transfer at match end, not per-hand)
     let payoutAmount = anteAmount;
     
-    // Optional: per-point payout on top of ante (based on final score differential)
+    // Optional: per-point payout on top of ante (based on final score differential).
+    // Hollywood match scores are the three games' totals, bonuses and shutouts included.
     if (perPointValue > 0) {
       const winnerScore = ginState.matchScores[ginState.winnerPlayerId] || 0;
       const loserScore = ginState.matchScores[loserId] || 0;
@@ -390,67 +353,44 @@ export async function endGinRummyGame(
     };
 
     // Execute chip transfer at match end (single transaction)
-    const { error: deductError } = await supabase.rpc('increment_player_chips', {
-      p_player_id: loserId,
-      p_amount: -payoutAmount,
-    });
+    const { error: deductError } = await repo.players.incrementChips(loserId, -payoutAmount);
     if (deductError) console.error('[GIN-RUMMY] Failed to deduct loser:', deductError);
 
-    const { error: awardError } = await supabase.rpc('increment_player_chips', {
-      p_player_id: ginState.winnerPlayerId,
-      p_amount: payoutAmount,
-    });
+    const { error: awardError } = await repo.players.incrementChips(ginState.winnerPlayerId, payoutAmount);
     if (awardError) console.error('[GIN-RUMMY] Failed to award winner:', awardError);
 
     // Small delay to ensure chip RPCs are fully committed before snapshot reads
     await new Promise(resolve => setTimeout(resolve, 200));
 
     // Get winner display name
-    const { data: winner } = await supabase
-      .from('players')
-      .select('id, user_id, is_bot, created_at, profiles(username)')
-      .eq('id', ginState.winnerPlayerId)
-      .single();
-
-    const { data: allPlayers } = await supabase
-      .from('players')
-      .select('id, user_id, is_bot, created_at')
-      .eq('game_id', gameId);
-
-    const winnerUsername = winner?.is_bot && allPlayers
-      ? getBotAlias(allPlayers, winner.user_id)
-      : ((winner?.profiles as any)?.username || 'Player');
+    const winnerUsername = await fetchPlayerDisplayName(gameId, ginState.winnerPlayerId);
 
     const winnerScore = ginState.matchScores[ginState.winnerPlayerId] || 0;
     const loserScore = ginState.matchScores[loserId] || 0;
-    const resultDescription = `${winnerUsername} wins ${winnerScore}-${loserScore} +$${payoutAmount}`;
+    const format = ginState.hollywood ? ' over 3 Hollywood games' : '';
+    const resultDescription = `${winnerUsername} wins ${winnerScore}-${loserScore}${format} +$${payoutAmount}`;
 
     // Update game status
-    await supabase
-      .from('games')
-      .update({
-        status: 'game_over',
-        pot: 0,
-        last_round_result: resultDescription,
-        game_over_at: new Date().toISOString(),
-      })
-      .eq('id', gameId);
+    await repo.games.update(gameId, {
+      status: 'game_over',
+      pot: 0,
+      last_round_result: resultDescription,
+      game_over_at: new Date().toISOString(),
+    });
 
     // Record in game_results — MUST be awaited so cleanup logic can detect history
-    const { error: resultError } = await supabase
-      .from('game_results')
-      .insert({
-        game_id: gameId,
-        dealer_game_id: dealerGameId,
-        hand_number: handNumber,
-        pot_won: payoutAmount,
-        winner_player_id: ginState.winnerPlayerId,
-        winner_username: winnerUsername,
-        winning_hand_description: resultDescription,
-        is_chopped: false,
-        player_chip_changes: chipChanges,
-        game_type: 'gin-rummy',
-      });
+    const { error: resultError } = await repo.gameResults.insert({
+      game_id: gameId,
+      dealer_game_id: dealerGameId,
+      hand_number: handNumber,
+      pot_won: payoutAmount,
+      winner_player_id: ginState.winnerPlayerId,
+      winner_username: winnerUsername,
+      winning_hand_description: resultDescription,
+      is_chopped: false,
+      player_chip_changes: chipChanges,
+      game_type: 'gin-rummy',
+    });
     if (resultError) console.error('[GIN-RUMMY] Failed to record result:', resultError);
 
     // Snapshot chips AFTER match payout — use handNumber+1 to distinguish from per-hand snapshot
@@ -480,14 +420,10 @@ async function fetchGinRummyConfig(
   const defaults = { per_point_value: 0, gin_bonus: 0, undercut_bonus: 0 };
   if (!dealerGameId) return defaults;
 
-  const { data, error } = await supabase
-    .from('dealer_games')
-    .select('config')
-    .eq('id', dealerGameId)
-    .single();
+  const { data: config, error } = await getGameRepository().games.getDealerGameConfig(dealerGameId);
 
-  if (error || !data?.config) return defaults;
-  const cfg = data.config as any;
+  if (error || !config) return defaults;
+  const cfg = config as any;
   return {
     per_point_value: cfg.per_point_value ?? 0,
     gin_bonus: cfg.gin_bonus ?? 0,
@@ -520,7 +456,10 @@ export async function recordGinRummyHandResult(
   // Per-hand: record the hand result for history only.
   // Chips only change hands when the match is won (someone reaches pointsToWin).
   // Bonus points (gin/undercut) are flat point values added to the scoring, not chip bonuses.
-  let handPayout = ante; // What the winner would earn per hand (for record-keeping)
+  // The hand's points are already doubled for an Oklahoma spade upcard, and in Hollywood
+  // they count once for every game they were entered in.
+  const pointsScored = result.pointsAwarded * Math.max(result.hollywoodGames?.length ?? 1, 1);
+  const handPayout = ante + pointsScored * config.per_point_value; // What the winner would earn per hand (for record-keeping)
 
   // NO chip transfers here — chips only move at match end (endGinRummyGame).
   // This keeps the game zero-sum until the match winner is determined.
@@ -531,38 +470,23 @@ export async function recordGinRummyHandResult(
   };
 
   // Get winner username
-  const { data: winner } = await supabase
-    .from('players')
-    .select('id, user_id, is_bot, created_at, profiles(username)')
-    .eq('id', result.winnerId)
-    .single();
-
-  const { data: allPlayers } = await supabase
-    .from('players')
-    .select('id, user_id, is_bot, created_at')
-    .eq('game_id', gameId);
-
-  const winnerUsername = winner?.is_bot && allPlayers
-    ? getBotAlias(allPlayers, winner.user_id)
-    : ((winner?.profiles as any)?.username || 'Player');
+  const winnerUsername = await fetchPlayerDisplayName(gameId, result.winnerId);
 
   const description = describeKnockResult(result);
 
   // Await the insert so the record exists before any cleanup logic runs
-  const { error: insertError } = await supabase
-    .from('game_results')
-    .insert({
-      game_id: gameId,
-      dealer_game_id: dealerGameId,
-      hand_number: handNumber,
-      pot_won: handPayout,
-      winner_player_id: result.winnerId,
-      winner_username: winnerUsername,
-      winning_hand_description: `${winnerUsername}: ${description}`,
-      is_chopped: false,
-      player_chip_changes: chipChanges,
-      game_type: 'gin-rummy',
-    });
+  const { error: insertError } = await getGameRepository().gameResults.insert({
+    game_id: gameId,
+    dealer_game_id: dealerGameId,
+    hand_number: handNumber,
+    pot_won: handPayout,
+    winner_player_id: result.winnerId,
+    winner_username: winnerUsername,
+    winning_hand_description: `${winnerUsername}: ${description}`,
+    is_chopped: false,
+    player_chip_changes: chipChanges,
+    game_type: 'gin-rummy',
+  });
   if (insertError) console.error('[GIN-RUMMY] Failed to record hand result:', insertError);
   else console.log('[GIN-RUMMY] Hand result recorded:', { handNumber, description, handPayout });
 
@@ -9,6 +9,10 @@ import {
   canLayOff,
   createGinRummyDeck,
   sumDeadwood,
+  getOklahomaKnockLimit,
+  createHollywoodGames,
+  enterHollywoodScore,
+  getHollywoodTotals,
 } from './ginRummyScoring';
 import { GinRummyCard, Meld } from './ginRummyTypes';
 
@@ -190,3 +194,47 @@ describe('createGinRummyDeck', () => {
     expect(deck.every(c => ['♠', '♥', '♦', '♣'].includes(c.suit))).toBe(true);
   });
 });
+
+describe('Oklahoma', () => {
+  it('sets the knock limit from the upcard, with an ace meaning gin only', () => {
+    expect(getOklahomaKnockLimit(c('7', '♥'))).toBe(7);
+    expect(getOklahomaKnockLimit(c('Q', '♠'))).toBe(10);
+    expect(getOklahomaKnockLimit(c('A', '♦'))).toBe(0);
+    expect(canKnock([c('2', '♣')], 0)).toBe(false);
+  });
+});
+
+describe('Hollywood', () => {
+  it('opens one more game with each hand a player wins', () => {
+    let games = createHollywoodGames(['p1', 'p2']);
+    let entry = enterHollywoodScore(games, 'p1', 10, 100);
+    expect(entry.entered).toEqual([0]);
+    entry = enterHollywoodScore(entry.games, 'p2', 5, 100);
+    expect(entry.entered).toEqual([0]);
+    entry = enterHollywoodScore(entry.games, 'p1', 20, 100);
+    expect(entry.entered).toEqual([0, 1]);
+    entry = enterHollywoodScore(entry.games, 'p1', 30, 100);
+    expect(entry.entered).toEqual([0, 1, 2]);
+    games = entry.games;
+    expect(games.map(g => g.scores.p1)).toEqual([60, 50, 30]);
+    expect(games.map(g => g.scores.p2)).toEqual([5, 0, 0]);
+  });
+
+  it('closes a game at the target and adds line, game and shutout bonuses', () => {
+    let { games } = enterHollywoodScore(createHollywoodGames(['p1', 'p2']), 'p2', 10, 100);
+    ({ games } = enterHollywoodScore(games, 'p1', 60, 100));
+    ({ games } = enterHollywoodScore(games, 'p1', 60, 100));
+    expect(games[0].winnerId).toBe('p1');
+    expect(games[1].winnerId).toBeNull();
+
+    // Game 1 won 120-10: the game is closed, so game 2 becomes p1's shutout and game 3 opens
+    const entry = enterHollywoodScore(games, 'p1', 50, 100);
+    expect(entry.entered).toEqual([1, 2]);
+    expect(entry.games[1].winnerId).toBe('p1');
+
+    const totals = getHollywoodTotals(entry.games, ['p1', 'p2']);
+    // Game 1: 120 + 2 boxes + game bonus vs 10 + 1 box; game 2: (110 + 2 boxes + 100) doubled; game 3: 50 + 1 box
+    expect(totals.p1).toBe((120 + 50 + 100) + (110 + 50 + 100) * 2 + (50 + 25));
+    expect(totals.p2).toBe(10 + 25);
+  });
+});
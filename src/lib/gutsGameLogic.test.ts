@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { settleGutsHand, type GutsRules } from './gutsGameLogic';
+import { cards } from './testHelpers';
+
+const uncapped: GutsRules = { potMaxEnabled: false, potMaxValue: 10, bleedEnabled: false, bleedValue: 5 };
+
+describe('Guts Game Logic', () => {
+  describe('settleGutsHand', () => {
+    it('redeals with the pot unchanged when nobody is in', () => {
+      expect(settleGutsHand([], 12, uncapped)).toBeNull();
+    });
+
+    it('gives the pot to the only player in without a match', () => {
+      const settlement = settleGutsHand([{ playerId: 'a', cards: cards('2♠', '7♦', '9♣') }], 12, uncapped);
+      expect(settlement).toMatchObject({ winnerIds: ['a'], loserIds: [], matchAmount: 0, newPot: 0, handDescription: null });
+      expect(settlement!.chipChanges).toEqual({ a: 12 });
+    });
+
+    it('has every loser match the pot, capped by the pot max', () => {
+      const hands = [
+        { playerId: 'a', cards: cards('K♠', 'K♦', '4♣') },
+        { playerId: 'b', cards: cards('Q♠', 'Q♦', 'A♣') },
+        { playerId: 'c', cards: cards('A♠', 'J♦', '9♣') },
+      ];
+      expect(settleGutsHand(hands, 12, uncapped)).toMatchObject({
+        winnerIds: ['a'],
+        chipChanges: { a: 12, b: -12, c: -12 },
+        newPot: 24,
+      });
+      expect(settleGutsHand(hands, 12, { ...uncapped, potMaxEnabled: true })).toMatchObject({
+        chipChanges: { a: 12, b: -10, c: -10 },
+        newPot: 20,
+      });
+    });
+
+    it('takes only the bleed out of the pot', () => {
+      const settlement = settleGutsHand(
+        [{ playerId: 'a', cards: cards('3♠', '3♦') }, { playerId: 'b', cards: cards('A♠', 'K♦') }],
+        12,
+        { ...uncapped, bleedEnabled: true }
+      );
+      expect(settlement).toMatchObject({ potTaken: 5, chipChanges: { a: 5, b: -12 }, newPot: 19 });
+    });
+
+    it('splits a tie, the odd chip to the first winner', () => {
+      const settlement = settleGutsHand(
+        [
+          { playerId: 'a', cards: cards('J♠', 'J♦') },
+          { playerId: 'b', cards: cards('J♣', 'J♥') },
+          { playerId: 'c', cards: cards('9♠', '4♦') },
+        ],
+        7,
+        uncapped
+      );
+      expect(settlement).toMatchObject({ winnerIds: ['a', 'b'], loserIds: ['c'], chipChanges: { a: 4, b: 3, c: -7 }, newPot: 7 });
+    });
+  });
+});
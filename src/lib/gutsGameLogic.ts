@@ -0,0 +1,87 @@
+// Guts core game logic
+// Everyone is dealt 2 or 3 cards and stays in or drops out at once (the same simultaneous
+// stay/fold flow as 3-5-7, see gameLogic.ts). The best hand in takes the pot - or the bleed
+// amount out of it - and every other player who was in matches the pot. The game carries the
+// pot from hand to hand and ends once a hand leaves it empty. The database side of a hand's
+// end is in gutsRoundLogic.ts.
+
+import { evaluateHand, formatHandRankDetailed, type Card } from "./cardUtils";
+
+export interface GutsRules {
+  potMaxEnabled: boolean;
+  potMaxValue: number;
+  bleedEnabled: boolean;
+  bleedValue: number;
+}
+
+export interface GutsHand {
+  playerId: string;
+  cards: Card[];
+}
+
+/** The players row fields endGutsRound (gutsRoundLogic.ts) needs (endRound fetches them with profiles(username)) */
+export interface GutsPlayer {
+  id: string;
+  user_id: string;
+  position: number;
+  is_bot: boolean;
+  created_at?: string;
+  current_decision: string | null;
+  profiles?: { username?: string } | null;
+}
+
+export interface GutsSettlement {
+  /** Best hand(s) among the players in; more than one splits the take */
+  winnerIds: string[];
+  loserIds: string[];
+  /** Taken out of the pot by the winners between them */
+  potTaken: number;
+  /** Put into the pot by each loser */
+  matchAmount: number;
+  chipChanges: Record<string, number>;
+  newPot: number;
+  /** Null when only one player was in (nothing is shown) */
+  handDescription: string | null;
+}
+
+/**
+ * Settle a hand from the players who stayed in, in seat order.
+ * Returns null when nobody was in: the pot stays as it is and the hand is redealt.
+ */
+export function settleGutsHand(hands: GutsHand[], pot: number, rules: GutsRules): GutsSettlement | null {
+  if (hands.length === 0) return null;
+
+  const potTaken = rules.bleedEnabled ? Math.min(pot, rules.bleedValue) : pot;
+
+  let winners = hands;
+  let handDescription: string | null = null;
+  if (hands.length > 1) {
+    const evaluated = hands.map(hand => ({ hand, value: evaluateHand(hand.cards, false).value }));
+    const bestValue = Math.max(...evaluated.map(e => e.value));
+    winners = evaluated.filter(e => e.value === bestValue).map(e => e.hand);
+    handDescription = formatHandRankDetailed(winners[0].cards, false);
+  }
+
+  const winnerIds = winners.map(w => w.playerId);
+  const loserIds = hands.map(h => h.playerId).filter(id => !winnerIds.includes(id));
+  // Nobody matches when only one player was in
+  const matchAmount = loserIds.length > 0 ? (rules.potMaxEnabled ? Math.min(pot, rules.potMaxValue) : pot) : 0;
+
+  // A split take goes evenly, the odd chips to the first winner
+  const share = Math.floor(potTaken / winnerIds.length);
+  const chipChanges: Record<string, number> = {};
+  winnerIds.forEach((id, i) => {
+    chipChanges[id] = share + (i === 0 ? potTaken - share * winnerIds.length : 0);
+  });
+  for (const id of loserIds) chipChanges[id] = -matchAmount;
+
+  return {
+    winnerIds,
+    loserIds,
+    potTaken,
+    matchAmount,
+    chipChanges,
+    newPot: pot - potTaken + matchAmount * loserIds.length,
+    handDescription,
+  };
+}
@@ -0,0 +1,122 @@
+// Guts round orchestration - database integration layer
+// endRound (gameLogic.ts) runs the simultaneous stay/fold decisions like 3-5-7's and hands
+// the locked round over here to settle: the hands of the players who stayed in are read from
+// player_cards, settleGutsHand (gutsGameLogic.ts) works out who takes what, and the chips and
+// the pot move through the game repository.
+
+import type { Card } from "./cardUtils";
+import { getBotAlias } from "./botAlias";
+import { recordGameResult, snapshotPlayerChips } from "./gameLogic";
+import { getGameRepository } from "./gameRepository";
+import { settleGutsHand, type GutsHand, type GutsPlayer, type GutsRules } from "./gutsGameLogic";
+
+/**
+ * Finish a Guts hand: called from endRound once it holds the round lock.
+ * Moves the chips, carries the pot to the next hand or ends the game when it's empty.
+ */
+export async function endGutsRound(
+  gameId: string,
+  game: { pot: number | null; total_hands: number | null; reveal_at_showdown: boolean | null },
+  round: { id: string },
+  allPlayers: GutsPlayer[],
+  rules: GutsRules,
+  currentGameUuid: string | null
+) {
+  const repo = getGameRepository();
+  const handNumber = game.total_hands || 1;
+  const pot = game.pot || 0;
+  const nameOf = (player: GutsPlayer) =>
+    player.is_bot ? getBotAlias(allPlayers, player.user_id) : (player.profiles?.username || `Player ${player.position}`);
+
+  // Seat order, so a split's odd chips go to the first winner round the table
+  const playersIn = allPlayers
+    .filter(p => p.current_decision === 'stay')
+    .sort((a, b) => a.position - b.position);
+
+  let hands: GutsHand[] = [];
+  if (playersIn.length > 0) {
+    const playerCards = await Promise.all(playersIn.map(async p => {
+      const { data, error } = await repo.playerCards.get(round.id, p.id);
+      if (error) console.error('[GUTS] Error fetching player cards:', p.id, error);
+      return { playerId: p.id, cards: (data?.cards ?? []) as unknown as Card[] };
+    }));
+    hands = playerCards.filter(h => h.cards.length > 0);
+
+    // Players who were in see each other's hands; reveal_at_showdown decides whether that's kept in history
+    if (hands.length > 1 && (game.reveal_at_showdown ?? true)) {
+      const { error } = await repo.playerCards.update(
+        round.id,
+        hands.map(h => h.playerId),
+        { visible_to_user_ids: playersIn.map(p => p.user_id), is_public: false }
+      );
+      if (error) console.error('[GUTS] Error setting card visibility:', error);
+    }
+  }
+
+  const settlement = settleGutsHand(hands, pot, rules);
+
+  if (!settlement) {
+    console.log('[GUTS] Nobody in - redealing with the pot unchanged', { pot });
+    await repo.games.update(gameId, { last_round_result: "Nobody's in - redeal", awaiting_next_round: true, next_round_number: 1 });
+    return;
+  }
+
+  const { winnerIds, loserIds, potTaken, matchAmount, chipChanges, newPot, handDescription } = settlement;
+
+  if (loserIds.length > 0 && matchAmount > 0) {
+    const { error } = await repo.players.decrementChips(loserIds, matchAmount);
+    if (error) console.error('[GUTS] Error charging losers:', error);
+  }
+  for (const winnerId of winnerIds) {
+    const { error } = await repo.players.incrementChips(winnerId, chipChanges[winnerId]);
+    if (error) console.error('[GUTS] Error paying winner:', winnerId, error);
+  }
+
+  const winnerNames = winnerIds.map(id => nameOf(allPlayers.find(p => p.id === id)!)).join(' and ');
+
+  // Fire-and-forget: audit trail only
+  recordGameResult(
+    gameId,
+    handNumber,
+    winnerIds[0],
+    winnerNames,
+    handDescription ?? 'Only one in',
+    potTaken,
+    chipChanges,
+    winnerIds.length > 1,
+    'guts',
+    currentGameUuid
+  );
+
+  // Showdowns use the 3-5-7 format so the table shows the hand per reveal_at_showdown
+  const resultMessage = handDescription
+    ? `${winnerNames} won showdown|||WINNER:${winnerIds[0]}|||LOSERS:${loserIds.join(',')}|||AMOUNT:${matchAmount}|||HANDNAME:${handDescription}`
+    : `${winnerNames} was the only one in and took $${potTaken}`;
+
+  console.log('[GUTS] Hand settled', { winnerIds, loserIds, potTaken, matchAmount, newPot });
+
+  if (newPot > 0) {
+    await repo.games.update(gameId, { pot: newPot, last_round_result: resultMessage, awaiting_next_round: true, next_round_number: 1 });
+    return;
+  }
+
+  // The pot is empty: the game is over. Chips already moved hand by hand.
+  console.log('[GUTS] Pot emptied - game over', { gameId, handNumber });
+  await repo.players.updateByGame(gameId, { status: 'active', current_decision: null, decision_locked: false });
+
+  await repo.games.update(
+    gameId,
+    {
+      status: 'game_over',
+      game_over_at: new Date().toISOString(),
+      current_round: null,
+      awaiting_next_round: false,
+      all_decisions_in: false,
+      pot: 0,
+      last_round_result: `🏆 ${winnerNames} emptied the pot!`,
+    },
+    { eq: { status: 'in_progress' } }
+  );
+
+  snapshotPlayerChips(gameId, handNumber);
+}
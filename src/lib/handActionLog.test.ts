@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSeededRandom } from '@rules/random.ts';
+import { createInMemoryGameRepository, type InMemoryGameRepository } from './inMemoryGameRepository';
+import { getGameRepository, setGameRepository } from './gameRepository';
+import type { GameRules } from './gameModule';
+import { cribbageModule } from './cribbageModule';
+import { ginRummyModule } from './ginRummyModule';
+import { yahtzeeModule } from './yahtzeeModule';
+import {
+  fetchRebuiltHandState,
+  logDeal,
+  logDecision,
+  logModuleAction,
+  rebuildHandState,
+  recordDraws,
+  type ModuleAction,
+} from './handActionLog';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const GAME_ID = 'game-1';
+const DEALER_GAME_ID = 'dealer-game-1';
+const PLAYER_IDS = ['player-a', 'player-b'];
+
+async function seedRound(gameType: string): Promise<{ repo: InMemoryGameRepository; roundId: string }> {
+  const repo = createInMemoryGameRepository({
+    games: [{ id: GAME_ID, game_type: gameType, status: 'in_progress', current_game_uuid: DEALER_GAME_ID }],
+  });
+  setGameRepository(repo);
+  const { data: round } = await repo.rounds.insert({
+    game_id: GAME_ID,
+    dealer_game_id: DEALER_GAME_ID,
+    hand_number: 2,
+    round_number: 1,
+    cards_dealt: 0,
+  });
+  return { repo, roundId: round!.id };
+}
+
+// Bots play the hand out the way the tables do: apply the action, then log it against
+// the state it was applied to, with the random values it drew
+async function playAndLog<State, Action extends ModuleAction, Config>(
+  rules: GameRules<State, Action, Config>,
+  roundId: string,
+  seed: string
+): Promise<State> {
+  const random = createSeededRandom(seed);
+  let state = rules.createInitialState(
+    { playerIds: PLAYER_IDS, dealerPlayerId: PLAYER_IDS[0], anteAmount: 1, config: rules.config.defaults },
+    random
+  );
+  await logDeal(roundId, { state: JSON.parse(JSON.stringify(state)) });
+
+  while (!rules.isHandOver(state)) {
+    const action = rules.botAction(state, rules.getActivePlayerId(state)!);
+    const recorded = recordDraws(random);
+    const next = rules.reduce(state, action, recorded.random);
+    await logModuleAction(roundId, state, action, recorded.draws);
+    state = next;
+  }
+  return state;
+}
+
+// Event ids and wall-clock stamps are made when an action is applied, not recorded
+const STAMP_KEYS = new Set(['id', 'createdAt', 'countedAt', 'timestamp']);
+
+function withoutStamps(state: unknown): unknown {
+  return JSON.parse(JSON.stringify(state), (key, value) => (STAMP_KEYS.has(key) ? undefined : value));
+}
+
+describe('hand action log', () => {
+  let repo: InMemoryGameRepository;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setGameRepository();
+    vi.restoreAllMocks();
+  });
+
+  it.each<[string, GameRules<unknown, ModuleAction, unknown>, string]>([
+    ['cribbage', cribbageModule, 'crib-log'],
+    ['gin-rummy', ginRummyModule, 'gin-log'],
+    ['yahtzee', yahtzeeModule, 'yahtzee-log'],
+  ])('rebuilds a %s hand from its log', async (gameType, rules, seed) => {
+    const { roundId } = await seedRound(gameType);
+
+    const finalState = await playAndLog(rules, roundId, seed);
+
+    expect(withoutStamps(await fetchRebuiltHandState(roundId))).toEqual(withoutStamps(finalState));
+  });
+
+  it('numbers actions per hand and keeps the first action logged under a key', async () => {
+    ({ repo } = await seedRound('holm'));
+    const { data: second } = await repo.rounds.insert({
+      game_id: GAME_ID,
+      dealer_game_id: DEALER_GAME_ID,
+      hand_number: 2,
+      round_number: 2,
+      cards_dealt: 0,
+    });
+    const [first] = repo.tables.rounds;
+
+    expect(await logDeal(first.id, { cards: {} })).toBe(1);
+    expect(await logDeal(first.id, { cards: { late: true } })).toBe(1);
+    expect(await logDecision(first.id, 'player-a', 'stay')).toBe(2);
+    // Rounds of the same hand share one log
+    expect(await logDecision(second!.id, 'player-b', 'fold')).toBe(3);
+    expect(await logDecision('missing-round', 'player-b', 'fold')).toBeNull();
+
+    const { data: log } = await getGameRepository().handActions.listByHand(second!.id);
+    expect(log!.map(a => [a.sequence_number, a.action_type, a.game_type])).toEqual([
+      [1, 'deal', 'holm'],
+      [2, 'decision', 'holm'],
+      [3, 'decision', 'holm'],
+    ]);
+    expect(log![0].payload).toEqual({ cards: {} });
+    // Not a module game: nothing to replay
+    expect(rebuildHandState(log!)).toBeNull();
+  });
+
+  it('closes the hand with a payout for every game result', async () => {
+    const seeded = await seedRound('holm');
+    const { roundId } = seeded;
+    repo = seeded.repo;
+    await logDeal(roundId, { cards: {} });
+
+    await repo.gameResults.insert({
+      game_id: GAME_ID,
+      dealer_game_id: DEALER_GAME_ID,
+      hand_number: 2,
+      pot_won: 6,
+      winner_player_id: 'player-a',
+      winning_hand_description: 'Pair of Kings',
+      player_chip_changes: { 'player-a': 3, 'player-b': -3 },
+      is_chopped: false,
+    });
+
+    const { data: log } = await getGameRepository().handActions.listByHand(roundId);
+    expect(log!.map(a => a.action_type)).toEqual(['deal', 'payout']);
+    expect(log![1]).toMatchObject({
+      player_id: 'player-a',
+      payload: { potWon: 6, chipChanges: { 'player-a': 3, 'player-b': -3 }, description: 'Pair of Kings' },
+    });
+  });
+});
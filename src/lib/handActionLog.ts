@@ -0,0 +1,221 @@
+/**
+ * Hand action log - one append-only, sequenced log per hand for every game type.
+ *
+ * Rows live in hand_actions and the database numbers them per hand, so every client
+ * agrees on the order. What gets logged:
+ * - deal: what was dealt when a round starts (a module game's initial state, the
+ *   community cards and who was dealt in for poker games, a dice game's starting state).
+ *   Poker hole cards are not copied here: the log is readable by anyone at the table,
+ *   player_cards keeps them private until they're shown
+ * - decision: stay / fold
+ * - roll / hold: dice games (the values rolled and the held mask)
+ * - a game module's own actions (cribbage discards and pegging plays, gin draws and
+ *   discards, yahtzee rolls and scoring) together with the random values they drew
+ * - payout: written by the database for every game_results row (antes, pots, settlements)
+ *
+ * Module games can be rebuilt exactly: rebuildHandState() replays the actions through
+ * the module's reducer, feeding back the recorded random values.
+ *
+ * Logging is fire-and-forget like the other event logs - it never blocks or fails a move.
+ */
+
+import type { Json } from '@/integrations/supabase/types';
+import type { RandomSource } from '@rules/random.ts';
+import { getGameRepository, type HandActionRow, type NewHandAction } from './gameRepository';
+import { getGameRules } from './gameModule';
+
+/** Action types shared by every game; module games add their own (see the *Module.ts files) */
+export type HandActionType = 'deal' | 'decision' | 'roll' | 'hold' | 'payout';
+
+/** A module action with the random values the reducer drew while applying it */
+export interface ModuleActionPayload<A extends ModuleAction = ModuleAction> {
+  action: A;
+  draws: number[];
+}
+
+/** The shape every module's actions share (CribbageAction, GinRummyAction, YahtzeeAction) */
+export interface ModuleAction {
+  type: string;
+  playerId: string;
+}
+
+/**
+ * Append an action to the round's hand. Resolves to its sequence number, or null if it
+ * couldn't be logged; never rejects.
+ */
+export function logHandAction(action: NewHandAction): Promise<number | null> {
+  return getGameRepository()
+    .handActions.append(action)
+    .then(({ data, error }) => {
+      if (error) console.warn('[HAND_ACTION] Failed to log action:', action.actionType, error.message);
+      return data;
+    })
+    .catch(err => {
+      console.warn('[HAND_ACTION] Error logging action:', action.actionType, err);
+      return null;
+    });
+}
+
+/** What was dealt when the round started (each round is dealt once, whoever logs it) */
+export function logDeal(roundId: string, dealt: object): Promise<number | null> {
+  return logHandAction({
+    roundId,
+    actionType: 'deal',
+    payload: JSON.parse(JSON.stringify(dealt)),
+    actionKey: `deal:${roundId}`,
+  });
+}
+
+/** A stay/fold decision; a player decides once per round */
+export function logDecision(
+  roundId: string,
+  playerId: string,
+  decision: string,
+  extra: { [key: string]: Json } = {}
+): Promise<number | null> {
+  return logHandAction({
+    roundId,
+    actionType: 'decision',
+    playerId,
+    payload: { decision, ...extra },
+    actionKey: `decision:${roundId}:${playerId}`,
+  });
+}
+
+/** A dice roll: the values after the roll and which dice were held through it */
+export function logDiceRoll(
+  roundId: string,
+  playerId: string,
+  dice: number[],
+  held: boolean[],
+  rollNumber: number
+): Promise<number | null> {
+  return logHandAction({
+    roundId,
+    actionType: 'roll',
+    playerId,
+    payload: { dice, held, rollNumber },
+    actionKey: `roll:${playerId}:${rollNumber}`,
+  });
+}
+
+/** The held mask after a player toggled a die */
+export function logDiceHold(roundId: string, playerId: string, held: boolean[]): Promise<number | null> {
+  return logHandAction({ roundId, actionType: 'hold', playerId, payload: { held } });
+}
+
+/**
+ * A game module action applied to `state`. Clients that apply the same action to the
+ * same state (bots run on every table) log it once.
+ */
+export function logModuleAction<A extends ModuleAction>(
+  roundId: string,
+  state: unknown,
+  action: A,
+  draws: number[] = []
+): Promise<number | null> {
+  const payload: ModuleActionPayload<A> = { action, draws };
+  return logHandAction({
+    roundId,
+    actionType: action.type,
+    playerId: action.playerId,
+    payload: payload as unknown as Json,
+    actionKey: `${action.type}:${hashState(state)}`,
+  });
+}
+
+/** Wrap a random source so the values it hands out can be logged with the action */
+export function recordDraws(random: RandomSource = Math.random): { random: RandomSource; draws: number[] } {
+  const draws: number[] = [];
+  return {
+    draws,
+    random: () => {
+      const value = random();
+      draws.push(value);
+      return value;
+    },
+  };
+}
+
+/** Hands the recorded values back in order; running out means the log doesn't match the rules */
+export function replayDraws(draws: number[]): RandomSource {
+  let next = 0;
+  return () => {
+    if (next >= draws.length) throw new Error('Replay needs more random values than were recorded');
+    return draws[next++];
+  };
+}
+
+function isModuleActionPayload(payload: Json): payload is Json & ModuleActionPayload {
+  return typeof payload === 'object' && payload !== null && !Array.isArray(payload) && 'action' in payload;
+}
+
+/**
+ * A module game's hand step by step: the dealt state, then the state after each later
+ * module action, paired with the log entry that produced it. Event ids and timestamps
+ * (lastEvent, lastAction) are made fresh by the replay; everything else matches the
+ * live hand. Null for games that aren't module games or a log with no deal.
+ * Throws if an action doesn't apply - the log and the rules disagree.
+ */
+export function replayHandStates(actions: HandActionRow[]): Array<{ action: HandActionRow; state: unknown }> | null {
+  const ordered = [...actions].sort((a, b) => a.sequence_number - b.sequence_number);
+  const deal = ordered.find(a => a.action_type === 'deal');
+  const rules = getGameRules(deal?.game_type);
+  if (!deal || !rules) return null;
+
+  let state = (deal.payload as { state?: unknown }).state;
+  if (state === undefined) return null;
+
+  const steps = [{ action: deal, state }];
+  for (const entry of ordered) {
+    if (entry.sequence_number <= deal.sequence_number || !isModuleActionPayload(entry.payload)) continue;
+    state = rules.reduce(state, entry.payload.action, replayDraws(entry.payload.draws));
+    steps.push({ action: entry, state });
+  }
+  return steps;
+}
+
+/** A module game's hand as it ended, see replayHandStates */
+export function rebuildHandState(actions: HandActionRow[]): unknown {
+  const steps = replayHandStates(actions);
+  return steps ? steps[steps.length - 1].state : null;
+}
+
+/** Load the log of the hand a round belongs to; empty if it couldn't be loaded */
+export async function fetchHandLog(roundId: string): Promise<HandActionRow[]> {
+  const { data, error } = await getGameRepository().handActions.listByHand(roundId);
+  if (error || !data) {
+    console.warn('[HAND_ACTION] Failed to load hand log:', error?.message);
+    return [];
+  }
+  return data;
+}
+
+/** Load a hand's log (through the round) and rebuild it, see rebuildHandState */
+export async function fetchRebuiltHandState(roundId: string): Promise<unknown> {
+  return rebuildHandState(await fetchHandLog(roundId));
+}
+
+// FNV-1a over a key-order-independent JSON rendering: states read back from jsonb
+// come with their keys reordered
+function hashState(state: unknown): string {
+  const text = canonicalJson(state);
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,224 @@
+// Provably fair deals and rolls for real-money sessions - database integration layer
+//
+// Real-money hands are shuffled and rolled on the server from a seed committed (its hash
+// published) on the hand's first deal or roll. deal_fair_cards hands out only the cards
+// being dealt, off the top of the hand's deck, and roll_fair_dice only the dice being
+// rolled, both for the game's current hand and only to the seat whose turn it is (or the
+// table between turns). Each draw is recorded, and hand history checks the record against
+// the seed once it's revealed. Everything else keeps using Math.random: the helpers return
+// undefined and the rules fall back. Hold'em is dealt from the server either way
+// (runWithServerDeck).
+
+import { supabase } from '@/integrations/supabase/client';
+import { shuffle, type RandomSource } from '@rules/random.ts';
+import {
+  createDealtOrderSource,
+  createRolledDiceSource,
+  deckLabel,
+  deriveDice,
+  deriveShuffle,
+  verifyFairDeals,
+  verifySeedHash,
+  DICE_LABEL,
+  type FairDeal,
+} from '@rules/fairness.ts';
+import { createDeck } from './cardUtils';
+import { createDeck as createCribbageDeck } from './cribbageGameLogic';
+import { createGinRummyDeck } from './ginRummyScoring';
+import { getGameRepository } from './gameRepository';
+import { canonicalGameType } from './gameTypes';
+
+export interface HandSeedRecord {
+  dealerGameId: string;
+  handNumber: number;
+  seedHash: string;
+  /** Null until the hand is over */
+  serverSeed: string | null;
+  /** Stream label -> number of values handed out */
+  draws: Record<string, number>;
+  /** Every deal and roll, in order. Empty until the hand is over */
+  deals: FairDeal[];
+  createdAt: string;
+}
+
+export interface HandSeedVerification {
+  hashMatches: boolean;
+  decks: Array<{ label: string; cards: Array<{ rank: string; suit: string }> }>;
+  dice: number[];
+  deals: Array<FairDeal & { matches: boolean }>;
+}
+
+// real_money is fixed when the session is created, so one lookup per game is enough
+const realMoneyByGame = new Map<string, boolean>();
+
+export async function isRealMoneyGame(gameId: string): Promise<boolean> {
+  const cached = realMoneyByGame.get(gameId);
+  if (cached !== undefined) return cached;
+
+  const { data, error } = await getGameRepository().games.get(gameId);
+
+  if (error) {
+    throw new Error(`Failed to fetch game: ${error.message}`);
+  }
+
+  const realMoney = data?.real_money === true;
+  realMoneyByGame.set(gameId, realMoney);
+  return realMoney;
+}
+
+// Positions (in the unshuffled deck) of the next `count` cards off the top of the hand's deck
+async function dealFairCards(gameId: string, deckSize: number, count: number, label = deckLabel()): Promise<number[]> {
+  const { data, error } = await supabase.rpc('deal_fair_cards', {
+    _game_id: gameId,
+    _deck_size: deckSize,
+    _count: count,
+    _label: label,
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to deal fair cards: ${error?.message ?? 'no data returned'}`);
+  }
+
+  return data;
+}
+
+/**
+ * Random source for shuffling a whole deck of `deckSize` cards, every one of them dealt
+ * from the hand's seed (spades, euchre, gin and stud deal the hand's deck out up front).
+ * Resolves to undefined for play-money games. Failures throw: silently dealing a
+ * real-money hand from Math.random would make it unverifiable.
+ */
+export async function drawFairDeckRandom(gameId: string, deckSize: number): Promise<RandomSource | undefined> {
+  if (!(await isRealMoneyGame(gameId))) return undefined;
+  return createDealtOrderSource(await dealFairCards(gameId, deckSize, deckSize), deckSize);
+}
+
+/**
+ * Shuffle a full deck for the next `count` cards of the hand's deck `label` (a 3-5-7
+ * round's, or Chucky's). Real-money hands get back just those cards, so take no more
+ * than `count`; play money gets the whole shuffled deck.
+ */
+export async function shuffleHandDeck<T>(gameId: string, deck: T[], count: number, label = deckLabel()): Promise<T[]> {
+  if (count <= 0 || !(await isRealMoneyGame(gameId))) return shuffle(deck);
+  const positions = await dealFairCards(gameId, deck.length, count, label);
+  return shuffle(deck, createDealtOrderSource(positions, deck.length)).slice(0, count);
+}
+
+/**
+ * Run a step that turns cards off the top of a freshly shuffled deck of `deckSize` as it
+ * goes, when how many isn't known up front (a turn of acey-deucey can roll on through
+ * several players' posts). Real-money hands deal it the cards it turned and run it again,
+ * until every card it turns was dealt; `cardsTurned` counts them for a step's result.
+ */
+export async function runWithFairDeck<T>(
+  gameId: string,
+  deckSize: number,
+  step: (random?: RandomSource) => T,
+  cardsTurned: (result: T) => number
+): Promise<T> {
+  if (!(await isRealMoneyGame(gameId))) return step();
+  return runWithServerDeck(gameId, deckSize, step, cardsTurned);
+}
+
+/**
+ * runWithFairDeck for play-money hands too: hold'em's undealt cards have nowhere public
+ * to wait, so every hold'em hand is dealt from the server.
+ */
+export async function runWithServerDeck<T>(
+  gameId: string,
+  deckSize: number,
+  step: (random?: RandomSource) => T,
+  cardsTurned: (result: T) => number
+): Promise<T> {
+  const dealt: number[] = [];
+  for (;;) {
+    const result = step(createDealtOrderSource(dealt, deckSize));
+    const turned = cardsTurned(result);
+    if (turned <= dealt.length) return result;
+    dealt.push(...(await dealFairCards(gameId, deckSize, turned - dealt.length)));
+  }
+}
+
+/** Random source for one roll of the unheld dice, continuing the hand's dice stream. */
+export async function drawFairDiceRandom(
+  gameId: string,
+  dice: Array<{ isHeld: boolean }>
+): Promise<RandomSource | undefined> {
+  const count = dice.filter(d => !d.isHeld).length;
+  if (count <= 0 || !(await isRealMoneyGame(gameId))) return undefined;
+
+  const { data, error } = await supabase.rpc('roll_fair_dice', { _game_id: gameId, _count: count });
+
+  if (error || !data) {
+    throw new Error(`Failed to roll fair dice: ${error?.message ?? 'no data returned'}`);
+  }
+
+  return createRolledDiceSource(data);
+}
+
+export async function fetchHandSeeds(gameId: string): Promise<HandSeedRecord[]> {
+  if (!(await isRealMoneyGame(gameId))) return [];
+
+  const { data, error } = await supabase.rpc('get_hand_seeds', { _game_id: gameId });
+  if (error) {
+    console.warn('[FAIRNESS] Failed to fetch hand seeds:', error.message);
+    return [];
+  }
+
+  return (data || []).map(row => ({
+    dealerGameId: row.dealer_game_id,
+    handNumber: row.hand_number,
+    seedHash: row.seed_hash,
+    serverSeed: row.server_seed ?? null,
+    draws: (row.draws as Record<string, number>) || {},
+    deals: ((row.deals as unknown as Array<Record<string, unknown>>) || []).map(toFairDeal),
+    createdAt: row.created_at,
+  }));
+}
+
+function createDeckForGameType(gameType: string | null | undefined): Array<{ rank: string; suit: string }> {
+  switch (canonicalGameType(gameType)) {
+    case 'cribbage':
+      return createCribbageDeck();
+    case 'gin-rummy':
+      return createGinRummyDeck();
+    default:
+      return createDeck();
+  }
+}
+
+// hand_seeds.deals entries are snake_case
+function toFairDeal(row: Record<string, unknown>): FairDeal {
+  return {
+    label: row.label as string,
+    from: row.from as number,
+    count: row.count as number,
+    seat: (row.seat as number | null) ?? null,
+    drawnBy: (row.drawn_by as number | null) ?? null,
+    deckSize: row.deck_size as number | undefined,
+    positions: row.positions as number[] | undefined,
+    values: row.values as number[] | undefined,
+  };
+}
+
+/**
+ * Re-derive everything a revealed seed produced: each deck in dealing order and the
+ * hand's dice sequence in the order it was rolled, and check every recorded deal and
+ * roll against them.
+ */
+export function verifyHandSeed(record: HandSeedRecord, gameType: string | null | undefined): HandSeedVerification | null {
+  if (!record.serverSeed) return null;
+  const seed = record.serverSeed;
+
+  const decks = Object.keys(record.draws)
+    .filter(label => label !== DICE_LABEL)
+    .sort()
+    .map(label => ({ label, cards: deriveShuffle(seed, label, createDeckForGameType(gameType)) }));
+
+  return {
+    hashMatches: verifySeedHash(seed, record.seedHash),
+    decks,
+    dice: deriveDice(seed, record.draws[DICE_LABEL] ?? 0),
+    deals: verifyFairDeals(seed, record.deals),
+  };
+}
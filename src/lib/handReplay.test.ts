@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createSeededRandom } from '@rules/random.ts';
+import type { Json } from '@/integrations/supabase/types';
+import type { HandActionRow } from './gameRepository';
+import { recordDraws } from './handActionLog';
+import { buildReplayFrames, describeReplayFrame } from './handReplay';
+import { yahtzeeModule } from './yahtzeeModule';
+import type { YahtzeeState } from './yahtzeeTypes';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+let sequence = 0;
+
+function entry(
+  actionType: string,
+  payload: Json,
+  playerId: string | null = null,
+  roundId = 'round-1',
+  gameType = 'holm'
+): HandActionRow {
+  sequence++;
+  return {
+    id: `action-${sequence}`,
+    game_id: 'game-1',
+    dealer_game_id: 'dealer-game-1',
+    hand_number: 1,
+    sequence_number: sequence,
+    round_id: roundId,
+    round_number: 1,
+    game_type: gameType,
+    player_id: playerId,
+    action_type: actionType,
+    payload,
+    action_key: null,
+    created_at: new Date(0).toISOString(),
+  };
+}
+
+const names: Record<string, string> = { a: 'alice', b: 'bob', c: 'carol' };
+const name = (id: string) => names[id] ?? id;
+
+describe('hand replay', () => {
+  it('follows the pot, decisions and chip changes of a poker hand', () => {
+    const log = [
+      entry('deal', { communityCards: [{ rank: 'K', suit: 'hearts' }], dealtTo: ['a', 'b', 'c'], cardsDealt: 4 }),
+      entry('payout', { description: 'Ante collected', chipChanges: { a: -2, b: -2, c: -2 } }),
+      entry('decision', { decision: 'stay' }, 'a'),
+      entry('decision', { decision: 'fold', forced: true }, 'b'),
+      entry('decision', { decision: 'stay' }, 'c'),
+      entry('payout', { description: 'Pair of Kings', chipChanges: { a: 6, c: -2 } }, 'a'),
+    ];
+    // The viewer is alice; carol's cards were shown down
+    const knownCards = new Map([
+      ['round-1', new Map([['a', [{ rank: 'K', suit: 'spades' }]], ['c', [{ rank: '2', suit: 'clubs' }]]])],
+    ]);
+
+    const frames = buildReplayFrames(log, { knownCards });
+
+    expect(frames.map(f => f.pot)).toEqual([0, 6, 6, 6, 6, 2]);
+    expect(frames[0].seats.map(s => [s.playerId, s.cards.length, s.hiddenCards])).toEqual([
+      ['a', 1, 0],
+      ['b', 0, 4],
+      ['c', 1, 0],
+    ]);
+    expect(frames[5].seats.map(s => [s.decision, s.chipChange])).toEqual([
+      ['stay', 4],
+      ['fold', -2],
+      ['stay', -4],
+    ]);
+    expect(frames.map(f => describeReplayFrame(f, name))).toEqual([
+      'Hand dealt',
+      'Ante collected',
+      'alice stayed',
+      'bob folded (timed out)',
+      'carol stayed',
+      'alice: Pair of Kings',
+    ]);
+  });
+
+  it('clears cards and decisions when the next round is dealt', () => {
+    const log = [
+      entry('deal', { roundNumber: 1, dealtTo: ['a', 'b'], cardsDealt: 3 }),
+      entry('decision', { decision: 'fold', autoFold: true }, 'a'),
+      entry('deal', { roundNumber: 2, dealtTo: ['a', 'b'], cardsDealt: 5 }, null, 'round-2'),
+    ];
+
+    const frames = buildReplayFrames(log);
+
+    expect(describeReplayFrame(frames[1], name)).toBe('alice folded (auto-fold)');
+    expect(frames[2].seats.map(s => [s.decision, s.hiddenCards])).toEqual([
+      [null, 5],
+      [null, 5],
+    ]);
+  });
+
+  it('shows dice rolls and holds', () => {
+    const log = [
+      entry('deal', { state: { turnOrder: ['b', 'a'] } }, null, 'round-1', 'horses'),
+      entry('roll', { dice: [6, 6, 2, 3, 1], held: [false, false, false, false, false], rollNumber: 1 }, 'b'),
+      entry('hold', { held: [true, true, false, false, false] }, 'b'),
+      entry('decision', { decision: 'lock_in' }, 'b'),
+    ];
+
+    const frames = buildReplayFrames(log);
+
+    expect(frames[0].seats.map(s => s.playerId)).toEqual(['b', 'a']);
+    expect(frames[2].seats[0]).toMatchObject({ dice: [6, 6, 2, 3, 1], held: [true, true, false, false, false] });
+    expect(frames.slice(1).map(f => describeReplayFrame(f, name))).toEqual([
+      'bob rolled 6 6 2 3 1',
+      'bob held 2 dice',
+      'bob locked in',
+    ]);
+  });
+
+  it('replays a module game through its rules', () => {
+    const rules = yahtzeeModule;
+    const random = createSeededRandom('replay');
+    let state: YahtzeeState = rules.createInitialState(
+      { playerIds: ['a', 'b'], dealerPlayerId: 'a', anteAmount: 1, config: rules.config.defaults },
+      random
+    );
+    const log = [entry('deal', { state: JSON.parse(JSON.stringify(state)) }, null, 'round-1', 'yahtzee')];
+    for (let i = 0; i < 4; i++) {
+      const action = rules.botAction(state, rules.getActivePlayerId(state)!);
+      const recorded = recordDraws(random);
+      state = rules.reduce(state, action, recorded.random);
+      log.push(entry(action.type, { action, draws: recorded.draws }, action.playerId, 'round-1', 'yahtzee'));
+    }
+
+    const frames = buildReplayFrames(log, {
+      moduleView: s => ({
+        seats: (s as YahtzeeState).turnOrder.map(playerId => ({
+          playerId,
+          dice: (s as YahtzeeState).playerStates[playerId].dice.map(d => d.value),
+        })),
+      }),
+    });
+
+    const last = frames[frames.length - 1];
+    for (const seat of last.seats) {
+      expect(seat.dice).toEqual(state.playerStates[seat.playerId].dice.map(d => d.value));
+    }
+    expect(describeReplayFrame(frames[1], name)).toMatch(/^\w+ rolled( \d){5}$/);
+  });
+});
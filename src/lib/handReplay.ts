@@ -0,0 +1,272 @@
+/**
+ * Hand replay - a past hand's action log (see handActionLog.ts) turned into one table
+ * snapshot per action, for stepping through the hand in Hand History.
+ *
+ * Pots and chip changes come from the payouts, stay/fold from the decisions and dice
+ * from the rolls and holds. Module games (cribbage, gin rummy, yahtzee) are replayed
+ * through their rules, and their module says what each seat shows at every step.
+ * Poker hole cards aren't in the log; the viewer passes in the ones it may see.
+ */
+
+import type { HandActionRow } from './gameRepository';
+import { replayHandStates } from './handActionLog';
+
+export interface ReplayCard {
+  rank: string;
+  suit: string;
+}
+
+export interface ReplaySeat {
+  playerId: string;
+  cards: ReplayCard[];
+  /** Cards dealt face down that the viewer never saw */
+  hiddenCards: number;
+  dice: number[];
+  held: boolean[];
+  /** Latest stay / fold / lock-in this round */
+  decision: string | null;
+  /** Net chips won or lost so far this hand */
+  chipChange: number;
+  /** Game score where the game keeps one (pegs, match points, scorecard total) */
+  score: number | null;
+}
+
+/** A module game's table at one state of the hand (see GameModule.replayView) */
+export interface ReplayTableView {
+  seats: Array<Pick<ReplaySeat, 'playerId'> & Partial<Pick<ReplaySeat, 'cards' | 'hiddenCards' | 'dice' | 'held' | 'score'>>>;
+  /** Face-up cards in the middle (cut card and the cards pegged, the discard top) */
+  tableCards?: ReplayCard[];
+}
+
+export interface ReplayFrame {
+  /** The log entry this snapshot is taken after */
+  action: HandActionRow;
+  pot: number;
+  seats: ReplaySeat[];
+  communityCards: ReplayCard[];
+  chuckyCards: ReplayCard[];
+}
+
+export interface ReplayOptions {
+  /** How a module game's state looks on the table; without it module actions only move the log on */
+  moduleView?: (gameState: unknown) => ReplayTableView;
+  /** Hole cards the viewer may see (their own, and any shown down), by round and then player */
+  knownCards?: Map<string, Map<string, ReplayCard[]>>;
+}
+
+interface DealPayload {
+  state?: { turnOrder?: string[] };
+  roundNumber?: number;
+  dealtTo?: string[];
+  cardsDealt?: number;
+  communityCards?: ReplayCard[];
+  chuckyCards?: ReplayCard[];
+}
+
+interface DicePayload {
+  dice?: number[];
+  held?: boolean[];
+  rollNumber?: number;
+}
+
+interface DecisionPayload {
+  decision?: string;
+  autoFold?: boolean;
+  forced?: boolean;
+}
+
+interface PayoutPayload {
+  potWon?: number;
+  chipChanges?: Record<string, number>;
+  description?: string | null;
+}
+
+interface ModulePayload {
+  action?: { type: string; card?: ReplayCard; category?: string; cardIndices?: number[]; amount?: number; quantity?: number; face?: number; bid?: number | string; suit?: string; alone?: boolean; points?: number };
+}
+
+function emptySeat(playerId: string): ReplaySeat {
+  return { playerId, cards: [], hiddenCards: 0, dice: [], held: [], decision: null, chipChange: 0, score: null };
+}
+
+/** One snapshot per logged action, in sequence order */
+export function buildReplayFrames(actions: HandActionRow[], options: ReplayOptions = {}): ReplayFrame[] {
+  const ordered = [...actions].sort((a, b) => a.sequence_number - b.sequence_number);
+  const { moduleView, knownCards } = options;
+
+  const moduleStates = new Map<number, unknown>();
+  if (moduleView) {
+    for (const step of replayHandStates(ordered) ?? []) moduleStates.set(step.action.sequence_number, step.state);
+  }
+
+  // Seats keep the order players first show up in: dealt in, turn order, then anyone else
+  const seats = new Map<string, ReplaySeat>();
+  const seatFor = (playerId: string) => {
+    let seat = seats.get(playerId);
+    if (!seat) {
+      seat = emptySeat(playerId);
+      seats.set(playerId, seat);
+    }
+    return seat;
+  };
+
+  let pot = 0;
+  let communityCards: ReplayCard[] = [];
+  let chuckyCards: ReplayCard[] = [];
+  const frames: ReplayFrame[] = [];
+
+  for (const action of ordered) {
+    const payload = (action.payload ?? {}) as Record<string, unknown>;
+
+    switch (action.action_type) {
+      case 'deal': {
+        const deal = payload as DealPayload;
+        if (deal.chuckyCards) {
+          chuckyCards = deal.chuckyCards;
+          break;
+        }
+        // A new round is dealt: last round's cards, dice and decisions are gone
+        for (const seat of seats.values()) Object.assign(seat, { cards: [], hiddenCards: 0, dice: [], held: [], decision: null });
+        if (deal.communityCards) communityCards = deal.communityCards;
+        const known = action.round_id ? knownCards?.get(action.round_id) : undefined;
+        for (const playerId of deal.dealtTo ?? deal.state?.turnOrder ?? []) {
+          const seat = seatFor(playerId);
+          seat.cards = known?.get(playerId) ?? [];
+          seat.hiddenCards = seat.cards.length > 0 ? 0 : deal.cardsDealt ?? 0;
+        }
+        break;
+      }
+      case 'decision':
+        if (action.player_id) seatFor(action.player_id).decision = (payload as DecisionPayload).decision ?? null;
+        break;
+      case 'hold':
+        if (action.player_id) seatFor(action.player_id).held = (payload as DicePayload).held ?? [];
+        break;
+      case 'payout': {
+        const changes = (payload as PayoutPayload).chipChanges ?? {};
+        let paidIn = 0;
+        for (const [playerId, delta] of Object.entries(changes)) {
+          seatFor(playerId).chipChange += delta;
+          paidIn -= delta;
+        }
+        pot = Math.max(0, pot + paidIn);
+        break;
+      }
+      default:
+        // Dice rolls; a module's own actions are applied through moduleStates below
+        if (action.action_type === 'roll' && action.player_id && 'dice' in payload) {
+          const roll = payload as DicePayload;
+          const seat = seatFor(action.player_id);
+          seat.dice = roll.dice ?? [];
+          seat.held = roll.held ?? [];
+        }
+    }
+
+    if (moduleView && moduleStates.has(action.sequence_number)) {
+      const view = moduleView(moduleStates.get(action.sequence_number));
+      for (const seatView of view.seats) {
+        const seat = Object.assign(seatFor(seatView.playerId), seatView);
+        // Cards the state turns face up replace the backs dealt, unless the view counts them itself
+        if (seatView.cards?.length && seatView.hiddenCards === undefined) seat.hiddenCards = 0;
+      }
+      communityCards = view.tableCards ?? [];
+    }
+
+    frames.push({
+      action,
+      pot,
+      seats: [...seats.values()].map(seat => ({ ...seat })),
+      communityCards,
+      chuckyCards,
+    });
+  }
+
+  return frames;
+}
+
+const SUIT_SYMBOLS: Record<string, string> = { hearts: '♥', diamonds: '♦', clubs: '♣', spades: '♠' };
+
+export function formatReplayCard(card: ReplayCard): string {
+  return `${card.rank}${SUIT_SYMBOLS[card.suit] ?? card.suit}`;
+}
+
+const MODULE_ACTION_TEXT: Record<string, string> = {
+  discard: 'discarded',
+  play: 'played',
+  go: 'said go',
+  take_first_draw: 'took the up-card',
+  pass_first_draw: 'passed on the up-card',
+  draw_stock: 'drew from the stock',
+  draw_discard: 'took the discard',
+  knock: 'knocked with',
+  lay_off: 'laid off',
+  finish_laying_off: 'finished laying off',
+  roll: 'rolled',
+  score: 'scored',
+  fold: 'folded',
+  check: 'checked',
+  call: 'called',
+  bet: 'bet',
+  raise: 'raised to',
+  show: 'showed',
+  bid: 'bid',
+  reveal: 'turned the cups up',
+  pass: 'passed',
+  order: 'ordered it up',
+  name: 'named',
+  declare: 'declared',
+  claim: 'called muggins',
+};
+
+/** One line for the replay's caption, e.g. "alice folded (timed out)" */
+export function describeReplayFrame(frame: ReplayFrame, playerName: (playerId: string) => string): string {
+  const { action } = frame;
+  const payload = (action.payload ?? {}) as Record<string, unknown>;
+  const who = action.player_id ? playerName(action.player_id) : '';
+  const seat = frame.seats.find(s => s.playerId === action.player_id);
+
+  switch (action.action_type) {
+    case 'deal': {
+      const deal = payload as DealPayload;
+      if (deal.chuckyCards) return 'Chucky dealt';
+      return deal.roundNumber ? `Round ${deal.roundNumber} dealt` : 'Hand dealt';
+    }
+    case 'decision': {
+      const { decision, autoFold, forced } = payload as DecisionPayload;
+      const text = decision === 'stay' ? 'stayed' : decision === 'fold' ? 'folded' : decision === 'lock_in' ? 'locked in' : decision;
+      const note = forced ? ' (timed out)' : autoFold ? ' (auto-fold)' : '';
+      return `${who} ${text}${note}`;
+    }
+    case 'hold':
+      return `${who} held ${seat?.held.filter(Boolean).length ?? 0} dice`;
+    case 'payout': {
+      const { description, chipChanges } = payload as PayoutPayload;
+      const winner = action.player_id && (chipChanges?.[action.player_id] ?? 0) > 0 ? `${who}: ` : '';
+      return `${winner}${description || 'Chips settled'}`;
+    }
+  }
+
+  if (action.action_type === 'roll' && 'dice' in payload) {
+    return `${who} rolled ${((payload as DicePayload).dice ?? []).join(' ')}`;
+  }
+
+  const moduleAction = (payload as ModulePayload).action;
+  const verb = MODULE_ACTION_TEXT[action.action_type] ?? action.action_type.replace(/_/g, ' ');
+  if (moduleAction?.card) return `${who} ${verb} ${formatReplayCard(moduleAction.card)}`;
+  if (moduleAction?.category) return `${who} ${verb} ${moduleAction.category}`;
+  if (moduleAction?.amount !== undefined) return `${who} ${verb} ${moduleAction.amount}`;
+  if (moduleAction?.points !== undefined) return `${who} ${verb} ${moduleAction.points}`;
+  if (moduleAction?.quantity !== undefined) return `${who} ${verb} ${moduleAction.quantity} × ${moduleAction.face}s`;
+  if (moduleAction?.alone !== undefined) {
+    return `${who} ${verb}${moduleAction.suit ? ` ${moduleAction.suit}` : ''}${moduleAction.alone ? ' alone' : ''}`;
+  }
+  if (moduleAction?.bid !== undefined) {
+    return `${who} ${verb} ${moduleAction.bid === 'blind_nil' ? 'blind nil' : moduleAction.bid}`;
+  }
+  if (action.action_type === 'roll' && seat) return `${who} ${verb} ${seat.dice.join(' ')}`;
+  // Cribbage names cards by index: a discard goes to the crib, a play lands on the table
+  if (moduleAction?.cardIndices) return `${who} ${verb} ${moduleAction.cardIndices.length} to the crib`;
+  const played = frame.communityCards[frame.communityCards.length - 1];
+  if (action.action_type === 'play' && played) return `${who} ${verb} ${formatReplayCard(played)}`;
+  return `${who} ${verb}`;
+}
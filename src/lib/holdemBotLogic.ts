@@ -0,0 +1,73 @@
+// Hold'em bot AI
+// Deterministic: the bot weighs its hand strength against the price of staying in.
+
+import { RANK_VALUES, type Card, type HandRank } from './cardUtils';
+import { evaluateHoldemHand, getHoldemBetLimits, getHoldemPotTotal, type HoldemBetType } from './holdemGameLogic';
+import type { HoldemState } from './holdemTypes';
+
+export interface HoldemBotDecision {
+  type: HoldemBetType;
+  /** Street total to bet or raise to */
+  amount?: number;
+}
+
+const MADE_HAND_STRENGTH: Record<HandRank, number> = {
+  'high-card': 0.2,
+  pair: 0.5,
+  'two-pair': 0.68,
+  'three-of-a-kind': 0.78,
+  straight: 0.84,
+  flush: 0.88,
+  'full-house': 0.94,
+  'four-of-a-kind': 0.98,
+  'straight-flush': 1,
+  'five-of-a-kind': 1,
+};
+
+/** 0-1 strength of two hole cards before the flop */
+export function getPreflopStrength(holeCards: Card[]): number {
+  const [high, low] = holeCards.map(c => RANK_VALUES[c.rank]).sort((a, b) => b - a);
+  // 22 = 0.55 up to AA = 1
+  if (high === low) return 0.55 + ((high - 2) / 12) * 0.45;
+
+  let strength = ((high + low) / 27) * 0.65;
+  if (holeCards[0].suit === holeCards[1].suit) strength += 0.05;
+  if (high - low === 1) strength += 0.04;
+  return Math.min(strength, 0.8);
+}
+
+/** 0-1 strength of the made hand; a hand that only plays the board is worth little */
+export function getPostflopStrength(holeCards: Card[], communityCards: Card[]): number {
+  const hand = evaluateHoldemHand(holeCards, communityCards);
+  const usesHoleCard = hand.usedIndices.some(i => i < holeCards.length);
+  return usesHoleCard ? MADE_HAND_STRENGTH[hand.rank] : MADE_HAND_STRENGTH['high-card'] / 2;
+}
+
+/** The bot's betting decision on its turn, holding `holeCards` */
+export function getBotHoldemDecision(state: HoldemState, playerId: string, holeCards: Card[]): HoldemBotDecision {
+  const limits = getHoldemBetLimits(state, playerId);
+  const pot = getHoldemPotTotal(state);
+  const strength = state.communityCards.length === 0
+    ? getPreflopStrength(holeCards)
+    : getPostflopStrength(holeCards, state.communityCards);
+
+  const raiseType = state.currentBet === 0 ? 'bet' : 'raise';
+  const clampRaise = (to: number) => Math.max(limits.minRaiseTo, Math.min(limits.maxRaiseTo, Math.round(to)));
+
+  // Strong: raise about the size of the pot
+  if (strength >= 0.8 && limits.canRaise) {
+    return { type: raiseType, amount: clampRaise(state.currentBet + pot) };
+  }
+  // Decent and unopposed: bet half the pot
+  if (strength >= 0.6 && limits.canRaise && limits.toCall === 0) {
+    return { type: raiseType, amount: clampRaise(pot / 2) };
+  }
+  if (limits.canCheck) return { type: 'check' };
+
+  // Call when the hand is better than the share of the pot the call buys
+  const potOdds = limits.toCall / (pot + limits.toCall);
+  const cheapPreflop = state.street === 'preflop' && limits.toCall <= state.bigBlind && strength >= 0.35;
+  return strength >= potOdds + 0.2 || cheapPreflop
+    ? { type: 'call' }
+    : { type: 'fold' };
+}
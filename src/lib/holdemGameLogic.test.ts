@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyHoldemBet,
+  buildHoldemPots,
+  dealHoldemHand,
+  getHoldemBetLimits,
+  getHoldemChipChanges,
+  getHoldemStacks,
+  hideHoleCards,
+  showHoleCards,
+} from './holdemGameLogic';
+import type { HoldemState } from './holdemTypes';
+import { cards, cardsOnTop, rigHoleCards } from './testHelpers';
+import { createSeededRandom } from '@rules/random.ts';
+
+function deal(stacks: Record<string, number>, dealerPlayerId: string): HoldemState {
+  return dealHoldemHand(
+    { playerIds: Object.keys(stacks), dealerPlayerId, stacks, smallBlind: 1, bigBlind: 2 },
+    createSeededRandom('holdem')
+  );
+}
+
+describe("Hold'em Game Logic", () => {
+  describe('dealHoldemHand', () => {
+    it('posts the blinds left of the button', () => {
+      const state = deal({ a: 100, b: 100, c: 100 }, 'a');
+      expect(state.seatOrder).toEqual(['b', 'c', 'a']);
+      expect(state.smallBlindPlayerId).toBe('b');
+      expect(state.bigBlindPlayerId).toBe('c');
+      expect(state.playerStates.c).toMatchObject({ streetBet: 2, stack: 98 });
+      // First to act is left of the big blind
+      expect(state.currentTurnPlayerId).toBe('a');
+    });
+
+    it('has the button post the small blind heads-up and act first preflop', () => {
+      const state = deal({ a: 100, b: 100 }, 'a');
+      expect(state.smallBlindPlayerId).toBe('a');
+      expect(state.bigBlindPlayerId).toBe('b');
+      expect(state.currentTurnPlayerId).toBe('a');
+    });
+
+    it('gives the big blind the option when everyone limps', () => {
+      let state = deal({ a: 100, b: 100 }, 'a');
+      state = applyHoldemBet(state, 'a', 'call');
+      expect(state.currentTurnPlayerId).toBe('b');
+      expect(getHoldemBetLimits(state, 'b')).toMatchObject({ canCheck: true, canRaise: true, minRaiseTo: 4 });
+    });
+  });
+
+  describe('applyHoldemBet', () => {
+    it('requires a raise of at least the last full raise', () => {
+      let state = deal({ a: 100, b: 100, c: 100 }, 'a');
+      expect(() => applyHoldemBet(state, 'a', 'raise', 3)).toThrow('Minimum raise is 4');
+
+      state = applyHoldemBet(state, 'a', 'raise', 6);
+      expect(state.minRaise).toBe(4);
+      expect(() => applyHoldemBet(state, 'b', 'raise', 9)).toThrow('Minimum raise is 10');
+      expect(() => applyHoldemBet(state, 'c', 'call')).toThrow('Not your turn');
+    });
+
+    it("doesn't reopen the betting after an all-in short of a full raise", () => {
+      // c is under the gun; a posts the small blind with 9 chips in all
+      let state = deal({ a: 9, b: 100, c: 100 }, 'c');
+      expect(state.currentTurnPlayerId).toBe('c');
+
+      state = applyHoldemBet(state, 'c', 'raise', 6);
+      state = applyHoldemBet(state, 'a', 'raise', 9); // all-in, 3 more than 6
+      expect(state.playerStates.a.allIn).toBe(true);
+      expect(state.minRaise).toBe(4);
+
+      // The big blind hasn't acted since the full raise, so may still raise
+      expect(getHoldemBetLimits(state, 'b').canRaise).toBe(true);
+      state = applyHoldemBet(state, 'b', 'call');
+
+      // c already acted on the full raise: call or fold only
+      expect(getHoldemBetLimits(state, 'c')).toMatchObject({ canRaise: false, toCall: 3 });
+      expect(() => applyHoldemBet(state, 'c', 'raise', 20)).toThrow('Betting is not open to you');
+      state = applyHoldemBet(state, 'c', 'call');
+      expect(state.street).toBe('flop');
+      expect(state.communityCards).toHaveLength(3);
+    });
+
+    it('awards the pot uncontested when everyone else folds', () => {
+      let state = deal({ a: 100, b: 100, c: 100 }, 'a');
+      state = applyHoldemBet(state, 'a', 'fold');
+      state = applyHoldemBet(state, 'b', 'fold');
+      expect(state.phase).toBe('complete');
+      expect(state.results).toEqual([{ amount: 3, eligiblePlayerIds: ['c'], winnerIds: ['c'], handDescription: null }]);
+      expect(getHoldemChipChanges(state)).toEqual({ a: 0, b: -1, c: 1 });
+    });
+  });
+
+  describe('side pots', () => {
+    it('caps the short stack at the main pot and splits a tied side pot', () => {
+      let state = deal({ a: 20, b: 50, c: 50 }, 'c');
+      state = rigHoleCards(state, { a: cards('A♠', 'A♥'), b: cards('Q♣', '3♦'), c: cards('Q♦', '3♥') });
+      expect(state.currentTurnPlayerId).toBe('c');
+
+      state = applyHoldemBet(state, 'c', 'raise', 50);
+      state = applyHoldemBet(state, 'a', 'call');
+      state = applyHoldemBet(state, 'b', 'call', 0, cardsOnTop(cards('2♣', '7♦', '9♥', 'J♠', 'K♦')));
+      expect(buildHoldemPots(state)).toEqual([
+        { amount: 60, eligiblePlayerIds: ['a', 'b', 'c'] },
+        { amount: 60, eligiblePlayerIds: ['b', 'c'] },
+      ]);
+
+      // Nobody is left to bet: the board runs out and the hands are settled
+      expect(state.phase).toBe('complete');
+      expect(state.communityCards).toEqual(cards('2♣', '7♦', '9♥', 'J♠', 'K♦'));
+      expect(state.results!.map(r => [r.amount, r.winnerIds])).toEqual([
+        [60, ['a']],
+        [60, ['b', 'c']],
+      ]);
+      expect(getHoldemStacks(state)).toEqual({ a: 60, b: 30, c: 30 });
+    });
+  });
+
+  describe('showdown with hidden hole cards', () => {
+    it('waits for the players still in to show before settling', () => {
+      const dealt = rigHoleCards(deal({ a: 100, b: 100 }, 'a'), { a: cards('K♠', 'K♥'), b: cards('8♣', '4♦') });
+      let state = hideHoleCards(dealt);
+      expect(Object.values(state.playerStates).every(ps => ps.holeCards.length === 0)).toBe(true);
+
+      // Each street's cards are dealt only as it opens
+      const board = cards('2♣', '7♦', '9♥', 'J♠', '3♦');
+      state = applyHoldemBet(state, 'a', 'call');
+      state = applyHoldemBet(state, 'b', 'check', 0, cardsOnTop(board));
+      expect(state.communityCards).toEqual(board.slice(0, 3));
+      for (let street = 0; street < 3; street++) {
+        state = applyHoldemBet(state, 'b', 'check');
+        state = applyHoldemBet(state, 'a', 'check', 0, cardsOnTop(board));
+        expect(state.communityCards).toEqual(board.slice(0, Math.min(5, 4 + street)));
+      }
+
+      expect(state.phase).toBe('showdown');
+      expect(state.currentTurnPlayerId).toBe('b');
+      expect(() => showHoleCards(state, 'a', dealt.playerStates.a.holeCards)).toThrow('Not your turn to show');
+
+      state = showHoleCards(state, 'b', dealt.playerStates.b.holeCards);
+      expect(state.currentTurnPlayerId).toBe('a');
+      state = showHoleCards(state, 'a', dealt.playerStates.a.holeCards);
+
+      expect(state.phase).toBe('complete');
+      expect(state.results![0]).toMatchObject({ amount: 4, winnerIds: ['a'] });
+      expect(getHoldemChipChanges(state)).toEqual({ a: 2, b: -2 });
+    });
+  });
+});
@@ -0,0 +1,449 @@
+// Texas Hold'em core game logic
+// Handles blinds, the four no-limit betting streets, min-raise rules, side pots and showdown.
+// All state mutations return a new HoldemState (immutable pattern).
+//
+// A freshly dealt state holds every player's hole cards. The stored state doesn't (see
+// hideHoleCards): betting never needs them, and the hand waits in the showdown phase
+// until the players still in have shown theirs. The board isn't dealt until its street
+// is: the action that closes the betting turns the next cards with `random`.
+
+import {
+  createDeck,
+  evaluateHand,
+  formatHandRankDetailed,
+  getBestFiveCardIndices,
+  shuffleDeck,
+  type Card,
+  type HandRank,
+} from './cardUtils';
+import type {
+  HoldemActionType,
+  HoldemPlayerState,
+  HoldemPot,
+  HoldemPotResult,
+  HoldemState,
+  HoldemStreet,
+} from './holdemTypes';
+import type { RandomSource } from '@rules/random.ts';
+
+export interface HoldemDealSetup {
+  /** Player ids in seat order */
+  playerIds: string[];
+  dealerPlayerId: string;
+  /** Chips each player brings to the hand; players without any sit it out */
+  stacks: Record<string, number>;
+  smallBlind: number;
+  bigBlind: number;
+}
+
+export type HoldemBetType = Exclude<HoldemActionType, 'show'>;
+
+const NEXT_STREET: Record<HoldemStreet, HoldemStreet | null> = {
+  preflop: 'flop',
+  flop: 'turn',
+  turn: 'river',
+  river: null,
+};
+
+/** Board size once each street is dealt */
+const BOARD_SIZE: Record<HoldemStreet, number> = { preflop: 0, flop: 3, turn: 4, river: 5 };
+
+const cardKey = (card: Card) => `${card.rank}${card.suit}`;
+
+// ─── Dealing ────────────────────────────────────────────────────
+
+/** Shuffle, deal two hole cards each and post the blinds */
+export function dealHoldemHand(setup: HoldemDealSetup, random?: RandomSource): HoldemState {
+  const { playerIds, stacks, smallBlind, bigBlind } = setup;
+
+  // Clockwise from the dealer's left; the button stays with the dealer's seat if they are in
+  const dealerIdx = Math.max(0, playerIds.indexOf(setup.dealerPlayerId));
+  const seatOrder = playerIds
+    .map((_, i) => playerIds[(dealerIdx + 1 + i) % playerIds.length])
+    .filter(id => (stacks[id] ?? 0) > 0);
+  if (seatOrder.length < 2) {
+    throw new Error("Hold'em needs at least 2 players with chips");
+  }
+  const dealerPlayerId = seatOrder[seatOrder.length - 1];
+
+  // Heads-up the dealer posts the small blind
+  const headsUp = seatOrder.length === 2;
+  const smallBlindPlayerId = headsUp ? dealerPlayerId : seatOrder[0];
+  const bigBlindPlayerId = headsUp ? seatOrder[0] : seatOrder[1];
+
+  // One card at a time around the table, twice
+  const shuffled = shuffleDeck(createDeck(), random);
+  const playerStates: Record<string, HoldemPlayerState> = {};
+  seatOrder.forEach((playerId, i) => {
+    playerStates[playerId] = {
+      playerId,
+      holeCards: [shuffled[i], shuffled[seatOrder.length + i]],
+      stack: stacks[playerId],
+      startingStack: stacks[playerId],
+      streetBet: 0,
+      totalBet: 0,
+      folded: false,
+      allIn: false,
+      hasActed: false,
+    };
+  });
+
+  let state: HoldemState = {
+    phase: 'betting',
+    street: 'preflop',
+    dealerPlayerId,
+    smallBlindPlayerId,
+    bigBlindPlayerId,
+    smallBlind,
+    bigBlind,
+    seatOrder,
+    playerStates,
+    communityCards: [],
+    currentTurnPlayerId: null,
+    // The big blind is the bet to match even when the big blind is short
+    currentBet: bigBlind,
+    minRaise: bigBlind,
+    results: null,
+    lastAction: null,
+  };
+
+  state = postBlind(state, smallBlindPlayerId, smallBlind, 'small_blind');
+  state = postBlind(state, bigBlindPlayerId, bigBlind, 'big_blind');
+
+  // Posting a blind isn't acting: the big blind still gets the option
+  const first = nextToAct(state, bigBlindPlayerId);
+  // Nobody can bet (the blinds put everyone all-in): the board comes off the same deck
+  return first ? { ...state, currentTurnPlayerId: first } : closeStreet(state, () => shuffled);
+}
+
+function postBlind(
+  state: HoldemState,
+  playerId: string,
+  blind: number,
+  type: 'small_blind' | 'big_blind'
+): HoldemState {
+  const ps = putIn(state.playerStates[playerId], blind);
+  return {
+    ...state,
+    playerStates: { ...state.playerStates, [playerId]: ps },
+    lastAction: { type, playerId, amount: ps.streetBet, allIn: ps.allIn },
+  };
+}
+
+/** Move up to `amount` from the stack into the pot; short stacks go all-in */
+function putIn(ps: HoldemPlayerState, amount: number): HoldemPlayerState {
+  const paid = Math.min(amount, ps.stack);
+  return {
+    ...ps,
+    stack: ps.stack - paid,
+    streetBet: ps.streetBet + paid,
+    totalBet: ps.totalBet + paid,
+    allIn: ps.stack - paid === 0,
+  };
+}
+
+// ─── Turn order ─────────────────────────────────────────────────
+
+function canAct(ps: HoldemPlayerState): boolean {
+  return !ps.folded && !ps.allIn;
+}
+
+function needsToAct(state: HoldemState, ps: HoldemPlayerState): boolean {
+  return canAct(ps) && (!ps.hasActed || ps.streetBet < state.currentBet);
+}
+
+/** First player after `afterPlayerId` (clockwise) who still owes an action this street */
+function nextToAct(state: HoldemState, afterPlayerId: string): string | null {
+  const { seatOrder } = state;
+  const start = seatOrder.indexOf(afterPlayerId);
+  for (let i = 1; i <= seatOrder.length; i++) {
+    const ps = state.playerStates[seatOrder[(start + i) % seatOrder.length]];
+    if (needsToAct(state, ps)) return ps.playerId;
+  }
+  return null;
+}
+
+function livePlayerIds(state: HoldemState): string[] {
+  return state.seatOrder.filter(id => !state.playerStates[id].folded);
+}
+
+// ─── Betting ────────────────────────────────────────────────────
+
+export interface HoldemBetLimits {
+  toCall: number;
+  canCheck: boolean;
+  /** Whether the player may bet or raise at all */
+  canRaise: boolean;
+  /** Smallest legal bet/raise-to (an all-in for less is always allowed) */
+  minRaiseTo: number;
+  /** All-in */
+  maxRaiseTo: number;
+}
+
+/** What the player whose turn it is may do */
+export function getHoldemBetLimits(state: HoldemState, playerId: string): HoldemBetLimits {
+  const ps = state.playerStates[playerId];
+  const toCall = Math.max(0, state.currentBet - ps.streetBet);
+  const maxRaiseTo = ps.streetBet + ps.stack;
+  const fullRaiseTo = state.currentBet === 0 ? state.bigBlind : state.currentBet + state.minRaise;
+  // Someone has to be left to call a raise
+  const anyoneToRaise = state.seatOrder.some(id => id !== playerId && canAct(state.playerStates[id]));
+
+  return {
+    toCall,
+    canCheck: toCall === 0,
+    // Having acted already, only a full raise since reopens the betting (which resets hasActed)
+    canRaise: canAct(ps) && !ps.hasActed && anyoneToRaise && maxRaiseTo > state.currentBet,
+    minRaiseTo: Math.min(fullRaiseTo, maxRaiseTo),
+    maxRaiseTo,
+  };
+}
+
+/** Sum of everything put in this hand */
+export function getHoldemPotTotal(state: HoldemState): number {
+  return Object.values(state.playerStates).reduce((sum, ps) => sum + ps.totalBet, 0);
+}
+
+/**
+ * Apply one betting action; throws on an illegal one.
+ * Bets and raises name the street total they raise to (`amount`), not the increment.
+ * An action that closes the street deals the next one's board cards with `random`.
+ */
+export function applyHoldemBet(
+  state: HoldemState,
+  playerId: string,
+  type: HoldemBetType,
+  amount = 0,
+  random?: RandomSource
+): HoldemState {
+  if (state.phase !== 'betting' || state.currentTurnPlayerId !== playerId) {
+    throw new Error('Not your turn');
+  }
+
+  const ps = state.playerStates[playerId];
+  const limits = getHoldemBetLimits(state, playerId);
+  let next: HoldemPlayerState = ps;
+  let { currentBet, minRaise } = state;
+  let reopened = false;
+
+  switch (type) {
+    case 'fold':
+      next = { ...ps, folded: true };
+      break;
+    case 'check':
+      if (!limits.canCheck) throw new Error('Cannot check facing a bet');
+      break;
+    case 'call':
+      if (limits.toCall === 0) throw new Error('Nothing to call');
+      next = putIn(ps, limits.toCall);
+      break;
+    case 'bet':
+    case 'raise': {
+      if (type === 'bet' && state.currentBet > 0) throw new Error('There is already a bet - raise instead');
+      if (type === 'raise' && state.currentBet === 0) throw new Error('Nothing to raise - bet instead');
+      if (!limits.canRaise) throw new Error('Betting is not open to you - call or fold');
+
+      const raiseTo = amount;
+      if (raiseTo > limits.maxRaiseTo) throw new Error('Not enough chips');
+      if (raiseTo < limits.minRaiseTo) throw new Error(`Minimum ${type} is ${limits.minRaiseTo}`);
+
+      next = putIn(ps, raiseTo - ps.streetBet);
+      // An all-in short of a full raise doesn't reopen the betting for players who already acted
+      const increment = raiseTo - currentBet;
+      if (increment >= minRaise) {
+        minRaise = increment;
+        reopened = true;
+      }
+      currentBet = raiseTo;
+      break;
+    }
+  }
+
+  const playerStates = { ...state.playerStates };
+  if (reopened) {
+    for (const id of state.seatOrder) playerStates[id] = { ...playerStates[id], hasActed: false };
+  }
+  playerStates[playerId] = { ...next, hasActed: true };
+
+  const acted: HoldemState = {
+    ...state,
+    playerStates,
+    currentBet,
+    minRaise,
+    lastAction: { type, playerId, amount: next.streetBet, allIn: next.allIn },
+  };
+
+  if (livePlayerIds(acted).length === 1) return settleHand(acted);
+
+  const following = nextToAct(acted, playerId);
+  return following
+    ? { ...acted, currentTurnPlayerId: following }
+    : closeStreet(acted, () => shuffleDeck(createDeck(), random));
+}
+
+/** Betting on the street is done: deal the next one from `deck`, or show down */
+function closeStreet(state: HoldemState, deck: () => Card[]): HoldemState {
+  const street = NEXT_STREET[state.street];
+  const stillBetting = state.seatOrder.filter(id => canAct(state.playerStates[id])).length;
+
+  // Everyone but one player is all-in: no more betting, run the board out
+  if (!street || stillBetting < 2) return showDown(dealBoard(state, 'river', deck));
+
+  const playerStates = { ...state.playerStates };
+  for (const id of state.seatOrder) {
+    playerStates[id] = { ...playerStates[id], streetBet: 0, hasActed: false };
+  }
+  const dealt = dealBoard({ ...state, playerStates, currentBet: 0, minRaise: state.bigBlind }, street, deck);
+  // First player still in, left of the dealer
+  return { ...dealt, currentTurnPlayerId: nextToAct(dealt, dealt.dealerPlayerId) };
+}
+
+/** Turn up the board through `street`: the first cards of `deck` not already out */
+function dealBoard(state: HoldemState, street: HoldemStreet, deck: () => Card[]): HoldemState {
+  const needed = BOARD_SIZE[street] - state.communityCards.length;
+  if (needed <= 0) return { ...state, street };
+
+  // Hidden hole cards can't be skipped here: the table deals off the top of the server's
+  // deck, which never hands out a card twice
+  const out = new Set(
+    [...state.communityCards, ...Object.values(state.playerStates).flatMap(ps => ps.holeCards)].map(cardKey)
+  );
+  const next = deck().filter(card => !out.has(cardKey(card))).slice(0, needed);
+  return { ...state, street, communityCards: [...state.communityCards, ...next] };
+}
+
+// ─── Showdown ───────────────────────────────────────────────────
+
+/** Next player still in whose hole cards aren't face up yet, left of the dealer first */
+function nextToShow(state: HoldemState): string | null {
+  return livePlayerIds(state).find(id => state.playerStates[id].holeCards.length === 0) ?? null;
+}
+
+/** Betting is over with more than one player in: settle once every hand is face up */
+function showDown(state: HoldemState): HoldemState {
+  const next = nextToShow(state);
+  return next
+    ? { ...state, phase: 'showdown', currentTurnPlayerId: next }
+    : settleHand(state);
+}
+
+/** A player still in turns their hole cards up at showdown */
+export function showHoleCards(state: HoldemState, playerId: string, holeCards: Card[]): HoldemState {
+  if (state.phase !== 'showdown' || state.currentTurnPlayerId !== playerId) {
+    throw new Error('Not your turn to show');
+  }
+  if (holeCards.length !== 2) throw new Error('Show both hole cards');
+
+  return showDown({
+    ...state,
+    playerStates: { ...state.playerStates, [playerId]: { ...state.playerStates[playerId], holeCards } },
+    lastAction: { type: 'show', playerId, amount: state.playerStates[playerId].streetBet, allIn: false },
+  });
+}
+
+/** The state as stored: nobody's hole cards */
+export function hideHoleCards(state: HoldemState): HoldemState {
+  return {
+    ...state,
+    playerStates: Object.fromEntries(
+      Object.entries(state.playerStates).map(([id, ps]) => [id, { ...ps, holeCards: [] }])
+    ),
+  };
+}
+
+// ─── Pots ───────────────────────────────────────────────────────
+
+/**
+ * Main pot and side pots, smallest first. Each all-in amount caps a pot that only
+ * the players who covered it can win; folded players' chips stay in but can't win.
+ */
+export function buildHoldemPots(state: HoldemState): HoldemPot[] {
+  const players = state.seatOrder.map(id => state.playerStates[id]);
+  const levels = [...new Set(players.filter(ps => !ps.folded).map(ps => ps.totalBet))].sort((a, b) => a - b);
+
+  const pots: HoldemPot[] = [];
+  let previous = 0;
+  for (const level of levels) {
+    const amount = players.reduce(
+      (sum, ps) => sum + Math.min(ps.totalBet, level) - Math.min(ps.totalBet, previous),
+      0
+    );
+    const eligiblePlayerIds = players.filter(ps => !ps.folded && ps.totalBet >= level).map(ps => ps.playerId);
+    if (amount > 0) pots.push({ amount, eligiblePlayerIds });
+    previous = level;
+  }
+
+  // Chips a folded player put in above everyone still in go to the last pot
+  const leftover = players.reduce((sum, ps) => sum + Math.max(0, ps.totalBet - previous), 0);
+  if (leftover > 0 && pots.length > 0) pots[pots.length - 1].amount += leftover;
+  return pots;
+}
+
+export interface HoldemShowdownHand {
+  rank: HandRank;
+  value: number;
+  description: string;
+  /** Indices into holeCards + communityCards of the best five */
+  usedIndices: number[];
+}
+
+/** A player's best five of their two hole cards and the board */
+export function evaluateHoldemHand(holeCards: Card[], communityCards: Card[]): HoldemShowdownHand {
+  const cards = [...holeCards, ...communityCards];
+  const { usedIndices } = getBestFiveCardIndices(cards, false);
+  const best = usedIndices.map(i => cards[i]);
+  const { rank, value } = evaluateHand(best, false);
+  return {
+    rank,
+    value,
+    description: formatHandRankDetailed(best, false),
+    usedIndices,
+  };
+}
+
+/** Award every pot and complete the hand */
+function settleHand(state: HoldemState): HoldemState {
+  const live = livePlayerIds(state);
+  const hands = new Map<string, HoldemShowdownHand>();
+  if (live.length > 1) {
+    for (const id of live) hands.set(id, evaluateHoldemHand(state.playerStates[id].holeCards, state.communityCards));
+  }
+
+  const playerStates = { ...state.playerStates };
+  const results: HoldemPotResult[] = buildHoldemPots(state).map(pot => {
+    const contenders = pot.eligiblePlayerIds;
+    const best = Math.max(...contenders.map(id => hands.get(id)?.value ?? 0));
+    const winnerIds = contenders.length === 1
+      ? contenders
+      : contenders.filter(id => hands.get(id)!.value === best);
+
+    // Odd chips of a split go to the winners closest to the dealer's left
+    const share = Math.floor(pot.amount / winnerIds.length);
+    let oddChips = pot.amount - share * winnerIds.length;
+    for (const id of winnerIds) {
+      const won = share + (oddChips > 0 ? 1 : 0);
+      oddChips = Math.max(0, oddChips - 1);
+      playerStates[id] = { ...playerStates[id], stack: playerStates[id].stack + won };
+    }
+
+    return {
+      ...pot,
+      winnerIds,
+      handDescription: contenders.length === 1 ? null : hands.get(winnerIds[0])!.description,
+    };
+  });
+
+  return { ...state, playerStates, phase: 'complete', currentTurnPlayerId: null, results };
+}
+
+/** Net chips won or lost by each player this hand */
+export function getHoldemChipChanges(state: HoldemState): Record<string, number> {
+  return Object.fromEntries(
+    Object.values(state.playerStates).map(ps => [ps.playerId, ps.stack - ps.startingStack])
+  );
+}
+
+/** Stacks to carry into the next hand */
+export function getHoldemStacks(state: HoldemState): Record<string, number> {
+  return Object.fromEntries(Object.values(state.playerStates).map(ps => [ps.playerId, ps.stack]));
+}
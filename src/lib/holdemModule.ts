@@ -0,0 +1,72 @@
+// No-limit Texas Hold'em as a game module (see gameModule.ts)
+
+import type { GameRules } from './gameModule';
+import type { Card } from './cardUtils';
+import type { HoldemState } from './holdemTypes';
+import { applyHoldemBet, dealHoldemHand, showHoleCards } from './holdemGameLogic';
+import { getBotHoldemDecision } from './holdemBotLogic';
+
+export interface HoldemConfig {
+  smallBlind: number;
+  bigBlind: number;
+}
+
+/** Bets and raises name the street total they raise to */
+export type HoldemAction =
+  | { type: 'fold'; playerId: string }
+  | { type: 'check'; playerId: string }
+  | { type: 'call'; playerId: string }
+  | { type: 'bet'; playerId: string; amount: number }
+  | { type: 'raise'; playerId: string; amount: number }
+  | { type: 'show'; playerId: string; holeCards: Card[] };
+
+export const holdemModule: GameRules<HoldemState, HoldemAction, HoldemConfig> = {
+  id: 'holdem',
+
+  config: {
+    defaults: { smallBlind: 1, bigBlind: 2 },
+    fromGame: game => ({ smallBlind: game.small_blind ?? 1, bigBlind: game.big_blind ?? 2 }),
+  },
+
+  // The ante is the buy-in: everyone starts the game with that many chips in front of them.
+  // Later hands are dealt with the stacks carried over (see holdemRoundLogic.ts).
+  createInitialState: ({ playerIds, dealerPlayerId, anteAmount, config }, random) =>
+    dealHoldemHand(
+      {
+        playerIds,
+        dealerPlayerId,
+        stacks: Object.fromEntries(playerIds.map(id => [id, anteAmount])),
+        smallBlind: config.smallBlind,
+        bigBlind: config.bigBlind,
+      },
+      random
+    ),
+
+  reduce: (state, action, random) => {
+    switch (action.type) {
+      case 'show':
+        return showHoleCards(state, action.playerId, action.holeCards);
+      case 'bet':
+      case 'raise':
+        return applyHoldemBet(state, action.playerId, action.type, action.amount, random);
+      default:
+        return applyHoldemBet(state, action.playerId, action.type, 0, random);
+    }
+  },
+
+  getActivePlayerId: state => (state.phase === 'complete' ? null : state.currentTurnPlayerId),
+
+  isHandOver: state => state.phase === 'complete',
+
+  // Needs the bot's hole cards in the state: the table puts them back from player_cards
+  botAction: (state, playerId) => {
+    if (state.phase !== 'betting' || state.currentTurnPlayerId !== playerId) return null;
+    const { holeCards } = state.playerStates[playerId];
+    if (holeCards.length === 0) return null;
+
+    const decision = getBotHoldemDecision(state, playerId, holeCards);
+    return decision.type === 'bet' || decision.type === 'raise'
+      ? { type: decision.type, playerId, amount: decision.amount! }
+      : { type: decision.type, playerId };
+  },
+};
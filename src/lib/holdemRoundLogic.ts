@@ -0,0 +1,387 @@
+// Texas Hold'em round orchestration - database integration layer
+// Follows the same patterns as ginRummyRoundLogic.ts:
+// - DB-First round creation with atomic guards
+// - State persistence via game_state JSONB column
+// - Atomic claim before chips move at the end of a hand
+//
+// rounds.game_state is public, so it is stored without hole cards (hideHoleCards).
+// Each player's two cards go to player_cards, which the round's 'showdown' status opens up.
+// Nothing public holds a card before it is dealt: every hand, play money included, is dealt
+// off the top of the server's deck (runWithServerDeck), the hole cards here and each
+// street's board by the action that opens it (see HoldemGameTable). The hand's round row is
+// created empty first, so only the client that wins the insert draws the hole cards.
+
+import { fetchPlayerDisplayName, getGameRepository, isUniqueViolation, type GameRow } from './gameRepository';
+import { holdemModule } from './holdemModule';
+import {
+  dealHoldemHand,
+  getHoldemChipChanges,
+  getHoldemPotTotal,
+  getHoldemStacks,
+  hideHoleCards,
+} from './holdemGameLogic';
+import { snapshotPlayerChips } from './gameLogic';
+import { logDeal } from './handActionLog';
+import { runWithServerDeck } from './handFairness';
+import type { Json } from '@/integrations/supabase/types';
+import type { Card } from './cardUtils';
+import type { HoldemState } from './holdemTypes';
+
+type HoldemRoundResult = {
+  success: boolean;
+  roundId?: string;
+  handNumber?: number;
+  error?: string;
+  alreadyStarted?: boolean;
+};
+
+/**
+ * Start the first Hold'em hand.
+ * Everyone buys in for the ante amount; the player in the dealer position has the button.
+ */
+export async function startHoldemRound(gameId: string): Promise<HoldemRoundResult> {
+  console.log('[HOLDEM] Starting holdem round', { gameId });
+  const repo = getGameRepository();
+
+  try {
+    const { data: game, error: gameError } = await repo.games.get(gameId);
+
+    if (gameError || !game) {
+      throw new Error(`Failed to fetch game: ${gameError?.message}`);
+    }
+
+    if (game.status === 'game_over' || game.status === 'session_ended') {
+      return { success: false, error: 'Game already over' };
+    }
+
+    const { data: players, error: playersError } = await repo.players.listByGame(gameId);
+
+    if (playersError) {
+      throw new Error(`Failed to fetch players: ${playersError.message}`);
+    }
+
+    const activePlayers = (players || [])
+      .filter(p => !p.sitting_out && p.status === 'active')
+      .sort((a, b) => a.position - b.position);
+
+    if (activePlayers.length < 2) {
+      throw new Error("Hold'em requires at least 2 players");
+    }
+
+    const dealerPosition = game.dealer_position || 1;
+    const dealerPlayer = activePlayers.find(p => p.position === dealerPosition) || activePlayers[0];
+    const buyIn = game.ante_amount || 1;
+
+    const dealerGameId = game.current_game_uuid;
+    if (!dealerGameId) {
+      throw new Error('No dealer_game_id - cannot create round');
+    }
+
+    const result = await dealHoldemRound(
+      game,
+      dealerGameId,
+      activePlayers.map(p => p.id),
+      dealerPlayer.id,
+      Object.fromEntries(activePlayers.map(p => [p.id, buyIn]))
+    );
+
+    if (result.roundId) {
+      await repo.games.update(gameId, {
+        status: 'in_progress',
+        current_round: 1,
+        pot: 0,
+      });
+    }
+    return result;
+
+  } catch (error) {
+    console.error('[HOLDEM] Error starting round:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Start the next Hold'em hand (after a hand completes).
+ * Stacks carry over, the button moves one seat left, and players who joined since buy in.
+ */
+export async function startNextHoldemHand(
+  gameId: string,
+  dealerGameId: string,
+  previousState: HoldemState
+): Promise<HoldemRoundResult> {
+  console.log('[HOLDEM] Starting next hand', { gameId, dealerGameId });
+  const repo = getGameRepository();
+
+  try {
+    const { data: game, error: gameError } = await repo.games.get(gameId);
+    if (gameError || !game) {
+      throw new Error(`Failed to fetch game: ${gameError?.message}`);
+    }
+
+    const { data: players, error: playersError } = await repo.players.listByGame(gameId);
+    if (playersError) {
+      throw new Error(`Failed to fetch players: ${playersError.message}`);
+    }
+
+    const carried = getHoldemStacks(previousState);
+    const buyIn = game.ante_amount || 1;
+    const seated = (players || [])
+      .filter(p => !p.sitting_out && p.status === 'active')
+      .sort((a, b) => a.position - b.position);
+    const stacks = Object.fromEntries(seated.map(p => [p.id, carried[p.id] ?? buyIn]));
+    const inHand = seated.filter(p => stacks[p.id] > 0);
+
+    if (inHand.length < 2) {
+      return { success: false, error: 'Not enough players with chips' };
+    }
+
+    // The button goes to the next seat with chips after the last dealer's
+    const lastDealer = seated.find(p => p.id === previousState.dealerPlayerId);
+    const lastDealerPosition = lastDealer?.position ?? 0;
+    const nextDealer = inHand.find(p => p.position > lastDealerPosition) || inHand[0];
+
+    return await dealHoldemRound(
+      game,
+      dealerGameId,
+      seated.map(p => p.id),
+      nextDealer.id,
+      stacks
+    );
+
+  } catch (error) {
+    console.error('[HOLDEM] Error starting next hand:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Deal a hand into a new round row; hole cards go to player_cards, the rest to game_state.
+ * The row is reserved before the deal: a client that loses the insert never draws.
+ */
+async function dealHoldemRound(
+  game: GameRow,
+  dealerGameId: string,
+  playerIds: string[],
+  dealerPlayerId: string,
+  stacks: Record<string, number>
+): Promise<HoldemRoundResult> {
+  const repo = getGameRepository();
+
+  // Calculate hand number (DB-First)
+  const { data: latestHandNumber } = await repo.rounds.getLatestHandNumber(dealerGameId);
+  const handNumber = (latestHandNumber ?? 0) + 1;
+
+  const { data: round, error: roundError } = await repo.rounds.insert({
+    game_id: game.id,
+    dealer_game_id: dealerGameId,
+    round_number: 1, // One round per hand, like gin rummy
+    hand_number: handNumber,
+    cards_dealt: 2,
+    status: 'betting',
+  });
+
+  if (roundError || !round) {
+    // Atomic guard: unique constraint violation means another client already created it
+    if (isUniqueViolation(roundError)) {
+      console.log('[HOLDEM] Round already exists (atomic guard)');
+      return { success: true, alreadyStarted: true };
+    }
+    throw new Error(`Failed to create round: ${roundError?.message}`);
+  }
+
+  // Two hole cards for each seat with chips, and the whole board when the blinds leave
+  // nobody able to bet
+  const config = holdemModule.config.fromGame(game);
+  const dealt = await runWithServerDeck(
+    game.id,
+    52,
+    random => dealHoldemHand(
+      { playerIds, dealerPlayerId, stacks, smallBlind: config.smallBlind, bigBlind: config.bigBlind },
+      random
+    ),
+    hand => hand.seatOrder.length * 2 + hand.communityCards.length
+  );
+  const stored = hideHoleCards(dealt);
+
+  // Hole cards stay private until the showdown. They land before the state does, so a table
+  // that sees the hand can load its own.
+  for (const playerId of stored.seatOrder) {
+    const { error } = await repo.playerCards.upsert({
+      player_id: playerId,
+      round_id: round.id,
+      cards: dealt.playerStates[playerId].holeCards as unknown as Json,
+    });
+    if (error) console.warn('[HOLDEM] Failed to store player cards:', playerId, error.message);
+  }
+
+  const { error: stateError } = await repo.rounds.update(round.id, {
+    pot: getHoldemPotTotal(stored),
+    bet_amount: stored.currentBet,
+    community_cards: stored.communityCards as unknown as Json,
+    community_cards_revealed: stored.communityCards.length,
+    game_state: stored as unknown as Json,
+  });
+  if (stateError) {
+    throw new Error(`Failed to store the deal: ${stateError.message}`);
+  }
+
+  const insertedHandNumber = round.hand_number ?? handNumber;
+
+  await repo.games.update(game.id, {
+    total_hands: insertedHandNumber,
+    is_first_hand: insertedHandNumber === 1,
+  });
+
+  void logDeal(round.id, { state: stored, dealtTo: stored.seatOrder, cardsDealt: 2 });
+
+  console.log('[HOLDEM] Hand dealt', { roundId: round.id, handNumber: insertedHandNumber });
+  return { success: true, roundId: round.id, handNumber: insertedHandNumber };
+}
+
+/**
+ * Update holdem state in the database (after each action).
+ * Hole cards are stripped; reaching the showdown opens up player_cards.
+ */
+export async function updateHoldemState(roundId: string, newState: HoldemState): Promise<boolean> {
+  // Hole cards shown down are face up for everyone
+  const stored = newState.phase === 'betting' ? hideHoleCards(newState) : newState;
+
+  try {
+    const { error } = await getGameRepository().rounds.update(
+      roundId,
+      {
+        game_state: JSON.parse(JSON.stringify(stored)),
+        pot: getHoldemPotTotal(stored),
+        bet_amount: stored.currentBet,
+        community_cards: stored.communityCards as unknown as Json,
+        community_cards_revealed: stored.communityCards.length,
+        ...(stored.phase === 'showdown' ? { status: 'showdown' } : {}),
+      },
+      { neq: { status: 'completed' } }
+    );
+
+    if (error) {
+      console.error('[HOLDEM] Failed to update state:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('[HOLDEM] Error updating state:', error);
+    return false;
+  }
+}
+
+/** Hole cards dealt to a player this round (their own, or anyone's once the round shows down) */
+export async function fetchHoldemHoleCards(roundId: string, playerId: string): Promise<Card[]> {
+  const { data } = await getGameRepository().playerCards.get(roundId, playerId);
+  return (data?.cards as unknown as Card[] | null) ?? [];
+}
+
+/**
+ * Settle a completed hand: move the chips and record it for hand history.
+ * Uses atomic claim pattern (transition status to 'completed') so only one client pays out.
+ */
+export async function recordHoldemHandResult(
+  gameId: string,
+  roundId: string,
+  holdemState: HoldemState
+): Promise<boolean> {
+  const repo = getGameRepository();
+
+  if (holdemState.phase !== 'complete' || !holdemState.results) {
+    console.warn('[HOLDEM] Hand not complete, nothing to record');
+    return false;
+  }
+
+  const { data: claimedRounds, error: claimError } = await repo.rounds.update(
+    roundId,
+    { status: 'completed', game_state: JSON.parse(JSON.stringify(holdemState)) },
+    { neq: { status: 'completed' } }
+  );
+
+  if (claimError) {
+    console.error('[HOLDEM] Failed to claim hand result:', claimError);
+    return false;
+  }
+
+  const claimedRound = claimedRounds && claimedRounds.length > 0 ? claimedRounds[0] : null;
+  if (!claimedRound) {
+    console.log('[HOLDEM] Hand already settled by another client');
+    return true;
+  }
+
+  const chipChanges = getHoldemChipChanges(holdemState);
+  for (const [playerId, change] of Object.entries(chipChanges)) {
+    if (change === 0) continue;
+    const { error } = await repo.players.incrementChips(playerId, change);
+    if (error) console.error('[HOLDEM] Failed to move chips:', playerId, error);
+  }
+
+  // The main pot decides whose hand the result is named after
+  const [mainPot] = holdemState.results;
+  const winnerId = mainPot.winnerIds[0];
+  const winnerUsername = await fetchPlayerDisplayName(gameId, winnerId);
+  const description = mainPot.handDescription
+    ? `${winnerUsername}: ${mainPot.handDescription}`
+    : `${winnerUsername} wins uncontested`;
+
+  const { error: resultError } = await repo.gameResults.insert({
+    game_id: gameId,
+    dealer_game_id: claimedRound.dealer_game_id,
+    hand_number: claimedRound.hand_number ?? 1,
+    pot_won: holdemState.results.reduce((sum, pot) => sum + pot.amount, 0),
+    winner_player_id: winnerId,
+    winner_username: winnerUsername,
+    winning_hand_description: description,
+    is_chopped: mainPot.winnerIds.length > 1,
+    player_chip_changes: chipChanges,
+    game_type: 'holdem',
+  });
+  if (resultError) console.error('[HOLDEM] Failed to record result:', resultError);
+
+  await repo.games.update(gameId, { last_round_result: description });
+
+  await snapshotPlayerChips(gameId, claimedRound.hand_number ?? 1).catch((err) => {
+    console.error('[HOLDEM] Failed to snapshot chips:', err);
+  });
+
+  console.log('[HOLDEM] Hand settled', { roundId, description, chipChanges });
+  return true;
+}
+
+/** Players who can be dealt another hand */
+export function getHoldemPlayersWithChips(holdemState: HoldemState): string[] {
+  return Object.entries(getHoldemStacks(holdemState))
+    .filter(([, stack]) => stack > 0)
+    .map(([playerId]) => playerId);
+}
+
+/**
+ * End the game once only one player has chips left.
+ * Chips already moved hand by hand, so this only announces the winner.
+ */
+export async function endHoldemGame(gameId: string, holdemState: HoldemState): Promise<boolean> {
+  const repo = getGameRepository();
+
+  try {
+    const [winnerId] = getHoldemPlayersWithChips(holdemState);
+    const winnerUsername = winnerId ? await fetchPlayerDisplayName(gameId, winnerId) : 'Nobody';
+
+    await repo.games.update(
+      gameId,
+      {
+        status: 'game_over',
+        pot: 0,
+        last_round_result: `${winnerUsername} wins the table`,
+        game_over_at: new Date().toISOString(),
+      },
+      { neq: { status: 'game_over' } }
+    );
+
+    console.log('[HOLDEM] Game over', { gameId, winnerId });
+    return true;
+  } catch (error) {
+    console.error('[HOLDEM] Error ending game:', error);
+    return false;
+  }
+}
@@ -0,0 +1,80 @@
+// No-limit Texas Hold'em game types and interfaces
+// Cards use the poker Card from cardUtils ('♠','♥','♦','♣' suits)
+
+import type { Card } from './cardUtils';
+
+export type HoldemStreet = 'preflop' | 'flop' | 'turn' | 'river';
+
+export type HoldemPhase =
+  | 'betting' // A street's betting round is open
+  | 'showdown' // Betting is over; players still in turn their hole cards up
+  | 'complete'; // Pots awarded (by showdown or because everyone else folded)
+
+export interface HoldemPlayerState {
+  playerId: string;
+  /**
+   * Empty in the stored state until shown down: hole cards are kept in player_cards,
+   * which only the owner can read before the showdown (rounds.game_state is public)
+   */
+  holeCards: Card[];
+  /** Chips behind - not yet put into the pot */
+  stack: number;
+  /** Stack before the blinds; the hand's chip change is measured from here */
+  startingStack: number;
+  /** Put in on the current street */
+  streetBet: number;
+  /** Put in over the whole hand (sizes the side pots) */
+  totalBet: number;
+  folded: boolean;
+  allIn: boolean;
+  /** Acted since the last full raise; a player who has can't re-raise an incomplete all-in */
+  hasActed: boolean;
+}
+
+export interface HoldemPot {
+  amount: number;
+  /** Players still in the hand who put in enough to win this pot */
+  eligiblePlayerIds: string[];
+}
+
+export interface HoldemPotResult extends HoldemPot {
+  winnerIds: string[];
+  /** Best five cards' description, or null when nobody else was left to show down */
+  handDescription: string | null;
+}
+
+export type HoldemActionType = 'fold' | 'check' | 'call' | 'bet' | 'raise' | 'show';
+
+export interface HoldemLastAction {
+  type: HoldemActionType | 'small_blind' | 'big_blind';
+  playerId: string;
+  /** Street bet the player has in after the action */
+  amount: number;
+  allIn: boolean;
+}
+
+export interface HoldemState {
+  phase: HoldemPhase;
+  street: HoldemStreet;
+  dealerPlayerId: string;
+  smallBlindPlayerId: string;
+  bigBlindPlayerId: string;
+  smallBlind: number;
+  bigBlind: number;
+  /** Players dealt in, clockwise starting left of the dealer (the dealer is last) */
+  seatOrder: string[];
+  playerStates: Record<string, HoldemPlayerState>;
+
+  /** The board dealt so far; each street's cards are dealt when it opens */
+  communityCards: Card[];
+
+  currentTurnPlayerId: string | null;
+  /** Highest street bet - what everyone still in has to match */
+  currentBet: number;
+  /** Smallest legal raise increment: the big blind, or the last full raise */
+  minRaise: number;
+
+  /** Filled in when the hand completes */
+  results: HoldemPotResult[] | null;
+  lastAction: HoldemLastAction | null;
+}
@@ -1,5 +1,9 @@
 import { supabase } from "@/integrations/supabase/client";
-import { createDeck, shuffleDeck, type Card, type Suit, type Rank, evaluateHand, formatHandRank, formatHandRankDetailed } from "./cardUtils";
+import { getGameRepository, isUniqueViolation } from "./gameRepository";
+import { logDeal, logHandAction } from "./handActionLog";
+import { createDeck, type Card, type Suit, type Rank, evaluateHand, formatHandRank, formatHandRankDetailed } from "./cardUtils";
+import { shuffleHandDeck } from "./handFairness";
+import { CHUCKY_LABEL } from "@rules/fairness.ts";
 import { getDisplayName } from "./botAlias";
 import { recordGameResult, snapshotPlayerChips } from "./gameLogic";
 import { getActiveHolmRoundWithGame, updateRoundById, atomicRoundStatusTransition } from "./holmRoundUtils";
@@ -318,26 +322,21 @@ export async function startHolmRound(gameId: string, isFirstHand: boolean = fals
   // In that case, we can safely "recover" by starting the hand without first-hand logic (no re-ante),
   // as long as the game is still in ante_decision and the pot is already populated.
   let effectiveIsFirstHand = isFirstHand;
+  const repo = getGameRepository();
   
   // CRITICAL ATOMIC GUARD (Holm first hand): do NOT flip status to in_progress yet.
   // Flipping status early makes clients fetch rounds while OLD rounds still exist, causing stale cards.
   // Instead, atomically clear is_first_hand as a lock while keeping status in ante_decision.
   if (effectiveIsFirstHand) {
-    const { data: lockResult, error: lockError } = await supabase
-      .from('games')
-      .update({ is_first_hand: false })
-      .eq('id', gameId)
-      .eq('status', 'ante_decision')
-      .eq('is_first_hand', true)
-      .select();
+    const { data: lockResult, error: lockError } = await repo.games.update(
+      gameId,
+      { is_first_hand: false },
+      { eq: { status: 'ante_decision', is_first_hand: true } }
+    );
 
     if (lockError || !lockResult || lockResult.length === 0) {
       // Recovery check (see comment above)
-      const { data: guardGame } = await supabase
-        .from('games')
-        .select('status, pot')
-        .eq('id', gameId)
-        .maybeSingle();
+      const { data: guardGame } = await repo.games.get(gameId);
 
       const pot = typeof guardGame?.pot === 'number' ? guardGame.pot : 0;
       const canRecover = guardGame?.status === 'ante_decision' && pot > 0;
@@ -359,11 +358,7 @@ export async function startHolmRound(gameId: string, isFirstHand: boolean = fals
   }
   
   // Fetch game configuration
-  const { data: gameConfig } = await supabase
-    .from('games')
-    .select('*')
-    .eq('id', gameId)
-    .single();
+  const { data: gameConfig } = await repo.games.get(gameId);
   
   if (!gameConfig) {
     throw new Error('Game not found');
@@ -393,15 +388,9 @@ export async function startHolmRound(gameId: string, isFirstHand: boolean = fals
     console.log('[HOLM] First hand of dealer game - starting at hand_number=1');
   } else {
     // Find max hand_number within THIS dealer game only
-    const { data: maxHandRow } = await supabase
-      .from('rounds')
-      .select('hand_number')
-      .eq('dealer_game_id', dealerGameId)
-      .order('hand_number', { ascending: false })
-      .limit(1)
-      .maybeSingle();
+    const { data: maxHandNumber } = await repo.rounds.getLatestHandNumber(dealerGameId);
     
-    handNumber = (maxHandRow?.hand_number ?? 0) + 1;
+    handNumber = (maxHandNumber ?? 0) + 1;
     console.log('[HOLM] Subsequent hand - next hand_number:', handNumber);
   }
   
@@ -412,20 +401,16 @@ export async function startHolmRound(gameId: string, isFirstHand: boolean = fals
   
   // CRITICAL: Use passed buck position if provided, otherwise use existing or calculate
   let buckPosition = passedBuckPosition ?? gameConfig.buck_position;
+
+  // Every active player who isn't sitting out, in seat order
+  const { data: gamePlayers } = await repo.players.listByGame(gameId);
+  const players = (gamePlayers || []).filter(p => p.status === 'active' && !p.sitting_out);
   
   if (!buckPosition || effectiveIsFirstHand) {
     // First hand - buck starts one position to the LEFT of dealer (clockwise order)
     // In clockwise rotation, LEFT means the NEXT higher position number
-    const { data: allPlayers } = await supabase
-      .from('players')
-      .select('position')
-      .eq('game_id', gameId)
-      .eq('status', 'active')
-      .eq('sitting_out', false)
-      .order('position');
-    
-    if (allPlayers && allPlayers.length > 0) {
-      const occupiedPositions = allPlayers.map(p => p.position).sort((a, b) => a - b);
+    if (players.length > 0) {
+      const occupiedPositions = players.map(p => p.position).sort((a, b) => a - b);
       const dealerIndex = occupiedPositions.indexOf(dealerPosition);
       
       // Get the NEXT position in clockwise order (one to the LEFT of dealer)
@@ -440,16 +425,7 @@ export async function startHolmRound(gameId: string, isFirstHand: boolean = fals
   
   console.log('[HOLM] Final buckPosition for round:', buckPosition);
 
-  // Get all active players who aren't sitting out
-  const { data: players } = await supabase
-    .from('players')
-    .select('*')
-    .eq('game_id', gameId)
-    .eq('status', 'active')
-    .eq('sitting_out', false)
-    .order('position');
-
-  if (!players || players.length === 0) {
+  if (players.length === 0) {
     throw new Error('No active players found');
   }
 
@@ -462,10 +438,7 @@ export async function startHolmRound(gameId: string, isFirstHand: boolean = fals
     
     // Use atomic decrement to prevent race conditions / double charges
     const playerIds = players.map(p => p.id);
-    const { error: anteError } = await supabase.rpc('decrement_player_chips', {
-      player_ids: playerIds,
-      amount: anteAmount
-    });
+    const { error: anteError } = await repo.players.decrementChips(playerIds, anteAmount);
     
     if (anteError) {
       console.error('[HOLM] ERROR collecting antes:', anteError);
@@ -499,13 +472,10 @@ export async function startHolmRound(gameId: string, isFirstHand: boolean = fals
     console.log('[HOLM] Total antes collected:', potForRound);
     
     // Update game with ante pot
-    await supabase
-      .from('games')
-      .update({
-        pot: potForRound,
-        buck_position: buckPosition
-      })
-      .eq('id', gameId);
+    await repo.games.update(gameId, {
+      pot: potForRound,
+      buck_position: buckPosition
+    });
   } else {
     // SUBSEQUENT HAND: Use the pot value from the database (set during showdown)
     potForRound = gameConfig.pot || 0;
@@ -513,11 +483,7 @@ export async function startHolmRound(gameId: string, isFirstHand: boolean = fals
   }
 
   // Fetch game_defaults for decision timer
-  const { data: gameDefaults } = await supabase
-    .from('game_defaults')
-    .select('decision_timer_seconds')
-    .eq('game_type', 'holm')
-    .maybeSingle();
+  const { data: gameDefaults } = await repo.games.getDefaults('holm');
   
   const timerSeconds = gameDefaults?.decision_timer_seconds ?? 30;
   console.log('[HOLM] Using decision timer:', timerSeconds, 'seconds');
@@ -531,7 +497,9 @@ export async function startHolmRound(gameId: string, isFirstHand: boolean = fals
 
   // Deal fresh cards
   const deadline = new Date(Date.now() + timerSeconds * 1000);
-  const deck = shuffleDeck(createDeck());
+  // (real-money hands deal the four community cards and four for each player off the top
+  // of the hand's committed deck)
+  const deck = await shuffleHandDeck(gameId, createDeck(), 4 + players.length * 4);
   let cardIndex = 0;
 
   // Deal 4 community cards
@@ -549,49 +517,38 @@ export async function startHolmRound(gameId: string, isFirstHand: boolean = fals
   // This means canDecide evaluates to false → no stay/fold buttons → player times out.
   console.log('[HOLM] Pre-clearing player decisions and game flags before round creation');
   
-  await supabase
-    .from('players')
-    .update({ 
-      current_decision: null,
-      decision_locked: false
-    })
-    .eq('game_id', gameId);
+  await repo.players.updateByGame(gameId, {
+    current_decision: null,
+    decision_locked: false
+  });
 
-  await supabase
-    .from('games')
-    .update({
-      all_decisions_in: false,
-      last_round_result: null,
-      is_first_hand: false,
-      // Clear stale deadlines from config/ante phases so cron doesn't enforce them mid-game
-      config_deadline: null,
-      ante_decision_deadline: null,
-    })
-    .eq('id', gameId);
+  await repo.games.update(gameId, {
+    all_decisions_in: false,
+    last_round_result: null,
+    is_first_hand: false,
+    // Clear stale deadlines from config/ante phases so cron doesn't enforce them mid-game
+    config_deadline: null,
+    ante_decision_deadline: null,
+  });
 
   // Always create a new round for each hand - unique round_id prevents stale card fetching
-  const { data: round, error: roundError } = await supabase
-    .from('rounds')
-    .insert({
-      game_id: gameId,
-      round_number: nextRoundNumber,
-      cards_dealt: 4,
-      status: 'betting',
-      pot: potForRound,
-      decision_deadline: deadline.toISOString(),
-      community_cards_revealed: 2,
-      community_cards: communityCards as any,
-      chucky_active: false,
-      current_turn_position: buckPosition,
-      hand_number: handNumber,
-      dealer_game_id: dealerGameId
-    })
-    .select()
-    .single();
+  const { data: round, error: roundError } = await repo.rounds.insert({
+    game_id: gameId,
+    round_number: nextRoundNumber,
+    cards_dealt: 4,
+    status: 'betting',
+    pot: potForRound,
+    decision_deadline: deadline.toISOString(),
+    community_cards_revealed: 2,
+    community_cards: communityCards as any,
+    chucky_active: false,
+    current_turn_position: buckPosition,
+    hand_number: handNumber,
+    dealer_game_id: dealerGameId
+  });
 
   if (roundError || !round) {
-    const code = (roundError as any)?.code;
-    if (code === '23505') {
+    if (isUniqueViolation(roundError)) {
       console.warn('[HOLM] Duplicate round insert blocked by DB (23505). Skipping startHolmRound.', {
         gameId,
         nextRoundNumber,
@@ -624,9 +581,7 @@ export async function startHolmRound(gameId: string, isFirstHand: boolean = fals
   
   // Single batch insert for all player cards
   if (playerCardInserts.length > 0) {
-    const { error: cardsError } = await supabase
-      .from('player_cards')
-      .insert(playerCardInserts);
+    const { error: cardsError } = await repo.playerCards.insert(playerCardInserts);
     
     if (cardsError) {
       console.error('[HOLM] Error batch inserting cards:', cardsError);
@@ -635,18 +590,22 @@ export async function startHolmRound(gameId: string, isFirstHand: boolean = fals
     console.log('[HOLM] Batch dealt cards to', playerCardInserts.length, 'players');
   }
 
+  // Hole cards stay in player_cards, which keeps them private until shown
+  void logDeal(roundId, {
+    communityCards,
+    dealtTo: playerCardInserts.map(pc => pc.player_id),
+    cardsDealt: playerCardInserts[0]?.cards.length ?? 0,
+  });
+
   // Update game status AND current_round for Holm games
   // CRITICAL: current_round MUST be updated so MobileGameTable can detect new rounds
   console.log('[HOLM] Updating game status with current_round:', round.round_number);
-  const { error: gameUpdateError } = await supabase
-    .from('games')
-    .update({
-      status: 'in_progress',
-      current_round: round.round_number,
-      buck_position: buckPosition,
-      total_hands: round.hand_number,
-    })
-    .eq('id', gameId);
+  const { error: gameUpdateError } = await repo.games.update(gameId, {
+    status: 'in_progress',
+    current_round: round.round_number,
+    buck_position: buckPosition,
+    total_hands: round.hand_number,
+  });
 
   if (gameUpdateError) {
     console.error('[HOLM] ERROR updating game status:', gameUpdateError);
@@ -1210,15 +1169,21 @@ export async function endHolmRound(gameId: string) {
     
     console.log('[HOLM END] Used cards to exclude:', usedCards.size);
     
-    // Create deck excluding used cards
-    const fullDeck = createDeck();
-    const availableCards = fullDeck.filter(card => !usedCards.has(`${card.suit}-${card.rank}`));
-    const shuffledAvailable = shuffleDeck(availableCards);
-    
+    // Chucky's cards come off a deck of his own (the hand's, for real money, so the seed
+    // reveal covers Chucky too), enough of it to cover the cards already out
     const chuckyCardCount = game.chucky_cards || 4;
+    const handDeck = await shuffleHandDeck(gameId, createDeck(), usedCards.size + chuckyCardCount, CHUCKY_LABEL);
+    const shuffledAvailable = handDeck.filter(card => !usedCards.has(`${card.suit}-${card.rank}`));
+    
     const chuckyCards = shuffledAvailable.slice(0, chuckyCardCount);
 
     console.log('[HOLM END] Chucky dealt', chuckyCardCount, 'cards:', chuckyCards);
+    void logHandAction({
+      roundId: capturedRoundId,
+      actionType: 'deal',
+      payload: { chuckyCards: JSON.parse(JSON.stringify(chuckyCards)) },
+      actionKey: `deal:chucky:${capturedRoundId}`,
+    });
 
     // Store all Chucky's cards but don't reveal any yet
     await supabase
@@ -2147,15 +2112,21 @@ async function handleMultiPlayerShowdown(
       });
     }
     
-    // Create deck excluding used cards
-    const fullDeck = createDeck();
-    const availableCards = fullDeck.filter(card => !usedCards.has(`${card.suit}-${card.rank}`));
-    const shuffledAvailable = shuffleDeck(availableCards);
-    
+    // Chucky's cards come off a deck of his own (the hand's, for real money), enough of it
+    // to cover the cards already out
     const chuckyCardCount = game.chucky_cards || 4;
+    const handDeck = await shuffleHandDeck(gameId, createDeck(), usedCards.size + chuckyCardCount, CHUCKY_LABEL);
+    const shuffledAvailable = handDeck.filter(card => !usedCards.has(`${card.suit}-${card.rank}`));
+    
     const chuckyCards = shuffledAvailable.slice(0, chuckyCardCount);
     
     console.log('[HOLM TIE] Dealt Chucky:', chuckyCards);
+    void logHandAction({
+      roundId,
+      actionType: 'deal',
+      payload: { chuckyCards: JSON.parse(JSON.stringify(chuckyCards)) },
+      actionKey: `deal:chucky:${roundId}`,
+    });
     
     // Reveal Chucky cards gradually with 3 second delay
     await supabase
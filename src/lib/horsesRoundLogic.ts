@@ -3,7 +3,8 @@
  * Handles creating and managing rounds for the Horses dice game
  */
 
-import { supabase } from "@/integrations/supabase/client";
+import { getGameRepository } from "./gameRepository";
+import { logDeal } from "./handActionLog";
 import { getMakeItTakeItSetting } from "@/hooks/useMakeItTakeIt";
 import { recordGameResult } from "./gameLogic";
 import { logDiceEvent, logRaceConditionGuard, logStateMismatch } from "./gameStateDebugLog";
@@ -12,21 +13,18 @@ export async function startHorsesRound(gameId: string, isFirstHand: boolean = fa
   console.log('[HORSES] 🎲 Starting round', { gameId, isFirstHand });
 
   // Get current game state including ante_amount
-  const { data: game, error: gameError } = await supabase
-    .from('games')
-    .select('current_round, total_hands, pot, ante_amount, status, awaiting_next_round, dealer_position, current_game_uuid, game_type, is_paused')
-    .eq('id', gameId)
-    .maybeSingle();
+  const repo = getGameRepository();
+  const { data: game, error: gameError } = await repo.games.get(gameId);
 
   if (gameError || !game) {
     console.error('[HORSES] Failed to get game:', gameError);
     throw new Error('Failed to get game state');
   }
 
-  const gameType = (game as any).game_type || 'horses';
+  const gameType = game.game_type || 'horses';
 
   // CRITICAL GUARD: Block round creation if game is paused
-  if ((game as any).is_paused) {
+  if (game.is_paused) {
     logRaceConditionGuard(gameId, 'horsesRoundLogic:startHorsesRound', 'BLOCKED_PAUSED', {
       currentStatus: game.status,
       isFirstHand,
@@ -83,21 +81,14 @@ export async function startHorsesRound(gameId: string, isFirstHand: boolean = fa
     console.log('[HORSES] First hand of dealer game - starting at hand_number=1, round_number=1');
   } else {
     // Find max hand/round within THIS dealer game only (for rollovers)
-    const { data: latestRound, error: latestRoundError } = await supabase
-      .from('rounds')
-      .select('hand_number, round_number')
-      .eq('dealer_game_id', dealerGameId)
-      .order('hand_number', { ascending: false })
-      .order('round_number', { ascending: false })
-      .limit(1)
-      .maybeSingle();
+    const { data: latestHandNumber, error: latestRoundError } = await repo.rounds.getLatestHandNumber(dealerGameId);
 
     if (latestRoundError) {
       console.warn('[HORSES] Failed to read latest round (continuing):', latestRoundError);
     }
 
     // For Horses, hand_number = round_number (one hand per round)
-    newHandNumber = (latestRound?.hand_number ?? 0) + 1;
+    newHandNumber = (latestHandNumber ?? 0) + 1;
     newRoundNumber = newHandNumber;
     console.log('[HORSES] Rollover - next hand_number/round_number:', newHandNumber);
   }
@@ -120,9 +111,9 @@ export async function startHorsesRound(gameId: string, isFirstHand: boolean = fa
   // We "claim" the right to start the new hand by atomically flipping pointers on the game row.
   // This also clears any stale game_over / last_round_result so the UI doesn't show the previous winner.
   if (isFirstHand) {
-    const { data: claim, error: claimError } = await supabase
-      .from('games')
-      .update({
+    const { data: claim, error: claimError } = await repo.games.update(
+      gameId,
+      {
         status: 'in_progress',
         current_round: newRoundNumber,
         total_hands: newHandNumber,
@@ -131,10 +122,9 @@ export async function startHorsesRound(gameId: string, isFirstHand: boolean = fa
         last_round_result: null,
         game_over_at: null,
         is_first_hand: true,
-      })
-      .eq('id', gameId)
-      .neq('status', 'in_progress')
-      .select('id');
+      },
+      { neq: { status: 'in_progress' } }
+    );
 
     if (claimError) {
       console.warn('[HORSES] Failed to claim first-hand start (continuing):', claimError);
@@ -146,9 +136,10 @@ export async function startHorsesRound(gameId: string, isFirstHand: boolean = fa
     }
   } else if (game.awaiting_next_round) {
     // Rollover / re-ante: multiple clients may see awaiting_next_round and try to start the next hand.
-    let q = supabase
-      .from('games')
-      .update({
+    // Only one client should succeed: require the current_round we observed.
+    const { data: claim, error: claimError } = await repo.games.update(
+      gameId,
+      {
         status: 'in_progress',
         current_round: newRoundNumber,
         total_hands: newHandNumber,
@@ -157,15 +148,9 @@ export async function startHorsesRound(gameId: string, isFirstHand: boolean = fa
         last_round_result: null,
         game_over_at: null,
         is_first_hand: false,
-      })
-      .eq('id', gameId)
-      .eq('awaiting_next_round', true);
-
-    // Only one client should succeed: require the current_round we observed.
-    if (typeof game.current_round === 'number') q = q.eq('current_round', game.current_round);
-    else q = q.is('current_round', null);
-
-    const { data: claim, error: claimError } = await q.select('id');
+      },
+      { eq: { awaiting_next_round: true, current_round: game.current_round } }
+    );
 
     if (claimError) {
       console.warn('[HORSES] Failed to claim rollover start (continuing):', claimError);
@@ -178,9 +163,10 @@ export async function startHorsesRound(gameId: string, isFirstHand: boolean = fa
   } else if (game.status === 'game_over') {
     // Next-hand start after a completed hand: only one client should clear game_over and start the next hand.
     // This prevents duplicate hand creation across multiple connected clients.
-    let q = supabase
-      .from('games')
-      .update({
+    // Only one client should succeed: require the current_round we observed.
+    const { data: claim, error: claimError } = await repo.games.update(
+      gameId,
+      {
         status: 'in_progress',
         current_round: newRoundNumber,
         total_hands: newHandNumber,
@@ -189,15 +175,9 @@ export async function startHorsesRound(gameId: string, isFirstHand: boolean = fa
         last_round_result: null,
         game_over_at: null,
         is_first_hand: false,
-      })
-      .eq('id', gameId)
-      .eq('status', 'game_over');
-
-    // Only one client should succeed: require the current_round we observed.
-    if (typeof game.current_round === 'number') q = q.eq('current_round', game.current_round);
-    else q = q.is('current_round', null);
-
-    const { data: claim, error: claimError } = await q.select('id');
+      },
+      { eq: { status: 'game_over', current_round: game.current_round } }
+    );
 
     if (claimError) {
       console.warn('[HORSES] Failed to claim game_over next-hand start (continuing):', claimError);
@@ -209,13 +189,7 @@ export async function startHorsesRound(gameId: string, isFirstHand: boolean = fa
     }
   }
   // Check if round already exists within THIS dealer game (race condition protection)
-  const { data: existingRound } = await supabase
-    .from('rounds')
-    .select('id, pot, hand_number')
-    .eq('dealer_game_id', dealerGameId)
-    .eq('hand_number', newHandNumber)
-    .eq('round_number', newRoundNumber)
-    .maybeSingle();
+  const { data: existingRound } = await repo.rounds.findByHand(dealerGameId, newHandNumber, newRoundNumber);
 
   if (existingRound) {
     console.log('[HORSES] Round already exists, just updating game status', {
@@ -223,31 +197,25 @@ export async function startHorsesRound(gameId: string, isFirstHand: boolean = fa
       roundNumber: newRoundNumber,
     });
 
-    const existingHandNumber = (existingRound as any)?.hand_number as number | null; // eslint-disable-line @typescript-eslint/no-explicit-any
+    const existingHandNumber = existingRound.hand_number;
 
-    await supabase
-      .from('games')
-      .update({
-        status: 'in_progress',
-        current_round: newRoundNumber,
-        total_hands: existingHandNumber ? Math.max(newHandNumber, existingHandNumber) : newHandNumber,
-        pot: (existingRound as any)?.pot ?? game.pot ?? 0, // eslint-disable-line @typescript-eslint/no-explicit-any
-        all_decisions_in: false,
-        awaiting_next_round: false,
-        last_round_result: null,
-        game_over_at: null,
-        is_first_hand: isFirstHand,
-      })
-      .eq('id', gameId);
+    await repo.games.update(gameId, {
+      status: 'in_progress',
+      current_round: newRoundNumber,
+      total_hands: existingHandNumber ? Math.max(newHandNumber, existingHandNumber) : newHandNumber,
+      pot: existingRound.pot ?? game.pot ?? 0,
+      all_decisions_in: false,
+      awaiting_next_round: false,
+      last_round_result: null,
+      game_over_at: null,
+      is_first_hand: isFirstHand,
+    });
 
     return;
   }
 
   // Get active players for ante collection
-  const { data: players, error: playersError } = await supabase
-    .from('players')
-    .select('id, user_id, position, is_bot, chips, sitting_out, sit_out_next_hand')
-    .eq('game_id', gameId);
+  const { data: players, error: playersError } = await repo.players.listByGame(gameId);
 
   if (playersError) {
     console.error('[HORSES] Failed to get players:', playersError);
@@ -263,25 +231,19 @@ export async function startHorsesRound(gameId: string, isFirstHand: boolean = fa
     if (playersToReactivate.length > 0) {
       const reactivateIds = playersToReactivate.map((p) => p.id);
       console.log('[HORSES] Reactivating ALL sitting_out players for rollover:', reactivateIds);
-      await supabase
-        .from('players')
-        .update({ sitting_out: false })
-        .in('id', reactivateIds);
+      await repo.players.update(reactivateIds, { sitting_out: false });
     }
   }
 
   // Re-fetch to get updated sitting_out status
-  const { data: freshPlayers } = await supabase
-    .from('players')
-    .select('id, user_id, position, is_bot, chips, sitting_out')
-    .eq('game_id', gameId);
+  const { data: freshPlayers } = await repo.players.listByGame(gameId);
 
   const activePlayers = (freshPlayers || []).filter((p) => !p.sitting_out);
   const anteAmount = game.ante_amount || 1;
 
   // Pre-initialize horses_state so dice games can start even if the client can't UPDATE rounds (RLS-safe).
   const sortedActive = [...activePlayers].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
-  const dealerPos = (game as any)?.dealer_position as number | null; // eslint-disable-line @typescript-eslint/no-explicit-any
+  const dealerPos = game.dealer_position;
   const dealerIdx = dealerPos ? sortedActive.findIndex((p) => p.position === dealerPos) : -1;
   
   // Check Make It Take It setting - if enabled, dealer goes first (offset 0), otherwise player after dealer (offset 1)
@@ -330,20 +292,16 @@ export async function startHorsesRound(gameId: string, isFirstHand: boolean = fa
   // STEP 1: Create the round record FIRST (before collecting antes)
   // This ensures we don't collect antes multiple times if round creation fails
   // NOTE: cards_dealt has a check constraint (2-7) - use 2 as minimum for non-card games
-  const { data: roundData, error: roundError } = await supabase
-    .from('rounds')
-    .insert({
-      game_id: gameId,
-      round_number: newRoundNumber,
-      hand_number: newHandNumber,
-      cards_dealt: 2, // Horses doesn't deal cards but constraint requires >= 2
-      status: 'betting', // Use existing status; horses_state manages gamePhase
-      pot: potForRound,
-      horses_state: initialState,
-      dealer_game_id: game.current_game_uuid || null,
-    })
-    .select()
-    .single();
+  const { data: roundData, error: roundError } = await repo.rounds.insert({
+    game_id: gameId,
+    round_number: newRoundNumber,
+    hand_number: newHandNumber,
+    cards_dealt: 2, // Horses doesn't deal cards but constraint requires >= 2
+    status: 'betting', // Use existing status; horses_state manages gamePhase
+    pot: potForRound,
+    horses_state: initialState,
+    dealer_game_id: game.current_game_uuid || null,
+  });
 
   if (roundError || !roundData) {
     console.error('[HORSES] Failed to create round:', roundError);
@@ -351,27 +309,25 @@ export async function startHorsesRound(gameId: string, isFirstHand: boolean = fa
   }
 
   console.log('[HORSES] Round created:', roundData.id, 'pot:', potForRound);
+  void logDeal(roundData.id, { state: initialState });
 
   // STEP 2: Update game status/pointers BEFORE collecting antes
   // CRITICAL: Clear config_deadline and ante_decision_deadline so the enforce-deadlines cron
   // doesn't incorrectly process stale deadlines and mark players sitting_out mid-game.
-  const { error: updateError } = await supabase
-    .from('games')
-    .update({
-      status: 'in_progress',
-      current_round: newRoundNumber,
-      total_hands: newHandNumber,
-      pot: potForRound,
-      all_decisions_in: false,
-      awaiting_next_round: false,
-      last_round_result: null,
-      game_over_at: null,
-      is_first_hand: isFirstHand,
-      // Clear stale deadlines - dice games manage their own turn timers via horses_state.turnDeadline
-      config_deadline: null,
-      ante_decision_deadline: null,
-    })
-    .eq('id', gameId);
+  const { error: updateError } = await repo.games.update(gameId, {
+    status: 'in_progress',
+    current_round: newRoundNumber,
+    total_hands: newHandNumber,
+    pot: potForRound,
+    all_decisions_in: false,
+    awaiting_next_round: false,
+    last_round_result: null,
+    game_over_at: null,
+    is_first_hand: isFirstHand,
+    // Clear stale deadlines - dice games manage their own turn timers via horses_state.turnDeadline
+    config_deadline: null,
+    ante_decision_deadline: null,
+  });
 
   if (updateError) {
     console.error('[HORSES] Failed to update game:', updateError);
@@ -383,10 +339,7 @@ export async function startHorsesRound(gameId: string, isFirstHand: boolean = fa
   // STEP 3: Collect antes AFTER round is created and game pointers are set
   if (activePlayers.length > 0 && anteAmount > 0) {
     const playerIds = activePlayers.map((p) => p.id);
-    const { error: anteError } = await supabase.rpc('decrement_player_chips', {
-      player_ids: playerIds,
-      amount: anteAmount,
-    });
+    const { error: anteError } = await repo.players.decrementChips(playerIds, anteAmount);
 
     if (anteError) {
       console.error('[HORSES] ERROR collecting antes:', anteError);
@@ -434,13 +387,10 @@ export async function endHorsesRound(
 
   if (isTie) {
     // For ties, set awaiting_next_round which will trigger re-ante
-    const { error } = await supabase
-      .from('games')
-      .update({
-        awaiting_next_round: true,
-        last_round_result: 'One tie all tie - rollover',
-      })
-      .eq('id', gameId);
+    const { error } = await getGameRepository().games.update(gameId, {
+      awaiting_next_round: true,
+      last_round_result: 'One tie all tie - rollover',
+    });
 
     if (error) {
       console.error('[HORSES] Failed to set tie state:', error);
@@ -448,14 +398,11 @@ export async function endHorsesRound(
   } else if (winnerId) {
     // Winner takes the pot - handled by HorsesGameTable
     // Just update the game state
-    const { error } = await supabase
-      .from('games')
-      .update({
-        status: 'game_over',
-        last_round_result: winnerDescription,
-        game_over_at: new Date().toISOString(),
-      })
-      .eq('id', gameId);
+    const { error } = await getGameRepository().games.update(gameId, {
+      status: 'game_over',
+      last_round_result: winnerDescription,
+      game_over_at: new Date().toISOString(),
+    });
 
     if (error) {
       console.error('[HORSES] Failed to set game over:', error);
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSeededRandom } from '@rules/random.ts';
+import { createInMemoryGameRepository, type InMemoryGameRepository } from './inMemoryGameRepository';
+import { isUniqueViolation, setGameRepository } from './gameRepository';
+import { initializeCribbageGame } from './cribbageGameLogic';
+import { endCribbageGame, startNextCribbageHand } from './cribbageRoundLogic';
+import { startYahtzeeRound } from './yahtzeeRoundLogic';
+import { startHolmRound } from './holmGameLogic';
+
+// Round logic must only reach the database through the repository
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const GAME_ID = 'game-1';
+const DEALER_GAME_ID = 'dealer-game-1';
+const PLAYER_IDS = ['player-a', 'player-b'];
+
+function seedTable(gameType: string, status: string): InMemoryGameRepository {
+  return createInMemoryGameRepository({
+    games: [
+      {
+        id: GAME_ID,
+        game_type: gameType,
+        status,
+        current_game_uuid: DEALER_GAME_ID,
+        current_round: null,
+        dealer_position: 1,
+        ante_amount: 2,
+        pot: 0,
+        is_paused: false,
+        is_first_hand: true,
+        awaiting_next_round: false,
+        real_money: false,
+      },
+    ],
+    players: PLAYER_IDS.map((id, i) => ({
+      id,
+      game_id: GAME_ID,
+      user_id: `user-${i + 1}`,
+      position: i + 1,
+      chips: 100,
+      status: 'active',
+      sitting_out: false,
+      is_bot: false,
+    })),
+    usernames: { 'user-1': 'alice', 'user-2': 'bob' },
+  });
+}
+
+describe('in-memory game repository', () => {
+  let repo: InMemoryGameRepository;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // snapshotPlayerChips isn't behind the repository and fails against the mocked client
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setGameRepository();
+    vi.restoreAllMocks();
+  });
+
+  it('rejects a second round for the same dealer game hand', async () => {
+    repo = seedTable('cribbage', 'in_progress');
+    const round = { game_id: GAME_ID, dealer_game_id: DEALER_GAME_ID, hand_number: 1, round_number: 1, cards_dealt: 6 };
+
+    expect((await repo.rounds.insert(round)).error).toBeNull();
+    const { error } = await repo.rounds.insert(round);
+    expect(isUniqueViolation(error)).toBe(true);
+
+    // Rounds outside a dealer game aren't covered by the index
+    const loose = { ...round, dealer_game_id: null };
+    expect((await repo.rounds.insert(loose)).error).toBeNull();
+    expect((await repo.rounds.insert(loose)).error).toBeNull();
+  });
+
+  it('rejects a second set of cards for the same player and round', async () => {
+    repo = seedTable('cribbage', 'in_progress');
+    const cards = { player_id: 'player-a', round_id: 'round-x', cards: [] };
+
+    expect((await repo.playerCards.insert([cards])).error).toBeNull();
+    expect(isUniqueViolation((await repo.playerCards.insert([cards])).error)).toBe(true);
+    expect((await repo.playerCards.upsert({ ...cards, cards: ['AS'] })).error).toBeNull();
+    expect(repo.tables.playerCards).toHaveLength(1);
+  });
+
+  it('only updates rows the filter still matches, treating null like SQL does', async () => {
+    repo = seedTable('cribbage', 'in_progress');
+
+    const { data: won } = await repo.games.update(GAME_ID, { status: 'game_over' }, { neq: { status: 'game_over' } });
+    const { data: lost } = await repo.games.update(GAME_ID, { status: 'game_over' }, { neq: { status: 'game_over' } });
+    expect(won).toHaveLength(1);
+    expect(lost).toEqual([]);
+
+    // current_round is null: `current_round = null` and `current_round <> 3` both miss it
+    expect((await repo.games.update(GAME_ID, { pot: 1 }, { eq: { current_round: null } })).data).toHaveLength(1);
+    expect((await repo.games.update(GAME_ID, { pot: 2 }, { neq: { current_round: 3 } })).data).toEqual([]);
+  });
+
+  describe('concurrent clients', () => {
+    it('starts the next cribbage hand once', async () => {
+      repo = seedTable('cribbage', 'in_progress');
+      setGameRepository(repo);
+      const state = {
+        ...initializeCribbageGame(PLAYER_IDS, PLAYER_IDS[0], 2, undefined, createSeededRandom('next-hand')),
+        phase: 'counting' as const,
+      };
+
+      const results = await Promise.all([
+        startNextCribbageHand(GAME_ID, DEALER_GAME_ID, state, PLAYER_IDS),
+        startNextCribbageHand(GAME_ID, DEALER_GAME_ID, state, PLAYER_IDS),
+      ]);
+
+      expect(results.every(r => r.success)).toBe(true);
+      expect(results.filter(r => r.alreadyStarted)).toHaveLength(1);
+      expect(repo.tables.rounds).toHaveLength(1);
+      expect(repo.tables.playerCards).toHaveLength(2);
+    });
+
+    it('pays out a finished cribbage game once', async () => {
+      repo = seedTable('cribbage', 'in_progress');
+      setGameRepository(repo);
+      const { data: round } = await repo.rounds.insert({
+        game_id: GAME_ID,
+        dealer_game_id: DEALER_GAME_ID,
+        hand_number: 3,
+        round_number: 1,
+        cards_dealt: 6,
+      });
+      const state = {
+        ...initializeCribbageGame(PLAYER_IDS, PLAYER_IDS[0], 2, undefined, createSeededRandom('payout')),
+        phase: 'complete' as const,
+        winnerPlayerId: PLAYER_IDS[0],
+        payoutMultiplier: 2,
+      };
+
+      const results = await Promise.all([
+        endCribbageGame(GAME_ID, round!.id, state),
+        endCribbageGame(GAME_ID, round!.id, state),
+      ]);
+
+      expect(results).toEqual([true, true]);
+      expect(repo.tables.players.map(p => p.chips)).toEqual([104, 96]);
+      expect(repo.tables.gameResults).toHaveLength(1);
+      expect(repo.tables.gameResults[0]).toMatchObject({ hand_number: 3, winner_username: 'alice' });
+      expect(repo.tables.games[0]).toMatchObject({ status: 'game_over', last_round_result: 'alice wins Skunk! +$4' });
+    });
+
+    it('creates one yahtzee round when every client starts the first hand', async () => {
+      repo = seedTable('yahtzee', 'ante_decision');
+      setGameRepository(repo);
+
+      await Promise.all([startYahtzeeRound(GAME_ID, true), startYahtzeeRound(GAME_ID, true)]);
+
+      expect(repo.tables.rounds).toHaveLength(1);
+      expect(repo.tables.games[0]).toMatchObject({ status: 'in_progress', total_hands: 1 });
+    });
+
+    it('collects Holm antes once for the first hand', async () => {
+      repo = seedTable('holm', 'ante_decision');
+      setGameRepository(repo);
+
+      await Promise.all([startHolmRound(GAME_ID, true), startHolmRound(GAME_ID, true)]);
+
+      expect(repo.tables.rounds).toHaveLength(1);
+      expect(repo.tables.rounds[0]).toMatchObject({ hand_number: 1, pot: 4, current_turn_position: 2 });
+      expect(repo.tables.players.map(p => p.chips)).toEqual([98, 98]);
+      expect(repo.tables.playerCards).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,405 @@
+// In-memory backend for GameRepository
+//
+// Honours the constraints the round logic leans on: the rounds unique index on
+// (dealer_game_id, hand_number, round_number) and player_cards on (player_id, round_id).
+// hand_actions get their sequence numbers the way append_hand_action hands them out, and
+// game_results inserts log a payout like the trigger does. Screw Your Neighbor's swap runs
+// the game's rules on the stored state the way swap_screw_your_neighbor_cards does.
+// Every call yields before touching the tables and then applies its change in one step,
+// so concurrent flows interleave the way separate clients do against Postgres.
+
+import type { Json, TablesInsert } from '@/integrations/supabase/types';
+import type { Card } from './cardUtils';
+import { hideScrewYourNeighborCards, swapScrewYourNeighborCard } from './screwYourNeighborGameLogic';
+import type { ScrewYourNeighborState } from './screwYourNeighborTypes';
+import {
+  UNIQUE_VIOLATION,
+  type GameDefaultsRow,
+  type GameRepository,
+  type GameResultRow,
+  type GameRow,
+  type HandActionRow,
+  type PlayerCardsRow,
+  type PlayerRow,
+  type PlayerWithProfile,
+  type RepositoryResult,
+  type RoundRow,
+  type RowFilter,
+} from './gameRepository';
+
+export interface InMemoryTables {
+  games: GameRow[];
+  players: PlayerRow[];
+  rounds: RoundRow[];
+  playerCards: PlayerCardsRow[];
+  gameResults: GameResultRow[];
+  handActions: HandActionRow[];
+  dealerGames: Array<{ id: string; config: Json }>;
+  gameDefaults: GameDefaultsRow[];
+  /** user_id -> profile username */
+  usernames: Record<string, string>;
+}
+
+/** Starting rows; ids and created_at are filled in where missing */
+export interface InMemorySeed {
+  games?: Partial<GameRow>[];
+  players?: Partial<PlayerRow>[];
+  rounds?: Partial<RoundRow>[];
+  playerCards?: PlayerCardsRow[];
+  gameResults?: GameResultRow[];
+  handActions?: HandActionRow[];
+  dealerGames?: InMemoryTables['dealerGames'];
+  gameDefaults?: GameDefaultsRow[];
+  usernames?: Record<string, string>;
+}
+
+export interface InMemoryGameRepository extends GameRepository {
+  tables: InMemoryTables;
+}
+
+function ok<T>(data: T): RepositoryResult<T> {
+  return { data, error: null };
+}
+
+function fail<T>(message: string, code?: string): RepositoryResult<T> {
+  return { data: null, error: { message, code } };
+}
+
+function matches<Row>(row: Row, filter: RowFilter<Row> | undefined): boolean {
+  const value = (column: string) => (row as Record<string, unknown>)[column] ?? null;
+  return (
+    Object.entries(filter?.eq ?? {}).every(([column, expected]) => value(column) === expected) &&
+    Object.entries(filter?.neq ?? {}).every(([column, expected]) =>
+      // SQL: `col <> x` is never true for a NULL column
+      expected === null ? value(column) !== null : value(column) !== null && value(column) !== expected
+    )
+  );
+}
+
+// Rows are handed out as copies so callers can't change the tables behind the repository's back
+function copy<T>(row: T): T {
+  return structuredClone(row);
+}
+
+export function createInMemoryGameRepository(seed: InMemorySeed = {}): InMemoryGameRepository {
+  let nextId = 1;
+  const newId = (table: string) => `${table}-${nextId++}`;
+  const now = () => new Date().toISOString();
+
+  const tables: InMemoryTables = {
+    games: (seed.games ?? []).map(g => ({ id: newId('game'), created_at: now(), ...g }) as GameRow),
+    players: (seed.players ?? []).map(p => ({ id: newId('player'), created_at: now(), ...p }) as PlayerRow),
+    rounds: (seed.rounds ?? []).map(r => ({ id: newId('round'), created_at: now(), ...r }) as RoundRow),
+    playerCards: [...(seed.playerCards ?? [])],
+    gameResults: [...(seed.gameResults ?? [])],
+    handActions: [...(seed.handActions ?? [])],
+    dealerGames: [...(seed.dealerGames ?? [])],
+    gameDefaults: [...(seed.gameDefaults ?? [])],
+    usernames: { ...seed.usernames },
+  };
+
+  // Let other pending flows run first, like a round trip to the database would
+  const tick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+  const withProfile = (player: PlayerRow): PlayerWithProfile => {
+    const username = tables.usernames[player.user_id];
+    return { ...copy(player), profiles: username === undefined ? null : { username } };
+  };
+
+  const updateWhere = <Row>(rows: Row[], where: (row: Row) => boolean, patch: Partial<Row>): Row[] => {
+    const updated: Row[] = [];
+    rows.forEach((row, i) => {
+      if (where(row)) {
+        rows[i] = { ...row, ...copy(patch) };
+        updated.push(copy(rows[i]));
+      }
+    });
+    return updated;
+  };
+
+  const roundKeyTaken = (round: TablesInsert<'rounds'>) =>
+    round.dealer_game_id != null &&
+    round.hand_number != null &&
+    tables.rounds.some(
+      r =>
+        r.dealer_game_id === round.dealer_game_id &&
+        r.hand_number === round.hand_number &&
+        r.round_number === round.round_number
+    );
+
+  type Hand = Pick<HandActionRow, 'game_id' | 'dealer_game_id' | 'hand_number'>;
+  const handOf = (round: RoundRow): Hand => ({
+    game_id: round.game_id,
+    dealer_game_id: round.dealer_game_id,
+    hand_number: round.hand_number ?? 1,
+  });
+  const inHand = (hand: Hand) => (a: HandActionRow) =>
+    a.game_id === hand.game_id && a.dealer_game_id === hand.dealer_game_id && a.hand_number === hand.hand_number;
+
+  // append_hand_action_row: a repeated key returns the sequence number it already has
+  const appendAction = (row: Omit<HandActionRow, 'id' | 'created_at' | 'sequence_number'>): number => {
+    const log = tables.handActions.filter(inHand(row));
+    const existing = row.action_key !== null ? log.find(a => a.action_key === row.action_key) : undefined;
+    if (existing) return existing.sequence_number;
+
+    const sequence = log.reduce((max, a) => Math.max(max, a.sequence_number), 0) + 1;
+    tables.handActions.push({ id: newId('hand_action'), created_at: now(), sequence_number: sequence, ...copy(row) });
+    return sequence;
+  };
+
+  return {
+    tables,
+
+    games: {
+      get: async gameId => {
+        await tick();
+        const game = tables.games.find(g => g.id === gameId);
+        return ok(game ? copy(game) : null);
+      },
+
+      update: async (gameId, patch, filter) => {
+        await tick();
+        return ok(updateWhere(tables.games, g => g.id === gameId && matches(g, filter), patch as Partial<GameRow>));
+      },
+
+      getDealerGameConfig: async dealerGameId => {
+        await tick();
+        const dealerGame = tables.dealerGames.find(d => d.id === dealerGameId);
+        return ok(dealerGame ? copy(dealerGame.config) : null);
+      },
+
+      getDefaults: async gameType => {
+        await tick();
+        const defaults = tables.gameDefaults.find(d => d.game_type === gameType);
+        return ok(defaults ? copy(defaults) : null);
+      },
+    },
+
+    players: {
+      get: async playerId => {
+        await tick();
+        const player = tables.players.find(p => p.id === playerId);
+        return ok(player ? withProfile(player) : null);
+      },
+
+      listByGame: async gameId => {
+        await tick();
+        return ok(
+          tables.players
+            .filter(p => p.game_id === gameId)
+            .sort((a, b) => a.position - b.position)
+            .map(withProfile)
+        );
+      },
+
+      update: async (playerIds, patch) => {
+        await tick();
+        return ok(updateWhere(tables.players, p => playerIds.includes(p.id), patch as Partial<PlayerRow>));
+      },
+
+      updateByGame: async (gameId, patch) => {
+        await tick();
+        return ok(updateWhere(tables.players, p => p.game_id === gameId, patch as Partial<PlayerRow>));
+      },
+
+      incrementChips: async (playerId, amount) => {
+        await tick();
+        const player = tables.players.find(p => p.id === playerId);
+        if (!player) return fail('Player not found');
+        player.chips += amount;
+        return ok(player.chips);
+      },
+
+      decrementChips: async (playerIds, amount) => {
+        await tick();
+        for (const player of tables.players) {
+          if (playerIds.includes(player.id)) player.chips -= amount;
+        }
+        return ok(null);
+      },
+    },
+
+    rounds: {
+      get: async roundId => {
+        await tick();
+        const round = tables.rounds.find(r => r.id === roundId);
+        return ok(round ? copy(round) : null);
+      },
+
+      findByHand: async (dealerGameId, handNumber, roundNumber) => {
+        await tick();
+        const round = tables.rounds.find(
+          r => r.dealer_game_id === dealerGameId && r.hand_number === handNumber && r.round_number === roundNumber
+        );
+        return ok(round ? copy(round) : null);
+      },
+
+      getLatestHandNumber: async dealerGameId => {
+        await tick();
+        return ok(
+          tables.rounds
+            .filter(r => r.dealer_game_id === dealerGameId && dealerGameId !== null)
+            .reduce((max, r) => Math.max(max, r.hand_number ?? 0), 0)
+        );
+      },
+
+      insert: async round => {
+        await tick();
+        if (roundKeyTaken(round)) {
+          return fail(
+            'duplicate key value violates unique constraint "rounds_dealer_game_hand_round_unique"',
+            UNIQUE_VIOLATION
+          );
+        }
+        const row = { id: newId('round'), created_at: now(), status: 'betting', ...copy(round) } as RoundRow;
+        tables.rounds.push(row);
+        return ok(copy(row));
+      },
+
+      update: async (roundId, patch, filter) => {
+        await tick();
+        return ok(updateWhere(tables.rounds, r => r.id === roundId && matches(r, filter), patch as Partial<RoundRow>));
+      },
+    },
+
+    playerCards: {
+      get: async (roundId, playerId) => {
+        await tick();
+        const row = tables.playerCards.find(pc => pc.round_id === roundId && pc.player_id === playerId);
+        return ok(row ? copy(row) : null);
+      },
+
+      insert: async rows => {
+        await tick();
+        const taken = rows.some(row =>
+          tables.playerCards.some(pc => pc.player_id === row.player_id && pc.round_id === row.round_id)
+        );
+        if (taken) {
+          return fail(
+            'duplicate key value violates unique constraint "idx_player_cards_player_round_unique"',
+            UNIQUE_VIOLATION
+          );
+        }
+        tables.playerCards.push(
+          ...rows.map(row => ({ id: newId('player_cards'), created_at: now(), ...copy(row) }) as PlayerCardsRow)
+        );
+        return ok(null);
+      },
+
+      upsert: async (row: TablesInsert<'player_cards'>) => {
+        await tick();
+        const existing = tables.playerCards.findIndex(
+          pc => pc.player_id === row.player_id && pc.round_id === row.round_id
+        );
+        if (existing >= 0) {
+          tables.playerCards[existing] = { ...tables.playerCards[existing], ...copy(row) } as PlayerCardsRow;
+        } else {
+          tables.playerCards.push({ id: newId('player_cards'), created_at: now(), ...copy(row) } as PlayerCardsRow);
+        }
+        return ok(null);
+      },
+
+      update: async (roundId, playerIds, patch) => {
+        await tick();
+        return ok(updateWhere(
+          tables.playerCards,
+          pc => pc.round_id === roundId && playerIds.includes(pc.player_id),
+          patch as Partial<PlayerCardsRow>
+        ));
+      },
+
+      swapScrewYourNeighborCards: async roundId => {
+        await tick();
+        const round = tables.rounds.find(r => r.id === roundId);
+        const state = round?.game_state as unknown as ScrewYourNeighborState | null;
+        if (!round || round.status !== 'betting' || state?.phase !== 'swapping' || !state.currentTurnPlayerId) {
+          return fail('Not swapping');
+        }
+        const playerId = state.currentTurnPlayerId;
+        const targetId = state.seatOrder[state.seatOrder.indexOf(playerId) + 1];
+        const mine = tables.playerCards.find(pc => pc.round_id === roundId && pc.player_id === playerId);
+        const theirs = tables.playerCards.find(pc => pc.round_id === roundId && pc.player_id === targetId);
+        if (!mine || !theirs) return fail('The cards have not been dealt');
+
+        const [myCard] = mine.cards as unknown as Card[];
+        const [theirCard] = theirs.cards as unknown as Card[];
+        const blockedBy = theirCard.rank === 'K' ? theirCard : null;
+        let next: ScrewYourNeighborState;
+        try {
+          next = hideScrewYourNeighborCards(
+            swapScrewYourNeighborCard({ ...state, cards: { ...state.cards, [playerId]: myCard } }, playerId, blockedBy)
+          );
+        } catch (err) {
+          return fail((err as Error).message);
+        }
+
+        if (!blockedBy) [mine.cards, theirs.cards] = [theirs.cards, mine.cards];
+        round.game_state = copy(next) as unknown as Json;
+        round.current_turn_position = tables.players.find(p => p.id === targetId)?.position ?? null;
+        return ok({
+          state: copy(round.game_state),
+          blockedBy: blockedBy as unknown as Json,
+          card: (blockedBy ? myCard : theirCard) as unknown as Json,
+        });
+      },
+    },
+
+    gameResults: {
+      insert: async result => {
+        await tick();
+        const row = { id: newId('game_result'), created_at: now(), ...copy(result) } as GameResultRow;
+        tables.gameResults.push(row);
+        appendAction({
+          game_id: row.game_id,
+          dealer_game_id: row.dealer_game_id ?? null,
+          hand_number: row.hand_number,
+          round_id: null,
+          round_number: null,
+          game_type: row.game_type ?? tables.games.find(g => g.id === row.game_id)?.game_type ?? 'unknown',
+          player_id: row.winner_player_id ?? null,
+          action_type: 'payout',
+          payload: {
+            potWon: row.pot_won,
+            chipChanges: row.player_chip_changes,
+            description: row.winning_hand_description,
+            isChopped: row.is_chopped,
+          },
+          action_key: `payout:${row.id}`,
+        });
+        return ok(null);
+      },
+    },
+
+    handActions: {
+      append: async action => {
+        await tick();
+        const round = tables.rounds.find(r => r.id === action.roundId);
+        if (!round) return fail(`Round ${action.roundId} not found`);
+        return ok(
+          appendAction({
+            ...handOf(round),
+            round_id: round.id,
+            round_number: round.round_number,
+            game_type: tables.games.find(g => g.id === round.game_id)?.game_type ?? 'unknown',
+            player_id: action.playerId ?? null,
+            action_type: action.actionType,
+            payload: action.payload ?? {},
+            action_key: action.actionKey ?? null,
+          })
+        );
+      },
+
+      listByHand: async roundId => {
+        await tick();
+        const round = tables.rounds.find(r => r.id === roundId);
+        if (!round) return ok(null);
+        return ok(
+          tables.handActions
+            .filter(inHand(handOf(round)))
+            .sort((a, b) => a.sequence_number - b.sequence_number)
+            .map(copy)
+        );
+      },
+    },
+  };
+}
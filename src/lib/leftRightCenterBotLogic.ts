@@ -0,0 +1,17 @@
+// Left Right Center bot AI
+// There's nothing to decide but whose chip a wild takes: the bot takes from whoever holds
+// the most (the first of them in turn order on a tie).
+
+import { getLeftRightCenterStealTargets } from './leftRightCenterGameLogic';
+import type { LeftRightCenterState } from './leftRightCenterTypes';
+
+export type LeftRightCenterBotDecision = { type: 'roll' } | { type: 'steal'; targetPlayerId: string };
+
+/** The bot's move on its turn */
+export function getBotLeftRightCenterDecision(state: LeftRightCenterState, playerId: string): LeftRightCenterBotDecision {
+  if (state.phase !== 'stealing') return { type: 'roll' };
+
+  const targetPlayerId = getLeftRightCenterStealTargets(state, playerId)
+    .reduce((richest, id) => (state.chips[id] > state.chips[richest] ? id : richest));
+  return { type: 'steal', targetPlayerId };
+}
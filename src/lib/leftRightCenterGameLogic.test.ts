@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  dealLeftRightCenterGame,
+  getLeftRightCenterTotalChips,
+  rollLeftRightCenterDice,
+  stealLeftRightCenterChip,
+} from './leftRightCenterGameLogic';
+import type { LeftRightCenterState } from './leftRightCenterTypes';
+import { diceRolling, THREE_HANDED } from './testHelpers';
+
+// 'a' to roll, then 'b', then 'c' (the dealer). Rolled values: 1 = L, 2 = C, 3 = R, 4 = wild or dot
+function gameWith(chips: Record<string, number>, wild = false): LeftRightCenterState {
+  return {
+    ...dealLeftRightCenterGame({ ...THREE_HANDED, chipsPerPlayer: 3, wild }),
+    chips,
+  };
+}
+
+describe('Left Right Center Game Logic', () => {
+  it('gives everyone their chips and starts left of the dealer', () => {
+    const state = dealLeftRightCenterGame({ playerIds: ['a', 'b', 'c'], dealerPlayerId: 'a', chipsPerPlayer: 4, wild: false });
+    expect(state.turnOrder).toEqual(['b', 'c', 'a']);
+    expect(state.chips).toEqual({ a: 4, b: 4, c: 4 });
+    expect(state.currentTurnPlayerId).toBe('b');
+  });
+
+  it('passes chips left, right and to the center', () => {
+    const state = rollLeftRightCenterDice(gameWith({ a: 3, b: 3, c: 3 }), 'a', diceRolling(1, 2, 3));
+    // Left is next in turn order, right is the one before
+    expect(state.chips).toEqual({ a: 0, b: 4, c: 4 });
+    expect(state.center).toBe(1);
+    expect(state.rolls[0].faces).toEqual(['L', 'C', 'R']);
+    expect(state.currentTurnPlayerId).toBe('b');
+  });
+
+  it('rolls one die per chip and skips players without any', () => {
+    const state = rollLeftRightCenterDice(gameWith({ a: 1, b: 0, c: 2 }), 'a', diceRolling(5));
+    expect(state.rolls[0].dice).toHaveLength(1);
+    expect(state.currentTurnPlayerId).toBe('c');
+    expect(() => rollLeftRightCenterDice(state, 'b')).toThrow('Not your turn');
+  });
+
+  it('ends when one player is left holding chips', () => {
+    const state = rollLeftRightCenterDice(gameWith({ a: 1, b: 2, c: 0 }), 'a', diceRolling(2));
+    expect(state.phase).toBe('complete');
+    expect(state.winnerId).toBe('b');
+    expect(getLeftRightCenterTotalChips(state)).toBe(3);
+  });
+
+  describe('wild variant', () => {
+    it('lets each wild take a chip from a player of your choice', () => {
+      let state = rollLeftRightCenterDice(gameWith({ a: 3, b: 3, c: 3 }, true), 'a', diceRolling(4, 4, 6));
+      expect(state.phase).toBe('stealing');
+      expect(state.pendingSteals).toBe(2);
+
+      state = stealLeftRightCenterChip(state, 'a', 'c');
+      state = stealLeftRightCenterChip(state, 'a', 'c');
+      expect(state.chips).toEqual({ a: 5, b: 3, c: 1 });
+      expect(state.rolls[0].stolenFrom).toEqual(['c', 'c']);
+      expect(state.currentTurnPlayerId).toBe('b');
+    });
+
+    it("won't take from a player with no chips", () => {
+      const state = rollLeftRightCenterDice(gameWith({ a: 3, b: 0, c: 3 }, true), 'a', diceRolling(4, 5, 6));
+      expect(() => stealLeftRightCenterChip(state, 'a', 'b')).toThrow('That player has no chips to take');
+    });
+
+    it('wins the game on three wilds', () => {
+      const state = rollLeftRightCenterDice({ ...gameWith({ a: 3, b: 2, c: 1 }, true), center: 3 }, 'a', diceRolling(4, 4, 4));
+      expect(state.phase).toBe('complete');
+      expect(state.winnerId).toBe('a');
+      expect(state.chips).toEqual({ a: 9, b: 0, c: 0 });
+    });
+  });
+});
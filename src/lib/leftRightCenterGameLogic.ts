@@ -0,0 +1,187 @@
+// Left Right Center core game logic
+// Pure functions for the chip-passing dice game: in turn from the dealer's left, each player
+// rolls a die for every chip they hold (up to three). An L passes a chip left, an R passes one
+// right, a C puts one in the center and a dot keeps it. A player with no chips is skipped but
+// stays in, since a neighbor's roll can pass chips back. The last player holding chips wins
+// the center. In the wild variant one dot face is a wild that takes a chip from any player,
+// and three wilds win the game outright.
+
+import { rollDie, type RandomSource } from '@rules/random.ts';
+import type { LeftRightCenterFace, LeftRightCenterRoll, LeftRightCenterState } from './leftRightCenterTypes';
+
+export interface LeftRightCenterSetup {
+  /** Player ids in seat order */
+  playerIds: string[];
+  dealerPlayerId: string;
+  chipsPerPlayer: number;
+  wild: boolean;
+}
+
+/** Most dice anyone rolls, however many chips they hold */
+export const LEFT_RIGHT_CENTER_MAX_DICE = 3;
+
+/** The lettered face a die value stands for */
+export function getLeftRightCenterFace(value: number, wild: boolean): LeftRightCenterFace {
+  switch (value) {
+    case 1:
+      return 'L';
+    case 2:
+      return 'C';
+    case 3:
+      return 'R';
+    case 4:
+      return wild ? 'wild' : 'dot';
+    default:
+      return 'dot';
+  }
+}
+
+/** Dice a player rolls on their turn */
+export function getLeftRightCenterDiceCount(state: LeftRightCenterState, playerId: string): number {
+  return Math.min(state.chips[playerId] ?? 0, LEFT_RIGHT_CENTER_MAX_DICE);
+}
+
+/** The player an L passes to: next in turn order */
+export function getLeftRightCenterLeftNeighbor(state: LeftRightCenterState, playerId: string): string {
+  const idx = state.turnOrder.indexOf(playerId);
+  return state.turnOrder[(idx + 1) % state.turnOrder.length];
+}
+
+/** The player an R passes to: previous in turn order */
+export function getLeftRightCenterRightNeighbor(state: LeftRightCenterState, playerId: string): string {
+  const idx = state.turnOrder.indexOf(playerId);
+  return state.turnOrder[(idx - 1 + state.turnOrder.length) % state.turnOrder.length];
+}
+
+/** Players a wild can take a chip from */
+export function getLeftRightCenterStealTargets(state: LeftRightCenterState, playerId: string): string[] {
+  return state.turnOrder.filter(id => id !== playerId && state.chips[id] > 0);
+}
+
+/** Wild variant: three wilds take every chip on the table */
+export function isLeftRightCenterThreeWilds(roll: Pick<LeftRightCenterRoll, 'faces'>): boolean {
+  return roll.faces.length === LEFT_RIGHT_CENTER_MAX_DICE && roll.faces.every(face => face === 'wild');
+}
+
+/** Every chip in play: in front of the players plus the center */
+export function getLeftRightCenterTotalChips(state: LeftRightCenterState): number {
+  return state.center + Object.values(state.chips).reduce((sum, chips) => sum + chips, 0);
+}
+
+function finish(state: LeftRightCenterState, winnerId: string): LeftRightCenterState {
+  return { ...state, phase: 'complete', currentTurnPlayerId: null, pendingSteals: 0, winnerId };
+}
+
+/**
+ * Pass the turn on from `playerId` to the next player holding chips. Once one player (or
+ * nobody, when the last chips went to the center) holds any, the game is over; with nobody
+ * left, the last to roll was the last holding chips and wins.
+ */
+function endTurn(state: LeftRightCenterState, playerId: string): LeftRightCenterState {
+  const holders = state.turnOrder.filter(id => state.chips[id] > 0);
+  if (holders.length <= 1) return finish(state, holders[0] ?? playerId);
+
+  const idx = state.turnOrder.indexOf(playerId);
+  for (let step = 1; step <= state.turnOrder.length; step++) {
+    const next = state.turnOrder[(idx + step) % state.turnOrder.length];
+    if (state.chips[next] > 0) {
+      return { ...state, phase: 'rolling', currentTurnPlayerId: next, pendingSteals: 0 };
+    }
+  }
+  return finish(state, playerId);
+}
+
+function assertTurn(state: LeftRightCenterState, playerId: string, phase: LeftRightCenterState['phase']) {
+  if (state.phase !== phase || state.currentTurnPlayerId !== playerId) {
+    throw new Error('Not your turn');
+  }
+}
+
+/** Give everyone their chips; play starts left of the dealer */
+export function dealLeftRightCenterGame(setup: LeftRightCenterSetup): LeftRightCenterState {
+  const dealerIdx = Math.max(0, setup.playerIds.indexOf(setup.dealerPlayerId));
+  const turnOrder = setup.playerIds.map((_, i) => setup.playerIds[(dealerIdx + 1 + i) % setup.playerIds.length]);
+
+  return {
+    phase: 'rolling',
+    dealerPlayerId: setup.dealerPlayerId,
+    turnOrder,
+    chips: Object.fromEntries(turnOrder.map(id => [id, setup.chipsPerPlayer])),
+    center: 0,
+    wild: setup.wild,
+    currentTurnPlayerId: turnOrder[0] ?? null,
+    pendingSteals: 0,
+    rolls: [],
+    winnerId: null,
+  };
+}
+
+/**
+ * Roll a die per chip (up to three) and pass the chips. Wilds are left pending for
+ * stealLeftRightCenterChip when anyone else still holds chips.
+ */
+export function rollLeftRightCenterDice(
+  state: LeftRightCenterState,
+  playerId: string,
+  random: RandomSource = Math.random
+): LeftRightCenterState {
+  assertTurn(state, playerId, 'rolling');
+
+  const dice = Array.from({ length: getLeftRightCenterDiceCount(state, playerId) }, () => rollDie(random));
+  const faces = dice.map(value => getLeftRightCenterFace(value, state.wild));
+  const roll: LeftRightCenterRoll = { playerId, dice, faces, stolenFrom: [] };
+  const rolls = [...state.rolls, roll];
+
+  if (isLeftRightCenterThreeWilds(roll)) {
+    const chips = Object.fromEntries(state.turnOrder.map(id => [id, 0]));
+    chips[playerId] = getLeftRightCenterTotalChips(state);
+    return finish({ ...state, chips, center: 0, rolls }, playerId);
+  }
+
+  const chips = { ...state.chips };
+  let center = state.center;
+  const left = getLeftRightCenterLeftNeighbor(state, playerId);
+  const right = getLeftRightCenterRightNeighbor(state, playerId);
+  for (const face of faces) {
+    if (face === 'L') {
+      chips[playerId]--;
+      chips[left]++;
+    } else if (face === 'R') {
+      chips[playerId]--;
+      chips[right]++;
+    } else if (face === 'C') {
+      chips[playerId]--;
+      center++;
+    }
+  }
+
+  const next = { ...state, chips, center, rolls };
+  const wilds = faces.filter(face => face === 'wild').length;
+  if (wilds > 0 && getLeftRightCenterStealTargets(next, playerId).length > 0) {
+    return { ...next, phase: 'stealing', pendingSteals: wilds };
+  }
+  return endTurn(next, playerId);
+}
+
+/** Take a chip from another player for one of the roll's wilds */
+export function stealLeftRightCenterChip(
+  state: LeftRightCenterState,
+  playerId: string,
+  targetPlayerId: string
+): LeftRightCenterState {
+  assertTurn(state, playerId, 'stealing');
+  if (!getLeftRightCenterStealTargets(state, playerId).includes(targetPlayerId)) {
+    throw new Error('That player has no chips to take');
+  }
+
+  const lastRoll = state.rolls[state.rolls.length - 1];
+  const next: LeftRightCenterState = {
+    ...state,
+    chips: { ...state.chips, [playerId]: state.chips[playerId] + 1, [targetPlayerId]: state.chips[targetPlayerId] - 1 },
+    rolls: [...state.rolls.slice(0, -1), { ...lastRoll, stolenFrom: [...lastRoll.stolenFrom, targetPlayerId] }],
+    pendingSteals: state.pendingSteals - 1,
+  };
+
+  if (next.pendingSteals > 0 && getLeftRightCenterStealTargets(next, playerId).length > 0) return next;
+  return endTurn(next, playerId);
+}
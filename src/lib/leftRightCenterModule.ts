@@ -0,0 +1,52 @@
+// Left Right Center as a game module (see gameModule.ts)
+
+import type { GameRules } from './gameModule';
+import type { LeftRightCenterState } from './leftRightCenterTypes';
+import {
+  dealLeftRightCenterGame,
+  rollLeftRightCenterDice,
+  stealLeftRightCenterChip,
+} from './leftRightCenterGameLogic';
+import { getBotLeftRightCenterDecision } from './leftRightCenterBotLogic';
+
+export interface LeftRightCenterConfig {
+  /** Chips everyone starts with; each is worth the ante */
+  chipsPerPlayer: number;
+  /** One dot face is a wild that takes a chip from any player */
+  wild: boolean;
+}
+
+export type LeftRightCenterAction =
+  | { type: 'roll'; playerId: string }
+  | { type: 'steal'; playerId: string; targetPlayerId: string };
+
+export const leftRightCenterModule: GameRules<LeftRightCenterState, LeftRightCenterAction, LeftRightCenterConfig> = {
+  id: 'left-right-center',
+
+  config: {
+    defaults: { chipsPerPlayer: 3, wild: false },
+    fromGame: game => ({ chipsPerPlayer: game.lcr_chips ?? 3, wild: game.lcr_wild ?? false }),
+  },
+
+  // The whole game is one hand: it ends when one player holds every chip not in the center
+  createInitialState: ({ playerIds, dealerPlayerId, config }) =>
+    dealLeftRightCenterGame({ playerIds, dealerPlayerId, chipsPerPlayer: config.chipsPerPlayer, wild: config.wild }),
+
+  reduce: (state, action, random) => {
+    switch (action.type) {
+      case 'roll':
+        return rollLeftRightCenterDice(state, action.playerId, random);
+      case 'steal':
+        return stealLeftRightCenterChip(state, action.playerId, action.targetPlayerId);
+    }
+  },
+
+  getActivePlayerId: state => (state.phase === 'complete' ? null : state.currentTurnPlayerId),
+
+  isHandOver: state => state.phase === 'complete',
+
+  botAction: (state, playerId) => {
+    if (state.phase === 'complete' || state.currentTurnPlayerId !== playerId) return null;
+    return { ...getBotLeftRightCenterDecision(state, playerId), playerId };
+  },
+};
@@ -0,0 +1,275 @@
+// Left Right Center round orchestration - database integration layer
+// Follows the same patterns as screwYourNeighborRoundLogic.ts:
+// - DB-First round creation with atomic guards
+// - State persistence via game_state JSONB column
+// - Atomic claim before the pot moves at the end of the game
+//
+// The whole game is one round. Everyone buys in for their chips (the ante per chip) into
+// games.pot; the chips then move only in game_state, and the last player holding any takes
+// the pot. rounds.current_turn_position follows the player to act, for the turn spotlight.
+
+import {
+  fetchPlayerDisplayName,
+  getGameRepository,
+  isUniqueViolation,
+  type PlayerRow,
+} from './gameRepository';
+import { leftRightCenterModule } from './leftRightCenterModule';
+import { dealLeftRightCenterGame, isLeftRightCenterThreeWilds } from './leftRightCenterGameLogic';
+import { recordGameResult, snapshotPlayerChips } from './gameLogic';
+import { logDeal } from './handActionLog';
+import type { Json } from '@/integrations/supabase/types';
+import type { LeftRightCenterState } from './leftRightCenterTypes';
+
+type LeftRightCenterRoundResult = {
+  success: boolean;
+  roundId?: string;
+  handNumber?: number;
+  error?: string;
+  alreadyStarted?: boolean;
+};
+
+/** Seat position of the player to act, for rounds.current_turn_position */
+export function getLeftRightCenterTurnPosition(
+  state: LeftRightCenterState,
+  players: Pick<PlayerRow, 'id' | 'position'>[]
+): number | null {
+  if (!state.currentTurnPlayerId) return null;
+  return players.find(p => p.id === state.currentTurnPlayerId)?.position ?? null;
+}
+
+/**
+ * Start a Left Right Center game.
+ * Everyone buys in for their chips at the ante apiece; play starts left of the dealer.
+ */
+export async function startLeftRightCenterRound(gameId: string): Promise<LeftRightCenterRoundResult> {
+  console.log('[LCR] Starting left right center round', { gameId });
+  const repo = getGameRepository();
+
+  try {
+    const { data: game, error: gameError } = await repo.games.get(gameId);
+
+    if (gameError || !game) {
+      throw new Error(`Failed to fetch game: ${gameError?.message}`);
+    }
+
+    if (game.status === 'game_over' || game.status === 'session_ended') {
+      return { success: false, error: 'Game already over' };
+    }
+
+    const { data: players, error: playersError } = await repo.players.listByGame(gameId);
+
+    if (playersError) {
+      throw new Error(`Failed to fetch players: ${playersError.message}`);
+    }
+
+    const activePlayers = (players || [])
+      .filter(p => !p.sitting_out && p.status === 'active')
+      .sort((a, b) => a.position - b.position);
+
+    if (activePlayers.length < 2) {
+      throw new Error('Left Right Center requires at least 2 players');
+    }
+
+    const dealerGameId = game.current_game_uuid;
+    if (!dealerGameId) {
+      throw new Error('No dealer_game_id - cannot create round');
+    }
+
+    const dealerPosition = game.dealer_position || 1;
+    const dealerPlayer = activePlayers.find(p => p.position === dealerPosition) || activePlayers[0];
+    const { chipsPerPlayer, wild } = leftRightCenterModule.config.fromGame(game);
+    const buyIn = (game.ante_amount || 1) * chipsPerPlayer;
+    const pot = buyIn * activePlayers.length;
+    const playerIds = activePlayers.map(p => p.id);
+
+    // Calculate hand number (DB-First)
+    const { data: latestHandNumber } = await repo.rounds.getLatestHandNumber(dealerGameId);
+    const handNumber = (latestHandNumber ?? 0) + 1;
+
+    const state = dealLeftRightCenterGame({ playerIds, dealerPlayerId: dealerPlayer.id, chipsPerPlayer, wild });
+
+    const { data: round, error: roundError } = await repo.rounds.insert({
+      game_id: gameId,
+      dealer_game_id: dealerGameId,
+      round_number: 1, // The whole game is one round
+      hand_number: handNumber,
+      cards_dealt: 0,
+      pot,
+      status: 'betting',
+      current_turn_position: getLeftRightCenterTurnPosition(state, activePlayers),
+      game_state: state as unknown as Json,
+    });
+
+    if (roundError || !round) {
+      // Atomic guard: unique constraint violation means another client already created it
+      if (isUniqueViolation(roundError)) {
+        console.log('[LCR] Round already exists (atomic guard)');
+        return { success: true, alreadyStarted: true };
+      }
+      throw new Error(`Failed to create round: ${roundError?.message}`);
+    }
+
+    const insertedHandNumber = round.hand_number ?? handNumber;
+
+    // Only the client that created the round collects the buy-ins
+    await repo.games.update(gameId, {
+      status: 'in_progress',
+      current_round: 1,
+      pot,
+      total_hands: insertedHandNumber,
+      is_first_hand: insertedHandNumber === 1,
+    });
+
+    const { error: buyInError } = await repo.players.decrementChips(playerIds, buyIn);
+    if (buyInError) {
+      console.error('[LCR] ERROR collecting buy-ins:', buyInError);
+    } else {
+      // Record the buy-ins in game_results to keep the accounting zero-sum
+      recordGameResult(
+        gameId,
+        insertedHandNumber,
+        null,
+        'Ante',
+        `${playerIds.length} players bought ${chipsPerPlayer} chips for $${buyIn}`,
+        0,
+        Object.fromEntries(playerIds.map(id => [id, -buyIn])),
+        false,
+        'left-right-center',
+        dealerGameId
+      );
+    }
+
+    void logDeal(round.id, { state, dealtTo: state.turnOrder, cardsDealt: 0 });
+
+    console.log('[LCR] Game started', { roundId: round.id, handNumber: insertedHandNumber });
+    return { success: true, roundId: round.id, handNumber: insertedHandNumber };
+
+  } catch (error) {
+    console.error('[LCR] Error starting round:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Update left right center state in the database (after each roll or steal).
+ * `turnPosition` is the seat of the player now to act (null once the game is won).
+ */
+export async function updateLeftRightCenterState(
+  roundId: string,
+  newState: LeftRightCenterState,
+  turnPosition: number | null
+): Promise<boolean> {
+  try {
+    const { error } = await getGameRepository().rounds.update(
+      roundId,
+      {
+        game_state: JSON.parse(JSON.stringify(newState)),
+        current_turn_position: turnPosition,
+      },
+      { neq: { status: 'completed' } }
+    );
+
+    if (error) {
+      console.error('[LCR] Failed to update state:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('[LCR] Error updating state:', error);
+    return false;
+  }
+}
+
+/**
+ * Pay the pot to the winner. Uses atomic claim pattern (transition status to 'completed') so
+ * only one client pays it.
+ */
+export async function recordLeftRightCenterResult(
+  gameId: string,
+  roundId: string,
+  state: LeftRightCenterState
+): Promise<boolean> {
+  const repo = getGameRepository();
+
+  if (state.phase !== 'complete' || !state.winnerId) {
+    console.warn('[LCR] Game not complete, nothing to record');
+    return false;
+  }
+
+  const { data: claimedRounds, error: claimError } = await repo.rounds.update(
+    roundId,
+    { status: 'completed', game_state: JSON.parse(JSON.stringify(state)), current_turn_position: null },
+    { neq: { status: 'completed' } }
+  );
+
+  if (claimError) {
+    console.error('[LCR] Failed to claim result:', claimError);
+    return false;
+  }
+
+  const claimedRound = claimedRounds && claimedRounds.length > 0 ? claimedRounds[0] : null;
+  if (!claimedRound) {
+    console.log('[LCR] Result already recorded by another client');
+    return true;
+  }
+
+  const { data: game } = await repo.games.get(gameId);
+  const pot = game?.pot ?? 0;
+  const winnerId = state.winnerId;
+  const winnerUsername = await fetchPlayerDisplayName(gameId, winnerId);
+  const lastRoll = state.rolls[state.rolls.length - 1];
+  const description = lastRoll && isLeftRightCenterThreeWilds(lastRoll)
+    ? `${winnerUsername} rolled three wilds • wins $${pot}`
+    : `${winnerUsername} is the last with chips • wins $${pot}`;
+
+  if (pot > 0) {
+    const { error } = await repo.players.incrementChips(winnerId, pot);
+    if (error) console.error('[LCR] Failed to pay the pot:', winnerId, error);
+  }
+
+  const chipChanges: Record<string, number> = Object.fromEntries(state.turnOrder.map(id => [id, 0]));
+  chipChanges[winnerId] = pot;
+
+  const { error: resultError } = await repo.gameResults.insert({
+    game_id: gameId,
+    dealer_game_id: claimedRound.dealer_game_id,
+    hand_number: claimedRound.hand_number ?? 1,
+    pot_won: pot,
+    winner_player_id: winnerId,
+    winner_username: winnerUsername,
+    winning_hand_description: description,
+    is_chopped: false,
+    player_chip_changes: chipChanges,
+    game_type: 'left-right-center',
+  });
+  if (resultError) console.error('[LCR] Failed to record result:', resultError);
+
+  await repo.games.update(gameId, { last_round_result: description, pot: 0 });
+
+  await snapshotPlayerChips(gameId, claimedRound.hand_number ?? 1).catch((err) => {
+    console.error('[LCR] Failed to snapshot chips:', err);
+  });
+
+  console.log('[LCR] Game settled', { roundId, description });
+  return true;
+}
+
+/** End the game once the pot is paid */
+export async function endLeftRightCenterGame(gameId: string): Promise<boolean> {
+  const repo = getGameRepository();
+
+  try {
+    await repo.games.update(
+      gameId,
+      { status: 'game_over', game_over_at: new Date().toISOString() },
+      { neq: { status: 'game_over' } }
+    );
+
+    console.log('[LCR] Game over', { gameId });
+    return true;
+  } catch (error) {
+    console.error('[LCR] Error ending game:', error);
+    return false;
+  }
+}
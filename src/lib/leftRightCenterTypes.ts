@@ -0,0 +1,43 @@
+// Left Right Center game types and interfaces
+// The dice are ordinary d6 values (rolled from the hand's fair dice stream); each value
+// reads as one of the lettered faces (see getLeftRightCenterFace)
+
+export type LeftRightCenterFace =
+  | 'L' // Pass a chip to the player on the left
+  | 'C' // Put a chip in the center pot
+  | 'R' // Pass a chip to the player on the right
+  | 'dot' // Keep the chip
+  | 'wild'; // Wild variant: take a chip from any player
+
+export type LeftRightCenterPhase =
+  | 'rolling' // The player to act rolls a die for each chip, up to three
+  | 'stealing' // Wild variant: the roller picks whose chip each wild takes
+  | 'complete'; // One player has chips left and wins the center
+
+export interface LeftRightCenterRoll {
+  playerId: string;
+  /** Die values as rolled (1-6) */
+  dice: number[];
+  faces: LeftRightCenterFace[];
+  /** Players a wild took a chip from, in order */
+  stolenFrom: string[];
+}
+
+export interface LeftRightCenterState {
+  phase: LeftRightCenterPhase;
+  dealerPlayerId: string;
+  /** Turn order: left of the dealer round to the dealer. Players out of chips stay in it. */
+  turnOrder: string[];
+  /** Chips in front of each player */
+  chips: Record<string, number>;
+  /** Chips in the center pot */
+  center: number;
+  /** Whether one dot face is a wild */
+  wild: boolean;
+  currentTurnPlayerId: string | null;
+  /** Wilds from the current roll still waiting for a player to take from */
+  pendingSteals: number;
+  /** Every roll this game, in order */
+  rolls: LeftRightCenterRoll[];
+  winnerId: string | null;
+}
@@ -0,0 +1,55 @@
+// Liar's Dice bot AI
+// Deterministic and probability-based: the bot knows its own cup, treats every other die as
+// an independent roll, and weighs the chance the last bid is a lie against the chance its
+// own best raise holds. It calls when the call is the better bet.
+
+import { getLiarsDiceBidLadder, getLiarsDiceTotal, isLiarsDiceMatch } from './liarsDiceGameLogic';
+import type { LiarsDiceState } from './liarsDiceTypes';
+
+export type LiarsDiceBotDecision =
+  | { type: 'bid'; quantity: number; face: number }
+  | { type: 'call' };
+
+/** Chance at least `needed` of `dice` unseen dice match, each with chance `p` */
+function chanceOfAtLeast(needed: number, dice: number, p: number): number {
+  if (needed <= 0) return 1;
+  if (needed > dice) return 0;
+  let chance = 0;
+  let ways = 1; // dice choose k
+  for (let k = 0; k <= dice; k++) {
+    if (k >= needed) chance += ways * p ** k * (1 - p) ** (dice - k);
+    ways = (ways * (dice - k)) / (k + 1);
+  }
+  return chance;
+}
+
+/** Chance a bid holds, as `playerId` sees it: their cup plus the odds on everyone else's */
+export function getLiarsDiceBidOdds(
+  state: LiarsDiceState,
+  playerId: string,
+  bid: { quantity: number; face: number }
+): number {
+  const cup = state.cups[playerId] ?? [];
+  const mine = cup.filter(v => isLiarsDiceMatch(v, bid.face, state.onesWild)).length;
+  const p = state.onesWild && bid.face !== 1 ? 1 / 3 : 1 / 6;
+  return chanceOfAtLeast(bid.quantity - mine, getLiarsDiceTotal(state) - cup.length, p);
+}
+
+/** The bot's move on its turn; needs its cup in the state */
+export function getBotLiarsDiceDecision(state: LiarsDiceState, playerId: string): LiarsDiceBotDecision {
+  // Likeliest raise to hold, fewest dice first on a tie (the ladder's order)
+  let best: { quantity: number; face: number } | null = null;
+  let bestOdds = -1;
+  for (const bid of getLiarsDiceBidLadder(state)) {
+    const odds = getLiarsDiceBidOdds(state, playerId, bid);
+    if (odds > bestOdds) {
+      best = bid;
+      bestOdds = odds;
+    }
+  }
+
+  const last = state.bids[state.bids.length - 1];
+  if (!last) return best ? { type: 'bid', ...best } : { type: 'call' };
+  if (!best || 1 - getLiarsDiceBidOdds(state, playerId, last) > bestOdds) return { type: 'call' };
+  return { type: 'bid', ...best };
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom } from '@rules/random.ts';
+import {
+  callLiarsDiceBid,
+  dealLiarsDiceHand,
+  getLiarsDiceBidLadder,
+  getLiarsDiceNextBidder,
+  getLiarsDiceSurvivors,
+  hideLiarsDiceCups,
+  isLiarsDiceRaise,
+  placeLiarsDiceBid,
+  revealLiarsDiceCups,
+} from './liarsDiceGameLogic';
+import { getBotLiarsDiceDecision } from './liarsDiceBotLogic';
+import type { LiarsDiceState } from './liarsDiceTypes';
+import { THREE_HANDED } from './testHelpers';
+
+// A hand with every cup up: 'a' to bid first, then 'b', then 'c'
+function handWith(
+  cups: Record<string, number[]>,
+  options: { onesWild?: boolean; loseDifference?: boolean } = {}
+): LiarsDiceState {
+  return {
+    phase: 'bidding',
+    dealerPlayerId: THREE_HANDED.dealerPlayerId,
+    seatOrder: THREE_HANDED.playerIds,
+    diceCounts: Object.fromEntries(Object.entries(cups).map(([id, cup]) => [id, cup.length])),
+    cups,
+    onesWild: options.onesWild ?? true,
+    loseDifference: options.loseDifference ?? false,
+    currentTurnPlayerId: 'a',
+    bids: [],
+    challenge: null,
+  };
+}
+
+const CUPS = { a: [2, 2, 5], b: [1, 3, 6], c: [2, 4, 4] };
+
+describe("Liar's Dice Game Logic", () => {
+  describe('dealLiarsDiceHand', () => {
+    it('rolls everyone their dice and starts left of the dealer', () => {
+      const state = dealLiarsDiceHand(
+        { playerIds: ['a', 'b', 'c'], dealerPlayerId: 'a', diceCounts: { a: 5, b: 2, c: 0 }, onesWild: true, loseDifference: false },
+        createSeededRandom('deal')
+      );
+      expect(state.seatOrder).toEqual(['b', 'a']);
+      expect(state.cups.a).toHaveLength(5);
+      expect(state.cups.b).toHaveLength(2);
+      expect(state.currentTurnPlayerId).toBe('b');
+    });
+  });
+
+  describe('isLiarsDiceRaise', () => {
+    it('takes more dice or a higher face', () => {
+      const last = { playerId: 'a', quantity: 3, face: 4 };
+      expect(isLiarsDiceRaise({ quantity: 3, face: 5 }, last, false)).toBe(true);
+      expect(isLiarsDiceRaise({ quantity: 4, face: 2 }, last, false)).toBe(true);
+      expect(isLiarsDiceRaise({ quantity: 3, face: 3 }, last, false)).toBe(false);
+    });
+
+    it('halves the quantity onto wild ones and doubles it plus one back off', () => {
+      expect(isLiarsDiceRaise({ quantity: 2, face: 1 }, { playerId: 'a', quantity: 3, face: 4 }, true)).toBe(true);
+      expect(isLiarsDiceRaise({ quantity: 1, face: 1 }, { playerId: 'a', quantity: 3, face: 4 }, true)).toBe(false);
+      expect(isLiarsDiceRaise({ quantity: 5, face: 2 }, { playerId: 'a', quantity: 2, face: 1 }, true)).toBe(true);
+      expect(isLiarsDiceRaise({ quantity: 4, face: 6 }, { playerId: 'a', quantity: 2, face: 1 }, true)).toBe(false);
+    });
+  });
+
+  describe('placeLiarsDiceBid', () => {
+    it('rejects opening on wild ones and bids that do not raise', () => {
+      const state = handWith(CUPS);
+      expect(() => placeLiarsDiceBid(state, 'a', 2, 1)).toThrow('Ones are wild');
+      expect(getLiarsDiceBidLadder(state).some(bid => bid.face === 1)).toBe(false);
+
+      const bid = placeLiarsDiceBid(state, 'a', 3, 4);
+      expect(bid.currentTurnPlayerId).toBe('b');
+      expect(() => placeLiarsDiceBid(bid, 'b', 3, 2)).toThrow('Bid higher');
+      expect(() => placeLiarsDiceBid(bid, 'a', 4, 4)).toThrow('Not your turn');
+      expect(() => placeLiarsDiceBid(bid, 'b', 10, 4)).toThrow('Bid between 1 and 9 dice');
+    });
+  });
+
+  describe('callLiarsDiceBid', () => {
+    it('costs the caller a die when the bid holds, counting wild ones', () => {
+      // Three 2s plus b's wild one: four 2s on the table
+      let state = placeLiarsDiceBid(handWith(CUPS), 'a', 4, 2);
+      state = callLiarsDiceBid(state, 'b');
+      expect(state.phase).toBe('complete');
+      expect(state.challenge).toMatchObject({ challengerId: 'b', count: 4, loserId: 'b', diceLost: 1 });
+      expect(getLiarsDiceNextBidder(state)).toBe('b');
+    });
+
+    it('costs the bidder the difference with lose the difference on', () => {
+      let state = placeLiarsDiceBid(handWith(CUPS, { onesWild: false, loseDifference: true }), 'a', 4, 6);
+      state = callLiarsDiceBid(state, 'b');
+      expect(state.challenge).toMatchObject({ count: 1, loserId: 'a', diceLost: 3 });
+      expect(getLiarsDiceSurvivors(state)).toEqual(['b', 'c']);
+      // 'a' is out, so the next player on opens
+      expect(getLiarsDiceNextBidder(state)).toBe('b');
+    });
+
+    it('waits in the reveal phase until every cup comes up', () => {
+      let state = hideLiarsDiceCups(placeLiarsDiceBid(handWith(CUPS), 'a', 2, 4));
+      state = callLiarsDiceBid(state, 'b');
+      expect(state.phase).toBe('reveal');
+      expect(() => revealLiarsDiceCups(state, { a: CUPS.a })).toThrow('Every cup has to come up');
+
+      state = revealLiarsDiceCups(state, CUPS);
+      expect(state.challenge).toMatchObject({ count: 3, loserId: 'b' });
+    });
+
+    it('rejects a call before anyone has bid', () => {
+      expect(() => callLiarsDiceBid(handWith(CUPS), 'a')).toThrow('Nobody has bid yet');
+    });
+  });
+
+  describe('getBotLiarsDiceDecision', () => {
+    it('calls a bid it cannot believe', () => {
+      const state = placeLiarsDiceBid(handWith(CUPS), 'a', 8, 6);
+      expect(getBotLiarsDiceDecision(state, 'b')).toEqual({ type: 'call' });
+    });
+  });
+});
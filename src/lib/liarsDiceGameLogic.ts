@@ -0,0 +1,200 @@
+// Liar's Dice core game logic
+// Pure functions for the bluffing game: everyone rolls their dice under a cup, then in turn
+// from the first bidder either raises the bid (how many dice on the whole table show a face)
+// or calls the last bid a lie. The cups come up: if the table holds at least the bid, the
+// caller loses dice, otherwise the bidder does. The last player with dice left wins the pot.
+//
+// With ones wild, ones count toward every other face, and bids can switch to ones at half
+// the quantity (rounded up) or back off them at double plus one.
+
+import { rollDie, type RandomSource } from '@rules/random.ts';
+import type { LiarsDiceBid, LiarsDiceState } from './liarsDiceTypes';
+
+export interface LiarsDiceSetup {
+  /** Players with dice left, in seat order */
+  playerIds: string[];
+  dealerPlayerId: string;
+  /** Who bids first; left of the dealer when not given */
+  firstBidderId?: string;
+  diceCounts: Record<string, number>;
+  onesWild: boolean;
+  loseDifference: boolean;
+}
+
+/** Dice on the table this hand */
+export function getLiarsDiceTotal(state: Pick<LiarsDiceState, 'seatOrder' | 'diceCounts'>): number {
+  return state.seatOrder.reduce((sum, id) => sum + state.diceCounts[id], 0);
+}
+
+/** Whether a die counts toward a bid on `face` */
+export function isLiarsDiceMatch(value: number, face: number, onesWild: boolean): boolean {
+  return value === face || (onesWild && face !== 1 && value === 1);
+}
+
+/** Dice in the cups that count toward a bid on `face` */
+export function countLiarsDiceMatches(cups: number[][], face: number, onesWild: boolean): number {
+  return cups.reduce((sum, cup) => sum + cup.filter(v => isLiarsDiceMatch(v, face, onesWild)).length, 0);
+}
+
+/**
+ * Whether `bid` raises `last`: more dice, or as many on a higher face. With ones wild a
+ * one is worth two of anything else, so switching to ones halves the quantity needed
+ * (rounded up) and switching off them needs double plus one.
+ */
+export function isLiarsDiceRaise(bid: Pick<LiarsDiceBid, 'quantity' | 'face'>, last: LiarsDiceBid | undefined, onesWild: boolean): boolean {
+  if (!last) return true;
+  if (!onesWild || (bid.face === 1) === (last.face === 1)) {
+    return bid.quantity > last.quantity || (bid.quantity === last.quantity && bid.face > last.face);
+  }
+  return bid.face === 1
+    ? bid.quantity >= Math.ceil(last.quantity / 2)
+    : bid.quantity >= last.quantity * 2 + 1;
+}
+
+/** Every bid the player to act could make, fewest dice first */
+export function getLiarsDiceBidLadder(state: LiarsDiceState): Array<{ quantity: number; face: number }> {
+  const last = state.bids[state.bids.length - 1];
+  const ladder: Array<{ quantity: number; face: number }> = [];
+  for (let quantity = 1; quantity <= getLiarsDiceTotal(state); quantity++) {
+    for (let face = 1; face <= 6; face++) {
+      // Ones are wild, so nobody can open on them
+      if (!last && state.onesWild && face === 1) continue;
+      if (isLiarsDiceRaise({ quantity, face }, last, state.onesWild)) ladder.push({ quantity, face });
+    }
+  }
+  return ladder;
+}
+
+/** Dice each player has once the hand's loser has lost theirs */
+export function getLiarsDiceCountsAfter(state: LiarsDiceState): Record<string, number> {
+  const { challenge } = state;
+  return Object.fromEntries(
+    state.seatOrder.map(id => [id, state.diceCounts[id] - (challenge?.loserId === id ? challenge.diceLost : 0)])
+  );
+}
+
+/** Players with dice left after the hand; one left means the game is over */
+export function getLiarsDiceSurvivors(state: LiarsDiceState): string[] {
+  const counts = getLiarsDiceCountsAfter(state);
+  return state.seatOrder.filter(id => counts[id] > 0);
+}
+
+/** Who bids first next hand: the loser, or the next player on from them once they're out */
+export function getLiarsDiceNextBidder(state: LiarsDiceState): string | null {
+  const loserId = state.challenge?.loserId;
+  if (!loserId) return null;
+  const counts = getLiarsDiceCountsAfter(state);
+  const start = state.seatOrder.indexOf(loserId);
+  for (let i = 0; i < state.seatOrder.length; i++) {
+    const id = state.seatOrder[(start + i) % state.seatOrder.length];
+    if (counts[id] > 0) return id;
+  }
+  return null;
+}
+
+/** The state as stored while the hand is bid: nobody's cup */
+export function hideLiarsDiceCups(state: LiarsDiceState): LiarsDiceState {
+  return { ...state, cups: {} };
+}
+
+function assertTurn(state: LiarsDiceState, playerId: string) {
+  if (state.phase !== 'bidding' || state.currentTurnPlayerId !== playerId) {
+    throw new Error('Not your turn');
+  }
+}
+
+function hasEveryCup(state: LiarsDiceState): boolean {
+  return state.seatOrder.every(id => state.cups[id]?.length === state.diceCounts[id]);
+}
+
+/** Count the called bid once every cup is up; the hand waits in the reveal phase until then */
+function settleChallenge(state: LiarsDiceState): LiarsDiceState {
+  const { challenge } = state;
+  if (!challenge || !hasEveryCup(state)) return state;
+
+  const { bid } = challenge;
+  const count = countLiarsDiceMatches(state.seatOrder.map(id => state.cups[id]), bid.face, state.onesWild);
+  const loserId = count >= bid.quantity ? challenge.challengerId : bid.playerId;
+  const diceLost = state.loseDifference
+    ? Math.min(Math.max(1, Math.abs(count - bid.quantity)), state.diceCounts[loserId])
+    : 1;
+
+  return {
+    ...state,
+    phase: 'complete',
+    currentTurnPlayerId: null,
+    challenge: { ...challenge, count, loserId, diceLost },
+  };
+}
+
+/** Roll everyone's cup; the first bidder opens */
+export function dealLiarsDiceHand(setup: LiarsDiceSetup, random: RandomSource = Math.random): LiarsDiceState {
+  const players = setup.playerIds.filter(id => setup.diceCounts[id] > 0);
+  const dealerIdx = setup.playerIds.indexOf(setup.dealerPlayerId);
+  const firstBidderId = setup.firstBidderId && players.includes(setup.firstBidderId)
+    ? setup.firstBidderId
+    : setup.playerIds
+      .map((_, i) => setup.playerIds[(Math.max(0, dealerIdx) + 1 + i) % setup.playerIds.length])
+      .find(id => players.includes(id));
+  const startIdx = Math.max(0, players.indexOf(firstBidderId ?? ''));
+  const seatOrder = players.map((_, i) => players[(startIdx + i) % players.length]);
+
+  return {
+    phase: 'bidding',
+    dealerPlayerId: setup.dealerPlayerId,
+    seatOrder,
+    diceCounts: Object.fromEntries(seatOrder.map(id => [id, setup.diceCounts[id]])),
+    cups: Object.fromEntries(
+      seatOrder.map(id => [id, Array.from({ length: setup.diceCounts[id] }, () => rollDie(random))])
+    ),
+    onesWild: setup.onesWild,
+    loseDifference: setup.loseDifference,
+    currentTurnPlayerId: seatOrder[0] ?? null,
+    bids: [],
+    challenge: null,
+  };
+}
+
+/** Raise the bid and pass the turn left */
+export function placeLiarsDiceBid(state: LiarsDiceState, playerId: string, quantity: number, face: number): LiarsDiceState {
+  assertTurn(state, playerId);
+  if (!Number.isInteger(face) || face < 1 || face > 6) throw new Error('Bid on a face from 1 to 6');
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > getLiarsDiceTotal(state)) {
+    throw new Error(`Bid between 1 and ${getLiarsDiceTotal(state)} dice`);
+  }
+
+  const last = state.bids[state.bids.length - 1];
+  if (!last && state.onesWild && face === 1) throw new Error('Ones are wild - open on another face');
+  if (!isLiarsDiceRaise({ quantity, face }, last, state.onesWild)) throw new Error('Bid higher than the last bid');
+
+  const idx = state.seatOrder.indexOf(playerId);
+  return {
+    ...state,
+    bids: [...state.bids, { playerId, quantity, face }],
+    currentTurnPlayerId: state.seatOrder[(idx + 1) % state.seatOrder.length],
+  };
+}
+
+/** Call the last bid a lie; the hand settles as soon as every cup is up */
+export function callLiarsDiceBid(state: LiarsDiceState, playerId: string): LiarsDiceState {
+  assertTurn(state, playerId);
+  const bid = state.bids[state.bids.length - 1];
+  if (!bid) throw new Error('Nobody has bid yet');
+
+  return settleChallenge({
+    ...state,
+    phase: 'reveal',
+    currentTurnPlayerId: null,
+    challenge: { challengerId: playerId, bid, count: null, loserId: null, diceLost: 0 },
+  });
+}
+
+/** Put every cup into a called hand (from player_cards) and settle it */
+export function revealLiarsDiceCups(state: LiarsDiceState, cups: Record<string, number[]>): LiarsDiceState {
+  if (state.phase !== 'reveal') throw new Error('No bid has been called');
+  const revealed = Object.fromEntries(state.seatOrder.map(id => [id, cups[id] ?? []]));
+  if (state.seatOrder.some(id => revealed[id].length !== state.diceCounts[id])) {
+    throw new Error('Every cup has to come up');
+  }
+  return settleChallenge({ ...state, cups: revealed });
+}
@@ -0,0 +1,78 @@
+// Liar's Dice as a game module (see gameModule.ts)
+
+import type { GameRules } from './gameModule';
+import type { LiarsDiceState } from './liarsDiceTypes';
+import {
+  callLiarsDiceBid,
+  dealLiarsDiceHand,
+  placeLiarsDiceBid,
+  revealLiarsDiceCups,
+} from './liarsDiceGameLogic';
+import { getBotLiarsDiceDecision } from './liarsDiceBotLogic';
+
+export interface LiarsDiceConfig {
+  /** Dice in everyone's cup at the start of the game */
+  startingDice: number;
+  onesWild: boolean;
+  /** A lost call costs the difference between the bid and the count rather than one die */
+  loseDifference: boolean;
+}
+
+export type LiarsDiceAction =
+  | { type: 'bid'; playerId: string; quantity: number; face: number }
+  | { type: 'call'; playerId: string }
+  /** Every cup, from player_cards once a call opens them; `playerId` is the caller */
+  | { type: 'reveal'; playerId: string; cups: Record<string, number[]> };
+
+export const liarsDiceModule: GameRules<LiarsDiceState, LiarsDiceAction, LiarsDiceConfig> = {
+  id: 'liars-dice',
+
+  config: {
+    defaults: { startingDice: 5, onesWild: true, loseDifference: false },
+    fromGame: game => ({
+      startingDice: game.liars_dice_starting_dice ?? 5,
+      onesWild: game.liars_dice_ones_wild ?? true,
+      loseDifference: game.liars_dice_lose_difference ?? false,
+    }),
+  },
+
+  // A game starts everyone on full cups; later hands carry the dice left over
+  // (see liarsDiceRoundLogic.ts)
+  createInitialState: ({ playerIds, dealerPlayerId, config }, random) =>
+    dealLiarsDiceHand(
+      {
+        playerIds,
+        dealerPlayerId,
+        diceCounts: Object.fromEntries(playerIds.map(id => [id, config.startingDice])),
+        onesWild: config.onesWild,
+        loseDifference: config.loseDifference,
+      },
+      random
+    ),
+
+  reduce: (state, action) => {
+    switch (action.type) {
+      case 'bid':
+        return placeLiarsDiceBid(state, action.playerId, action.quantity, action.face);
+      case 'call':
+        return callLiarsDiceBid(state, action.playerId);
+      case 'reveal':
+        return revealLiarsDiceCups(state, action.cups);
+    }
+  },
+
+  getActivePlayerId: state => (state.phase === 'bidding' ? state.currentTurnPlayerId : null),
+
+  isHandOver: state => state.phase === 'complete',
+
+  // Needs the bot's cup in the state: the table puts it back from player_cards
+  botAction: (state, playerId) => {
+    if (state.phase !== 'bidding' || state.currentTurnPlayerId !== playerId) return null;
+    if (!state.cups[playerId]?.length) return null;
+
+    const decision = getBotLiarsDiceDecision(state, playerId);
+    return decision.type === 'bid'
+      ? { type: 'bid', playerId, quantity: decision.quantity, face: decision.face }
+      : { type: 'call', playerId };
+  },
+};
@@ -0,0 +1,451 @@
+// Liar's Dice round orchestration - database integration layer
+// Follows the same patterns as screwYourNeighborRoundLogic.ts:
+// - DB-First round creation with atomic guards
+// - State persistence via game_state JSONB column
+// - Atomic claim before dice and chips move at the end of a hand
+//
+// One round is one hand: everyone rolls, the table bids until someone calls, and the loser of
+// the call loses dice. The dice left carry over in the state to the next hand, and the antes
+// wait in games.pot for the last player with dice.
+//
+// rounds.game_state is public, so while the hand is bid it is stored without the cups
+// (hideLiarsDiceCups), like hold'em's hole cards: each cup goes to player_cards at the deal.
+// A call moves the round to 'showdown', which opens player_cards so the cups can come up.
+
+import {
+  fetchPlayerDisplayName,
+  getGameRepository,
+  isUniqueViolation,
+  type GameRow,
+  type PlayerRow,
+} from './gameRepository';
+import { liarsDiceModule, type LiarsDiceConfig } from './liarsDiceModule';
+import {
+  dealLiarsDiceHand,
+  getLiarsDiceCountsAfter,
+  getLiarsDiceNextBidder,
+  getLiarsDiceSurvivors,
+  hideLiarsDiceCups,
+} from './liarsDiceGameLogic';
+import { recordGameResult, snapshotPlayerChips } from './gameLogic';
+import { logDeal } from './handActionLog';
+import { drawFairDiceRandom } from './handFairness';
+import type { Json } from '@/integrations/supabase/types';
+import type { LiarsDiceState } from './liarsDiceTypes';
+
+type LiarsDiceRoundResult = {
+  success: boolean;
+  roundId?: string;
+  handNumber?: number;
+  error?: string;
+  alreadyStarted?: boolean;
+};
+
+/**
+ * Start the first Liar's Dice hand.
+ * Everyone antes into the pot and starts with a full cup; bidding starts left of the dealer.
+ */
+export async function startLiarsDiceRound(gameId: string): Promise<LiarsDiceRoundResult> {
+  console.log('[LIARS_DICE] Starting liars dice round', { gameId });
+  const repo = getGameRepository();
+
+  try {
+    const { data: game, error: gameError } = await repo.games.get(gameId);
+
+    if (gameError || !game) {
+      throw new Error(`Failed to fetch game: ${gameError?.message}`);
+    }
+
+    if (game.status === 'game_over' || game.status === 'session_ended') {
+      return { success: false, error: 'Game already over' };
+    }
+
+    const { data: players, error: playersError } = await repo.players.listByGame(gameId);
+
+    if (playersError) {
+      throw new Error(`Failed to fetch players: ${playersError.message}`);
+    }
+
+    const activePlayers = (players || [])
+      .filter(p => !p.sitting_out && p.status === 'active')
+      .sort((a, b) => a.position - b.position);
+
+    if (activePlayers.length < 2) {
+      throw new Error("Liar's Dice requires at least 2 players");
+    }
+
+    const dealerPosition = game.dealer_position || 1;
+    const dealerPlayer = activePlayers.find(p => p.position === dealerPosition) || activePlayers[0];
+    const anteAmount = game.ante_amount || 1;
+    const pot = anteAmount * activePlayers.length;
+
+    const dealerGameId = game.current_game_uuid;
+    if (!dealerGameId) {
+      throw new Error('No dealer_game_id - cannot create round');
+    }
+
+    const config = liarsDiceModule.config.fromGame(game);
+    const playerIds = activePlayers.map(p => p.id);
+    const result = await dealLiarsDiceRound(
+      game,
+      dealerGameId,
+      activePlayers,
+      dealerPlayer.id,
+      undefined,
+      Object.fromEntries(playerIds.map(id => [id, config.startingDice])),
+      config,
+      pot
+    );
+
+    // Only the client that created the round collects the antes
+    if (result.roundId) {
+      await repo.games.update(gameId, {
+        status: 'in_progress',
+        current_round: 1,
+        pot,
+      });
+
+      const { error: anteError } = await repo.players.decrementChips(playerIds, anteAmount);
+      if (anteError) {
+        console.error('[LIARS_DICE] ERROR collecting antes:', anteError);
+      } else {
+        // Record the antes in game_results to keep the accounting zero-sum
+        recordGameResult(
+          gameId,
+          result.handNumber ?? 1,
+          null,
+          'Ante',
+          `${playerIds.length} players anted $${anteAmount}`,
+          0,
+          Object.fromEntries(playerIds.map(id => [id, -anteAmount])),
+          false,
+          'liars-dice',
+          dealerGameId
+        );
+      }
+    }
+    return result;
+
+  } catch (error) {
+    console.error('[LIARS_DICE] Error starting round:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Start the next hand among the players with dice left.
+ * The loser of the last call bids first (or the player after them, once they're out).
+ */
+export async function startNextLiarsDiceHand(
+  gameId: string,
+  dealerGameId: string,
+  previousState: LiarsDiceState
+): Promise<LiarsDiceRoundResult> {
+  console.log('[LIARS_DICE] Starting next hand', { gameId, dealerGameId });
+  const repo = getGameRepository();
+
+  try {
+    const { data: game, error: gameError } = await repo.games.get(gameId);
+    if (gameError || !game) {
+      throw new Error(`Failed to fetch game: ${gameError?.message}`);
+    }
+
+    const { data: players, error: playersError } = await repo.players.listByGame(gameId);
+    if (playersError) {
+      throw new Error(`Failed to fetch players: ${playersError.message}`);
+    }
+
+    const counts = getLiarsDiceCountsAfter(previousState);
+    const alive = (players || [])
+      .filter(p => !p.sitting_out && p.status === 'active' && (counts[p.id] ?? 0) > 0)
+      .sort((a, b) => a.position - b.position);
+
+    if (alive.length < 2) {
+      return { success: false, error: 'Not enough players' };
+    }
+
+    return await dealLiarsDiceRound(
+      game,
+      dealerGameId,
+      alive,
+      previousState.dealerPlayerId,
+      getLiarsDiceNextBidder(previousState) ?? undefined,
+      counts,
+      {
+        startingDice: liarsDiceModule.config.fromGame(game).startingDice,
+        onesWild: previousState.onesWild,
+        loseDifference: previousState.loseDifference,
+      },
+      game.pot ?? 0
+    );
+
+  } catch (error) {
+    console.error('[LIARS_DICE] Error starting next hand:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/** Seat position of the player to act, for rounds.current_turn_position */
+function getTurnPosition(state: LiarsDiceState, players: Pick<PlayerRow, 'id' | 'position'>[]): number | null {
+  if (!state.currentTurnPlayerId) return null;
+  return players.find(p => p.id === state.currentTurnPlayerId)?.position ?? null;
+}
+
+/** Roll everyone's cup into a new round row */
+async function dealLiarsDiceRound(
+  game: GameRow,
+  dealerGameId: string,
+  players: PlayerRow[],
+  dealerPlayerId: string,
+  firstBidderId: string | undefined,
+  diceCounts: Record<string, number>,
+  config: LiarsDiceConfig,
+  pot: number
+): Promise<LiarsDiceRoundResult> {
+  const repo = getGameRepository();
+
+  // Calculate hand number (DB-First)
+  const { data: latestHandNumber } = await repo.rounds.getLatestHandNumber(dealerGameId);
+  const handNumber = (latestHandNumber ?? 0) + 1;
+
+  // Real-money games roll the cups from the game's committed dice stream
+  const totalDice = players.reduce((sum, p) => sum + (diceCounts[p.id] ?? 0), 0);
+  const random = await drawFairDiceRandom(game.id, Array.from({ length: totalDice }, () => ({ isHeld: false })));
+  const dealt = dealLiarsDiceHand(
+    {
+      playerIds: players.map(p => p.id),
+      dealerPlayerId,
+      firstBidderId,
+      diceCounts,
+      onesWild: config.onesWild,
+      loseDifference: config.loseDifference,
+    },
+    random
+  );
+  const stored = hideLiarsDiceCups(dealt);
+
+  const { data: round, error: roundError } = await repo.rounds.insert({
+    game_id: game.id,
+    dealer_game_id: dealerGameId,
+    round_number: 1, // One round per hand, like hold'em
+    hand_number: handNumber,
+    cards_dealt: Math.max(...Object.values(stored.diceCounts)),
+    pot,
+    status: 'betting',
+    current_turn_position: getTurnPosition(stored, players),
+    game_state: stored as unknown as Json,
+  });
+
+  if (roundError || !round) {
+    // Atomic guard: unique constraint violation means another client already created it
+    if (isUniqueViolation(roundError)) {
+      console.log('[LIARS_DICE] Round already exists (atomic guard)');
+      return { success: true, alreadyStarted: true };
+    }
+    throw new Error(`Failed to create round: ${roundError?.message}`);
+  }
+
+  const insertedHandNumber = round.hand_number ?? handNumber;
+
+  await repo.games.update(game.id, {
+    total_hands: insertedHandNumber,
+    is_first_hand: insertedHandNumber === 1,
+  });
+
+  void logDeal(round.id, { state: stored, dealtTo: stored.seatOrder });
+
+  // Cups stay private until a call
+  for (const playerId of stored.seatOrder) {
+    const { error } = await repo.playerCards.upsert({
+      player_id: playerId,
+      round_id: round.id,
+      cards: dealt.cups[playerId] as unknown as Json,
+    });
+    if (error) console.warn('[LIARS_DICE] Failed to store cup:', playerId, error.message);
+  }
+
+  console.log('[LIARS_DICE] Hand dealt', { roundId: round.id, handNumber: insertedHandNumber });
+  return { success: true, roundId: round.id, handNumber: insertedHandNumber };
+}
+
+/**
+ * Update liars dice state in the database (after each action).
+ * Cups are stripped while the hand is bid; a call opens up player_cards.
+ * `turnPosition` is the seat of the player now to bid (null once someone calls).
+ */
+export async function updateLiarsDiceState(
+  roundId: string,
+  newState: LiarsDiceState,
+  turnPosition: number | null
+): Promise<boolean> {
+  // Cups that have come up are face up for everyone
+  const stored = newState.phase === 'bidding' ? hideLiarsDiceCups(newState) : newState;
+
+  try {
+    const { error } = await getGameRepository().rounds.update(
+      roundId,
+      {
+        game_state: JSON.parse(JSON.stringify(stored)),
+        current_turn_position: turnPosition,
+        ...(stored.phase === 'reveal' ? { status: 'showdown' } : {}),
+      },
+      { neq: { status: 'completed' } }
+    );
+
+    if (error) {
+      console.error('[LIARS_DICE] Failed to update state:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('[LIARS_DICE] Error updating state:', error);
+    return false;
+  }
+}
+
+/** A player's cup this round (their own, or anyone's once a call has opened them) */
+export async function fetchLiarsDiceCup(roundId: string, playerId: string): Promise<number[]> {
+  const { data } = await getGameRepository().playerCards.get(roundId, playerId);
+  return (data?.cards as unknown as number[] | null) ?? [];
+}
+
+/**
+ * Settle a called hand: the cups go into everyone's hand history, the loser's dice come off
+ * and, once one player has dice left, they take the pot. Uses atomic claim pattern (transition
+ * status to 'completed') so only one client settles it.
+ */
+export async function recordLiarsDiceHandResult(
+  gameId: string,
+  roundId: string,
+  state: LiarsDiceState
+): Promise<boolean> {
+  const repo = getGameRepository();
+
+  if (state.phase !== 'complete' || !state.challenge?.loserId) {
+    console.warn('[LIARS_DICE] Hand not complete, nothing to record');
+    return false;
+  }
+
+  const { data: claimedRounds, error: claimError } = await repo.rounds.update(
+    roundId,
+    { status: 'completed', game_state: JSON.parse(JSON.stringify(state)), current_turn_position: null },
+    { neq: { status: 'completed' } }
+  );
+
+  if (claimError) {
+    console.error('[LIARS_DICE] Failed to claim hand result:', claimError);
+    return false;
+  }
+
+  const claimedRound = claimedRounds && claimedRounds.length > 0 ? claimedRounds[0] : null;
+  if (!claimedRound) {
+    console.log('[LIARS_DICE] Hand already settled by another client');
+    return true;
+  }
+
+  // The whole table saw the cups come up
+  const { data: players } = await repo.players.listByGame(gameId);
+  const seatedUserIds = (players || []).filter(p => state.seatOrder.includes(p.id)).map(p => p.user_id);
+  for (const playerId of state.seatOrder) {
+    const { error } = await repo.playerCards.upsert({
+      player_id: playerId,
+      round_id: roundId,
+      cards: state.cups[playerId] as unknown as Json,
+      visible_to_user_ids: seatedUserIds,
+    });
+    if (error) console.warn('[LIARS_DICE] Failed to share cup:', playerId, error.message);
+  }
+
+  const { bid, count, loserId, diceLost } = state.challenge;
+  const loserName = await fetchPlayerDisplayName(gameId, loserId);
+  let description = `${loserName} loses ${diceLost === 1 ? 'a die' : `${diceLost} dice`} (${bid.quantity} × ${bid.face}s bid, ${count} on the table)`;
+
+  // The last one with dice takes the pot
+  const survivors = getLiarsDiceSurvivors(state);
+  const { data: game } = await repo.games.get(gameId);
+  const pot = game?.pot ?? 0;
+  const winnerId = survivors.length === 1 ? survivors[0] : null;
+  const winnerUsername = winnerId ? await fetchPlayerDisplayName(gameId, winnerId) : null;
+  const chipChanges: Record<string, number> = Object.fromEntries(state.seatOrder.map(id => [id, 0]));
+
+  if (winnerId && pot > 0) {
+    const { error } = await repo.players.incrementChips(winnerId, pot);
+    if (error) console.error('[LIARS_DICE] Failed to pay the pot:', winnerId, error);
+    chipChanges[winnerId] = pot;
+    description = `${description} • ${winnerUsername} wins $${pot}`;
+  }
+
+  const { error: resultError } = await repo.gameResults.insert({
+    game_id: gameId,
+    dealer_game_id: claimedRound.dealer_game_id,
+    hand_number: claimedRound.hand_number ?? 1,
+    pot_won: winnerId ? pot : 0,
+    winner_player_id: winnerId,
+    winner_username: winnerUsername,
+    winning_hand_description: description,
+    is_chopped: false,
+    player_chip_changes: chipChanges,
+    game_type: 'liars-dice',
+  });
+  if (resultError) console.error('[LIARS_DICE] Failed to record result:', resultError);
+
+  await repo.games.update(gameId, {
+    last_round_result: description,
+    ...(winnerId ? { pot: 0 } : {}),
+  });
+
+  await snapshotPlayerChips(gameId, claimedRound.hand_number ?? 1).catch((err) => {
+    console.error('[LIARS_DICE] Failed to snapshot chips:', err);
+  });
+
+  console.log('[LIARS_DICE] Hand settled', { roundId, description });
+  return true;
+}
+
+/**
+ * End the game. Normally the last player with dice has already taken the pot; if the table ran
+ * out of players first, what's left goes back evenly to those with dice (odd chips to the first).
+ */
+export async function endLiarsDiceGame(gameId: string, state: LiarsDiceState): Promise<boolean> {
+  const repo = getGameRepository();
+
+  try {
+    const { data: game } = await repo.games.get(gameId);
+    const pot = game?.pot ?? 0;
+
+    const survivors = getLiarsDiceSurvivors(state);
+    const { data: players } = await repo.players.listByGame(gameId);
+    const alive = (players || []).filter(p => !p.sitting_out && p.status === 'active' && survivors.includes(p.id));
+    const lastResult = pot > 0
+      ? `Pot of $${pot} returned`
+      : alive.length === 1
+        ? `${await fetchPlayerDisplayName(gameId, alive[0].id)} is the last one with dice`
+        : game?.last_round_result ?? null;
+
+    // Atomic claim: only the client that ends the game hands back a leftover pot
+    const { data: claimed } = await repo.games.update(
+      gameId,
+      {
+        status: 'game_over',
+        pot: 0,
+        last_round_result: lastResult,
+        game_over_at: new Date().toISOString(),
+      },
+      { neq: { status: 'game_over' } }
+    );
+
+    if (pot > 0 && claimed && claimed.length > 0) {
+      const share = alive.length > 0 ? Math.floor(pot / alive.length) : 0;
+      for (const [i, player] of alive.entries()) {
+        const amount = share + (i === 0 ? pot - share * alive.length : 0);
+        if (amount > 0) await repo.players.incrementChips(player.id, amount);
+      }
+    }
+
+    console.log('[LIARS_DICE] Game over', { gameId, lastResult });
+    return true;
+  } catch (error) {
+    console.error('[LIARS_DICE] Error ending game:', error);
+    return false;
+  }
+}
@@ -0,0 +1,46 @@
+// Liar's Dice game types and interfaces
+
+export type LiarsDicePhase =
+  | 'bidding' // Players in turn raise the bid or call the last one a lie
+  | 'reveal' // A bid was called: waiting for the cups to come up (see liarsDiceRoundLogic.ts)
+  | 'complete'; // The cups are up and the loser has lost their dice
+
+export interface LiarsDiceBid {
+  playerId: string;
+  /** How many dice on the table (every cup) show `face` */
+  quantity: number;
+  face: number;
+}
+
+export interface LiarsDiceChallenge {
+  challengerId: string;
+  /** The bid called a lie */
+  bid: LiarsDiceBid;
+  /** Dice on the table that count toward the bid; null until the cups are up */
+  count: number | null;
+  /** The bidder when the bid was a lie, otherwise the challenger; null until the cups are up */
+  loserId: string | null;
+  diceLost: number;
+}
+
+export interface LiarsDiceState {
+  phase: LiarsDicePhase;
+  dealerPlayerId: string;
+  /** Players with dice left, in turn order: the hand's first bidder first */
+  seatOrder: string[];
+  /** Dice in each cup going into the hand */
+  diceCounts: Record<string, number>;
+  /**
+   * Everyone's cup. rounds.game_state is public, so the stored state has none while the
+   * hand is bid (hideLiarsDiceCups): each cup is in player_cards until a call reveals them.
+   */
+  cups: Record<string, number[]>;
+  /** Ones count toward any other face's bids */
+  onesWild: boolean;
+  /** A lost call costs the difference between the bid and the count (at least one) rather than one die */
+  loseDifference: boolean;
+  currentTurnPlayerId: string | null;
+  /** Every bid this hand, in order */
+  bids: LiarsDiceBid[];
+  challenge: LiarsDiceChallenge | null;
+}
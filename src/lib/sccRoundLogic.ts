@@ -4,7 +4,8 @@
  * Follows the same pattern as horsesRoundLogic.ts
  */
 
-import { supabase } from "@/integrations/supabase/client";
+import { getGameRepository } from "./gameRepository";
+import { logDeal } from "./handActionLog";
 import { getMakeItTakeItSetting } from "@/hooks/useMakeItTakeIt";
 import { recordGameResult } from "./gameLogic";
 import { logDiceEvent, logRaceConditionGuard, logDealerAnnouncement } from "./gameStateDebugLog";
@@ -24,11 +25,8 @@ export async function startSCCRound(gameId: string, isFirstHand: boolean = false
   });
 
   // Get current game state including ante_amount
-  const { data: game, error: gameError } = await supabase
-    .from('games')
-    .select('current_round, total_hands, pot, ante_amount, status, awaiting_next_round, dealer_position, current_game_uuid, is_paused')
-    .eq('id', gameId)
-    .maybeSingle();
+  const repo = getGameRepository();
+  const { data: game, error: gameError } = await repo.games.get(gameId);
 
   if (gameError || !game) {
     console.error('[SCC] Failed to get game:', gameError);
@@ -36,7 +34,7 @@ export async function startSCCRound(gameId: string, isFirstHand: boolean = false
   }
 
   // CRITICAL GUARD: Block round creation if game is paused
-  if ((game as any).is_paused) {
+  if (game.is_paused) {
     logRaceConditionGuard(gameId, 'sccRoundLogic:startSCCRound', 'BLOCKED_PAUSED', {
       currentStatus: game.status,
       isFirstHand,
@@ -73,21 +71,14 @@ export async function startSCCRound(gameId: string, isFirstHand: boolean = false
     console.log('[SCC] First hand of dealer game - starting at hand_number=1, round_number=1');
   } else {
     // Find max hand/round within THIS dealer game only (for rollovers)
-    const { data: latestRound, error: latestRoundError } = await supabase
-      .from('rounds')
-      .select('hand_number, round_number')
-      .eq('dealer_game_id', dealerGameId)
-      .order('hand_number', { ascending: false })
-      .order('round_number', { ascending: false })
-      .limit(1)
-      .maybeSingle();
+    const { data: latestHandNumber, error: latestRoundError } = await repo.rounds.getLatestHandNumber(dealerGameId);
 
     if (latestRoundError) {
       console.warn('[SCC] Failed to read latest round (continuing):', latestRoundError);
     }
 
     // For SCC, hand_number = round_number (one hand per round)
-    newHandNumber = (latestRound?.hand_number ?? 0) + 1;
+    newHandNumber = (latestHandNumber ?? 0) + 1;
     newRoundNumber = newHandNumber;
     console.log('[SCC] Rollover - next hand_number/round_number:', newHandNumber);
   }
@@ -99,9 +90,9 @@ export async function startSCCRound(gameId: string, isFirstHand: boolean = false
   // We "claim" the right to start the new hand by atomically flipping pointers on the game row.
   // This also clears any stale game_over / last_round_result so the UI doesn't show the previous winner.
   if (isFirstHand) {
-    const { data: claim, error: claimError } = await supabase
-      .from('games')
-      .update({
+    const { data: claim, error: claimError } = await repo.games.update(
+      gameId,
+      {
         status: 'in_progress',
         current_round: newRoundNumber,
         total_hands: newHandNumber,
@@ -110,10 +101,9 @@ export async function startSCCRound(gameId: string, isFirstHand: boolean = false
         last_round_result: null,
         game_over_at: null,
         is_first_hand: true,
-      })
-      .eq('id', gameId)
-      .neq('status', 'in_progress')
-      .select('id');
+      },
+      { neq: { status: 'in_progress' } }
+    );
 
     if (claimError) {
       console.warn('[SCC] Failed to claim first-hand start (continuing):', claimError);
@@ -132,9 +122,10 @@ export async function startSCCRound(gameId: string, isFirstHand: boolean = false
     });
   } else if (game.awaiting_next_round) {
     // Rollover / re-ante: multiple clients may see awaiting_next_round and try to start the next hand.
-    let q = supabase
-      .from('games')
-      .update({
+    // Only one client should succeed: require the current_round we observed.
+    const { data: claim, error: claimError } = await repo.games.update(
+      gameId,
+      {
         status: 'in_progress',
         current_round: newRoundNumber,
         total_hands: newHandNumber,
@@ -143,15 +134,9 @@ export async function startSCCRound(gameId: string, isFirstHand: boolean = false
         last_round_result: null,
         game_over_at: null,
         is_first_hand: false,
-      })
-      .eq('id', gameId)
-      .eq('awaiting_next_round', true);
-
-    // Only one client should succeed: require the current_round we observed.
-    if (typeof game.current_round === 'number') q = q.eq('current_round', game.current_round);
-    else q = q.is('current_round', null);
-
-    const { data: claim, error: claimError } = await q.select('id');
+      },
+      { eq: { awaiting_next_round: true, current_round: game.current_round } }
+    );
 
     if (claimError) {
       console.warn('[SCC] Failed to claim rollover start (continuing):', claimError);
@@ -171,13 +156,7 @@ export async function startSCCRound(gameId: string, isFirstHand: boolean = false
     });
   }
   // Check if round already exists within THIS dealer game (race condition protection)
-  const { data: existingRound } = await supabase
-    .from('rounds')
-    .select('id, pot, hand_number')
-    .eq('dealer_game_id', dealerGameId)
-    .eq('hand_number', newHandNumber)
-    .eq('round_number', newRoundNumber)
-    .maybeSingle();
+  const { data: existingRound } = await repo.rounds.findByHand(dealerGameId, newHandNumber, newRoundNumber);
 
   if (existingRound) {
     console.log('[SCC] Round already exists, just updating game status', {
@@ -192,31 +171,25 @@ export async function startSCCRound(gameId: string, isFirstHand: boolean = false
       dealerGameId,
     });
 
-    const existingHandNumber = (existingRound as any)?.hand_number as number | null;
+    const existingHandNumber = existingRound.hand_number;
 
-    await supabase
-      .from('games')
-      .update({
-        status: 'in_progress',
-        current_round: newRoundNumber,
-        total_hands: existingHandNumber ? Math.max(newHandNumber, existingHandNumber) : newHandNumber,
-        pot: (existingRound as any)?.pot ?? game.pot ?? 0,
-        all_decisions_in: false,
-        awaiting_next_round: false,
-        last_round_result: null,
-        game_over_at: null,
-        is_first_hand: isFirstHand,
-      })
-      .eq('id', gameId);
+    await repo.games.update(gameId, {
+      status: 'in_progress',
+      current_round: newRoundNumber,
+      total_hands: existingHandNumber ? Math.max(newHandNumber, existingHandNumber) : newHandNumber,
+      pot: existingRound.pot ?? game.pot ?? 0,
+      all_decisions_in: false,
+      awaiting_next_round: false,
+      last_round_result: null,
+      game_over_at: null,
+      is_first_hand: isFirstHand,
+    });
 
     return;
   }
 
   // Get active players for ante collection
-  const { data: players, error: playersError } = await supabase
-    .from('players')
-    .select('id, user_id, position, is_bot, chips, sitting_out, sit_out_next_hand')
-    .eq('game_id', gameId);
+  const { data: players, error: playersError } = await repo.players.listByGame(gameId);
 
   if (playersError) {
     console.error('[SCC] Failed to get players:', playersError);
@@ -231,25 +204,19 @@ export async function startSCCRound(gameId: string, isFirstHand: boolean = false
     if (playersToReactivate.length > 0) {
       const reactivateIds = playersToReactivate.map((p) => p.id);
       console.log('[SCC] Reactivating ALL sitting_out players for rollover:', reactivateIds);
-      await supabase
-        .from('players')
-        .update({ sitting_out: false })
-        .in('id', reactivateIds);
+      await repo.players.update(reactivateIds, { sitting_out: false });
     }
   }
 
   // Re-fetch to get updated sitting_out status
-  const { data: freshPlayers } = await supabase
-    .from('players')
-    .select('id, user_id, position, is_bot, chips, sitting_out')
-    .eq('game_id', gameId);
+  const { data: freshPlayers } = await repo.players.listByGame(gameId);
 
   const activePlayers = (freshPlayers || []).filter((p) => !p.sitting_out);
   const anteAmount = game.ante_amount || 1;
 
   // Pre-initialize horses_state (reused column) so SCC can start even if the client can't UPDATE rounds (RLS-safe).
   const sortedActive = [...activePlayers].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
-  const dealerPos = (game as any)?.dealer_position as number | null; // eslint-disable-line @typescript-eslint/no-explicit-any
+  const dealerPos = game.dealer_position;
   const dealerIdx = dealerPos ? sortedActive.findIndex((p) => p.position === dealerPos) : -1;
   
   // Check Make It Take It setting - if enabled, dealer goes first (offset 0), otherwise player after dealer (offset 1)
@@ -297,20 +264,16 @@ export async function startSCCRound(gameId: string, isFirstHand: boolean = false
 
   // STEP 1: Create the round record FIRST (before collecting antes)
   // NOTE: cards_dealt has a check constraint (2-7) - use 2 as minimum for non-card games
-  const { data: roundData, error: roundError } = await supabase
-    .from('rounds')
-    .insert({
-      game_id: gameId,
-      round_number: newRoundNumber,
-      hand_number: newHandNumber,
-      cards_dealt: 2, // SCC doesn't deal cards but constraint requires >= 2
-      status: 'betting', // Use existing status; horses_state manages gamePhase
-      pot: potForRound,
-      horses_state: initialState,
-      dealer_game_id: game.current_game_uuid || null,
-    })
-    .select()
-    .single();
+  const { data: roundData, error: roundError } = await repo.rounds.insert({
+    game_id: gameId,
+    round_number: newRoundNumber,
+    hand_number: newHandNumber,
+    cards_dealt: 2, // SCC doesn't deal cards but constraint requires >= 2
+    status: 'betting', // Use existing status; horses_state manages gamePhase
+    pot: potForRound,
+    horses_state: initialState,
+    dealer_game_id: game.current_game_uuid || null,
+  });
 
   if (roundError || !roundData) {
     console.error('[SCC] Failed to create round:', roundError);
@@ -318,6 +281,7 @@ export async function startSCCRound(gameId: string, isFirstHand: boolean = false
   }
 
   console.log('[SCC] Round created:', roundData.id, 'pot:', potForRound);
+  void logDeal(roundData.id, { state: initialState });
   
   logDiceEvent(gameId, 'DICE_ROUND_START', 'sccRoundLogic:startSCCRound:roundCreated', {
     dealerGameId,
@@ -334,22 +298,19 @@ export async function startSCCRound(gameId: string, isFirstHand: boolean = false
 
   // STEP 2: Update game status/pointers BEFORE collecting antes
   // CRITICAL: Clear stale deadlines from config/ante phases so cron doesn't enforce them mid-game
-  const { error: updateError } = await supabase
-    .from('games')
-    .update({
-      status: 'in_progress',
-      current_round: newRoundNumber,
-      total_hands: newHandNumber,
-      pot: potForRound,
-      all_decisions_in: false,
-      awaiting_next_round: false,
-      last_round_result: null,
-      game_over_at: null,
-      is_first_hand: isFirstHand,
-      config_deadline: null,
-      ante_decision_deadline: null,
-    })
-    .eq('id', gameId);
+  const { error: updateError } = await repo.games.update(gameId, {
+    status: 'in_progress',
+    current_round: newRoundNumber,
+    total_hands: newHandNumber,
+    pot: potForRound,
+    all_decisions_in: false,
+    awaiting_next_round: false,
+    last_round_result: null,
+    game_over_at: null,
+    is_first_hand: isFirstHand,
+    config_deadline: null,
+    ante_decision_deadline: null,
+  });
 
   if (updateError) {
     console.error('[SCC] Failed to update game:', updateError);
@@ -360,10 +321,7 @@ export async function startSCCRound(gameId: string, isFirstHand: boolean = false
   // STEP 3: Collect antes AFTER round is created and game pointers are set
   if (activePlayers.length > 0 && anteAmount > 0) {
     const playerIds = activePlayers.map((p) => p.id);
-    const { error: anteError } = await supabase.rpc('decrement_player_chips', {
-      player_ids: playerIds,
-      amount: anteAmount,
-    });
+    const { error: anteError } = await repo.players.decrementChips(playerIds, anteAmount);
 
     if (anteError) {
       console.error('[SCC] ERROR collecting antes:', anteError);
@@ -442,13 +400,10 @@ export async function endSCCRound(
 
   if (isTie) {
     // For ties, set awaiting_next_round which will trigger re-ante
-    const { error } = await supabase
-      .from('games')
-      .update({
-        awaiting_next_round: true,
-        last_round_result: 'One tie all tie - rollover',
-      })
-      .eq('id', gameId);
+    const { error } = await getGameRepository().games.update(gameId, {
+      awaiting_next_round: true,
+      last_round_result: 'One tie all tie - rollover',
+    });
 
     if (error) {
       console.error('[SCC] Failed to set tie state:', error);
@@ -463,14 +418,11 @@ export async function endSCCRound(
     });
   } else if (winnerId) {
     // Winner takes the pot
-    const { error } = await supabase
-      .from('games')
-      .update({
-        status: 'game_over',
-        last_round_result: winnerDescription,
-        game_over_at: new Date().toISOString(),
-      })
-      .eq('id', gameId);
+    const { error } = await getGameRepository().games.update(gameId, {
+      status: 'game_over',
+      last_round_result: winnerDescription,
+      game_over_at: new Date().toISOString(),
+    });
 
     if (error) {
       console.error('[SCC] Failed to set game over:', error);
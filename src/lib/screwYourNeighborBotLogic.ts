@@ -0,0 +1,24 @@
+// Screw Your Neighbor bot AI
+// Deterministic: the bot turns up a king, keeps a card at or above the middle rank and
+// otherwise tries to pass it on (or cuts, as the dealer). It doesn't swap into a king it has
+// already seen. It only needs its own card in the state.
+
+import { getScrewYourNeighborCardValue, getScrewYourNeighborLeftNeighbor } from './screwYourNeighborGameLogic';
+import type { ScrewYourNeighborState } from './screwYourNeighborTypes';
+
+export type ScrewYourNeighborBotDecision = { type: 'keep' } | { type: 'king' } | { type: 'swap' } | { type: 'cut' };
+
+/** Cards below a 7 are worth getting rid of */
+const KEEP_AT = 7;
+
+/** The bot's move on its turn */
+export function getBotScrewYourNeighborDecision(state: ScrewYourNeighborState, playerId: string): ScrewYourNeighborBotDecision {
+  const card = state.cards[playerId];
+  if (card.rank === 'K') return state.kingsShown.includes(playerId) ? { type: 'keep' } : { type: 'king' };
+  if (getScrewYourNeighborCardValue(card) >= KEEP_AT) return { type: 'keep' };
+  if (playerId === state.dealerPlayerId) return { type: 'cut' };
+
+  const neighborId = getScrewYourNeighborLeftNeighbor(state, playerId);
+  if (!neighborId || state.kingsShown.includes(neighborId)) return { type: 'keep' };
+  return { type: 'swap' };
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom } from '@rules/random.ts';
+import {
+  cutScrewYourNeighborDeck,
+  dealScrewYourNeighborHand,
+  getScrewYourNeighborLivesAfter,
+  getScrewYourNeighborSurvivors,
+  hideScrewYourNeighborCards,
+  keepScrewYourNeighborCard,
+  revealScrewYourNeighborCards,
+  showScrewYourNeighborKing,
+  swapScrewYourNeighborCard,
+} from './screwYourNeighborGameLogic';
+import type { ScrewYourNeighborState } from './screwYourNeighborTypes';
+import { card, THREE_HANDED } from './testHelpers';
+
+// Everyone keeps in turn, then the cards are turned up
+function keepAllAndReveal(state: ScrewYourNeighborState): ScrewYourNeighborState {
+  for (const id of state.seatOrder) state = keepScrewYourNeighborCard(state, id);
+  return revealScrewYourNeighborCards(state, state.cards);
+}
+
+// A hand mid-deal: 'a' to act, then 'b', with 'c' dealing
+function handWith(cards: Record<string, string>, lives: Record<string, number> = { a: 3, b: 3, c: 3 }): ScrewYourNeighborState {
+  return {
+    phase: 'swapping',
+    dealerPlayerId: THREE_HANDED.dealerPlayerId,
+    seatOrder: THREE_HANDED.playerIds,
+    cards: Object.fromEntries(Object.entries(cards).map(([id, code]) => [id, card(code)])),
+    lives,
+    currentTurnPlayerId: 'a',
+    kingsShown: [],
+    moves: [],
+    loserIds: [],
+  };
+}
+
+describe('Screw Your Neighbor Game Logic', () => {
+  describe('dealScrewYourNeighborHand', () => {
+    it('deals a card each and starts left of the dealer', () => {
+      const state = dealScrewYourNeighborHand(
+        { playerIds: ['a', 'b', 'c'], dealerPlayerId: 'a', lives: { a: 3, b: 2, c: 1 } },
+        createSeededRandom('deal')
+      );
+      expect(state.seatOrder).toEqual(['b', 'c', 'a']);
+      expect(Object.keys(state.cards).sort()).toEqual(['a', 'b', 'c']);
+      expect(state.lives).toEqual({ a: 3, b: 2, c: 1 });
+    });
+  });
+
+  describe('swapping', () => {
+    it('trades cards with the player on the left', () => {
+      const state = swapScrewYourNeighborCard(handWith({ a: '2♠', b: '9♦', c: '5♣' }), 'a');
+      expect(state.cards.a).toEqual(card('9♦'));
+      expect(state.cards.b).toEqual(card('2♠'));
+      expect(state.currentTurnPlayerId).toBe('b');
+    });
+
+    it('is blocked by a king, which is turned up', () => {
+      const state = swapScrewYourNeighborCard(handWith({ a: '2♠', b: 'K♦', c: '5♣' }), 'a');
+      expect(state.cards.a).toEqual(card('2♠'));
+      expect(state.kingsShown).toEqual(['b']);
+      expect(state.moves).toEqual([{ type: 'blocked', playerId: 'a', targetPlayerId: 'b' }]);
+      expect(state.currentTurnPlayerId).toBe('b');
+    });
+
+    it("makes a king's holder turn it up and keep it", () => {
+      const state = handWith({ a: 'K♠', b: '9♦', c: '5♣' });
+      expect(() => keepScrewYourNeighborCard(state, 'a')).toThrow('Turn your king up');
+      expect(() => swapScrewYourNeighborCard(state, 'a')).toThrow('Turn your king up');
+
+      const shown = showScrewYourNeighborKing(state, 'a');
+      expect(shown.kingsShown).toEqual(['a']);
+      expect(shown.moves).toEqual([{ type: 'king', playerId: 'a' }]);
+      expect(() => showScrewYourNeighborKing(shown, 'b')).toThrow('Only a king is turned up');
+    });
+
+    it('lets only the dealer cut, and only the dealer cuts', () => {
+      const state = keepScrewYourNeighborCard(keepScrewYourNeighborCard(handWith({ a: '8♠', b: '9♦', c: '2♣' }), 'a'), 'b');
+      expect(() => swapScrewYourNeighborCard(state, 'c')).toThrow('The dealer cuts the deck instead of swapping');
+      expect(() => cutScrewYourNeighborDeck(handWith({ a: '8♠', b: '9♦', c: '2♣' }), 'a')).toThrow('Only the dealer can cut the deck');
+
+      const cut = cutScrewYourNeighborDeck(state, 'c', createSeededRandom('cut'));
+      const cutCard = cut.moves[cut.moves.length - 1].card!;
+      expect(cut.cards.c).toEqual(cutCard);
+      expect([card('8♠'), card('9♦'), card('2♣')]).not.toContainEqual(cutCard);
+      expect(cut.phase).toBe('showdown');
+    });
+
+    it('rejects moves out of turn', () => {
+      expect(() => keepScrewYourNeighborCard(handWith({ a: '8♠', b: '9♦', c: '2♣' }), 'b')).toThrow('Not your turn');
+    });
+  });
+
+  describe('hidden cards', () => {
+    it('stores only the kings turned up until the reveal', () => {
+      const state = swapScrewYourNeighborCard(handWith({ a: '2♠', b: 'K♦', c: '5♣' }), 'a');
+      expect(hideScrewYourNeighborCards(state).cards).toEqual({ b: card('K♦') });
+
+      const revealed = keepAllAndReveal(handWith({ a: '8♠', b: '9♦', c: '2♣' }));
+      expect(hideScrewYourNeighborCards(revealed)).toBe(revealed);
+    });
+
+    it("swaps without the neighbor's card when the action says how it went", () => {
+      const hidden = hideScrewYourNeighborCards(handWith({ a: '2♠', b: '9♦', c: '5♣' }));
+      expect(() => swapScrewYourNeighborCard(hidden, 'a')).toThrow("The neighbor's card isn't known");
+
+      const swapped = swapScrewYourNeighborCard(hidden, 'a', null);
+      expect(swapped.cards).toEqual({});
+      expect(swapped.moves).toEqual([{ type: 'swap', playerId: 'a', targetPlayerId: 'b' }]);
+
+      const blocked = swapScrewYourNeighborCard(hidden, 'a', card('K♦'));
+      expect(blocked.cards).toEqual({ b: card('K♦') });
+      expect(blocked.kingsShown).toEqual(['b']);
+    });
+
+    it('waits in the showdown until every card is turned up', () => {
+      let state = hideScrewYourNeighborCards(handWith({ a: '8♠', b: '9♦', c: '2♣' }));
+      for (const id of state.seatOrder) state = keepScrewYourNeighborCard(state, id);
+      expect(state).toMatchObject({ phase: 'showdown', currentTurnPlayerId: null });
+      expect(() => revealScrewYourNeighborCards(state, { a: card('8♠') })).toThrow('Every card has to be turned up');
+    });
+  });
+
+  describe('the reveal', () => {
+    it('takes a life from everyone tied for the lowest card, aces low', () => {
+      const state = keepAllAndReveal(handWith({ a: 'A♠', b: 'A♦', c: '2♣' }));
+      expect(state.loserIds).toEqual(['a', 'b']);
+      expect(getScrewYourNeighborLivesAfter(state)).toEqual({ a: 2, b: 2, c: 3 });
+    });
+
+    it('spares everyone when the low card would knock out the whole table', () => {
+      const state = keepAllAndReveal(handWith({ a: '4♠', b: '4♦', c: '4♣' }, { a: 1, b: 1, c: 1 }));
+      expect(state.loserIds).toEqual([]);
+      expect(getScrewYourNeighborSurvivors(state)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('leaves the last player standing', () => {
+      const state = handWith({ a: '3♠', b: 'Q♦', c: '9♣' }, { a: 1, b: 2, c: 0 });
+      expect(getScrewYourNeighborSurvivors(keepAllAndReveal({ ...state, seatOrder: ['a', 'b'], dealerPlayerId: 'b' }))).toEqual(['b']);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+// Screw Your Neighbor core game logic
+// Pure functions for the lives game: everyone gets one card, then in turn from the dealer's
+// left keeps it or swaps it with the player on their left. A king can't be taken: its holder
+// turns it up on their turn, and a swap into it is blocked. The dealer goes last and may cut
+// the deck for a new card instead. The lowest card (aces low) loses a life; the last player
+// with lives left wins the pot.
+//
+// A freshly dealt state holds every card; the stored one doesn't (hideScrewYourNeighborCards).
+// Each move only needs the mover's own card, and a swap's outcome comes with the action when
+// the neighbor's card isn't known. The hand waits in the showdown phase until the cards are
+// turned up.
+
+import { RANK_VALUES, createDeck, type Card } from './cardUtils';
+import { shuffle, type RandomSource } from '@rules/random.ts';
+import type { ScrewYourNeighborMove, ScrewYourNeighborState } from './screwYourNeighborTypes';
+
+export interface ScrewYourNeighborSetup {
+  /** Players still alive, in seat order */
+  playerIds: string[];
+  dealerPlayerId: string;
+  lives: Record<string, number>;
+}
+
+const cardKey = (card: Card) => `${card.rank}${card.suit}`;
+
+/** A card's value for the reveal: aces are low */
+export function getScrewYourNeighborCardValue(card: Card): number {
+  return card.rank === 'A' ? 1 : RANK_VALUES[card.rank];
+}
+
+/** The player a swap trades with: next in turn order (the dealer never swaps) */
+export function getScrewYourNeighborLeftNeighbor(state: ScrewYourNeighborState, playerId: string): string | null {
+  if (playerId === state.dealerPlayerId) return null;
+  return state.seatOrder[state.seatOrder.indexOf(playerId) + 1] ?? null;
+}
+
+/** Lives each player has once the hand's losers have lost theirs */
+export function getScrewYourNeighborLivesAfter(state: ScrewYourNeighborState): Record<string, number> {
+  return Object.fromEntries(
+    state.seatOrder.map(id => [id, state.lives[id] - (state.loserIds.includes(id) ? 1 : 0)])
+  );
+}
+
+/** Players with lives left after the hand; one left means the game is over */
+export function getScrewYourNeighborSurvivors(state: ScrewYourNeighborState): string[] {
+  const livesAfter = getScrewYourNeighborLivesAfter(state);
+  return state.seatOrder.filter(id => livesAfter[id] > 0);
+}
+
+/**
+ * Turn every card up: the lowest loses a life, ties included. If that would knock out
+ * everyone still in, nobody loses one and the hand is dealt again.
+ */
+export function revealScrewYourNeighborCards(
+  state: ScrewYourNeighborState,
+  cards: Record<string, Card>
+): ScrewYourNeighborState {
+  if (state.phase !== 'showdown') throw new Error('Not everyone has moved');
+  if (state.seatOrder.some(id => !cards[id])) throw new Error('Every card has to be turned up');
+
+  const lowest = Math.min(...state.seatOrder.map(id => getScrewYourNeighborCardValue(cards[id])));
+  const loserIds = state.seatOrder.filter(id => getScrewYourNeighborCardValue(cards[id]) === lowest);
+  const knocksEveryoneOut = state.seatOrder.every(id => loserIds.includes(id) && state.lives[id] <= 1);
+
+  return {
+    ...state,
+    phase: 'complete',
+    cards: Object.fromEntries(state.seatOrder.map(id => [id, cards[id]])),
+    loserIds: knocksEveryoneOut ? [] : loserIds,
+  };
+}
+
+/** The state as stored: only the kings turned up, until the reveal */
+export function hideScrewYourNeighborCards(state: ScrewYourNeighborState): ScrewYourNeighborState {
+  if (state.phase === 'complete') return state;
+  return { ...state, cards: Object.fromEntries(state.kingsShown.map(id => [id, state.cards[id]])) };
+}
+
+/** The stored state with one player's card back (from player_cards) */
+export function withScrewYourNeighborCard(
+  state: ScrewYourNeighborState,
+  playerId: string,
+  card: Card
+): ScrewYourNeighborState {
+  return { ...state, cards: { ...state.cards, [playerId]: card } };
+}
+
+/** Start the turn of the player at `index` in turn order; past the dealer the cards wait to be turned up */
+function startTurn(state: ScrewYourNeighborState, index: number): ScrewYourNeighborState {
+  if (index >= state.seatOrder.length) return { ...state, phase: 'showdown', currentTurnPlayerId: null };
+  return { ...state, currentTurnPlayerId: state.seatOrder[index] };
+}
+
+/** Record the current player's move and pass the turn left */
+function endTurn(state: ScrewYourNeighborState, move: ScrewYourNeighborMove): ScrewYourNeighborState {
+  const next = { ...state, moves: [...state.moves, move] };
+  return startTurn(next, state.seatOrder.indexOf(move.playerId) + 1);
+}
+
+function assertTurn(state: ScrewYourNeighborState, playerId: string) {
+  if (state.phase !== 'swapping' || state.currentTurnPlayerId !== playerId) {
+    throw new Error('Not your turn');
+  }
+  if (state.cards[playerId]?.rank === 'K' && !state.kingsShown.includes(playerId)) {
+    throw new Error('Turn your king up');
+  }
+}
+
+/** Deal one card to each player; play starts left of the dealer */
+export function dealScrewYourNeighborHand(
+  setup: ScrewYourNeighborSetup,
+  random: RandomSource = Math.random
+): ScrewYourNeighborState {
+  const dealerIdx = Math.max(0, setup.playerIds.indexOf(setup.dealerPlayerId));
+  const seatOrder = setup.playerIds.map((_, i) => setup.playerIds[(dealerIdx + 1 + i) % setup.playerIds.length]);
+  const deck = shuffle(createDeck(), random);
+
+  return startTurn(
+    {
+      phase: 'swapping',
+      dealerPlayerId: setup.dealerPlayerId,
+      seatOrder,
+      cards: Object.fromEntries(seatOrder.map((id, i) => [id, deck[i]])),
+      lives: Object.fromEntries(seatOrder.map(id => [id, setup.lives[id]])),
+      currentTurnPlayerId: null,
+      kingsShown: [],
+      moves: [],
+      loserIds: [],
+    },
+    0
+  );
+}
+
+/** Keep the card */
+export function keepScrewYourNeighborCard(state: ScrewYourNeighborState, playerId: string): ScrewYourNeighborState {
+  assertTurn(state, playerId);
+  return endTurn(state, { type: 'keep', playerId });
+}
+
+/** Turn up the king held (`card`, when the state doesn't have it) and keep it */
+export function showScrewYourNeighborKing(
+  state: ScrewYourNeighborState,
+  playerId: string,
+  card?: Card
+): ScrewYourNeighborState {
+  const king = state.cards[playerId] ?? card;
+  if (king?.rank !== 'K') throw new Error('Only a king is turned up');
+  const kingsShown = state.kingsShown.includes(playerId) ? state.kingsShown : [...state.kingsShown, playerId];
+  const shown = { ...state, cards: { ...state.cards, [playerId]: king }, kingsShown };
+  assertTurn(shown, playerId);
+  return endTurn(shown, { type: 'king', playerId });
+}
+
+/**
+ * Trade cards with the player on the left, unless they turn up a king. Without the
+ * neighbor's card in the state, `blockedBy` says how it went: the king that blocked the
+ * swap, or null if the cards changed hands.
+ */
+export function swapScrewYourNeighborCard(
+  state: ScrewYourNeighborState,
+  playerId: string,
+  blockedBy?: Card | null
+): ScrewYourNeighborState {
+  assertTurn(state, playerId);
+  const targetPlayerId = getScrewYourNeighborLeftNeighbor(state, playerId);
+  if (!targetPlayerId) throw new Error('The dealer cuts the deck instead of swapping');
+
+  const mine = state.cards[playerId];
+  if (mine?.rank === 'K') throw new Error('A king is kept');
+  const theirs = state.cards[targetPlayerId];
+  const king = theirs ? (theirs.rank === 'K' ? theirs : null) : blockedBy;
+  if (king === undefined) throw new Error("The neighbor's card isn't known");
+
+  if (king) {
+    const kingsShown = state.kingsShown.includes(targetPlayerId) ? state.kingsShown : [...state.kingsShown, targetPlayerId];
+    const cards = { ...state.cards, [targetPlayerId]: king };
+    return endTurn({ ...state, cards, kingsShown }, { type: 'blocked', playerId, targetPlayerId });
+  }
+
+  const cards = { ...state.cards };
+  delete cards[playerId];
+  delete cards[targetPlayerId];
+  if (theirs) cards[playerId] = theirs;
+  if (mine) cards[targetPlayerId] = mine;
+  return endTurn({ ...state, cards }, { type: 'swap', playerId, targetPlayerId });
+}
+
+/** The dealer's alternative to keeping: trade their card for the top of the cut deck */
+export function cutScrewYourNeighborDeck(
+  state: ScrewYourNeighborState,
+  playerId: string,
+  random: RandomSource = Math.random
+): ScrewYourNeighborState {
+  assertTurn(state, playerId);
+  if (playerId !== state.dealerPlayerId) throw new Error('Only the dealer can cut the deck');
+  if (state.cards[playerId]?.rank === 'K') throw new Error('A king is kept');
+
+  // Only the cards in the state are known here: the table deals from the server's deck
+  // (runWithServerDeck), so its cut is the next card after the deal
+  const dealt = new Set(Object.values(state.cards).map(cardKey));
+  const card = shuffle(createDeck(), random).find(c => !dealt.has(cardKey(c)))!;
+  return endTurn({ ...state, cards: { ...state.cards, [playerId]: card } }, { type: 'cut', playerId, card });
+}
@@ -0,0 +1,75 @@
+// Screw Your Neighbor as a game module (see gameModule.ts)
+
+import type { GameRules } from './gameModule';
+import type { Card } from './cardUtils';
+import type { ScrewYourNeighborState } from './screwYourNeighborTypes';
+import {
+  cutScrewYourNeighborDeck,
+  dealScrewYourNeighborHand,
+  keepScrewYourNeighborCard,
+  revealScrewYourNeighborCards,
+  showScrewYourNeighborKing,
+  swapScrewYourNeighborCard,
+} from './screwYourNeighborGameLogic';
+import { getBotScrewYourNeighborDecision } from './screwYourNeighborBotLogic';
+
+export interface ScrewYourNeighborConfig {
+  /** Lives everyone starts the game with */
+  startingLives: number;
+}
+
+// The stored state has no face-down cards, so an action carries what it turned up: the king
+// shown, the king that blocked a swap (null when the cards changed hands) and, at the
+// showdown, everyone's card
+export type ScrewYourNeighborAction =
+  | { type: 'keep'; playerId: string }
+  | { type: 'king'; playerId: string; card?: Card }
+  | { type: 'swap'; playerId: string; blockedBy?: Card | null }
+  | { type: 'cut'; playerId: string }
+  | { type: 'reveal'; playerId: string; cards: Record<string, Card> };
+
+export const screwYourNeighborModule: GameRules<ScrewYourNeighborState, ScrewYourNeighborAction, ScrewYourNeighborConfig> = {
+  id: 'screw-your-neighbor',
+
+  config: {
+    defaults: { startingLives: 3 },
+    fromGame: game => ({ startingLives: game.starting_lives ?? 3 }),
+  },
+
+  // A game starts everyone on full lives; later hands carry players.lives over
+  // (see screwYourNeighborRoundLogic.ts)
+  createInitialState: ({ playerIds, dealerPlayerId, config }, random) =>
+    dealScrewYourNeighborHand(
+      { playerIds, dealerPlayerId, lives: Object.fromEntries(playerIds.map(id => [id, config.startingLives])) },
+      random
+    ),
+
+  reduce: (state, action, random) => {
+    switch (action.type) {
+      case 'keep':
+        return keepScrewYourNeighborCard(state, action.playerId);
+      case 'king':
+        return showScrewYourNeighborKing(state, action.playerId, action.card);
+      case 'swap':
+        return swapScrewYourNeighborCard(state, action.playerId, action.blockedBy);
+      case 'cut':
+        return cutScrewYourNeighborDeck(state, action.playerId, random);
+      case 'reveal':
+        return revealScrewYourNeighborCards(state, action.cards);
+    }
+  },
+
+  // The dealer turns the cards up at the showdown (any client does it at the table)
+  getActivePlayerId: state => {
+    if (state.phase === 'complete') return null;
+    return state.phase === 'showdown' ? state.dealerPlayerId : state.currentTurnPlayerId;
+  },
+
+  isHandOver: state => state.phase === 'complete',
+
+  botAction: (state, playerId) => {
+    if (state.phase === 'showdown') return { type: 'reveal', playerId, cards: state.cards };
+    if (state.phase === 'complete' || state.currentTurnPlayerId !== playerId) return null;
+    return { ...getBotScrewYourNeighborDecision(state, playerId), playerId };
+  },
+};
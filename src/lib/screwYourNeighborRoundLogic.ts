@@ -0,0 +1,474 @@
+// Screw Your Neighbor round orchestration - database integration layer
+// Follows the same patterns as holdemRoundLogic.ts:
+// - DB-First round creation with atomic guards
+// - State persistence via game_state JSONB column
+// - Atomic claim before lives and chips move at the end of a hand
+//
+// One round is one hand. Between hands the lives live in players.lives and the pot (the
+// antes) in games.pot; the last player with lives left takes it. rounds.current_turn_position
+// follows the player to act, for the table's turn spotlight.
+//
+// rounds.game_state is public, so it is stored without the face-down cards
+// (hideScrewYourNeighborCards): each card goes to player_cards at the deal, a swap trades the
+// two rows on the server, and the round's 'showdown' status opens them up for the reveal.
+// The undealt cards have nowhere private to wait for the dealer's cut, so every hand is
+// dealt from the server's deck (runWithServerDeck), play money too.
+
+import {
+  fetchPlayerDisplayName,
+  getGameRepository,
+  isUniqueViolation,
+  type GameRow,
+  type PlayerRow,
+} from './gameRepository';
+import { screwYourNeighborModule } from './screwYourNeighborModule';
+import {
+  dealScrewYourNeighborHand,
+  getScrewYourNeighborLivesAfter,
+  getScrewYourNeighborSurvivors,
+  hideScrewYourNeighborCards,
+} from './screwYourNeighborGameLogic';
+import { recordGameResult, snapshotPlayerChips } from './gameLogic';
+import { logDeal } from './handActionLog';
+import { runWithServerDeck } from './handFairness';
+import type { Json } from '@/integrations/supabase/types';
+import type { Card } from './cardUtils';
+import type { ScrewYourNeighborState } from './screwYourNeighborTypes';
+
+type ScrewYourNeighborRoundResult = {
+  success: boolean;
+  roundId?: string;
+  handNumber?: number;
+  error?: string;
+  alreadyStarted?: boolean;
+};
+
+/**
+ * Start the first Screw Your Neighbor hand.
+ * Everyone antes into the pot and starts on full lives; play starts left of the dealer.
+ */
+export async function startScrewYourNeighborRound(gameId: string): Promise<ScrewYourNeighborRoundResult> {
+  console.log('[SYN] Starting screw your neighbor round', { gameId });
+  const repo = getGameRepository();
+
+  try {
+    const { data: game, error: gameError } = await repo.games.get(gameId);
+
+    if (gameError || !game) {
+      throw new Error(`Failed to fetch game: ${gameError?.message}`);
+    }
+
+    if (game.status === 'game_over' || game.status === 'session_ended') {
+      return { success: false, error: 'Game already over' };
+    }
+
+    const { data: players, error: playersError } = await repo.players.listByGame(gameId);
+
+    if (playersError) {
+      throw new Error(`Failed to fetch players: ${playersError.message}`);
+    }
+
+    const activePlayers = (players || [])
+      .filter(p => !p.sitting_out && p.status === 'active')
+      .sort((a, b) => a.position - b.position);
+
+    if (activePlayers.length < 2) {
+      throw new Error('Screw Your Neighbor requires at least 2 players');
+    }
+
+    const dealerPosition = game.dealer_position || 1;
+    const dealerPlayer = activePlayers.find(p => p.position === dealerPosition) || activePlayers[0];
+    const anteAmount = game.ante_amount || 1;
+    const pot = anteAmount * activePlayers.length;
+
+    const dealerGameId = game.current_game_uuid;
+    if (!dealerGameId) {
+      throw new Error('No dealer_game_id - cannot create round');
+    }
+
+    const { startingLives } = screwYourNeighborModule.config.fromGame(game);
+    const playerIds = activePlayers.map(p => p.id);
+    const result = await dealScrewYourNeighborRound(
+      game,
+      dealerGameId,
+      activePlayers,
+      dealerPlayer.id,
+      Object.fromEntries(playerIds.map(id => [id, startingLives])),
+      pot
+    );
+
+    // Only the client that created the round hands out lives and collects the antes
+    if (result.roundId) {
+      await repo.players.update(playerIds, { lives: startingLives });
+      await repo.games.update(gameId, {
+        status: 'in_progress',
+        current_round: 1,
+        pot,
+      });
+
+      const { error: anteError } = await repo.players.decrementChips(playerIds, anteAmount);
+      if (anteError) {
+        console.error('[SYN] ERROR collecting antes:', anteError);
+      } else {
+        // Record the antes in game_results to keep the accounting zero-sum
+        recordGameResult(
+          gameId,
+          result.handNumber ?? 1,
+          null,
+          'Ante',
+          `${playerIds.length} players anted $${anteAmount}`,
+          0,
+          Object.fromEntries(playerIds.map(id => [id, -anteAmount])),
+          false,
+          'screw-your-neighbor',
+          dealerGameId
+        );
+      }
+    }
+    return result;
+
+  } catch (error) {
+    console.error('[SYN] Error starting round:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Start the next hand among the players with lives left.
+ * The deal moves left to the next of them.
+ */
+export async function startNextScrewYourNeighborHand(
+  gameId: string,
+  dealerGameId: string,
+  previousState: ScrewYourNeighborState
+): Promise<ScrewYourNeighborRoundResult> {
+  console.log('[SYN] Starting next hand', { gameId, dealerGameId });
+  const repo = getGameRepository();
+
+  try {
+    const { data: game, error: gameError } = await repo.games.get(gameId);
+    if (gameError || !game) {
+      throw new Error(`Failed to fetch game: ${gameError?.message}`);
+    }
+
+    const { data: players, error: playersError } = await repo.players.listByGame(gameId);
+    if (playersError) {
+      throw new Error(`Failed to fetch players: ${playersError.message}`);
+    }
+
+    const alive = (players || [])
+      .filter(p => !p.sitting_out && p.status === 'active' && p.lives > 0)
+      .sort((a, b) => a.position - b.position);
+
+    if (alive.length < 2) {
+      return { success: false, error: 'Not enough players' };
+    }
+
+    const lastDealer = (players || []).find(p => p.id === previousState.dealerPlayerId);
+    const lastDealerPosition = lastDealer?.position ?? 0;
+    const nextDealer = alive.find(p => p.position > lastDealerPosition) || alive[0];
+
+    return await dealScrewYourNeighborRound(
+      game,
+      dealerGameId,
+      alive,
+      nextDealer.id,
+      Object.fromEntries(alive.map(p => [p.id, p.lives])),
+      game.pot ?? 0
+    );
+
+  } catch (error) {
+    console.error('[SYN] Error starting next hand:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/** Seat position of the player to act, for rounds.current_turn_position */
+function getTurnPosition(state: ScrewYourNeighborState, players: Pick<PlayerRow, 'id' | 'position'>[]): number | null {
+  if (!state.currentTurnPlayerId) return null;
+  return players.find(p => p.id === state.currentTurnPlayerId)?.position ?? null;
+}
+
+/**
+ * Deal a hand (a card each) into a new round row. The round is created first, empty, so
+ * only the client that wins the insert draws the hand's cards.
+ */
+async function dealScrewYourNeighborRound(
+  game: GameRow,
+  dealerGameId: string,
+  players: PlayerRow[],
+  dealerPlayerId: string,
+  lives: Record<string, number>,
+  pot: number
+): Promise<ScrewYourNeighborRoundResult> {
+  const repo = getGameRepository();
+
+  // Calculate hand number (DB-First)
+  const { data: latestHandNumber } = await repo.rounds.getLatestHandNumber(dealerGameId);
+  const handNumber = (latestHandNumber ?? 0) + 1;
+
+  const { data: round, error: roundError } = await repo.rounds.insert({
+    game_id: game.id,
+    dealer_game_id: dealerGameId,
+    round_number: 1, // One round per hand, like hold'em
+    hand_number: handNumber,
+    cards_dealt: 1,
+    pot,
+    status: 'betting',
+  });
+
+  if (roundError || !round) {
+    // Atomic guard: unique constraint violation means another client already created it
+    if (isUniqueViolation(roundError)) {
+      console.log('[SYN] Round already exists (atomic guard)');
+      return { success: true, alreadyStarted: true };
+    }
+    throw new Error(`Failed to create round: ${roundError?.message}`);
+  }
+
+  const dealt = await runWithServerDeck(
+    game.id,
+    52,
+    random => dealScrewYourNeighborHand({ playerIds: players.map(p => p.id), dealerPlayerId, lives }, random),
+    hand => hand.seatOrder.length
+  );
+  const stored = hideScrewYourNeighborCards(dealt);
+
+  // The cards land before the state does, so a table that sees the hand can load its card
+  for (const playerId of dealt.seatOrder) {
+    const { error } = await repo.playerCards.upsert({
+      player_id: playerId,
+      round_id: round.id,
+      cards: [dealt.cards[playerId]] as unknown as Json,
+    });
+    if (error) console.error('[SYN] Failed to store card:', playerId, error.message);
+  }
+
+  const { error: stateError } = await repo.rounds.update(round.id, {
+    game_state: stored as unknown as Json,
+    current_turn_position: getTurnPosition(stored, players),
+  });
+  if (stateError) {
+    throw new Error(`Failed to store the deal: ${stateError.message}`);
+  }
+
+  const insertedHandNumber = round.hand_number ?? handNumber;
+
+  await repo.games.update(game.id, {
+    total_hands: insertedHandNumber,
+    is_first_hand: insertedHandNumber === 1,
+  });
+
+  void logDeal(round.id, { state: stored, dealtTo: stored.seatOrder, cardsDealt: 1 });
+
+  console.log('[SYN] Hand dealt', { roundId: round.id, handNumber: insertedHandNumber });
+  return { success: true, roundId: round.id, handNumber: insertedHandNumber };
+}
+
+/**
+ * Update screw your neighbor state in the database (after each action).
+ * `turnPosition` is the seat of the player now to act (null once everyone has moved).
+ * Face-down cards are stripped; reaching the showdown opens up player_cards.
+ */
+export async function updateScrewYourNeighborState(
+  roundId: string,
+  newState: ScrewYourNeighborState,
+  turnPosition: number | null
+): Promise<boolean> {
+  const stored = hideScrewYourNeighborCards(newState);
+
+  try {
+    const { error } = await getGameRepository().rounds.update(
+      roundId,
+      {
+        game_state: JSON.parse(JSON.stringify(stored)),
+        current_turn_position: turnPosition,
+        ...(stored.phase === 'showdown' ? { status: 'showdown' } : {}),
+      },
+      { neq: { status: 'completed' } }
+    );
+
+    if (error) {
+      console.error('[SYN] Failed to update state:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('[SYN] Error updating state:', error);
+    return false;
+  }
+}
+
+/** A player's card this round (their own, or anyone's once the round shows down) */
+export async function fetchScrewYourNeighborCard(roundId: string, playerId: string): Promise<Card | null> {
+  const { data } = await getGameRepository().playerCards.get(roundId, playerId);
+  return (data?.cards as unknown as Card[] | null)?.[0] ?? null;
+}
+
+/** Replace the dealer's card in player_cards with the one they cut */
+export async function storeScrewYourNeighborCard(roundId: string, playerId: string, card: Card): Promise<boolean> {
+  const { error } = await getGameRepository().playerCards.upsert({
+    player_id: playerId,
+    round_id: roundId,
+    cards: [card] as unknown as Json,
+  });
+  if (error) {
+    console.error('[SYN] Failed to store card:', playerId, error.message);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Swap the card of the player to act with their neighbor's. The server makes the move and
+ * stores the state; this resolves to it, with the king that blocked the swap (or null) and
+ * the swapping player's card now.
+ */
+export async function swapScrewYourNeighborCards(
+  roundId: string
+): Promise<{ state: ScrewYourNeighborState; blockedBy: Card | null; card: Card }> {
+  const { data, error } = await getGameRepository().playerCards.swapScrewYourNeighborCards(roundId);
+  if (error || !data) {
+    throw new Error(error?.message ?? 'Swap failed');
+  }
+  return {
+    state: data.state as unknown as ScrewYourNeighborState,
+    blockedBy: data.blockedBy as unknown as Card | null,
+    card: data.card as unknown as Card,
+  };
+}
+
+/**
+ * Settle a completed hand: take a life from each loser and, once one player is left, give
+ * them the pot. Uses atomic claim pattern (transition status to 'completed') so only one
+ * client settles it.
+ */
+export async function recordScrewYourNeighborHandResult(
+  gameId: string,
+  roundId: string,
+  state: ScrewYourNeighborState
+): Promise<boolean> {
+  const repo = getGameRepository();
+
+  if (state.phase !== 'complete') {
+    console.warn('[SYN] Hand not complete, nothing to record');
+    return false;
+  }
+
+  const { data: claimedRounds, error: claimError } = await repo.rounds.update(
+    roundId,
+    { status: 'completed', game_state: JSON.parse(JSON.stringify(state)), current_turn_position: null },
+    { neq: { status: 'completed' } }
+  );
+
+  if (claimError) {
+    console.error('[SYN] Failed to claim hand result:', claimError);
+    return false;
+  }
+
+  const claimedRound = claimedRounds && claimedRounds.length > 0 ? claimedRounds[0] : null;
+  if (!claimedRound) {
+    console.log('[SYN] Hand already settled by another client');
+    return true;
+  }
+
+  const livesAfter = getScrewYourNeighborLivesAfter(state);
+  for (const loserId of state.loserIds) {
+    const { error } = await repo.players.update([loserId], { lives: livesAfter[loserId] });
+    if (error) console.error('[SYN] Failed to take a life:', loserId, error);
+  }
+
+  const loserNames = await Promise.all(state.loserIds.map(id => fetchPlayerDisplayName(gameId, id)));
+  const lowCard = state.loserIds.length > 0 ? state.cards[state.loserIds[0]] : null;
+  let description = loserNames.length === 0
+    ? 'Everyone tied for low • No lives lost'
+    : `${loserNames.join(' & ')} lost a life (${lowCard?.rank}${lowCard?.suit})`;
+
+  // The last one standing takes the pot
+  const survivors = getScrewYourNeighborSurvivors(state);
+  const { data: game } = await repo.games.get(gameId);
+  const pot = game?.pot ?? 0;
+  const winnerId = survivors.length === 1 ? survivors[0] : null;
+  const winnerUsername = winnerId ? await fetchPlayerDisplayName(gameId, winnerId) : null;
+  const chipChanges: Record<string, number> = Object.fromEntries(state.seatOrder.map(id => [id, 0]));
+
+  if (winnerId && pot > 0) {
+    const { error } = await repo.players.incrementChips(winnerId, pot);
+    if (error) console.error('[SYN] Failed to pay the pot:', winnerId, error);
+    chipChanges[winnerId] = pot;
+    description = `${description} • ${winnerUsername} wins $${pot}`;
+  }
+
+  const { error: resultError } = await repo.gameResults.insert({
+    game_id: gameId,
+    dealer_game_id: claimedRound.dealer_game_id,
+    hand_number: claimedRound.hand_number ?? 1,
+    pot_won: winnerId ? pot : 0,
+    winner_player_id: winnerId,
+    winner_username: winnerUsername,
+    winning_hand_description: description,
+    is_chopped: false,
+    player_chip_changes: chipChanges,
+    game_type: 'screw-your-neighbor',
+  });
+  if (resultError) console.error('[SYN] Failed to record result:', resultError);
+
+  await repo.games.update(gameId, {
+    last_round_result: description,
+    ...(winnerId ? { pot: 0 } : {}),
+  });
+
+  await snapshotPlayerChips(gameId, claimedRound.hand_number ?? 1).catch((err) => {
+    console.error('[SYN] Failed to snapshot chips:', err);
+  });
+
+  console.log('[SYN] Hand settled', { roundId, description, livesAfter });
+  return true;
+}
+
+/**
+ * End the game. Normally the last player standing has already taken the pot; if the table ran
+ * out of players first, what's left goes back evenly to those still alive (odd chips to the first).
+ */
+export async function endScrewYourNeighborGame(gameId: string): Promise<boolean> {
+  const repo = getGameRepository();
+
+  try {
+    const { data: game } = await repo.games.get(gameId);
+    const pot = game?.pot ?? 0;
+
+    const { data: players } = await repo.players.listByGame(gameId);
+    const alive = (players || []).filter(p => !p.sitting_out && p.status === 'active' && p.lives > 0);
+    const lastResult = pot > 0
+      ? `Pot of $${pot} returned`
+      : alive.length === 1
+        ? `${await fetchPlayerDisplayName(gameId, alive[0].id)} is the last one standing`
+        : game?.last_round_result ?? null;
+
+    // Atomic claim: only the client that ends the game hands back a leftover pot
+    const { data: claimed } = await repo.games.update(
+      gameId,
+      {
+        status: 'game_over',
+        pot: 0,
+        last_round_result: lastResult,
+        game_over_at: new Date().toISOString(),
+      },
+      { neq: { status: 'game_over' } }
+    );
+
+    if (pot > 0 && claimed && claimed.length > 0) {
+      const share = alive.length > 0 ? Math.floor(pot / alive.length) : 0;
+      for (const [i, player] of alive.entries()) {
+        const amount = share + (i === 0 ? pot - share * alive.length : 0);
+        if (amount > 0) await repo.players.incrementChips(player.id, amount);
+      }
+    }
+
+    console.log('[SYN] Game over', { gameId, lastResult });
+    return true;
+  } catch (error) {
+    console.error('[SYN] Error ending game:', error);
+    return false;
+  }
+}
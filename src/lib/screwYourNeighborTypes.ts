@@ -0,0 +1,48 @@
+// Screw Your Neighbor game types and interfaces
+// Cards use the poker Card from cardUtils ('♠','♥','♦','♣' suits)
+
+import type { Card } from './cardUtils';
+
+export type ScrewYourNeighborPhase =
+  | 'swapping' // Players in turn keep their card or swap it left; the dealer keeps or cuts
+  | 'showdown' // Everyone has moved; the cards are waiting to be turned up
+  | 'complete'; // Every card is up and the lowest has lost a life
+
+export type ScrewYourNeighborMoveType =
+  | 'keep' // Kept the card
+  | 'swap' // Traded cards with the player on the left
+  | 'blocked' // Tried to swap, but the player on the left showed a king
+  | 'king' // Held a king: turned it up and kept it (a king can't be kept face down or passed on)
+  | 'cut'; // The dealer traded their card for one cut from the deck
+
+export interface ScrewYourNeighborMove {
+  type: ScrewYourNeighborMoveType;
+  playerId: string;
+  /** The player swapped with (or who blocked the swap) */
+  targetPlayerId?: string;
+  /** The card the dealer cut */
+  card?: Card;
+}
+
+export interface ScrewYourNeighborState {
+  phase: ScrewYourNeighborPhase;
+  dealerPlayerId: string;
+  /** Players still alive, in turn order: left of the dealer round to the dealer */
+  seatOrder: string[];
+  /**
+   * The cards known to whoever holds this state. A freshly dealt state has everyone's; the
+   * stored one only the kings turned up until the reveal (hideScrewYourNeighborCards). Each
+   * card waits in player_cards, a swap trades the two rows on the server
+   * (swap_screw_your_neighbor_cards), and the showdown opens them up for the reveal.
+   */
+  cards: Record<string, Card>;
+  /** Lives going into the hand (players.lives) */
+  lives: Record<string, number>;
+  currentTurnPlayerId: string | null;
+  /** Players whose king is face up */
+  kingsShown: string[];
+  /** Every move this hand, in order */
+  moves: ScrewYourNeighborMove[];
+  /** Who held the lowest card and lost a life; empty until the reveal, or when it would knock everyone out */
+  loserIds: string[];
+}
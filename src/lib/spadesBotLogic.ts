@@ -0,0 +1,133 @@
+// Spades bot AI
+// Deterministic and rule-based: bids by counting sure tricks (aces, guarded kings, high spades
+// and spade length), goes nil on a hand with no honors and no high spades, then plays to its
+// side's bid. It ducks when the bid is made or its partner has the trick, takes a trick as
+// cheaply as it can when the bid still needs it, and always ducks while on a nil (and covers a
+// partner's).
+
+import { RANK_VALUES, type Card } from './cardUtils';
+import { getWinningPlay, type Trick } from './trickTaking';
+import {
+  SPADES_TRICK_RULES,
+  getSpadesLegalPlays,
+  getSpadesPartner,
+  getSpadesTeam,
+  getSpadesTricksWon,
+  isSpadesNilBid,
+} from './spadesGameLogic';
+import type { SpadesBid, SpadesState } from './spadesTypes';
+
+/** Tricks a hand should take, spades trump */
+export function estimateSpadesTricks(hand: Card[]): number {
+  const bySuit = (suit: Card['suit']) => hand.filter(c => c.suit === suit).map(c => RANK_VALUES[c.rank]);
+  const spades = bySuit('♠');
+  let tricks = 0;
+
+  for (const suit of ['♥', '♦', '♣'] as const) {
+    const ranks = bySuit(suit);
+    if (ranks.includes(14)) tricks += 1;
+    // A king with a card to guard it, before the suit runs out round the table
+    if (ranks.includes(13) && ranks.length >= 2 && ranks.length <= 5) tricks += 0.75;
+    // Short suits trump in once the spades outlast them
+    if (spades.length >= 3 && ranks.length <= 1) tricks += ranks.length === 0 ? 1 : 0.5;
+  }
+
+  tricks += spades.filter(rank => rank >= 13).length;
+  if (spades.includes(12) && spades.length >= 3) tricks += 0.5;
+  tricks += Math.max(0, spades.length - 4);
+
+  return tricks;
+}
+
+/** The bot's bid looking at its hand */
+export function getBotSpadesBid(state: SpadesState, playerId: string): SpadesBid {
+  const hand = state.hands[playerId] ?? [];
+  const partnerBid = state.bids[getSpadesPartner(state, playerId)];
+  const estimate = estimateSpadesTricks(hand);
+
+  // Nothing that takes a trick on its own: no honors, no spade above the nine, few spades
+  const spades = hand.filter(c => c.suit === '♠');
+  const isNilHand = !isSpadesNilBid(partnerBid)
+    && estimate < 1
+    && spades.length <= 3
+    && spades.every(c => RANK_VALUES[c.rank] <= 9)
+    && hand.every(c => RANK_VALUES[c.rank] <= 12);
+  if (isNilHand) return 'nil';
+
+  return Math.min(13, Math.max(1, Math.round(estimate)));
+}
+
+function wouldWin(trick: Trick | null, playerId: string, card: Card): boolean {
+  if (!trick) return true;
+  const next: Trick = { ...trick, plays: [...trick.plays, { playerId, card }] };
+  return getWinningPlay(next, SPADES_TRICK_RULES)?.playerId === playerId;
+}
+
+/** Cheapest first: off-suit before spades, then by rank */
+function byCost(a: Card, b: Card): number {
+  const trumpA = a.suit === '♠' ? 1 : 0;
+  const trumpB = b.suit === '♠' ? 1 : 0;
+  return trumpA - trumpB || RANK_VALUES[a.rank] - RANK_VALUES[b.rank];
+}
+
+/** The bot's card; needs its hand in the state */
+export function getBotSpadesPlay(state: SpadesState, playerId: string): Card | null {
+  const legal = [...getSpadesLegalPlays(state, playerId)].sort(byCost);
+  if (legal.length === 0) return null;
+
+  const trick = state.currentTrick;
+  const partnerId = getSpadesPartner(state, playerId);
+  const tricksWon = getSpadesTricksWon(state);
+  const winners = legal.filter(card => wouldWin(trick, playerId, card));
+  const losers = legal.filter(card => !wouldWin(trick, playerId, card));
+  const highest = (cards: Card[]) => cards[cards.length - 1];
+  // The highest off-suit card, keeping spades back; the lowest spade when there's nothing else
+  const shed = (cards: Card[]) => {
+    const offSuit = cards.filter(c => c.suit !== '♠');
+    return offSuit.length > 0 ? highest(offSuit) : cards[0];
+  };
+
+  // On a nil still standing: dump the highest card that loses, or lead low
+  if (isSpadesNilBid(state.bids[playerId]) && tricksWon[playerId] === 0) {
+    if (!trick) return legal[0];
+    return losers.length > 0 ? shed(losers) : highest(legal);
+  }
+
+  // Covering a partner's nil: take the trick while they could still be caught
+  if (isSpadesNilBid(state.bids[partnerId]) && tricksWon[partnerId] === 0) {
+    if (!trick) return highest(legal);
+    return winners.length > 0 ? highest(winners) : legal[0];
+  }
+
+  const team = getSpadesTeam(state, playerId);
+  const teamBid = state.seats
+    .filter(id => getSpadesTeam(state, id) === team && !isSpadesNilBid(state.bids[id]))
+    .reduce((sum, id) => sum + (state.bids[id] as number), 0);
+  const teamTricks = state.seats
+    .filter(id => getSpadesTeam(state, id) === team)
+    .reduce((sum, id) => sum + tricksWon[id], 0);
+  const needsTricks = teamTricks < teamBid;
+
+  if (!trick) {
+    // Cash an off-suit ace, otherwise lead low from the longest off suit
+    const ace = legal.find(c => c.rank === 'A' && c.suit !== '♠');
+    if (ace && needsTricks) return ace;
+    const offSuit = legal.filter(c => c.suit !== '♠');
+    if (offSuit.length === 0) return needsTricks ? highest(legal) : legal[0];
+    const longest = offSuit.reduce((best, card) =>
+      offSuit.filter(c => c.suit === card.suit).length > offSuit.filter(c => c.suit === best.suit).length ? card : best
+    );
+    return offSuit.find(c => c.suit === longest.suit)!;
+  }
+
+  const partnerHasIt = getWinningPlay(trick, SPADES_TRICK_RULES)?.playerId === partnerId;
+  if (needsTricks && !partnerHasIt && winners.length > 0) {
+    // Last to play only has to scrape in; earlier, follow with the top card so it holds
+    const isLast = trick.plays.length === state.seats.length - 1;
+    const following = winners.filter(c => c.suit === trick.plays[0].card.suit);
+    return isLast || following.length === 0 ? winners[0] : highest(following);
+  }
+
+  // Bid made or partner winning: duck, shedding the highest card that still loses
+  return losers.length > 0 ? shed(losers) : legal[0];
+}
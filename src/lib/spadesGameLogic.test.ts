@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom } from '@rules/random.ts';
+import type { Card } from './cardUtils';
+import { addTrickPlay, getLegalPlays, getWinningPlay } from './trickTaking';
+import {
+  SPADES_TRICK_RULES,
+  dealSpadesHand,
+  getSpadesWinningTeam,
+  hideSpadesHands,
+  placeSpadesBid,
+  playSpadesCard,
+  scoreSpadesHand,
+  withSpadesHand,
+} from './spadesGameLogic';
+import type { SpadesBid, SpadesState } from './spadesTypes';
+import { card, partnershipHand, SEATS, tricksTaken } from './testHelpers';
+
+// A hand in play with 'a' and 'c' partnered against 'b' and 'd'; 'd' dealt, so 'a' leads
+function handWith(hands: Record<string, Card[]>, options: Partial<SpadesState> = {}): SpadesState {
+  return {
+    ...partnershipHand(hands),
+    phase: 'playing',
+    bids: { a: 3, b: 3, c: 3, d: 3 },
+    spadesBroken: false,
+    teamBags: [0, 0],
+    targetScore: 500,
+    blindNil: true,
+    ...options,
+  };
+}
+
+function scored(bids: Record<string, SpadesBid>, wins: Record<string, number>, options: Partial<SpadesState> = {}) {
+  return scoreSpadesHand(handWith({}, { bids, tricks: tricksTaken(wins), ...options })).result!;
+}
+
+describe('Spades Game Logic', () => {
+  describe('trick-taking core', () => {
+    it('makes a player follow the suit led when they can', () => {
+      const hand = [card('2♥'), card('K♠'), card('9♣')];
+      const trick = { leaderId: 'b', plays: [{ playerId: 'b', card: card('5♥') }], winnerId: null };
+      expect(getLegalPlays(hand, trick, SPADES_TRICK_RULES)).toEqual([card('2♥')]);
+      expect(getLegalPlays(hand.slice(1), trick, SPADES_TRICK_RULES)).toHaveLength(2);
+    });
+
+    it('gives the trick to the highest trump, else the highest of the suit led', () => {
+      let trick = addTrickPlay(null, { playerId: 'a', card: card('Q♥') }, 4, SPADES_TRICK_RULES);
+      trick = addTrickPlay(trick, { playerId: 'b', card: card('A♦') }, 4, SPADES_TRICK_RULES);
+      trick = addTrickPlay(trick, { playerId: 'c', card: card('K♥') }, 4, SPADES_TRICK_RULES);
+      expect(getWinningPlay(trick, SPADES_TRICK_RULES)?.playerId).toBe('c');
+      trick = addTrickPlay(trick, { playerId: 'd', card: card('2♠') }, 4, SPADES_TRICK_RULES);
+      expect(trick.winnerId).toBe('d');
+    });
+  });
+
+  describe('dealSpadesHand', () => {
+    it('deals thirteen each and starts the bidding left of the dealer', () => {
+      const state = dealSpadesHand(
+        { seats: SEATS, dealerPlayerId: 'b', targetScore: 500, blindNil: true },
+        createSeededRandom('deal')
+      );
+      expect(SEATS.map(id => state.hands[id].length)).toEqual([13, 13, 13, 13]);
+      expect(state.currentTurnPlayerId).toBe('c');
+      expect(() => dealSpadesHand({ seats: ['a', 'b', 'c'], dealerPlayerId: 'a', targetScore: 500, blindNil: true }))
+        .toThrow('Spades needs exactly 4 players');
+    });
+  });
+
+  describe('placeSpadesBid', () => {
+    const bidding = (options: Partial<SpadesState> = {}) =>
+      handWith({}, { phase: 'bidding', bids: {}, ...options });
+
+    it('takes bids in turn and starts play left of the dealer after the fourth', () => {
+      let state = bidding();
+      expect(() => placeSpadesBid(state, 'b', 3)).toThrow('Not your turn');
+      expect(() => placeSpadesBid(state, 'a', 0)).toThrow('Bid nil or 1 to 13 tricks');
+      state = placeSpadesBid(state, 'a', 4);
+      state = placeSpadesBid(state, 'b', 'nil');
+      state = placeSpadesBid(state, 'c', 2);
+      state = placeSpadesBid(state, 'd', 5);
+      expect(state.phase).toBe('playing');
+      expect(state.currentTurnPlayerId).toBe('a');
+    });
+
+    it('only opens blind nil to a side 100 or more behind', () => {
+      expect(() => placeSpadesBid(bidding({ teamScores: [0, 90] }), 'a', 'blind_nil'))
+        .toThrow('Blind nil is only open to a side 100 or more behind');
+      expect(placeSpadesBid(bidding({ teamScores: [0, 100] }), 'a', 'blind_nil').bids.a).toBe('blind_nil');
+      expect(() => placeSpadesBid(bidding({ teamScores: [0, 200], blindNil: false }), 'a', 'blind_nil')).toThrow();
+    });
+  });
+
+  describe('playSpadesCard', () => {
+    it("won't lead spades until they're broken, unless that's all the leader holds", () => {
+      const state = handWith({ a: [card('A♠'), card('3♥')] });
+      expect(() => playSpadesCard(state, 'a', card('A♠'))).toThrow("Spades haven't been broken");
+      expect(() => playSpadesCard(state, 'a', card('4♥'))).toThrow("That card isn't in your hand");
+      expect(playSpadesCard(handWith({ a: [card('A♠')] }), 'a', card('A♠')).spadesBroken).toBe(true);
+    });
+
+    it('hands the lead to whoever takes the trick', () => {
+      let state = handWith({
+        a: [card('4♦')],
+        b: [card('9♦')],
+        c: [card('2♠'), card('K♦')],
+        d: [card('A♦')],
+      });
+      state = playSpadesCard(state, 'a', card('4♦'));
+      state = playSpadesCard(state, 'b', card('9♦'));
+      expect(() => playSpadesCard(state, 'c', card('2♠'))).toThrow('Follow suit');
+      state = playSpadesCard(state, 'c', card('K♦'));
+      state = playSpadesCard(state, 'd', card('A♦'));
+      expect(state.tricks).toHaveLength(1);
+      expect(state.currentTrick).toBeNull();
+      expect(state.currentTurnPlayerId).toBe('d');
+    });
+  });
+
+  describe('scoreSpadesHand', () => {
+    it('scores ten a trick bid plus bags, or loses ten a trick when set', () => {
+      const result = scored({ a: 3, b: 4, c: 2, d: 3 }, { a: 4, b: 3, c: 2, d: 4 });
+      expect(result.teams[0]).toMatchObject({ bid: 5, tricks: 6, contractPoints: 51, bags: 1, score: 51 });
+      expect(result.teams[1]).toMatchObject({ bid: 7, tricks: 7, contractPoints: 70, bags: 0, score: 70 });
+
+      const set = scored({ a: 3, b: 4, c: 5, d: 4 }, { a: 3, b: 5, c: 2, d: 3 });
+      expect(set.teams[0].contractPoints).toBe(-80);
+    });
+
+    it('scores a nil on its own and counts its tricks as bags', () => {
+      const made = scored({ a: 'nil', b: 4, c: 4, d: 4 }, { a: 0, b: 4, c: 5, d: 4 });
+      expect(made.teams[0]).toMatchObject({ bid: 4, tricks: 5, contractPoints: 41, nilPoints: 100, score: 141 });
+
+      const broken = scored({ a: 'blind_nil', b: 4, c: 4, d: 4 }, { a: 2, b: 4, c: 3, d: 4 });
+      expect(broken.teams[0]).toMatchObject({ contractPoints: -40, nilPoints: -200, bags: 2 });
+    });
+
+    it('costs 100 for every ten bags piled up', () => {
+      const result = scored({ a: 2, b: 3, c: 2, d: 3 }, { a: 4, b: 3, c: 3, d: 3 }, { teamBags: [7, 0], teamScores: [200, 0] });
+      expect(result.teams[0]).toMatchObject({ bags: 3, bagPenalty: -100, totalBags: 0, score: 143 });
+    });
+
+    it('ends the game once a side reaches the target ahead', () => {
+      expect(getSpadesWinningTeam([510, 320], 500)).toBe(0);
+      expect(getSpadesWinningTeam([480, 490], 500)).toBeNull();
+      expect(getSpadesWinningTeam([520, 520], 500)).toBeNull();
+    });
+  });
+
+  describe('withSpadesHand', () => {
+    it('puts back the cards a player was dealt less the ones they have played', () => {
+      const dealt = [card('4♦'), card('9♣')];
+      let state = playSpadesCard(handWith({ a: dealt }), 'a', card('4♦'));
+      state = hideSpadesHands(state);
+      expect(state.hands).toEqual({});
+      expect(withSpadesHand(state, 'a', dealt).hands.a).toEqual([card('9♣')]);
+    });
+  });
+});
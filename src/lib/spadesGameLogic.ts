@@ -0,0 +1,239 @@
+// Spades core game logic
+// Pure functions for four-handed partnership Spades, built on the trick-taking core
+// (trickTaking.ts): thirteen cards each, everyone bids the tricks they'll take (or nil, or blind
+// nil when their side is well behind), then thirteen tricks with spades as trump. Spades can't
+// be led until one has been played to a trick, unless the leader holds nothing else.
+//
+// A partnership that makes its combined bid scores ten a trick bid and one a trick over (a bag);
+// one that doesn't loses ten a trick bid. Every ten bags piled up costs 100. A nil is worth 100
+// (blind nil 200) made and costs the same broken; the nil bidder's tricks don't help their
+// partner's bid and count as bags. Hands are played until a side reaches the target ahead.
+
+import { createDeck, type Card } from './cardUtils';
+import { shuffle, type RandomSource } from '@rules/random.ts';
+import {
+  addTrickPlay,
+  getLegalPlays,
+  getNextSeat,
+  getPartner,
+  getPartnershipTeam,
+  isLegalPlay,
+  isSameCard,
+  removeCard,
+  type TrickRules,
+} from './trickTaking';
+import type { SpadesBid, SpadesHandResult, SpadesState, SpadesTeamResult } from './spadesTypes';
+
+export const SPADES_TRICK_RULES: TrickRules = { trumpSuit: '♠' };
+
+const CARDS_PER_HAND = 13;
+const BAGS_PER_PENALTY = 10;
+const BAG_PENALTY = 100;
+const NIL_POINTS = 100;
+const BLIND_NIL_POINTS = 200;
+/** How far a side has to trail before blind nil is allowed */
+const BLIND_NIL_DEFICIT = 100;
+
+export interface SpadesSetup {
+  /** The four players in play order */
+  seats: string[];
+  dealerPlayerId: string;
+  /** Scores and bags carried from earlier hands; zero for the first */
+  teamScores?: number[];
+  teamBags?: number[];
+  targetScore: number;
+  blindNil: boolean;
+}
+
+/** 0 for seats 0 and 2, 1 for seats 1 and 3 */
+export function getSpadesTeam(state: Pick<SpadesState, 'seats'>, playerId: string): number {
+  return getPartnershipTeam(state.seats, playerId);
+}
+
+export function getSpadesPartner(state: Pick<SpadesState, 'seats'>, playerId: string): string {
+  return getPartner(state.seats, playerId);
+}
+
+export function isSpadesNilBid(bid: SpadesBid | undefined): boolean {
+  return bid === 'nil' || bid === 'blind_nil';
+}
+
+/** Tricks each player has taken this hand */
+export function getSpadesTricksWon(state: SpadesState): Record<string, number> {
+  const won: Record<string, number> = Object.fromEntries(state.seats.map(id => [id, 0]));
+  for (const trick of state.tricks) {
+    if (trick.winnerId) won[trick.winnerId]++;
+  }
+  return won;
+}
+
+/** Whether it's `playerId`'s bid and their side trails by enough to bid blind nil */
+export function canBidSpadesBlindNil(state: SpadesState, playerId: string): boolean {
+  if (!state.blindNil || state.phase !== 'bidding' || state.currentTurnPlayerId !== playerId) return false;
+  const team = getSpadesTeam(state, playerId);
+  return state.teamScores[1 - team] - state.teamScores[team] >= BLIND_NIL_DEFICIT;
+}
+
+/** The team that's reached the target ahead of the other; null while the game goes on (or tied) */
+export function getSpadesWinningTeam(scores: number[], targetScore: number): number | null {
+  if (Math.max(...scores) < targetScore || scores[0] === scores[1]) return null;
+  return scores[0] > scores[1] ? 0 : 1;
+}
+
+/** Cards `playerId` may play now; empty when it isn't their turn or the state doesn't hold their hand */
+export function getSpadesLegalPlays(state: SpadesState, playerId: string): Card[] {
+  if (state.phase !== 'playing' || state.currentTurnPlayerId !== playerId) return [];
+  return getLegalPlays(
+    state.hands[playerId] ?? [],
+    state.currentTrick,
+    SPADES_TRICK_RULES,
+    card => state.spadesBroken || card.suit !== '♠'
+  );
+}
+
+/** The state as stored: nobody's hand */
+export function hideSpadesHands(state: SpadesState): SpadesState {
+  return { ...state, hands: {} };
+}
+
+/** The stored state with one player's hand back: the cards dealt them less the ones they've played */
+export function withSpadesHand(state: SpadesState, playerId: string, dealt: Card[]): SpadesState {
+  const played = [...state.tricks, ...(state.currentTrick ? [state.currentTrick] : [])]
+    .flatMap(trick => trick.plays)
+    .filter(play => play.playerId === playerId)
+    .map(play => play.card);
+  const hand = played.reduce((cards, card) => removeCard(cards, card), dealt);
+  return { ...state, hands: { ...state.hands, [playerId]: hand } };
+}
+
+/** Deal thirteen cards each, from left of the dealer; bidding starts there too */
+export function dealSpadesHand(setup: SpadesSetup, random: RandomSource = Math.random): SpadesState {
+  if (setup.seats.length !== 4) throw new Error('Spades needs exactly 4 players');
+
+  const deck = shuffle(createDeck(), random);
+  const firstSeat = getNextSeat(setup.seats, setup.dealerPlayerId);
+  const start = setup.seats.indexOf(firstSeat);
+  const hands: Record<string, Card[]> = Object.fromEntries(setup.seats.map(id => [id, []]));
+  deck.slice(0, CARDS_PER_HAND * 4).forEach((card, i) => {
+    hands[setup.seats[(start + i) % 4]].push(card);
+  });
+
+  return {
+    phase: 'bidding',
+    seats: setup.seats,
+    dealerPlayerId: setup.dealerPlayerId,
+    hands,
+    bids: {},
+    currentTurnPlayerId: firstSeat,
+    currentTrick: null,
+    tricks: [],
+    spadesBroken: false,
+    teamScores: setup.teamScores ?? [0, 0],
+    teamBags: setup.teamBags ?? [0, 0],
+    targetScore: setup.targetScore,
+    blindNil: setup.blindNil,
+    result: null,
+  };
+}
+
+/** Bid and pass the turn left; the fourth bid starts play left of the dealer */
+export function placeSpadesBid(state: SpadesState, playerId: string, bid: SpadesBid): SpadesState {
+  if (state.phase !== 'bidding' || state.currentTurnPlayerId !== playerId) throw new Error('Not your turn');
+  if (bid === 'blind_nil') {
+    if (!canBidSpadesBlindNil(state, playerId)) throw new Error('Blind nil is only open to a side 100 or more behind');
+  } else if (bid !== 'nil' && (!Number.isInteger(bid) || bid < 1 || bid > CARDS_PER_HAND)) {
+    throw new Error(`Bid nil or 1 to ${CARDS_PER_HAND} tricks`);
+  }
+
+  const bids = { ...state.bids, [playerId]: bid };
+  const allIn = state.seats.every(id => bids[id] !== undefined);
+  return {
+    ...state,
+    phase: allIn ? 'playing' : 'bidding',
+    bids,
+    currentTurnPlayerId: allIn ? getNextSeat(state.seats, state.dealerPlayerId) : getNextSeat(state.seats, playerId),
+  };
+}
+
+/**
+ * Play a card to the trick. The trick's winner leads the next one, and the thirteenth trick
+ * scores the hand.
+ */
+export function playSpadesCard(state: SpadesState, playerId: string, card: Card): SpadesState {
+  if (state.phase !== 'playing' || state.currentTurnPlayerId !== playerId) throw new Error('Not your turn');
+
+  const hand = state.hands[playerId];
+  let hands = state.hands;
+  if (hand) {
+    if (!hand.some(c => isSameCard(c, card))) throw new Error("That card isn't in your hand");
+    const canLead = (c: Card) => state.spadesBroken || c.suit !== '♠';
+    if (!isLegalPlay(hand, state.currentTrick, card, SPADES_TRICK_RULES, canLead)) {
+      throw new Error(state.currentTrick ? 'Follow suit' : "Spades haven't been broken");
+    }
+    hands = { ...hands, [playerId]: removeCard(hand, card) };
+  }
+
+  const trick = addTrickPlay(state.currentTrick, { playerId, card }, state.seats.length, SPADES_TRICK_RULES);
+  const next: SpadesState = {
+    ...state,
+    hands,
+    spadesBroken: state.spadesBroken || card.suit === '♠',
+  };
+
+  if (!trick.winnerId) {
+    return { ...next, currentTrick: trick, currentTurnPlayerId: getNextSeat(state.seats, playerId) };
+  }
+
+  const tricks = [...state.tricks, trick];
+  const played = { ...next, currentTrick: null, tricks, currentTurnPlayerId: trick.winnerId };
+  return tricks.length === CARDS_PER_HAND ? scoreSpadesHand(played) : played;
+}
+
+function scoreTeam(state: SpadesState, team: number, tricksWon: Record<string, number>): SpadesTeamResult {
+  const members = state.seats.filter((_, i) => i % 2 === team);
+  const bidders = members.filter(id => !isSpadesNilBid(state.bids[id]));
+  const bid = bidders.reduce((sum, id) => sum + (state.bids[id] as number), 0);
+  const tricks = bidders.reduce((sum, id) => sum + tricksWon[id], 0);
+
+  let nilPoints = 0;
+  let nilBags = 0;
+  for (const id of members.filter(id => isSpadesNilBid(state.bids[id]))) {
+    const points = state.bids[id] === 'blind_nil' ? BLIND_NIL_POINTS : NIL_POINTS;
+    nilPoints += tricksWon[id] === 0 ? points : -points;
+    nilBags += tricksWon[id];
+  }
+
+  const made = tricks >= bid;
+  const overtricks = made ? tricks - bid : 0;
+  const contractPoints = made ? bid * 10 + overtricks : -bid * 10;
+  const bags = overtricks + nilBags;
+
+  let totalBags = state.teamBags[team] + bags;
+  let bagPenalty = 0;
+  while (totalBags >= BAGS_PER_PENALTY) {
+    totalBags -= BAGS_PER_PENALTY;
+    bagPenalty -= BAG_PENALTY;
+  }
+
+  return {
+    bid,
+    tricks,
+    contractPoints,
+    nilPoints,
+    bags,
+    bagPenalty,
+    score: state.teamScores[team] + contractPoints + nilPoints + bagPenalty,
+    totalBags,
+  };
+}
+
+/** Score both partnerships once the last trick is in */
+export function scoreSpadesHand(state: SpadesState): SpadesState {
+  const tricksWon = getSpadesTricksWon(state);
+  const teams = [0, 1].map(team => scoreTeam(state, team, tricksWon));
+  const result: SpadesHandResult = {
+    teams,
+    winningTeam: getSpadesWinningTeam(teams.map(t => t.score), state.targetScore),
+  };
+  return { ...state, phase: 'complete', currentTurnPlayerId: null, result };
+}
@@ -0,0 +1,58 @@
+// Spades as a game module (see gameModule.ts)
+
+import type { GameRules } from './gameModule';
+import type { Card } from './cardUtils';
+import type { SpadesBid, SpadesState } from './spadesTypes';
+import { dealSpadesHand, placeSpadesBid, playSpadesCard } from './spadesGameLogic';
+import { getBotSpadesBid, getBotSpadesPlay } from './spadesBotLogic';
+
+export interface SpadesConfig {
+  /** Score a partnership plays to */
+  targetScore: number;
+  /** Whether a side 100 or more behind may bid blind nil */
+  blindNil: boolean;
+}
+
+export type SpadesAction =
+  | { type: 'bid'; playerId: string; bid: SpadesBid }
+  | { type: 'play'; playerId: string; card: Card };
+
+export const spadesModule: GameRules<SpadesState, SpadesAction, SpadesConfig> = {
+  id: 'spades',
+
+  config: {
+    defaults: { targetScore: 500, blindNil: true },
+    fromGame: game => ({
+      targetScore: game.spades_target_score ?? 500,
+      blindNil: game.spades_blind_nil ?? true,
+    }),
+  },
+
+  // Partners sit across: the players come in seat order. Later hands carry the scores and
+  // bags (see spadesRoundLogic.ts).
+  createInitialState: ({ playerIds, dealerPlayerId, config }, random) =>
+    dealSpadesHand(
+      { seats: playerIds, dealerPlayerId, targetScore: config.targetScore, blindNil: config.blindNil },
+      random
+    ),
+
+  reduce: (state, action) =>
+    action.type === 'bid'
+      ? placeSpadesBid(state, action.playerId, action.bid)
+      : playSpadesCard(state, action.playerId, action.card),
+
+  getActivePlayerId: state => state.currentTurnPlayerId,
+
+  isHandOver: state => state.phase === 'complete',
+
+  // Needs the bot's hand in the state: the table puts it back from player_cards
+  botAction: (state, playerId) => {
+    if (state.currentTurnPlayerId !== playerId || !state.hands[playerId]?.length) return null;
+
+    if (state.phase === 'bidding') {
+      return { type: 'bid', playerId, bid: getBotSpadesBid(state, playerId) };
+    }
+    const card = getBotSpadesPlay(state, playerId);
+    return card ? { type: 'play', playerId, card } : null;
+  },
+};
@@ -0,0 +1,431 @@
+// Spades round orchestration - database integration layer
+// Follows the same patterns as liarsDiceRoundLogic.ts:
+// - DB-First round creation with atomic guards
+// - State persistence via game_state JSONB column
+// - Atomic claim before chips move at the end of a hand
+//
+// One round is one hand: thirteen cards each, the bids and then thirteen tricks. The team
+// scores and bags carry over in the state to the next hand, and the antes wait in games.pot
+// for the partnership that reaches the target.
+//
+// rounds.game_state is public, so it is stored without the hands (hideSpadesHands), like
+// hold'em's hole cards: each hand goes to player_cards at the deal, and every card played is
+// face up in the tricks.
+
+import {
+  fetchPlayerDisplayName,
+  getGameRepository,
+  isUniqueViolation,
+  type GameRow,
+  type PlayerRow,
+} from './gameRepository';
+import { spadesModule, type SpadesConfig } from './spadesModule';
+import { dealSpadesHand, hideSpadesHands } from './spadesGameLogic';
+import { getNextSeat } from './trickTaking';
+import { recordGameResult, snapshotPlayerChips } from './gameLogic';
+import { logDeal } from './handActionLog';
+import { drawFairDeckRandom } from './handFairness';
+import type { Json } from '@/integrations/supabase/types';
+import type { Card } from './cardUtils';
+import type { SpadesState } from './spadesTypes';
+
+type SpadesRoundResult = {
+  success: boolean;
+  roundId?: string;
+  handNumber?: number;
+  error?: string;
+  alreadyStarted?: boolean;
+};
+
+/**
+ * Start the first Spades hand.
+ * Everyone antes into the pot; partners sit across the table in seat order.
+ */
+export async function startSpadesRound(gameId: string): Promise<SpadesRoundResult> {
+  console.log('[SPADES] Starting spades round', { gameId });
+  const repo = getGameRepository();
+
+  try {
+    const { data: game, error: gameError } = await repo.games.get(gameId);
+
+    if (gameError || !game) {
+      throw new Error(`Failed to fetch game: ${gameError?.message}`);
+    }
+
+    if (game.status === 'game_over' || game.status === 'session_ended') {
+      return { success: false, error: 'Game already over' };
+    }
+
+    const { data: players, error: playersError } = await repo.players.listByGame(gameId);
+
+    if (playersError) {
+      throw new Error(`Failed to fetch players: ${playersError.message}`);
+    }
+
+    const activePlayers = (players || [])
+      .filter(p => !p.sitting_out && p.status === 'active')
+      .sort((a, b) => a.position - b.position);
+
+    if (activePlayers.length !== 4) {
+      throw new Error('Spades requires exactly 4 players');
+    }
+
+    const dealerPosition = game.dealer_position || 1;
+    const dealerPlayer = activePlayers.find(p => p.position === dealerPosition) || activePlayers[0];
+    const anteAmount = game.ante_amount || 1;
+    const pot = anteAmount * activePlayers.length;
+
+    const dealerGameId = game.current_game_uuid;
+    if (!dealerGameId) {
+      throw new Error('No dealer_game_id - cannot create round');
+    }
+
+    const result = await dealSpadesRound(
+      game,
+      dealerGameId,
+      activePlayers,
+      dealerPlayer.id,
+      [0, 0],
+      [0, 0],
+      spadesModule.config.fromGame(game),
+      pot
+    );
+
+    // Only the client that created the round collects the antes
+    if (result.roundId) {
+      await repo.games.update(gameId, {
+        status: 'in_progress',
+        current_round: 1,
+        pot,
+      });
+
+      const playerIds = activePlayers.map(p => p.id);
+      const { error: anteError } = await repo.players.decrementChips(playerIds, anteAmount);
+      if (anteError) {
+        console.error('[SPADES] ERROR collecting antes:', anteError);
+      } else {
+        // Record the antes in game_results to keep the accounting zero-sum
+        recordGameResult(
+          gameId,
+          result.handNumber ?? 1,
+          null,
+          'Ante',
+          `${playerIds.length} players anted $${anteAmount}`,
+          0,
+          Object.fromEntries(playerIds.map(id => [id, -anteAmount])),
+          false,
+          'spades',
+          dealerGameId
+        );
+      }
+    }
+    return result;
+
+  } catch (error) {
+    console.error('[SPADES] Error starting round:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Start the next hand with the same four seats, the deal passing left.
+ * Fails when one of the four has left or sat out, which ends the game.
+ */
+export async function startNextSpadesHand(
+  gameId: string,
+  dealerGameId: string,
+  previousState: SpadesState
+): Promise<SpadesRoundResult> {
+  console.log('[SPADES] Starting next hand', { gameId, dealerGameId });
+  const repo = getGameRepository();
+
+  try {
+    const { data: game, error: gameError } = await repo.games.get(gameId);
+    if (gameError || !game) {
+      throw new Error(`Failed to fetch game: ${gameError?.message}`);
+    }
+
+    const { data: players, error: playersError } = await repo.players.listByGame(gameId);
+    if (playersError) {
+      throw new Error(`Failed to fetch players: ${playersError.message}`);
+    }
+
+    const seats = previousState.seats;
+    const seated = (players || [])
+      .filter(p => seats.includes(p.id) && !p.sitting_out && p.status === 'active')
+      .sort((a, b) => seats.indexOf(a.id) - seats.indexOf(b.id));
+
+    if (seated.length !== 4 || !previousState.result) {
+      return { success: false, error: 'Not enough players' };
+    }
+
+    return await dealSpadesRound(
+      game,
+      dealerGameId,
+      seated,
+      getNextSeat(previousState.seats, previousState.dealerPlayerId),
+      previousState.result.teams.map(t => t.score),
+      previousState.result.teams.map(t => t.totalBags),
+      { targetScore: previousState.targetScore, blindNil: previousState.blindNil },
+      game.pot ?? 0
+    );
+
+  } catch (error) {
+    console.error('[SPADES] Error starting next hand:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/** Seat position of the player to act, for rounds.current_turn_position */
+function getTurnPosition(state: SpadesState, players: Pick<PlayerRow, 'id' | 'position'>[]): number | null {
+  if (!state.currentTurnPlayerId) return null;
+  return players.find(p => p.id === state.currentTurnPlayerId)?.position ?? null;
+}
+
+/** Deal a hand into a new round row */
+async function dealSpadesRound(
+  game: GameRow,
+  dealerGameId: string,
+  players: PlayerRow[],
+  dealerPlayerId: string,
+  teamScores: number[],
+  teamBags: number[],
+  config: SpadesConfig,
+  pot: number
+): Promise<SpadesRoundResult> {
+  const repo = getGameRepository();
+
+  // Calculate hand number (DB-First)
+  const { data: latestHandNumber } = await repo.rounds.getLatestHandNumber(dealerGameId);
+  const handNumber = (latestHandNumber ?? 0) + 1;
+
+  // Real-money hands shuffle from the hand's committed seed
+  const random = await drawFairDeckRandom(game.id, 52);
+  const dealt = dealSpadesHand(
+    {
+      seats: players.map(p => p.id),
+      dealerPlayerId,
+      teamScores,
+      teamBags,
+      targetScore: config.targetScore,
+      blindNil: config.blindNil,
+    },
+    random
+  );
+  const stored = hideSpadesHands(dealt);
+
+  const { data: round, error: roundError } = await repo.rounds.insert({
+    game_id: game.id,
+    dealer_game_id: dealerGameId,
+    round_number: 1, // One round per hand, like hold'em
+    hand_number: handNumber,
+    cards_dealt: 13,
+    pot,
+    status: 'betting',
+    current_turn_position: getTurnPosition(stored, players),
+    game_state: stored as unknown as Json,
+  });
+
+  if (roundError || !round) {
+    // Atomic guard: unique constraint violation means another client already created it
+    if (isUniqueViolation(roundError)) {
+      console.log('[SPADES] Round already exists (atomic guard)');
+      return { success: true, alreadyStarted: true };
+    }
+    throw new Error(`Failed to create round: ${roundError?.message}`);
+  }
+
+  const insertedHandNumber = round.hand_number ?? handNumber;
+
+  await repo.games.update(game.id, {
+    total_hands: insertedHandNumber,
+    is_first_hand: insertedHandNumber === 1,
+  });
+
+  void logDeal(round.id, { state: stored, dealtTo: stored.seats, cardsDealt: 13 });
+
+  // Hands stay private; the cards come face up as they're played
+  for (const playerId of stored.seats) {
+    const { error } = await repo.playerCards.upsert({
+      player_id: playerId,
+      round_id: round.id,
+      cards: dealt.hands[playerId] as unknown as Json,
+    });
+    if (error) console.warn('[SPADES] Failed to store hand:', playerId, error.message);
+  }
+
+  console.log('[SPADES] Hand dealt', { roundId: round.id, handNumber: insertedHandNumber });
+  return { success: true, roundId: round.id, handNumber: insertedHandNumber };
+}
+
+/**
+ * Update spades state in the database (after each action), without the hands.
+ * `turnPosition` is the seat of the player now to bid or play (null once the hand is over).
+ */
+export async function updateSpadesState(
+  roundId: string,
+  newState: SpadesState,
+  turnPosition: number | null
+): Promise<boolean> {
+  try {
+    const { error } = await getGameRepository().rounds.update(
+      roundId,
+      {
+        game_state: JSON.parse(JSON.stringify(hideSpadesHands(newState))),
+        current_turn_position: turnPosition,
+      },
+      { neq: { status: 'completed' } }
+    );
+
+    if (error) {
+      console.error('[SPADES] Failed to update state:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('[SPADES] Error updating state:', error);
+    return false;
+  }
+}
+
+/** The thirteen cards a player was dealt this round (see withSpadesHand for what's left) */
+export async function fetchSpadesHand(roundId: string, playerId: string): Promise<Card[]> {
+  const { data } = await getGameRepository().playerCards.get(roundId, playerId);
+  return (data?.cards as unknown as Card[] | null) ?? [];
+}
+
+async function getTeamName(gameId: string, state: SpadesState, team: number): Promise<string> {
+  const names = await Promise.all(
+    state.seats.filter((_, i) => i % 2 === team).map(id => fetchPlayerDisplayName(gameId, id))
+  );
+  return names.join(' & ');
+}
+
+/**
+ * Settle a finished hand: the scores go into the hand history and, once a partnership has
+ * reached the target ahead, the partners split the pot. Uses atomic claim pattern (transition
+ * status to 'completed') so only one client settles it.
+ */
+export async function recordSpadesHandResult(
+  gameId: string,
+  roundId: string,
+  state: SpadesState
+): Promise<boolean> {
+  const repo = getGameRepository();
+
+  if (state.phase !== 'complete' || !state.result) {
+    console.warn('[SPADES] Hand not complete, nothing to record');
+    return false;
+  }
+
+  const { data: claimedRounds, error: claimError } = await repo.rounds.update(
+    roundId,
+    { status: 'completed', game_state: JSON.parse(JSON.stringify(hideSpadesHands(state))), current_turn_position: null },
+    { neq: { status: 'completed' } }
+  );
+
+  if (claimError) {
+    console.error('[SPADES] Failed to claim hand result:', claimError);
+    return false;
+  }
+
+  const claimedRound = claimedRounds && claimedRounds.length > 0 ? claimedRounds[0] : null;
+  if (!claimedRound) {
+    console.log('[SPADES] Hand already settled by another client');
+    return true;
+  }
+
+  const { teams, winningTeam } = state.result;
+  const teamNames = [await getTeamName(gameId, state, 0), await getTeamName(gameId, state, 1)];
+  let description = teams
+    .map((t, i) => `${teamNames[i]} ${t.tricks}/${t.bid} → ${t.score}`)
+    .join(' • ');
+
+  // The partnership that reached the target splits the pot
+  const { data: game } = await repo.games.get(gameId);
+  const pot = game?.pot ?? 0;
+  const winners = winningTeam === null ? [] : state.seats.filter((_, i) => i % 2 === winningTeam);
+  const chipChanges: Record<string, number> = Object.fromEntries(state.seats.map(id => [id, 0]));
+
+  if (winners.length > 0 && pot > 0) {
+    const share = Math.floor(pot / winners.length);
+    for (const [i, playerId] of winners.entries()) {
+      const amount = share + (i === 0 ? pot - share * winners.length : 0);
+      const { error } = await repo.players.incrementChips(playerId, amount);
+      if (error) console.error('[SPADES] Failed to pay the pot:', playerId, error);
+      chipChanges[playerId] = amount;
+    }
+    description = `${description} • ${teamNames[winningTeam!]} win $${pot}`;
+  }
+
+  const { error: resultError } = await repo.gameResults.insert({
+    game_id: gameId,
+    dealer_game_id: claimedRound.dealer_game_id,
+    hand_number: claimedRound.hand_number ?? 1,
+    pot_won: winners.length > 0 ? pot : 0,
+    winner_player_id: winners[0] ?? null,
+    winner_username: winningTeam === null ? null : teamNames[winningTeam],
+    winning_hand_description: description,
+    is_chopped: winners.length > 1,
+    player_chip_changes: chipChanges,
+    game_type: 'spades',
+  });
+  if (resultError) console.error('[SPADES] Failed to record result:', resultError);
+
+  await repo.games.update(gameId, {
+    last_round_result: description,
+    ...(winners.length > 0 ? { pot: 0 } : {}),
+  });
+
+  await snapshotPlayerChips(gameId, claimedRound.hand_number ?? 1).catch((err) => {
+    console.error('[SPADES] Failed to snapshot chips:', err);
+  });
+
+  console.log('[SPADES] Hand settled', { roundId, description });
+  return true;
+}
+
+/**
+ * End the game. Normally the winning partnership has already split the pot; if a seat emptied
+ * first, what's left goes back evenly to the players still seated (odd chips to the first).
+ */
+export async function endSpadesGame(gameId: string, state: SpadesState): Promise<boolean> {
+  const repo = getGameRepository();
+
+  try {
+    const { data: game } = await repo.games.get(gameId);
+    const pot = game?.pot ?? 0;
+
+    const { data: players } = await repo.players.listByGame(gameId);
+    const seated = (players || []).filter(p => !p.sitting_out && p.status === 'active' && state.seats.includes(p.id));
+    const lastResult = pot > 0
+      ? `Pot of $${pot} returned`
+      : game?.last_round_result ?? null;
+
+    // Atomic claim: only the client that ends the game hands back a leftover pot
+    const { data: claimed } = await repo.games.update(
+      gameId,
+      {
+        status: 'game_over',
+        pot: 0,
+        last_round_result: lastResult,
+        game_over_at: new Date().toISOString(),
+      },
+      { neq: { status: 'game_over' } }
+    );
+
+    if (pot > 0 && claimed && claimed.length > 0) {
+      const share = seated.length > 0 ? Math.floor(pot / seated.length) : 0;
+      for (const [i, player] of seated.entries()) {
+        const amount = share + (i === 0 ? pot - share * seated.length : 0);
+        if (amount > 0) await repo.players.incrementChips(player.id, amount);
+      }
+    }
+
+    console.log('[SPADES] Game over', { gameId, lastResult });
+    return true;
+  } catch (error) {
+    console.error('[SPADES] Error ending game:', error);
+    return false;
+  }
+}
@@ -0,0 +1,70 @@
+// Spades game types and interfaces
+// Cards use the poker Card from cardUtils ('♠','♥','♦','♣' suits)
+
+import type { Card } from './cardUtils';
+import type { Trick } from './trickTaking';
+
+export type SpadesPhase =
+  | 'bidding' // Left of the dealer round, everyone bids the tricks they'll take
+  | 'playing' // Thirteen tricks, spades trump
+  | 'complete'; // Every trick is in and the hand is scored
+
+/** Tricks bid (1-13), nil (none) or blind nil (none, bid before looking) */
+export type SpadesBid = number | 'nil' | 'blind_nil';
+
+/** How one partnership did on a hand */
+export interface SpadesTeamResult {
+  /** Tricks the partnership bid, nil bids counting none */
+  bid: number;
+  /** Tricks taken by the partners who didn't bid nil */
+  tricks: number;
+  /** Ten a trick bid plus one a bag when the bid is made, minus ten a trick bid when it isn't */
+  contractPoints: number;
+  /** 100 per nil (200 blind) made, less the same per nil broken */
+  nilPoints: number;
+  /** Tricks over the bid this hand, a broken nil's tricks included */
+  bags: number;
+  /** 100 off for every ten bags piled up */
+  bagPenalty: number;
+  /** Running score after the hand */
+  score: number;
+  /** Bags carried into the next hand */
+  totalBags: number;
+}
+
+export interface SpadesHandResult {
+  /** Indexed by team: 0 is seats 0 and 2, 1 is seats 1 and 3 */
+  teams: SpadesTeamResult[];
+  /** The team that reached the target ahead, once the game is over */
+  winningTeam: number | null;
+}
+
+export interface SpadesState {
+  phase: SpadesPhase;
+  /** The four players in play order; partners sit across, so team 0 is seats 0 and 2 */
+  seats: string[];
+  dealerPlayerId: string;
+  /**
+   * Cards still in each hand. rounds.game_state is public, so the stored state has none
+   * (hideSpadesHands): each hand goes to player_cards at the deal, and the table puts back the
+   * one it holds before a play (withSpadesHand). A play for a hand the state doesn't hold, as
+   * in a replay, is taken as logged.
+   */
+  hands: Record<string, Card[]>;
+  /** Bids so far this hand */
+  bids: Record<string, SpadesBid>;
+  currentTurnPlayerId: string | null;
+  /** The trick being played; null between tricks */
+  currentTrick: Trick | null;
+  /** Finished tricks, in order */
+  tricks: Trick[];
+  /** Whether a spade has gone on a trick yet; until then spades can't be led */
+  spadesBroken: boolean;
+  /** Team scores and bags going into the hand */
+  teamScores: number[];
+  teamBags: number[];
+  targetScore: number;
+  /** Whether a partnership trailing by 100 or more may bid blind nil */
+  blindNil: boolean;
+  result: SpadesHandResult | null;
+}
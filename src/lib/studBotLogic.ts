@@ -0,0 +1,58 @@
+// Seven-card stud bot AI
+// Deterministic: the bot weighs the hand it has made so far against the price of staying in.
+
+import type { Card, HandRank } from './cardUtils';
+import {
+  evaluateStudHand,
+  getStudBetLimits,
+  getStudHoleCardsInPlay,
+  getStudPotTotal,
+  getStudWildRanks,
+  type StudBetType,
+} from './studGameLogic';
+import type { StudState } from './studTypes';
+
+export interface StudBotDecision {
+  type: StudBetType;
+}
+
+const MADE_HAND_STRENGTH: Record<HandRank, number> = {
+  'high-card': 0.2,
+  pair: 0.45,
+  'two-pair': 0.62,
+  'three-of-a-kind': 0.74,
+  straight: 0.8,
+  flush: 0.85,
+  'full-house': 0.92,
+  'four-of-a-kind': 0.97,
+  'straight-flush': 1,
+  'five-of-a-kind': 1,
+};
+
+/** 0-1 strength of the bot's cards so far; made hands are cheaper with wild cards about */
+export function getStudHandStrength(state: StudState, holeCards: Card[], upCards: Card[]): number {
+  const wildRanks = getStudWildRanks(state);
+  const { rank } = evaluateStudHand([...getStudHoleCardsInPlay(holeCards, state.street), ...upCards], wildRanks);
+  return Math.max(0, MADE_HAND_STRENGTH[rank] - wildRanks.length * 0.08);
+}
+
+/** The bot's betting decision on its turn, holding `holeCards` */
+export function getBotStudDecision(state: StudState, playerId: string, holeCards: Card[]): StudBotDecision {
+  const limits = getStudBetLimits(state, playerId);
+  const pot = getStudPotTotal(state);
+  const strength = getStudHandStrength(state, holeCards, state.playerStates[playerId].upCards);
+
+  const raiseType = state.currentBet === 0 ? 'bet' : 'raise';
+
+  if (strength >= 0.7 && limits.canRaise) return { type: raiseType };
+  // Decent and unopposed: bet
+  if (strength >= 0.55 && limits.canRaise && limits.toCall === 0) return { type: raiseType };
+  if (limits.canCheck) return { type: 'check' };
+
+  // Call when the hand is better than the share of the pot the call buys
+  const potOdds = limits.toCall / (pot + limits.toCall);
+  const cheapThirdStreet = state.street === 'third' && limits.toCall <= state.smallBet && strength >= 0.2;
+  return strength >= potOdds + 0.2 || cheapThirdStreet
+    ? { type: 'call' }
+    : { type: 'fold' };
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyStudBet,
+  dealStudHand,
+  evaluateStudHand,
+  getStudBetLimits,
+  getStudChipChanges,
+  hideHoleCards,
+  showHoleCards,
+} from './studGameLogic';
+import { STUD_VARIANTS } from './studVariants';
+import { RANK_VALUES, type Card } from './cardUtils';
+import type { StudState, StudVariantId } from './studTypes';
+import { cards, rigHoleCards } from './testHelpers';
+import { createSeededRandom } from '@rules/random.ts';
+
+function deal(stacks: Record<string, number>, dealerPlayerId: string, variant: StudVariantId = 'standard'): StudState {
+  return dealStudHand(
+    { playerIds: Object.keys(stacks), dealerPlayerId, stacks, variant, ante: 1, smallBet: 2, buyPrice: 2 },
+    createSeededRandom('stud')
+  );
+}
+
+/** Replace the shuffled hole cards and the stub with known ones */
+function rig(state: StudState, holeCards: Record<string, Card[]>, stub: Card[]): StudState {
+  return { ...rigHoleCards(state, holeCards), stub };
+}
+
+/** Check or call every turn (folding the players given) until the betting is over */
+function playDown(state: StudState, folders: string[] = []): StudState {
+  while (state.phase === 'betting') {
+    const playerId = state.currentTurnPlayerId!;
+    const { canCheck } = getStudBetLimits(state, playerId);
+    state = applyStudBet(state, playerId, folders.includes(playerId) ? 'fold' : canCheck ? 'check' : 'call');
+  }
+  return state;
+}
+
+describe('Stud Game Logic', () => {
+  describe('dealStudHand', () => {
+    it('takes the antes and has the lowest door card bring it in', () => {
+      const state = deal({ a: 100, b: 100, c: 100 }, 'a');
+      expect(state.seatOrder).toEqual(['b', 'c', 'a']);
+
+      const doorValue = (id: string) => RANK_VALUES[state.playerStates[id].upCards[0].rank];
+      const { bringInPlayerId } = state;
+      expect(state.seatOrder.every(id => doorValue(bringInPlayerId) <= doorValue(id))).toBe(true);
+      expect(state.playerStates[bringInPlayerId]).toMatchObject({ streetBet: 1, totalBet: 2, stack: 98 });
+      expect(state.seatOrder.every(id => state.playerStates[id].holeCards.length === 3)).toBe(true);
+
+      // Action starts left of the bring-in
+      const next = state.seatOrder[(state.seatOrder.indexOf(bringInPlayerId) + 1) % 3];
+      expect(state.currentTurnPlayerId).toBe(next);
+    });
+  });
+
+  describe('applyStudBet', () => {
+    it('completes the bring-in to the small bet and caps the raises at four bets', () => {
+      let state = deal({ a: 100, b: 100 }, 'a');
+      const opener = state.currentTurnPlayerId!;
+      const bringIn = state.bringInPlayerId;
+      expect(getStudBetLimits(state, opener)).toMatchObject({ toCall: 1, raiseTo: 2 });
+
+      state = applyStudBet(state, opener, 'raise');
+      state = applyStudBet(state, bringIn, 'raise');
+      state = applyStudBet(state, opener, 'raise');
+      state = applyStudBet(state, bringIn, 'raise');
+      expect(state.currentBet).toBe(8);
+      expect(getStudBetLimits(state, opener)).toMatchObject({ canRaise: false, toCall: 2 });
+      expect(() => applyStudBet(state, opener, 'raise')).toThrow('Betting is not open to you');
+
+      state = applyStudBet(state, opener, 'call');
+      expect(state.street).toBe('fourth');
+      expect(Object.values(state.playerStates).every(ps => ps.upCards.length === 2)).toBe(true);
+    });
+
+    it('ends third street when everyone calls the bring-in', () => {
+      let state = deal({ a: 100, b: 100 }, 'a');
+      state = applyStudBet(state, state.currentTurnPlayerId!, 'call');
+      expect(state.street).toBe('fourth');
+      expect(getStudBetLimits(state, state.currentTurnPlayerId!)).toMatchObject({ canCheck: true, raiseTo: 2 });
+    });
+  });
+
+  describe('variants', () => {
+    it('makes queens and the card up after the last queen wild in Follow the Queen', () => {
+      const { wildRanks } = STUD_VARIANTS['follow-the-queen'];
+      expect(wildRanks(cards('5♠', 'K♦'))).toEqual(['Q']);
+      expect(wildRanks(cards('Q♠', '7♦', 'K♣'))).toEqual(['Q', '7']);
+      expect(wildRanks(cards('Q♠', '7♦', 'Q♣'))).toEqual(['Q']);
+      expect(wildRanks(cards('Q♠', '7♦', 'Q♣', '5♥'))).toEqual(['Q', '5']);
+    });
+
+    it('plays 3s and 9s wild in Baseball', () => {
+      const hand = evaluateStudHand(cards('3♠', '9♦', 'K♣', 'K♥', '2♦', '7♣', 'J♠'), ['3', '9']);
+      expect(hand.rank).toBe('four-of-a-kind');
+      expect(evaluateStudHand(cards('3♠', '9♦', 'K♣', 'K♥', '2♦', '7♣', 'J♠'), []).rank).toBe('pair');
+    });
+
+    it('sells another up card for a 4 dealt face up in Baseball', () => {
+      let state: StudState = { ...deal({ a: 100, b: 100 }, 'a'), variant: 'baseball' };
+      state = rig(state, {}, cards('4♠', '7♦', '8♣', 'K♦'));
+      state = applyStudBet(state, state.currentTurnPlayerId!, 'call');
+
+      // Fourth street goes to b then a: b's 4 buys the 7
+      expect(state.playerStates.b.upCards.slice(1)).toEqual(cards('4♠', '7♦'));
+      expect(state.playerStates.a.upCards.slice(1)).toEqual(cards('8♣'));
+      expect(state.playerStates.b.totalBet - state.playerStates.a.totalBet).toBe(2);
+    });
+
+    it('splits the pot with the low spade in the hole in Low Chicago', () => {
+      const dealt = rig(
+        { ...deal({ a: 100, b: 100, c: 100 }, 'a'), variant: 'low-chicago' },
+        { a: cards('A♥', 'A♦', 'A♣'), b: cards('3♠', '7♦', '9♣'), c: cards('2♠', '4♦', '8♣') },
+        cards('5♥', '6♦', 'J♣', 'K♥', '10♦', '2♣', '5♣', '6♥', 'J♦', 'K♣', '10♥', '2♥')
+      );
+      let state = playDown(hideHoleCards(dealt), ['c']);
+
+      // The hand waits for the hole cards of the players still in
+      expect(state.phase).toBe('showdown');
+      for (const id of ['b', 'a']) {
+        expect(state.currentTurnPlayerId).toBe(id);
+        state = showHoleCards(state, id, dealt.playerStates[id].holeCards);
+      }
+
+      expect(state.phase).toBe('complete');
+      expect(state.results![0]).toMatchObject({ winnerIds: ['a'], splitWinnerId: 'b', splitDescription: 'Low spade 3♠' });
+      // c folded the 2♠, so b's 3♠ is low; a gets the odd chip
+      const pot = state.results![0].amount;
+      const changes = getStudChipChanges(state);
+      expect(changes.a - changes.b).toBe(pot % 2);
+      expect(Object.values(changes).reduce((sum, change) => sum + change, 0)).toBe(0);
+    });
+  });
+});
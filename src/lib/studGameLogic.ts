@@ -0,0 +1,542 @@
+// Seven-card stud core game logic
+// Handles antes, the bring-in, fixed-limit betting over five streets, side pots and showdown.
+// The variant's hooks (studVariants.ts) decide wild cards, bought up cards and split pots.
+// All state mutations return a new StudState (immutable pattern).
+//
+// A freshly dealt state holds every player's hole cards. The stored state doesn't (see
+// hideHoleCards): betting never needs them, and the hand waits in the showdown phase
+// until the players still in have shown theirs.
+
+import {
+  RANK_VALUES,
+  createDeck,
+  evaluateHand,
+  formatHandRankDetailed,
+  getBestFiveCardIndices,
+  shuffleDeck,
+  type Card,
+  type HandRank,
+  type Rank,
+  type Suit,
+} from './cardUtils';
+import { STUD_VARIANTS } from './studVariants';
+import type {
+  StudActionType,
+  StudPlayerState,
+  StudPot,
+  StudPotResult,
+  StudState,
+  StudStreet,
+  StudVariantId,
+} from './studTypes';
+import type { RandomSource } from '@rules/random.ts';
+
+export interface StudDealSetup {
+  /** Player ids in seat order */
+  playerIds: string[];
+  dealerPlayerId: string;
+  /** Chips each player brings to the hand; players without any sit it out */
+  stacks: Record<string, number>;
+  variant: StudVariantId;
+  ante: number;
+  /** Third and fourth street bet; the bring-in is half of it and the big bet double */
+  smallBet: number;
+  buyPrice: number;
+}
+
+export type StudBetType = Exclude<StudActionType, 'show'>;
+
+const NEXT_STREET: Record<StudStreet, StudStreet | null> = {
+  third: 'fourth',
+  fourth: 'fifth',
+  fifth: 'sixth',
+  sixth: 'seventh',
+  seventh: null,
+};
+
+/** Bets and raises allowed per street */
+const BET_CAP = 4;
+
+/** Hole cards dealt: two on third street, the last on seventh */
+const HOLE_CARDS = 3;
+
+/** Breaks door-card ties for the bring-in, lowest first */
+const SUIT_ORDER: Suit[] = ['♣', '♦', '♥', '♠'];
+
+// ─── Dealing ────────────────────────────────────────────────────
+
+/** Shuffle, take the antes, deal two down and one up each and post the bring-in */
+export function dealStudHand(setup: StudDealSetup, random?: RandomSource): StudState {
+  const { playerIds, stacks, smallBet } = setup;
+
+  // Clockwise from the dealer's left; the deal stays with the dealer's seat if they are in
+  const dealerIdx = Math.max(0, playerIds.indexOf(setup.dealerPlayerId));
+  const seatOrder = playerIds
+    .map((_, i) => playerIds[(dealerIdx + 1 + i) % playerIds.length])
+    .filter(id => (stacks[id] ?? 0) > 0);
+  if (seatOrder.length < 2) {
+    throw new Error('Stud needs at least 2 players with chips');
+  }
+
+  // Every hole card goes out now (they stay in player_cards); up cards come off the stub street by street
+  const shuffled = shuffleDeck(createDeck(), random);
+  const n = seatOrder.length;
+  const playerStates: Record<string, StudPlayerState> = {};
+  seatOrder.forEach((playerId, i) => {
+    const ps: StudPlayerState = {
+      playerId,
+      holeCards: Array.from({ length: HOLE_CARDS }, (_, c) => shuffled[c * n + i]),
+      upCards: [],
+      stack: stacks[playerId],
+      startingStack: stacks[playerId],
+      streetBet: 0,
+      totalBet: 0,
+      folded: false,
+      allIn: false,
+      hasActed: false,
+    };
+    playerStates[playerId] = payIn(ps, setup.ante);
+  });
+
+  let state: StudState = {
+    variant: setup.variant,
+    phase: 'betting',
+    street: 'third',
+    dealerPlayerId: seatOrder[n - 1],
+    seatOrder,
+    playerStates,
+    ante: setup.ante,
+    bringIn: Math.max(1, Math.floor(smallBet / 2)),
+    smallBet,
+    bigBet: smallBet * 2,
+    buyPrice: setup.buyPrice,
+    stub: shuffled.slice(HOLE_CARDS * n),
+    upCardsDealt: [],
+    bringInPlayerId: seatOrder[0],
+    currentTurnPlayerId: null,
+    currentBet: 0,
+    betCount: 0,
+    results: null,
+    lastAction: null,
+  };
+
+  state = dealUpCards(state);
+
+  // The lowest door card is forced to open; it counts as acting, so everyone just calling ends the street
+  const bringInPlayerId = getBringInPlayerId(state);
+  const ps = putIn(state.playerStates[bringInPlayerId], state.bringIn);
+  state = {
+    ...state,
+    bringInPlayerId,
+    currentBet: state.bringIn,
+    playerStates: { ...state.playerStates, [bringInPlayerId]: { ...ps, hasActed: true } },
+    lastAction: { type: 'bring_in', playerId: bringInPlayerId, amount: ps.streetBet, allIn: ps.allIn },
+  };
+
+  const first = nextToAct(state, bringInPlayerId);
+  return first ? { ...state, currentTurnPlayerId: first } : closeStreet(state);
+}
+
+/** Pay outside the street's betting (ante, bought card); short stacks pay what they have */
+function payIn(ps: StudPlayerState, amount: number): StudPlayerState {
+  const paid = Math.min(amount, ps.stack);
+  return { ...ps, stack: ps.stack - paid, totalBet: ps.totalBet + paid, allIn: ps.stack - paid === 0 };
+}
+
+/** Move up to `amount` from the stack into the street's betting; short stacks go all-in */
+function putIn(ps: StudPlayerState, amount: number): StudPlayerState {
+  const paid = Math.min(amount, ps.stack);
+  return {
+    ...ps,
+    stack: ps.stack - paid,
+    streetBet: ps.streetBet + paid,
+    totalBet: ps.totalBet + paid,
+    allIn: ps.stack - paid === 0,
+  };
+}
+
+/** One card face up to each player still in, left of the dealer first */
+function dealUpCards(state: StudState): StudState {
+  return livePlayerIds(state).reduce(dealUpCard, state);
+}
+
+/** Deal a card face up; a card the variant says buys another is paid for and followed by one */
+function dealUpCard(state: StudState, playerId: string): StudState {
+  // Baseball can deal more up cards than the stub holds: once it runs out, nobody gets another
+  const [card, ...stub] = state.stub;
+  if (!card) return state;
+
+  const ps = state.playerStates[playerId];
+  const dealt: StudState = {
+    ...state,
+    stub,
+    upCardsDealt: [...state.upCardsDealt, card],
+    playerStates: { ...state.playerStates, [playerId]: { ...ps, upCards: [...ps.upCards, card] } },
+  };
+  if (!STUD_VARIANTS[state.variant].buysUpCard?.(card)) return dealt;
+
+  const bought = payIn(dealt.playerStates[playerId], state.buyPrice);
+  return dealUpCard(
+    {
+      ...dealt,
+      playerStates: { ...dealt.playerStates, [playerId]: bought },
+      lastAction: { type: 'buy', playerId, amount: bought.totalBet - ps.totalBet, allIn: bought.allIn },
+    },
+    playerId
+  );
+}
+
+/** Lowest door card (first up card) by rank, then suit */
+function getBringInPlayerId(state: StudState): string {
+  const doorValue = (playerId: string) => {
+    const door = state.playerStates[playerId].upCards[0];
+    return door ? RANK_VALUES[door.rank] * 4 + SUIT_ORDER.indexOf(door.suit) : Infinity;
+  };
+  return state.seatOrder.reduce((low, id) => (doorValue(id) < doorValue(low) ? id : low));
+}
+
+// ─── Turn order ─────────────────────────────────────────────────
+
+function canAct(ps: StudPlayerState): boolean {
+  return !ps.folded && !ps.allIn;
+}
+
+function needsToAct(state: StudState, ps: StudPlayerState): boolean {
+  return canAct(ps) && (!ps.hasActed || ps.streetBet < state.currentBet);
+}
+
+/** First player after `afterPlayerId` (clockwise) who still owes an action this street */
+function nextToAct(state: StudState, afterPlayerId: string): string | null {
+  const { seatOrder } = state;
+  const start = seatOrder.indexOf(afterPlayerId);
+  for (let i = 1; i <= seatOrder.length; i++) {
+    const ps = state.playerStates[seatOrder[(start + i) % seatOrder.length]];
+    if (needsToAct(state, ps)) return ps.playerId;
+  }
+  return null;
+}
+
+function livePlayerIds(state: StudState): string[] {
+  return state.seatOrder.filter(id => !state.playerStates[id].folded);
+}
+
+/** From fourth street on, the best hand showing bets first (the first in seat order on a tie) */
+function firstToAct(state: StudState): string | null {
+  const wildRanks = getStudWildRanks(state);
+  const leader = livePlayerIds(state).reduce((best, id) =>
+    getShowingValue(state.playerStates[id].upCards, wildRanks) >
+    getShowingValue(state.playerStates[best].upCards, wildRanks)
+      ? id
+      : best
+  );
+  return needsToAct(state, state.playerStates[leader]) ? leader : nextToAct(state, leader);
+}
+
+// ─── Wild cards & hand values ───────────────────────────────────
+
+/** Ranks wild right now under the hand's variant */
+export function getStudWildRanks(state: StudState): Rank[] {
+  return STUD_VARIANTS[state.variant].wildRanks(state.upCardsDealt);
+}
+
+/**
+ * The evaluator knows a single wild rank, so every wild card is given the first one.
+ * A wild card's own rank and suit never count, which makes this exact.
+ */
+function withOneWildRank(cards: Card[], wildRanks: Rank[]): { cards: Card[]; wildRank: Rank | null } {
+  if (wildRanks.length === 0) return { cards, wildRank: null };
+  const [wildRank] = wildRanks;
+  return {
+    cards: cards.map(c => (wildRanks.includes(c.rank) ? { ...c, rank: wildRank } : c)),
+    wildRank,
+  };
+}
+
+/** Value of a player's up cards, for who bets first */
+function getShowingValue(upCards: Card[], wildRanks: Rank[]): number {
+  // Nothing but wild cards showing: count them as aces
+  if (upCards.every(c => wildRanks.includes(c.rank))) {
+    return evaluateHand(upCards.map(c => ({ ...c, rank: 'A' as Rank })), false).value;
+  }
+  const { cards, wildRank } = withOneWildRank(upCards, wildRanks);
+  return evaluateHand(cards, true, wildRank).value;
+}
+
+export interface StudShowdownHand {
+  rank: HandRank;
+  value: number;
+  description: string;
+  /** Indices into the cards given of the best five */
+  usedIndices: number[];
+}
+
+/** A player's best five of the cards given, wild ranks applied */
+export function evaluateStudHand(cards: Card[], wildRanks: Rank[]): StudShowdownHand {
+  const normalized = withOneWildRank(cards, wildRanks);
+  const { usedIndices } = getBestFiveCardIndices(normalized.cards, true, normalized.wildRank);
+  const best = usedIndices.map(i => normalized.cards[i]);
+  const { rank, value } = evaluateHand(best, true, normalized.wildRank);
+  return {
+    rank,
+    value,
+    description: formatHandRankDetailed(best, true, normalized.wildRank),
+    usedIndices,
+  };
+}
+
+/** Hole cards that play by the street: the third one isn't turned to its owner until seventh */
+export function getStudHoleCardsInPlay(holeCards: Card[], street: StudStreet): Card[] {
+  return street === 'seventh' ? holeCards : holeCards.slice(0, HOLE_CARDS - 1);
+}
+
+// ─── Betting ────────────────────────────────────────────────────
+
+export interface StudBetLimits {
+  toCall: number;
+  canCheck: boolean;
+  /** Whether the player may bet or raise at all */
+  canRaise: boolean;
+  /** Street total a bet or raise goes to (completing the bring-in on third street) */
+  raiseTo: number;
+}
+
+/** Fixed bet size on the current street */
+export function getStudBetSize(state: StudState): number {
+  return state.street === 'third' || state.street === 'fourth' ? state.smallBet : state.bigBet;
+}
+
+/** What the player whose turn it is may do */
+export function getStudBetLimits(state: StudState, playerId: string): StudBetLimits {
+  const ps = state.playerStates[playerId];
+  const betSize = getStudBetSize(state);
+  const toCall = Math.max(0, state.currentBet - ps.streetBet);
+  // Someone has to be left to call a raise
+  const anyoneToRaise = state.seatOrder.some(id => id !== playerId && canAct(state.playerStates[id]));
+
+  return {
+    toCall,
+    canCheck: toCall === 0,
+    // Having acted already, only a full raise since reopens the betting (which resets hasActed)
+    canRaise: canAct(ps) && !ps.hasActed && anyoneToRaise && state.betCount < BET_CAP && ps.stack > toCall,
+    raiseTo: state.currentBet < betSize ? betSize : state.currentBet + betSize,
+  };
+}
+
+/** Sum of everything put in this hand */
+export function getStudPotTotal(state: StudState): number {
+  return Object.values(state.playerStates).reduce((sum, ps) => sum + ps.totalBet, 0);
+}
+
+/** Apply one betting action; throws on an illegal one. Bets and raises are the street's fixed size. */
+export function applyStudBet(state: StudState, playerId: string, type: StudBetType): StudState {
+  if (state.phase !== 'betting' || state.currentTurnPlayerId !== playerId) {
+    throw new Error('Not your turn');
+  }
+
+  const ps = state.playerStates[playerId];
+  const limits = getStudBetLimits(state, playerId);
+  let next: StudPlayerState = ps;
+  let { currentBet, betCount } = state;
+  let reopened = false;
+
+  switch (type) {
+    case 'fold':
+      next = { ...ps, folded: true };
+      break;
+    case 'check':
+      if (!limits.canCheck) throw new Error('Cannot check facing a bet');
+      break;
+    case 'call':
+      if (limits.toCall === 0) throw new Error('Nothing to call');
+      next = putIn(ps, limits.toCall);
+      break;
+    case 'bet':
+    case 'raise': {
+      if (type === 'bet' && state.currentBet > 0) throw new Error('There is already a bet - raise instead');
+      if (type === 'raise' && state.currentBet === 0) throw new Error('Nothing to raise - bet instead');
+      if (!limits.canRaise) throw new Error('Betting is not open to you - call or fold');
+
+      next = putIn(ps, limits.raiseTo - ps.streetBet);
+      // An all-in short of the full bet doesn't reopen the betting for players who already acted
+      if (next.streetBet === limits.raiseTo) {
+        betCount += 1;
+        reopened = true;
+      }
+      currentBet = next.streetBet;
+      break;
+    }
+  }
+
+  const playerStates = { ...state.playerStates };
+  if (reopened) {
+    for (const id of state.seatOrder) playerStates[id] = { ...playerStates[id], hasActed: false };
+  }
+  playerStates[playerId] = { ...next, hasActed: true };
+
+  const acted: StudState = {
+    ...state,
+    playerStates,
+    currentBet,
+    betCount,
+    lastAction: { type, playerId, amount: next.streetBet, allIn: next.allIn },
+  };
+
+  if (livePlayerIds(acted).length === 1) return settleHand(acted);
+
+  const following = nextToAct(acted, playerId);
+  return following ? { ...acted, currentTurnPlayerId: following } : closeStreet(acted);
+}
+
+/** Betting on the street is done: deal the next one, or show down */
+function closeStreet(state: StudState): StudState {
+  const street = NEXT_STREET[state.street];
+  if (!street) return showDown(state);
+
+  const playerStates = { ...state.playerStates };
+  for (const id of state.seatOrder) {
+    playerStates[id] = { ...playerStates[id], streetBet: 0, hasActed: false };
+  }
+  // Seventh street is the last hole card, already dealt
+  const next: StudState = { ...state, playerStates, street, currentBet: 0, betCount: 0 };
+  const dealt = street === 'seventh' ? next : dealUpCards(next);
+
+  // Everyone but one player is all-in: no more betting, deal the rest out
+  const stillBetting = dealt.seatOrder.filter(id => canAct(dealt.playerStates[id])).length;
+  if (stillBetting < 2) return closeStreet(dealt);
+
+  return { ...dealt, currentTurnPlayerId: firstToAct(dealt) };
+}
+
+// ─── Showdown ───────────────────────────────────────────────────
+
+/** Next player still in whose hole cards aren't face up yet, left of the dealer first */
+function nextToShow(state: StudState): string | null {
+  return livePlayerIds(state).find(id => state.playerStates[id].holeCards.length === 0) ?? null;
+}
+
+/** Betting is over with more than one player in: settle once every hand is face up */
+function showDown(state: StudState): StudState {
+  const next = nextToShow(state);
+  return next
+    ? { ...state, phase: 'showdown', currentTurnPlayerId: next }
+    : settleHand(state);
+}
+
+/** A player still in turns their hole cards up at showdown */
+export function showHoleCards(state: StudState, playerId: string, holeCards: Card[]): StudState {
+  if (state.phase !== 'showdown' || state.currentTurnPlayerId !== playerId) {
+    throw new Error('Not your turn to show');
+  }
+  if (holeCards.length !== HOLE_CARDS) throw new Error('Show all three hole cards');
+
+  return showDown({
+    ...state,
+    playerStates: { ...state.playerStates, [playerId]: { ...state.playerStates[playerId], holeCards } },
+    lastAction: { type: 'show', playerId, amount: state.playerStates[playerId].streetBet, allIn: false },
+  });
+}
+
+/** The state as stored: nobody's hole cards */
+export function hideHoleCards(state: StudState): StudState {
+  return {
+    ...state,
+    playerStates: Object.fromEntries(
+      Object.entries(state.playerStates).map(([id, ps]) => [id, { ...ps, holeCards: [] }])
+    ),
+  };
+}
+
+// ─── Pots ───────────────────────────────────────────────────────
+
+/**
+ * Main pot and side pots, smallest first. Each all-in amount caps a pot that only
+ * the players who covered it can win; folded players' chips stay in but can't win.
+ */
+export function buildStudPots(state: StudState): StudPot[] {
+  const players = state.seatOrder.map(id => state.playerStates[id]);
+  const levels = [...new Set(players.filter(ps => !ps.folded).map(ps => ps.totalBet))].sort((a, b) => a - b);
+
+  const pots: StudPot[] = [];
+  let previous = 0;
+  for (const level of levels) {
+    const amount = players.reduce(
+      (sum, ps) => sum + Math.min(ps.totalBet, level) - Math.min(ps.totalBet, previous),
+      0
+    );
+    const eligiblePlayerIds = players.filter(ps => !ps.folded && ps.totalBet >= level).map(ps => ps.playerId);
+    if (amount > 0) pots.push({ amount, eligiblePlayerIds });
+    previous = level;
+  }
+
+  // Chips a folded player put in above everyone still in go to the last pot
+  const leftover = players.reduce((sum, ps) => sum + Math.max(0, ps.totalBet - previous), 0);
+  if (leftover > 0 && pots.length > 0) pots[pots.length - 1].amount += leftover;
+  return pots;
+}
+
+/** Award every pot and complete the hand */
+function settleHand(state: StudState): StudState {
+  const live = livePlayerIds(state);
+  const variant = STUD_VARIANTS[state.variant];
+  const wildRanks = getStudWildRanks(state);
+  const hands = new Map<string, StudShowdownHand>();
+  if (live.length > 1) {
+    for (const id of live) {
+      const ps = state.playerStates[id];
+      hands.set(id, evaluateStudHand([...ps.holeCards, ...ps.upCards], wildRanks));
+    }
+  }
+
+  const playerStates = { ...state.playerStates };
+  const award = (playerIds: string[], amount: number) => {
+    // Odd chips go to the players closest to the dealer's left
+    const share = Math.floor(amount / playerIds.length);
+    let oddChips = amount - share * playerIds.length;
+    for (const id of playerIds) {
+      const won = share + (oddChips > 0 ? 1 : 0);
+      oddChips = Math.max(0, oddChips - 1);
+      playerStates[id] = { ...playerStates[id], stack: playerStates[id].stack + won };
+    }
+  };
+
+  const results: StudPotResult[] = buildStudPots(state).map(pot => {
+    const contenders = pot.eligiblePlayerIds;
+    if (contenders.length === 1) {
+      award(contenders, pot.amount);
+      return { ...pot, winnerIds: contenders, handDescription: null, splitWinnerId: null, splitDescription: null };
+    }
+
+    const best = Math.max(...contenders.map(id => hands.get(id)!.value));
+    const winnerIds = contenders.filter(id => hands.get(id)!.value === best);
+    const split = variant.splitPotWinner?.(
+      Object.fromEntries(contenders.map(id => [id, state.playerStates[id].holeCards]))
+    ) ?? null;
+
+    // The high hand gets the odd chip of a split pot
+    const splitAmount = split ? Math.floor(pot.amount / 2) : 0;
+    award(winnerIds, pot.amount - splitAmount);
+    if (split) award([split.playerId], splitAmount);
+
+    return {
+      ...pot,
+      winnerIds,
+      handDescription: hands.get(winnerIds[0])!.description,
+      splitWinnerId: split?.playerId ?? null,
+      splitDescription: split?.description ?? null,
+    };
+  });
+
+  return { ...state, playerStates, phase: 'complete', currentTurnPlayerId: null, results };
+}
+
+/** Net chips won or lost by each player this hand */
+export function getStudChipChanges(state: StudState): Record<string, number> {
+  return Object.fromEntries(
+    Object.values(state.playerStates).map(ps => [ps.playerId, ps.stack - ps.startingStack])
+  );
+}
+
+/** Stacks to carry into the next hand */
+export function getStudStacks(state: StudState): Record<string, number> {
+  return Object.fromEntries(Object.values(state.playerStates).map(ps => [ps.playerId, ps.stack]));
+}
@@ -0,0 +1,71 @@
+// Seven-card stud (with its home variants) as a game module (see gameModule.ts)
+
+import type { GameRules } from './gameModule';
+import type { Card } from './cardUtils';
+import type { StudState, StudVariantId } from './studTypes';
+import { applyStudBet, dealStudHand, showHoleCards } from './studGameLogic';
+import { getBotStudDecision } from './studBotLogic';
+import { isStudVariant } from './studVariants';
+
+export interface StudConfig {
+  variant: StudVariantId;
+  ante: number;
+  /** Third and fourth street bet; the bring-in is half of it and the big bet double */
+  smallBet: number;
+  /** Price of an up card the variant lets a player buy */
+  buyPrice: number;
+}
+
+/** Fixed limit: bets and raises are always the street's bet size */
+export type StudAction =
+  | { type: 'fold'; playerId: string }
+  | { type: 'check'; playerId: string }
+  | { type: 'call'; playerId: string }
+  | { type: 'bet'; playerId: string }
+  | { type: 'raise'; playerId: string }
+  | { type: 'show'; playerId: string; holeCards: Card[] };
+
+export const studModule: GameRules<StudState, StudAction, StudConfig> = {
+  id: 'stud',
+
+  config: {
+    defaults: { variant: 'standard', ante: 1, smallBet: 2, buyPrice: 2 },
+    fromGame: game => ({
+      variant: isStudVariant(game.stud_variant) ? game.stud_variant : 'standard',
+      ante: game.stud_ante ?? 1,
+      smallBet: game.stud_small_bet ?? 2,
+      buyPrice: game.stud_buy_price ?? 2,
+    }),
+  },
+
+  // The ante amount is the buy-in, as in hold'em: everyone starts with that many chips in
+  // front of them. Later hands are dealt with the stacks carried over (see studRoundLogic.ts).
+  createInitialState: ({ playerIds, dealerPlayerId, anteAmount, config }, random) =>
+    dealStudHand(
+      {
+        playerIds,
+        dealerPlayerId,
+        stacks: Object.fromEntries(playerIds.map(id => [id, anteAmount])),
+        ...config,
+      },
+      random
+    ),
+
+  reduce: (state, action) =>
+    action.type === 'show'
+      ? showHoleCards(state, action.playerId, action.holeCards)
+      : applyStudBet(state, action.playerId, action.type),
+
+  getActivePlayerId: state => (state.phase === 'complete' ? null : state.currentTurnPlayerId),
+
+  isHandOver: state => state.phase === 'complete',
+
+  // Needs the bot's hole cards in the state: the table puts them back from player_cards
+  botAction: (state, playerId) => {
+    if (state.phase !== 'betting' || state.currentTurnPlayerId !== playerId) return null;
+    const { holeCards } = state.playerStates[playerId];
+    if (holeCards.length === 0) return null;
+
+    return { type: getBotStudDecision(state, playerId, holeCards).type, playerId };
+  },
+};
@@ -0,0 +1,368 @@
+// Seven-card stud round orchestration - database integration layer
+// Follows the same patterns as holdemRoundLogic.ts:
+// - DB-First round creation with atomic guards
+// - State persistence via game_state JSONB column
+// - Atomic claim before chips move at the end of a hand
+//
+// rounds.game_state is public, so it is stored without hole cards (hideHoleCards). Each
+// player's three down cards go to player_cards at the deal, the seventh-street card with
+// them: the table keeps it face down to its owner until seventh street. The round's
+// 'showdown' status opens player_cards up.
+
+import { fetchPlayerDisplayName, getGameRepository, isUniqueViolation, type GameRow } from './gameRepository';
+import { studModule } from './studModule';
+import {
+  dealStudHand,
+  getStudChipChanges,
+  getStudPotTotal,
+  getStudStacks,
+  hideHoleCards,
+} from './studGameLogic';
+import { snapshotPlayerChips } from './gameLogic';
+import { logDeal } from './handActionLog';
+import { drawFairDeckRandom } from './handFairness';
+import type { Json } from '@/integrations/supabase/types';
+import type { Card } from './cardUtils';
+import type { StudState } from './studTypes';
+
+type StudRoundResult = {
+  success: boolean;
+  roundId?: string;
+  handNumber?: number;
+  error?: string;
+  alreadyStarted?: boolean;
+};
+
+/**
+ * Start the first stud hand.
+ * Everyone buys in for the ante amount; the player in the dealer position deals.
+ */
+export async function startStudRound(gameId: string): Promise<StudRoundResult> {
+  console.log('[STUD] Starting stud round', { gameId });
+  const repo = getGameRepository();
+
+  try {
+    const { data: game, error: gameError } = await repo.games.get(gameId);
+
+    if (gameError || !game) {
+      throw new Error(`Failed to fetch game: ${gameError?.message}`);
+    }
+
+    if (game.status === 'game_over' || game.status === 'session_ended') {
+      return { success: false, error: 'Game already over' };
+    }
+
+    const { data: players, error: playersError } = await repo.players.listByGame(gameId);
+
+    if (playersError) {
+      throw new Error(`Failed to fetch players: ${playersError.message}`);
+    }
+
+    const activePlayers = (players || [])
+      .filter(p => !p.sitting_out && p.status === 'active')
+      .sort((a, b) => a.position - b.position);
+
+    if (activePlayers.length < 2) {
+      throw new Error('Stud requires at least 2 players');
+    }
+
+    const dealerPosition = game.dealer_position || 1;
+    const dealerPlayer = activePlayers.find(p => p.position === dealerPosition) || activePlayers[0];
+    const buyIn = game.ante_amount || 1;
+
+    const dealerGameId = game.current_game_uuid;
+    if (!dealerGameId) {
+      throw new Error('No dealer_game_id - cannot create round');
+    }
+
+    const result = await dealStudRound(
+      game,
+      dealerGameId,
+      activePlayers.map(p => p.id),
+      dealerPlayer.id,
+      Object.fromEntries(activePlayers.map(p => [p.id, buyIn]))
+    );
+
+    if (result.roundId) {
+      await repo.games.update(gameId, {
+        status: 'in_progress',
+        current_round: 1,
+        pot: 0,
+      });
+    }
+    return result;
+
+  } catch (error) {
+    console.error('[STUD] Error starting round:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Start the next stud hand (after a hand completes).
+ * Stacks carry over, the deal moves one seat left, and players who joined since buy in.
+ */
+export async function startNextStudHand(
+  gameId: string,
+  dealerGameId: string,
+  previousState: StudState
+): Promise<StudRoundResult> {
+  console.log('[STUD] Starting next hand', { gameId, dealerGameId });
+  const repo = getGameRepository();
+
+  try {
+    const { data: game, error: gameError } = await repo.games.get(gameId);
+    if (gameError || !game) {
+      throw new Error(`Failed to fetch game: ${gameError?.message}`);
+    }
+
+    const { data: players, error: playersError } = await repo.players.listByGame(gameId);
+    if (playersError) {
+      throw new Error(`Failed to fetch players: ${playersError.message}`);
+    }
+
+    const carried = getStudStacks(previousState);
+    const buyIn = game.ante_amount || 1;
+    const seated = (players || [])
+      .filter(p => !p.sitting_out && p.status === 'active')
+      .sort((a, b) => a.position - b.position);
+    const stacks = Object.fromEntries(seated.map(p => [p.id, carried[p.id] ?? buyIn]));
+    const inHand = seated.filter(p => stacks[p.id] > 0);
+
+    if (inHand.length < 2) {
+      return { success: false, error: 'Not enough players with chips' };
+    }
+
+    // The deal goes to the next seat with chips after the last dealer's
+    const lastDealer = seated.find(p => p.id === previousState.dealerPlayerId);
+    const lastDealerPosition = lastDealer?.position ?? 0;
+    const nextDealer = inHand.find(p => p.position > lastDealerPosition) || inHand[0];
+
+    return await dealStudRound(
+      game,
+      dealerGameId,
+      seated.map(p => p.id),
+      nextDealer.id,
+      stacks
+    );
+
+  } catch (error) {
+    console.error('[STUD] Error starting next hand:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/** Deal a hand into a new round row; hole cards go to player_cards, the rest to game_state */
+async function dealStudRound(
+  game: GameRow,
+  dealerGameId: string,
+  playerIds: string[],
+  dealerPlayerId: string,
+  stacks: Record<string, number>
+): Promise<StudRoundResult> {
+  const repo = getGameRepository();
+
+  // Calculate hand number (DB-First)
+  const { data: latestHandNumber } = await repo.rounds.getLatestHandNumber(dealerGameId);
+  const handNumber = (latestHandNumber ?? 0) + 1;
+
+  // Real-money hands shuffle from the hand's committed seed; the stub is kept in the state,
+  // so the whole deck is dealt
+  const random = await drawFairDeckRandom(game.id, 52);
+  const config = studModule.config.fromGame(game);
+  const dealt = dealStudHand({ playerIds, dealerPlayerId, stacks, ...config }, random);
+  const stored = hideHoleCards(dealt);
+
+  const { data: round, error: roundError } = await repo.rounds.insert({
+    game_id: game.id,
+    dealer_game_id: dealerGameId,
+    round_number: 1, // One round per hand, like gin rummy
+    hand_number: handNumber,
+    cards_dealt: 3,
+    pot: getStudPotTotal(stored),
+    bet_amount: stored.currentBet,
+    status: 'betting',
+    game_state: stored as unknown as Json,
+  });
+
+  if (roundError || !round) {
+    // Atomic guard: unique constraint violation means another client already created it
+    if (isUniqueViolation(roundError)) {
+      console.log('[STUD] Round already exists (atomic guard)');
+      return { success: true, alreadyStarted: true };
+    }
+    throw new Error(`Failed to create round: ${roundError?.message}`);
+  }
+
+  const insertedHandNumber = round.hand_number ?? handNumber;
+
+  await repo.games.update(game.id, {
+    total_hands: insertedHandNumber,
+    is_first_hand: insertedHandNumber === 1,
+  });
+
+  void logDeal(round.id, { state: stored, dealtTo: stored.seatOrder, cardsDealt: 3 });
+
+  // Hole cards stay private until the showdown
+  for (const playerId of stored.seatOrder) {
+    const { error } = await repo.playerCards.upsert({
+      player_id: playerId,
+      round_id: round.id,
+      cards: dealt.playerStates[playerId].holeCards as unknown as Json,
+    });
+    if (error) console.warn('[STUD] Failed to store player cards:', playerId, error.message);
+  }
+
+  console.log('[STUD] Hand dealt', { roundId: round.id, handNumber: insertedHandNumber });
+  return { success: true, roundId: round.id, handNumber: insertedHandNumber };
+}
+
+/**
+ * Update stud state in the database (after each action).
+ * Hole cards are stripped; reaching the showdown opens up player_cards.
+ */
+export async function updateStudState(roundId: string, newState: StudState): Promise<boolean> {
+  // Hole cards shown down are face up for everyone
+  const stored = newState.phase === 'betting' ? hideHoleCards(newState) : newState;
+
+  try {
+    const { error } = await getGameRepository().rounds.update(
+      roundId,
+      {
+        game_state: JSON.parse(JSON.stringify(stored)),
+        pot: getStudPotTotal(stored),
+        bet_amount: stored.currentBet,
+        ...(stored.phase === 'showdown' ? { status: 'showdown' } : {}),
+      },
+      { neq: { status: 'completed' } }
+    );
+
+    if (error) {
+      console.error('[STUD] Failed to update state:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('[STUD] Error updating state:', error);
+    return false;
+  }
+}
+
+/** Hole cards dealt to a player this round (their own, or anyone's once the round shows down) */
+export async function fetchStudHoleCards(roundId: string, playerId: string): Promise<Card[]> {
+  const { data } = await getGameRepository().playerCards.get(roundId, playerId);
+  return (data?.cards as unknown as Card[] | null) ?? [];
+}
+
+/**
+ * Settle a completed hand: move the chips and record it for hand history.
+ * Uses atomic claim pattern (transition status to 'completed') so only one client pays out.
+ */
+export async function recordStudHandResult(
+  gameId: string,
+  roundId: string,
+  studState: StudState
+): Promise<boolean> {
+  const repo = getGameRepository();
+
+  if (studState.phase !== 'complete' || !studState.results) {
+    console.warn('[STUD] Hand not complete, nothing to record');
+    return false;
+  }
+
+  const { data: claimedRounds, error: claimError } = await repo.rounds.update(
+    roundId,
+    { status: 'completed', game_state: JSON.parse(JSON.stringify(studState)) },
+    { neq: { status: 'completed' } }
+  );
+
+  if (claimError) {
+    console.error('[STUD] Failed to claim hand result:', claimError);
+    return false;
+  }
+
+  const claimedRound = claimedRounds && claimedRounds.length > 0 ? claimedRounds[0] : null;
+  if (!claimedRound) {
+    console.log('[STUD] Hand already settled by another client');
+    return true;
+  }
+
+  const chipChanges = getStudChipChanges(studState);
+  for (const [playerId, change] of Object.entries(chipChanges)) {
+    if (change === 0) continue;
+    const { error } = await repo.players.incrementChips(playerId, change);
+    if (error) console.error('[STUD] Failed to move chips:', playerId, error);
+  }
+
+  // The main pot decides whose hand the result is named after
+  const [mainPot] = studState.results;
+  const winnerId = mainPot.winnerIds[0];
+  const winnerUsername = await fetchPlayerDisplayName(gameId, winnerId);
+  let description = mainPot.handDescription
+    ? `${winnerUsername}: ${mainPot.handDescription}`
+    : `${winnerUsername} wins uncontested`;
+  // Low Chicago: the other half of the main pot
+  if (mainPot.splitWinnerId) {
+    description += ` / ${await fetchPlayerDisplayName(gameId, mainPot.splitWinnerId)}: ${mainPot.splitDescription}`;
+  }
+
+  const { error: resultError } = await repo.gameResults.insert({
+    game_id: gameId,
+    dealer_game_id: claimedRound.dealer_game_id,
+    hand_number: claimedRound.hand_number ?? 1,
+    pot_won: studState.results.reduce((sum, pot) => sum + pot.amount, 0),
+    winner_player_id: winnerId,
+    winner_username: winnerUsername,
+    winning_hand_description: description,
+    is_chopped: mainPot.winnerIds.length > 1 || mainPot.splitWinnerId !== null,
+    player_chip_changes: chipChanges,
+    game_type: 'stud',
+  });
+  if (resultError) console.error('[STUD] Failed to record result:', resultError);
+
+  await repo.games.update(gameId, { last_round_result: description });
+
+  await snapshotPlayerChips(gameId, claimedRound.hand_number ?? 1).catch((err) => {
+    console.error('[STUD] Failed to snapshot chips:', err);
+  });
+
+  console.log('[STUD] Hand settled', { roundId, description, chipChanges });
+  return true;
+}
+
+/** Players who can be dealt another hand */
+export function getStudPlayersWithChips(studState: StudState): string[] {
+  return Object.entries(getStudStacks(studState))
+    .filter(([, stack]) => stack > 0)
+    .map(([playerId]) => playerId);
+}
+
+/**
+ * End the game once only one player has chips left.
+ * Chips already moved hand by hand, so this only announces the winner.
+ */
+export async function endStudGame(gameId: string, studState: StudState): Promise<boolean> {
+  const repo = getGameRepository();
+
+  try {
+    const [winnerId] = getStudPlayersWithChips(studState);
+    const winnerUsername = winnerId ? await fetchPlayerDisplayName(gameId, winnerId) : 'Nobody';
+
+    await repo.games.update(
+      gameId,
+      {
+        status: 'game_over',
+        pot: 0,
+        last_round_result: `${winnerUsername} wins the table`,
+        game_over_at: new Date().toISOString(),
+      },
+      { neq: { status: 'game_over' } }
+    );
+
+    console.log('[STUD] Game over', { gameId, winnerId });
+    return true;
+  } catch (error) {
+    console.error('[STUD] Error ending game:', error);
+    return false;
+  }
+}
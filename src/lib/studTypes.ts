@@ -0,0 +1,100 @@
+// Seven-card stud game types and interfaces
+// Cards use the poker Card from cardUtils ('♠','♥','♦','♣' suits)
+
+import type { Card } from './cardUtils';
+
+export type StudStreet = 'third' | 'fourth' | 'fifth' | 'sixth' | 'seventh';
+
+/** Home-game variants; their rule hooks are in studVariants.ts */
+export type StudVariantId = 'standard' | 'baseball' | 'follow-the-queen' | 'low-chicago';
+
+export type StudPhase =
+  | 'betting' // A street's betting round is open
+  | 'showdown' // Betting is over; players still in turn their hole cards up
+  | 'complete'; // Pots awarded (by showdown or because everyone else folded)
+
+export interface StudPlayerState {
+  playerId: string;
+  /**
+   * All three face-down cards, dealt up front; the third only plays from seventh street.
+   * Empty in the stored state until shown down: they're kept in player_cards, which only
+   * the owner can read before the showdown (rounds.game_state is public)
+   */
+  holeCards: Card[];
+  /** Face-up cards in the order dealt (Baseball can deal more than four) */
+  upCards: Card[];
+  /** Chips behind - not yet put into the pot */
+  stack: number;
+  /** Stack before the ante; the hand's chip change is measured from here */
+  startingStack: number;
+  /** Put in on the current street */
+  streetBet: number;
+  /** Put in over the whole hand, ante and bought cards included (sizes the side pots) */
+  totalBet: number;
+  folded: boolean;
+  allIn: boolean;
+  /** Acted since the last full bet or raise */
+  hasActed: boolean;
+}
+
+export interface StudPot {
+  amount: number;
+  /** Players still in the hand who put in enough to win this pot */
+  eligiblePlayerIds: string[];
+}
+
+export interface StudPotResult extends StudPot {
+  /** Best high hand(s); they share the whole pot unless the variant splits it */
+  winnerIds: string[];
+  /** Best five cards' description, or null when nobody else was left to show down */
+  handDescription: string | null;
+  /** Player taking the variant's half of the pot (Low Chicago's low spade in the hole) */
+  splitWinnerId: string | null;
+  splitDescription: string | null;
+}
+
+export type StudActionType = 'fold' | 'check' | 'call' | 'bet' | 'raise' | 'show';
+
+export interface StudLastAction {
+  type: StudActionType | 'bring_in' | 'buy';
+  playerId: string;
+  /** Street bet the player has in after the action (the price paid for a bought card) */
+  amount: number;
+  allIn: boolean;
+}
+
+export interface StudState {
+  variant: StudVariantId;
+  phase: StudPhase;
+  street: StudStreet;
+  dealerPlayerId: string;
+  /** Players dealt in, clockwise starting left of the dealer (the dealer is last) */
+  seatOrder: string[];
+  playerStates: Record<string, StudPlayerState>;
+
+  ante: number;
+  /** Forced opening bet on third street, paid by the lowest door card */
+  bringIn: number;
+  /** Fixed bet size on third and fourth street */
+  smallBet: number;
+  /** Fixed bet size from fifth street on */
+  bigBet: number;
+  /** Price of an extra up card the variant deals (Baseball's 4s) */
+  buyPrice: number;
+
+  /** Cards left to deal face up, shuffled up front like Hold'em's board */
+  stub: Card[];
+  /** Every card dealt face up so far, in deal order (Follow the Queen's wilds come from it) */
+  upCardsDealt: Card[];
+
+  bringInPlayerId: string;
+  currentTurnPlayerId: string | null;
+  /** Highest street bet - what everyone still in has to match */
+  currentBet: number;
+  /** Bets and raises made this street; betting is capped at four */
+  betCount: number;
+
+  /** Filled in when the hand completes */
+  results: StudPotResult[] | null;
+  lastAction: StudLastAction | null;
+}
@@ -0,0 +1,80 @@
+// Seven-card stud home variants
+// Each variant is a set of rule hooks the stud engine (studGameLogic.ts) calls at fixed points:
+// which ranks are wild, whether a face-up card buys another, and who takes half of each pot.
+
+import { RANK_VALUES, type Card, type Rank } from './cardUtils';
+import type { StudVariantId } from './studTypes';
+
+export interface StudVariantRules {
+  id: StudVariantId;
+  name: string;
+  description: string;
+  /** Ranks that are wild, given every card dealt face up so far in deal order */
+  wildRanks(upCardsDealt: Card[]): Rank[];
+  /** A face-up card that lets its player buy another face-up card */
+  buysUpCard?(card: Card): boolean;
+  /**
+   * The player who takes half of a pot instead of the high hand, from the hole cards
+   * of the players contending it; null gives the high hand the whole pot
+   */
+  splitPotWinner?(holeCards: Record<string, Card[]>): { playerId: string; description: string } | null;
+}
+
+/** Follow the Queen: queens are wild, and so is the rank of the next card up after the last queen up */
+function followTheQueenWilds(upCardsDealt: Card[]): Rank[] {
+  let followRank: Rank | null = null;
+  upCardsDealt.forEach((card, i) => {
+    if (card.rank !== 'Q') return;
+    // A queen up last (nothing dealt after it yet) leaves only queens wild
+    const next = upCardsDealt[i + 1];
+    followRank = next && next.rank !== 'Q' ? next.rank : null;
+  });
+  return followRank ? ['Q', followRank] : ['Q'];
+}
+
+/** Low Chicago: the lowest spade in the hole among the players contending the pot */
+function lowSpadeInTheHole(holeCards: Record<string, Card[]>): { playerId: string; description: string } | null {
+  let best: { playerId: string; card: Card } | null = null;
+  for (const [playerId, cards] of Object.entries(holeCards)) {
+    for (const card of cards) {
+      if (card.suit !== '♠') continue;
+      if (!best || RANK_VALUES[card.rank] < RANK_VALUES[best.card.rank]) best = { playerId, card };
+    }
+  }
+  return best ? { playerId: best.playerId, description: `Low spade ${best.card.rank}♠` } : null;
+}
+
+export const STUD_VARIANTS: Record<StudVariantId, StudVariantRules> = {
+  standard: {
+    id: 'standard',
+    name: 'Seven-Card Stud',
+    description: 'No wild cards',
+    wildRanks: () => [],
+  },
+  baseball: {
+    id: 'baseball',
+    name: 'Baseball',
+    description: '3s and 9s wild • a 4 up buys another card',
+    wildRanks: () => ['3', '9'],
+    buysUpCard: card => card.rank === '4',
+  },
+  'follow-the-queen': {
+    id: 'follow-the-queen',
+    name: 'Follow the Queen',
+    description: 'Queens wild, and the card up after the last queen up',
+    wildRanks: followTheQueenWilds,
+  },
+  'low-chicago': {
+    id: 'low-chicago',
+    name: 'Low Chicago',
+    description: 'High hand splits the pot with the low spade in the hole',
+    wildRanks: () => [],
+    splitPotWinner: lowSpadeInTheHole,
+  },
+};
+
+export const STUD_VARIANT_LIST: StudVariantRules[] = Object.values(STUD_VARIANTS);
+
+export function isStudVariant(value: unknown): value is StudVariantId {
+  return typeof value === 'string' && value in STUD_VARIANTS;
+}
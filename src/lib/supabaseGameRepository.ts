@@ -0,0 +1,161 @@
+// Supabase backend for GameRepository (the one the app runs on)
+
+import { supabase } from '@/integrations/supabase/client';
+import type { GameRepository, PlayerWithProfile, RowFilter, ScrewYourNeighborSwap } from './gameRepository';
+
+interface FilterBuilder {
+  eq(column: string, value: unknown): FilterBuilder;
+  neq(column: string, value: unknown): FilterBuilder;
+  is(column: string, value: null): FilterBuilder;
+  not(column: string, operator: string, value: unknown): FilterBuilder;
+}
+
+function applyFilter<Q, Row>(query: Q, filter: RowFilter<Row> | undefined): Q {
+  let q = query as unknown as FilterBuilder;
+  for (const [column, value] of Object.entries(filter?.eq ?? {})) {
+    q = value === null ? q.is(column, null) : q.eq(column, value);
+  }
+  for (const [column, value] of Object.entries(filter?.neq ?? {})) {
+    q = value === null ? q.not(column, 'is', null) : q.neq(column, value);
+  }
+  return q as unknown as Q;
+}
+
+const PLAYER_WITH_PROFILE = '*, profiles(username)';
+
+export const supabaseGameRepository: GameRepository = {
+  games: {
+    get: async gameId =>
+      supabase.from('games').select('*').eq('id', gameId).maybeSingle(),
+
+    update: async (gameId, patch, filter) =>
+      applyFilter(supabase.from('games').update(patch).eq('id', gameId), filter).select(),
+
+    getDealerGameConfig: async dealerGameId => {
+      const { data, error } = await supabase
+        .from('dealer_games')
+        .select('config')
+        .eq('id', dealerGameId)
+        .maybeSingle();
+      return { data: data?.config ?? null, error };
+    },
+
+    getDefaults: async gameType =>
+      supabase.from('game_defaults').select('*').eq('game_type', gameType).maybeSingle(),
+  },
+
+  players: {
+    get: async playerId => {
+      const { data, error } = await supabase
+        .from('players')
+        .select(PLAYER_WITH_PROFILE)
+        .eq('id', playerId)
+        .maybeSingle();
+      return { data: data as PlayerWithProfile | null, error };
+    },
+
+    listByGame: async gameId => {
+      const { data, error } = await supabase
+        .from('players')
+        .select(PLAYER_WITH_PROFILE)
+        .eq('game_id', gameId)
+        .order('position');
+      return { data: data as PlayerWithProfile[] | null, error };
+    },
+
+    update: async (playerIds, patch) =>
+      supabase.from('players').update(patch).in('id', playerIds).select(),
+
+    updateByGame: async (gameId, patch) =>
+      supabase.from('players').update(patch).eq('game_id', gameId).select(),
+
+    incrementChips: async (playerId, amount) =>
+      supabase.rpc('increment_player_chips', { p_player_id: playerId, p_amount: amount }),
+
+    decrementChips: async (playerIds, amount) => {
+      const { error } = await supabase.rpc('decrement_player_chips', { player_ids: playerIds, amount });
+      return { data: null, error };
+    },
+  },
+
+  rounds: {
+    get: async roundId =>
+      supabase.from('rounds').select('*').eq('id', roundId).maybeSingle(),
+
+    findByHand: async (dealerGameId, handNumber, roundNumber) =>
+      applyFilter(supabase.from('rounds').select('*'), { eq: { dealer_game_id: dealerGameId } })
+        .eq('hand_number', handNumber)
+        .eq('round_number', roundNumber)
+        .maybeSingle(),
+
+    getLatestHandNumber: async dealerGameId => {
+      const { data, error } = await applyFilter(supabase.from('rounds').select('hand_number'), {
+        eq: { dealer_game_id: dealerGameId },
+      })
+        .order('hand_number', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      return { data: error ? null : data?.hand_number ?? 0, error };
+    },
+
+    insert: async round =>
+      supabase.from('rounds').insert(round).select().single(),
+
+    update: async (roundId, patch, filter) =>
+      applyFilter(supabase.from('rounds').update(patch).eq('id', roundId), filter).select(),
+  },
+
+  playerCards: {
+    get: async (roundId, playerId) =>
+      supabase.from('player_cards').select('*').eq('round_id', roundId).eq('player_id', playerId).maybeSingle(),
+
+    insert: async rows => {
+      const { error } = await supabase.from('player_cards').insert(rows);
+      return { data: null, error };
+    },
+
+    upsert: async row => {
+      const { error } = await supabase.from('player_cards').upsert(row, { onConflict: 'player_id,round_id' });
+      return { data: null, error };
+    },
+
+    update: async (roundId, playerIds, patch) =>
+      supabase.from('player_cards').update(patch).eq('round_id', roundId).in('player_id', playerIds).select(),
+
+    swapScrewYourNeighborCards: async roundId => {
+      const { data, error } = await supabase.rpc('swap_screw_your_neighbor_cards', { _round_id: roundId });
+      return { data: data as unknown as ScrewYourNeighborSwap | null, error };
+    },
+  },
+
+  gameResults: {
+    insert: async result => {
+      const { error } = await supabase.from('game_results').insert(result);
+      return { data: null, error };
+    },
+  },
+
+  handActions: {
+    append: async action =>
+      supabase.rpc('append_hand_action', {
+        _round_id: action.roundId,
+        _action_type: action.actionType,
+        _payload: action.payload ?? {},
+        _player_id: action.playerId ?? undefined,
+        _action_key: action.actionKey ?? undefined,
+      }),
+
+    listByHand: async roundId => {
+      const { data: round, error: roundError } = await supabase
+        .from('rounds')
+        .select('game_id, dealer_game_id, hand_number')
+        .eq('id', roundId)
+        .maybeSingle();
+      if (roundError || !round) return { data: null, error: roundError };
+
+      return applyFilter(supabase.from('hand_actions').select('*'), {
+        eq: { game_id: round.game_id, dealer_game_id: round.dealer_game_id, hand_number: round.hand_number ?? 1 },
+      }).order('sequence_number');
+    },
+  },
+};
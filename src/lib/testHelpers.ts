@@ -0,0 +1,65 @@
+// Fixtures shared by the game logic tests
+
+import { createDeck, type Card, type Rank, type Suit } from './cardUtils';
+import type { RandomSource } from '@rules/random.ts';
+import type { Trick } from './trickTaking';
+import { createDealtOrderSource } from '@rules/fairness.ts';
+
+/** Three players with 'c' dealing: 'a' acts first, then 'b', then 'c' */
+export const THREE_HANDED = { playerIds: ['a', 'b', 'c'], dealerPlayerId: 'c' };
+
+/** Four seats for the partnership games: 'a' and 'c' against 'b' and 'd' */
+export const SEATS = ['a', 'b', 'c', 'd'];
+
+// 'A♠' -> { rank: 'A', suit: '♠' }
+export function card(code: string): Card {
+  return { rank: code.slice(0, -1) as Rank, suit: code.slice(-1) as Suit };
+}
+
+export function cards(...codes: string[]): Card[] {
+  return codes.map(card);
+}
+
+/** A random source that rolls the given die values in order */
+export function diceRolling(...values: number[]): RandomSource {
+  let i = 0;
+  return () => (values[i++] - 1) / 6 + 0.01;
+}
+
+/** A random source for one shuffle of a full deck that puts these cards on top, in order */
+export function cardsOnTop(top: Card[]): RandomSource {
+  const deck = createDeck();
+  const positions = top.map(c => deck.findIndex(d => d.rank === c.rank && d.suit === c.suit));
+  return createDealtOrderSource(positions, deck.length);
+}
+
+/** Replace the shuffled hole cards with known ones */
+export function rigHoleCards<S extends { playerStates: Record<string, { holeCards: Card[] }> }>(
+  state: S,
+  holeCards: Record<string, Card[]>
+): S {
+  const playerStates = { ...state.playerStates };
+  for (const [id, hole] of Object.entries(holeCards)) playerStates[id] = { ...playerStates[id], holeCards: hole };
+  return { ...state, playerStates };
+}
+
+/** A partnership hand before its first trick: 'd' dealt, so 'a' is first to act */
+export function partnershipHand(hands: Record<string, Card[]>) {
+  return {
+    seats: SEATS,
+    dealerPlayerId: 'd',
+    hands,
+    currentTurnPlayerId: 'a',
+    currentTrick: null,
+    tricks: [] as Trick[],
+    teamScores: [0, 0],
+    result: null,
+  };
+}
+
+/** Finished tricks, `wins[id]` of them taken by each player */
+export function tricksTaken(wins: Record<string, number>): Trick[] {
+  return Object.entries(wins).flatMap(([winnerId, count]) =>
+    Array.from({ length: count }, () => ({ leaderId: winnerId, plays: [], winnerId }))
+  );
+}
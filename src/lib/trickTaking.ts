@@ -0,0 +1,132 @@
+// Trick-taking core
+// Pure helpers shared by the trick games: who may play what to a trick and who takes it. A game
+// supplies its trump and, where it moves cards between suits or reorders them (euchre's bowers),
+// how each card plays; leading restrictions such as spades or hearts having to be broken come in
+// as a `canLead` check.
+
+import { RANK_VALUES, type Card, type Suit } from './cardUtils';
+
+export interface TrickPlay {
+  playerId: string;
+  card: Card;
+}
+
+export interface Trick {
+  leaderId: string;
+  /** Cards in the order they were played, the lead first */
+  plays: TrickPlay[];
+  /** Who took it; null until every seat has played */
+  winnerId: string | null;
+}
+
+/** How a game's cards play to a trick */
+export interface TrickRules {
+  trumpSuit: Suit | null;
+  /** The suit a card plays as; defaults to its own (euchre's left bower plays as trump) */
+  suitOf?: (card: Card) => Suit;
+  /** A card's strength within the suit it plays as, higher wins; defaults to ace high */
+  rankOf?: (card: Card) => number;
+}
+
+export function isSameCard(a: Card, b: Card): boolean {
+  return a.rank === b.rank && a.suit === b.suit;
+}
+
+/** `hand` without one copy of `card` */
+export function removeCard(hand: Card[], card: Card): Card[] {
+  const idx = hand.findIndex(c => isSameCard(c, card));
+  return idx === -1 ? hand : [...hand.slice(0, idx), ...hand.slice(idx + 1)];
+}
+
+export function getPlaySuit(card: Card, rules: TrickRules): Suit {
+  return rules.suitOf ? rules.suitOf(card) : card.suit;
+}
+
+function getPlayRank(card: Card, rules: TrickRules): number {
+  return rules.rankOf ? rules.rankOf(card) : RANK_VALUES[card.rank];
+}
+
+export function getLedSuit(trick: Trick | null, rules: TrickRules): Suit | null {
+  const lead = trick?.plays[0];
+  return lead ? getPlaySuit(lead.card, rules) : null;
+}
+
+/**
+ * The cards in `hand` that may go to `trick`: any card allowed to lead (all of them when none
+ * is), otherwise the led suit when the hand has it and anything when it doesn't.
+ */
+export function getLegalPlays(
+  hand: Card[],
+  trick: Trick | null,
+  rules: TrickRules,
+  canLead: (card: Card) => boolean = () => true
+): Card[] {
+  const ledSuit = getLedSuit(trick, rules);
+  if (!ledSuit) {
+    const leads = hand.filter(canLead);
+    return leads.length > 0 ? leads : hand;
+  }
+  const following = hand.filter(card => getPlaySuit(card, rules) === ledSuit);
+  return following.length > 0 ? following : hand;
+}
+
+export function isLegalPlay(
+  hand: Card[],
+  trick: Trick | null,
+  card: Card,
+  rules: TrickRules,
+  canLead?: (card: Card) => boolean
+): boolean {
+  return getLegalPlays(hand, trick, rules, canLead).some(c => isSameCard(c, card));
+}
+
+/** The play taking the trick so far: the highest trump, or the highest card of the led suit */
+export function getWinningPlay(trick: Trick, rules: TrickRules): TrickPlay | null {
+  const ledSuit = getLedSuit(trick, rules);
+  let best: TrickPlay | null = null;
+  for (const play of trick.plays) {
+    if (!best) {
+      best = play;
+      continue;
+    }
+    const suit = getPlaySuit(play.card, rules);
+    const bestSuit = getPlaySuit(best.card, rules);
+    const beats = suit === bestSuit
+      ? getPlayRank(play.card, rules) > getPlayRank(best.card, rules)
+      : suit === rules.trumpSuit || (bestSuit !== rules.trumpSuit && suit === ledSuit && bestSuit !== ledSuit);
+    if (beats) best = play;
+  }
+  return best;
+}
+
+/** Partnerships sit across: 0 for the first and third seats, 1 for the second and fourth */
+export function getPartnershipTeam(seats: string[], playerId: string): number {
+  return seats.indexOf(playerId) % 2;
+}
+
+/** The player across the table */
+export function getPartner(seats: string[], playerId: string): string {
+  return seats[(seats.indexOf(playerId) + 2) % seats.length];
+}
+
+/** The seat after `playerId`, going round `seats` in play order */
+export function getNextSeat(seats: string[], playerId: string): string {
+  return seats[(seats.indexOf(playerId) + 1) % seats.length];
+}
+
+/**
+ * Add a card to the trick in progress (starting one when there isn't), closing it with its
+ * winner once every seat has played. The caller checks the play is legal.
+ */
+export function addTrickPlay(
+  trick: Trick | null,
+  play: TrickPlay,
+  seatCount: number,
+  rules: TrickRules
+): Trick {
+  const next: Trick = trick
+    ? { ...trick, plays: [...trick.plays, play] }
+    : { leaderId: play.playerId, plays: [play], winnerId: null };
+  if (next.plays.length < seatCount) return next;
+  return { ...next, winnerId: getWinningPlay(next, rules)!.playerId };
+}
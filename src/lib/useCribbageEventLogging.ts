@@ -13,18 +13,23 @@ import {
   logCribReveal,
   logCribScoringCombo,
   logCutCardReveal,
+  logCountDeclared,
+  logMugginsClaim,
   buildScoresAfter,
   resetCribbageEventSequence,
 } from './cribbageEventLog';
 import { getHandScoringCombos } from './cribbageScoringDetails';
 import { getCardPointValue } from './cribbageScoring';
+import { getCribbageCountCards, getMugginsOutcome } from './cribbageGameLogic';
 import {
   seqCribReveal,
+  seqCountDeclared,
   seqCribScoring,
   seqCutCard,
   seqGoAfterPlay,
   seqHandScoring,
   seqHisHeels,
+  seqMugginsClaim,
   seqPeggingPlay,
 } from './cribbageEventSequence';
 
@@ -302,6 +307,22 @@ export function logCountingScoringEvents(
   }
   if (!ctx || !state.cutCard) return;
 
+  // With muggins the owners declare their own counts, logged as they come in; only the crib is shown here
+  if (state.counts) {
+    if (state.crib.length > 0) {
+      logCribReveal(
+        ctx.roundId,
+        ctx.dealerGameId,
+        ctx.handNumber,
+        state.dealerPlayerId,
+        state.crib,
+        { ...runningScores },
+        seqCribReveal()
+      );
+    }
+    return;
+  }
+
   // Deterministic scoring order:
   // - Everyone except dealer
   // - Dealer
@@ -371,3 +392,66 @@ export function logCountingScoringEvents(
     );
   }
 }
+
+/**
+ * Log a muggins declaration after state mutation.
+ * All clients can safely call this - atomic DB guard prevents duplicates.
+ */
+export function logCountDeclaredEvent(
+  ctx: CribbageEventContext | null,
+  oldState: CribbageState,
+  newState: CribbageState,
+  countIndex: number
+): void {
+  if (!ctx) {
+    console.warn('[CRIBBAGE_EVENT] logCountDeclaredEvent called with null context - event will not be logged');
+    return;
+  }
+  const entry = newState.counts?.[countIndex];
+  if (!entry) return;
+
+  const oldScore = oldState.playerStates[entry.playerId]?.pegScore ?? 0;
+  const newScore = newState.playerStates[entry.playerId]?.pegScore ?? 0;
+
+  logCountDeclared(
+    ctx.roundId,
+    ctx.dealerGameId,
+    ctx.handNumber,
+    entry.playerId,
+    entry.kind,
+    getCribbageCountCards(newState, entry),
+    newScore - oldScore,
+    buildScoresAfter(newState),
+    seqCountDeclared(countIndex)
+  );
+}
+
+/**
+ * Log a muggins claim after state mutation.
+ * All clients can safely call this - atomic DB guard prevents duplicates.
+ */
+export function logMugginsClaimEvent(
+  ctx: CribbageEventContext | null,
+  newState: CribbageState,
+  countIndex: number
+): void {
+  if (!ctx) {
+    console.warn('[CRIBBAGE_EVENT] logMugginsClaimEvent called with null context - event will not be logged');
+    return;
+  }
+  const entry = newState.counts?.[countIndex];
+  const outcome = entry && getMugginsOutcome(entry);
+  if (!entry || !outcome) return;
+
+  logMugginsClaim(
+    ctx.roundId,
+    ctx.dealerGameId,
+    ctx.handNumber,
+    outcome.playerId,
+    entry.kind,
+    getCribbageCountCards(newState, entry),
+    outcome.points,
+    buildScoresAfter(newState),
+    seqMugginsClaim(countIndex)
+  );
+}
@@ -7,6 +7,7 @@
 
 import { YahtzeeDie, YahtzeePlayerState, YahtzeeState, YahtzeeCategory } from './yahtzeeTypes';
 import { createEmptyScorecard, scoreCategory, isScorecardComplete } from './yahtzeeScoring';
+import { rollDie, type RandomSource } from '@rules/random.ts';
 
 /** Create initial dice (5 unrolled dice) */
 export function createInitialYahtzeeDice(): YahtzeeDie[] {
@@ -23,17 +24,12 @@ export function createInitialPlayerState(): YahtzeePlayerState {
   };
 }
 
-/** Roll a single die (1-6) */
-function rollDie(): number {
-  return Math.floor(Math.random() * 6) + 1;
-}
-
 /** Roll all unheld dice */
-export function rollYahtzeeDice(state: YahtzeePlayerState): YahtzeePlayerState {
+export function rollYahtzeeDice(state: YahtzeePlayerState, random?: RandomSource): YahtzeePlayerState {
   if (state.rollsRemaining <= 0) return state;
 
   const newDice = state.dice.map(die => ({
-    value: die.isHeld ? die.value : rollDie(),
+    value: die.isHeld ? die.value : rollDie(random),
     isHeld: die.isHeld,
   }));
 
@@ -0,0 +1,89 @@
+// Yahtzee as a game module (see gameModule.ts)
+
+import type { GameRules } from './gameModule';
+import type { YahtzeeCategory, YahtzeeState } from './yahtzeeTypes';
+import {
+  advanceYahtzeeTurn,
+  createInitialPlayerState,
+  rollYahtzeeDice,
+  scoreYahtzeeCategory,
+  toggleYahtzeeHold,
+} from './yahtzeeGameLogic';
+import { getBotCategoryChoice, getBotHoldDecision, shouldBotStopRolling } from './yahtzeeBotLogic';
+
+/** Yahtzee has no dealer-setup options */
+export type YahtzeeConfig = Record<string, never>;
+
+export type YahtzeeAction =
+  | { type: 'toggle_hold'; playerId: string; dieIndex: number }
+  /** `held` replaces every hold before rolling (bots decide all five at once) */
+  | { type: 'roll'; playerId: string; held?: boolean[] }
+  | { type: 'score'; playerId: string; category: YahtzeeCategory };
+
+export const yahtzeeModule: GameRules<YahtzeeState, YahtzeeAction, YahtzeeConfig> = {
+  id: 'yahtzee',
+
+  config: {
+    defaults: {},
+    fromGame: () => ({}),
+  },
+
+  createInitialState: ({ playerIds, dealerPlayerId }) => {
+    // Play starts left of the dealer
+    const dealerIdx = playerIds.indexOf(dealerPlayerId);
+    const turnOrder = playerIds.map((_, i) => playerIds[(dealerIdx + 1 + i) % playerIds.length]);
+    return {
+      currentTurnPlayerId: turnOrder[0] ?? null,
+      playerStates: Object.fromEntries(turnOrder.map(pid => [pid, createInitialPlayerState()])),
+      gamePhase: 'playing',
+      turnOrder,
+      currentRound: 1,
+      botControllerUserId: null,
+    };
+  },
+
+  reduce: (state, action, random) => {
+    if (state.gamePhase !== 'playing' || state.currentTurnPlayerId !== action.playerId) {
+      throw new Error('Not your turn');
+    }
+    const ps = state.playerStates[action.playerId];
+    const withPlayer = (next: typeof ps): YahtzeeState => ({
+      ...state,
+      playerStates: { ...state.playerStates, [action.playerId]: next },
+    });
+
+    switch (action.type) {
+      case 'toggle_hold':
+        return withPlayer(toggleYahtzeeHold(ps, action.dieIndex));
+      case 'roll': {
+        if (ps.rollsRemaining <= 0) throw new Error('No rolls left');
+        const { held } = action;
+        const dice = held && ps.rollsRemaining < 3
+          ? ps.dice.map((d, i) => ({ ...d, isHeld: held[i] ?? false }))
+          : ps.dice;
+        return withPlayer(rollYahtzeeDice({ ...ps, dice }, random));
+      }
+      case 'score': {
+        const scored = scoreYahtzeeCategory(ps, action.category);
+        if (scored === ps) throw new Error(`Cannot score ${action.category} now`);
+        return advanceYahtzeeTurn(withPlayer(scored));
+      }
+    }
+  },
+
+  getActivePlayerId: state => (state.gamePhase === 'playing' ? state.currentTurnPlayerId : null),
+
+  isHandOver: state => state.gamePhase === 'complete',
+
+  botAction: (state, playerId) => {
+    if (state.gamePhase !== 'playing' || state.currentTurnPlayerId !== playerId) return null;
+    const ps = state.playerStates[playerId];
+    if (!ps) return null;
+
+    if (ps.rollsRemaining === 3) return { type: 'roll', playerId };
+    if (ps.rollsRemaining > 0 && !shouldBotStopRolling(ps)) {
+      return { type: 'roll', playerId, held: getBotHoldDecision(ps) };
+    }
+    return { type: 'score', playerId, category: getBotCategoryChoice(ps) };
+  },
+};
@@ -4,20 +4,17 @@
  * Follows the same patterns as horsesRoundLogic.ts.
  */
 
-import { supabase } from "@/integrations/supabase/client";
+import { getGameRepository } from "./gameRepository";
 import { recordGameResult } from "./gameLogic";
-import { createInitialYahtzeeDice } from "./yahtzeeGameLogic";
-import { createEmptyScorecard } from "./yahtzeeScoring";
+import { logDeal } from "./handActionLog";
+import { yahtzeeModule } from "./yahtzeeModule";
 import { YahtzeeState } from "./yahtzeeTypes";
 
 export async function startYahtzeeRound(gameId: string, isFirstHand: boolean = false): Promise<void> {
   console.log('[YAHTZEE] 🎲 Starting round', { gameId, isFirstHand });
+  const repo = getGameRepository();
 
-  const { data: game, error: gameError } = await supabase
-    .from('games')
-    .select('current_round, total_hands, pot, ante_amount, status, awaiting_next_round, dealer_position, current_game_uuid, game_type, is_paused')
-    .eq('id', gameId)
-    .maybeSingle();
+  const { data: game, error: gameError } = await repo.games.get(gameId);
 
   if (gameError || !game) {
     console.error('[YAHTZEE] Failed to get game:', gameError);
@@ -25,7 +22,7 @@ export async function startYahtzeeRound(gameId: string, isFirstHand: boolean = f
   }
 
   // Guards (same as horses)
-  if ((game as any).is_paused) {
+  if (game.is_paused) {
     console.warn('[YAHTZEE] Blocked - game is paused');
     return;
   }
@@ -49,23 +46,17 @@ export async function startYahtzeeRound(gameId: string, isFirstHand: boolean = f
     newHandNumber = 1;
     newRoundNumber = 1;
   } else {
-    const { data: latestRound } = await supabase
-      .from('rounds')
-      .select('hand_number')
-      .eq('dealer_game_id', dealerGameId)
-      .order('hand_number', { ascending: false })
-      .limit(1)
-      .maybeSingle();
+    const { data: latestHandNumber } = await repo.rounds.getLatestHandNumber(dealerGameId);
 
-    newHandNumber = (latestRound?.hand_number ?? 0) + 1;
+    newHandNumber = (latestHandNumber ?? 0) + 1;
     newRoundNumber = newHandNumber;
   }
 
   // Atomic claim (same pattern as horses)
   if (isFirstHand) {
-    const { data: claim } = await supabase
-      .from('games')
-      .update({
+    const { data: claim } = await repo.games.update(
+      gameId,
+      {
         status: 'in_progress',
         current_round: newRoundNumber,
         total_hands: newHandNumber,
@@ -74,19 +65,18 @@ export async function startYahtzeeRound(gameId: string, isFirstHand: boolean = f
         last_round_result: null,
         game_over_at: null,
         is_first_hand: true,
-      })
-      .eq('id', gameId)
-      .neq('status', 'in_progress')
-      .select('id');
+      },
+      { neq: { status: 'in_progress' } }
+    );
 
     if (!claim || claim.length === 0) {
       console.log('[YAHTZEE] Another client claimed first-hand start, skipping');
       return;
     }
   } else if (game.awaiting_next_round) {
-    let q = supabase
-      .from('games')
-      .update({
+    const { data: claim } = await repo.games.update(
+      gameId,
+      {
         status: 'in_progress',
         current_round: newRoundNumber,
         total_hands: newHandNumber,
@@ -95,14 +85,10 @@ export async function startYahtzeeRound(gameId: string, isFirstHand: boolean = f
         last_round_result: null,
         game_over_at: null,
         is_first_hand: false,
-      })
-      .eq('id', gameId)
-      .eq('awaiting_next_round', true);
-
-    if (typeof game.current_round === 'number') q = q.eq('current_round', game.current_round);
-    else q = q.is('current_round', null);
-
-    const { data: claim } = await q.select('id');
+      },
+      // Only one client should succeed: require the current_round we observed
+      { eq: { awaiting_next_round: true, current_round: game.current_round } }
+    );
     if (!claim || claim.length === 0) {
       console.log('[YAHTZEE] Another client claimed rollover, skipping');
       return;
@@ -110,13 +96,7 @@ export async function startYahtzeeRound(gameId: string, isFirstHand: boolean = f
   }
 
   // Check for existing round
-  const { data: existingRound } = await supabase
-    .from('rounds')
-    .select('id')
-    .eq('dealer_game_id', dealerGameId)
-    .eq('hand_number', newHandNumber)
-    .eq('round_number', newRoundNumber)
-    .maybeSingle();
+  const { data: existingRound } = await repo.rounds.findByHand(dealerGameId, newHandNumber, newRoundNumber);
 
   if (existingRound) {
     console.log('[YAHTZEE] Round already exists:', existingRound.id);
@@ -124,10 +104,7 @@ export async function startYahtzeeRound(gameId: string, isFirstHand: boolean = f
   }
 
   // Get active players
-  const { data: players, error: playersError } = await supabase
-    .from('players')
-    .select('id, user_id, position, is_bot, chips, sitting_out')
-    .eq('game_id', gameId);
+  const { data: players, error: playersError } = await repo.players.listByGame(gameId);
 
   if (playersError) {
     console.error('[YAHTZEE] Failed to get players:', playersError);
@@ -137,80 +114,61 @@ export async function startYahtzeeRound(gameId: string, isFirstHand: boolean = f
   const activePlayers = (players || []).filter(p => !p.sitting_out);
   const anteAmount = game.ante_amount || 1;
 
-  // Build turn order: left of dealer
+  // Turn order starts left of the dealer
   const sortedActive = [...activePlayers].sort((a, b) => a.position - b.position);
-  const dealerPos = (game as any)?.dealer_position as number | null;
-  const dealerIdx = dealerPos ? sortedActive.findIndex(p => p.position === dealerPos) : -1;
+  const dealerPos = game.dealer_position;
+  const dealerPlayer = dealerPos ? sortedActive.find(p => p.position === dealerPos) : undefined;
 
-  const turnOrder = dealerIdx >= 0
-    ? Array.from({ length: sortedActive.length }, (_, i) => sortedActive[(dealerIdx + 1 + i) % sortedActive.length].id)
-    : sortedActive.map(p => p.id);
+  const state = yahtzeeModule.createInitialState({
+    playerIds: sortedActive.map(p => p.id),
+    dealerPlayerId: dealerPlayer?.id ?? '',
+    anteAmount,
+    config: yahtzeeModule.config.defaults,
+  });
 
   const controllerUserId =
-    turnOrder
+    state.turnOrder
       .map(id => sortedActive.find(p => p.id === id))
       .find(p => p && !p.is_bot)?.user_id ?? null;
 
-  const initialState: YahtzeeState = {
-    currentTurnPlayerId: turnOrder[0] ?? null,
-    playerStates: Object.fromEntries(
-      turnOrder.map(pid => [
-        pid,
-        {
-          dice: createInitialYahtzeeDice(),
-          rollsRemaining: 3,
-          isComplete: false,
-          scorecard: createEmptyScorecard(),
-        },
-      ]),
-    ),
-    gamePhase: 'playing',
-    turnOrder,
-    currentRound: 1,
-    botControllerUserId: controllerUserId,
-  };
+  const initialState: YahtzeeState = { ...state, botControllerUserId: controllerUserId };
 
   // Yahtzee doesn't collect antes — chips transfer at end based on score difference
   const potForRound = 0;
 
   // Create round
-  const { error: roundError } = await supabase
-    .from('rounds')
-    .insert({
-      game_id: gameId,
-      round_number: newRoundNumber,
-      hand_number: newHandNumber,
-      cards_dealt: 2, // Constraint requires >= 2
-      status: 'betting',
-      pot: potForRound,
-      yahtzee_state: initialState as any,
-      dealer_game_id: dealerGameId || null,
-    })
-    .select()
-    .single();
-
-  if (roundError) {
+  const { data: round, error: roundError } = await repo.rounds.insert({
+    game_id: gameId,
+    round_number: newRoundNumber,
+    hand_number: newHandNumber,
+    cards_dealt: 2, // Constraint requires >= 2
+    status: 'betting',
+    pot: potForRound,
+    game_state: initialState as any,
+    dealer_game_id: dealerGameId || null,
+  });
+
+  if (roundError || !round) {
     console.error('[YAHTZEE] Failed to create round:', roundError);
     throw new Error('Failed to create round');
   }
 
+  void logDeal(round.id, { state: initialState });
+
   // Update game pointers
-  await supabase
-    .from('games')
-    .update({
-      status: 'in_progress',
-      current_round: newRoundNumber,
-      total_hands: newHandNumber,
-      pot: potForRound,
-      all_decisions_in: false,
-      awaiting_next_round: false,
-      last_round_result: null,
-      game_over_at: null,
-      is_first_hand: isFirstHand,
-      config_deadline: null,
-      ante_decision_deadline: null,
-    })
-    .eq('id', gameId);
+  await repo.games.update(gameId, {
+    status: 'in_progress',
+    current_round: newRoundNumber,
+    total_hands: newHandNumber,
+    pot: potForRound,
+    all_decisions_in: false,
+    awaiting_next_round: false,
+    last_round_result: null,
+    game_over_at: null,
+    is_first_hand: isFirstHand,
+    config_deadline: null,
+    ante_decision_deadline: null,
+  });
 
   // No ante collection in Yahtzee — chips transfer at end based on score
 
@@ -225,36 +183,29 @@ export async function endYahtzeeRound(
   isTie: boolean = false,
 ): Promise<void> {
   console.log('[YAHTZEE] Ending round', { gameId, winnerId, winnerDescription, isTie });
+  const repo = getGameRepository();
 
   if (isTie) {
-    await supabase
-      .from('games')
-      .update({
-        awaiting_next_round: true,
-        last_round_result: 'Tie - rollover',
-      })
-      .eq('id', gameId);
+    await repo.games.update(gameId, {
+      awaiting_next_round: true,
+      last_round_result: 'Tie - rollover',
+    });
   } else if (winnerId) {
     // Use atomic guard: only transition if still in_progress
-    const { data: claim } = await supabase
-      .from('games')
-      .update({
+    const { data: claim } = await repo.games.update(
+      gameId,
+      {
         status: 'game_over',
         last_round_result: winnerDescription,
         game_over_at: new Date().toISOString(),
         awaiting_next_round: true,
-      })
-      .eq('id', gameId)
-      .eq('status', 'in_progress')
-      .select('id');
+      },
+      { eq: { status: 'in_progress' } }
+    );
 
     if (!claim || claim.length === 0) {
       // Atomic guard missed — check if game is already game_over (another client beat us)
-      const { data: freshGame } = await supabase
-        .from('games')
-        .select('status')
-        .eq('id', gameId)
-        .maybeSingle();
+      const { data: freshGame } = await repo.games.get(gameId);
 
       if (freshGame?.status === 'game_over') {
         console.log('[YAHTZEE] Game already in game_over, no action needed');
@@ -263,15 +214,12 @@ export async function endYahtzeeRound(
 
       // Status is something unexpected — force transition to game_over so we don't get stuck
       console.warn('[YAHTZEE] Atomic guard missed but game not game_over (status:', freshGame?.status, '), forcing transition');
-      await supabase
-        .from('games')
-        .update({
-          status: 'game_over',
-          last_round_result: winnerDescription,
-          game_over_at: new Date().toISOString(),
-          awaiting_next_round: true,
-        })
-        .eq('id', gameId);
+      await repo.games.update(gameId, {
+        status: 'game_over',
+        last_round_result: winnerDescription,
+        game_over_at: new Date().toISOString(),
+        awaiting_next_round: true,
+      });
     }
   }
 }
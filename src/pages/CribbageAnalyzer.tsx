@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+import type { CribbageCard, HandScore } from '@/lib/cribbageTypes';
+import {
+  analyzeCribbageDiscards,
+  parseCribbageCards,
+  type CribbageCutOutcome,
+  type CribbageDiscardOption,
+} from '@/lib/cribbageDiscardAnalysis';
+import { getHandScoringCombos } from '@/lib/cribbageScoringDetails';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+
+const SUIT_SYMBOLS: Record<CribbageCard['suit'], string> = { hearts: '♥', diamonds: '♦', clubs: '♣', spades: '♠' };
+
+const BREAKDOWN: { key: keyof Omit<HandScore, 'total'>; label: string }[] = [
+  { key: 'fifteens', label: '15s' },
+  { key: 'pairs', label: 'Pairs' },
+  { key: 'runs', label: 'Runs' },
+  { key: 'flush', label: 'Flush' },
+  { key: 'nobs', label: 'Nobs' },
+];
+
+const renderCard = (card: CribbageCard, key?: React.Key) => {
+  const isRed = card.suit === 'hearts' || card.suit === 'diamonds';
+  return (
+    <span
+      key={key ?? `${card.rank}${card.suit}`}
+      className={`inline-block px-1.5 py-0.5 mx-0.5 rounded border text-sm ${isRed ? 'text-red-500 border-red-500/30' : 'text-foreground border-border'} bg-card`}
+    >
+      {card.rank}{SUIT_SYMBOLS[card.suit]}
+    </span>
+  );
+};
+
+// One cut: the five cards' total and its breakdown, opening up into the scoring combos
+const CutRow: React.FC<{ keep: CribbageCard[]; outcome: CribbageCutOutcome }> = ({ keep, outcome }) => (
+  <Collapsible>
+    <CollapsibleTrigger className="w-full">
+      <div className="flex items-center gap-2 px-2 py-1 rounded hover:bg-muted/50 text-sm">
+        <ChevronRight className="h-3 w-3 text-muted-foreground transition-transform duration-200 [[data-state=open]>&]:rotate-90" />
+        <span className="text-muted-foreground">Cut</span>
+        {renderCard(outcome.cut)}
+        <span className="text-xs text-muted-foreground">
+          {BREAKDOWN.filter(({ key }) => outcome.score[key] > 0)
+            .map(({ key, label }) => `${label} ${outcome.score[key]}`)
+            .join(' • ')}
+        </span>
+        <span className="ml-auto font-semibold tabular-nums">{outcome.score.total}</span>
+      </div>
+    </CollapsibleTrigger>
+    <CollapsibleContent>
+      <div className="ml-8 mb-1 space-y-0.5">
+        {getHandScoringCombos(keep, outcome.cut, false).map((combo, i) => (
+          <div key={i} className="flex items-center gap-2 text-xs">
+            <span className="w-24 text-muted-foreground">{combo.label}</span>
+            <span>{combo.cards.map((card, j) => renderCard(card, j))}</span>
+            <span className="ml-auto text-primary">+{combo.points}</span>
+          </div>
+        ))}
+      </div>
+    </CollapsibleContent>
+  </Collapsible>
+);
+
+const CribbageAnalyzer: React.FC = () => {
+  const [cardsInput, setCardsInput] = useState('');
+  const [isMyCrib, setIsMyCrib] = useState(true);
+  const [options, setOptions] = useState<CribbageDiscardOption[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const analyze = () => {
+    try {
+      setOptions(analyzeCribbageDiscards(parseCribbageCards(cardsInput), isMyCrib));
+      setError(null);
+    } catch (e) {
+      setOptions(null);
+      setError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-2xl font-bold mb-2">Cribbage Discard Analyzer</h1>
+        <p className="text-muted-foreground mb-6">
+          Enter the 6 cards you were dealt, e.g. 5H 5D JS 10C 2D 9C (rank + suit letter: H/D/C/S).
+          Every discard is ranked by its average hand over the 46 possible cuts, plus or minus the average crib.
+        </p>
+
+        <div className="grid gap-4 mb-6">
+          <div>
+            <Label htmlFor="dealt">Dealt cards (6 cards)</Label>
+            <Input
+              id="dealt"
+              value={cardsInput}
+              onChange={(e) => setCardsInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && analyze()}
+              placeholder="e.g., 5H 5D JS 10C 2D 9C"
+              className="font-mono"
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch id="my-crib" checked={isMyCrib} onCheckedChange={setIsMyCrib} />
+            <Label htmlFor="my-crib">{isMyCrib ? "My crib (I'm dealing)" : "Opponent's crib"}</Label>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          <Button onClick={analyze} className="bg-primary">
+            Analyze Discards
+          </Button>
+          <Button onClick={() => setCardsInput('5H 5D JS 10C 2D 9C')} variant="outline">
+            Load: Fives and a Jack
+          </Button>
+          <Button onClick={() => setCardsInput('4C 6H 7S 8D QH KH')} variant="outline">
+            Load: Run or Fifteens
+          </Button>
+        </div>
+
+        {error && <p className="text-destructive mb-6">{error}</p>}
+
+        {options && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-[2rem_1fr_6rem_4rem_4rem_4rem] gap-2 px-2 text-xs text-muted-foreground">
+              <span>#</span>
+              <span>Keep</span>
+              <span>Toss</span>
+              <span className="text-right">Hand</span>
+              <span className="text-right">Crib</span>
+              <span className="text-right">Net</span>
+            </div>
+            {options.map((option, index) => (
+              <Collapsible key={index}>
+                <CollapsibleTrigger className="w-full">
+                  <div
+                    className={`grid grid-cols-[2rem_1fr_6rem_4rem_4rem_4rem] gap-2 items-center px-2 py-1.5 rounded-lg border text-left ${
+                      index === 0 ? 'border-green-500 bg-green-500/10' : 'border-border hover:bg-muted/50'
+                    }`}
+                  >
+                    <span className="text-muted-foreground">{index + 1}</span>
+                    <span>{option.keep.map(card => renderCard(card))}</span>
+                    <span>{option.discard.map(card => renderCard(card))}</span>
+                    <span className="text-right tabular-nums">{option.expectedHand.toFixed(2)}</span>
+                    <span className="text-right tabular-nums text-muted-foreground">
+                      {isMyCrib ? '+' : '−'}{option.expectedCrib.toFixed(2)}
+                    </span>
+                    <span className="text-right tabular-nums font-bold text-primary">{option.expectedNet.toFixed(2)}</span>
+                  </div>
+                </CollapsibleTrigger>
+                <CollapsibleContent>
+                  <div className="mt-1 ml-6 border-l pl-2">
+                    {option.cuts.map((outcome) => (
+                      <CutRow key={`${outcome.cut.rank}${outcome.cut.suit}`} keep={option.keep} outcome={outcome} />
+                    ))}
+                  </div>
+                </CollapsibleContent>
+              </Collapsible>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-8 p-4 bg-muted rounded-lg">
+          <h3 className="font-semibold mb-2">How it's counted</h3>
+          <div className="text-sm text-muted-foreground space-y-1">
+            <p><strong>Hand:</strong> the four cards you keep, averaged over every cut from the 46 cards you can't see</p>
+            <p><strong>Crib:</strong> your two cards with two more and the cut drawn at random from the rest (two-handed play)</p>
+            <p><strong>Net:</strong> hand plus crib when it's your crib, hand less crib when it's your opponent's</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CribbageAnalyzer;
@@ -12,8 +12,6 @@ import { HorsesGameTable, HorsesStateFromDB } from "@/components/HorsesGameTable
 import { CribbageGameTable } from "@/components/CribbageGameTable";
 import { CribbageMobileGameTable } from "@/components/CribbageMobileGameTable";
 import { TriviaGameTable } from "@/components/TriviaGameTable";
-import { GinRummyGameTable } from "@/components/GinRummyGameTable";
-import { YahtzeeGameTable } from "@/components/YahtzeeGameTable";
 import { DealerConfig } from "@/components/DealerConfig";
 import { DealerGameSetup } from "@/components/DealerGameSetup";
 import { AnteUpDialog } from "@/components/AnteUpDialog";
@@ -34,11 +32,15 @@ import { startHolmRound, endHolmRound, proceedToNextHolmRound, checkHolmRoundCom
 import { startHorsesRound } from "@/lib/horsesRoundLogic";
 import { startSCCRound } from "@/lib/sccRoundLogic";
 import { startCribbageRound } from "@/lib/cribbageRoundLogic";
-import { startGinRummyRound } from "@/lib/ginRummyRoundLogic";
 import { startYahtzeeRound } from "@/lib/yahtzeeRoundLogic";
+import { startFarkleRound } from "@/lib/farkleRoundLogic";
 import { addBotPlayer, addBotPlayerSittingOut, makeBotDecisions, makeBotAnteDecisions } from "@/lib/botPlayer";
 import { evaluatePlayerStatesEndOfGame, rotateDealerPosition, removeSittingOutPlayersOnWaiting, getMakeItTakeItDealer } from "@/lib/playerStateEvaluation";
 import { Card as CardType } from "@/lib/cardUtils";
+import { getGameDefaultsKey, getGameTypeInfo, isDiceGame, isGameType, usesHorsesTable, usesSimultaneousDecisions, usesSingleRoundPerHand } from "@/lib/gameTypes";
+import { usesGameModule } from "@/lib/gameModule";
+import { cribbageModule } from "@/lib/cribbageModule";
+import { getGameModule } from "@/components/game-modules/registry";
 import { formatChipValue } from "@/lib/utils";
 import { getBotAlias } from "@/lib/botAlias";
 import { Share2, Bot } from "lucide-react";
@@ -83,6 +85,7 @@ interface Player {
   deck_color_mode?: string | null;
   created_at?: string;
   auto_fold: boolean;
+  bot_difficulty?: string;
   profiles?: {
     username: string;
   };
@@ -132,6 +135,10 @@ interface GameData {
   skunk_threshold?: number | null;
   double_skunk_enabled?: boolean | null;
   double_skunk_threshold?: number | null;
+  cribbage_partnerships?: boolean | null;
+  cribbage_muggins?: boolean | null;
+  gin_oklahoma?: boolean | null;
+  gin_hollywood?: boolean | null;
   rounds?: Round[];
 }
 
@@ -154,6 +161,7 @@ interface Round {
   current_turn_position?: number | null;
   created_at?: string;
   horses_state?: any; // Horses dice game state
+  game_state?: unknown; // Module-based games (see src/lib/gameModule.ts)
 }
 
 function pickActive357Round(
@@ -352,6 +360,8 @@ const Game = () => {
     double_skunk_threshold?: number;
     cribbage_game_mode?: string; // 'full' | 'half' | 'super_quick' | 'sprint' | 'custom'
     custom_points_to_win?: number; // For custom mode
+    cribbage_partnerships?: boolean;
+    cribbage_muggins?: boolean;
   }
   const [previousGameConfig, setPreviousGameConfig] = useState<PreviousGameConfig | null>(null);
   // Track which gameId the previousGameConfig was captured from
@@ -394,10 +404,12 @@ const Game = () => {
       skunk_threshold: game.skunk_threshold ?? undefined,
       double_skunk_enabled: game.double_skunk_enabled ?? undefined,
       double_skunk_threshold: game.double_skunk_threshold ?? undefined,
+      cribbage_partnerships: game.cribbage_partnerships ?? undefined,
+      cribbage_muggins: game.cribbage_muggins ?? undefined,
     };
 
     // For cribbage, derive game_mode from points_to_win
-    if (gameType === 'cribbage' && game.points_to_win) {
+    if (isGameType(gameType, 'cribbage') && game.points_to_win) {
       if (game.points_to_win === 121) cfg.cribbage_game_mode = 'full';
       else if (game.points_to_win === 61) cfg.cribbage_game_mode = 'half';
       else if (game.points_to_win === 45) cfg.cribbage_game_mode = 'super_quick';
@@ -435,6 +447,8 @@ const Game = () => {
     game?.skunk_threshold,
     game?.double_skunk_enabled,
     game?.double_skunk_threshold,
+    game?.cribbage_partnerships,
+    game?.cribbage_muggins,
   ]);
 
   // "Run it back" should appear starting with the 2nd game in the same session.
@@ -895,7 +909,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
     
     // Get current round for deadline updates.
     // CRITICAL: Must be scoped to dealer_game_id, otherwise 3-5-7 Round 1 can be mistaken for Holm Round 1.
-    const currentRoundData = (game.game_type === 'holm-game' || game.game_type === 'horses' || game.game_type === 'ship-captain-crew' || game.game_type === 'yahtzee')
+    const currentRoundData = (isGameType(game.game_type, 'holm-game') || isDiceGame(game.game_type))
       ? pickActiveSingleRoundGameRound(game.rounds, {
           dealerGameId: game.current_game_uuid,
           currentRoundNumber: game.current_round,
@@ -1183,7 +1197,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
   const prevRoundForCacheRef = useRef<number | null>(null);
 
   useEffect(() => {
-    if (game?.game_type !== 'holm-game') return;
+    if (!isGameType(game?.game_type, 'holm-game')) return;
 
     const prevRound = prevRoundForCacheRef.current;
     const currentRoundNum = game?.current_round || 0;
@@ -1281,8 +1295,8 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
     const fetchGameDefaults = async () => {
       if (!game?.game_type) return;
       
-      // Map game_type to defaults table format (holm-game -> holm, 3-5-7-game -> 3-5-7)
-      const defaultsGameType = game.game_type === 'holm-game' ? 'holm' : '3-5-7';
+      // Games without a defaults row (trivia) use the 3-5-7 timer
+      const defaultsGameType = getGameDefaultsKey(game.game_type) ?? '3-5-7';
       
       // Check memory cache first
       if (gameDefaultsCacheRef.current[defaultsGameType]) {
@@ -1406,7 +1420,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
             const optimisticRound =
               (typeof newData?.current_round === 'number')
                 ? newData.current_round
-                : (incomingGameType === 'holm-game' ? 1 : null);
+                : (isGameType(incomingGameType, 'holm-game') ? 1 : null);
 
             setGame(prevGame => prevGame ? {
               ...prevGame,
@@ -1615,11 +1629,11 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
         (payload) => {
           console.log('[REALTIME] *** ROUNDS TABLE CHANGED ***', payload);
 
-          // If horses_state or yahtzee_state changed, patch it into local state immediately so
+          // If horses_state or game_state changed, patch it into local state immediately so
           // dice animations / scorecard updates can start as soon as the realtime event arrives
           // (no waiting on fetchGameData). Critical for human-vs-human Yahtzee.
           if (payload.eventType === 'UPDATE' && payload.new && 
-              ('horses_state' in (payload.new as any) || 'yahtzee_state' in (payload.new as any))) {
+              ('horses_state' in (payload.new as any) || 'game_state' in (payload.new as any))) {
             applyRoundRealtimePatch(payload.new);
             // Still refetch (debounced) to keep the rest of the game state consistent.
             debouncedFetch();
@@ -1984,11 +1998,10 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
       return;
     }
 
-    // For card games (Holm, 3-5-7): Players with auto_fold=true should NOT see a countdown.
+    // For card games (Holm, 3-5-7, Guts): Players with auto_fold=true should NOT see a countdown.
     // They fold instantly via the instant auto-fold effect, so no timer needed.
     // This prevents the "timer running while auto-folding" issue.
-    const isCardGame = game?.game_type === 'holm-game' || game?.game_type === '3-5-7' || 
-                       game?.game_type === '3-5-7-game' || game?.game_type === '357';
+    const isCardGame = isGameType(game?.game_type, 'holm-game') || usesSimultaneousDecisions(game?.game_type);
     if (isCardGame) {
       const currentPlayer = players.find(p => p.user_id === user?.id);
       if (currentPlayer?.auto_fold && !currentPlayer.is_bot && !currentPlayer.sitting_out) {
@@ -2133,7 +2146,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
     
     // CRITICAL: Detect stuck Holm game state where all_decisions_in=true but round is still betting
     // and no one can make a decision. This can happen due to race conditions.
-    const latestRound = game?.game_type === 'holm-game'
+    const latestRound = isGameType(game?.game_type, 'holm-game')
       ? pickActiveSingleRoundGameRound(game?.rounds, {
           dealerGameId: game?.current_game_uuid ?? null,
           currentRoundNumber: game?.current_round ?? null,
@@ -2148,7 +2161,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
     // last 2 community cards never flipped (community_cards_revealed stays at 2).
     // This can happen if the client that acquired the round lock disconnects mid-showdown.
     const holmShowdownStuck =
-      game?.game_type === 'holm-game' &&
+      isGameType(game?.game_type, 'holm-game') &&
       game?.status === 'in_progress' &&
       latestRound?.status === 'showdown' &&
       (latestRound?.community_cards_revealed ?? 0) < 4 &&
@@ -2158,7 +2171,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
     // enforcement) but the round is still 'betting'. In this state, the UI can appear stuck (spotlight/turn
     // confusion) unless a client calls endHolmRound.
     const holmAllDecidedButBettingStuck =
-      game?.game_type === 'holm-game' &&
+      isGameType(game?.game_type, 'holm-game') &&
       game?.status === 'in_progress' &&
       game?.all_decisions_in === true &&
       latestRound?.status === 'betting' &&
@@ -2167,7 +2180,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
     // Also detect when Holm game started but no round was created
     // CRITICAL: Check rounds array, NOT game.current_round (which we no longer update for Holm)
     const holmNoRound = 
-      game?.game_type === 'holm-game' &&
+      isGameType(game?.game_type, 'holm-game') &&
       game?.status === 'in_progress' &&
       (!game?.rounds || game?.rounds?.length === 0) &&
       currentPlayer;
@@ -2246,7 +2259,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
 
     if (safetyPollsDisabled) return;
     
-    const is357Game = game?.game_type === '3-5-7-game';
+    const is357Game = isGameType(game?.game_type, '3-5-7');
     const isActiveGame = game?.status === 'in_progress';
     
     if (!is357Game || !isActiveGame) return;
@@ -2649,7 +2662,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
   const liveRound = (() => {
     if (!game?.rounds?.length) return null as Round | null;
 
-    if (game.game_type === "holm-game") {
+    if (isGameType(game.game_type, 'holm-game')) {
       // Holm: always scope to dealer_game_id to avoid collisions with 3-5-7 Round 1.
       return pickActiveSingleRoundGameRound(game.rounds, {
         dealerGameId: game.current_game_uuid,
@@ -2658,7 +2671,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
       });
     }
 
-    if (game.game_type === "horses" || game.game_type === "ship-captain-crew" || game.game_type === "yahtzee") {
+    if (isDiceGame(game.game_type)) {
       // Dice games: current_round is authoritative; never show the previous round during the creation gap.
       if (typeof game.current_round === "number") {
         // CRITICAL: ALWAYS filter by dealer_game_id when available - NO fallback to unscoped rounds
@@ -2679,7 +2692,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
       return pickLatestRoundByKey(game.rounds, game.current_game_uuid);
     }
 
-    if (game.game_type === '3-5-7') {
+    if (isGameType(game.game_type, '3-5-7')) {
       // CRITICAL: ALWAYS require dealer_game_id for 3-5-7 - NO fallback to unscoped rounds
       if (!game.current_game_uuid) {
         console.warn('[LIVE_ROUND] ⚠️ Missing dealer_game_id for 3-5-7 - cannot safely select round');
@@ -2721,7 +2734,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
   })();
   
   // DEBUG: Always log liveRound details during in_progress Holm games
-  if (game?.game_type === 'holm-game' && game?.status === 'in_progress') {
+  if (isGameType(game?.game_type, 'holm-game') && game?.status === 'in_progress') {
     console.log('[LIVE ROUND] Holm game state:', {
       roundsCount: game?.rounds?.length,
       roundNumbers: game?.rounds?.map(r => r.round_number),
@@ -2786,7 +2799,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
     
     // Detect new hand for resetting maxRevealed (but DON'T clear cache)
     const isNewHolmHand = 
-      game?.game_type === 'holm-game' &&
+      isGameType(game?.game_type, 'holm-game') &&
       liveRound?.status === 'betting' &&
       prevHash !== '' && 
       currentCommunityHash !== prevHash &&
@@ -2911,7 +2924,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
     : (currentRound?.community_cards_revealed ?? 0);
     
   // Only log when community cards might have an issue (no cards during in_progress)
-  if (game?.game_type === 'holm-game' && game?.status === 'in_progress' && (!communityCards || communityCards.length === 0)) {
+  if (isGameType(game?.game_type, 'holm-game') && game?.status === 'in_progress' && (!communityCards || communityCards.length === 0)) {
     console.warn('[GAME.TSX COMMUNITY_CARDS] ⚠️ No community cards during in_progress:', {
       currentRoundId: currentRound?.id,
       liveRoundId: liveRound?.id,
@@ -2925,7 +2938,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
   const roundHealingRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
   useEffect(() => {
-    const isHolmGame = game?.game_type === 'holm-game';
+    const isHolmGame = isGameType(game?.game_type, 'holm-game');
     const isInProgress = game?.status === 'in_progress';
     const hasCommunityCards = communityCards && communityCards.length > 0;
     const hasRoundData = currentRound && currentRound.community_cards;
@@ -2987,7 +3000,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
       return;
     }
 
-    const isHolmGame = game?.game_type === 'holm-game';
+    const isHolmGame = isGameType(game?.game_type, 'holm-game');
     
     // CRITICAL: Skip bot decisions if game is paused
     if (game?.is_paused) {
@@ -3070,11 +3083,9 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
 
   // 3-5-7 RECOVERY: If the atomic all_decisions_in flag is already true but the round is still
   // stuck in "betting", a previous client likely set the flag but crashed/refreshed before
-  // calling endRound(). This must be idempotent and race-safe.
+  // calling endRound(). This must be idempotent and race-safe. (Guts too.)
   useEffect(() => {
-    const is357Game =
-      game?.game_type === "3-5-7" || game?.game_type === "3-5-7-game" || game?.game_type === "357";
-    if (!is357Game) return;
+    if (!usesSimultaneousDecisions(game?.game_type)) return;
     if (game?.status !== "in_progress") return;
     if (game?.is_paused) return;
     if (game?.awaiting_next_round) return;
@@ -3110,12 +3121,11 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
   ]);
   
   // 3-5-7 instant auto-fold: fold immediately when round starts if auto_fold=true
-  // CRITICAL: This is ONLY for 3-5-7 games. In dice games (horses, SCC), auto_fold means "auto-roll",
+  // CRITICAL: This is ONLY for 3-5-7 and Guts. In dice games (horses, SCC), auto_fold means "auto-roll",
   // NOT "fold the round". Triggering makeDecision(fold) for dice games corrupts game state.
   useEffect(() => {
-    // Guard: Only run for 3-5-7 games
-    const is357Game = game?.game_type === '3-5-7' || game?.game_type === '3-5-7-game' || game?.game_type === '357';
-    if (!is357Game) return;
+    // Guard: Only run for simultaneous stay/fold games
+    if (!usesSimultaneousDecisions(game?.game_type)) return;
     if (game?.status !== 'in_progress') return;
     if (!currentRound || currentRound.status !== 'betting') return;
     if (game?.is_paused) return;
@@ -3156,10 +3166,9 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
   
   // 3-5-7 GLOBAL AUTO-FOLD: If ANY human player is already in auto_fold when a betting round starts,
   // fold for them immediately so the game doesn't wait out the full timer.
-  // This is intentionally redundant across clients; makeDecision has atomic guards.
+  // This is intentionally redundant across clients; submit_357_decision rejects duplicates.
   useEffect(() => {
-    const is357Game = game?.game_type === "3-5-7" || game?.game_type === "3-5-7-game" || game?.game_type === "357";
-    if (!is357Game) return;
+    if (!usesSimultaneousDecisions(game?.game_type)) return;
     if (game?.status !== "in_progress") return;
     if (!gameId) return;
     if (!currentRound || currentRound.status !== "betting") return;
@@ -3211,7 +3220,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
   // Holm instant auto-fold/pre-decision effect
 
   useEffect(() => {
-    if (game?.game_type !== 'holm-game') return;
+    if (!isGameType(game?.game_type, 'holm-game')) return;
     if (game?.status !== 'in_progress') return;
     if (!currentRound || currentRound.status !== 'betting') return;
     if (game?.is_paused) return;
@@ -3282,7 +3291,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
   const autoFoldingRef = useRef(false);
   const countdownArmedRoundIdRef = useRef<string | null>(null);
   useEffect(() => {
-    const isHolmGame = game?.game_type === 'holm-game';
+    const isHolmGame = isGameType(game?.game_type, 'holm-game');
 
     // Arm the timeout only after we have seen a positive countdown for the current round.
     // If timeLeft is 0 immediately on mount/round-change, we do NOT treat that as a real expiry.
@@ -3390,7 +3399,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
   
   // Poll for awaiting_next_round when round is completed and all decisions are in
   useEffect(() => {
-    const isHolmGame = game?.game_type === 'holm-game';
+    const isHolmGame = isGameType(game?.game_type, 'holm-game');
     const roundCompleted = currentRound?.status === 'completed';
     const allDecisionsIn = game?.all_decisions_in === true;
     const alreadyAwaiting = game?.awaiting_next_round === true;
@@ -3479,7 +3488,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
       gameStateAtTimerStart.current = { awaiting: true, round: currentRound };
       
       // DEBUG MODE: For Holm games, don't auto-proceed if debugHolmPaused is true
-      const isHolmGame = game?.game_type === 'holm-game';
+      const isHolmGame = isGameType(game?.game_type, 'holm-game');
       if (isHolmGame && debugHolmPaused) {
         console.log('[AWAITING_NEXT_ROUND] 🔧 DEBUG MODE: Auto-proceed paused. Click "Proceed to Next Round" button manually.');
         return;
@@ -3526,9 +3535,9 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
         }
       }
       
-      // Check if this is a 3-5-7 showdown and trigger chip transfer animation
+      // Check if this is a 3-5-7 (or Guts) showdown and trigger chip transfer animation
       // Format: "${winnerUsername} won with ${handName}|||WINNER:${id}|||LOSERS:${ids}|||AMOUNT:${amount}"
-      if (game?.game_type === '3-5-7' && lastResult.includes('|||WINNER:')) {
+      if (usesSimultaneousDecisions(game?.game_type) && lastResult.includes('|||WINNER:')) {
         const winnerMatch = lastResult.match(/\|\|\|WINNER:([^|]+)/);
         const losersMatch = lastResult.match(/\|\|\|LOSERS:([^|]+)/);
         const amountMatch = lastResult.match(/\|\|\|AMOUNT:(\d+)/);
@@ -3555,7 +3564,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
       // Check if this is a Holm Chucky loss and trigger animation (player pays into pot)
       // Single player format: "Chucky beat {username} with {hand}. -${amount}"
       // Multi player format: "Tie broken by Chucky! {names} lose to Chucky's {hand}. ${total} added to pot."
-      if (game?.game_type === 'holm-game') {
+      if (isGameType(game?.game_type, 'holm-game')) {
         // Single player Chucky loss
         const singleLossMatch = lastResult.match(/Chucky beat (.+) with .+\. -\$(\d+)/);
         if (singleLossMatch) {
@@ -3594,7 +3603,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
         // Check for Holm multi-player showdown (winner takes pot, losers match)
         // Format: "...|||WINNER:{id}|||LOSERS:{id,id}|||POT:{amount}|||MATCH:{amount}|||DEBUG:..."
         const holmShowdownMatch = lastResult.match(/\|\|\|WINNER:([^|]+)\|\|\|LOSERS:([^|]+)\|\|\|POT:(\d+)\|\|\|MATCH:(\d+)/);
-        if (holmShowdownMatch && game?.game_type === 'holm-game') {
+        if (holmShowdownMatch && isGameType(game?.game_type, 'holm-game')) {
           const winnerId = holmShowdownMatch[1];
           const loserIds = holmShowdownMatch[2].split(',').filter(Boolean);
           const potAmount = parseInt(holmShowdownMatch[3], 10);
@@ -3637,7 +3646,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
             return;
           }
           
-          const isHolmGame = game?.game_type === 'holm-game';
+          const isHolmGame = isGameType(game?.game_type, 'holm-game');
           console.log('[AWAITING_NEXT_ROUND] Calling proceed function', { isHolmGame, gameId });
           
           if (isHolmGame) {
@@ -3667,7 +3676,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
             // NOTE: Do NOT pre-claim awaiting_next_round here — startHorsesRound / startSCCRound
             // have their own atomic rollover claim guards. Pre-consuming the flag here causes
             // startHorsesRound to see awaiting_next_round=false and hit BLOCKED_NOT_READY.
-            if (freshGame?.game_type === 'horses' || freshGame?.game_type === 'ship-captain-crew' || freshGame?.game_type === 'yahtzee') {
+            if (isDiceGame(freshGame?.game_type)) {
               console.log('[AWAITING_NEXT_ROUND] Dice game detected — starting next hand (re-ante)', freshGame?.game_type);
 
               // Capture pre-ante chips BEFORE startRound deducts them
@@ -3693,10 +3702,12 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
 
               // Start the appropriate round type — these functions handle their own
               // atomic guards for awaiting_next_round and multi-client deduplication
-              if (freshGame?.game_type === 'ship-captain-crew') {
+              if (isGameType(freshGame?.game_type, 'ship-captain-crew')) {
                 await startSCCRound(gameId);
-              } else if (freshGame?.game_type === 'yahtzee') {
+              } else if (isGameType(freshGame?.game_type, 'yahtzee')) {
                 await startYahtzeeRound(gameId);
+              } else if (isGameType(freshGame?.game_type, 'farkle')) {
+                await startFarkleRound(gameId);
               } else {
                 await startHorsesRound(gameId);
               }
@@ -3749,8 +3760,10 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
             // This happens AFTER the result has been cleared
             // BUT skip if this is a 357 sweep (game is over, no new antes)
             // ALSO skip if 357 win animation is currently active (use ref for closure access)
+            // Guts never re-antes: the pot carries to the next hand
             const is357Sweep = freshGame?.last_round_result?.startsWith('357_SWEEP');
-            if (freshGame?.next_round_number === 1 && !is357Sweep && !is357WinAnimationActiveRef.current) {
+            const isGuts = isGameType(game?.game_type, 'guts');
+            if (freshGame?.next_round_number === 1 && !is357Sweep && !isGuts && !is357WinAnimationActiveRef.current) {
               // CRITICAL: Fetch fresh game AND players AFTER proceedToNextRound completes
               // because startRound already updated the pot in the database
               const { data: freshGameAfterProceed } = await supabase
@@ -3962,7 +3975,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
     
     if (shouldFetchCards) {
       // For Holm games, don't fetch cards during round transitions (awaiting_next_round) UNLESS game_over
-      const isHolmGame = gameData.game_type === 'holm-game';
+      const isHolmGame = isGameType(gameData.game_type, 'holm-game');
       const keepCards = gameData.status === 'game_over' || !isHolmGame || !gameData.awaiting_next_round;
       
       // Keep cards visible during results announcement (last_round_result exists)
@@ -4153,20 +4166,16 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
         !gameData.game_over_at) {  // Don't set timeLeft if game_over_at is set
       // CRITICAL: Pick the correct round for timer calculations.
       // For dice games, never fall back to the previous round while the new round row is still being created.
-      const isHolm = gameData.game_type === 'holm-game';
-      const isDice = gameData.game_type === 'horses' || gameData.game_type === 'ship-captain-crew' || gameData.game_type === 'yahtzee';
-      const isCribbage = gameData.game_type === 'cribbage';
-      const isGinRummy = gameData.game_type === 'gin-rummy';
+      const isDice = isDiceGame(gameData.game_type);
 
       let currentRound: Round | null = null;
-      if (isHolm || isCribbage || isGinRummy) {
-        // Holm, Cribbage, and Gin Rummy use single-round-per-hand pattern
+      if (usesSingleRoundPerHand(gameData.game_type)) {
         currentRound = pickActiveSingleRoundGameRound(gameData.rounds as Round[], {
           dealerGameId: gameData.current_game_uuid,
           currentRoundNumber: gameData.current_round,
           currentHandNumber: gameData.total_hands,
         });
-      } else if (gameData.game_type === '3-5-7') {
+      } else if (isGameType(gameData.game_type, '3-5-7')) {
         currentRound =
           pickActive357Round(gameData.rounds as Round[], {
             currentRoundNumber: gameData.current_round,
@@ -4206,7 +4215,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
         setDecisionDeadline(currentRound.decision_deadline);
         
         // Holm game: turn-based, needs current_turn_position
-        if (gameData.game_type === 'holm-game' && currentRound.current_turn_position) {
+        if (isGameType(gameData.game_type, 'holm-game') && currentRound.current_turn_position) {
           // Check if turn changed
           const turnChanged = lastTurnPosition !== null && lastTurnPosition !== currentRound.current_turn_position;
           
@@ -4222,7 +4231,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
           }
         } 
         // 3-5-7 game: simultaneous decisions, no turn position needed
-        else if (gameData.game_type !== 'holm-game' && gameData.game_type !== 'horses') {
+        else if (!isGameType(gameData.game_type, 'holm-game') && !isGameType(gameData.game_type, 'horses')) {
           console.log('[FETCH] 3-5-7: Using server deadline for timer');
         }
       } else {
@@ -4762,7 +4771,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
     if (game?.status === 'game_over' && !game?.game_over_at && game?.last_round_result) {
       // IMPORTANT: Never auto-confirm for 3-5-7. Those games rely on the win animation sequence
       // (legs-to-player -> pot-to-player) to finish before transitioning.
-      if (game?.game_type !== 'holm-game') return;
+      if (!isGameType(game?.game_type, 'holm-game')) return;
 
       // If Chucky beat a player, the game should NOT have ended - auto-proceed to next hand
       if (game.last_round_result.includes('Chucky beat')) {
@@ -4823,7 +4832,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
   useEffect(() => {
     const is357StuckGameOver =
       game?.status === 'game_over' &&
-      game?.game_type !== 'holm-game' &&
+      !isGameType(game?.game_type, 'holm-game') &&
       !game?.game_over_at &&
       game?.last_round_result?.includes('won the game');
 
@@ -4947,7 +4956,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
   useEffect(() => {
     const is357GameOverNeedingProgress =
       game?.status === 'game_over' &&
-      game?.game_type !== 'holm-game' &&
+      !isGameType(game?.game_type, 'holm-game') &&
       !game?.game_over_at &&
       !!game?.last_round_result?.includes('won the game');
 
@@ -5036,7 +5045,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
 
 
   useEffect(() => {
-    if (game?.status === 'game_over' && game?.game_type === 'holm-game' && game?.last_round_result) {
+    if (game?.status === 'game_over' && isGameType(game?.game_type, 'holm-game') && game?.last_round_result) {
       const resultMessage = game.last_round_result;
 
       // Check if this is a player beating Chucky (not Chucky beating a player)
@@ -5178,7 +5187,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
   const horsesWinAnimationRoundRef = useRef<number | null>(null);
   
   useEffect(() => {
-    if (game?.game_type !== 'horses' && game?.game_type !== 'ship-captain-crew') return;
+    if (!usesHorsesTable(game?.game_type)) return;
     
     // When moving to a new round (not game_over), reset the processed ref for that new round
     if (game?.status !== 'game_over') {
@@ -5264,7 +5273,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
   // Aggressively cache pot and leg positions whenever they're non-zero
   // This runs on every players/pot change to capture values BEFORE backend resets them
   useEffect(() => {
-    if (game?.game_type === 'holm-game') return;
+    if (isGameType(game?.game_type, 'holm-game')) return;
     
     // Cache pot whenever it grows (never overwrite with a smaller/reset pot)
     if (game?.pot && game.pot > cachedPotFor357WinRef.current) {
@@ -5274,7 +5283,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
     }
     
     // Cache pot for Horses separately
-    if ((game?.game_type === 'horses' || game?.game_type === 'ship-captain-crew') && game?.pot && game.pot > cachedPotForHorsesWinRef.current) {
+    if (usesHorsesTable(game?.game_type) && game?.pot && game.pot > cachedPotForHorsesWinRef.current) {
       cachedPotForHorsesWinRef.current = game.pot;
       console.log('[DICE CACHE] Cached pot (max):', game.pot);
     }
@@ -5295,7 +5304,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
   // Detect 3-5-7 final leg win and trigger win animation
   // Trigger on "won a leg" message OR "won the game" message (backend may have already transitioned)
   useEffect(() => {
-    if (game?.game_type === 'holm-game' || !game?.last_round_result) return;
+    if (isGameType(game?.game_type, 'holm-game') || !game?.last_round_result) return;
     
     const resultMessage = game.last_round_result;
     
@@ -5494,7 +5503,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
   // Handle Holm win pot animation complete - delay 2 seconds then proceed to next game
   const handleHolmWinPotAnimationComplete = useCallback(async () => {
     // Guard: Only proceed if we're actually in game_over with a valid Holm win
-    if (game?.status !== 'game_over' || game?.game_type !== 'holm-game') {
+    if (game?.status !== 'game_over' || !isGameType(game?.game_type, 'holm-game')) {
       console.log('[HOLM WIN POT] Animation callback fired but game not in expected state, ignoring');
       return;
     }
@@ -5521,7 +5530,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
 
   // Handle 3-5-7 win animation complete - proceed directly to next game after delay
   const handleThreeFiveSevenWinAnimationComplete = useCallback(async () => {
-    if (game?.game_type === 'holm-game' || !gameId) {
+    if (isGameType(game?.game_type, 'holm-game') || !gameId) {
       return;
     }
 
@@ -5561,8 +5570,8 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
     await handleGameOverComplete();
   }, [game?.status, game?.game_type, gameId, handleGameOverComplete, fetchGameData]);
 
-  // YAHTZEE game_over transition
-  // Yahtzee handles its own win overlay/animation internally, then sets game to game_over.
+  // YAHTZEE (and FARKLE) game_over transition
+  // Yahtzee and Farkle handle their own win overlay/animation internally, then set the game to game_over.
   // After a brief delay, transition to next game.
   // IMPORTANT: Use a ref for handleGameOverComplete so the effect cleanup doesn't cancel
   // our timers when `game` object changes and causes handleGameOverComplete to get a new reference.
@@ -5571,7 +5580,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
 
   const yahtzeeGameOverProcessedRef = useRef<string | null>(null);
   useEffect(() => {
-    if (game?.game_type !== 'yahtzee' || game?.status !== 'game_over') {
+    if ((!isGameType(game?.game_type, 'yahtzee') && !isGameType(game?.game_type, 'farkle')) || game?.status !== 'game_over') {
       if (game?.status !== 'game_over') yahtzeeGameOverProcessedRef.current = null;
       return;
     }
@@ -5632,7 +5641,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
       })
       .eq('id', gameId);
 
-    // Create round 1 AFTER dealer selection, with cribbage_state initialized.
+    // Create round 1 AFTER dealer selection, with game_state initialized.
     // Passing isFirstHand=false avoids the deferred "client initializes" path.
     const result = await startCribbageRound(gameId, false);
     if (!result.success) {
@@ -5661,7 +5670,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
     // React state can be stale, causing both clients to attempt ante processing or use wrong game type
     const { data: freshGame, error: gameError } = await supabase
       .from('games')
-      .select('status, game_type, ante_amount, is_first_hand, pot')
+      .select('status, game_type, ante_amount, is_first_hand, pot, lcr_chips')
       .eq('id', gameId)
       .single();
     
@@ -5812,17 +5821,20 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
     try {
           // CRITICAL: Use freshGame (from DB) for game_type, not stale React state!
           // After transitioning from 3-5-7 to Holm, React state may still have old game_type
-          const isHolmGame = freshGame?.game_type === 'holm-game' || freshGame?.game_type === 'holm';
-          const isHorsesGame = freshGame?.game_type === 'horses' || freshGame?.game_type === 'ship-captain-crew';
-          const isYahtzeeGame = freshGame?.game_type === 'yahtzee';
-          const isCribbageGame = freshGame?.game_type === 'cribbage';
+          const isHolmGame = isGameType(freshGame?.game_type, 'holm-game');
+          const isHorsesGame = usesHorsesTable(freshGame?.game_type);
+          const isCribbageGame = isGameType(freshGame?.game_type, 'cribbage');
+          // Module games say how their antes are taken and deal their own first hand
+          const gameModule = getGameModule(freshGame?.game_type);
 
           // Capture PRE-ante chips and trigger animation IMMEDIATELY (before DB ops).
           const activePlayersBefore = players.filter(p => !p.sitting_out);
-          const perPlayerAmount = typeof freshGame?.ante_amount === 'number' ? freshGame.ante_amount : 0;
+          const perPlayerAmount = typeof freshGame?.ante_amount === 'number'
+            ? freshGame.ante_amount * (gameModule?.antesPerPlayer?.(freshGame) ?? 1)
+            : 0;
 
-          // Skip ante animation for cribbage and yahtzee - they don't use the chip animation pattern
-          if (!isCribbageGame && !isYahtzeeGame && perPlayerAmount > 0 && activePlayersBefore.length > 0) {
+          // Skip ante animation for games whose antes don't go into the pot
+          if ((gameModule?.antesToPot ?? true) && perPlayerAmount > 0 && activePlayersBefore.length > 0) {
             const preChipsSnapshot: Record<string, number> = {};
             const expectedChips: Record<string, number> = {};
             activePlayersBefore.forEach(p => {
@@ -5857,15 +5869,11 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
             await startHolmRound(gameId, shouldRunHolmFirstHand);
           } else if (isHorsesGame) {
             // isHorsesGame now includes ship-captain-crew - use freshGame for type check
-            if (freshGame?.game_type === 'ship-captain-crew') {
+            if (isGameType(freshGame?.game_type, 'ship-captain-crew')) {
               await startSCCRound(gameId, true);
             } else {
               await startHorsesRound(gameId, true);
             }
-          } else if (isYahtzeeGame) {
-            console.log('[ANTE][YAHTZEE] Starting yahtzee round');
-            await startYahtzeeRound(gameId!, true);
-            await fetchGameData();
           } else if (isCribbageGame) {
             // Cribbage: transition to dealer selection phase (high-card animation)
             // The round will be created after dealer selection completes
@@ -5877,12 +5885,10 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
                 dealer_selection_state: null, // Will be populated by HighCardDealerSelection
               })
               .eq('id', gameId);
-          } else if (freshGame?.game_type === 'gin-rummy') {
-            // Gin Rummy: go straight to in_progress and start the round
-            console.log('[ANTE][GIN-RUMMY] Starting gin rummy round');
-            await startGinRummyRound(gameId!);
-            // Immediately fetch so currentRound is populated before GinRummyGameTable mounts,
-            // eliminating the "Loading Gin Rummy" delay from polling gaps.
+          } else if (gameModule?.startHand) {
+            console.log(`[ANTE] Starting ${freshGame?.game_type} round`);
+            await gameModule.startHand(gameId!);
+            // Fetch right away so currentRound is populated before the module table mounts
             await fetchGameData();
           } else {
             await supabase
@@ -5965,7 +5971,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
       
       // For Holm games, explicitly fetch to get updated turn position - don't rely on realtime alone
       // Note: checkHolmRoundComplete is called inside makeDecision, no need to call again
-      if (game?.game_type === 'holm-game') {
+      if (isGameType(game?.game_type, 'holm-game')) {
         console.log('[PLAYER DECISION] *** Explicitly fetching after turn advance ***');
         setTimeout(() => fetchGameData(), 150);
       }
@@ -5992,7 +5998,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
       
       // For Holm games, explicitly fetch to get updated turn position - don't rely on realtime alone
       // Note: checkHolmRoundComplete is called inside makeDecision, no need to call again
-      if (game?.game_type === 'holm-game') {
+      if (isGameType(game?.game_type, 'holm-game')) {
         console.log('[PLAYER DECISION] *** Explicitly fetching after turn advance (fold) ***');
         setTimeout(() => fetchGameData(), 150);
       }
@@ -6009,7 +6015,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
     console.log('[DEBUG PROCEED] Manually proceeding to next round');
     
     try {
-      const isHolmGame = game?.game_type === 'holm-game';
+      const isHolmGame = isGameType(game?.game_type, 'holm-game');
       if (isHolmGame) {
         await proceedToNextHolmRound(gameId);
       } else {
@@ -6693,7 +6699,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
                   />
                 )}
               </div>
-            ) : ((game.status === 'game_over' || game.status === 'session_ended' || (is357WinAnimationActive && game.game_type !== 'holm-game') || horsesWinPotTriggerId) && game.game_type !== 'cribbage' && (!game.last_round_result || !game.last_round_result.includes('Chucky beat'))) ? (
+            ) : ((game.status === 'game_over' || game.status === 'session_ended' || (is357WinAnimationActive && !isGameType(game.game_type, 'holm-game')) || horsesWinPotTriggerId) && !isGameType(game.game_type, 'cribbage') && (!game.last_round_result || !game.last_round_result.includes('Chucky beat'))) ? (
               <div className="relative">
                 <MobileGameTable key={gameId ?? 'unknown-game'}
                     gameId={gameId}
@@ -6721,7 +6727,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
                     chuckyCardsRevealed={currentRound?.chucky_cards_revealed}
                     chuckyActive={currentRound?.chucky_active}
                     gameType={game.game_type}
-                    gameStatus={(is357WinAnimationActive && game.game_type !== 'holm-game') ? 'game_over' : game.status}
+                    gameStatus={(is357WinAnimationActive && !isGameType(game.game_type, 'holm-game')) ? 'game_over' : game.status}
                     roundStatus={currentRound?.status}
                     isGameOver={game.status === 'game_over' || game.status === 'session_ended' || !!game.game_over_at}
                     isDealer={isDealer || (dealerPlayer?.is_bot && allowBotDealers) || false}
@@ -6827,7 +6833,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
         )}
 
         {/* CRIBBAGE DEALER SELECTION - High card animation to determine first dealer */}
-        {game.status === 'cribbage_dealer_selection' && game.game_type === 'cribbage' && (
+        {game.status === 'cribbage_dealer_selection' && isGameType(game.game_type, 'cribbage') && (
           <>
             {/* High Card Dealer Selection Logic (headless - manages state only) */}
             <HighCardDealerSelection
@@ -6860,13 +6866,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
               onGameComplete={fetchGameData}
               dealerChatMessages={cribbageDealerChatMessages}
               onInjectDealerChatMessage={injectCribbageDealerChatMessage}
-              gameConfig={{
-                pointsToWin: game.points_to_win || 121,
-                skunkEnabled: game.skunk_enabled ?? true,
-                skunkThreshold: game.skunk_threshold || 91,
-                doubleSkunkEnabled: game.double_skunk_enabled ?? true,
-                doubleSkunkThreshold: game.double_skunk_threshold || 61,
-              }}
+              gameConfig={cribbageModule.config.fromGame(game)}
               dealerSelectionCards={dealerSelectionCards}
               dealerSelectionAnnouncement={dealerSelectionAnnouncement}
               dealerSelectionWinnerPosition={dealerSelectionWinnerPosition}
@@ -6875,62 +6875,46 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
           </>
         )}
 
-        {(game.status === 'ante_decision' || game.status === 'in_progress' || (game.status === 'game_over' && (game.game_type === 'cribbage' || game.game_type === 'gin-rummy' || game.game_type === 'yahtzee'))) && (() => {
-          const isInProgress = game.status === 'in_progress' || (game.status === 'game_over' && game.game_type === 'yahtzee');
+        {(game.status === 'ante_decision' || game.status === 'in_progress' || (game.status === 'game_over' && usesGameModule(game.game_type))) && (() => {
+          // Which table renders this game comes from the game type registry
+          const table = getGameTypeInfo(game.game_type)?.table ?? 'poker';
+          const gameModule = getGameModule(game.game_type);
+          const isInProgress = game.status === 'in_progress';
           const isAnteDecision = game.status === 'ante_decision';
-          const isCribbageGameOver = game.status === 'game_over' && game.game_type === 'cribbage';
-          const isGinRummyGameOver = game.status === 'game_over' && game.game_type === 'gin-rummy';
+          const isModuleGameOver = game.status === 'game_over' && !!gameModule;
           const hasActiveRound = isInProgress && Boolean(currentRound?.id);
 
-          // CRIBBAGE during ante_decision - show cribbage table instead of 3-5-7
-          if (isAnteDecision && game.game_type === 'cribbage') {
+          // Module-based games (acey-deucey, cribbage, euchre, farkle, gin rummy, hold'em, left right center, liar's dice, screw your neighbor, spades, stud, yahtzee) render their own table.
+          // CRITICAL: it stays mounted through the win sequence (in_progress -> game_over),
+          // and onGameComplete must call handleGameOverComplete to move on to the next game.
+          if (gameModule && (isInProgress || isModuleGameOver || (isAnteDecision && gameModule.showTableDuringAnte))) {
+            const { Table } = gameModule;
             return (
-              <CribbageMobileGameTable
+              <Table
                 gameId={gameId!}
-                roundId=""
-                dealerGameId={null}
-                handNumber={0}
+                roundId={isAnteDecision ? '' : currentRound?.id || ''}
+                dealerGameId={isAnteDecision ? null : currentRound?.dealer_game_id || null}
+                handNumber={isAnteDecision ? 0 : currentRound?.hand_number ?? 1}
                 players={players}
                 currentUserId={user?.id || ''}
                 dealerPosition={game.dealer_position || 1}
                 anteAmount={game.ante_amount || 1}
-                pot={0}
+                pot={isAnteDecision ? 0 : potForDisplay}
                 isHost={isCreator}
-                onGameComplete={() => {}}
-                dealerChatMessages={[]}
-                onInjectDealerChatMessage={() => {}}
-                gameConfig={{
-                  pointsToWin: game.points_to_win || 121,
-                  skunkEnabled: game.skunk_enabled ?? true,
-                  skunkThreshold: game.skunk_threshold || 91,
-                  doubleSkunkEnabled: game.double_skunk_enabled ?? true,
-                  doubleSkunkThreshold: game.double_skunk_threshold || 61,
-                }}
-              />
-            );
-          }
-
-          // GIN RUMMY during ante_decision - show gin rummy table instead of 3-5-7
-          if (isAnteDecision && game.game_type === 'gin-rummy') {
-            return (
-              <GinRummyGameTable
-                gameId={gameId!}
-                roundId=""
-                dealerGameId={null}
-                handNumber={0}
-                players={players}
-                currentUserId={user?.id || ''}
-                dealerPosition={game.dealer_position || 1}
-                anteAmount={game.ante_amount || 1}
-                pot={0}
-                isHost={isCreator}
-                onGameComplete={() => {}}
+                isGameOver={isModuleGameOver}
+                config={gameModule.config.fromGame(game)}
+                gameState={isAnteDecision ? null : currentRound?.game_state ?? null}
+                onGameComplete={isAnteDecision ? () => {} : handleGameOverComplete}
+                onRefetch={fetchGameData}
+                onPlayerClick={(player) => { setSelectedPlayer(player as Player); setShowPlayerOptions(true); }}
+                dealerChatMessages={isAnteDecision ? [] : cribbageDealerChatMessages}
+                onInjectDealerChatMessage={isAnteDecision ? () => {} : injectCribbageDealerChatMessage}
               />
             );
           }
 
           // DICE GAMES (Horses and Ship Captain Crew)
-          if (isInProgress && (game.game_type === 'horses' || game.game_type === 'ship-captain-crew')) {
+          if (isInProgress && table === 'horses') {
             const horsesState = currentRound?.horses_state as HorsesStateFromDB | null;
 
             // Mobile: use the same MobileGameTable shell as Holm/357
@@ -7015,78 +6999,8 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
             );
           }
 
-          // YAHTZEE GAME
-          if (isInProgress && game.game_type === 'yahtzee') {
-            const yahtzeeState = (currentRound as any)?.yahtzee_state as import('@/lib/yahtzeeTypes').YahtzeeState | null;
-            return (
-              <YahtzeeGameTable
-                gameId={gameId!}
-                players={players}
-                currentUserId={user?.id}
-                pot={potForDisplay}
-                anteAmount={game.ante_amount || 1}
-                dealerPosition={game.dealer_position || 1}
-                currentRoundId={currentRound?.id || null}
-                dealerGameId={currentRound?.dealer_game_id || null}
-                yahtzeeState={yahtzeeState}
-                onRefetch={fetchGameData}
-                isHost={isCreator}
-                onPlayerClick={(player) => { setSelectedPlayer(player as Player); setShowPlayerOptions(true); }}
-              />
-            );
-          }
-
-          // GIN RUMMY GAME
-          if ((isInProgress || isGinRummyGameOver) && game.game_type === 'gin-rummy') {
-            return (
-              <GinRummyGameTable
-                gameId={gameId!}
-                roundId={currentRound?.id || ''}
-                dealerGameId={currentRound?.dealer_game_id || null}
-                handNumber={currentRound?.hand_number ?? 1}
-                players={players}
-                currentUserId={user?.id || ''}
-                dealerPosition={game.dealer_position || 1}
-                anteAmount={game.ante_amount || 1}
-                pot={potForDisplay}
-                isHost={isCreator}
-                onGameComplete={handleGameOverComplete}
-              />
-            );
-          }
-
-          // CRIBBAGE GAME - Use mobile-optimized table
-          // CRITICAL: onGameComplete must call handleGameOverComplete to transition to next game
-          // CRIBBAGE GAME - Keep table mounted through win sequence (in_progress -> game_over)
-          if ((isInProgress || isCribbageGameOver) && game.game_type === 'cribbage') {
-            return (
-              <CribbageMobileGameTable
-                gameId={gameId!}
-                roundId={currentRound?.id || ''}
-                dealerGameId={currentRound?.dealer_game_id || null}
-                handNumber={currentRound?.hand_number ?? 1}
-                players={players}
-                currentUserId={user?.id || ''}
-                dealerPosition={game.dealer_position || 1}
-                anteAmount={game.ante_amount || 1}
-                pot={isCribbageGameOver ? 0 : potForDisplay}
-                isHost={isCreator}
-                onGameComplete={handleGameOverComplete}
-                dealerChatMessages={cribbageDealerChatMessages}
-                onInjectDealerChatMessage={injectCribbageDealerChatMessage}
-                gameConfig={{
-                  pointsToWin: game.points_to_win || 121,
-                  skunkEnabled: game.skunk_enabled ?? true,
-                  skunkThreshold: game.skunk_threshold || 91,
-                  doubleSkunkEnabled: game.double_skunk_enabled ?? true,
-                  doubleSkunkThreshold: game.double_skunk_threshold || 61,
-                }}
-              />
-            );
-          }
-
           // TRIVIA GAME
-          if (isInProgress && game.game_type === 'trivia') {
+          if (isInProgress && table === 'trivia') {
             const currentPlayer = players.find(p => p.user_id === user?.id);
             const currentUsername = currentPlayer?.profiles?.username || 'Player';
             return (
@@ -7130,7 +7044,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
               communityCards={isInProgress ? (currentRound?.community_cards as CardType[] | undefined) : undefined}
               communityCardsRevealed={isInProgress ? effectiveCommunityCardsRevealed : undefined}
               buckPosition={isInProgress ? game.buck_position : undefined}
-              currentTurnPosition={isInProgress && game.game_type === 'holm-game' ? currentRound?.current_turn_position : null}
+              currentTurnPosition={isInProgress && isGameType(game.game_type, 'holm-game') ? currentRound?.current_turn_position : null}
               chuckyCards={isInProgress ? (currentRound?.chucky_cards as CardType[] | undefined) : undefined}
               chuckyActive={isInProgress ? currentRound?.chucky_active : undefined}
               chuckyCardsRevealed={isInProgress ? currentRound?.chucky_cards_revealed : undefined}
@@ -7265,6 +7179,7 @@ const [anteAnimationTriggerId, setAnteAnimationTriggerId] = useState<string | nu
         player={selectedPlayer}
         players={players}
         gameId={gameId!}
+        gameType={game?.game_type}
         isHost={isCreator}
         currentUserId={user?.id}
         onUpdate={fetchGameData}
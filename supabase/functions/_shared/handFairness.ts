@@ -0,0 +1,65 @@
+// Edge-function counterpart of src/lib/handFairness.ts.
+// The deadline enforcers deal and roll on behalf of stuck clients; real-money hands
+// must still come from the hand's committed seed (deal_fair_cards and roll_fair_dice
+// accept the service role, which names the hand it deals). Play-money games keep
+// using Math.random.
+
+import { shuffle, type RandomSource } from './rules/random.ts';
+import { createDealtOrderSource, createRolledDiceSource, deckLabel } from './rules/fairness.ts';
+
+// The slice of the supabase-js client these helpers need
+interface RpcClient {
+  rpc(fn: string, args: Record<string, unknown>): PromiseLike<{ data: unknown; error: { message: string } | null }>;
+}
+
+export interface FairHand {
+  game: { id: string; real_money?: boolean | null };
+  dealerGameId?: string | null;
+  handNumber?: number | null;
+}
+
+/**
+ * Shuffle a deck for the next `count` cards of the hand's deck `label`. Real-money hands
+ * get back just those cards, dealt from the seed; play money gets the whole deck.
+ */
+export async function shuffleHandDeck<T>(
+  supabase: RpcClient,
+  hand: FairHand,
+  deck: T[],
+  count: number,
+  label = deckLabel()
+): Promise<T[]> {
+  if (count <= 0 || hand.game.real_money !== true) return shuffle(deck);
+
+  const { data, error } = await supabase.rpc('deal_fair_cards', {
+    _game_id: hand.game.id,
+    _deck_size: deck.length,
+    _count: count,
+    _label: label,
+    _dealer_game_id: hand.dealerGameId ?? undefined,
+    _hand_number: hand.handNumber ?? undefined,
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to deal fair cards: ${error?.message ?? 'no data returned'}`);
+  }
+
+  return shuffle(deck, createDealtOrderSource((data as unknown[]).map(Number), deck.length)).slice(0, count);
+}
+
+export async function drawFairDiceRandom(
+  supabase: RpcClient,
+  game: FairHand['game'],
+  dice: Array<{ isHeld: boolean }>
+): Promise<RandomSource | undefined> {
+  const count = dice.filter(d => !d.isHeld).length;
+  if (count <= 0 || game.real_money !== true) return undefined;
+
+  const { data, error } = await supabase.rpc('roll_fair_dice', { _game_id: game.id, _count: count });
+
+  if (error || !data) {
+    throw new Error(`Failed to roll fair dice: ${error?.message ?? 'no data returned'}`);
+  }
+
+  return createRolledDiceSource((data as unknown[]).map(Number));
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateHand, createDeck, shuffleDeck, type Card } from './cards.ts';
+
+// Helper to make cards quickly
+const c = (rank: Card['rank'], suit: Card['suit']): Card => ({ rank, suit });
+
+describe('createDeck / shuffleDeck', () => {
+  it('creates 52 unique cards', () => {
+    const deck = createDeck();
+    expect(deck.length).toBe(52);
+    expect(new Set(deck.map(card => `${card.rank}${card.suit}`)).size).toBe(52);
+  });
+
+  it('shuffles without losing or duplicating cards', () => {
+    const deck = createDeck();
+    const shuffled = shuffleDeck(deck);
+    expect(shuffled).not.toBe(deck);
+    expect(new Set(shuffled.map(card => `${card.rank}${card.suit}`)).size).toBe(52);
+  });
+});
+
+describe('evaluateHand (Holm, no wilds)', () => {
+  const community = [c('K', '♠'), c('K', '♦'), c('7', '♣'), c('4', '♥')];
+
+  it('breaks a shared pair on kickers', () => {
+    const aceKicker = evaluateHand([c('A', '♥'), c('9', '♣'), c('3', '♦'), c('2', '♠'), ...community], false);
+    const queenKicker = evaluateHand([c('Q', '♥'), c('9', '♦'), c('3', '♣'), c('2', '♦'), ...community], false);
+    expect(aceKicker.rank).toBe('pair');
+    expect(queenKicker.rank).toBe('pair');
+    expect(aceKicker.value).toBeGreaterThan(queenKicker.value);
+  });
+
+  it('compares flushes beyond the top card', () => {
+    const high = evaluateHand([c('A', '♥'), c('J', '♥'), c('9', '♥'), c('6', '♥'), c('2', '♥')], false);
+    const low = evaluateHand([c('A', '♥'), c('J', '♥'), c('8', '♥'), c('6', '♥'), c('2', '♥')], false);
+    expect(high.rank).toBe('flush');
+    expect(high.value).toBeGreaterThan(low.value);
+  });
+
+  it('ranks the wheel as a five-high straight', () => {
+    const wheel = evaluateHand([c('A', '♠'), c('2', '♦'), c('3', '♣'), c('4', '♥'), c('5', '♠')], false);
+    const sixHigh = evaluateHand([c('2', '♦'), c('3', '♣'), c('4', '♥'), c('5', '♠'), c('6', '♠')], false);
+    expect(wheel.rank).toBe('straight');
+    expect(sixHigh.value).toBeGreaterThan(wheel.value);
+  });
+
+  it('normalizes lowercase ranks and legacy Suit/Rank keys', () => {
+    const legacy = [{ Suit: '♠', Rank: 'k' }, { Suit: '♦', Rank: 'k' }] as unknown as Card[];
+    expect(evaluateHand([...legacy, c('7', '♣')], false).rank).toBe('pair');
+  });
+});
@@ -0,0 +1,193 @@
+// Cribbage game types and interfaces
+
+export interface CribbageCard {
+  suit: 'hearts' | 'diamonds' | 'clubs' | 'spades';
+  rank: string; // 'A', '2'-'10', 'J', 'Q', 'K'
+  value: number; // Point value for pegging (A=1, 2-10 face value, J/Q/K=10)
+}
+
+export interface CribbagePlayerState {
+  playerId: string;
+  hand: CribbageCard[];
+  pegScore: number; // Current score on the board (0-121)
+  hasCalledGo: boolean;
+  discardedToCrib: CribbageCard[];
+}
+
+export interface PeggingState {
+  playedCards: { playerId: string; card: CribbageCard }[];
+  currentCount: number; // Running count (0-31)
+  currentTurnPlayerId: string | null;
+  lastToPlay: string | null; // For awarding "go" and "last card" points
+  goCalledBy: string[]; // Players who have called "go" this count
+  sequenceStartIndex: number; // Index into playedCards where current sequence starts (for UI clearing)
+}
+
+export type CribbageEventType =
+  | 'pegging_points'
+  | 'go_point'
+  | 'his_heels'
+  | 'hand_count'
+  | 'muggins';
+
+export interface CribbageEvent {
+  id: string;
+  type: CribbageEventType;
+  playerId: string;
+  points: number;
+  label: string;
+  createdAt: string;
+  count?: number; // pegging count after the action (0-31)
+}
+
+export interface CribbageHandCountSummary {
+  countedAt: string;
+  playerHandScores: Record<string, HandScore>;
+  dealerHandScore: HandScore;
+  cribScore: HandScore;
+}
+
+// Muggins: each hand and the crib is declared by its owner, in counting order. An opponent
+// who thinks the owner miscounted can call muggins before the next deal, naming the points.
+export interface CribbageCountDeclaration {
+  playerId: string;
+  kind: 'hand' | 'crib';
+  score: number | null; // What the cards are actually worth, filled in once a claim is settled
+  declared: number | null; // null until the owner counts it
+  claimedBy: string | null; // The opponent who called muggins
+  claimed: number | null; // The points they said were missed (negative: counted too many)
+}
+
+export type CribbagePhase = 
+  | 'dealing' 
+  | 'discarding' // Players discard to crib
+  | 'cutting' // Cut card is revealed
+  | 'pegging' // Play cards to 31
+  | 'counting' // Count hands
+  | 'complete';
+
+export interface CribbageState {
+  phase: CribbagePhase;
+  dealerPlayerId: string;
+  cribOwnerPlayerId: string; // Same as dealer
+  playerStates: Record<string, CribbagePlayerState>;
+  turnOrder: string[]; // Player IDs in order (non-dealer first for pegging)
+  crib: CribbageCard[];
+  cutCard: CribbageCard | null;
+  pegging: PeggingState;
+  anteAmount: number;
+  pot: number;
+  // Game configuration (from dealer setup)
+  pointsToWin: number; // Configurable winning score (default 121)
+  skunkEnabled: boolean;
+  skunkThreshold: number; // Loser below this = skunk (2x)
+  doubleSkunkEnabled: boolean;
+  doubleSkunkThreshold: number; // Loser below this = double-skunk (3x)
+  // Four players only: partners sit opposite (turnOrder i and i+2) and play to their combined
+  // pegScores. Absent on states from before partnerships.
+  partnerships?: boolean;
+  // Owners count their own hands and crib, and opponents may claim what they miss.
+  // Absent on states from before muggins.
+  muggins?: boolean;
+  counts?: CribbageCountDeclaration[] | null; // Muggins declarations for the hand being counted
+  // UX / debugging helpers
+  lastEvent?: CribbageEvent | null;
+  lastHandCount?: CribbageHandCountSummary | null;
+  // Skunk tracking (with partnerships, the winner is the partner whose points took the team over)
+  winnerPlayerId: string | null;
+  loserScore: number | null; // For determining skunk/double-skunk; the losing team's score with partnerships
+  payoutMultiplier: number; // 1 = normal, 2 = skunk, 3 = double-skunk
+}
+
+// Scoring constants
+export const CRIBBAGE_WINNING_SCORE = 121;
+export const SKUNK_THRESHOLD = 91; // Loser < 91 = skunk (2x)
+export const DOUBLE_SKUNK_THRESHOLD = 61; // Loser < 61 = double-skunk (3x)
+
+// Preset game modes for dealer setup
+export type CribbageGameMode = 'full' | 'half' | 'super_quick' | 'sprint' | 'custom';
+
+export interface CribbageGameModeConfig {
+  id: CribbageGameMode;
+  label: string;
+  description: string;
+  pointsToWin: number | null; // null for custom mode (user enters value)
+  skunkThreshold: number;      // Only applies if skunks enabled
+  doubleSkunkThreshold: number | null; // null = no double skunk for this mode
+}
+
+export const CRIBBAGE_GAME_MODES: CribbageGameModeConfig[] = [
+  {
+    id: 'full',
+    label: 'Full Game',
+    description: '121 points',
+    pointsToWin: 121,
+    skunkThreshold: 91,
+    doubleSkunkThreshold: 61,
+  },
+  {
+    id: 'half',
+    label: 'Half Game',
+    description: '61 points',
+    pointsToWin: 61,
+    skunkThreshold: 31,
+    doubleSkunkThreshold: 15,
+  },
+  {
+    id: 'super_quick',
+    label: 'Super Quick',
+    description: '45 points',
+    pointsToWin: 45,
+    skunkThreshold: 30,
+    doubleSkunkThreshold: null, // No double skunk
+  },
+  {
+    id: 'sprint',
+    label: 'Sprint',
+    description: '31 points, no skunks',
+    pointsToWin: 31,
+    skunkThreshold: 0, // No skunks (forces skunks off)
+    doubleSkunkThreshold: null,
+  },
+  {
+    id: 'custom',
+    label: 'Custom',
+    description: 'Enter your target',
+    pointsToWin: null, // User enters value
+    skunkThreshold: 0, // Skunks disabled for custom
+    doubleSkunkThreshold: null,
+  },
+];
+
+// Card dealing rules by player count
+export const CARDS_PER_PLAYER: Record<number, number> = {
+  2: 6, // Each gets 6, discards 2 to crib
+  3: 5, // Each gets 5, discards 1, dealer puts 1 in crib
+  4: 5, // Each gets 5, discards 1 each
+};
+
+export const DISCARD_COUNT: Record<number, number> = {
+  2: 2, // Each discards 2
+  3: 1, // Each discards 1
+  4: 1, // Each discards 1
+};
+
+// Point values for hand evaluation
+export interface HandScore {
+  fifteens: number;
+  pairs: number;
+  runs: number;
+  flush: number;
+  nobs: number; // Jack of same suit as cut card
+  total: number;
+}
+
+export interface PeggingPoints {
+  fifteen: boolean; // 2 points
+  thirtyOne: boolean; // 2 points (hitting exactly 31)
+  pair: number; // 2 for pair, 6 for three of a kind, 12 for four of a kind
+  run: number; // Points = length of run (min 3)
+  go: boolean; // 1 point for go
+  lastCard: boolean; // 1 point for playing the last card
+  total: number;
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  sha256Hex,
+  verifySeedHash,
+  createDealtOrderSource,
+  createRolledDiceSource,
+  deriveShuffle,
+  deriveDice,
+  deckLabel,
+  verifyFairDeals,
+  DICE_LABEL,
+  type FairDeal,
+} from './fairness.ts';
+import { createDeck, shuffleDeck } from './cards.ts';
+import { rollDie } from './random.ts';
+
+const SEED = '9f2c4e1a7b3d5f60182a4c6e8b0d2f4163a5c7e9b1d3f5072a4c6e8f0b2d4f61';
+
+describe('sha256Hex', () => {
+  it('matches the standard test vectors', () => {
+    expect(sha256Hex('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('handles multi-block messages', () => {
+    expect(sha256Hex('a'.repeat(1000))).toBe('41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3');
+  });
+
+  it('verifies a revealed seed against its commitment', () => {
+    expect(verifySeedHash(SEED, sha256Hex(SEED).toUpperCase())).toBe(true);
+    expect(verifySeedHash(`${SEED}0`, sha256Hex(SEED))).toBe(false);
+  });
+});
+
+describe('seeded streams', () => {
+  it('puts the dealt cards on top of the deck, in the order dealt', () => {
+    const deck = createDeck();
+    const served = deriveShuffle(SEED, deckLabel(), deck.map((_, i) => i)).slice(0, 9);
+    const dealt = shuffleDeck(deck, createDealtOrderSource(served, deck.length));
+    expect(dealt.slice(0, 9)).toEqual(deriveShuffle(SEED, deckLabel(), createDeck()).slice(0, 9));
+    expect(new Set(dealt.map(c => `${c.rank}${c.suit}`)).size).toBe(52);
+  });
+
+  it('leaves the cards that were not dealt in deck order', () => {
+    const deck = createDeck();
+    const dealt = shuffleDeck(deck, createDealtOrderSource([51, 0], deck.length));
+    expect(dealt.slice(0, 2)).toEqual([deck[51], deck[0]]);
+    expect(dealt.slice(2)).toEqual(deck.slice(1, 51));
+  });
+
+  it('rolls the dice the server rolled', () => {
+    const rolled = deriveDice(SEED, 5);
+    const random = createRolledDiceSource(rolled);
+    expect(rolled.map(() => rollDie(random))).toEqual(rolled);
+  });
+
+  it('gives each 3-5-7 round its own deck', () => {
+    expect(deckLabel(1)).toBe('deck');
+    expect(deriveShuffle(SEED, deckLabel(2), createDeck())).not.toEqual(deriveShuffle(SEED, deckLabel(1), createDeck()));
+  });
+
+  it('throws instead of falling back when the served values run out', () => {
+    const random = createRolledDiceSource([4]);
+    random();
+    expect(() => random()).toThrow();
+  });
+
+  it('derives dice in range', () => {
+    const dice = deriveDice(SEED, 100);
+    expect(dice).toHaveLength(100);
+    expect(dice.every(v => v >= 1 && v <= 6)).toBe(true);
+    expect(deriveDice(SEED, 5)).toEqual(dice.slice(0, 5));
+  });
+});
+
+describe('verifyFairDeals', () => {
+  const order = deriveShuffle(SEED, deckLabel(), createDeck().map((_, i) => i));
+  const deals: FairDeal[] = [
+    { label: deckLabel(), from: 0, count: 4, seat: null, drawnBy: 1, deckSize: 52, positions: order.slice(0, 4) },
+    { label: DICE_LABEL, from: 0, count: 3, seat: 2, drawnBy: 2, values: deriveDice(SEED, 3) },
+    { label: deckLabel(), from: 4, count: 1, seat: 3, drawnBy: 1, deckSize: 52, positions: order.slice(4, 5) },
+  ];
+
+  it('accepts deals that are the seed\'s stream at the recorded offsets', () => {
+    expect(verifyFairDeals(SEED, deals).map(d => d.matches)).toEqual([true, true, true]);
+  });
+
+  it('flags a deal that differs from the seed', () => {
+    const swapped = { ...deals[2], positions: order.slice(5, 6) };
+    expect(verifyFairDeals(SEED, [deals[0], deals[1], swapped]).map(d => d.matches)).toEqual([true, true, false]);
+  });
+
+  it('flags a deal that skips part of the stream', () => {
+    const skipped = { ...deals[2], from: 5, positions: order.slice(5, 6) };
+    expect(verifyFairDeals(SEED, [deals[0], skipped])[1].matches).toBe(false);
+  });
+});
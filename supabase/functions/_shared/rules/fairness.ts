@@ -0,0 +1,221 @@
+/**
+ * Provably fair (commit-reveal) randomness for real-money hands.
+ *
+ * The server picks a secret seed for every hand and publishes sha256(seed)
+ * before anything is dealt. Each random value handed out for that hand is
+ *
+ *   u32(sha256(`${seed}:${label}:${index}`)) / 2^32
+ *
+ * where u32 is the first four digest bytes read big-endian. The deal_fair_cards
+ * and roll_fair_dice RPCs shuffle and roll with exactly the same numbers in SQL,
+ * handing out only the cards dealt and the dice rolled, so once the seed is
+ * revealed anyone can re-derive the deck order or dice from it.
+ */
+
+import { shuffle, rollDie, type RandomSource } from './random.ts';
+
+/** Label for dice streams; every roll in a hand continues the same sequence. */
+export const DICE_LABEL = 'dice';
+
+/** Label for a hand's deck. 3-5-7 shuffles per round, so its rounds get their own. */
+export function deckLabel(roundNumber?: number): string {
+  return roundNumber && roundNumber > 1 ? `deck:${roundNumber}` : 'deck';
+}
+
+/** Label for Chucky's deck in Holm, dealt at the showdown by whoever settles the hand. */
+export const CHUCKY_LABEL = 'chucky';
+
+const UINT32_RANGE = 4294967296;
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+/**
+ * SHA-256 of a UTF-8 string. Synchronous (unlike crypto.subtle) so seeded
+ * streams can feed the synchronous shuffle and roll helpers.
+ */
+export function sha256(message: string): Uint8Array {
+  const bytes = new TextEncoder().encode(message);
+  const bitLength = bytes.length * 8;
+  const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / UINT32_RANGE));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const h = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (hh + S1 + ch + K[i] + w[i]) >>> 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) >>> 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d;
+    h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+
+  const digest = new Uint8Array(32);
+  const out = new DataView(digest.buffer);
+  h.forEach((word, i) => out.setUint32(i * 4, word));
+  return digest;
+}
+
+/** Hex-encoded SHA-256; this is the published commitment for a seed. */
+export function sha256Hex(message: string): string {
+  return Array.from(sha256(message), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** True when the revealed seed matches the hash published at the start of the hand. */
+export function verifySeedHash(seed: string, seedHash: string): boolean {
+  return sha256Hex(seed) === seedHash.toLowerCase();
+}
+
+/** The index-th raw value of a labelled stream (0 <= value < 2^32). */
+export function fairUint32(seed: string, label: string, index: number): number {
+  const digest = sha256(`${seed}:${label}:${index}`);
+  return ((digest[0] << 24) | (digest[1] << 16) | (digest[2] << 8) | digest[3]) >>> 0;
+}
+
+/** Random source reading a labelled stream from `start` onwards. */
+export function createSeedStream(seed: string, label: string, start = 0): RandomSource {
+  let index = start;
+  return () => fairUint32(seed, label, index++) / UINT32_RANGE;
+}
+
+/**
+ * Random source under which shuffle() puts the cards dealt by deal_fair_cards on top of a
+ * deck of `deckSize`: `positions` are their indexes in the unshuffled deck, in dealt order.
+ * Only those cards come from the seed. The rest stay below them in unshuffled order, so a
+ * rule must not turn more cards than were dealt (runWithFairDeck deals the shortfall).
+ */
+export function createDealtOrderSource(positions: number[], deckSize: number): RandomSource {
+  const dealt = new Set(positions);
+  const order = [...positions, ...Array.from({ length: deckSize }, (_, i) => i).filter(i => !dealt.has(i))];
+
+  // Walk the Fisher-Yates swaps, picking at each step the position order[] wants there
+  const current = Array.from({ length: deckSize }, (_, i) => i);
+  const values: number[] = [];
+  for (let i = deckSize - 1; i > 0; i--) {
+    const j = current.indexOf(order[i]);
+    values.push((j + 0.5) / (i + 1));
+    [current[i], current[j]] = [current[j], current[i]];
+  }
+  return createValueSource(values, 'Dealt deck');
+}
+
+/**
+ * Random source under which rollDie() gives the dice rolled by roll_fair_dice, in order.
+ */
+export function createRolledDiceSource(values: number[]): RandomSource {
+  return createValueSource(values.map(value => (value - 0.5) / 6), 'Rolled dice');
+}
+
+// Running past the end is a bug in the caller's count, so it throws rather than quietly
+// falling back to Math.random
+function createValueSource(values: number[], name: string): RandomSource {
+  let index = 0;
+  return () => {
+    if (index >= values.length) {
+      throw new Error(`${name} exhausted after ${values.length} draws`);
+    }
+    return values[index++];
+  };
+}
+
+/** Re-derive a shuffle from a revealed seed. */
+export function deriveShuffle<T>(seed: string, label: string, items: T[]): T[] {
+  return shuffle(items, createSeedStream(seed, label));
+}
+
+/** Re-derive the first `count` die values of a revealed seed's dice stream. */
+export function deriveDice(seed: string, count: number): number[] {
+  const random = createSeedStream(seed, DICE_LABEL);
+  return Array.from({ length: count }, () => rollDie(random));
+}
+
+/**
+ * One deal_fair_cards or roll_fair_dice call, as the server recorded it: stream values
+ * `from` to `from + count` of `label`, drawn by seat `drawnBy` for the seat whose turn it
+ * was (`seat`, null when it was nobody's: a new hand, or the table between turns).
+ */
+export interface FairDeal {
+  label: string;
+  from: number;
+  count: number;
+  seat: number | null;
+  drawnBy: number | null;
+  /** Card deals: the size of the deck and the positions dealt, in order */
+  deckSize?: number;
+  positions?: number[];
+  /** Dice rolls: the values rolled */
+  values?: number[];
+}
+
+/**
+ * Check a hand's recorded deals against its revealed seed: every deal must be the
+ * stream's values at the recorded offsets, and each label's deals must follow on from
+ * one another with nothing drawn in between.
+ */
+export function verifyFairDeals(seed: string, deals: FairDeal[]): Array<FairDeal & { matches: boolean }> {
+  const orders = new Map<string, number[]>();
+  const nextFrom = new Map<string, number>();
+
+  return deals.map(deal => {
+    const follows = (nextFrom.get(deal.label) ?? 0) === deal.from;
+    nextFrom.set(deal.label, deal.from + deal.count);
+
+    if (deal.label === DICE_LABEL) {
+      const expected = deriveDice(seed, deal.from + deal.count).slice(deal.from);
+      return { ...deal, matches: follows && sameValues(deal.values ?? [], expected) };
+    }
+
+    const deckSize = deal.deckSize ?? 0;
+    let order = orders.get(deal.label);
+    if (!order || order.length !== deckSize) {
+      order = deriveShuffle(seed, deal.label, Array.from({ length: deckSize }, (_, i) => i));
+      orders.set(deal.label, order);
+    }
+    const expected = order.slice(deal.from, deal.from + deal.count);
+    return { ...deal, matches: follows && expected.length === deal.count && sameValues(deal.positions ?? [], expected) };
+  });
+}
+
+function sameValues(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GAME_TYPE_LIST,
+  canonicalGameType,
+  getGameDefaultsKey,
+  getGameDisplayName,
+  isDiceGame,
+  isGameType,
+  usesHorsesTable,
+  usesSimultaneousDecisions,
+  usesSingleRoundPerHand,
+} from './gameTypes.ts';
+
+describe('game type registry', () => {
+  it('resolves legacy aliases to the canonical id', () => {
+    expect(canonicalGameType('3-5-7-game')).toBe('3-5-7');
+    expect(canonicalGameType('357')).toBe('3-5-7');
+    expect(canonicalGameType('holm')).toBe('holm-game');
+    expect(isGameType('Holm-Game', 'holm-game')).toBe(true);
+    expect(canonicalGameType('poker-night')).toBeNull();
+    expect(canonicalGameType(null)).toBeNull();
+  });
+
+  it('never maps one name to two games', () => {
+    const names = GAME_TYPE_LIST.flatMap(g => [g.id, ...g.aliases]);
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('maps game types to their game_defaults keys', () => {
+    expect(getGameDefaultsKey('holm-game')).toBe('holm');
+    expect(getGameDefaultsKey('357')).toBe('3-5-7');
+    expect(getGameDefaultsKey('yahtzee')).toBe('yahtzee');
+    expect(getGameDefaultsKey('sports-trivia')).toBeNull();
+  });
+
+  it('groups games by family and table', () => {
+    expect(isDiceGame('yahtzee')).toBe(true);
+    expect(isDiceGame('cribbage')).toBe(false);
+    expect(usesHorsesTable('ship-captain-crew')).toBe(true);
+    expect(usesHorsesTable('yahtzee')).toBe(false);
+    expect(usesSimultaneousDecisions('357')).toBe(true);
+    expect(usesSimultaneousDecisions('guts')).toBe(true);
+    expect(usesSimultaneousDecisions('holm-game')).toBe(false);
+    expect(usesSingleRoundPerHand('holm')).toBe(true);
+    expect(usesSingleRoundPerHand('liars-dice')).toBe(true);
+    expect(usesSingleRoundPerHand('357')).toBe(false);
+    expect(usesSingleRoundPerHand('yahtzee')).toBe(false);
+  });
+
+  it('falls back to the stored value for unknown display names', () => {
+    expect(getGameDisplayName('ship-captain-crew')).toBe('Ship Captain Crew');
+    expect(getGameDisplayName('ship-captain-crew', true)).toBe('Ship');
+    expect(getGameDisplayName('poker-night')).toBe('poker-night');
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Game type registry - the one place that knows every game type.
+ *
+ * games.game_type has accumulated several spellings over time ('3-5-7',
+ * '3-5-7-game', '357'), game_defaults uses its own keys ('holm' for
+ * 'holm-game'), and each screen used to carry its own display names. Resolve
+ * game types through these helpers instead of comparing string literals.
+ */
+
+export type GameTypeId =
+  | 'holm-game'
+  | '3-5-7'
+  | 'guts'
+  | 'holdem'
+  | 'stud'
+  | 'acey-deucey'
+  | 'screw-your-neighbor'
+  | 'cribbage'
+  | 'gin-rummy'
+  | 'spades'
+  | 'euchre'
+  | 'sports-trivia'
+  | 'horses'
+  | 'ship-captain-crew'
+  | 'yahtzee'
+  | 'left-right-center'
+  | 'farkle'
+  | 'liars-dice';
+
+export type GameFamily = 'cards' | 'dice';
+
+/** Which table component renders the game */
+export type GameTableKind = 'poker' | 'holdem' | 'stud' | 'acey-deucey' | 'screw-your-neighbor' | 'cribbage' | 'gin-rummy' | 'spades' | 'euchre' | 'trivia' | 'horses' | 'yahtzee' | 'left-right-center' | 'farkle' | 'liars-dice';
+
+export interface GameTypeInfo {
+  id: GameTypeId;
+  /** Other spellings found in stored game_type values */
+  aliases: readonly string[];
+  /** game_defaults.game_type row for this game, or null when it has none */
+  defaultsKey: string | null;
+  family: GameFamily;
+  name: string;
+  /** Compact label for buttons and headers */
+  shortName: string;
+  description: string;
+  minPlayers: number;
+  maxPlayers: number;
+  table: GameTableKind;
+  /** Each hand is played out in one rounds row, so the live round is the one for the latest hand */
+  singleRoundPerHand: boolean;
+}
+
+/** Seats at the table; the most any game can hold */
+export const MAX_SEATS = 7;
+
+// In game-selection order
+export const GAME_TYPES: Record<GameTypeId, GameTypeInfo> = {
+  'holm-game': {
+    id: 'holm-game',
+    aliases: ['holm'],
+    defaultsKey: 'holm',
+    family: 'cards',
+    name: 'Holm',
+    shortName: 'Holm',
+    description: 'Beat Chucky!',
+    minPlayers: 2,
+    maxPlayers: MAX_SEATS,
+    table: 'poker',
+    singleRoundPerHand: true,
+  },
+  '3-5-7': {
+    id: '3-5-7',
+    aliases: ['3-5-7-game', '357'],
+    defaultsKey: '3-5-7',
+    family: 'cards',
+    name: '3-5-7',
+    shortName: '3-5-7',
+    description: 'Classic wild card poker',
+    minPlayers: 2,
+    maxPlayers: MAX_SEATS,
+    table: 'poker',
+    singleRoundPerHand: false,
+  },
+  guts: {
+    id: 'guts',
+    aliases: [],
+    defaultsKey: 'guts',
+    family: 'cards',
+    name: 'Guts',
+    shortName: 'Guts',
+    description: 'In or out, losers match the pot',
+    minPlayers: 2,
+    maxPlayers: MAX_SEATS,
+    table: 'poker',
+    singleRoundPerHand: false,
+  },
+  holdem: {
+    id: 'holdem',
+    aliases: [],
+    defaultsKey: 'holdem',
+    family: 'cards',
+    name: "Texas Hold'em",
+    shortName: "Hold'em",
+    description: 'No-limit, blinds & side pots',
+    minPlayers: 2,
+    maxPlayers: MAX_SEATS,
+    table: 'holdem',
+    singleRoundPerHand: true,
+  },
+  stud: {
+    id: 'stud',
+    aliases: [],
+    defaultsKey: 'stud',
+    family: 'cards',
+    name: 'Seven-Card Stud',
+    shortName: 'Stud',
+    description: 'Baseball, Follow the Queen & more',
+    minPlayers: 2,
+    maxPlayers: MAX_SEATS,
+    table: 'stud',
+    singleRoundPerHand: true,
+  },
+  'acey-deucey': {
+    id: 'acey-deucey',
+    aliases: [],
+    defaultsKey: 'acey-deucey',
+    family: 'cards',
+    name: 'Acey-Deucey',
+    shortName: 'Acey-Deucey',
+    description: 'Bet the pot on the card in between',
+    minPlayers: 2,
+    maxPlayers: MAX_SEATS,
+    table: 'acey-deucey',
+    singleRoundPerHand: true,
+  },
+  'screw-your-neighbor': {
+    id: 'screw-your-neighbor',
+    aliases: [],
+    defaultsKey: 'screw-your-neighbor',
+    family: 'cards',
+    name: 'Screw Your Neighbor',
+    shortName: 'Neighbor',
+    description: 'Pass your low card left; the lowest card loses a life',
+    minPlayers: 2,
+    maxPlayers: MAX_SEATS,
+    table: 'screw-your-neighbor',
+    singleRoundPerHand: true,
+  },
+  cribbage: {
+    id: 'cribbage',
+    aliases: [],
+    defaultsKey: 'cribbage',
+    family: 'cards',
+    name: 'Cribbage',
+    shortName: 'Cribbage',
+    description: 'Pegging to 121',
+    minPlayers: 2,
+    maxPlayers: 4,
+    table: 'cribbage',
+    singleRoundPerHand: true,
+  },
+  'gin-rummy': {
+    id: 'gin-rummy',
+    aliases: ['ginrummy'],
+    defaultsKey: 'gin-rummy',
+    family: 'cards',
+    name: 'Gin Rummy',
+    shortName: 'Gin Rummy',
+    description: 'Meld & knock',
+    minPlayers: 2,
+    maxPlayers: 2,
+    table: 'gin-rummy',
+    singleRoundPerHand: true,
+  },
+  spades: {
+    id: 'spades',
+    aliases: [],
+    defaultsKey: 'spades',
+    family: 'cards',
+    name: 'Spades',
+    shortName: 'Spades',
+    description: 'Partners bid tricks, spades are trump',
+    minPlayers: 4,
+    maxPlayers: 4,
+    table: 'spades',
+    singleRoundPerHand: true,
+  },
+  euchre: {
+    id: 'euchre',
+    aliases: [],
+    defaultsKey: 'euchre',
+    family: 'cards',
+    name: 'Euchre',
+    shortName: 'Euchre',
+    description: 'Partners call trump, bowers rank high',
+    minPlayers: 4,
+    maxPlayers: 4,
+    table: 'euchre',
+    singleRoundPerHand: true,
+  },
+  'sports-trivia': {
+    id: 'sports-trivia',
+    aliases: ['trivia'],
+    defaultsKey: null,
+    family: 'cards',
+    name: 'Trivia',
+    shortName: 'Trivia',
+    description: 'Answer trivia, win the pot',
+    minPlayers: 2,
+    maxPlayers: MAX_SEATS,
+    table: 'trivia',
+    singleRoundPerHand: false,
+  },
+  horses: {
+    id: 'horses',
+    aliases: [],
+    defaultsKey: 'horses',
+    family: 'dice',
+    name: 'Horses',
+    shortName: 'Horses',
+    description: '5 dice, best hand wins',
+    minPlayers: 2,
+    maxPlayers: MAX_SEATS,
+    table: 'horses',
+    singleRoundPerHand: false,
+  },
+  'ship-captain-crew': {
+    id: 'ship-captain-crew',
+    aliases: [],
+    defaultsKey: 'ship-captain-crew',
+    family: 'dice',
+    name: 'Ship Captain Crew',
+    shortName: 'Ship',
+    description: '6-5-4',
+    minPlayers: 2,
+    maxPlayers: MAX_SEATS,
+    table: 'horses',
+    singleRoundPerHand: false,
+  },
+  yahtzee: {
+    id: 'yahtzee',
+    aliases: [],
+    defaultsKey: 'yahtzee',
+    family: 'dice',
+    name: 'Yahtzee',
+    shortName: 'Yahtzee',
+    description: 'Fill your scorecard',
+    minPlayers: 2,
+    maxPlayers: MAX_SEATS,
+    table: 'yahtzee',
+    singleRoundPerHand: false,
+  },
+  'left-right-center': {
+    id: 'left-right-center',
+    aliases: [],
+    defaultsKey: 'left-right-center',
+    family: 'dice',
+    name: 'Left Right Center',
+    shortName: 'LCR',
+    description: 'Roll to pass chips left, right or to the center',
+    minPlayers: 3,
+    maxPlayers: MAX_SEATS,
+    table: 'left-right-center',
+    singleRoundPerHand: true,
+  },
+  farkle: {
+    id: 'farkle',
+    aliases: [],
+    defaultsKey: 'farkle',
+    family: 'dice',
+    name: 'Farkle',
+    shortName: 'Farkle',
+    description: 'Push your luck to the target score',
+    minPlayers: 2,
+    maxPlayers: MAX_SEATS,
+    table: 'farkle',
+    singleRoundPerHand: false,
+  },
+  'liars-dice': {
+    id: 'liars-dice',
+    aliases: [],
+    defaultsKey: 'liars-dice',
+    family: 'dice',
+    name: "Liar's Dice",
+    shortName: "Liar's Dice",
+    description: 'Bid on the dice under every cup, or call the last bid a lie',
+    minPlayers: 2,
+    maxPlayers: MAX_SEATS,
+    table: 'liars-dice',
+    singleRoundPerHand: true,
+  },
+};
+
+export const GAME_TYPE_LIST: GameTypeInfo[] = Object.values(GAME_TYPES);
+
+const GAME_TYPES_BY_NAME = new Map<string, GameTypeInfo>(
+  GAME_TYPE_LIST.flatMap(info => [info.id, ...info.aliases].map(name => [name, info] as const))
+);
+
+/**
+ * Look up a game type by its id or any legacy alias (case-insensitive)
+ */
+export function getGameTypeInfo(gameType: string | null | undefined): GameTypeInfo | undefined {
+  if (!gameType) return undefined;
+  return GAME_TYPES_BY_NAME.get(gameType.toLowerCase());
+}
+
+/**
+ * Canonical id for a stored game_type, or null if it isn't a known game
+ */
+export function canonicalGameType(gameType: string | null | undefined): GameTypeId | null {
+  return getGameTypeInfo(gameType)?.id ?? null;
+}
+
+/**
+ * Whether a stored game_type (possibly a legacy alias) is the given game
+ */
+export function isGameType(gameType: string | null | undefined, id: GameTypeId): boolean {
+  return canonicalGameType(gameType) === id;
+}
+
+export function isDiceGame(gameType: string | null | undefined): boolean {
+  return getGameTypeInfo(gameType)?.family === 'dice';
+}
+
+/**
+ * Horses and Ship Captain Crew share the horses table and its controller
+ */
+export function usesHorsesTable(gameType: string | null | undefined): boolean {
+  return getGameTypeInfo(gameType)?.table === 'horses';
+}
+
+/**
+ * Holm and the turn-based module games: one rounds row per hand rather than per round of betting or rolls
+ */
+export function usesSingleRoundPerHand(gameType: string | null | undefined): boolean {
+  return getGameTypeInfo(gameType)?.singleRoundPerHand ?? false;
+}
+
+/**
+ * Games where everyone stays or folds at once (3-5-7 and Guts) rather than in turn
+ */
+export function usesSimultaneousDecisions(gameType: string | null | undefined): boolean {
+  const id = canonicalGameType(gameType);
+  return id === '3-5-7' || id === 'guts';
+}
+
+/**
+ * game_defaults key for a game type; null when the game has no defaults row
+ */
+export function getGameDefaultsKey(gameType: string | null | undefined): string | null {
+  return getGameTypeInfo(gameType)?.defaultsKey ?? null;
+}
+
+/**
+ * Display name for a game type. Unknown types are shown as stored.
+ */
+export function getGameDisplayName(gameType: string | null | undefined, short = false): string {
+  const info = getGameTypeInfo(gameType);
+  if (!info) return gameType ?? '';
+  return short ? info.shortName : info.name;
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom, shuffle, rollDie } from './random.ts';
+import { createDeck, shuffleDeck } from './cards.ts';
+import { rollDice, type HorsesHand } from './horses.ts';
+
+describe('createSeededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const first = Array.from({ length: 20 }, () => a());
+    expect(Array.from({ length: 20 }, () => b())).toEqual(first);
+    expect(first.every(v => v >= 0 && v < 1)).toBe(true);
+  });
+
+  it('accepts string seeds and separates different seeds', () => {
+    const roundA = createSeededRandom('round-a');
+    const roundA2 = createSeededRandom('round-a');
+    const roundB = createSeededRandom('round-b');
+    const seqA = [roundA(), roundA(), roundA()];
+    expect([roundA2(), roundA2(), roundA2()]).toEqual(seqA);
+    expect([roundB(), roundB(), roundB()]).not.toEqual(seqA);
+  });
+});
+
+describe('seeded replay', () => {
+  it('deals the same deck for the same seed', () => {
+    expect(shuffleDeck(createDeck(), createSeededRandom(7))).toEqual(shuffleDeck(createDeck(), createSeededRandom(7)));
+    expect(shuffle([1, 2, 3, 4, 5], createSeededRandom(7))).toEqual(shuffle([1, 2, 3, 4, 5], createSeededRandom(7)));
+  });
+
+  it('replays a dice turn from the seed and the held dice', () => {
+    const playTurn = (seed: number): HorsesHand[] => {
+      const random = createSeededRandom(seed);
+      let hand: HorsesHand = {
+        dice: Array.from({ length: 5 }, () => ({ value: 0, isHeld: false })),
+        rollsRemaining: 3,
+        isComplete: false,
+      };
+      const history: HorsesHand[] = [];
+      hand = rollDice(hand, random);
+      history.push(hand);
+      // Hold the sixes, then roll the rest twice
+      hand = { ...hand, dice: hand.dice.map(d => ({ ...d, isHeld: d.value === 6 })) };
+      hand = rollDice(hand, random);
+      history.push(hand);
+      hand = rollDice(hand, random);
+      history.push(hand);
+      return history;
+    };
+
+    expect(JSON.stringify(playTurn(1234))).toBe(JSON.stringify(playTurn(1234)));
+    expect(rollDie(createSeededRandom(1234))).toBe(playTurn(1234)[0].dice[0].value);
+  });
+});
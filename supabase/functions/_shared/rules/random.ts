@@ -0,0 +1,64 @@
+/**
+ * Shared randomness primitives for every game's rules.
+ *
+ * All deck shuffles and die rolls go through these helpers so the client
+ * and the edge functions deal and roll exactly the same way. Every game's
+ * pure logic takes an optional RandomSource and defaults to Math.random.
+ */
+
+/**
+ * A source of uniform floats in [0, 1), shaped like Math.random.
+ * Real-money hands pass a seeded source (see fairness.ts) so the deal can be
+ * re-derived from the revealed seed afterwards; tests and bug reproductions
+ * use createSeededRandom.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Fisher-Yates shuffle. Returns a new array; the input is left untouched.
+ * Draws exactly items.length - 1 values from `random`, highest index first.
+ */
+export function shuffle<T>(items: T[], random: RandomSource = Math.random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Roll a single six-sided die (returns 1-6)
+ */
+export function rollDie(random: RandomSource = Math.random): number {
+  return Math.floor(random() * 6) + 1;
+}
+
+/**
+ * Seedable PRNG (mulberry32). The same seed always yields the same sequence, so a
+ * hand dealt and rolled from it can be replayed exactly from the seed plus the
+ * players' actions - in tests, or when reproducing a reported bug.
+ * String seeds (e.g. a round id) are hashed with FNV-1a first.
+ */
+export function createSeededRandom(seed: number | string): RandomSource {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * FNV-1a 32-bit hash of a string
+ */
+function hashSeed(seed: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
@@ -1,5 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+// Deck, shuffle and hand ranking come from the shared rules package so a watchdog-driven
+// showdown ranks hands exactly like the client does. Holm never uses wild cards.
+import { createDeck, evaluateHand, type Card } from "../_shared/rules/cards.ts";
+import { shuffleHandDeck } from "../_shared/handFairness.ts";
+import { CHUCKY_LABEL, deckLabel } from "../_shared/rules/fairness.ts";
+import { getGameDefaultsKey, isGameType, usesHorsesTable, usesSimultaneousDecisions } from "../_shared/rules/gameTypes.ts";
 
 /**
  * CRON-BASED COMPREHENSIVE DEADLINE ENFORCER
@@ -20,156 +26,6 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// ============== CARD UTILITIES ==============
-// CANONICAL SUIT FORMAT: Always use symbols (♠♥♦♣), never text ('hearts', 'clubs')
-// This matches the client-side cardUtils.ts format exactly.
-type Suit = '♠' | '♥' | '♦' | '♣';
-
-interface Card {
-  suit: Suit;
-  rank: string;
-}
-
-function createDeck(): Card[] {
-  const suits: Suit[] = ['♠', '♥', '♦', '♣'];
-  const ranks = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
-  const deck: Card[] = [];
-  for (const suit of suits) {
-    for (const rank of ranks) {
-      deck.push({ suit, rank });
-    }
-  }
-  return deck;
-}
-
-function shuffleDeck(deck: Card[]): Card[] {
-  const shuffled = [...deck];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-}
-
-// Holm hand evaluation
-const RANK_VALUES: Record<string, number> = {
-  '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9,
-  '10': 10, 'J': 11, 'Q': 12, 'K': 13, 'A': 14
-};
-
-function evaluateHolmHand(cards: Card[]): { rank: string; value: number } {
-  if (cards.length === 0) return { rank: 'high-card', value: 0 };
-  
-  const validCards = cards.map(c => ({
-    suit: c.suit,
-    rank: String(c.rank).toUpperCase()
-  })).filter(c => RANK_VALUES[c.rank] !== undefined);
-  
-  if (validCards.length === 0) return { rank: 'high-card', value: 0 };
-  
-  const sortedCards = [...validCards].sort((a, b) => RANK_VALUES[b.rank] - RANK_VALUES[a.rank]);
-  
-  const rankCounts: Record<string, number> = {};
-  validCards.forEach(c => { rankCounts[c.rank] = (rankCounts[c.rank] || 0) + 1; });
-  
-  const groups = Object.entries(rankCounts)
-    .sort((a, b) => b[1] - a[1] || RANK_VALUES[b[0]] - RANK_VALUES[a[0]]);
-  
-  const bestRank = groups[0]?.[0];
-  const bestCount = groups[0]?.[1] || 0;
-  const secondRank = groups[1]?.[0];
-  const secondCount = groups[1]?.[1] || 0;
-  
-  const suitCounts: Record<string, number> = {};
-  validCards.forEach(c => { suitCounts[c.suit] = (suitCounts[c.suit] || 0) + 1; });
-  const maxSuitCount = Math.max(...Object.values(suitCounts));
-  const isFlush = maxSuitCount >= 5;
-  
-  const uniqueValues = [...new Set(validCards.map(c => RANK_VALUES[c.rank]))].sort((a, b) => b - a);
-  let isStraight = false;
-  let straightHigh = 0;
-  
-  for (let start = 14; start >= 5; start--) {
-    let hasAll = true;
-    for (let i = 0; i < 5; i++) {
-      if (!uniqueValues.includes(start - i)) {
-        hasAll = false;
-        break;
-      }
-    }
-    if (hasAll) {
-      isStraight = true;
-      straightHigh = start;
-      break;
-    }
-  }
-  
-  if (!isStraight && uniqueValues.includes(14) && uniqueValues.includes(2) && 
-      uniqueValues.includes(3) && uniqueValues.includes(4) && uniqueValues.includes(5)) {
-    isStraight = true;
-    straightHigh = 5;
-  }
-  
-  if (isFlush && isStraight) {
-    const flushSuit = Object.entries(suitCounts).find(([_, count]) => count >= 5)?.[0];
-    const flushCards = validCards.filter(c => c.suit === flushSuit);
-    const flushValues = [...new Set(flushCards.map(c => RANK_VALUES[c.rank]))].sort((a, b) => b - a);
-    
-    for (let start = 14; start >= 5; start--) {
-      let hasAll = true;
-      for (let i = 0; i < 5; i++) {
-        if (!flushValues.includes(start - i)) {
-          hasAll = false;
-          break;
-        }
-      }
-      if (hasAll) {
-        return { rank: 'straight-flush', value: 8000000000 + start };
-      }
-    }
-    if (flushValues.includes(14) && flushValues.includes(2) && flushValues.includes(3) &&
-        flushValues.includes(4) && flushValues.includes(5)) {
-      return { rank: 'straight-flush', value: 8000000000 + 5 };
-    }
-  }
-  
-  if (bestCount >= 4) {
-    return { rank: 'four-of-a-kind', value: 7000000000 + RANK_VALUES[bestRank] * 100 };
-  }
-  
-  if (bestCount >= 3 && secondCount >= 2) {
-    return { rank: 'full-house', value: 6000000000 + RANK_VALUES[bestRank] * 100 + RANK_VALUES[secondRank] };
-  }
-  
-  if (isFlush) {
-    const flushSuit = Object.entries(suitCounts).find(([_, count]) => count >= 5)?.[0];
-    const flushCards = validCards.filter(c => c.suit === flushSuit)
-      .sort((a, b) => RANK_VALUES[b.rank] - RANK_VALUES[a.rank]);
-    return { rank: 'flush', value: 5000000000 + RANK_VALUES[flushCards[0].rank] * 100 };
-  }
-  
-  if (isStraight) {
-    return { rank: 'straight', value: 4000000000 + straightHigh };
-  }
-  
-  if (bestCount >= 3) {
-    return { rank: 'three-of-a-kind', value: 3000000000 + RANK_VALUES[bestRank] * 100 };
-  }
-  
-  const pairs = groups.filter(([_, count]) => count >= 2);
-  if (pairs.length >= 2) {
-    const highPair = RANK_VALUES[pairs[0][0]];
-    const lowPair = RANK_VALUES[pairs[1][0]];
-    return { rank: 'two-pair', value: 2000000000 + highPair * 100 + lowPair };
-  }
-  
-  if (bestCount >= 2) {
-    return { rank: 'pair', value: 1000000000 + RANK_VALUES[bestRank] * 100 };
-  }
-  
-  return { rank: 'high-card', value: RANK_VALUES[sortedCards[0].rank] };
-}
-
 // ============== MAIN HANDLER ==============
 
 serve(async (req) => {
@@ -291,14 +147,10 @@ serve(async (req) => {
         }
 
         // ============= ALL-HUMANS AUTO-FOLD GUARD (prevents infinite pussy tax) =============
-        // In card games (3-5-7, Holm), if EVERY human player is in auto_fold mode, the game
-        // would loop forever with every human folding → pussy tax → next round → repeat.
+        // In card games (3-5-7, Guts, Holm), if EVERY human player is in auto_fold mode, the game
+        // would loop forever with every human folding → pussy tax (or a Guts redeal) → next round → repeat.
         // To prevent this, we pause the session when this condition is detected.
-        const isCardGame =
-          game.game_type === '3-5-7' ||
-          game.game_type === '3-5-7-game' ||
-          game.game_type === '357' ||
-          game.game_type === 'holm-game';
+        const isCardGame = usesSimultaneousDecisions(game.game_type) || isGameType(game.game_type, 'holm-game');
 
         if (isCardGame && game.status === 'in_progress' && !game.is_paused) {
           // Fetch all seated human players (not sitting_out)
@@ -852,7 +704,7 @@ serve(async (req) => {
         // ============= STUCK HOLM GAME RECOVERY (all_decisions_in mismatch) =============
         // Detects games where all players have decision_locked=true but all_decisions_in is still false
         // This can happen if endHolmRound crashes/stalls before completing
-        if ((game.game_type === 'holm' || game.game_type === 'holm-game') && 
+        if (isGameType(game.game_type, 'holm-game') && 
             game.status === 'in_progress' && 
             game.all_decisions_in === false) {
           
@@ -1093,7 +945,7 @@ serve(async (req) => {
         // CRITICAL: Only process dice game winners if NO active human players are present.
         // When human players are connected, the CLIENT handles winner evaluation and pot awards.
         // This cron logic is a FALLBACK for abandoned games (all bots or all humans disconnected).
-        if ((game.game_type === 'horses' || game.game_type === 'ship-captain-crew') && 
+        if (usesHorsesTable(game.game_type) && 
             (game.status === 'in_progress' || game.status === 'betting')) {
           
           // Check for active human players FIRST
@@ -1318,8 +1170,8 @@ serve(async (req) => {
           let currentRound: any = null;
           const dealerGameId = (game as any).current_game_uuid;
           
-          if (game.game_type === '3-5-7' && game.total_hands && game.current_round && dealerGameId) {
-            // 3-5-7: Use triple-key scoping (dealer_game_id, hand_number, round_number)
+          if (usesSimultaneousDecisions(game.game_type) && game.total_hands && game.current_round && dealerGameId) {
+            // 3-5-7 and Guts: Use triple-key scoping (dealer_game_id, hand_number, round_number)
             const { data } = await supabase
               .from('rounds')
               .select('*')
@@ -1453,7 +1305,7 @@ serve(async (req) => {
             console.log('[CRON-ENFORCE] awaiting_next_round watchdog triggered for game:', game.id, 'type:', game.game_type);
             
             // ============= HOLM GAME ROUND TRANSITION =============
-            if (game.game_type === 'holm-game') {
+            if (isGameType(game.game_type, 'holm-game')) {
               const { data: activePlayers } = await supabase
                 .from('players')
                 .select('*')
@@ -1514,7 +1366,12 @@ serve(async (req) => {
                 }
                 
                 // Deal cards
-                const deck = shuffleDeck(createDeck());
+                const deck = await shuffleHandDeck(
+                  supabase,
+                  { game, dealerGameId: dealerGameIdHolm, handNumber: newHandNumber },
+                  createDeck(),
+                  4 + activePlayers.length * 4
+                );
                 let deckIndex = 0;
                 
                 // Deal 4 community cards (face down initially)
@@ -1602,32 +1459,38 @@ serve(async (req) => {
               }
             }
             
-            // ============= 3-5-7 GAME ROUND TRANSITION =============
-            else if (game.game_type === '3-5-7') {
+            // ============= 3-5-7 / GUTS GAME ROUND TRANSITION =============
+            // Guts deals every hand as round 1 and never re-antes, so the 3-5-7 path covers it
+            else if (usesSimultaneousDecisions(game.game_type)) {
+              const isGuts = isGameType(game.game_type, 'guts');
               const nextRoundNum = game.next_round_number;
               
               if (nextRoundNum && nextRoundNum >= 1 && nextRoundNum <= 3) {
-                // Get active players
-                const { data: players } = await supabase
+                // Get active players (a Guts hand deals in everyone seated, whoever dropped out last hand)
+                let playersQuery = supabase
                   .from('players')
                   .select('*')
                   .eq('game_id', game.id)
-                  .eq('status', 'active')
-                  .eq('sitting_out', false)
-                  .order('position');
+                  .eq('sitting_out', false);
+                if (!isGuts) {
+                  playersQuery = playersQuery.eq('status', 'active');
+                }
+                const { data: players } = await playersQuery.order('position');
                 
                 if (players && players.length >= 2) {
                   const { data: gameDefaults } = await supabase
                     .from('game_defaults')
                     .select('decision_timer_seconds')
-                    .eq('game_type', '3-5-7')
+                    .eq('game_type', getGameDefaultsKey(game.game_type) ?? '3-5-7')
                     .maybeSingle();
                   
                   const timerSeconds = (gameDefaults as any)?.decision_timer_seconds ?? 10;
                   const decisionDeadline = new Date(Date.now() + timerSeconds * 1000).toISOString();
                   
-                  // Cards to deal based on round (3, 5, or 7)
-                  const cardsToDeal = nextRoundNum === 1 ? 3 : nextRoundNum === 2 ? 5 : 7;
+                  // Cards to deal based on round (3, 5, or 7); Guts deals its configured 2 or 3
+                  const cardsToDeal = isGuts
+                    ? (game.guts_cards ?? 3)
+                    : nextRoundNum === 1 ? 3 : nextRoundNum === 2 ? 5 : 7;
                   
                   // CRITICAL: For 3-5-7, round numbers cycle 1/2/3 per hand.
                   // Use the round_number from next_round_number (which is 1, 2, or 3).
@@ -1638,7 +1501,13 @@ serve(async (req) => {
                     : (game.total_hands || 1);      // Rounds 2/3 continue same hand
                   
                   // Deal cards
-                  const deck = shuffleDeck(createDeck());
+                  const deck = await shuffleHandDeck(
+                    supabase,
+                    { game, dealerGameId: game.current_game_uuid, handNumber: newHandNumber },
+                    createDeck(),
+                    players.length * cardsToDeal,
+                    deckLabel(newRoundNumber)
+                  );
                   let deckIndex = 0;
                   
                   // Create round - use the correctly calculated hand number
@@ -1723,7 +1592,7 @@ serve(async (req) => {
             }
             
             // ============= HORSES DICE GAME ROUND TRANSITION =============
-            else if (game.game_type === 'horses') {
+            else if (isGameType(game.game_type, 'horses')) {
               const { data: players } = await supabase
                 .from('players')
                 .select('*')
@@ -1844,7 +1713,7 @@ serve(async (req) => {
             }
             
             // ============= SHIP-CAPTAIN-CREW DICE GAME ROUND TRANSITION =============
-            else if (game.game_type === 'ship-captain-crew') {
+            else if (isGameType(game.game_type, 'ship-captain-crew')) {
               const { data: players } = await supabase
                 .from('players')
                 .select('*')
@@ -1981,7 +1850,7 @@ serve(async (req) => {
         // CRITICAL: Only process Holm showdowns here - 357/horses/scc handle their own showdowns
         // IMPORTANT: Only process if the round is stale (decision_deadline passed + grace period)
         // This prevents the cron from racing ahead of client animations
-        if ((game.status === 'in_progress' || game.status === 'betting') && game.all_decisions_in === true && game.game_type === 'holm-game') {
+        if ((game.status === 'in_progress' || game.status === 'betting') && game.all_decisions_in === true && isGameType(game.game_type, 'holm-game')) {
           
           // CRITICAL: Scope to dealer_game_id and order by hand_number to get the active Holm round
           const dealerGameIdShowdown = (game as any).current_game_uuid;
@@ -2140,7 +2009,7 @@ serve(async (req) => {
               // Run showdown
               const communityCards: Card[] = ((currentRound.community_cards as any[]) || []).map((c: any) => ({
                 suit: (c.suit || c.Suit) as Card['suit'],
-                rank: String(c.rank || c.Rank).toUpperCase()
+                rank: String(c.rank || c.Rank).toUpperCase() as Card['rank']
               }));
               
               const { data: allPlayerCards } = await supabase
@@ -2156,7 +2025,7 @@ serve(async (req) => {
                 const playerCardsRow = allPlayerCards?.find((pc: any) => pc.player_id === player.id);
                 const playerCards: Card[] = ((playerCardsRow?.cards as any[]) || []).map((c: any) => ({
                   suit: (c.suit || c.Suit) as Card['suit'],
-                  rank: String(c.rank || c.Rank).toUpperCase()
+                  rank: String(c.rank || c.Rank).toUpperCase() as Card['rank']
                 }));
                 
                 // Deal Chucky's cards
@@ -2168,10 +2037,16 @@ serve(async (req) => {
                   });
                 });
                 
-                const fullDeck = createDeck();
-                const availableCards = fullDeck.filter(c => !usedCards.has(`${c.suit}-${c.rank}`));
-                const shuffledAvailable = shuffleDeck(availableCards);
+                // Chucky's cards come off a deck of his own, enough of it to cover the cards already out
                 const chuckyCardCount = game.chucky_cards || 4;
+                const handDeck = await shuffleHandDeck(
+                  supabase,
+                  { game, dealerGameId: currentRound.dealer_game_id, handNumber: currentRound.hand_number },
+                  createDeck(),
+                  usedCards.size + chuckyCardCount,
+                  CHUCKY_LABEL
+                );
+                const shuffledAvailable = handDeck.filter(c => !usedCards.has(`${c.suit}-${c.rank}`));
                 const chuckyCards = shuffledAvailable.slice(0, chuckyCardCount);
                 
                 await supabase
@@ -2187,8 +2062,8 @@ serve(async (req) => {
                 const playerAllCards = [...playerCards, ...communityCards];
                 const chuckyAllCards = [...chuckyCards, ...communityCards];
                 
-                const playerEval = evaluateHolmHand(playerAllCards);
-                const chuckyEval = evaluateHolmHand(chuckyAllCards);
+                const playerEval = evaluateHand(playerAllCards, false);
+                const chuckyEval = evaluateHand(chuckyAllCards, false);
                 
                 const playerWins = playerEval.value > chuckyEval.value;
                 
@@ -2269,11 +2144,11 @@ serve(async (req) => {
                   const playerCardsRow = allPlayerCards?.find((pc: any) => pc.player_id === player.id);
                   const playerCards: Card[] = ((playerCardsRow?.cards as any[]) || []).map((c: any) => ({
                     suit: (c.suit || c.Suit) as Card['suit'],
-                    rank: String(c.rank || c.Rank).toUpperCase()
+                    rank: String(c.rank || c.Rank).toUpperCase() as Card['rank']
                   }));
                   
                   const allCards = [...playerCards, ...communityCards];
-                  const handEval = evaluateHolmHand(allCards);
+                  const handEval = evaluateHand(allCards, false);
                   
                   playerHands.push({ player, eval: handEval });
                 }
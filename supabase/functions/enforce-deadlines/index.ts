@@ -1,5 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createInitialHand, rollDice, evaluateHand as evaluateHorsesHand } from "../_shared/rules/horses.ts";
+import { createInitialSCCHand, rollSCCDice, reconstructSCCHand, evaluateSCCHand } from "../_shared/rules/shipCaptainCrew.ts";
+import { drawFairDiceRandom } from "../_shared/handFairness.ts";
+import { isGameType, usesHorsesTable, usesSimultaneousDecisions } from "../_shared/rules/gameTypes.ts";
 
 /**
  * SLIM CLIENT-SIDE DEADLINE ENFORCER
@@ -63,6 +67,25 @@ async function logSittingOutChange(
   }
 }
 
+// Helper to record forced stay/fold decisions in the hand action log (same keys as the client's logDecision)
+async function logForcedDecisions(
+  supabase: ReturnType<typeof createClient>,
+  roundId: string,
+  playerIds: string[],
+  decision: 'stay' | 'fold'
+): Promise<void> {
+  for (const playerId of playerIds) {
+    const { error } = await supabase.rpc('append_hand_action', {
+      _round_id: roundId,
+      _action_type: 'decision',
+      _payload: { decision, forced: true },
+      _player_id: playerId,
+      _action_key: `decision:${roundId}:${playerId}`,
+    });
+    if (error) console.error('[ENFORCE] Failed to log forced decision:', error.message);
+  }
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -453,7 +476,7 @@ serve(async (req) => {
     // ============= 3. ENFORCE DECISION DEADLINE (stay/fold) =============
     if (game.status === 'in_progress' || game.status === 'betting') {
       // ============= 3A. HOLM GAME TURN TIMEOUTS =============
-      if (game.game_type === 'holm-game') {
+      if (isGameType(game.game_type, 'holm-game')) {
         // IMPORTANT: Determine the active Holm round by dealer_game_id + (hand_number, round_number), never by created_at.
         const baseRoundQuery = supabase
           .from('rounds')
@@ -666,6 +689,7 @@ serve(async (req) => {
 
            if (botUpdateResult && botUpdateResult.length > 0) {
              actionsTaken.push(`Bot timeout: Forced decision '${botDecision}' for position ${currentTurnPos}`);
+             await logForcedDecisions(supabase, currentRound.id, [currentTurnPlayer.id], botDecision);
            } else {
              actionsTaken.push('Bot timeout: Skipped (already processed)');
            }
@@ -683,6 +707,7 @@ serve(async (req) => {
              actionsTaken.push('Skipped - player already processed');
            } else {
              actionsTaken.push(`Decision timeout: Auto-folded player at position ${currentTurnPos}`);
+             await logForcedDecisions(supabase, currentRound.id, [currentTurnPlayer.id], 'fold');
 
              // DEBUG LOG: Log the timeout decision (auto_fold is the player's existing preference; we do not change it)
              try {
@@ -773,7 +798,7 @@ serve(async (req) => {
       // If a Holm round is stuck in 'showdown' status with community_cards_revealed < 4,
       // the client that was supposed to reveal the cards died mid-process.
       // Force-complete the showdown to unblock the game.
-      if (game.game_type === 'holm-game') {
+      if (isGameType(game.game_type, 'holm-game')) {
         const showdownQuery = supabase
           .from('rounds')
           .select('*')
@@ -833,10 +858,10 @@ serve(async (req) => {
         }
       }
 
-      // ============= 3A. 3-5-7 (SIMULTANEOUS) DECISION TIMEOUTS =============
+      // ============= 3A. 3-5-7 / GUTS (SIMULTANEOUS) DECISION TIMEOUTS =============
       // 3-5-7 round numbers cycle 1/2/3 each hand, so we MUST key the current round by
       // (dealer_game_id, hand_number, round_number). Within a session, multiple dealer games can exist.
-      if (game.game_type === '3-5-7') {
+      if (usesSimultaneousDecisions(game.game_type)) {
         let currentRound: any = null;
         const dealerGameId357 = (game as any).current_game_uuid;
 
@@ -917,6 +942,7 @@ serve(async (req) => {
                 .in('id', undecidedIds);
 
               actionsTaken.push(`3-5-7 timeout: Auto-folded ${undecidedIds.length} undecided players`);
+              await logForcedDecisions(supabase, currentRound.id, undecidedIds, 'fold');
             }
 
             // Re-read and, if everyone has decided, set all_decisions_in=true
@@ -947,7 +973,7 @@ serve(async (req) => {
       }
 
       // ============= 3B. DICE GAME (HORSES/SCC) TURN TIMEOUTS =============
-      if (game.game_type === 'horses' || game.game_type === 'ship-captain-crew') {
+      if (usesHorsesTable(game.game_type)) {
         // Get the current round - scope to dealer_game_id and order by hand_number/round_number
         const roundQuery = supabase
           .from('rounds')
@@ -1014,131 +1040,30 @@ serve(async (req) => {
                     // Force-complete their turn with whatever dice they have
                     const currentPlayerState = playerStates[currentPlayerId] || {};
                     let finalDice = currentPlayerState.dice || [];
-                    let hasShip = false;
-                    let hasCaptain = false;
-                    let hasCrew = false;
-                    
-                    // Check existing SCC status from dice
-                    if (finalDice.length > 0) {
-                      finalDice.forEach((d: any) => {
-                        if (d.sccType === 'ship') hasShip = true;
-                        if (d.sccType === 'captain') hasCaptain = true;
-                        if (d.sccType === 'crew') hasCrew = true;
-                      });
-                    }
                     
                     if (!finalDice.length || finalDice.every((d: any) => d.value === 0)) {
-                      // No dice rolled yet - simulate 3 rolls with SCC auto-freeze logic
-                      if (game.game_type === 'ship-captain-crew') {
-                        // Simulate 3 SCC rolls with proper auto-freeze
-                        finalDice = [
-                          { value: 0, isHeld: false, isSCC: false },
-                          { value: 0, isHeld: false, isSCC: false },
-                          { value: 0, isHeld: false, isSCC: false },
-                          { value: 0, isHeld: false, isSCC: false },
-                          { value: 0, isHeld: false, isSCC: false },
-                        ];
-                        hasShip = false;
-                        hasCaptain = false;
-                        hasCrew = false;
-                        
-                        for (let roll = 0; roll < 3; roll++) {
-                          // Roll all non-held dice
-                          finalDice = finalDice.map((d: any) => ({
-                            ...d,
-                            value: d.isHeld ? d.value : Math.floor(Math.random() * 6) + 1,
-                          }));
-                          
-                          // Auto-freeze Ship (6) if not yet
-                          if (!hasShip) {
-                            const shipIdx = finalDice.findIndex((d: any) => d.value === 6 && !d.isSCC);
-                            if (shipIdx !== -1) {
-                              finalDice[shipIdx].isHeld = true;
-                              finalDice[shipIdx].isSCC = true;
-                              finalDice[shipIdx].sccType = 'ship';
-                              hasShip = true;
-                            }
-                          }
-                          // Auto-freeze Captain (5) if have Ship
-                          if (hasShip && !hasCaptain) {
-                            const captainIdx = finalDice.findIndex((d: any) => d.value === 5 && !d.isSCC);
-                            if (captainIdx !== -1) {
-                              finalDice[captainIdx].isHeld = true;
-                              finalDice[captainIdx].isSCC = true;
-                              finalDice[captainIdx].sccType = 'captain';
-                              hasCaptain = true;
-                            }
-                          }
-                          // Auto-freeze Crew (4) if have Ship and Captain
-                          if (hasShip && hasCaptain && !hasCrew) {
-                            const crewIdx = finalDice.findIndex((d: any) => d.value === 4 && !d.isSCC);
-                            if (crewIdx !== -1) {
-                              finalDice[crewIdx].isHeld = true;
-                              finalDice[crewIdx].isSCC = true;
-                              finalDice[crewIdx].sccType = 'crew';
-                              hasCrew = true;
-                            }
-                          }
+                      // No dice rolled yet - play out all 3 rolls with the shared rules
+                      if (isGameType(game.game_type, 'ship-captain-crew')) {
+                        let sccHand = createInitialSCCHand();
+                        while (!sccHand.isComplete) {
+                          sccHand = rollSCCDice(sccHand, await drawFairDiceRandom(supabase, game, sccHand.dice));
                         }
-                        // Mark all as held since turn is complete
-                        finalDice = finalDice.map((d: any) => ({ ...d, isHeld: true }));
+                        finalDice = sccHand.dice;
                       } else {
-                        // Horses: just random dice
-                        finalDice = Array(5).fill(null).map(() => ({
-                          value: Math.floor(Math.random() * 6) + 1,
-                          isHeld: true
-                        }));
+                        let horsesHand = createInitialHand();
+                        while (!horsesHand.isComplete) {
+                          horsesHand = rollDice(horsesHand, await drawFairDiceRandom(supabase, game, horsesHand.dice));
+                        }
+                        finalDice = horsesHand.dice;
                       }
                     } else {
                       finalDice = finalDice.map((d: any) => ({ ...d, isHeld: true }));
                     }
 
-                    // Hand evaluation
-                    let result: any;
-                    if (game.game_type === 'ship-captain-crew') {
-                      const isQualified = hasShip && hasCaptain && hasCrew;
-                      if (isQualified) {
-                        // Find cargo dice (non-SCC)
-                        const cargoDice = finalDice.filter((d: any) => !d.isSCC);
-                        const cargoSum = cargoDice.reduce((sum: number, d: any) => sum + d.value, 0);
-                        result = {
-                          isQualified: true,
-                          cargoSum,
-                          rank: cargoSum,
-                          description: `${cargoSum}`,
-                        };
-                      } else {
-                        result = {
-                          isQualified: false,
-                          cargoSum: 0,
-                          rank: 0,
-                          description: 'NQ',
-                        };
-                      }
-                    } else {
-                      // Horses evaluation
-                      const diceValues = finalDice.map((d: any) => d.value);
-                      const valueCounts: Record<number, number> = {};
-                      diceValues.forEach((v: number) => {
-                        valueCounts[v] = (valueCounts[v] || 0) + 1;
-                      });
-                      let bestOfAKind = 0;
-                      let bestValue = 0;
-                      for (const [val, count] of Object.entries(valueCounts)) {
-                        const numVal = parseInt(val);
-                        const numCount = count as number;
-                        if (numCount > bestOfAKind || (numCount === bestOfAKind && numVal > bestValue)) {
-                          bestOfAKind = numCount;
-                          bestValue = numVal;
-                        }
-                      }
-                      result = {
-                        ofAKindCount: bestOfAKind,
-                        highValue: bestValue,
-                        rank: bestOfAKind * 10 + bestValue,
-                        description: `${bestOfAKind} ${bestValue}${bestOfAKind > 1 ? 's' : ''}`
-                      };
-                    }
+                    // Hand evaluation (shared rules: SCC qualification, Horses 1s-wild)
+                    const result = isGameType(game.game_type, 'ship-captain-crew')
+                      ? evaluateSCCHand(reconstructSCCHand(finalDice, 0, true))
+                      : evaluateHorsesHand(finalDice);
 
                     const updatedPlayerState = {
                       ...currentPlayerState,
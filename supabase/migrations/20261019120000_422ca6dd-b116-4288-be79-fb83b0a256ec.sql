@@ -0,0 +1,141 @@
+-- Server-authoritative 3-5-7 stay/fold decisions.
+-- Clients submit an intent; this function validates the acting player, records the
+-- decision and closes betting (all_decisions_in) in ONE transaction. The games row is
+-- locked FOR UPDATE so concurrent decisions serialize and exactly one caller ever
+-- receives all_decisions_in = true (that caller runs endRound).
+
+CREATE OR REPLACE FUNCTION public.submit_357_decision(
+  _game_id uuid,
+  _player_id uuid,
+  _decision text,
+  _mark_auto_fold boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  g record;
+  r record;
+  p record;
+  remaining int;
+  closed boolean := false;
+BEGIN
+  IF _decision NOT IN ('stay', 'fold') THEN
+    RAISE EXCEPTION 'Invalid decision: %', _decision;
+  END IF;
+
+  IF NOT public.user_is_in_game(_game_id) THEN
+    RAISE EXCEPTION 'Not in game';
+  END IF;
+
+  -- Serialize every decision for this game behind the games row lock
+  SELECT gm.id, gm.game_type, gm.status, gm.is_paused, gm.all_decisions_in,
+         gm.current_round, gm.total_hands, gm.current_game_uuid
+  INTO g
+  FROM public.games gm
+  WHERE gm.id = _game_id
+  FOR UPDATE;
+
+  IF g.id IS NULL THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  IF g.game_type NOT IN ('3-5-7', '3-5-7-game', '357') THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'not_357_game');
+  END IF;
+
+  IF g.status <> 'in_progress' OR COALESCE(g.is_paused, false) THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'game_not_accepting_decisions');
+  END IF;
+
+  IF COALESCE(g.all_decisions_in, false) THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'betting_closed');
+  END IF;
+
+  -- Rounds are scoped by (dealer_game_id, hand_number, round_number)
+  SELECT rd.id, rd.status, rd.decision_deadline
+  INTO r
+  FROM public.rounds rd
+  WHERE rd.game_id = _game_id
+    AND rd.dealer_game_id = g.current_game_uuid
+    AND rd.hand_number = COALESCE(g.total_hands, 1)
+    AND rd.round_number = g.current_round;
+
+  IF r.id IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF r.status <> 'betting' THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'betting_closed', 'round_id', r.id);
+  END IF;
+
+  SELECT pl.id, pl.user_id, pl.is_bot, pl.status, pl.sitting_out, pl.auto_fold,
+         pl.decision_locked, pl.current_decision
+  INTO p
+  FROM public.players pl
+  WHERE pl.id = _player_id
+    AND pl.game_id = _game_id;
+
+  IF p.id IS NULL THEN
+    RAISE EXCEPTION 'Player not in game';
+  END IF;
+
+  -- Permission: owners decide for themselves. Any seated player may act for a bot,
+  -- or fold for a human who is in auto-fold or whose decision timer has expired.
+  IF NOT p.is_bot AND p.user_id <> auth.uid() THEN
+    IF _decision <> 'fold' OR NOT (
+      p.auto_fold OR (r.decision_deadline IS NOT NULL AND r.decision_deadline <= now())
+    ) THEN
+      RAISE EXCEPTION 'Not player owner';
+    END IF;
+  END IF;
+
+  IF p.status <> 'active' OR p.sitting_out THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'player_not_active', 'round_id', r.id);
+  END IF;
+
+  IF p.decision_locked THEN
+    RETURN jsonb_build_object(
+      'accepted', false,
+      'reason', 'already_decided',
+      'round_id', r.id,
+      'decision', p.current_decision
+    );
+  END IF;
+
+  -- 3-5-7: folding eliminates the player from the rest of the hand
+  UPDATE public.players pl
+  SET current_decision = _decision,
+      decision_locked = true,
+      status = CASE WHEN _decision = 'fold' THEN 'folded' ELSE pl.status END,
+      auto_fold = CASE WHEN _mark_auto_fold AND NOT pl.is_bot THEN true ELSE pl.auto_fold END
+  WHERE pl.id = _player_id;
+
+  INSERT INTO public.player_actions (round_id, player_id, action_type)
+  VALUES (r.id, _player_id, _decision);
+
+  SELECT count(*)
+  INTO remaining
+  FROM public.players pl
+  WHERE pl.game_id = _game_id
+    AND pl.status = 'active'
+    AND pl.sitting_out = false
+    AND pl.decision_locked = false;
+
+  IF remaining = 0 THEN
+    UPDATE public.games SET all_decisions_in = true WHERE id = _game_id;
+    closed := true;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'accepted', true,
+    'round_id', r.id,
+    'decision', _decision,
+    'all_decisions_in', closed
+  );
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.submit_357_decision(uuid, uuid, text, boolean) TO authenticated;
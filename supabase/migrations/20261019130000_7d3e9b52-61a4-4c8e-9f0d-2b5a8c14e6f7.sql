@@ -0,0 +1,186 @@
+-- Provably fair (commit-reveal) randomness for real-money sessions.
+-- Each hand gets a secret server seed; its sha256 is visible from the moment the seed
+-- exists, the seed itself only once the hand is over. Every random value for the hand
+-- is u32(sha256(seed || ':' || label || ':' || index)) / 2^32, the same formula as
+-- supabase/functions/_shared/rules/fairness.ts, so hand history can re-derive the deal.
+
+CREATE TABLE public.hand_seeds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id uuid NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  dealer_game_id uuid NOT NULL,
+  hand_number integer NOT NULL,
+  server_seed text NOT NULL,
+  seed_hash text NOT NULL,
+  -- label -> number of values handed out (e.g. {"deck": 51, "dice": 23})
+  draws jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (game_id, dealer_game_id, hand_number)
+);
+
+-- No policies: seeds are only reachable through the functions below
+ALTER TABLE public.hand_seeds ENABLE ROW LEVEL SECURITY;
+
+-- A seed is revealed once its hand can no longer draw: the session moved on to a later
+-- hand or dealer game, or the game is over.
+CREATE OR REPLACE FUNCTION public.hand_seed_is_revealed(_seed_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT hs.dealer_game_id IS DISTINCT FROM gm.current_game_uuid
+      OR gm.status IN ('game_over', 'session_ended')
+      OR hs.hand_number < COALESCE(gm.total_hands, 0)
+      OR EXISTS (
+        SELECT 1 FROM public.hand_seeds newer
+        WHERE newer.game_id = hs.game_id
+          AND newer.created_at > hs.created_at
+      )
+  FROM public.hand_seeds hs
+  JOIN public.games gm ON gm.id = hs.game_id
+  WHERE hs.id = _seed_id
+$function$;
+
+-- Hand out _count values of the _label stream for a hand, committing a new seed on the
+-- first draw. _from_start re-reads the stream from index 0 (deals are idempotent, so a
+-- client that lost the round-insert race gets the same deck); otherwise the stream
+-- continues where the last draw stopped (dice). The hand defaults to the game's current one.
+-- The deadline enforcers deal for stuck clients, so the service role may draw too.
+CREATE OR REPLACE FUNCTION public.draw_fair_randoms(
+  _game_id uuid,
+  _label text,
+  _count integer,
+  _from_start boolean DEFAULT false,
+  _dealer_game_id uuid DEFAULT NULL,
+  _hand_number integer DEFAULT NULL
+)
+RETURNS bigint[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  g record;
+  s record;
+  target_dealer_game uuid;
+  target_hand integer;
+  new_seed text;
+  start_index integer;
+  hashed bytea;
+  i integer;
+  result bigint[] := '{}';
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' AND NOT public.user_is_in_game(_game_id) THEN
+    RAISE EXCEPTION 'Not in game';
+  END IF;
+
+  IF _count < 1 OR _count > 128 THEN
+    RAISE EXCEPTION 'Invalid draw count: %', _count;
+  END IF;
+
+  SELECT gm.id, gm.real_money, gm.current_game_uuid, gm.total_hands
+  INTO g
+  FROM public.games gm
+  WHERE gm.id = _game_id;
+
+  IF g.id IS NULL THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  IF NOT COALESCE(g.real_money, false) THEN
+    RAISE EXCEPTION 'Fair draws are only used for real-money games';
+  END IF;
+
+  target_dealer_game := COALESCE(_dealer_game_id, g.current_game_uuid);
+  target_hand := COALESCE(_hand_number, g.total_hands, 1);
+
+  IF target_dealer_game IS NULL THEN
+    RAISE EXCEPTION 'No dealer game in progress';
+  END IF;
+
+  -- Commit: the hash is stored before any value derived from the seed leaves the server
+  new_seed := replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+  INSERT INTO public.hand_seeds (game_id, dealer_game_id, hand_number, server_seed, seed_hash)
+  VALUES (
+    _game_id,
+    target_dealer_game,
+    target_hand,
+    new_seed,
+    encode(sha256(convert_to(new_seed, 'UTF8')), 'hex')
+  )
+  ON CONFLICT (game_id, dealer_game_id, hand_number) DO NOTHING;
+
+  SELECT hs.id, hs.server_seed, hs.draws
+  INTO s
+  FROM public.hand_seeds hs
+  WHERE hs.game_id = _game_id
+    AND hs.dealer_game_id = target_dealer_game
+    AND hs.hand_number = target_hand
+  FOR UPDATE;
+
+  IF public.hand_seed_is_revealed(s.id) THEN
+    RAISE EXCEPTION 'Hand seed already revealed';
+  END IF;
+
+  start_index := CASE WHEN _from_start THEN 0 ELSE COALESCE((s.draws ->> _label)::integer, 0) END;
+
+  FOR i IN start_index .. start_index + _count - 1 LOOP
+    hashed := sha256(convert_to(s.server_seed || ':' || _label || ':' || i::text, 'UTF8'));
+    result := result || (
+      (get_byte(hashed, 0)::bigint << 24)
+      | (get_byte(hashed, 1)::bigint << 16)
+      | (get_byte(hashed, 2)::bigint << 8)
+      | get_byte(hashed, 3)::bigint
+    );
+  END LOOP;
+
+  UPDATE public.hand_seeds
+  SET draws = jsonb_set(
+    draws,
+    ARRAY[_label],
+    to_jsonb(GREATEST(COALESCE((draws ->> _label)::integer, 0), start_index + _count))
+  )
+  WHERE id = s.id;
+
+  RETURN result;
+END;
+$function$;
+
+-- Commitments for every hand of a session; server_seed stays NULL until revealed.
+CREATE OR REPLACE FUNCTION public.get_hand_seeds(_game_id uuid)
+RETURNS TABLE (
+  dealer_game_id uuid,
+  hand_number integer,
+  seed_hash text,
+  server_seed text,
+  draws jsonb,
+  created_at timestamp with time zone
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT hs.dealer_game_id,
+         hs.hand_number,
+         hs.seed_hash,
+         CASE WHEN public.hand_seed_is_revealed(hs.id) THEN hs.server_seed END,
+         hs.draws,
+         hs.created_at
+  FROM public.hand_seeds hs
+  WHERE hs.game_id = _game_id
+  ORDER BY hs.created_at;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.hand_seed_is_revealed(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.draw_fair_randoms(uuid, text, integer, boolean, uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.draw_fair_randoms(uuid, text, integer, boolean, uuid, integer) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_hand_seeds(uuid) TO authenticated;
@@ -0,0 +1,20 @@
+-- One generic state column for module-based games (cribbage, gin rummy, yahtzee, and
+-- any game added through the GameModule contract) instead of a column per game.
+ALTER TABLE public.rounds ADD COLUMN IF NOT EXISTS game_state jsonb DEFAULT NULL;
+
+-- Rounds only ever held one of the per-game columns
+UPDATE public.rounds
+SET game_state = COALESCE(cribbage_state, gin_rummy_state, yahtzee_state)
+WHERE game_state IS NULL
+  AND (cribbage_state IS NOT NULL OR gin_rummy_state IS NOT NULL OR yahtzee_state IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_rounds_game_state
+ON public.rounds USING gin (game_state)
+WHERE game_state IS NOT NULL;
+
+DROP INDEX IF EXISTS public.idx_rounds_cribbage_state;
+
+COMMENT ON COLUMN public.rounds.game_state IS 'State of a module-based game (cribbage, gin rummy, yahtzee); shape is owned by the game''s module';
+COMMENT ON COLUMN public.rounds.cribbage_state IS 'Deprecated: copied into game_state, no longer written';
+COMMENT ON COLUMN public.rounds.gin_rummy_state IS 'Deprecated: copied into game_state, no longer written';
+COMMENT ON COLUMN public.rounds.yahtzee_state IS 'Deprecated: copied into game_state, no longer written';
@@ -0,0 +1,200 @@
+-- One append-only, sequenced action log per hand for every game type.
+-- A hand is (game_id, dealer_game_id, hand_number); sequence numbers within it are
+-- handed out here, under a per-hand lock, so they are gapless and agree across clients.
+-- The deal records what was dealt face up (poker hole cards stay in player_cards, which
+-- keeps them private until they're shown) and each later action records its inputs (and,
+-- for module games, the random values it drew). Module game hands can be rebuilt by
+-- replaying the log; poker hands need the hole cards from player_cards as well - see
+-- src/lib/handActionLog.ts.
+
+CREATE TABLE public.hand_actions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id uuid NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  dealer_game_id uuid,
+  hand_number integer NOT NULL,
+  sequence_number integer NOT NULL,
+  -- 3-5-7 deals several rounds per hand; the log spans all of them
+  round_id uuid REFERENCES public.rounds(id) ON DELETE SET NULL,
+  round_number integer,
+  game_type text NOT NULL,
+  -- No FK: the log outlives players who leave the session
+  player_id uuid,
+  -- deal, decision, roll, hold, payout, or a game module's own action type (discard, play, draw_stock, ...)
+  action_type text NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  -- Every client may log the same action; only the first one with a given key is kept
+  action_key text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX hand_actions_hand_sequence_unique
+ON public.hand_actions (game_id, dealer_game_id, hand_number, sequence_number) NULLS NOT DISTINCT;
+
+CREATE UNIQUE INDEX hand_actions_hand_key_unique
+ON public.hand_actions (game_id, dealer_game_id, hand_number, action_key) NULLS NOT DISTINCT
+WHERE action_key IS NOT NULL;
+
+CREATE INDEX idx_hand_actions_round_id ON public.hand_actions (round_id);
+
+ALTER TABLE public.hand_actions ENABLE ROW LEVEL SECURITY;
+
+-- Read access like cribbage_events; writes only go through the functions below
+CREATE POLICY "Anyone can view hand actions"
+ON public.hand_actions
+FOR SELECT
+USING (true);
+
+CREATE OR REPLACE FUNCTION public.prevent_hand_action_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  RAISE EXCEPTION 'hand_actions is append-only';
+END;
+$function$;
+
+CREATE TRIGGER hand_actions_append_only
+BEFORE UPDATE ON public.hand_actions
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_hand_action_update();
+
+-- Append one action to a hand and return its sequence number. A repeated action_key
+-- returns the sequence number of the action already logged under it.
+CREATE OR REPLACE FUNCTION public.append_hand_action_row(
+  _game_id uuid,
+  _dealer_game_id uuid,
+  _hand_number integer,
+  _round_id uuid,
+  _round_number integer,
+  _game_type text,
+  _player_id uuid,
+  _action_type text,
+  _payload jsonb,
+  _action_key text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _sequence integer;
+BEGIN
+  PERFORM pg_advisory_xact_lock(
+    hashtextextended(_game_id::text || ':' || COALESCE(_dealer_game_id::text, '') || ':' || _hand_number, 0)
+  );
+
+  IF _action_key IS NOT NULL THEN
+    SELECT sequence_number INTO _sequence
+    FROM public.hand_actions
+    WHERE game_id = _game_id
+      AND dealer_game_id IS NOT DISTINCT FROM _dealer_game_id
+      AND hand_number = _hand_number
+      AND action_key = _action_key;
+
+    IF FOUND THEN
+      RETURN _sequence;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(MAX(sequence_number), 0) + 1 INTO _sequence
+  FROM public.hand_actions
+  WHERE game_id = _game_id
+    AND dealer_game_id IS NOT DISTINCT FROM _dealer_game_id
+    AND hand_number = _hand_number;
+
+  INSERT INTO public.hand_actions (
+    game_id, dealer_game_id, hand_number, sequence_number, round_id, round_number,
+    game_type, player_id, action_type, payload, action_key
+  )
+  VALUES (
+    _game_id, _dealer_game_id, _hand_number, _sequence, _round_id, _round_number,
+    _game_type, _player_id, _action_type, COALESCE(_payload, '{}'::jsonb), _action_key
+  );
+
+  RETURN _sequence;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.append_hand_action_row(uuid, uuid, integer, uuid, integer, text, uuid, text, jsonb, text)
+FROM PUBLIC, anon, authenticated;
+
+-- Client entry point: the hand is taken from the round, so callers only need a round id
+CREATE OR REPLACE FUNCTION public.append_hand_action(
+  _round_id uuid,
+  _action_type text,
+  _payload jsonb DEFAULT '{}'::jsonb,
+  _player_id uuid DEFAULT NULL,
+  _action_key text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _round record;
+BEGIN
+  SELECT r.id, r.game_id, r.dealer_game_id, r.hand_number, r.round_number, gm.game_type
+  INTO _round
+  FROM public.rounds r
+  JOIN public.games gm ON gm.id = r.game_id
+  WHERE r.id = _round_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round % not found', _round_id;
+  END IF;
+
+  RETURN public.append_hand_action_row(
+    _round.game_id,
+    _round.dealer_game_id,
+    COALESCE(_round.hand_number, 1),
+    _round.id,
+    _round.round_number,
+    COALESCE(_round.game_type, 'unknown'),
+    _player_id,
+    _action_type,
+    _payload,
+    _action_key
+  );
+END;
+$function$;
+
+-- Every chip movement recorded in game_results (antes, pots, settlements) closes into
+-- the hand's log as a payout, whichever client or edge function wrote it.
+CREATE OR REPLACE FUNCTION public.log_game_result_payout()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  PERFORM public.append_hand_action_row(
+    NEW.game_id,
+    NEW.dealer_game_id,
+    NEW.hand_number,
+    NULL,
+    NULL,
+    COALESCE(NEW.game_type, (SELECT game_type FROM public.games WHERE id = NEW.game_id), 'unknown'),
+    NEW.winner_player_id,
+    'payout',
+    jsonb_build_object(
+      'potWon', NEW.pot_won,
+      'chipChanges', NEW.player_chip_changes,
+      'description', NEW.winning_hand_description,
+      'isChopped', NEW.is_chopped
+    ),
+    'payout:' || NEW.id
+  );
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  -- The action log must never block recording a result
+  RAISE WARNING 'log_game_result_payout failed: %', SQLERRM;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER game_results_log_payout
+AFTER INSERT ON public.game_results
+FOR EACH ROW
+EXECUTE FUNCTION public.log_game_result_payout();
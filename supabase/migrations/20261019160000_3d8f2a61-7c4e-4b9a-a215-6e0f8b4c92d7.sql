@@ -0,0 +1,13 @@
+-- No-limit Texas Hold'em: blinds on the game and its defaults. The ante is the buy-in -
+-- each player's starting stack - and stacks carry from hand to hand in rounds.game_state.
+ALTER TABLE public.games
+ADD COLUMN IF NOT EXISTS small_blind INTEGER DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS big_blind INTEGER DEFAULT NULL;
+
+ALTER TABLE public.game_defaults
+ADD COLUMN IF NOT EXISTS small_blind INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS big_blind INTEGER NOT NULL DEFAULT 2;
+
+INSERT INTO public.game_defaults (game_type, ante_amount, small_blind, big_blind, decision_timer_seconds, bot_decision_delay_seconds)
+VALUES ('holdem', 100, 1, 2, 30, 2.0)
+ON CONFLICT (game_type) DO NOTHING;
@@ -0,0 +1,17 @@
+-- Seven-card stud: variant and fixed-limit stakes on the game and its defaults. As in
+-- Hold'em the ante amount is the buy-in; stud_ante is what each player antes per hand.
+ALTER TABLE public.games
+ADD COLUMN IF NOT EXISTS stud_variant TEXT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS stud_ante INTEGER DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS stud_small_bet INTEGER DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS stud_buy_price INTEGER DEFAULT NULL;
+
+ALTER TABLE public.game_defaults
+ADD COLUMN IF NOT EXISTS stud_variant TEXT NOT NULL DEFAULT 'standard',
+ADD COLUMN IF NOT EXISTS stud_ante INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS stud_small_bet INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN IF NOT EXISTS stud_buy_price INTEGER NOT NULL DEFAULT 2;
+
+INSERT INTO public.game_defaults (game_type, ante_amount, stud_variant, stud_ante, stud_small_bet, stud_buy_price, decision_timer_seconds, bot_decision_delay_seconds)
+VALUES ('stud', 100, 'standard', 1, 2, 2, 30, 2.0)
+ON CONFLICT (game_type) DO NOTHING;
@@ -0,0 +1,13 @@
+-- Acey-Deucey (In-Between): how a first-post ace counts and what hitting a post costs, on the
+-- game and its defaults. Bets are capped by the existing pot_max_enabled / pot_max_value.
+ALTER TABLE public.games
+ADD COLUMN IF NOT EXISTS acey_ace_rule TEXT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS acey_post_penalty INTEGER DEFAULT NULL;
+
+ALTER TABLE public.game_defaults
+ADD COLUMN IF NOT EXISTS acey_ace_rule TEXT NOT NULL DEFAULT 'choice',
+ADD COLUMN IF NOT EXISTS acey_post_penalty INTEGER NOT NULL DEFAULT 2;
+
+INSERT INTO public.game_defaults (game_type, ante_amount, pot_max_enabled, pot_max_value, acey_ace_rule, acey_post_penalty, decision_timer_seconds, bot_decision_delay_seconds)
+VALUES ('acey-deucey', 5, false, 10, 'choice', 2, 30, 2.0)
+ON CONFLICT (game_type) DO NOTHING;
@@ -0,0 +1,14 @@
+-- Screw Your Neighbor: each player's lives counter, and the lives everyone starts a game with
+-- on the game and its defaults.
+ALTER TABLE public.players
+ADD COLUMN IF NOT EXISTS lives integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.games
+ADD COLUMN IF NOT EXISTS starting_lives INTEGER DEFAULT NULL;
+
+ALTER TABLE public.game_defaults
+ADD COLUMN IF NOT EXISTS starting_lives INTEGER NOT NULL DEFAULT 3;
+
+INSERT INTO public.game_defaults (game_type, ante_amount, starting_lives, decision_timer_seconds, bot_decision_delay_seconds)
+VALUES ('screw-your-neighbor', 5, 3, 30, 2.0)
+ON CONFLICT (game_type) DO NOTHING;
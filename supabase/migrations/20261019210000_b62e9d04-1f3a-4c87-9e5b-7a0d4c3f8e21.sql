@@ -0,0 +1,13 @@
+-- Left Right Center: the chips everyone starts with and whether the wild die face is in play,
+-- on the game and its defaults.
+ALTER TABLE public.games
+ADD COLUMN IF NOT EXISTS lcr_chips INTEGER DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS lcr_wild BOOLEAN DEFAULT NULL;
+
+ALTER TABLE public.game_defaults
+ADD COLUMN IF NOT EXISTS lcr_chips INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN IF NOT EXISTS lcr_wild BOOLEAN NOT NULL DEFAULT false;
+
+INSERT INTO public.game_defaults (game_type, ante_amount, lcr_chips, lcr_wild, decision_timer_seconds, bot_decision_delay_seconds)
+VALUES ('left-right-center', 1, 3, false, 30, 2.0)
+ON CONFLICT (game_type) DO NOTHING;
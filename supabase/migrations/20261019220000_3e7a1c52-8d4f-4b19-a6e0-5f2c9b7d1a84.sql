@@ -0,0 +1,24 @@
+-- Farkle: the target score, the minimum opening score and what the house-rule combinations
+-- are worth, on the game and its defaults. A 0 for three pairs or the straight means they
+-- don't score as a set; a 0 for four, five or six of a kind doubles the kind below it.
+ALTER TABLE public.games
+ADD COLUMN IF NOT EXISTS farkle_target_score INTEGER DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS farkle_min_opening INTEGER DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS farkle_three_pairs INTEGER DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS farkle_straight INTEGER DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS farkle_four_of_a_kind INTEGER DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS farkle_five_of_a_kind INTEGER DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS farkle_six_of_a_kind INTEGER DEFAULT NULL;
+
+ALTER TABLE public.game_defaults
+ADD COLUMN IF NOT EXISTS farkle_target_score INTEGER NOT NULL DEFAULT 10000,
+ADD COLUMN IF NOT EXISTS farkle_min_opening INTEGER NOT NULL DEFAULT 500,
+ADD COLUMN IF NOT EXISTS farkle_three_pairs INTEGER NOT NULL DEFAULT 1500,
+ADD COLUMN IF NOT EXISTS farkle_straight INTEGER NOT NULL DEFAULT 1500,
+ADD COLUMN IF NOT EXISTS farkle_four_of_a_kind INTEGER NOT NULL DEFAULT 1000,
+ADD COLUMN IF NOT EXISTS farkle_five_of_a_kind INTEGER NOT NULL DEFAULT 2000,
+ADD COLUMN IF NOT EXISTS farkle_six_of_a_kind INTEGER NOT NULL DEFAULT 3000;
+
+INSERT INTO public.game_defaults (game_type, ante_amount, farkle_target_score, farkle_min_opening, decision_timer_seconds, bot_decision_delay_seconds)
+VALUES ('farkle', 1, 10000, 500, 30, 2.0)
+ON CONFLICT (game_type) DO NOTHING;
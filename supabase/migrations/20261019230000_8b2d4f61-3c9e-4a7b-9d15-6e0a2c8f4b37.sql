@@ -0,0 +1,16 @@
+-- Liar's Dice: the dice in everyone's cup at the start of the game, whether ones are wild and
+-- whether a lost call costs the difference between the bid and the count (rather than one
+-- die), on the game and its defaults.
+ALTER TABLE public.games
+ADD COLUMN IF NOT EXISTS liars_dice_starting_dice INTEGER DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS liars_dice_ones_wild BOOLEAN DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS liars_dice_lose_difference BOOLEAN DEFAULT NULL;
+
+ALTER TABLE public.game_defaults
+ADD COLUMN IF NOT EXISTS liars_dice_starting_dice INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN IF NOT EXISTS liars_dice_ones_wild BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS liars_dice_lose_difference BOOLEAN NOT NULL DEFAULT false;
+
+INSERT INTO public.game_defaults (game_type, ante_amount, liars_dice_starting_dice, liars_dice_ones_wild, liars_dice_lose_difference, decision_timer_seconds, bot_decision_delay_seconds)
+VALUES ('liars-dice', 5, 5, true, false, 30, 2.0)
+ON CONFLICT (game_type) DO NOTHING;
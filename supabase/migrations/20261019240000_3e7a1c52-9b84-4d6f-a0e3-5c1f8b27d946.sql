@@ -0,0 +1,13 @@
+-- Spades: the score a partnership plays to and whether a side trailing by 100 or more may bid
+-- blind nil, on the game and its defaults.
+ALTER TABLE public.games
+ADD COLUMN IF NOT EXISTS spades_target_score INTEGER DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS spades_blind_nil BOOLEAN DEFAULT NULL;
+
+ALTER TABLE public.game_defaults
+ADD COLUMN IF NOT EXISTS spades_target_score INTEGER NOT NULL DEFAULT 500,
+ADD COLUMN IF NOT EXISTS spades_blind_nil BOOLEAN NOT NULL DEFAULT true;
+
+INSERT INTO public.game_defaults (game_type, ante_amount, spades_target_score, spades_blind_nil, decision_timer_seconds, bot_decision_delay_seconds)
+VALUES ('spades', 5, 500, true, 30, 2.0)
+ON CONFLICT (game_type) DO NOTHING;
@@ -0,0 +1,13 @@
+-- Euchre: the points a partnership plays to and whether the dealer is stuck naming trump when
+-- everyone else passes the second round, on the game and its defaults.
+ALTER TABLE public.games
+ADD COLUMN IF NOT EXISTS euchre_target_score INTEGER DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS euchre_stick_the_dealer BOOLEAN DEFAULT NULL;
+
+ALTER TABLE public.game_defaults
+ADD COLUMN IF NOT EXISTS euchre_target_score INTEGER NOT NULL DEFAULT 10,
+ADD COLUMN IF NOT EXISTS euchre_stick_the_dealer BOOLEAN NOT NULL DEFAULT false;
+
+INSERT INTO public.game_defaults (game_type, ante_amount, euchre_target_score, euchre_stick_the_dealer, decision_timer_seconds, bot_decision_delay_seconds)
+VALUES ('euchre', 5, 10, false, 30, 2.0)
+ON CONFLICT (game_type) DO NOTHING;
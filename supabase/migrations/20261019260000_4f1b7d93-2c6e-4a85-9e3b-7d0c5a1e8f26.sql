@@ -0,0 +1,7 @@
+-- Cribbage: four players as two partnerships sitting opposite each other, playing to a combined
+-- score, on the game and its defaults.
+ALTER TABLE public.games
+ADD COLUMN IF NOT EXISTS cribbage_partnerships BOOLEAN DEFAULT NULL;
+
+ALTER TABLE public.game_defaults
+ADD COLUMN IF NOT EXISTS cribbage_partnerships BOOLEAN NOT NULL DEFAULT false;
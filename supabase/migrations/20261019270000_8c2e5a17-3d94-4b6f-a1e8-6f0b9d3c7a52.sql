@@ -0,0 +1,7 @@
+-- Cribbage: muggins, where owners declare their own hand and crib counts and opponents may claim
+-- the points they miss, on the game and its defaults.
+ALTER TABLE public.games
+ADD COLUMN IF NOT EXISTS cribbage_muggins BOOLEAN DEFAULT NULL;
+
+ALTER TABLE public.game_defaults
+ADD COLUMN IF NOT EXISTS cribbage_muggins BOOLEAN NOT NULL DEFAULT false;
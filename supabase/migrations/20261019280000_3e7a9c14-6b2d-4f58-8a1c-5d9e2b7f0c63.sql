@@ -0,0 +1,4 @@
+-- How well a bot plays (easy, normal or hard), set per bot by the host. Cribbage bots read it.
+ALTER TABLE public.players
+ADD COLUMN IF NOT EXISTS bot_difficulty TEXT NOT NULL DEFAULT 'normal'
+CHECK (bot_difficulty IN ('easy', 'normal', 'hard'));
@@ -0,0 +1,9 @@
+-- Gin rummy: Oklahoma, where the first upcard sets the knock limit and a spade upcard doubles
+-- the hand, and Hollywood scoring across three games, on the game and its defaults.
+ALTER TABLE public.games
+ADD COLUMN IF NOT EXISTS gin_oklahoma BOOLEAN DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS gin_hollywood BOOLEAN DEFAULT NULL;
+
+ALTER TABLE public.game_defaults
+ADD COLUMN IF NOT EXISTS gin_oklahoma BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS gin_hollywood BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,76 @@
+-- append_hand_action runs as its owner, so it has to check the caller itself: only players
+-- seated in the game (or the service role) may log to its hands, and only under their own
+-- seat, a bot's, or a fold the game has already recorded for someone else (auto-fold and
+-- expired decision timers).
+CREATE OR REPLACE FUNCTION public.append_hand_action(
+  _round_id uuid,
+  _action_type text,
+  _payload jsonb DEFAULT '{}'::jsonb,
+  _player_id uuid DEFAULT NULL,
+  _action_key text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _round record;
+  _player record;
+BEGIN
+  SELECT r.id, r.game_id, r.dealer_game_id, r.hand_number, r.round_number, gm.game_type
+  INTO _round
+  FROM public.rounds r
+  JOIN public.games gm ON gm.id = r.game_id
+  WHERE r.id = _round_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round % not found', _round_id;
+  END IF;
+
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    IF NOT public.user_is_in_game(_round.game_id) THEN
+      RAISE EXCEPTION 'Not in game';
+    END IF;
+
+    IF _player_id IS NOT NULL THEN
+      SELECT pl.user_id, pl.is_bot, pl.decision_locked, pl.current_decision
+      INTO _player
+      FROM public.players pl
+      WHERE pl.id = _player_id
+        AND pl.game_id = _round.game_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Player not in game';
+      END IF;
+
+      IF NOT _player.is_bot
+        AND _player.user_id IS DISTINCT FROM auth.uid()
+        AND NOT (
+          _action_type = 'decision'
+          AND _payload->>'decision' = 'fold'
+          AND _player.decision_locked
+          AND _player.current_decision = 'fold'
+        ) THEN
+        RAISE EXCEPTION 'Not player owner';
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN public.append_hand_action_row(
+    _round.game_id,
+    _round.dealer_game_id,
+    COALESCE(_round.hand_number, 1),
+    _round.id,
+    _round.round_number,
+    COALESCE(_round.game_type, 'unknown'),
+    _player_id,
+    _action_type,
+    _payload,
+    _action_key
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.append_hand_action(uuid, text, jsonb, uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.append_hand_action(uuid, text, jsonb, uuid, text) TO authenticated, service_role;
@@ -0,0 +1,231 @@
+-- Deal and roll real-money hands on the server.
+-- draw_fair_randoms handed clients the raw stream of a hand's seed: read from the start of
+-- the deck label it fixed the whole deck (every hole card and every card still to come),
+-- and since the caller picked the hand, later hands' decks and dice could be read ahead.
+-- Clients now get only the cards being dealt and the dice being rolled. The hand is the
+-- game's current one (the next, once every round of it is completed), and the deck is
+-- shuffled here and dealt off the top: a card leaves the server once, and only when it's
+-- dealt. The raw stream never leaves the database.
+
+-- label -> {"size": cards in the deck, "count": cards dealt off it so far}
+ALTER TABLE public.hand_seeds
+  ADD COLUMN dealt jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+DROP FUNCTION IF EXISTS public.draw_fair_randoms(uuid, text, integer, boolean, uuid, integer);
+
+-- The seed of the hand a deal or roll belongs to, locked and committed on first use.
+-- Only the deadline enforcers (service role) name the hand; they deal a new hand before
+-- its round and total_hands exist.
+CREATE OR REPLACE FUNCTION public.lock_fair_hand_seed(
+  _game_id uuid,
+  _dealer_game_id uuid DEFAULT NULL,
+  _hand_number integer DEFAULT NULL
+)
+RETURNS public.hand_seeds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  g record;
+  s public.hand_seeds;
+  target_dealer_game uuid;
+  target_hand integer;
+  new_seed text;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    IF NOT public.user_is_in_game(_game_id) THEN
+      RAISE EXCEPTION 'Not in game';
+    END IF;
+    IF _dealer_game_id IS NOT NULL OR _hand_number IS NOT NULL THEN
+      RAISE EXCEPTION 'The hand is taken from the game';
+    END IF;
+  END IF;
+
+  SELECT gm.id, gm.real_money, gm.current_game_uuid, gm.total_hands
+  INTO g
+  FROM public.games gm
+  WHERE gm.id = _game_id;
+
+  IF g.id IS NULL THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  IF NOT COALESCE(g.real_money, false) THEN
+    RAISE EXCEPTION 'Fair draws are only used for real-money games';
+  END IF;
+
+  target_dealer_game := COALESCE(_dealer_game_id, g.current_game_uuid);
+
+  IF target_dealer_game IS NULL THEN
+    RAISE EXCEPTION 'No dealer game in progress';
+  END IF;
+
+  -- The hand in play, or the next one once all of its rounds are completed. A newer seed
+  -- reveals the older ones (see hand_seed_is_revealed), so the next hand's seed can't be
+  -- opened while the current hand is still being played.
+  target_hand := _hand_number;
+  IF target_hand IS NULL THEN
+    target_hand := COALESCE(g.total_hands, 0);
+    IF NOT EXISTS (
+      SELECT 1 FROM public.rounds r
+      WHERE r.game_id = _game_id
+        AND r.dealer_game_id = target_dealer_game
+        AND r.hand_number = target_hand
+        AND r.status <> 'completed'
+    ) THEN
+      target_hand := target_hand + 1;
+    END IF;
+  END IF;
+
+  -- Commit: the hash is stored before anything derived from the seed leaves the server
+  new_seed := replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+  INSERT INTO public.hand_seeds (game_id, dealer_game_id, hand_number, server_seed, seed_hash)
+  VALUES (
+    _game_id,
+    target_dealer_game,
+    target_hand,
+    new_seed,
+    encode(sha256(convert_to(new_seed, 'UTF8')), 'hex')
+  )
+  ON CONFLICT (game_id, dealer_game_id, hand_number) DO NOTHING;
+
+  SELECT *
+  INTO s
+  FROM public.hand_seeds hs
+  WHERE hs.game_id = _game_id
+    AND hs.dealer_game_id = target_dealer_game
+    AND hs.hand_number = target_hand
+  FOR UPDATE;
+
+  IF public.hand_seed_is_revealed(s.id) THEN
+    RAISE EXCEPTION 'Hand seed already revealed';
+  END IF;
+
+  RETURN s;
+END;
+$function$;
+
+-- The index-th raw value of a seed's labelled stream, u32(sha256(seed || ':' || label || ':' || index))
+CREATE OR REPLACE FUNCTION public.fair_stream_value(_seed text, _label text, _index integer)
+RETURNS bigint
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  hashed bytea := sha256(convert_to(_seed || ':' || _label || ':' || _index::text, 'UTF8'));
+BEGIN
+  RETURN (get_byte(hashed, 0)::bigint << 24)
+    | (get_byte(hashed, 1)::bigint << 16)
+    | (get_byte(hashed, 2)::bigint << 8)
+    | get_byte(hashed, 3)::bigint;
+END;
+$function$;
+
+-- Deal the next _count cards off the top of the hand's deck (the 3-5-7 round's, for
+-- _round_number > 1). Returns their positions in the unshuffled deck of _deck_size cards,
+-- in the order dealt. The deck is the same Fisher-Yates shuffle as random.ts, so hand
+-- history re-derives it from the revealed seed.
+CREATE OR REPLACE FUNCTION public.deal_fair_cards(
+  _game_id uuid,
+  _deck_size integer,
+  _count integer,
+  _round_number integer DEFAULT NULL,
+  _dealer_game_id uuid DEFAULT NULL,
+  _hand_number integer DEFAULT NULL
+)
+RETURNS integer[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  s public.hand_seeds;
+  deck_label text := CASE WHEN COALESCE(_round_number, 1) > 1 THEN 'deck:' || _round_number ELSE 'deck' END;
+  dealt_before integer;
+  deck integer[];
+  i integer;
+  j integer;
+  swap integer;
+BEGIN
+  IF _deck_size < 2 OR _deck_size > 128 THEN
+    RAISE EXCEPTION 'Invalid deck size: %', _deck_size;
+  END IF;
+
+  IF _count < 1 THEN
+    RAISE EXCEPTION 'Invalid deal count: %', _count;
+  END IF;
+
+  s := public.lock_fair_hand_seed(_game_id, _dealer_game_id, _hand_number);
+
+  IF (s.dealt -> deck_label ->> 'size')::integer <> _deck_size THEN
+    RAISE EXCEPTION 'This hand''s deck has % cards', s.dealt -> deck_label ->> 'size';
+  END IF;
+
+  dealt_before := COALESCE((s.dealt -> deck_label ->> 'count')::integer, 0);
+
+  IF dealt_before + _count > _deck_size THEN
+    RAISE EXCEPTION 'Only % cards left in the deck', _deck_size - dealt_before;
+  END IF;
+
+  -- Fisher-Yates over deck positions, highest index first, one stream value per swap
+  deck := ARRAY(SELECT generate_series(0, _deck_size - 1));
+  FOR i IN REVERSE _deck_size - 1 .. 1 LOOP
+    j := ((public.fair_stream_value(s.server_seed, deck_label, _deck_size - 1 - i) * (i + 1)) >> 32)::integer;
+    swap := deck[i + 1];
+    deck[i + 1] := deck[j + 1];
+    deck[j + 1] := swap;
+  END LOOP;
+
+  UPDATE public.hand_seeds
+  SET dealt = jsonb_set(
+        dealt,
+        ARRAY[deck_label],
+        jsonb_build_object('size', _deck_size, 'count', dealt_before + _count)
+      ),
+      draws = jsonb_set(draws, ARRAY[deck_label], to_jsonb(_deck_size - 1))
+  WHERE id = s.id;
+
+  RETURN deck[dealt_before + 1 : dealt_before + _count];
+END;
+$function$;
+
+-- Roll _count dice for the hand, continuing its dice stream. Returns the values (1-6).
+CREATE OR REPLACE FUNCTION public.roll_fair_dice(_game_id uuid, _count integer)
+RETURNS integer[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  s public.hand_seeds;
+  rolled_before integer;
+  i integer;
+  result integer[] := '{}';
+BEGIN
+  IF _count < 1 OR _count > 128 THEN
+    RAISE EXCEPTION 'Invalid roll count: %', _count;
+  END IF;
+
+  s := public.lock_fair_hand_seed(_game_id);
+  rolled_before := COALESCE((s.draws ->> 'dice')::integer, 0);
+
+  FOR i IN rolled_before .. rolled_before + _count - 1 LOOP
+    result := result || (((public.fair_stream_value(s.server_seed, 'dice', i) * 6) >> 32) + 1)::integer;
+  END LOOP;
+
+  UPDATE public.hand_seeds
+  SET draws = jsonb_set(draws, ARRAY['dice'], to_jsonb(rolled_before + _count))
+  WHERE id = s.id;
+
+  RETURN result;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_fair_hand_seed(uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fair_stream_value(text, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.deal_fair_cards(uuid, integer, integer, integer, uuid, integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.roll_fair_dice(uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.deal_fair_cards(uuid, integer, integer, integer, uuid, integer) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.roll_fair_dice(uuid, integer) TO authenticated, service_role;
@@ -0,0 +1,96 @@
+-- Hold'em turns its board up street by street from the hand's deck, and the cards still to
+-- come have nowhere public to wait: the stored state hides the hole cards, so a client
+-- can't deal the turn without risking a card someone holds. Every hold'em hand, play money
+-- included, is dealt from the server's deck. Other play-money games keep Math.random.
+
+CREATE OR REPLACE FUNCTION public.lock_fair_hand_seed(
+  _game_id uuid,
+  _dealer_game_id uuid DEFAULT NULL,
+  _hand_number integer DEFAULT NULL
+)
+RETURNS public.hand_seeds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  g record;
+  s public.hand_seeds;
+  target_dealer_game uuid;
+  target_hand integer;
+  new_seed text;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    IF NOT public.user_is_in_game(_game_id) THEN
+      RAISE EXCEPTION 'Not in game';
+    END IF;
+    IF _dealer_game_id IS NOT NULL OR _hand_number IS NOT NULL THEN
+      RAISE EXCEPTION 'The hand is taken from the game';
+    END IF;
+  END IF;
+
+  SELECT gm.id, gm.real_money, gm.game_type, gm.current_game_uuid, gm.total_hands
+  INTO g
+  FROM public.games gm
+  WHERE gm.id = _game_id;
+
+  IF g.id IS NULL THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  IF NOT COALESCE(g.real_money, false) AND g.game_type IS DISTINCT FROM 'holdem' THEN
+    RAISE EXCEPTION 'Fair draws are only used for real-money games and hold''em';
+  END IF;
+
+  target_dealer_game := COALESCE(_dealer_game_id, g.current_game_uuid);
+
+  IF target_dealer_game IS NULL THEN
+    RAISE EXCEPTION 'No dealer game in progress';
+  END IF;
+
+  -- The hand in play, or the next one once all of its rounds are completed. A newer seed
+  -- reveals the older ones (see hand_seed_is_revealed), so the next hand's seed can't be
+  -- opened while the current hand is still being played.
+  target_hand := _hand_number;
+  IF target_hand IS NULL THEN
+    target_hand := COALESCE(g.total_hands, 0);
+    IF NOT EXISTS (
+      SELECT 1 FROM public.rounds r
+      WHERE r.game_id = _game_id
+        AND r.dealer_game_id = target_dealer_game
+        AND r.hand_number = target_hand
+        AND r.status <> 'completed'
+    ) THEN
+      target_hand := target_hand + 1;
+    END IF;
+  END IF;
+
+  -- Commit: the hash is stored before anything derived from the seed leaves the server
+  new_seed := replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+  INSERT INTO public.hand_seeds (game_id, dealer_game_id, hand_number, server_seed, seed_hash)
+  VALUES (
+    _game_id,
+    target_dealer_game,
+    target_hand,
+    new_seed,
+    encode(sha256(convert_to(new_seed, 'UTF8')), 'hex')
+  )
+  ON CONFLICT (game_id, dealer_game_id, hand_number) DO NOTHING;
+
+  SELECT *
+  INTO s
+  FROM public.hand_seeds hs
+  WHERE hs.game_id = _game_id
+    AND hs.dealer_game_id = target_dealer_game
+    AND hs.hand_number = target_hand
+  FOR UPDATE;
+
+  IF public.hand_seed_is_revealed(s.id) THEN
+    RAISE EXCEPTION 'Hand seed already revealed';
+  END IF;
+
+  RETURN s;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_fair_hand_seed(uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,327 @@
+-- Only the acting seat draws from a hand's seed, and every draw is recorded.
+-- deal_fair_cards and roll_fair_dice let anyone in the game draw at any time: each call
+-- advanced the stream, so a player could peek at (or burn) the board and Chucky's cards,
+-- and the dealing client could call again until it liked the cards. A draw now has to
+-- come from the seat whose turn it is (the host draws for bots), in a phase of the hand
+-- that deals or rolls. Between turns (a new hand, a 3-5-7 round, Chucky) the table draws:
+-- the dealer's seat, the host, or whoever started that deck, and a deck can only be
+-- started once. Each draw is logged in hand_seeds.deals with the seat it was for, so hand
+-- history can check the recorded deals against the revealed seed.
+--
+-- Decks are named by label rather than round number, so Holm's Chucky gets its own deck
+-- ('chucky') and whoever settles the showdown can start it.
+
+-- [{label, from, count, seat, drawn_by, deck_size, positions} or {label: 'dice', ..., values}]
+ALTER TABLE public.hand_seeds
+  ADD COLUMN deals jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Check that the caller may draw `_label` from seed `_seed_id` now. Returns the seat whose
+-- turn it is (NULL for a table draw) and the caller's seat. The deadline enforcers
+-- (service role) draw for whoever timed out and aren't checked.
+CREATE OR REPLACE FUNCTION public.authorize_fair_draw(
+  _game_id uuid,
+  _seed_id uuid,
+  _label text,
+  OUT acting_seat integer,
+  OUT drawn_by integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  g record;
+  s public.hand_seeds;
+  r public.rounds;
+  caller public.players;
+  turn_player public.players;
+  turn_player_id uuid;
+  is_host boolean;
+  label_started_by jsonb;
+BEGIN
+  SELECT gm.id, gm.game_type, gm.current_host, gm.dealer_position
+  INTO g
+  FROM public.games gm
+  WHERE gm.id = _game_id;
+
+  SELECT * INTO s FROM public.hand_seeds hs WHERE hs.id = _seed_id;
+
+  SELECT *
+  INTO caller
+  FROM public.players p
+  WHERE p.game_id = _game_id
+    AND p.user_id = auth.uid()
+  LIMIT 1;
+
+  drawn_by := caller.position;
+
+  -- The hand's round still in play, if it has been created yet
+  SELECT *
+  INTO r
+  FROM public.rounds rd
+  WHERE rd.game_id = _game_id
+    AND rd.dealer_game_id = s.dealer_game_id
+    AND rd.hand_number = s.hand_number
+    AND rd.status <> 'completed'
+  ORDER BY rd.round_number DESC
+  LIMIT 1;
+
+  IF r.id IS NOT NULL THEN
+    IF r.status = 'game_over' OR COALESCE(r.game_state ->> 'phase', '') IN ('showdown', 'complete') THEN
+      RAISE EXCEPTION 'Nothing is dealt at this point of the hand';
+    END IF;
+
+    IF g.game_type = 'cribbage' AND r.game_state IS NOT NULL THEN
+      -- Cribbage deals before the round's state exists, then only the cut, turned by the
+      -- last player to discard
+      IF r.game_state ->> 'phase' <> 'discarding' THEN
+        RAISE EXCEPTION 'Nothing is dealt at this point of the hand';
+      END IF;
+
+      SELECT CASE WHEN count(*) = 1 THEN (array_agg(ps.key))[1]::uuid END
+      INTO turn_player_id
+      FROM jsonb_each(r.game_state -> 'playerStates') ps
+      WHERE jsonb_array_length(COALESCE(ps.value -> 'discardedToCrib', '[]'::jsonb)) = 0;
+
+      IF turn_player_id IS NULL THEN
+        RAISE EXCEPTION 'The cut is turned by the last player to discard';
+      END IF;
+    ELSIF r.status = 'betting' THEN
+      SELECT p.id
+      INTO turn_player_id
+      FROM public.players p
+      WHERE p.game_id = _game_id
+        AND p.position = r.current_turn_position;
+
+      turn_player_id := COALESCE(
+        turn_player_id,
+        NULLIF(r.game_state ->> 'currentTurnPlayerId', '')::uuid,
+        NULLIF(r.horses_state ->> 'currentTurnPlayerId', '')::uuid
+      );
+    END IF;
+  END IF;
+
+  IF turn_player_id IS NOT NULL THEN
+    SELECT * INTO turn_player FROM public.players p WHERE p.id = turn_player_id;
+    acting_seat := turn_player.position;
+  END IF;
+
+  IF COALESCE(auth.role(), '') = 'service_role' THEN
+    RETURN;
+  END IF;
+
+  IF caller.id IS NULL THEN
+    RAISE EXCEPTION 'Not seated in this game';
+  END IF;
+
+  -- The host runs the bots (and the table, when nobody else is dealing)
+  is_host := CASE
+    WHEN g.current_host IS NOT NULL THEN g.current_host = auth.uid()
+    ELSE auth.uid() = (
+      SELECT p.user_id
+      FROM public.players p
+      WHERE p.game_id = _game_id
+        AND NOT COALESCE(p.is_bot, false)
+      ORDER BY p.created_at
+      LIMIT 1
+    )
+  END;
+
+  IF turn_player.id IS NOT NULL THEN
+    IF turn_player.id = caller.id OR (COALESCE(turn_player.is_bot, false) AND is_host) THEN
+      RETURN;
+    END IF;
+    RAISE EXCEPTION 'Only the player to act can draw';
+  END IF;
+
+  -- Nobody's turn: the table draws. A deck that hasn't been started can be started by
+  -- anyone seated (the client that won the race to deal the hand); after that only by
+  -- whoever started it, the dealer's seat or the host.
+  SELECT d
+  INTO label_started_by
+  FROM jsonb_array_elements(s.deals) d
+  WHERE d ->> 'label' = _label
+  LIMIT 1;
+
+  IF label_started_by IS NULL
+     OR (label_started_by ->> 'drawn_by')::integer = caller.position
+     OR caller.position = g.dealer_position
+     OR is_host THEN
+    RETURN;
+  END IF;
+
+  RAISE EXCEPTION 'This deck is being dealt by another player';
+END;
+$function$;
+
+DROP FUNCTION IF EXISTS public.deal_fair_cards(uuid, integer, integer, integer, uuid, integer);
+
+-- Deal the next _count cards off the top of the hand's deck `_label` ('deck', a 3-5-7
+-- round's 'deck:N', or Holm's 'chucky'). Returns their positions in the unshuffled deck
+-- of _deck_size cards, in the order dealt. The deck is the same Fisher-Yates shuffle as
+-- random.ts, so hand history re-derives it from the revealed seed.
+CREATE OR REPLACE FUNCTION public.deal_fair_cards(
+  _game_id uuid,
+  _deck_size integer,
+  _count integer,
+  _label text DEFAULT 'deck',
+  _dealer_game_id uuid DEFAULT NULL,
+  _hand_number integer DEFAULT NULL
+)
+RETURNS integer[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  s public.hand_seeds;
+  seat record;
+  dealt_before integer;
+  deck integer[];
+  dealt integer[];
+  i integer;
+  j integer;
+  swap integer;
+BEGIN
+  IF _label IS NULL OR _label !~ '^(deck(:[0-9]+)?|chucky)$' THEN
+    RAISE EXCEPTION 'Invalid deck: %', _label;
+  END IF;
+
+  IF _deck_size < 2 OR _deck_size > 128 THEN
+    RAISE EXCEPTION 'Invalid deck size: %', _deck_size;
+  END IF;
+
+  IF _count < 1 THEN
+    RAISE EXCEPTION 'Invalid deal count: %', _count;
+  END IF;
+
+  s := public.lock_fair_hand_seed(_game_id, _dealer_game_id, _hand_number);
+  SELECT * INTO seat FROM public.authorize_fair_draw(_game_id, s.id, _label);
+
+  IF (s.dealt -> _label ->> 'size')::integer <> _deck_size THEN
+    RAISE EXCEPTION 'This hand''s deck has % cards', s.dealt -> _label ->> 'size';
+  END IF;
+
+  dealt_before := COALESCE((s.dealt -> _label ->> 'count')::integer, 0);
+
+  IF dealt_before + _count > _deck_size THEN
+    RAISE EXCEPTION 'Only % cards left in the deck', _deck_size - dealt_before;
+  END IF;
+
+  -- Fisher-Yates over deck positions, highest index first, one stream value per swap
+  deck := ARRAY(SELECT generate_series(0, _deck_size - 1));
+  FOR i IN REVERSE _deck_size - 1 .. 1 LOOP
+    j := ((public.fair_stream_value(s.server_seed, _label, _deck_size - 1 - i) * (i + 1)) >> 32)::integer;
+    swap := deck[i + 1];
+    deck[i + 1] := deck[j + 1];
+    deck[j + 1] := swap;
+  END LOOP;
+
+  dealt := deck[dealt_before + 1 : dealt_before + _count];
+
+  UPDATE public.hand_seeds
+  SET dealt = jsonb_set(
+        dealt,
+        ARRAY[_label],
+        jsonb_build_object('size', _deck_size, 'count', dealt_before + _count)
+      ),
+      draws = jsonb_set(draws, ARRAY[_label], to_jsonb(_deck_size - 1)),
+      deals = deals || jsonb_build_array(jsonb_build_object(
+        'label', _label,
+        'from', dealt_before,
+        'count', _count,
+        'seat', seat.acting_seat,
+        'drawn_by', seat.drawn_by,
+        'deck_size', _deck_size,
+        'positions', to_jsonb(dealt)
+      ))
+  WHERE id = s.id;
+
+  RETURN dealt;
+END;
+$function$;
+
+-- Roll _count dice for the hand, continuing its dice stream. Returns the values (1-6).
+CREATE OR REPLACE FUNCTION public.roll_fair_dice(_game_id uuid, _count integer)
+RETURNS integer[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  s public.hand_seeds;
+  seat record;
+  rolled_before integer;
+  i integer;
+  result integer[] := '{}';
+BEGIN
+  IF _count < 1 OR _count > 128 THEN
+    RAISE EXCEPTION 'Invalid roll count: %', _count;
+  END IF;
+
+  s := public.lock_fair_hand_seed(_game_id);
+  SELECT * INTO seat FROM public.authorize_fair_draw(_game_id, s.id, 'dice');
+  rolled_before := COALESCE((s.draws ->> 'dice')::integer, 0);
+
+  FOR i IN rolled_before .. rolled_before + _count - 1 LOOP
+    result := result || (((public.fair_stream_value(s.server_seed, 'dice', i) * 6) >> 32) + 1)::integer;
+  END LOOP;
+
+  UPDATE public.hand_seeds
+  SET draws = jsonb_set(draws, ARRAY['dice'], to_jsonb(rolled_before + _count)),
+      deals = deals || jsonb_build_array(jsonb_build_object(
+        'label', 'dice',
+        'from', rolled_before,
+        'count', _count,
+        'seat', seat.acting_seat,
+        'drawn_by', seat.drawn_by,
+        'values', to_jsonb(result)
+      ))
+  WHERE id = s.id;
+
+  RETURN result;
+END;
+$function$;
+
+-- The recorded deals name the cards dealt, so like the seed they stay hidden until the
+-- hand is over
+DROP FUNCTION IF EXISTS public.get_hand_seeds(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_hand_seeds(_game_id uuid)
+RETURNS TABLE (
+  dealer_game_id uuid,
+  hand_number integer,
+  seed_hash text,
+  server_seed text,
+  draws jsonb,
+  deals jsonb,
+  created_at timestamp with time zone
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT hs.dealer_game_id,
+         hs.hand_number,
+         hs.seed_hash,
+         CASE WHEN public.hand_seed_is_revealed(hs.id) THEN hs.server_seed END,
+         hs.draws,
+         CASE WHEN public.hand_seed_is_revealed(hs.id) THEN hs.deals ELSE '[]'::jsonb END,
+         hs.created_at
+  FROM public.hand_seeds hs
+  WHERE hs.game_id = _game_id
+  ORDER BY hs.created_at;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.authorize_fair_draw(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.deal_fair_cards(uuid, integer, integer, text, uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.deal_fair_cards(uuid, integer, integer, text, uuid, integer) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_hand_seeds(uuid) TO authenticated;
@@ -0,0 +1,240 @@
+-- Screw Your Neighbor: face-down cards stay in player_cards.
+-- rounds.game_state held everyone's card so the client making a swap could move its
+-- neighbor's, which put every face-down card in front of the whole table. The stored state
+-- now has only the kings turned up, each card waits in the player's player_cards row, and
+-- a swap trades the two rows here: the player to act (or the host, for a bot) gets back
+-- the card they end up with, and the neighbor's card only if it's the king that blocks
+-- the swap. The round's 'showdown' status opens player_cards up for the reveal.
+--
+-- The undealt cards have nowhere private to wait for the dealer's cut either, so like
+-- hold'em every hand is dealt from the server's deck, play money included.
+
+CREATE OR REPLACE FUNCTION public.lock_fair_hand_seed(
+  _game_id uuid,
+  _dealer_game_id uuid DEFAULT NULL,
+  _hand_number integer DEFAULT NULL
+)
+RETURNS public.hand_seeds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  g record;
+  s public.hand_seeds;
+  target_dealer_game uuid;
+  target_hand integer;
+  new_seed text;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    IF NOT public.user_is_in_game(_game_id) THEN
+      RAISE EXCEPTION 'Not in game';
+    END IF;
+    IF _dealer_game_id IS NOT NULL OR _hand_number IS NOT NULL THEN
+      RAISE EXCEPTION 'The hand is taken from the game';
+    END IF;
+  END IF;
+
+  SELECT gm.id, gm.real_money, gm.game_type, gm.current_game_uuid, gm.total_hands
+  INTO g
+  FROM public.games gm
+  WHERE gm.id = _game_id;
+
+  IF g.id IS NULL THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  IF NOT COALESCE(g.real_money, false) AND g.game_type NOT IN ('holdem', 'screw-your-neighbor') THEN
+    RAISE EXCEPTION 'Fair draws are only used for real-money games, hold''em and screw your neighbor';
+  END IF;
+
+  target_dealer_game := COALESCE(_dealer_game_id, g.current_game_uuid);
+
+  IF target_dealer_game IS NULL THEN
+    RAISE EXCEPTION 'No dealer game in progress';
+  END IF;
+
+  -- The hand in play, or the next one once all of its rounds are completed. A newer seed
+  -- reveals the older ones (see hand_seed_is_revealed), so the next hand's seed can't be
+  -- opened while the current hand is still being played.
+  target_hand := _hand_number;
+  IF target_hand IS NULL THEN
+    target_hand := COALESCE(g.total_hands, 0);
+    IF NOT EXISTS (
+      SELECT 1 FROM public.rounds r
+      WHERE r.game_id = _game_id
+        AND r.dealer_game_id = target_dealer_game
+        AND r.hand_number = target_hand
+        AND r.status <> 'completed'
+    ) THEN
+      target_hand := target_hand + 1;
+    END IF;
+  END IF;
+
+  -- Commit: the hash is stored before anything derived from the seed leaves the server
+  new_seed := replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+  INSERT INTO public.hand_seeds (game_id, dealer_game_id, hand_number, server_seed, seed_hash)
+  VALUES (
+    _game_id,
+    target_dealer_game,
+    target_hand,
+    new_seed,
+    encode(sha256(convert_to(new_seed, 'UTF8')), 'hex')
+  )
+  ON CONFLICT (game_id, dealer_game_id, hand_number) DO NOTHING;
+
+  SELECT *
+  INTO s
+  FROM public.hand_seeds hs
+  WHERE hs.game_id = _game_id
+    AND hs.dealer_game_id = target_dealer_game
+    AND hs.hand_number = target_hand
+  FOR UPDATE;
+
+  IF public.hand_seed_is_revealed(s.id) THEN
+    RAISE EXCEPTION 'Hand seed already revealed';
+  END IF;
+
+  RETURN s;
+END;
+$function$;
+REVOKE EXECUTE ON FUNCTION public.lock_fair_hand_seed(uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
+
+
+CREATE OR REPLACE FUNCTION public.swap_screw_your_neighbor_cards(_round_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  r public.rounds;
+  g record;
+  caller public.players;
+  turn_player public.players;
+  target_player public.players;
+  is_host boolean;
+  turn_id text;
+  target_id text;
+  mine jsonb;
+  theirs jsonb;
+  blocked boolean;
+  next_state jsonb;
+BEGIN
+  -- Serialize moves on the round
+  SELECT * INTO r FROM public.rounds rd WHERE rd.id = _round_id FOR UPDATE;
+
+  IF r.id IS NULL THEN
+    RAISE EXCEPTION 'Round % not found', _round_id;
+  END IF;
+
+  SELECT gm.game_type, gm.current_host INTO g FROM public.games gm WHERE gm.id = r.game_id;
+
+  IF g.game_type <> 'screw-your-neighbor'
+     OR r.status <> 'betting'
+     OR COALESCE(r.game_state ->> 'phase', '') <> 'swapping' THEN
+    RAISE EXCEPTION 'Not swapping';
+  END IF;
+
+  turn_id := r.game_state ->> 'currentTurnPlayerId';
+  SELECT * INTO turn_player FROM public.players p WHERE p.id = turn_id::uuid;
+
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    SELECT *
+    INTO caller
+    FROM public.players p
+    WHERE p.game_id = r.game_id
+      AND p.user_id = auth.uid()
+    LIMIT 1;
+
+    -- The host runs the bots
+    is_host := CASE
+      WHEN g.current_host IS NOT NULL THEN g.current_host = auth.uid()
+      ELSE auth.uid() = (
+        SELECT p.user_id
+        FROM public.players p
+        WHERE p.game_id = r.game_id
+          AND NOT COALESCE(p.is_bot, false)
+        ORDER BY p.created_at
+        LIMIT 1
+      )
+    END;
+
+    IF caller.id IS NULL
+       OR NOT (turn_player.id = caller.id OR (COALESCE(turn_player.is_bot, false) AND is_host)) THEN
+      RAISE EXCEPTION 'Not your turn';
+    END IF;
+  END IF;
+
+  IF turn_id = r.game_state ->> 'dealerPlayerId' THEN
+    RAISE EXCEPTION 'The dealer cuts the deck instead of swapping';
+  END IF;
+
+  -- The player on the left is next in turn order (the dealer is last and never swaps)
+  SELECT r.game_state -> 'seatOrder' ->> (s.ord::integer)
+  INTO target_id
+  FROM jsonb_array_elements_text(r.game_state -> 'seatOrder') WITH ORDINALITY AS s(id, ord)
+  WHERE s.id = turn_id;
+
+  SELECT * INTO target_player FROM public.players p WHERE p.id = target_id::uuid;
+
+  SELECT pc.cards INTO mine
+  FROM public.player_cards pc
+  WHERE pc.round_id = _round_id AND pc.player_id = turn_player.id
+  FOR UPDATE;
+
+  SELECT pc.cards INTO theirs
+  FROM public.player_cards pc
+  WHERE pc.round_id = _round_id AND pc.player_id = target_player.id
+  FOR UPDATE;
+
+  IF mine IS NULL OR theirs IS NULL THEN
+    RAISE EXCEPTION 'The cards have not been dealt';
+  END IF;
+
+  IF mine -> 0 ->> 'rank' = 'K' THEN
+    RAISE EXCEPTION 'A king is kept';
+  END IF;
+
+  blocked := theirs -> 0 ->> 'rank' = 'K';
+
+  -- The same move swapScrewYourNeighborCard makes on the stored state
+  next_state := jsonb_set(
+    jsonb_set(
+      r.game_state,
+      '{moves}',
+      COALESCE(r.game_state -> 'moves', '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+        'type', CASE WHEN blocked THEN 'blocked' ELSE 'swap' END,
+        'playerId', turn_id,
+        'targetPlayerId', target_id
+      ))
+    ),
+    '{currentTurnPlayerId}',
+    to_jsonb(target_id)
+  );
+
+  IF blocked THEN
+    next_state := jsonb_set(next_state, ARRAY['cards', target_id], theirs -> 0);
+    IF NOT COALESCE(next_state -> 'kingsShown', '[]'::jsonb) ? target_id THEN
+      next_state := jsonb_set(next_state, '{kingsShown}', COALESCE(next_state -> 'kingsShown', '[]'::jsonb) || to_jsonb(target_id));
+    END IF;
+  ELSE
+    UPDATE public.player_cards SET cards = theirs WHERE round_id = _round_id AND player_id = turn_player.id;
+    UPDATE public.player_cards SET cards = mine WHERE round_id = _round_id AND player_id = target_player.id;
+  END IF;
+
+  UPDATE public.rounds
+  SET game_state = next_state,
+      current_turn_position = target_player.position
+  WHERE id = _round_id;
+
+  RETURN jsonb_build_object(
+    'state', next_state,
+    'blockedBy', CASE WHEN blocked THEN theirs -> 0 ELSE 'null'::jsonb END,
+    'card', CASE WHEN blocked THEN mine -> 0 ELSE theirs -> 0 END
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.swap_screw_your_neighbor_cards(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.swap_screw_your_neighbor_cards(uuid) TO authenticated, service_role;